@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "RaidItem" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "owner" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "severity" TEXT,
+    "likelihood" TEXT,
+    "dueDate" DATE,
+    "resolution" TEXT,
+    "decisionMaker" TEXT,
+    "decisionDate" DATE,
+    "planItemId" TEXT,
+    "sourceContentIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "sourceReportIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "lastReportedAt" TIMESTAMP(3),
+    "closedAt" TIMESTAMP(3),
+    "createdBy" TEXT NOT NULL DEFAULT 'user',
+    "createdByUserId" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RaidItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RaidItem_projectId_idx" ON "RaidItem"("projectId");
+
+-- CreateIndex
+CREATE INDEX "RaidItem_type_idx" ON "RaidItem"("type");
+
+-- CreateIndex
+CREATE INDEX "RaidItem_status_idx" ON "RaidItem"("status");
+
+-- CreateIndex
+CREATE INDEX "RaidItem_planItemId_idx" ON "RaidItem"("planItemId");
+
+-- CreateIndex
+CREATE INDEX "RaidItem_isActive_idx" ON "RaidItem"("isActive");
+
+-- AddForeignKey
+ALTER TABLE "RaidItem" ADD CONSTRAINT "RaidItem_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RaidItem" ADD CONSTRAINT "RaidItem_planItemId_fkey" FOREIGN KEY ("planItemId") REFERENCES "PlanItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "PlanItemDependency" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "predecessorId" TEXT NOT NULL,
+    "successorId" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'finish_to_start',
+    "lagDays" INTEGER NOT NULL DEFAULT 0,
+    "createdByUserId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PlanItemDependency_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PlanItemDependency_predecessorId_successorId_key" ON "PlanItemDependency"("predecessorId", "successorId");
+
+-- CreateIndex
+CREATE INDEX "PlanItemDependency_projectId_idx" ON "PlanItemDependency"("projectId");
+
+-- CreateIndex
+CREATE INDEX "PlanItemDependency_successorId_idx" ON "PlanItemDependency"("successorId");
+
+-- AddForeignKey
+ALTER TABLE "PlanItemDependency" ADD CONSTRAINT "PlanItemDependency_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlanItemDependency" ADD CONSTRAINT "PlanItemDependency_predecessorId_fkey" FOREIGN KEY ("predecessorId") REFERENCES "PlanItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlanItemDependency" ADD CONSTRAINT "PlanItemDependency_successorId_fkey" FOREIGN KEY ("successorId") REFERENCES "PlanItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
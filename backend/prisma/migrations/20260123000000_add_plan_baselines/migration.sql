@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "PlanBaseline" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdByUserId" INTEGER,
+    "createdByEmail" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PlanBaseline_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PlanBaselineItem" (
+    "id" TEXT NOT NULL,
+    "baselineId" TEXT NOT NULL,
+    "planItemId" TEXT NOT NULL,
+    "parentId" TEXT,
+    "path" TEXT NOT NULL DEFAULT '',
+    "name" TEXT NOT NULL,
+    "itemTypeName" TEXT NOT NULL,
+    "itemTypeLevel" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "startDate" DATE,
+    "targetEndDate" DATE,
+    "actualStartDate" DATE,
+    "actualEndDate" DATE,
+
+    CONSTRAINT "PlanBaselineItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PlanBaseline_projectId_name_key" ON "PlanBaseline"("projectId", "name");
+
+-- CreateIndex
+CREATE INDEX "PlanBaseline_projectId_idx" ON "PlanBaseline"("projectId");
+
+-- CreateIndex
+CREATE INDEX "PlanBaselineItem_baselineId_idx" ON "PlanBaselineItem"("baselineId");
+
+-- CreateIndex
+CREATE INDEX "PlanBaselineItem_planItemId_idx" ON "PlanBaselineItem"("planItemId");
+
+-- AddForeignKey
+ALTER TABLE "PlanBaseline" ADD CONSTRAINT "PlanBaseline_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlanBaselineItem" ADD CONSTRAINT "PlanBaselineItem_baselineId_fkey" FOREIGN KEY ("baselineId") REFERENCES "PlanBaseline"("id") ON DELETE CASCADE ON UPDATE CASCADE;
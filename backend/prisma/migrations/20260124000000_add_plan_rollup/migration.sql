@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "autoRollupStatus" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "progressWeighting" TEXT NOT NULL DEFAULT 'count';
+
+-- AlterTable
+ALTER TABLE "PlanItem" ADD COLUMN     "effort" DOUBLE PRECISION;
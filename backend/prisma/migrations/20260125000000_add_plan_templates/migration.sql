@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "PlanTemplate" (
+    "id" TEXT NOT NULL,
+    "organizationId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "sourceProjectId" TEXT,
+    "createdByUserId" INTEGER,
+    "createdByEmail" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PlanTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PlanTemplateItem" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "parentId" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "itemTypeSlug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "effort" DOUBLE PRECISION,
+    "startOffsetDays" INTEGER,
+    "endOffsetDays" INTEGER,
+
+    CONSTRAINT "PlanTemplateItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PlanTemplate_organizationId_name_key" ON "PlanTemplate"("organizationId", "name");
+
+-- CreateIndex
+CREATE INDEX "PlanTemplate_organizationId_idx" ON "PlanTemplate"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "PlanTemplateItem_templateId_idx" ON "PlanTemplateItem"("templateId");
+
+-- AddForeignKey
+ALTER TABLE "PlanTemplate" ADD CONSTRAINT "PlanTemplate_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlanTemplateItem" ADD CONSTRAINT "PlanTemplateItem_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "PlanTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
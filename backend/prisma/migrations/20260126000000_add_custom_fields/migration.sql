@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "PlanItem" ADD COLUMN "customFields" JSONB NOT NULL DEFAULT '{}';
+
+-- CreateTable
+CREATE TABLE "CustomField" (
+    "id" SERIAL NOT NULL,
+    "organizationId" INTEGER NOT NULL,
+    "planItemTypeId" INTEGER,
+    "key" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "description" TEXT,
+    "fieldType" TEXT NOT NULL DEFAULT 'text',
+    "options" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "required" BOOLEAN NOT NULL DEFAULT false,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CustomField_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CustomField_organizationId_idx" ON "CustomField"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "CustomField_planItemTypeId_idx" ON "CustomField"("planItemTypeId");
+
+-- AddForeignKey
+ALTER TABLE "CustomField" ADD CONSTRAINT "CustomField_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CustomField" ADD CONSTRAINT "CustomField_planItemTypeId_fkey" FOREIGN KEY ("planItemTypeId") REFERENCES "PlanItemType"("id") ON DELETE SET NULL ON UPDATE CASCADE;
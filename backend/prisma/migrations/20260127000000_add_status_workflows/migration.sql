@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "PlanItem" ADD COLUMN "workflowStatus" TEXT;
+
+-- CreateTable
+CREATE TABLE "StatusWorkflow" (
+    "id" SERIAL NOT NULL,
+    "organizationId" INTEGER NOT NULL,
+    "planItemTypeId" INTEGER NOT NULL,
+    "statuses" JSONB NOT NULL,
+    "transitions" JSONB NOT NULL,
+    "initialStatus" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StatusWorkflow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StatusWorkflow_organizationId_planItemTypeId_key" ON "StatusWorkflow"("organizationId", "planItemTypeId");
+
+-- AddForeignKey
+ALTER TABLE "StatusWorkflow" ADD CONSTRAINT "StatusWorkflow_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StatusWorkflow" ADD CONSTRAINT "StatusWorkflow_planItemTypeId_fkey" FOREIGN KEY ("planItemTypeId") REFERENCES "PlanItemType"("id") ON DELETE CASCADE ON UPDATE CASCADE;
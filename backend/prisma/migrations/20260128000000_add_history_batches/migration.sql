@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "PlanItemHistory" ADD COLUMN "batchId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "PlanItemHistory_batchId_idx" ON "PlanItemHistory"("batchId");
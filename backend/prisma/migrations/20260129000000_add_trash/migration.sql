@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "deletedAt" TIMESTAMP(3),
+ADD COLUMN "deletedByUserId" INTEGER,
+ADD COLUMN "deletedByEmail" TEXT;
+
+-- AlterTable
+ALTER TABLE "PlanItem" ADD COLUMN "deletedAt" TIMESTAMP(3),
+ADD COLUMN "deletedByUserId" INTEGER,
+ADD COLUMN "deletedByEmail" TEXT;
+
+-- AlterTable
+ALTER TABLE "ContentItem" ADD COLUMN "deletedAt" TIMESTAMP(3),
+ADD COLUMN "deletedByUserId" INTEGER,
+ADD COLUMN "deletedByEmail" TEXT;
+
+-- AlterTable
+ALTER TABLE "ContentChunk" ADD COLUMN "isActive" BOOLEAN NOT NULL DEFAULT true;
+
+-- Records deleted before the trash existed start their retention period now, so none of them is
+-- purged before anyone has had the chance to restore it
+UPDATE "Project" SET "deletedAt" = NOW() WHERE "isActive" = false;
+UPDATE "PlanItem" SET "deletedAt" = NOW() WHERE "isActive" = false;
+UPDATE "ContentItem" SET "deletedAt" = NOW() WHERE "isActive" = false;
+UPDATE "ContentChunk" SET "isActive" = false
+WHERE "contentItemId" IN (SELECT "id" FROM "ContentItem" WHERE "isActive" = false);
+
+-- CreateIndex
+CREATE INDEX "ContentChunk_isActive_idx" ON "ContentChunk"("isActive");
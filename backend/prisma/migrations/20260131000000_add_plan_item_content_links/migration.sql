@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "PlanItemContentLink" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "planItemId" TEXT NOT NULL,
+    "contentItemId" TEXT NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "createdByUserId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PlanItemContentLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PlanItemContentLink_planItemId_contentItemId_key" ON "PlanItemContentLink"("planItemId", "contentItemId");
+
+-- CreateIndex
+CREATE INDEX "PlanItemContentLink_projectId_idx" ON "PlanItemContentLink"("projectId");
+
+-- CreateIndex
+CREATE INDEX "PlanItemContentLink_contentItemId_idx" ON "PlanItemContentLink"("contentItemId");
+
+-- AddForeignKey
+ALTER TABLE "PlanItemContentLink" ADD CONSTRAINT "PlanItemContentLink_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlanItemContentLink" ADD CONSTRAINT "PlanItemContentLink_planItemId_fkey" FOREIGN KEY ("planItemId") REFERENCES "PlanItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlanItemContentLink" ADD CONSTRAINT "PlanItemContentLink_contentItemId_fkey" FOREIGN KEY ("contentItemId") REFERENCES "ContentItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill from both loose arrays, keeping only pairs whose rows exist in the same project
+INSERT INTO "PlanItemContentLink" ("id", "projectId", "planItemId", "contentItemId", "source", "createdAt")
+SELECT gen_random_uuid()::text, pairs."projectId", pairs."planItemId", pairs."contentItemId", 'manual', pairs."createdAt"
+FROM (
+    SELECT ci."projectId", pi."id" AS "planItemId", ci."id" AS "contentItemId", MIN(ci."createdAt") AS "createdAt"
+    FROM "ContentItem" ci
+    JOIN "PlanItem" pi ON pi."id" = ANY(ci."planItemIds") AND pi."projectId" = ci."projectId"
+    GROUP BY ci."projectId", pi."id", ci."id"
+    UNION
+    SELECT pi."projectId", pi."id", ci."id", MIN(pi."updatedAt")
+    FROM "PlanItem" pi
+    JOIN "ContentItem" ci ON ci."id" = ANY(pi."references") AND ci."projectId" = pi."projectId"
+    GROUP BY pi."projectId", pi."id", ci."id"
+) pairs
+ON CONFLICT ("planItemId", "contentItemId") DO NOTHING;
+
+-- AlterTable
+ALTER TABLE "ContentItem" DROP COLUMN "planItemIds";
+
+-- AlterTable
+ALTER TABLE "PlanItem" DROP COLUMN "references";
@@ -0,0 +1,13 @@
+-- Portfolio menu: the cross-project view of every project in an organization
+INSERT INTO "Menu" ("uuid", "name", "slug", "path", "icon", "section", "sortOrder", "updatedAt")
+VALUES (gen_random_uuid()::text, 'Portfolio', 'portfolio', '/portfolio', 'Briefcase', 'MAIN', 0, CURRENT_TIMESTAMP)
+ON CONFLICT ("slug") DO NOTHING;
+
+-- Every role that can read the plan can read the portfolio, including custom organization roles
+INSERT INTO "RolePermission" ("roleId", "menuId", "canCreate", "canRead", "canUpdate", "canDelete", "updatedAt")
+SELECT rp."roleId", portfolio."id", false, true, false, false, CURRENT_TIMESTAMP
+FROM "RolePermission" rp
+JOIN "Menu" plan ON plan."id" = rp."menuId" AND plan."slug" = 'plan'
+CROSS JOIN "Menu" portfolio
+WHERE portfolio."slug" = 'portfolio' AND rp."canRead" = true
+ON CONFLICT ("roleId", "menuId") DO NOTHING;
@@ -0,0 +1,46 @@
+-- AlterTable
+ALTER TABLE "RaidItem" ADD COLUMN "embedding" JSONB,
+ADD COLUMN "reminderKind" TEXT,
+ADD COLUMN "reminderSentAt" TIMESTAMP(3),
+ADD COLUMN "mergedIntoId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "RaidItem_dueDate_idx" ON "RaidItem"("dueDate");
+
+-- Track action items the intake agent split out of content that are not on the register yet,
+-- one entry per project, title and owner. Embeddings are filled in as the entries are next matched.
+INSERT INTO "RaidItem" (
+    "id", "projectId", "type", "title", "description", "owner", "status", "dueDate",
+    "sourceContentIds", "closedAt", "createdBy", "createdByUserId", "createdAt", "updatedAt"
+)
+SELECT
+    gen_random_uuid()::text, grouped."projectId", 'action', grouped."title", grouped."description",
+    grouped."owner", grouped."status", grouped."dueDate", grouped."sourceContentIds",
+    CASE WHEN grouped."status" = 'resolved' THEN CURRENT_TIMESTAMP END,
+    'intake_agent', grouped."createdByUserId", grouped."createdAt", CURRENT_TIMESTAMP
+FROM (
+    SELECT
+        ci."projectId",
+        MIN(ci."title") AS "title",
+        MIN(ci."rawContent") AS "description",
+        NULLIF(ci."aiExtractedEntities"->>'owner', '') AS "owner",
+        CASE WHEN bool_and(ci."aiExtractedEntities"->>'status' = 'completed') THEN 'resolved' ELSE 'open' END AS "status",
+        MAX(
+            CASE WHEN ci."aiExtractedEntities"->>'dueDate' ~ '^\d{4}-\d{2}-\d{2}'
+                THEN substring(ci."aiExtractedEntities"->>'dueDate' from 1 for 10)::date
+            END
+        ) AS "dueDate",
+        array_agg(ci."id") || array_agg(DISTINCT ci."parentItemId") AS "sourceContentIds",
+        MIN(ci."createdByUserId") AS "createdByUserId",
+        MIN(ci."createdAt") AS "createdAt"
+    FROM "ContentItem" ci
+    WHERE ci."createdBy" = 'ai_split'
+      AND ci."isActive" = true
+      AND ci."parentItemId" IS NOT NULL
+      AND ci."aiExtractedEntities"->>'type' = 'action_item'
+      AND NOT EXISTS (
+          SELECT 1 FROM "RaidItem" ri
+          WHERE ri."projectId" = ci."projectId" AND ci."id" = ANY(ri."sourceContentIds")
+      )
+    GROUP BY ci."projectId", lower(trim(ci."title")), NULLIF(ci."aiExtractedEntities"->>'owner', '')
+) grouped;
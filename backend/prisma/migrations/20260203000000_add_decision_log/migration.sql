@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "RaidItem" ADD COLUMN "rationale" TEXT,
+ADD COLUMN "alternatives" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "affectedPlanItemIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "supersededById" TEXT,
+ADD COLUMN "supersededAt" TIMESTAMP(3),
+ADD COLUMN "reviewStatus" TEXT NOT NULL DEFAULT 'accepted',
+ADD COLUMN "reviewedAt" TIMESTAMP(3),
+ADD COLUMN "reviewedByUserId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "RaidItem_reviewStatus_idx" ON "RaidItem"("reviewStatus");
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "Stakeholder" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "email" TEXT,
+    "organization" TEXT,
+    "role" TEXT,
+    "affiliation" TEXT NOT NULL DEFAULT 'client',
+    "reviewStatus" TEXT NOT NULL DEFAULT 'accepted',
+    "sourceContentIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdBy" TEXT NOT NULL DEFAULT 'user',
+    "createdByUserId" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Stakeholder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Stakeholder_projectId_idx" ON "Stakeholder"("projectId");
+
+-- CreateIndex
+CREATE INDEX "Stakeholder_reviewStatus_idx" ON "Stakeholder"("reviewStatus");
+
+-- CreateIndex
+CREATE INDEX "Stakeholder_isActive_idx" ON "Stakeholder"("isActive");
+
+-- AddForeignKey
+ALTER TABLE "Stakeholder" ADD CONSTRAINT "Stakeholder_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
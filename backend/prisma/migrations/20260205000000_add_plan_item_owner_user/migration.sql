@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "PlanItem" ADD COLUMN "ownerUserId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "PlanItem_ownerUserId_idx" ON "PlanItem"("ownerUserId");
+
+-- AddForeignKey
+ALTER TABLE "PlanItem" ADD CONSTRAINT "PlanItem_ownerUserId_fkey" FOREIGN KEY ("ownerUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: owners written as a member's email are assigned to that member
+UPDATE "PlanItem" pi
+SET "ownerUserId" = u."id",
+    "owner" = u."firstName" || ' ' || u."lastName"
+FROM "Project" p, "OrganizationUser" ou, "User" u
+WHERE pi."projectId" = p."id"
+  AND ou."organizationId" = p."organizationId"
+  AND ou."isActive" = true
+  AND ou."userId" = u."id"
+  AND LOWER(TRIM(pi."owner")) = LOWER(u."email");
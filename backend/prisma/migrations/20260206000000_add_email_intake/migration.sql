@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "intakeEmailSlug" TEXT;
+
+-- AlterTable
+ALTER TABLE "ContentItem" ADD COLUMN "sourceMetadata" JSONB NOT NULL DEFAULT '{}';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Project_intakeEmailSlug_key" ON "Project"("intakeEmailSlug");
+
+-- Backfill: existing projects get the slugified name; the oldest keeps it when names collide and
+-- the others add the start of their id
+UPDATE "Project" p
+SET "intakeEmailSlug" = s."slug"
+FROM (
+  SELECT "id",
+         CASE WHEN ROW_NUMBER() OVER (PARTITION BY "base" ORDER BY "createdAt", "id") = 1
+              THEN "base"
+              ELSE "base" || '-' || LEFT("id", 8)
+         END AS "slug"
+  FROM (
+    SELECT "id", "createdAt",
+           COALESCE(
+             NULLIF(TRIM(BOTH '-' FROM LEFT(TRIM(BOTH '-' FROM REGEXP_REPLACE(LOWER("name"), '[^a-z0-9]+', '-', 'g')), 48)), ''),
+             'project'
+           ) AS "base"
+    FROM "Project"
+  ) b
+) s
+WHERE p."id" = s."id";
@@ -97,6 +97,7 @@ async function main() {
 
   const menus = [
     // Main Section (Agent tabs - these show in the horizontal nav)
+    { name: 'Portfolio', slug: 'portfolio', path: '/portfolio', icon: 'Briefcase', section: MenuSection.MAIN, sortOrder: 0 },
     { name: 'Plan', slug: 'plan', path: '/plan', icon: 'ListTree', section: MenuSection.MAIN, sortOrder: 1 },
     { name: 'Intake', slug: 'intake', path: '/intake', icon: 'Inbox', section: MenuSection.MAIN, sortOrder: 2 },
     { name: 'Activity Reporter', slug: 'reports', path: '/reporter', icon: 'ClipboardList', section: MenuSection.MAIN, sortOrder: 3 },
@@ -132,21 +133,25 @@ async function main() {
   // Permission matrix: [roleSlug][menuSlug] = { C, R, U, D }
   const permissionMatrix: Record<string, Record<string, { c: boolean; r: boolean; u: boolean; d: boolean }>> = {
     viewer: {
+      portfolio: { c: false, r: true, u: false, d: false },
       plan: { c: false, r: true, u: false, d: false },
       intake: { c: false, r: true, u: false, d: false },
       reports: { c: false, r: true, u: false, d: false },
     },
     standard_user: {
+      portfolio: { c: false, r: true, u: false, d: false },
       plan: { c: true, r: true, u: true, d: false },
       intake: { c: true, r: true, u: true, d: false },
       reports: { c: true, r: true, u: true, d: true },
     },
     advanced_user: {
+      portfolio: { c: false, r: true, u: false, d: false },
       plan: { c: true, r: true, u: true, d: true },
       intake: { c: true, r: true, u: true, d: true },
       reports: { c: true, r: true, u: true, d: true },
     },
     org_admin: {
+      portfolio: { c: false, r: true, u: false, d: false },
       plan: { c: true, r: true, u: true, d: true },
       intake: { c: true, r: true, u: true, d: true },
       reports: { c: true, r: true, u: true, d: true },
@@ -154,6 +159,7 @@ async function main() {
       admin_roles: { c: true, r: true, u: true, d: true },
     },
     platform_admin: {
+      portfolio: { c: false, r: true, u: false, d: false },
       plan: { c: true, r: true, u: true, d: true },
       intake: { c: true, r: true, u: true, d: true },
       reports: { c: true, r: true, u: true, d: true },
@@ -227,6 +233,7 @@ async function main() {
     { key: 'invitation_expiry_hours', value: '72', type: SettingType.NUMBER, description: 'Invitation expiry time in hours', category: 'general' },
     { key: 'min_password_length', value: '8', type: SettingType.NUMBER, description: 'Minimum password length', category: 'security' },
     { key: 'session_timeout_minutes', value: '60', type: SettingType.NUMBER, description: 'Session timeout in minutes', category: 'security' },
+    { key: 'trash_retention_days', value: '30', type: SettingType.NUMBER, description: 'Days deleted projects, plan items and content stay in the trash before they are purged', category: 'general' },
   ];
 
   for (const setting of platformSettings) {
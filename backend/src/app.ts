@@ -25,6 +25,10 @@ import outputFormatterRoutes from './modules/output-formatter/output-formatter.r
 import configRoutes from './modules/config/config.routes.js';
 import apiKeysRoutes from './modules/api-keys/api-keys.routes.js';
 import promptTemplatesRoutes from './modules/prompt-templates/prompt-templates.routes.js';
+import planTemplatesRoutes from './modules/plan-templates/plan-templates.routes.js';
+import commentsRoutes from './modules/comments/comments.routes.js';
+import portfolioRoutes from './modules/portfolio/portfolio.routes.js';
+import myWorkRoutes from './modules/my-work/my-work.routes.js';
 import platformAuthRoutes from './routes/platform-auth.routes.js';
 
 const app = express();
@@ -102,6 +106,10 @@ app.use('/api/format', outputFormatterRoutes);
 app.use('/api/config', configRoutes);
 app.use('/api/api-keys', apiKeysRoutes);
 app.use('/api/prompt-templates', promptTemplatesRoutes);
+app.use('/api/plan-templates', planTemplatesRoutes);
+app.use('/api/comments', commentsRoutes);
+app.use('/api/portfolio', portfolioRoutes);
+app.use('/api/my-work', myWorkRoutes);
 
 // Raw OpenAPI spec (JSON) - must be before swagger-ui middleware
 app.get('/api/docs.json', (req, res) => {
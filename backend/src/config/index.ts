@@ -21,6 +21,22 @@ export const config = {
     from: process.env.EMAIL_FROM || 'noreply@example.com',
   },
 
+  // Inbound email intake: mail sent to <project-slug>@<domain> becomes project content
+  emailIntake: {
+    domain: process.env.EMAIL_INTAKE_DOMAIN || 'intake.local',
+    smtpEnabled: process.env.EMAIL_INTAKE_SMTP_ENABLED === 'true',
+    smtpHost: process.env.EMAIL_INTAKE_SMTP_HOST || '127.0.0.1',
+    smtpPort: parseInt(process.env.EMAIL_INTAKE_SMTP_PORT || '2525', 10),
+    // Relay addresses allowed to connect (comma-separated); empty allows any
+    smtpAllowedIps: (process.env.EMAIL_INTAKE_SMTP_ALLOWED_IPS || '')
+      .split(',')
+      .map(ip => ip.trim())
+      .filter(Boolean),
+    // Enables STARTTLS when both are set
+    smtpTlsKeyPath: process.env.EMAIL_INTAKE_SMTP_TLS_KEY || '',
+    smtpTlsCertPath: process.env.EMAIL_INTAKE_SMTP_TLS_CERT || '',
+  },
+
   // Frontend
   frontendUrl: process.env.FRONTEND_URL || 'http://localhost:5173',
 
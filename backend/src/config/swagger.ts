@@ -156,9 +156,15 @@ API key authentication automatically sets the organization context.
       { name: 'Users', description: 'User management' },
       { name: 'Organizations', description: 'Organization management' },
       { name: 'Projects', description: 'Project management' },
+      { name: 'Portfolio', description: 'Cross-project health and milestones for an organization' },
+      { name: 'My Work', description: 'Plan items and action items assigned to the caller across projects' },
       { name: 'Plan Items', description: 'Plan item hierarchy and management' },
+      { name: 'Plan Templates', description: 'Reusable plan skeletons saved from existing projects' },
+      { name: 'Comments', description: 'Threaded comments with @mentions on plan items, content items and reports' },
       { name: 'Content Items', description: 'Content intake and management' },
       { name: 'Reports', description: 'Activity reports and output formatting' },
+      { name: 'RAID', description: 'Project risks, actions, issues and decisions register' },
+      { name: 'Stakeholders', description: 'Per-project directory of the people named as owners and decision makers' },
       { name: 'Config', description: 'Configuration types management' },
       { name: 'API Keys', description: 'API key management (JWT only)' },
     ],
@@ -2,6 +2,9 @@ import app from './app.js';
 import config from './config/index.js';
 import logger from './utils/logger.js';
 import prisma from './config/database.js';
+import { scheduleTrashPurge } from './modules/trash/trash.service.js';
+import { scheduleActionReminders } from './modules/raid/action-tracker.service.js';
+import { startIntakeSmtpServer } from './modules/content-items/email-intake.service.js';
 
 const startServer = async () => {
   try {
@@ -9,6 +12,15 @@ const startServer = async () => {
     await prisma.$connect();
     logger.info('Database connected successfully');
 
+    // Permanently remove deleted records once their trash retention period is over
+    scheduleTrashPurge();
+
+    // Email owners about action items that are due or overdue
+    scheduleActionReminders();
+
+    // Accept mail sent to project intake addresses, when enabled
+    startIntakeSmtpServer();
+
     // Start server
     app.listen(config.port, () => {
       logger.info(`Server running on port ${config.port}`);
@@ -14,9 +14,11 @@ const ALLOWED_MIME_TYPES = [
   'application/msword',
   'text/plain',
   'text/markdown',
+  'message/rfc822',
+  'application/mbox',
 ];
 
-const ALLOWED_EXTENSIONS = ['.pdf', '.docx', '.doc', '.txt', '.md', '.markdown'];
+const ALLOWED_EXTENSIONS = ['.pdf', '.docx', '.doc', '.txt', '.md', '.markdown', '.eml', '.mbox'];
 
 // Max file size: 10MB
 const MAX_FILE_SIZE = 10 * 1024 * 1024;
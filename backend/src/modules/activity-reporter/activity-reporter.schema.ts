@@ -7,6 +7,8 @@ export const generateReportSchema = z.object({
   workstreamFilter: z.array(z.string().uuid()).optional().default([]),
   activityTypeFilter: z.array(z.coerce.number().int().positive()).optional().default([]),
   title: z.string().min(1).max(500).optional(),
+  // Baseline to measure schedule variance against (defaults to the most recent one)
+  baselineId: z.string().uuid().optional(),
 });
 
 // Schema for listing reports
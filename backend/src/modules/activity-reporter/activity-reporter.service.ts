@@ -14,6 +14,11 @@ import {
   type ReportChunk,
   type ReportResult,
 } from '../../services/ai/prompts/activity-reporter';
+import { getOpenRaidItems, reconcileReportWithRegister } from '../raid/raid.service';
+import { getStakeholdersForPrompt, resolveReportPeople } from '../stakeholders/stakeholder-resolver.service';
+import { getScheduleVarianceForReport } from '../baselines/baselines.service';
+import { getPlanChangesForReport } from '../plan-items/plan-diff.service';
+import { getProjectHealthForReport } from '../projects/project-health.service';
 import type { GenerateReportInput, ListReportsQuery } from './activity-reporter.schema';
 
 /**
@@ -72,8 +77,8 @@ export async function generateReport(
     orderBy: [{ path: 'asc' }, { sortOrder: 'asc' }],
   });
 
-  // Get content types and activity types for context
-  const [contentTypes, activityTypes] = await Promise.all([
+  // Get content types, activity types, the open RAID register, stakeholders, baseline variance and plan changes for context
+  const [contentTypes, activityTypes, openRaidItems, stakeholders, scheduleVariance, planChanges] = await Promise.all([
     prisma.contentType.findMany({
       where: {
         isActive: true,
@@ -86,6 +91,10 @@ export async function generateReport(
         OR: [{ organizationId: null }, { organizationId }],
       },
     }),
+    getOpenRaidItems(projectId),
+    getStakeholdersForPrompt(projectId),
+    getScheduleVarianceForReport(projectId, input.baselineId),
+    getPlanChangesForReport(projectId, input.periodStart, input.periodEnd),
   ]);
 
   // Build context
@@ -110,6 +119,10 @@ export async function generateReport(
       name: at.name,
       slug: at.slug,
     })),
+    openRaidItems,
+    stakeholders,
+    scheduleVariance,
+    planChanges,
   };
 
   // Get content items for the period
@@ -190,8 +203,9 @@ export async function generateReport(
 
   // Generate report using AI
   let reportResult: ReportResult;
+  const aiGenerated = isOpenAIConfigured();
 
-  if (isOpenAIConfigured()) {
+  if (aiGenerated) {
     const systemPrompt = getActivityReporterSystemPrompt();
     const userPrompt = getActivityReporterUserPrompt(context, chunks);
 
@@ -204,6 +218,14 @@ export async function generateReport(
 
     // Validate and filter the response
     reportResult = validateReportResult(aiResponse, planItems.map(p => p.id), Array.from(sourceContentIds));
+
+    // Name owners and decision makers the way the stakeholder directory does, so the register
+    // and the report's per-person grouping see one name per person
+    try {
+      reportResult = await resolveReportPeople(projectId, reportResult);
+    } catch (error) {
+      console.error('Failed to resolve report stakeholders:', error);
+    }
   } else {
     // Return empty report if OpenAI is not configured
     reportResult = {
@@ -217,15 +239,18 @@ export async function generateReport(
     };
   }
 
+  // Variance, plan changes and health are computed, not extracted, so they are attached regardless of what the AI returned
+  reportResult.scheduleVariance = scheduleVariance;
+  reportResult.planChanges = planChanges;
+  reportResult.health = await getProjectHealthForReport(projectId);
+
   const generationDurationMs = Date.now() - startTime;
 
   // Generate title if not provided
   const title = input.title || `Activity Report: ${context.periodStart} to ${context.periodEnd}`;
 
-  // Save the report - check if table exists first
-  let savedReport;
-  try {
-    savedReport = await prisma.activityReport.create({
+  const saveReport = (tx: Prisma.TransactionClient, data: ReportResult) =>
+    tx.activityReport.create({
       data: {
         projectId,
         title,
@@ -233,14 +258,26 @@ export async function generateReport(
         periodEnd: input.periodEnd,
         workstreamFilter: input.workstreamFilter || [],
         activityTypeFilter: input.activityTypeFilter || [],
-        summary: reportResult.summary,
-        reportData: reportResult as unknown as Prisma.InputJsonValue,
+        summary: data.summary,
+        reportData: data as unknown as Prisma.InputJsonValue,
         sourceContentIds: Array.from(sourceContentIds),
         sourceChunkIds: chunks.map(c => c.contentItemId),
         generatedByUserId: userId,
         generationDurationMs,
       },
     });
+
+  // Save the report - check if table exists first
+  let savedReport;
+  try {
+    if (aiGenerated) {
+      // Reconcile risks, actions, decisions and blockers with the RAID register as the report is saved
+      const reconciled = await reconcileReportWithRegister(projectId, reportResult, saveReport);
+      reportResult = reconciled.result;
+      savedReport = reconciled.report;
+    } else {
+      savedReport = await saveReport(prisma, reportResult);
+    }
   } catch (e: unknown) {
     // If table doesn't exist yet (migration not run), return report without saving
     const errorMessage = e instanceof Error ? e.message : String(e);
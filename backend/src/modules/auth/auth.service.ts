@@ -9,6 +9,7 @@ import {
   generatePasswordResetToken,
 } from '../../services/token/token.service.js';
 import emailService from '../../services/email/email.service.js';
+import { assignIntakeEmailSlug } from '../content-items/email-intake.service.js';
 import { AppError } from '../../middleware/errorHandler.js';
 import { ErrorCodes } from '../../utils/responses.js';
 import type { RegisterInput, LoginInput, ResetPasswordInput, ChangePasswordInput } from './auth.schema.js';
@@ -192,7 +193,7 @@ export const register = async (
   }
 
   // Create user, organization, membership, and default project in transaction
-  const user = await prisma.$transaction(async (tx) => {
+  const { newUser: user, firstProject } = await prisma.$transaction(async (tx) => {
     const newUser = await tx.user.create({
       data: {
         email: email.toLowerCase(),
@@ -221,7 +222,7 @@ export const register = async (
     });
 
     // Create default "First Project" for the new organization
-    await tx.project.create({
+    const firstProject = await tx.project.create({
       data: {
         name: 'First Project',
         description: 'Your first project - feel free to rename or modify it!',
@@ -247,8 +248,9 @@ export const register = async (
       });
     }
 
-    return newUser;
+    return { newUser, firstProject };
   });
+  await assignIntakeEmailSlug(firstProject.id, firstProject.name);
 
   // Generate tokens to auto-login the user
   const tokens = await generateTokenPair(user.id, user.uuid, user.email, userAgent, ipAddress);
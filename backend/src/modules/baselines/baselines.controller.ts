@@ -0,0 +1,112 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import * as baselinesService from './baselines.service.js';
+import { successResponse } from '../../utils/responses.js';
+import type { CreateBaselineInput } from './baselines.schema.js';
+
+// GET /api/projects/:projectId/baselines - List baselines
+export const listBaselines: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId } = req.params;
+    const baselines = await baselinesService.listBaselines(projectId, organizationId);
+    successResponse(res, baselines);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/baselines - Capture a baseline of the current plan
+export const createBaseline: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId } = req.params;
+    const input = req.body as CreateBaselineInput;
+    const baseline = await baselinesService.createBaseline(
+      projectId,
+      organizationId,
+      input,
+      req.user?.id,
+      req.user?.email
+    );
+    successResponse(res, baseline, 201);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/projects/:projectId/baselines/:baselineId - Get baseline with its items
+export const getBaseline: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId, baselineId } = req.params;
+    const baseline = await baselinesService.getBaseline(baselineId, projectId, organizationId);
+    successResponse(res, baseline);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// DELETE /api/projects/:projectId/baselines/:baselineId - Delete baseline
+export const deleteBaseline: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId, baselineId } = req.params;
+    const result = await baselinesService.deleteBaseline(baselineId, projectId, organizationId);
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/projects/:projectId/baselines/:baselineId/variance - Variance of the current plan
+export const getVarianceReport: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId, baselineId } = req.params;
+    const report = await baselinesService.getVarianceReport(baselineId, projectId, organizationId);
+    successResponse(res, report);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/projects/:projectId/baselines/:baselineId/compare/:otherBaselineId - Compare two baselines
+export const compareBaselines: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId, baselineId, otherBaselineId } = req.params;
+    const report = await baselinesService.compareBaselines(
+      baselineId,
+      otherBaselineId,
+      projectId,
+      organizationId
+    );
+    successResponse(res, report);
+  } catch (error) {
+    next(error);
+  }
+};
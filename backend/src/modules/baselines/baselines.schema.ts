@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+// Schema for capturing a baseline via POST /api/projects/:projectId/baselines
+export const createBaselineSchema = z.object({
+  name: z.string().min(1).max(200),
+  description: z.string().max(2000).nullable().optional(),
+});
+
+export type CreateBaselineInput = z.infer<typeof createBaselineSchema>;
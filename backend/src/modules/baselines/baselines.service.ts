@@ -0,0 +1,371 @@
+import prisma from '../../config/database.js';
+import { AppError } from '../../middleware/errorHandler.js';
+import { ErrorCodes } from '../../utils/responses.js';
+import type { ScheduleVariance, ScheduleVarianceRow } from '../../services/ai/prompts/activity-reporter.js';
+import type { CreateBaselineInput } from './baselines.schema.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// A plan item as captured in a baseline or read from the live plan
+interface PlanSnapshotItem {
+  planItemId: string;
+  parentId: string | null;
+  path: string;
+  name: string;
+  itemTypeName: string;
+  itemTypeLevel: number;
+  status: string;
+  startDate: Date | null;
+  targetEndDate: Date | null;
+  actualStartDate: Date | null;
+  actualEndDate: Date | null;
+}
+
+export type VarianceChange = 'unchanged' | 'slipped' | 'pulled_in' | 'added' | 'removed';
+
+export interface VarianceItem {
+  planItemId: string;
+  parentId: string | null;
+  name: string;
+  itemType: string;
+  level: number;
+  baselineStatus: string | null;
+  currentStatus: string | null;
+  baselineStartDate: Date | null;
+  currentStartDate: Date | null;
+  baselineEndDate: Date | null;
+  currentEndDate: Date | null;
+  startSlipDays: number | null;
+  endSlipDays: number | null;
+  change: VarianceChange;
+}
+
+export interface VarianceReport {
+  baseline: { id: string; name: string; createdAt: Date };
+  comparedTo: { id: string | null; name: string; createdAt: Date | null };
+  summary: {
+    itemsCompared: number;
+    slipped: number;
+    pulledIn: number;
+    added: number;
+    removed: number;
+    statusChanged: number;
+    maxSlipDays: number;
+    projectEndSlipDays: number | null;
+  };
+  workstreams: VarianceItem[];
+  milestones: VarianceItem[];
+  items: VarianceItem[];
+}
+
+// Verify project belongs to organization
+const getProjectOrThrow = async (projectId: string, organizationId: number) => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, organizationId, isActive: true },
+  });
+
+  if (!project) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Project not found', 404);
+  }
+
+  return project;
+};
+
+// Read the live plan in snapshot form
+const getCurrentSnapshot = async (projectId: string): Promise<PlanSnapshotItem[]> => {
+  const items = await prisma.planItem.findMany({
+    where: { projectId, isActive: true },
+    include: { itemType: { select: { name: true, level: true } } },
+    orderBy: [{ depth: 'asc' }, { sortOrder: 'asc' }],
+  });
+
+  return items.map(item => ({
+    planItemId: item.id,
+    parentId: item.parentId,
+    path: item.path,
+    name: item.name,
+    itemTypeName: item.itemType.name,
+    itemTypeLevel: item.itemType.level,
+    status: item.status,
+    startDate: item.startDate,
+    targetEndDate: item.targetEndDate,
+    actualStartDate: item.actualStartDate,
+    actualEndDate: item.actualEndDate,
+  }));
+};
+
+const getBaselineWithItems = async (baselineId: string, projectId: string) => {
+  const baseline = await prisma.planBaseline.findFirst({
+    where: { id: baselineId, projectId },
+    include: { items: true },
+  });
+
+  if (!baseline) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Baseline not found', 404);
+  }
+
+  return baseline;
+};
+
+// List baselines for a project
+export const listBaselines = async (projectId: string, organizationId: number) => {
+  await getProjectOrThrow(projectId, organizationId);
+
+  const baselines = await prisma.planBaseline.findMany({
+    where: { projectId },
+    include: { _count: { select: { items: true } } },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return baselines.map(({ _count, ...baseline }) => ({
+    ...baseline,
+    itemCount: _count.items,
+  }));
+};
+
+// Capture a baseline from every active plan item
+export const createBaseline = async (
+  projectId: string,
+  organizationId: number,
+  input: CreateBaselineInput,
+  userId?: number,
+  userEmail?: string
+) => {
+  await getProjectOrThrow(projectId, organizationId);
+
+  const existing = await prisma.planBaseline.findFirst({
+    where: { projectId, name: input.name },
+  });
+
+  if (existing) {
+    throw new AppError(ErrorCodes.CONFLICT, `A baseline named '${input.name}' already exists`, 409);
+  }
+
+  const snapshot = await getCurrentSnapshot(projectId);
+
+  const baseline = await prisma.planBaseline.create({
+    data: {
+      projectId,
+      name: input.name,
+      description: input.description,
+      createdByUserId: userId,
+      createdByEmail: userEmail,
+      items: {
+        createMany: { data: snapshot },
+      },
+    },
+  });
+
+  return { ...baseline, itemCount: snapshot.length };
+};
+
+// Get a baseline with its captured items
+export const getBaseline = async (baselineId: string, projectId: string, organizationId: number) => {
+  await getProjectOrThrow(projectId, organizationId);
+  return getBaselineWithItems(baselineId, projectId);
+};
+
+// Delete a baseline
+export const deleteBaseline = async (baselineId: string, projectId: string, organizationId: number) => {
+  await getProjectOrThrow(projectId, organizationId);
+  await getBaselineWithItems(baselineId, projectId);
+
+  await prisma.planBaseline.delete({ where: { id: baselineId } });
+
+  return { message: 'Baseline deleted successfully' };
+};
+
+// Variance of the live plan against a baseline
+export const getVarianceReport = async (
+  baselineId: string,
+  projectId: string,
+  organizationId: number
+): Promise<VarianceReport> => {
+  await getProjectOrThrow(projectId, organizationId);
+
+  const baseline = await getBaselineWithItems(baselineId, projectId);
+  const current = await getCurrentSnapshot(projectId);
+
+  return buildVarianceReport(
+    { id: baseline.id, name: baseline.name, createdAt: baseline.createdAt },
+    { id: null, name: 'Current plan', createdAt: null },
+    baseline.items,
+    current
+  );
+};
+
+// Variance of one baseline against another (later) baseline
+export const compareBaselines = async (
+  baselineId: string,
+  otherBaselineId: string,
+  projectId: string,
+  organizationId: number
+): Promise<VarianceReport> => {
+  await getProjectOrThrow(projectId, organizationId);
+
+  const [baseline, other] = await Promise.all([
+    getBaselineWithItems(baselineId, projectId),
+    getBaselineWithItems(otherBaselineId, projectId),
+  ]);
+
+  return buildVarianceReport(
+    { id: baseline.id, name: baseline.name, createdAt: baseline.createdAt },
+    { id: other.id, name: other.name, createdAt: other.createdAt },
+    baseline.items,
+    other.items
+  );
+};
+
+// Schedule variance for the activity reporter: the requested baseline, or the most recent one.
+// Returns null when the project has no baselines.
+export const getScheduleVarianceForReport = async (
+  projectId: string,
+  baselineId?: string
+): Promise<ScheduleVariance | null> => {
+  const baseline = baselineId
+    ? await getBaselineWithItems(baselineId, projectId)
+    : await prisma.planBaseline.findFirst({
+        where: { projectId },
+        include: { items: true },
+        orderBy: { createdAt: 'desc' },
+      });
+
+  if (!baseline) return null;
+
+  const current = await getCurrentSnapshot(projectId);
+  const report = buildVarianceReport(
+    { id: baseline.id, name: baseline.name, createdAt: baseline.createdAt },
+    { id: null, name: 'Current plan', createdAt: null },
+    baseline.items,
+    current
+  );
+
+  return toScheduleVariance(report);
+};
+
+// Condense a variance report to workstream/milestone rows for reports and exports
+export const toScheduleVariance = (report: VarianceReport): ScheduleVariance => {
+  const toRow = (item: VarianceItem): ScheduleVarianceRow => ({
+    planItemId: item.planItemId,
+    name: item.name,
+    baselineEndDate: formatDate(item.baselineEndDate),
+    currentEndDate: formatDate(item.currentEndDate),
+    endSlipDays: item.endSlipDays,
+  });
+
+  return {
+    baselineId: report.baseline.id,
+    baselineName: report.baseline.name,
+    baselineDate: formatDate(report.baseline.createdAt)!,
+    projectEndSlipDays: report.summary.projectEndSlipDays,
+    workstreams: report.workstreams.filter(w => w.change !== 'removed').map(toRow),
+    milestones: report.milestones.filter(m => m.change !== 'removed').map(toRow),
+  };
+};
+
+// Helper functions
+
+const formatDate = (date: Date | null): string | null => (date ? date.toISOString().split('T')[0] : null);
+
+const diffDays = (later: Date | null, earlier: Date | null): number | null => {
+  if (!later || !earlier) return null;
+  return Math.round((later.getTime() - earlier.getTime()) / MS_PER_DAY);
+};
+
+// Completed work is measured by when it actually happened, open work by its plan
+const effectiveStart = (item: PlanSnapshotItem) => item.actualStartDate || item.startDate;
+const effectiveEnd = (item: PlanSnapshotItem) => item.actualEndDate || item.targetEndDate;
+
+const buildVarianceReport = (
+  baselineRef: VarianceReport['baseline'],
+  comparedRef: VarianceReport['comparedTo'],
+  baselineItems: PlanSnapshotItem[],
+  currentItems: PlanSnapshotItem[]
+): VarianceReport => {
+  const baselineById = new Map(baselineItems.map(i => [i.planItemId, i]));
+  const currentById = new Map(currentItems.map(i => [i.planItemId, i]));
+  const allIds = Array.from(new Set([...baselineById.keys(), ...currentById.keys()]));
+
+  const items: VarianceItem[] = allIds.map(id => {
+    const before = baselineById.get(id) || null;
+    const after = currentById.get(id) || null;
+    const source = (after || before)!;
+
+    const startSlipDays = before && after ? diffDays(effectiveStart(after), effectiveStart(before)) : null;
+    const endSlipDays = before && after ? diffDays(effectiveEnd(after), effectiveEnd(before)) : null;
+
+    let change: VarianceChange = 'unchanged';
+    if (!before) change = 'added';
+    else if (!after) change = 'removed';
+    else if (endSlipDays !== null && endSlipDays > 0) change = 'slipped';
+    else if (endSlipDays !== null && endSlipDays < 0) change = 'pulled_in';
+
+    return {
+      planItemId: id,
+      parentId: source.parentId,
+      name: source.name,
+      itemType: source.itemTypeName,
+      level: source.itemTypeLevel,
+      baselineStatus: before?.status ?? null,
+      currentStatus: after?.status ?? null,
+      baselineStartDate: before ? effectiveStart(before) : null,
+      currentStartDate: after ? effectiveStart(after) : null,
+      baselineEndDate: before ? effectiveEnd(before) : null,
+      currentEndDate: after ? effectiveEnd(after) : null,
+      startSlipDays,
+      endSlipDays,
+      change,
+    };
+  });
+
+  // Workstreams without their own dates take the worst slip of anything beneath them
+  const pathById = new Map([...baselineItems, ...currentItems].map(i => [i.planItemId, i.path]));
+  for (const item of items) {
+    if (item.level !== 1 || item.endSlipDays !== null) continue;
+    const descendantSlips = items
+      .filter(i => (pathById.get(i.planItemId) || '').includes(item.planItemId) && i.endSlipDays !== null)
+      .map(i => i.endSlipDays!);
+    if (descendantSlips.length > 0) {
+      item.endSlipDays = Math.max(...descendantSlips);
+      if (item.change === 'unchanged' && item.endSlipDays !== 0) {
+        item.change = item.endSlipDays > 0 ? 'slipped' : 'pulled_in';
+      }
+    }
+  }
+
+  const latestEnd = (snapshot: PlanSnapshotItem[]) => {
+    const ends = snapshot.map(effectiveEnd).filter((d): d is Date => d !== null);
+    return ends.length > 0 ? new Date(Math.max(...ends.map(d => d.getTime()))) : null;
+  };
+
+  const slips = items.map(i => i.endSlipDays).filter((d): d is number => d !== null);
+
+  return {
+    baseline: baselineRef,
+    comparedTo: comparedRef,
+    summary: {
+      itemsCompared: items.filter(i => i.change !== 'added' && i.change !== 'removed').length,
+      slipped: items.filter(i => i.change === 'slipped').length,
+      pulledIn: items.filter(i => i.change === 'pulled_in').length,
+      added: items.filter(i => i.change === 'added').length,
+      removed: items.filter(i => i.change === 'removed').length,
+      statusChanged: items.filter(i => i.baselineStatus && i.currentStatus && i.baselineStatus !== i.currentStatus).length,
+      maxSlipDays: slips.length > 0 ? Math.max(0, ...slips) : 0,
+      projectEndSlipDays: diffDays(latestEnd(currentItems), latestEnd(baselineItems)),
+    },
+    workstreams: items.filter(i => i.level === 1),
+    milestones: items.filter(i => i.level === 2),
+    items,
+  };
+};
+
+export default {
+  listBaselines,
+  createBaseline,
+  getBaseline,
+  deleteBaseline,
+  getVarianceReport,
+  compareBaselines,
+  getScheduleVarianceForReport,
+  toScheduleVariance,
+};
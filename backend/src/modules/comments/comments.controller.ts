@@ -0,0 +1,131 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import * as commentsService from './comments.service.js';
+import { successResponse } from '../../utils/responses.js';
+import type {
+  ListCommentsQuery,
+  CreateCommentInput,
+  UpdateCommentInput,
+  MarkCommentsReadInput,
+} from './comments.schema.js';
+
+// Who is acting, for the comment audit trail
+const auditContext = (req: Request): commentsService.AuditContext => ({
+  userId: req.user!.id,
+  userEmail: req.user!.email,
+  roleLevel: req.role?.level,
+  ipAddress: req.ip,
+  userAgent: req.get('user-agent'),
+});
+
+// GET /api/comments - Thread on a plan item, content item or report
+export const listComments: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const query = req.query as unknown as ListCommentsQuery;
+    const thread = await commentsService.listComments(query, organizationId, req.user!.id);
+    successResponse(res, thread);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/comments/mentionable - Organization members that can be @mentioned
+export const getMentionableUsers: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const users = await commentsService.getMentionableUsers(organizationId);
+    successResponse(res, users);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/comments - Add a comment or reply
+export const createComment: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const input = req.body as CreateCommentInput;
+    const comment = await commentsService.createComment(input, organizationId, req.user!);
+    successResponse(res, comment, 201);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// PUT /api/comments/:id - Edit own comment
+export const updateComment: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const input = req.body as UpdateCommentInput;
+    const comment = await commentsService.updateComment(parseInt(req.params.id, 10), input, organizationId, {
+      ...auditContext(req),
+      firstName: req.user!.firstName,
+      lastName: req.user!.lastName,
+    });
+    successResponse(res, comment);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// DELETE /api/comments/:id - Delete a comment
+export const deleteComment: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const result = await commentsService.deleteComment(parseInt(req.params.id, 10), organizationId, auditContext(req));
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/comments/read - Mark a thread as read
+export const markCommentsRead: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const input = req.body as MarkCommentsReadInput;
+    const result = await commentsService.markCommentsRead(input, organizationId, req.user!.id);
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/projects/:projectId/comments/unread - Comment and unread counts per record
+export const getProjectUnreadCounts: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const counts = await commentsService.getProjectUnreadCounts(req.params.projectId, organizationId, req.user!.id);
+    successResponse(res, counts);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,241 @@
+import { Router } from 'express';
+import * as commentsController from './comments.controller.js';
+import { validateBody, validateQuery } from '../../middleware/validation.js';
+import { authenticate } from '../../middleware/auth.js';
+import { requireOrgContext } from '../../middleware/orgContext.js';
+import {
+  listCommentsQuerySchema,
+  createCommentSchema,
+  updateCommentSchema,
+  markCommentsReadSchema,
+} from './comments.schema.js';
+
+const router = Router();
+
+// All routes require authentication and organization context
+router.use(authenticate);
+router.use(requireOrgContext);
+
+/**
+ * @swagger
+ * /comments:
+ *   get:
+ *     summary: Get a comment thread
+ *     description: |
+ *       Comments on a plan item, content item or activity report, oldest first with replies nested
+ *       under the comment they answer. Deleted comments stay as placeholders while they have
+ *       replies. Each comment says whether it is unread by the current user.
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: query
+ *         name: entityType
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [plan_item, content_item, activity_report]
+ *       - in: query
+ *         name: entityId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Comment threads and when the user last read them
+ *       404:
+ *         description: Commented item not found
+ */
+router.get(
+  '/',
+  validateQuery(listCommentsQuerySchema),
+  commentsController.listComments
+);
+
+/**
+ * @swagger
+ * /comments/mentionable:
+ *   get:
+ *     summary: List mentionable users
+ *     description: Active organization members that can be @mentioned by email or by the part of their email before the @
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *     responses:
+ *       200:
+ *         description: Organization members
+ */
+router.get(
+  '/mentionable',
+  commentsController.getMentionableUsers
+);
+
+/**
+ * @swagger
+ * /comments/read:
+ *   post:
+ *     summary: Mark a thread as read
+ *     description: Record that the current user has read every comment on the item so far
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - entityType
+ *               - entityId
+ *             properties:
+ *               entityType:
+ *                 type: string
+ *                 enum: [plan_item, content_item, activity_report]
+ *               entityId:
+ *                 type: string
+ *                 format: uuid
+ *     responses:
+ *       200:
+ *         description: Thread marked as read
+ *       404:
+ *         description: Commented item not found
+ */
+router.post(
+  '/read',
+  validateBody(markCommentsReadSchema),
+  commentsController.markCommentsRead
+);
+
+/**
+ * @swagger
+ * /comments:
+ *   post:
+ *     summary: Add a comment
+ *     description: |
+ *       Comment on a plan item, content item or activity report, or reply to a comment. A reply to
+ *       a reply joins the same thread. @mentions of organization members are resolved from the
+ *       body and the mentioned members are emailed.
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - entityType
+ *               - entityId
+ *               - body
+ *             properties:
+ *               entityType:
+ *                 type: string
+ *                 enum: [plan_item, content_item, activity_report]
+ *               entityId:
+ *                 type: string
+ *                 format: uuid
+ *               body:
+ *                 type: string
+ *                 example: "@jane.doe can you confirm the new end date?"
+ *               parentId:
+ *                 type: integer
+ *                 description: Comment being replied to
+ *     responses:
+ *       201:
+ *         description: Comment created with its resolved mentions
+ *       404:
+ *         description: Commented item or parent comment not found
+ */
+router.post(
+  '/',
+  validateBody(createCommentSchema),
+  commentsController.createComment
+);
+
+/**
+ * @swagger
+ * /comments/{id}:
+ *   put:
+ *     summary: Edit a comment
+ *     description: Authors can edit their own comments. The previous text is kept in the audit log, and newly mentioned members are emailed.
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - body
+ *             properties:
+ *               body:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Comment updated
+ *       403:
+ *         description: Not the author
+ *       404:
+ *         description: Comment not found
+ */
+router.put(
+  '/:id',
+  validateBody(updateCommentSchema),
+  commentsController.updateComment
+);
+
+/**
+ * @swagger
+ * /comments/{id}:
+ *   delete:
+ *     summary: Delete a comment
+ *     description: Authors and organization admins can delete a comment. The text is kept in the audit log.
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Comment deleted
+ *       403:
+ *         description: Not the author or an admin
+ *       404:
+ *         description: Comment not found
+ */
+router.delete(
+  '/:id',
+  commentsController.deleteComment
+);
+
+export default router;
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+// Records a comment thread can be attached to
+export const commentEntityTypes = ['plan_item', 'content_item', 'activity_report'] as const;
+
+const entitySchema = z.object({
+  entityType: z.enum(commentEntityTypes),
+  entityId: z.string().uuid(),
+});
+
+// Schema for GET /api/comments
+export const listCommentsQuerySchema = entitySchema;
+
+// Schema for POST /api/comments; @mentions are read from the body
+export const createCommentSchema = entitySchema.extend({
+  body: z.string().trim().min(1).max(10000),
+  parentId: z.number().int().positive().nullable().optional(),
+});
+
+export const updateCommentSchema = z.object({
+  body: z.string().trim().min(1).max(10000),
+});
+
+// Schema for POST /api/comments/read
+export const markCommentsReadSchema = entitySchema;
+
+export type CommentEntityType = typeof commentEntityTypes[number];
+export type ListCommentsQuery = z.infer<typeof listCommentsQuerySchema>;
+export type CreateCommentInput = z.infer<typeof createCommentSchema>;
+export type UpdateCommentInput = z.infer<typeof updateCommentSchema>;
+export type MarkCommentsReadInput = z.infer<typeof markCommentsReadSchema>;
@@ -0,0 +1,415 @@
+import type { Prisma } from '@prisma/client';
+import prisma from '../../config/database.js';
+import config from '../../config/index.js';
+import { AppError } from '../../middleware/errorHandler.js';
+import { ErrorCodes } from '../../utils/responses.js';
+import emailService from '../../services/email/email.service.js';
+import logger from '../../utils/logger.js';
+import type {
+  CommentEntityType,
+  ListCommentsQuery,
+  CreateCommentInput,
+  UpdateCommentInput,
+  MarkCommentsReadInput,
+} from './comments.schema.js';
+
+// Org admins and above may delete other people's comments
+const MODERATOR_ROLE_LEVEL = 40;
+
+// Pages the entity types are shown on, for links in mention emails
+const ENTITY_PAGES: Record<CommentEntityType, string> = {
+  plan_item: '/plan',
+  content_item: '/intake',
+  activity_report: '/reporter',
+};
+
+// @jane.doe or @jane.doe@example.com
+const MENTION_PATTERN = /(^|[^\w@.])@([\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/g;
+
+const userSelect = { id: true, firstName: true, lastName: true, email: true } as const;
+
+type CommentUser = Prisma.UserGetPayload<{ select: typeof userSelect }>;
+
+export interface CommentEntity {
+  entityType: CommentEntityType;
+  entityId: string;
+  projectId: string;
+  projectName: string;
+  name: string;
+}
+
+export interface CommentView {
+  id: number;
+  parentId: number | null;
+  // Null once deleted; kept in the thread only while it has replies
+  body: string | null;
+  author: CommentUser;
+  mentions: CommentUser[];
+  editedAt: Date | null;
+  isDeleted: boolean;
+  isUnread: boolean;
+  createdAt: Date;
+  replies: CommentView[];
+}
+
+export interface UnreadCount {
+  entityType: string;
+  entityId: string;
+  total: number;
+  unread: number;
+}
+
+export interface AuditContext {
+  userId: number;
+  userEmail: string;
+  roleLevel?: number;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// Find the commented record, making sure it is live and belongs to the organization
+const resolveEntity = async (
+  entityType: CommentEntityType,
+  entityId: string,
+  organizationId: number
+): Promise<CommentEntity> => {
+  const projectScope = { organizationId, isActive: true };
+  const include = { project: { select: { name: true } } };
+
+  let found: { projectId: string; name: string; project: { name: string } } | null = null;
+  switch (entityType) {
+    case 'plan_item':
+      found = await prisma.planItem.findFirst({
+        where: { id: entityId, isActive: true, project: projectScope },
+        include,
+      });
+      break;
+    case 'content_item': {
+      const item = await prisma.contentItem.findFirst({
+        where: { id: entityId, isActive: true, project: projectScope },
+        include,
+      });
+      found = item && { ...item, name: item.title };
+      break;
+    }
+    case 'activity_report': {
+      const report = await prisma.activityReport.findFirst({
+        where: { id: entityId, isActive: true, project: projectScope },
+        include,
+      });
+      found = report && { ...report, name: report.title };
+      break;
+    }
+  }
+
+  if (!found) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Commented item not found', 404);
+  }
+
+  return { entityType, entityId, projectId: found.projectId, projectName: found.project.name, name: found.name };
+};
+
+// Active members of the organization that can be @mentioned
+export const getMentionableUsers = async (organizationId: number): Promise<CommentUser[]> => {
+  const memberships = await prisma.organizationUser.findMany({
+    where: { organizationId, isActive: true, user: { isActive: true } },
+    include: { user: { select: userSelect } },
+    orderBy: [{ user: { firstName: 'asc' } }, { user: { lastName: 'asc' } }],
+  });
+
+  return memberships.map(m => m.user);
+};
+
+// Resolve @handles against the organization's members, by full email or by the part before the @
+// when only one member has it
+const resolveMentions = async (body: string, organizationId: number): Promise<CommentUser[]> => {
+  const handles = new Set(
+    Array.from(body.matchAll(MENTION_PATTERN), match => match[2].replace(/\.+$/, '').toLowerCase())
+  );
+  if (handles.size === 0) return [];
+
+  const members = await getMentionableUsers(organizationId);
+  const mentioned = new Map<number, CommentUser>();
+  for (const handle of handles) {
+    const byEmail = members.find(m => m.email.toLowerCase() === handle);
+    const byLocalPart = members.filter(m => m.email.toLowerCase().split('@')[0] === handle);
+    const user = byEmail ?? (byLocalPart.length === 1 ? byLocalPart[0] : undefined);
+    if (user) mentioned.set(user.id, user);
+  }
+  return Array.from(mentioned.values());
+};
+
+const notifyMentions = async (
+  users: CommentUser[],
+  author: { id: number; firstName: string; lastName: string },
+  entity: CommentEntity,
+  body: string
+) => {
+  const viewUrl = `${config.frontendUrl}${ENTITY_PAGES[entity.entityType]}`;
+  const results = await Promise.allSettled(
+    users
+      .filter(user => user.id !== author.id)
+      .map(user =>
+        emailService.sendMention(
+          user.email,
+          user.firstName,
+          `${author.firstName} ${author.lastName}`,
+          entity.name,
+          entity.projectName,
+          body,
+          viewUrl
+        )
+      )
+  );
+  results
+    .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+    .forEach(result => logger.warn('Failed to send mention email:', result.reason));
+};
+
+const writeAudit = (
+  action: string,
+  commentId: number,
+  organizationId: number,
+  context: AuditContext,
+  metadata: Prisma.InputJsonObject
+) =>
+  prisma.auditLog.create({
+    data: {
+      action,
+      entityType: 'comment',
+      entityId: commentId,
+      organizationId,
+      userId: context.userId,
+      userEmail: context.userEmail,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      metadata,
+    },
+  });
+
+const getActiveComment = async (id: number, organizationId: number) => {
+  const comment = Number.isInteger(id)
+    ? await prisma.comment.findFirst({
+        where: { id, isActive: true, project: { organizationId, isActive: true } },
+      })
+    : null;
+
+  if (!comment) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Comment not found', 404);
+  }
+
+  return comment;
+};
+
+// The thread on a record, oldest first with replies nested under their comment
+export const listComments = async (
+  query: ListCommentsQuery,
+  organizationId: number,
+  userId: number
+): Promise<{ comments: CommentView[]; lastReadAt: Date | null }> => {
+  await resolveEntity(query.entityType, query.entityId, organizationId);
+
+  const [comments, read] = await Promise.all([
+    prisma.comment.findMany({
+      where: { entityType: query.entityType, entityId: query.entityId },
+      include: { author: { select: userSelect } },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.commentRead.findUnique({
+      where: { userId_entityType_entityId: { userId, entityType: query.entityType, entityId: query.entityId } },
+    }),
+  ]);
+
+  const mentionIds = new Set(comments.flatMap(c => c.mentionedUserIds));
+  const mentionUsers = mentionIds.size > 0
+    ? await prisma.user.findMany({ where: { id: { in: Array.from(mentionIds) } }, select: userSelect })
+    : [];
+  const usersById = new Map(mentionUsers.map(u => [u.id, u]));
+  const lastReadAt = read?.lastReadAt ?? null;
+
+  const toView = (comment: (typeof comments)[number]): CommentView => ({
+    id: comment.id,
+    parentId: comment.parentId,
+    body: comment.isActive ? comment.body : null,
+    author: comment.author,
+    mentions: comment.isActive
+      ? comment.mentionedUserIds.map(id => usersById.get(id)).filter((u): u is CommentUser => !!u)
+      : [],
+    editedAt: comment.editedAt,
+    isDeleted: !comment.isActive,
+    isUnread: comment.isActive && comment.authorUserId !== userId && (!lastReadAt || comment.createdAt > lastReadAt),
+    createdAt: comment.createdAt,
+    replies: [],
+  });
+
+  const threads: CommentView[] = [];
+  const byId = new Map<number, CommentView>();
+  for (const comment of comments) {
+    const view = toView(comment);
+    byId.set(comment.id, view);
+    if (comment.parentId === null) {
+      threads.push(view);
+    } else if (comment.isActive) {
+      byId.get(comment.parentId)?.replies.push(view);
+    }
+  }
+
+  return {
+    comments: threads.filter(thread => !thread.isDeleted || thread.replies.length > 0),
+    lastReadAt,
+  };
+};
+
+export const createComment = async (
+  input: CreateCommentInput,
+  organizationId: number,
+  author: { id: number; firstName: string; lastName: string }
+) => {
+  const entity = await resolveEntity(input.entityType, input.entityId, organizationId);
+
+  let parentId: number | null = null;
+  if (input.parentId) {
+    const parent = await prisma.comment.findFirst({
+      where: { id: input.parentId, entityType: input.entityType, entityId: input.entityId, isActive: true },
+    });
+    if (!parent) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Parent comment not found', 404);
+    }
+    // Threads are one level deep: a reply to a reply joins the same thread
+    parentId = parent.parentId ?? parent.id;
+  }
+
+  const mentions = await resolveMentions(input.body, organizationId);
+
+  const comment = await prisma.comment.create({
+    data: {
+      projectId: entity.projectId,
+      entityType: input.entityType,
+      entityId: input.entityId,
+      parentId,
+      body: input.body,
+      mentionedUserIds: mentions.map(u => u.id),
+      authorUserId: author.id,
+    },
+    include: { author: { select: userSelect } },
+  });
+
+  await notifyMentions(mentions, author, entity, input.body);
+
+  return { ...comment, mentions };
+};
+
+// Authors can edit their own comments; the previous text is kept in the audit log
+export const updateComment = async (
+  id: number,
+  input: UpdateCommentInput,
+  organizationId: number,
+  context: AuditContext & { firstName: string; lastName: string }
+) => {
+  const existing = await getActiveComment(id, organizationId);
+
+  if (existing.authorUserId !== context.userId) {
+    throw new AppError(ErrorCodes.FORBIDDEN, 'Only the author can edit a comment', 403);
+  }
+
+  const mentions = await resolveMentions(input.body, organizationId);
+
+  const [comment] = await prisma.$transaction([
+    prisma.comment.update({
+      where: { id },
+      data: { body: input.body, mentionedUserIds: mentions.map(u => u.id), editedAt: new Date() },
+      include: { author: { select: userSelect } },
+    }),
+    writeAudit('comment.update', id, organizationId, context, {
+      entityType: existing.entityType,
+      entityId: existing.entityId,
+      previousBody: existing.body,
+      body: input.body,
+    }),
+  ]);
+
+  // Only people newly mentioned by the edit are notified
+  const added = mentions.filter(u => !existing.mentionedUserIds.includes(u.id));
+  if (added.length > 0) {
+    const entity = await resolveEntity(existing.entityType as CommentEntityType, existing.entityId, organizationId);
+    await notifyMentions(added, { id: context.userId, firstName: context.firstName, lastName: context.lastName }, entity, input.body);
+  }
+
+  return { ...comment, mentions };
+};
+
+// Authors and org admins can delete; the text is kept in the audit log
+export const deleteComment = async (id: number, organizationId: number, context: AuditContext) => {
+  const existing = await getActiveComment(id, organizationId);
+
+  if (existing.authorUserId !== context.userId && (context.roleLevel ?? 0) < MODERATOR_ROLE_LEVEL) {
+    throw new AppError(ErrorCodes.FORBIDDEN, 'Only the author or an admin can delete a comment', 403);
+  }
+
+  await prisma.$transaction([
+    prisma.comment.update({
+      where: { id },
+      data: { isActive: false, deletedAt: new Date() },
+    }),
+    writeAudit('comment.delete', id, organizationId, context, {
+      entityType: existing.entityType,
+      entityId: existing.entityId,
+      authorUserId: existing.authorUserId,
+      body: existing.body,
+    }),
+  ]);
+
+  return { message: 'Comment deleted successfully' };
+};
+
+export const markCommentsRead = async (input: MarkCommentsReadInput, organizationId: number, userId: number) => {
+  await resolveEntity(input.entityType, input.entityId, organizationId);
+
+  const lastReadAt = new Date();
+  await prisma.commentRead.upsert({
+    where: { userId_entityType_entityId: { userId, entityType: input.entityType, entityId: input.entityId } },
+    create: { userId, entityType: input.entityType, entityId: input.entityId, lastReadAt },
+    update: { lastReadAt },
+  });
+
+  return { lastReadAt };
+};
+
+// Comment and unread counts for every record in a project that has comments
+export const getProjectUnreadCounts = async (
+  projectId: string,
+  organizationId: number,
+  userId: number
+): Promise<UnreadCount[]> => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, organizationId, isActive: true },
+    select: { id: true },
+  });
+
+  if (!project) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Project not found', 404);
+  }
+
+  const comments = await prisma.comment.findMany({
+    where: { projectId, isActive: true },
+    select: { entityType: true, entityId: true, authorUserId: true, createdAt: true },
+  });
+  if (comments.length === 0) return [];
+
+  const reads = await prisma.commentRead.findMany({
+    where: { userId, entityId: { in: Array.from(new Set(comments.map(c => c.entityId))) } },
+  });
+  const readAt = new Map(reads.map(r => [`${r.entityType}:${r.entityId}`, r.lastReadAt]));
+
+  const counts = new Map<string, UnreadCount>();
+  for (const comment of comments) {
+    const key = `${comment.entityType}:${comment.entityId}`;
+    const count = counts.get(key) ?? { entityType: comment.entityType, entityId: comment.entityId, total: 0, unread: 0 };
+    count.total++;
+    const lastRead = readAt.get(key);
+    if (comment.authorUserId !== userId && (!lastRead || comment.createdAt > lastRead)) count.unread++;
+    counts.set(key, count);
+  }
+
+  return Array.from(counts.values());
+};
@@ -13,6 +13,10 @@ import {
   UpdateContentTypeSchema,
   CreateActivityTypeSchema,
   UpdateActivityTypeSchema,
+  CreateCustomFieldSchema,
+  UpdateCustomFieldSchema,
+  ListCustomFieldsQuerySchema,
+  UpsertStatusWorkflowSchema,
   ListTypesQuerySchema,
 } from './config.schema';
 import * as configService from './config.service';
@@ -328,3 +332,133 @@ export default {
   updateActivityType,
   deleteActivityType,
 };
+
+// ============ Custom Fields ============
+
+export const listCustomFields: RequestHandler = async (req, res, next) => {
+  try {
+    const organizationId = req.organizationId;
+    if (!organizationId) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Organization context required', 400);
+    }
+
+    const query = ListCustomFieldsQuerySchema.parse(req.query);
+    const result = await configService.listCustomFields(organizationId, query);
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createCustomField: RequestHandler = async (req, res, next) => {
+  try {
+    const organizationId = req.organizationId;
+    if (!organizationId) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Organization context required', 400);
+    }
+
+    const input = CreateCustomFieldSchema.parse(req.body);
+    const result = await configService.createCustomField(organizationId, input);
+    successResponse(res, result, 201);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateCustomField: RequestHandler = async (req, res, next) => {
+  try {
+    const organizationId = req.organizationId;
+    const id = parseInt(req.params.id, 10);
+
+    if (!organizationId) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Organization context required', 400);
+    }
+
+    if (isNaN(id)) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Invalid ID', 400);
+    }
+
+    const input = UpdateCustomFieldSchema.parse(req.body);
+    const result = await configService.updateCustomField(id, organizationId, input);
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteCustomField: RequestHandler = async (req, res, next) => {
+  try {
+    const organizationId = req.organizationId;
+    const id = parseInt(req.params.id, 10);
+
+    if (!organizationId) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Organization context required', 400);
+    }
+
+    if (isNaN(id)) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Invalid ID', 400);
+    }
+
+    await configService.deleteCustomField(id, organizationId);
+    successResponse(res, { deleted: true });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// ============ Status Workflows ============
+
+export const listStatusWorkflows: RequestHandler = async (req, res, next) => {
+  try {
+    const organizationId = req.organizationId;
+    if (!organizationId) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Organization context required', 400);
+    }
+
+    const result = await configService.listStatusWorkflows(organizationId);
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const upsertStatusWorkflow: RequestHandler = async (req, res, next) => {
+  try {
+    const organizationId = req.organizationId;
+    const planItemTypeId = parseInt(req.params.planItemTypeId, 10);
+
+    if (!organizationId) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Organization context required', 400);
+    }
+
+    if (isNaN(planItemTypeId)) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Invalid plan item type ID', 400);
+    }
+
+    const input = UpsertStatusWorkflowSchema.parse(req.body);
+    const result = await configService.upsertStatusWorkflow(planItemTypeId, organizationId, input);
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteStatusWorkflow: RequestHandler = async (req, res, next) => {
+  try {
+    const organizationId = req.organizationId;
+    const planItemTypeId = parseInt(req.params.planItemTypeId, 10);
+
+    if (!organizationId) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Organization context required', 400);
+    }
+
+    if (isNaN(planItemTypeId)) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Invalid plan item type ID', 400);
+    }
+
+    await configService.deleteStatusWorkflow(planItemTypeId, organizationId);
+    successResponse(res, { deleted: true });
+  } catch (error) {
+    next(error);
+  }
+};
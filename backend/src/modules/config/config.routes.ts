@@ -6,6 +6,7 @@
 import { Router } from 'express';
 import { authenticate } from '../../middleware/auth';
 import { requireOrgContext } from '../../middleware/orgContext';
+import { requireOrgAdmin } from '../../middleware/rbac';
 import * as configController from './config.controller';
 
 const router = Router();
@@ -387,4 +388,264 @@ router.put('/activity-types/:id', configController.updateActivityType);
  */
 router.delete('/activity-types/:id', configController.deleteActivityType);
 
+// ============ Custom Fields ============
+
+/**
+ * @swagger
+ * /config/custom-fields:
+ *   get:
+ *     summary: List custom fields
+ *     description: Organization-defined fields captured on plan items. Filtering by type includes fields that apply to all types.
+ *     tags: [Config]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: query
+ *         name: planItemTypeId
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: List of custom fields
+ */
+router.get('/custom-fields', configController.listCustomFields);
+
+/**
+ * @swagger
+ * /config/custom-fields:
+ *   post:
+ *     summary: Create a custom field
+ *     description: Requires organization admin.
+ *     tags: [Config]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - key
+ *               - label
+ *             properties:
+ *               key:
+ *                 type: string
+ *                 example: "budget_code"
+ *               label:
+ *                 type: string
+ *                 example: "Budget code"
+ *               description:
+ *                 type: string
+ *               fieldType:
+ *                 type: string
+ *                 enum: [text, number, date, select, user]
+ *               planItemTypeId:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Restrict the field to one plan item type (null for all types)
+ *               options:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Allowed values for select fields
+ *               required:
+ *                 type: boolean
+ *               sortOrder:
+ *                 type: integer
+ *     responses:
+ *       201:
+ *         description: Custom field created
+ *       409:
+ *         description: A field with this key already exists
+ */
+router.post('/custom-fields', requireOrgAdmin, configController.createCustomField);
+
+/**
+ * @swagger
+ * /config/custom-fields/{id}:
+ *   put:
+ *     summary: Update a custom field
+ *     description: Key and field type cannot be changed. Requires organization admin.
+ *     tags: [Config]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               label:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               planItemTypeId:
+ *                 type: integer
+ *                 nullable: true
+ *               options:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               required:
+ *                 type: boolean
+ *               sortOrder:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Custom field updated
+ */
+router.put('/custom-fields/:id', requireOrgAdmin, configController.updateCustomField);
+
+/**
+ * @swagger
+ * /config/custom-fields/{id}:
+ *   delete:
+ *     summary: Delete a custom field
+ *     description: Values already stored on plan items are kept but no longer shown. Requires organization admin.
+ *     tags: [Config]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Custom field deleted
+ */
+router.delete('/custom-fields/:id', requireOrgAdmin, configController.deleteCustomField);
+
+// ============ Status Workflows ============
+
+/**
+ * @swagger
+ * /config/status-workflows:
+ *   get:
+ *     summary: List status workflows
+ *     description: Custom status sets and allowed transitions, one per plan item type. Types without a workflow use the built-in statuses.
+ *     tags: [Config]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *     responses:
+ *       200:
+ *         description: List of status workflows
+ */
+router.get('/status-workflows', configController.listStatusWorkflows);
+
+/**
+ * @swagger
+ * /config/status-workflows/{planItemTypeId}:
+ *   put:
+ *     summary: Create or replace the status workflow for a plan item type
+ *     description: |
+ *       Each status maps onto a built-in status (its category), which is what progress roll-up,
+ *       filters and exports see. Only the listed transitions are allowed. Requires organization admin.
+ *     tags: [Config]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: planItemTypeId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - statuses
+ *               - initialStatus
+ *             properties:
+ *               statuses:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [key, label, category]
+ *                   properties:
+ *                     key:
+ *                       type: string
+ *                       example: "in_review"
+ *                     label:
+ *                       type: string
+ *                       example: "In Review"
+ *                     category:
+ *                       type: string
+ *                       enum: [not_started, in_progress, completed, on_hold, blocked, cancelled]
+ *                     color:
+ *                       type: string
+ *               transitions:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [from, to]
+ *                   properties:
+ *                     from:
+ *                       type: string
+ *                     to:
+ *                       type: string
+ *                     requiredFields:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                         enum: [owner, startDate, targetEndDate, actualStartDate, actualEndDate, effort, notes]
+ *                     requireReason:
+ *                       type: boolean
+ *               initialStatus:
+ *                 type: string
+ *                 description: Status key given to new items
+ *     responses:
+ *       200:
+ *         description: Status workflow saved
+ *       400:
+ *         description: Invalid statuses or transitions
+ */
+router.put('/status-workflows/:planItemTypeId', requireOrgAdmin, configController.upsertStatusWorkflow);
+
+/**
+ * @swagger
+ * /config/status-workflows/{planItemTypeId}:
+ *   delete:
+ *     summary: Delete the status workflow for a plan item type
+ *     description: Items of the type go back to the built-in statuses. Requires organization admin.
+ *     tags: [Config]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: planItemTypeId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Status workflow deleted
+ *       404:
+ *         description: The type has no workflow
+ */
+router.delete('/status-workflows/:planItemTypeId', requireOrgAdmin, configController.deleteStatusWorkflow);
+
 export default router;
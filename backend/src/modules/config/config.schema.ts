@@ -4,6 +4,7 @@
  */
 
 import { z } from 'zod';
+import { planItemStatuses } from '../plan-items/plan-items.schema';
 
 // Plan Item Type schemas
 export const CreatePlanItemTypeSchema = z.object({
@@ -48,6 +49,107 @@ export const UpdateActivityTypeSchema = CreateActivityTypeSchema.partial();
 export type CreateActivityTypeInput = z.infer<typeof CreateActivityTypeSchema>;
 export type UpdateActivityTypeInput = z.infer<typeof UpdateActivityTypeSchema>;
 
+// Custom Field schemas
+export const customFieldTypes = ['text', 'number', 'date', 'select', 'user'] as const;
+
+const CustomFieldBaseSchema = z.object({
+  key: z.string().min(1).max(50).regex(/^[a-z][a-z0-9_]*$/, 'Key must start with a letter and contain only lowercase letters, digits and underscores'),
+  label: z.string().min(1).max(100),
+  description: z.string().max(500).nullable().optional(),
+  fieldType: z.enum(customFieldTypes).default('text'),
+  // Null applies the field to every plan item type
+  planItemTypeId: z.number().int().positive().nullable().optional(),
+  options: z.array(z.string().min(1).max(100)).max(100).default([]),
+  required: z.boolean().default(false),
+  sortOrder: z.number().int().default(0),
+});
+
+export const CreateCustomFieldSchema = CustomFieldBaseSchema.refine(
+  data => data.fieldType !== 'select' || data.options.length > 0,
+  { message: 'Select fields need at least one option', path: ['options'] }
+);
+
+// Key and field type are fixed once created, since stored values depend on them
+export const UpdateCustomFieldSchema = CustomFieldBaseSchema.omit({ key: true, fieldType: true })
+  .extend({ options: z.array(z.string().min(1).max(100)).max(100) })
+  .partial();
+
+export const ListCustomFieldsQuerySchema = z.object({
+  planItemTypeId: z.coerce.number().int().positive().optional(),
+});
+
+export type CustomFieldType = (typeof customFieldTypes)[number];
+export type CreateCustomFieldInput = z.infer<typeof CreateCustomFieldSchema>;
+export type UpdateCustomFieldInput = z.infer<typeof UpdateCustomFieldSchema>;
+export type ListCustomFieldsQuery = z.infer<typeof ListCustomFieldsQuerySchema>;
+
+// Status Workflow schemas
+// Plan item fields a transition can require to be filled in
+export const transitionRequirableFields = [
+  'owner',
+  'startDate',
+  'targetEndDate',
+  'actualStartDate',
+  'actualEndDate',
+  'effort',
+  'notes',
+] as const;
+
+const WorkflowStatusSchema = z.object({
+  key: z.string().min(1).max(50).regex(/^[a-z][a-z0-9_]*$/, 'Key must start with a letter and contain only lowercase letters, digits and underscores'),
+  label: z.string().min(1).max(100),
+  // Built-in status the workflow status counts as for roll-up and filtering
+  category: z.enum(planItemStatuses),
+  color: z.string().max(20).optional(),
+});
+
+const WorkflowTransitionSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+  requiredFields: z.array(z.enum(transitionRequirableFields)).default([]),
+  requireReason: z.boolean().default(false),
+});
+
+export const UpsertStatusWorkflowSchema = z
+  .object({
+    statuses: z.array(WorkflowStatusSchema).min(1).max(30),
+    transitions: z.array(WorkflowTransitionSchema).max(200).default([]),
+    initialStatus: z.string().min(1),
+  })
+  .superRefine((data, ctx) => {
+    const keys = new Set<string>();
+    data.statuses.forEach((status, index) => {
+      if (keys.has(status.key)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate status "${status.key}"`, path: ['statuses', index, 'key'] });
+      }
+      keys.add(status.key);
+    });
+
+    if (!keys.has(data.initialStatus)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Initial status must be one of the workflow statuses', path: ['initialStatus'] });
+    }
+
+    const pairs = new Set<string>();
+    data.transitions.forEach((transition, index) => {
+      for (const end of ['from', 'to'] as const) {
+        if (!keys.has(transition[end])) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown status "${transition[end]}"`, path: ['transitions', index, end] });
+        }
+      }
+      if (transition.from === transition.to) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'A transition must change the status', path: ['transitions', index] });
+      }
+      const pair = `${transition.from}->${transition.to}`;
+      if (pairs.has(pair)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate transition ${transition.from} to ${transition.to}`, path: ['transitions', index] });
+      }
+      pairs.add(pair);
+    });
+  });
+
+export type TransitionRequirableField = (typeof transitionRequirableFields)[number];
+export type UpsertStatusWorkflowInput = z.infer<typeof UpsertStatusWorkflowSchema>;
+
 // List query schemas
 export const ListTypesQuerySchema = z.object({
   page: z.coerce.number().int().positive().default(1),
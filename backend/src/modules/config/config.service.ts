@@ -4,6 +4,8 @@
  */
 
 import prisma from '../../config/database';
+import { AppError } from '../../middleware/errorHandler';
+import { ErrorCodes } from '../../utils/responses';
 import type {
   CreatePlanItemTypeInput,
   UpdatePlanItemTypeInput,
@@ -11,6 +13,10 @@ import type {
   UpdateContentTypeInput,
   CreateActivityTypeInput,
   UpdateActivityTypeInput,
+  CreateCustomFieldInput,
+  UpdateCustomFieldInput,
+  ListCustomFieldsQuery,
+  UpsertStatusWorkflowInput,
   ListTypesQuery,
 } from './config.schema';
 
@@ -434,6 +440,148 @@ export async function deleteActivityType(id: number, organizationId: number) {
   });
 }
 
+// ============ Custom Fields ============
+
+export async function listCustomFields(organizationId: number, query: ListCustomFieldsQuery) {
+  return prisma.customField.findMany({
+    where: {
+      organizationId,
+      isActive: true,
+      // Filtering by type also returns the fields that apply to every type
+      ...(query.planItemTypeId && {
+        OR: [{ planItemTypeId: null }, { planItemTypeId: query.planItemTypeId }],
+      }),
+    },
+    include: { planItemType: { select: { id: true, name: true, slug: true } } },
+    orderBy: [{ sortOrder: 'asc' }, { label: 'asc' }],
+  });
+}
+
+async function assertPlanItemTypeVisible(planItemTypeId: number, organizationId: number) {
+  const type = await getPlanItemType(planItemTypeId, organizationId);
+  if (!type) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Plan item type not found', 404);
+  }
+}
+
+export async function createCustomField(organizationId: number, input: CreateCustomFieldInput) {
+  const existing = await prisma.customField.findFirst({
+    where: { organizationId, key: input.key, isActive: true },
+  });
+
+  if (existing) {
+    throw new AppError(ErrorCodes.CONFLICT, `Custom field with key "${input.key}" already exists`, 409);
+  }
+
+  if (input.planItemTypeId) {
+    await assertPlanItemTypeVisible(input.planItemTypeId, organizationId);
+  }
+
+  return prisma.customField.create({
+    data: {
+      ...input,
+      // Options only mean something for select fields
+      options: input.fieldType === 'select' ? input.options : [],
+      organizationId,
+    },
+    include: { planItemType: { select: { id: true, name: true, slug: true } } },
+  });
+}
+
+export async function updateCustomField(
+  id: number,
+  organizationId: number,
+  input: UpdateCustomFieldInput
+) {
+  const existing = await prisma.customField.findFirst({
+    where: { id, organizationId, isActive: true },
+  });
+
+  if (!existing) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Custom field not found', 404);
+  }
+
+  if (input.planItemTypeId) {
+    await assertPlanItemTypeVisible(input.planItemTypeId, organizationId);
+  }
+
+  if (input.options !== undefined) {
+    if (existing.fieldType !== 'select') {
+      input.options = [];
+    } else if (input.options.length === 0) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Select fields need at least one option', 400);
+    }
+  }
+
+  return prisma.customField.update({
+    where: { id },
+    data: input,
+    include: { planItemType: { select: { id: true, name: true, slug: true } } },
+  });
+}
+
+// Values already stored on plan items are left in place; inactive fields are ignored on read
+export async function deleteCustomField(id: number, organizationId: number) {
+  const existing = await prisma.customField.findFirst({
+    where: { id, organizationId, isActive: true },
+  });
+
+  if (!existing) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Custom field not found', 404);
+  }
+
+  return prisma.customField.update({
+    where: { id },
+    data: { isActive: false },
+  });
+}
+
+// ============ Status Workflows ============
+
+export async function listStatusWorkflows(organizationId: number) {
+  return prisma.statusWorkflow.findMany({
+    where: { organizationId },
+    include: { planItemType: { select: { id: true, name: true, slug: true, level: true } } },
+    orderBy: { planItemType: { level: 'asc' } },
+  });
+}
+
+// Replaces the type's workflow. Items whose stored workflow status no longer exists fall back to
+// the first status in their category.
+export async function upsertStatusWorkflow(
+  planItemTypeId: number,
+  organizationId: number,
+  input: UpsertStatusWorkflowInput
+) {
+  await assertPlanItemTypeVisible(planItemTypeId, organizationId);
+
+  return prisma.statusWorkflow.upsert({
+    where: { organizationId_planItemTypeId: { organizationId, planItemTypeId } },
+    create: { ...input, organizationId, planItemTypeId },
+    update: input,
+    include: { planItemType: { select: { id: true, name: true, slug: true, level: true } } },
+  });
+}
+
+// Items of the type go back to the built-in statuses
+export async function deleteStatusWorkflow(planItemTypeId: number, organizationId: number) {
+  const existing = await prisma.statusWorkflow.findUnique({
+    where: { organizationId_planItemTypeId: { organizationId, planItemTypeId } },
+  });
+
+  if (!existing) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Status workflow not found', 404);
+  }
+
+  await prisma.$transaction([
+    prisma.planItem.updateMany({
+      where: { itemTypeId: planItemTypeId, project: { organizationId } },
+      data: { workflowStatus: null },
+    }),
+    prisma.statusWorkflow.delete({ where: { id: existing.id } }),
+  ]);
+}
+
 export default {
   // Plan Item Types
   listPlanItemTypes,
@@ -453,4 +601,13 @@ export default {
   createActivityType,
   updateActivityType,
   deleteActivityType,
+  // Custom Fields
+  listCustomFields,
+  createCustomField,
+  updateCustomField,
+  deleteCustomField,
+  // Status Workflows
+  listStatusWorkflows,
+  upsertStatusWorkflow,
+  deleteStatusWorkflow,
 };
@@ -16,7 +16,20 @@ import {
   type ActivityTypeContext,
 } from '../../services/ai/prompts/intake-agent.js';
 import { getPromptsForAgent } from '../prompt-templates/prompt-templates.service.js';
+import type { LinkSource } from '../plan-items/plan-evidence.service.js';
 import { createContentChunks } from '../../services/ai/embedding.service.js';
+import {
+  reconcileIntakeActions,
+  proposeIntakeDecisions,
+  type IntakeAction,
+  type IntakeDecision,
+} from '../raid/raid.service.js';
+import {
+  getStakeholdersForPrompt,
+  resolvePeople,
+  type PersonMention,
+  type ResolvedPerson,
+} from '../stakeholders/stakeholder-resolver.service.js';
 import { Prisma } from '@prisma/client';
 
 // Token limit safety: ~4 chars per token, leave room for system prompt (~2K tokens) and response (~2K tokens)
@@ -152,7 +165,7 @@ export async function analyzeContent(
   }
 
   // Fetch content types and activity types (global or org-specific)
-  const [contentTypes, activityTypes, planItemContexts] = await Promise.all([
+  const [contentTypes, activityTypes, planItemContexts, stakeholders] = await Promise.all([
     prisma.contentType.findMany({
       where: {
         isActive: true,
@@ -174,6 +187,7 @@ export async function analyzeContent(
       orderBy: { name: 'asc' },
     }),
     buildPlanItemContexts(input.projectId),
+    getStakeholdersForPrompt(input.projectId),
   ]);
 
   // Check if AI is configured for this organization
@@ -225,6 +239,7 @@ export async function analyzeContent(
       slug: at.slug,
       description: at.description || undefined,
     })),
+    stakeholders,
     userSelectedContentTypes: input.selectedContentTypeIds,
     userSelectedActivityTypes: input.selectedActivityTypeIds,
     userSelectedPlanItems: input.selectedPlanItemIds,
@@ -329,6 +344,8 @@ export interface SaveAnalyzedContentInput {
   tags: string[];
   aiSummary?: string;
   aiExtractedEntities?: Record<string, unknown>;
+  // Set by server-side intake (e.g. email headers); not accepted from the client
+  sourceMetadata?: Record<string, unknown>;
   extractedItems?: Array<{
     type: string;
     title: string;
@@ -341,6 +358,10 @@ export interface SaveAnalyzedContentInput {
   }>;
 }
 
+// Model metadata is free-form, so only take non-empty strings from it
+const metadataString = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
 interface SavedContentResult {
   mainItem: {
     id: string;
@@ -351,6 +372,8 @@ interface SavedContentResult {
     title: string;
     type: string;
   }>;
+  trackedActionIds: string[];
+  proposedDecisionIds: string[];
   chunksCreated: number;
 }
 
@@ -375,6 +398,23 @@ export async function saveAnalyzedContent(
     throw new Error('Project not found');
   }
 
+  // Plan item ids come from the client and the model, so only link those that exist in the project
+  const requestedPlanItemIds = [
+    ...input.planItemIds,
+    ...(input.extractedItems || []).flatMap(extracted => extracted.relatedPlanItemIds || []),
+  ];
+  const knownPlanItemIds = new Set(
+    (await prisma.planItem.findMany({
+      where: { id: { in: requestedPlanItemIds }, projectId: input.projectId, isActive: true },
+      select: { id: true },
+    })).map(item => item.id)
+  );
+  const planItemLinks = (planItemIds: string[], source: LinkSource) => ({
+    create: Array.from(new Set(planItemIds))
+      .filter(id => knownPlanItemIds.has(id))
+      .map(planItemId => ({ projectId: input.projectId, planItemId, source, createdByUserId: userId })),
+  });
+
   const projectWeek = project.startDate
     ? Math.ceil(
         (input.dateOccurred.getTime() - project.startDate.getTime()) /
@@ -392,22 +432,45 @@ export async function saveAnalyzedContent(
       title: input.title,
       dateOccurred: input.dateOccurred,
       projectWeek,
-      planItemIds: input.planItemIds,
+      planItemLinks: planItemLinks(input.planItemIds, 'manual'),
       contentTypeIds: input.contentTypeIds,
       activityTypeIds: input.activityTypeIds,
       tags: input.tags,
       rawContent: input.rawContent,
       aiSummary: input.aiSummary,
       aiExtractedEntities: (input.aiExtractedEntities || {}) as Prisma.InputJsonValue,
+      sourceMetadata: (input.sourceMetadata || {}) as Prisma.InputJsonValue,
       processingStatus: 'completed',
     },
   });
 
+  // Resolve owners and decision makers against the stakeholder directory, suggesting the names
+  // it doesn't know. Unresolved names are kept as the model wrote them.
+  const personMentions: PersonMention[] = (input.extractedItems || []).flatMap(extracted => [
+    { name: extracted.owner || '', sourceContentIds: [mainItem.id] },
+    { name: metadataString(extracted.metadata?.decisionMaker) || '', sourceContentIds: [mainItem.id] },
+  ]);
+  let resolvePerson: (name: string | null | undefined) => ResolvedPerson | null = () => null;
+  try {
+    resolvePerson = await resolvePeople(input.projectId, personMentions, {
+      createdBy: 'intake_agent',
+      createdByUserId: userId,
+    });
+  } catch (error) {
+    console.error('Failed to resolve stakeholders:', error);
+  }
+
   const extractedItemsCreated: Array<{ id: string; title: string; type: string }> = [];
+  const intakeActions: IntakeAction[] = [];
+  const intakeDecisions: IntakeDecision[] = [];
 
   // Create child items for extracted entities
   if (input.extractedItems && input.extractedItems.length > 0) {
     for (const extracted of input.extractedItems) {
+      const owner = resolvePerson(extracted.owner);
+      const decisionMakerName = metadataString(extracted.metadata?.decisionMaker);
+      const decisionMaker = resolvePerson(decisionMakerName);
+
       // Map type to activity type ID
       const activityType = await prisma.activityItemType.findFirst({
         where: { slug: extracted.type },
@@ -423,17 +486,22 @@ export async function saveAnalyzedContent(
           title: extracted.title,
           dateOccurred: input.dateOccurred,
           projectWeek,
-          planItemIds: extracted.relatedPlanItemIds || [],
+          planItemLinks: planItemLinks(extracted.relatedPlanItemIds || [], 'ai'),
           contentTypeIds: [],
           activityTypeIds: activityType ? [activityType.id] : [],
           tags: [],
           rawContent: extracted.description,
           aiExtractedEntities: {
             type: extracted.type,
-            owner: extracted.owner,
+            owner: owner?.name ?? extracted.owner,
+            ownerStakeholderId: owner?.stakeholderId,
             dueDate: extracted.dueDate,
             status: extracted.status,
             ...(extracted.metadata || {}),
+            ...(decisionMaker && {
+              decisionMaker: decisionMaker.name,
+              decisionMakerStakeholderId: decisionMaker.stakeholderId,
+            }),
           } as Prisma.InputJsonValue,
           processingStatus: 'completed',
         },
@@ -444,9 +512,56 @@ export async function saveAnalyzedContent(
         title: childItem.title,
         type: extracted.type,
       });
+
+      if (extracted.type === 'action_item') {
+        intakeActions.push({
+          title: extracted.title,
+          description: extracted.description || null,
+          owner: owner?.name ?? (extracted.owner || null),
+          dueDate: extracted.dueDate || null,
+          status: extracted.status || null,
+          planItemId: (extracted.relatedPlanItemIds || []).find(id => knownPlanItemIds.has(id)) ?? null,
+          sourceContentIds: [childItem.id, mainItem.id],
+        });
+      }
+
+      if (extracted.type === 'decision') {
+        const metadata = extracted.metadata || {};
+        const relatedPlanItemIds = (extracted.relatedPlanItemIds || []).filter(id => knownPlanItemIds.has(id));
+        intakeDecisions.push({
+          title: extracted.title,
+          description: extracted.description || null,
+          decisionMaker: decisionMaker?.name ?? decisionMakerName ?? owner?.name ?? extracted.owner ?? null,
+          decisionDate: metadataString(metadata.decisionDate),
+          rationale: metadataString(metadata.rationale),
+          alternatives: Array.isArray(metadata.alternatives)
+            ? metadata.alternatives.filter((a): a is string => typeof a === 'string' && a.trim().length > 0)
+            : [],
+          planItemId: relatedPlanItemIds[0] ?? null,
+          affectedPlanItemIds: relatedPlanItemIds,
+          sourceContentIds: [childItem.id, mainItem.id],
+        });
+      }
     }
   }
 
+  // Feed extracted actions into the project's action tracker, merging with ones already tracked
+  let trackedActionIds: string[] = [];
+  try {
+    trackedActionIds = await reconcileIntakeActions(input.projectId, intakeActions, userId);
+  } catch (error) {
+    console.error('Failed to track extracted actions:', error);
+    // The content is saved either way; the actions can be added from the register
+  }
+
+  // Decisions go to the review queue rather than straight into the decision log
+  let proposedDecisionIds: string[] = [];
+  try {
+    proposedDecisionIds = await proposeIntakeDecisions(input.projectId, intakeDecisions, userId);
+  } catch (error) {
+    console.error('Failed to propose extracted decisions:', error);
+  }
+
   // Generate embeddings for main content
   let chunksCreated = 0;
   if (input.rawContent && input.rawContent.trim().length > 0) {
@@ -465,6 +580,8 @@ export async function saveAnalyzedContent(
       title: mainItem.title,
     },
     extractedItems: extractedItemsCreated,
+    trackedActionIds,
+    proposedDecisionIds,
     chunksCreated,
   };
 }
@@ -3,7 +3,8 @@ import { successResponse, paginatedResponse, ErrorCodes } from '../../utils/resp
 import { AppError } from '../../middleware/errorHandler';
 import * as contentItemsService from './content-items.service';
 import * as analyzeService from './analyze.service';
-import { processUploadedFile } from '../../services/file-processing/index.js';
+import * as emailIntakeService from './email-intake.service';
+import { processUploadedFile, isEmailFile } from '../../services/file-processing/index.js';
 import type {
   CreateContentItemInput,
   UpdateContentItemInput,
@@ -117,7 +118,12 @@ export const deleteContentItem: RequestHandler = async (
 ): Promise<void> => {
   try {
     const organizationId = req.organizationId!;
-    const result = await contentItemsService.deleteContentItem(req.params.id, organizationId);
+    const result = await contentItemsService.deleteContentItem(
+      req.params.id,
+      organizationId,
+      req.user?.id,
+      req.user?.email
+    );
     successResponse(res, result);
   } catch (error) {
     next(error);
@@ -238,3 +244,50 @@ export const uploadFile: RequestHandler = async (
     next(error);
   }
 };
+
+// POST /api/projects/:projectId/content/email - Import an .eml message or .mbox mailbox
+export const importEmail: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const userId = req.user!.id;
+    const { projectId } = req.params;
+
+    if (!req.file) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'No file uploaded', 400);
+    }
+    if (!isEmailFile(req.file.originalname)) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Only .eml and .mbox files can be imported as email', 400);
+    }
+
+    const result = await emailIntakeService.importEmailFile(
+      projectId,
+      organizationId,
+      req.file.buffer,
+      req.file.originalname,
+      userId
+    );
+    successResponse(res, result, 201);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/projects/:projectId/content/email-address - Get the project's inbound email address
+export const getIntakeAddress: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId } = req.params;
+    const result = await emailIntakeService.getIntakeAddress(projectId, organizationId);
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,5 +1,7 @@
 import { Router } from 'express';
 import * as contentItemsController from './content-items.controller';
+import * as planEvidenceController from '../plan-items/plan-evidence.controller';
+import * as trashController from '../trash/trash.controller';
 import { validateBody, validateQuery } from '../../middleware/validation';
 import { authenticate } from '../../middleware/auth';
 import { requireOrgContext } from '../../middleware/orgContext';
@@ -353,7 +355,7 @@ router.put(
  * /content-items/{id}:
  *   delete:
  *     summary: Delete a content item
- *     description: Delete a content item and its associated data
+ *     description: Soft delete a content item. It moves to the project's trash and its chunks drop out of retrieval until it is restored.
  *     tags: [Content Items]
  *     security:
  *       - bearerAuth: []
@@ -376,4 +378,63 @@ router.delete(
   contentItemsController.deleteContentItem
 );
 
+/**
+ * @swagger
+ * /content-items/{id}/restore:
+ *   post:
+ *     summary: Restore a deleted content item
+ *     description: Restore a content item from the project's trash and return its chunks to retrieval
+ *     tags: [Content Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Content item UUID
+ *     responses:
+ *       200:
+ *         description: Content item and chunks restored
+ *       404:
+ *         description: Deleted content item not found
+ */
+router.post(
+  '/:id/restore',
+  trashController.restoreContentItem
+);
+
+
+/**
+ * @swagger
+ * /content-items/{id}/plan-items:
+ *   get:
+ *     summary: Get linked plan items
+ *     description: Plan items the content item is linked to as evidence, in plan order. Plan items in the trash are left out.
+ *     tags: [Content Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Content item UUID
+ *     responses:
+ *       200:
+ *         description: Linked plan items
+ *       404:
+ *         description: Content item not found
+ */
+router.get(
+  '/:id/plan-items',
+  planEvidenceController.getContentItemPlanItems
+);
+
 export default router;
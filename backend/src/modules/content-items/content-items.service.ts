@@ -2,6 +2,7 @@ import prisma from '../../config/database';
 import { AppError } from '../../middleware/errorHandler';
 import { ErrorCodes } from '../../utils/responses';
 import { Prisma } from '@prisma/client';
+import { assertPlanItemsInProject, setContentItemLinks } from '../plan-items/plan-evidence.service';
 import type {
   CreateContentItemInput,
   UpdateContentItemInput,
@@ -15,6 +16,19 @@ function calculateProjectWeek(projectStartDate: Date, dateOccurred: Date): numbe
   return Math.floor(diff / msPerWeek) + 1;
 }
 
+// Linked plan items are returned as planItemIds, leaving out any that are in the trash
+const planItemLinksInclude = {
+  planItemLinks: {
+    where: { planItem: { isActive: true } },
+    select: { planItemId: true },
+  },
+} as const;
+
+function withPlanItemIds<T extends { planItemLinks: Array<{ planItemId: string }> }>(item: T) {
+  const { planItemLinks, ...rest } = item;
+  return { ...rest, planItemIds: planItemLinks.map(link => link.planItemId) };
+}
+
 // List content items with filters and pagination
 export const listContentItems = async (
   organizationId: number,
@@ -47,7 +61,7 @@ export const listContentItems = async (
   }
 
   if (planItemId) {
-    where.planItemIds = { has: planItemId };
+    where.planItemLinks = { some: { planItemId } };
   }
 
   if (contentTypeId) {
@@ -94,6 +108,7 @@ export const listContentItems = async (
         user: {
           select: { id: true, firstName: true, lastName: true, email: true },
         },
+        ...planItemLinksInclude,
       },
       orderBy: { dateOccurred: 'desc' },
       skip: (page - 1) * limit,
@@ -103,7 +118,7 @@ export const listContentItems = async (
   ]);
 
   return {
-    items,
+    items: items.map(withPlanItemIds),
     pagination: {
       page,
       limit,
@@ -157,6 +172,7 @@ export const getContentItem = async (id: string, organizationId: number) => {
         where: { isActive: true },
         orderBy: { createdAt: 'asc' },
       },
+      ...planItemLinksInclude,
     },
   });
 
@@ -164,7 +180,7 @@ export const getContentItem = async (id: string, organizationId: number) => {
     throw new AppError(ErrorCodes.NOT_FOUND, 'Content item not found', 404);
   }
 
-  return item;
+  return withPlanItemIds(item);
 };
 
 // Create a new content item
@@ -187,19 +203,7 @@ export const createContentItem = async (
   }
 
   // Verify plan items exist if provided
-  if (input.planItemIds.length > 0) {
-    const planItemCount = await prisma.planItem.count({
-      where: {
-        id: { in: input.planItemIds },
-        projectId: input.projectId,
-        isActive: true,
-      },
-    });
-
-    if (planItemCount !== input.planItemIds.length) {
-      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'One or more plan items not found', 400);
-    }
-  }
+  await assertPlanItemsInProject(input.projectId, input.planItemIds);
 
   // Verify content types exist if provided
   if (input.contentTypeIds.length > 0) {
@@ -243,7 +247,13 @@ export const createContentItem = async (
   const item = await prisma.contentItem.create({
     data: {
       projectId: input.projectId,
-      planItemIds: input.planItemIds,
+      planItemLinks: {
+        create: Array.from(new Set(input.planItemIds)).map(planItemId => ({
+          projectId: input.projectId,
+          planItemId,
+          createdByUserId: userId,
+        })),
+      },
       contentTypeIds: input.contentTypeIds,
       activityTypeIds: input.activityTypeIds,
       sourceType: input.sourceType,
@@ -263,10 +273,11 @@ export const createContentItem = async (
       project: {
         select: { id: true, name: true },
       },
+      ...planItemLinksInclude,
     },
   });
 
-  return item;
+  return withPlanItemIds(item);
 };
 
 // Update a content item
@@ -304,7 +315,6 @@ export const updateContentItem = async (
   // Build update data explicitly
   const updateData: Prisma.ContentItemUpdateInput = { projectWeek };
 
-  if (input.planItemIds !== undefined) updateData.planItemIds = input.planItemIds;
   if (input.contentTypeIds !== undefined) updateData.contentTypeIds = input.contentTypeIds;
   if (input.activityTypeIds !== undefined) updateData.activityTypeIds = input.activityTypeIds;
   if (input.title !== undefined) updateData.title = input.title;
@@ -317,21 +327,38 @@ export const updateContentItem = async (
   }
   if (input.processingStatus !== undefined) updateData.processingStatus = input.processingStatus;
 
-  const item = await prisma.contentItem.update({
-    where: { id },
-    data: updateData,
-    include: {
-      project: {
-        select: { id: true, name: true },
+  const planItemIds = input.planItemIds;
+  if (planItemIds !== undefined) {
+    await assertPlanItemsInProject(existing.projectId, planItemIds);
+  }
+
+  const item = await prisma.$transaction(async (tx) => {
+    if (planItemIds !== undefined) {
+      await setContentItemLinks(tx, existing.projectId, id, planItemIds);
+    }
+
+    return tx.contentItem.update({
+      where: { id },
+      data: updateData,
+      include: {
+        project: {
+          select: { id: true, name: true },
+        },
+        ...planItemLinksInclude,
       },
-    },
+    });
   });
 
-  return item;
+  return withPlanItemIds(item);
 };
 
-// Soft delete a content item
-export const deleteContentItem = async (id: string, organizationId: number) => {
+// Soft delete a content item, taking its chunks out of retrieval until it is restored from the trash
+export const deleteContentItem = async (
+  id: string,
+  organizationId: number,
+  userId?: number,
+  userEmail?: string
+) => {
   const existing = await prisma.contentItem.findFirst({
     where: {
       id,
@@ -347,10 +374,16 @@ export const deleteContentItem = async (id: string, organizationId: number) => {
     throw new AppError(ErrorCodes.NOT_FOUND, 'Content item not found', 404);
   }
 
-  await prisma.contentItem.update({
-    where: { id },
-    data: { isActive: false },
-  });
+  await prisma.$transaction([
+    prisma.contentItem.update({
+      where: { id },
+      data: { isActive: false, deletedAt: new Date(), deletedByUserId: userId, deletedByEmail: userEmail },
+    }),
+    prisma.contentChunk.updateMany({
+      where: { contentItemId: id },
+      data: { isActive: false },
+    }),
+  ]);
 
   return { message: 'Content item deleted successfully' };
 };
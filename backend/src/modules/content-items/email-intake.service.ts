@@ -0,0 +1,468 @@
+import fs from 'fs';
+import { Prisma } from '@prisma/client';
+import { SMTPServer, type SMTPServerAddress } from 'smtp-server';
+import prisma from '../../config/database.js';
+import config from '../../config/index.js';
+import logger from '../../utils/logger.js';
+import { AppError } from '../../middleware/errorHandler.js';
+import { ErrorCodes } from '../../utils/responses.js';
+import { detectFileType, processUploadedFile } from '../../services/file-processing/index.js';
+import {
+  parseEmail,
+  parseEmailFile,
+  type EmailParticipant,
+  type ParsedEmail,
+} from '../../services/file-processing/email.service.js';
+import { createContentChunks } from '../../services/ai/embedding.service.js';
+import type { AnalysisResult } from '../../services/ai/prompts/intake-agent.js';
+import { analyzeContent, saveAnalyzedContent } from './analyze.service.js';
+import { validateApiKey } from '../api-keys/api-keys.service.js';
+
+type ReceivedVia = 'upload' | 'smtp';
+
+interface IntakeProject {
+  id: string;
+  organizationId: number;
+}
+
+// Same limit as file uploads
+const MAX_MESSAGE_SIZE = 10 * 1024 * 1024;
+
+// Each message is analyzed by the model while the upload request waits, so a mailbox is imported
+// a few messages at a time
+const MAX_EMAILS_PER_IMPORT = 10;
+
+// Verify project belongs to organization
+const getProjectOrThrow = async (projectId: string, organizationId: number) => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, organizationId, isActive: true },
+  });
+
+  if (!project) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Project not found', 404);
+  }
+
+  return project;
+};
+
+const formatParticipant = (participant: EmailParticipant) =>
+  participant.name ? `${participant.name} <${participant.address}>` : participant.address;
+
+// The stored content keeps the headers a reader needs: who wrote to whom, when, about what
+const formatEmail = (email: ParsedEmail) =>
+  [
+    email.from && `From: ${formatParticipant(email.from)}`,
+    email.to.length > 0 && `To: ${email.to.map(formatParticipant).join(', ')}`,
+    email.cc.length > 0 && `Cc: ${email.cc.map(formatParticipant).join(', ')}`,
+    email.date && `Date: ${email.date.toUTCString()}`,
+    `Subject: ${email.subject}`,
+    '',
+    email.text,
+  ]
+    .filter(line => line !== false && line !== null)
+    .join('\n');
+
+const isDuplicate = async (projectId: string, messageId: string | null) => {
+  if (!messageId) return false;
+  const existing = await prisma.contentItem.findFirst({
+    where: { projectId, isActive: true, sourceMetadata: { path: ['messageId'], equals: messageId } },
+    select: { id: true },
+  });
+  return !!existing;
+};
+
+// Store one email as a content item, analyzed like pasted text. Attachments that file processing
+// can read are stored as child items and their text is analyzed with the body.
+const ingestEmail = async (project: IntakeProject, email: ParsedEmail, userId: number, via: ReceivedVia) => {
+  const attachments = await Promise.all(
+    email.attachments.map(async attachment => ({
+      ...attachment,
+      processed:
+        detectFileType(attachment.content, attachment.filename) !== 'unknown'
+          ? await processUploadedFile(attachment.content, attachment.filename)
+          : null,
+    }))
+  );
+
+  const rawContent = formatEmail(email);
+  const analyzedContent = [
+    rawContent,
+    ...attachments
+      .filter(attachment => attachment.processed?.rawContent.trim())
+      .map(attachment => `--- Attachment: ${attachment.filename} ---\n${attachment.processed!.rawContent}`),
+  ].join('\n\n');
+  const dateOccurred = email.date ?? new Date();
+
+  // A failed analysis still leaves the email in the project, just without suggestions
+  let analysis: AnalysisResult | null = null;
+  try {
+    ({ analysis } = await analyzeContent(
+      { projectId: project.id, content: analyzedContent, title: email.subject, dateOccurred },
+      project.organizationId
+    ));
+  } catch (error) {
+    logger.error(`Failed to analyze email "${email.subject}":`, error);
+  }
+
+  const participants = Array.from(
+    new Set([email.from, ...email.to, ...email.cc].filter((p): p is EmailParticipant => !!p).map(p => p.address))
+  );
+
+  const saved = await saveAnalyzedContent(
+    {
+      projectId: project.id,
+      title: email.subject,
+      dateOccurred,
+      rawContent,
+      sourceType: 'email',
+      contentTypeIds: analysis?.suggestedContentTypes.map(s => s.id) ?? [],
+      activityTypeIds: analysis?.suggestedActivityTypes.map(s => s.id) ?? [],
+      planItemIds: analysis?.suggestedPlanItems.map(s => s.id) ?? [],
+      tags: analysis?.tags ?? [],
+      aiSummary: analysis?.summary || undefined,
+      aiExtractedEntities: analysis ? { analysis } : {},
+      sourceMetadata: {
+        messageId: email.messageId,
+        inReplyTo: email.inReplyTo,
+        references: email.references,
+        threadId: email.threadId,
+        from: email.from,
+        to: email.to,
+        cc: email.cc,
+        participants,
+        attachments: attachments.map(attachment => ({
+          fileName: attachment.filename,
+          mimeType: attachment.contentType,
+          fileSize: attachment.size,
+          extracted: !!attachment.processed,
+        })),
+        receivedVia: via,
+      },
+      extractedItems: analysis?.extractedItems.map(item => ({
+        type: item.type,
+        title: item.title,
+        description: item.description,
+        owner: item.owner,
+        dueDate: item.dueDate,
+        status: item.status,
+        relatedPlanItemIds: item.relatedPlanItemIds,
+        metadata: { ...item.metadata, source: 'ai' },
+      })),
+    },
+    userId,
+    project.organizationId
+  );
+
+  const mainItem = await prisma.contentItem.findUniqueOrThrow({
+    where: { id: saved.mainItem.id },
+    select: { projectWeek: true },
+  });
+
+  const attachmentItems: Array<{ id: string; title: string }> = [];
+  for (const attachment of attachments) {
+    if (!attachment.processed) continue;
+
+    const child = await prisma.contentItem.create({
+      data: {
+        projectId: project.id,
+        createdByUserId: userId,
+        parentItemId: saved.mainItem.id,
+        createdBy: 'email_attachment',
+        sourceType: 'file',
+        title: attachment.filename,
+        dateOccurred,
+        projectWeek: mainItem.projectWeek,
+        rawContent: attachment.processed.rawContent,
+        fileReference: attachment.processed.fileReference,
+        fileName: attachment.processed.fileName,
+        fileSize: attachment.processed.fileSize,
+        mimeType: attachment.processed.mimeType,
+        processingStatus: 'completed',
+      },
+    });
+    attachmentItems.push({ id: child.id, title: child.title });
+
+    if (attachment.processed.rawContent.trim()) {
+      try {
+        await createContentChunks(child.id, attachment.processed.rawContent);
+      } catch (error) {
+        logger.error('Failed to create content chunks:', error);
+      }
+    }
+  }
+
+  return {
+    id: saved.mainItem.id,
+    title: saved.mainItem.title,
+    dateOccurred,
+    messageId: email.messageId,
+    threadId: email.threadId,
+    attachments: attachmentItems,
+    extractedItems: saved.extractedItems,
+    trackedActionIds: saved.trackedActionIds,
+    proposedDecisionIds: saved.proposedDecisionIds,
+  };
+};
+
+// Ingest parsed emails oldest first, so a thread is stored in the order it was written.
+// Messages already in the project (same Message-ID) are skipped and don't count toward maxNew.
+const ingestEmails = async (
+  project: IntakeProject,
+  emails: ParsedEmail[],
+  userId: number,
+  via: ReceivedVia,
+  maxNew = Infinity
+) => {
+  const ordered = [...emails].sort((a, b) => (a.date?.getTime() ?? 0) - (b.date?.getTime() ?? 0));
+  const fresh: ParsedEmail[] = [];
+  const skipped: Array<{ messageId: string | null; subject: string; reason: string }> = [];
+  const seen = new Set<string>();
+
+  for (const email of ordered) {
+    if ((email.messageId && seen.has(email.messageId)) || (await isDuplicate(project.id, email.messageId))) {
+      skipped.push({ messageId: email.messageId, subject: email.subject, reason: 'Already imported' });
+      continue;
+    }
+    if (email.messageId) seen.add(email.messageId);
+    fresh.push(email);
+  }
+
+  if (fresh.length > maxNew) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      `The mailbox has ${fresh.length} new messages; import at most ${maxNew} at a time`,
+      400
+    );
+  }
+
+  const items: Awaited<ReturnType<typeof ingestEmail>>[] = [];
+  for (const email of fresh) {
+    items.push(await ingestEmail(project, email, userId, via));
+  }
+
+  return { items, skipped };
+};
+
+// Import an uploaded .eml message or .mbox mailbox into a project
+export const importEmailFile = async (
+  projectId: string,
+  organizationId: number,
+  buffer: Buffer,
+  filename: string,
+  userId: number
+) => {
+  const project = await getProjectOrThrow(projectId, organizationId);
+
+  let emails: ParsedEmail[];
+  try {
+    emails = await parseEmailFile(buffer, filename);
+  } catch (error) {
+    throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Could not read the file as an email or mailbox', 400);
+  }
+  if (emails.length === 0) {
+    throw new AppError(ErrorCodes.VALIDATION_ERROR, 'The mailbox contains no messages', 400);
+  }
+
+  return ingestEmails(project, emails, userId, 'upload', MAX_EMAILS_PER_IMPORT);
+};
+
+const slugify = (name: string) =>
+  name
+    .normalize('NFKD')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 48)
+    .replace(/-+$/, '') || 'project';
+
+// Give a new project its inbound address: the slugified name, or the name plus part of the
+// project id when another project has it. The unique index settles concurrent claims. The slug is
+// kept when the project is renamed, so addresses people already use keep working.
+export const assignIntakeEmailSlug = async (projectId: string, name: string) => {
+  const base = slugify(name);
+  const candidates = [base, `${base}-${projectId.slice(0, 8)}`, `${base}-${projectId.replace(/-/g, '')}`];
+
+  for (const slug of candidates) {
+    try {
+      await prisma.project.update({ where: { id: projectId }, data: { intakeEmailSlug: slug } });
+      return slug;
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) throw error;
+    }
+  }
+
+  return null;
+};
+
+// The project's inbound address
+export const getIntakeAddress = async (projectId: string, organizationId: number) => {
+  const project = await getProjectOrThrow(projectId, organizationId);
+
+  return {
+    address: project.intakeEmailSlug ? `${project.intakeEmailSlug}@${config.emailIntake.domain}` : null,
+    smtpEnabled: config.emailIntake.smtpEnabled,
+  };
+};
+
+// SMTP replies carry a status code; smtp-server reads it from the error
+const smtpError = (message: string, responseCode: number) => Object.assign(new Error(message), { responseCode });
+
+const findProjectByAddress = async (address: string) => {
+  const [localPart, domain] = address.toLowerCase().split('@');
+  if (!localPart || domain !== config.emailIntake.domain.toLowerCase()) return null;
+
+  return prisma.project.findFirst({
+    where: { intakeEmailSlug: localPart, isActive: true },
+    select: { id: true, organizationId: true },
+  });
+};
+
+interface IntakeSender {
+  userId: number;
+  organizationId: number;
+  email: string;
+}
+
+// Senders authenticated on each open SMTP session, by session id
+const sessionSenders = new Map<string, IntakeSender>();
+
+// Senders log in with their email address and one of their organization's API keys
+const authenticateSender = async (username: string, password: string): Promise<IntakeSender | null> => {
+  const result = await validateApiKey(password);
+  if (!result || result.user.email.toLowerCase() !== username.trim().toLowerCase()) return null;
+
+  return { userId: result.user.id, organizationId: result.organization.id, email: result.user.email };
+};
+
+// Deliver one received message to every project it was addressed to in the sender's organization.
+// The authenticated sender is recorded as its creator.
+const receiveMessage = async (buffer: Buffer, sender: IntakeSender, recipients: SMTPServerAddress[]) => {
+  const membership = await prisma.organizationUser.findFirst({
+    where: { organizationId: sender.organizationId, userId: sender.userId, isActive: true },
+    select: { id: true },
+  });
+  if (!membership) {
+    throw smtpError('Sender is not a member of the organization', 550);
+  }
+
+  const email = await parseEmail(buffer);
+  let delivered = 0;
+  for (const recipient of recipients) {
+    const project = await findProjectByAddress(recipient.address);
+    if (!project || project.organizationId !== sender.organizationId) continue;
+
+    const { items } = await ingestEmails(project, [email], sender.userId, 'smtp');
+    logger.info(`Email intake: "${email.subject}" from ${sender.email} -> ${recipient.address} (${items.length} stored)`);
+    delivered++;
+  }
+
+  if (delivered === 0) {
+    throw smtpError('No project of the sender\'s organization at these addresses', 550);
+  }
+};
+
+// Listen for mail to project addresses. Off unless EMAIL_INTAKE_SMTP_ENABLED is set. Clients must
+// log in (AUTH PLAIN/LOGIN with their email and an API key) and send from that address, and can be
+// limited to a list of relay IPs. Without a TLS key and certificate, AUTH is taken in the clear,
+// so keep the listener on a trusted network.
+export const startIntakeSmtpServer = () => {
+  const { smtpEnabled, smtpHost, smtpPort, smtpAllowedIps, smtpTlsKeyPath, smtpTlsCertPath, domain } =
+    config.emailIntake;
+  if (!smtpEnabled) return null;
+
+  const tls = smtpTlsKeyPath && smtpTlsCertPath
+    ? { key: fs.readFileSync(smtpTlsKeyPath), cert: fs.readFileSync(smtpTlsCertPath) }
+    : null;
+  if (!tls) {
+    logger.warn('Email intake: no TLS certificate configured, SMTP logins are sent unencrypted');
+  }
+
+  const server = new SMTPServer({
+    ...(tls ?? { disabledCommands: ['STARTTLS'], allowInsecureAuth: true }),
+    authMethods: ['PLAIN', 'LOGIN'],
+    size: MAX_MESSAGE_SIZE,
+    onConnect(session, callback) {
+      const remote = session.remoteAddress.replace(/^::ffff:/, '');
+      if (smtpAllowedIps.length > 0 && !smtpAllowedIps.includes(remote)) {
+        logger.warn(`Email intake: refused connection from ${remote}`);
+        callback(smtpError('Connection not allowed', 554));
+        return;
+      }
+      callback();
+    },
+    onAuth(auth, session, callback) {
+      authenticateSender(auth.username ?? '', auth.password ?? '')
+        .then(sender => {
+          if (!sender) {
+            callback(smtpError('Invalid email address or API key', 535));
+            return;
+          }
+          sessionSenders.set(session.id, sender);
+          callback(null, { user: String(sender.userId) });
+        })
+        .catch(error => callback(error));
+    },
+    onMailFrom(address, session, callback) {
+      // The envelope sender has to be the account that logged in
+      const sender = sessionSenders.get(session.id);
+      if (!sender || address.address.toLowerCase() !== sender.email.toLowerCase()) {
+        callback(smtpError(`Not allowed to send as ${address.address}`, 553));
+        return;
+      }
+      callback();
+    },
+    onRcptTo(address, session, callback) {
+      const sender = sessionSenders.get(session.id);
+      if (!sender) {
+        callback(smtpError('Authentication required', 530));
+        return;
+      }
+      // Another organization's address gets the same reply as an unknown one, so addresses can't be probed
+      findProjectByAddress(address.address)
+        .then(project => callback(
+          project && project.organizationId === sender.organizationId
+            ? null
+            : smtpError(`No project at ${address.address}`, 550)
+        ))
+        .catch(error => callback(error));
+    },
+    onData(stream, session, callback) {
+      const chunks: Buffer[] = [];
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      stream.on('end', () => {
+        const sender = sessionSenders.get(session.id);
+        if (stream.sizeExceeded) {
+          callback(smtpError('Message exceeds the size limit', 552));
+          return;
+        }
+        if (!sender) {
+          callback(smtpError('Authentication required', 530));
+          return;
+        }
+        receiveMessage(Buffer.concat(chunks), sender, session.envelope.rcptTo)
+          .then(() => callback())
+          .catch(error => {
+            logger.error('Email intake failed:', error);
+            callback(error.responseCode ? error : smtpError('Message could not be processed', 451));
+          });
+      });
+    },
+    onClose(session) {
+      sessionSenders.delete(session.id);
+    },
+  });
+
+  server.on('error', error => logger.error('Email intake SMTP server error:', error));
+  server.listen(smtpPort, smtpHost, () => {
+    logger.info(`Email intake listening on ${smtpHost}:${smtpPort} for *@${domain}`);
+  });
+
+  return server;
+};
+
+export default {
+  importEmailFile,
+  assignIntakeEmailSlug,
+  getIntakeAddress,
+  startIntakeSmtpServer,
+};
@@ -0,0 +1,20 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import * as myWorkService from './my-work.service.js';
+import { successResponse } from '../../utils/responses.js';
+import type { MyWorkQuery } from './my-work.schema.js';
+
+// GET /api/my-work - The caller's plan items and action items across the organization's projects
+export const getMyWork: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const query = req.query as unknown as MyWorkQuery;
+    const work = await myWorkService.getMyWork(organizationId, req.user!, query);
+    successResponse(res, work);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import * as myWorkController from './my-work.controller.js';
+import { validateQuery } from '../../middleware/validation.js';
+import { authenticate } from '../../middleware/auth.js';
+import { requireOrgContext } from '../../middleware/orgContext.js';
+import { myWorkQuerySchema } from './my-work.schema.js';
+
+const router = Router();
+
+// All routes require authentication and organization context
+router.use(authenticate);
+router.use(requireOrgContext);
+
+/**
+ * @swagger
+ * /my-work:
+ *   get:
+ *     summary: Get my work
+ *     description: |
+ *       Plan items assigned to the caller and action items they own, across the organization's
+ *       projects, in one list ordered by due date (undated work last). An action is the caller's
+ *       when its owner matches their email or name, or any name of the accepted stakeholder whose
+ *       email or name is theirs. Plan items are due on their target end date.
+ *     tags: [My Work]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, all]
+ *           default: open
+ *         description: Open work only, or include completed items and closed actions
+ *       - in: query
+ *         name: projectId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: kind
+ *         schema:
+ *           type: string
+ *           enum: [plan_item, action]
+ *     responses:
+ *       200:
+ *         description: Work items with days until due and overdue flags, and a summary
+ *       404:
+ *         description: Project not found
+ */
+router.get(
+  '/',
+  validateQuery(myWorkQuerySchema),
+  myWorkController.getMyWork
+);
+
+export default router;
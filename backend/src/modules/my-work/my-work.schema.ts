@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+// Schema for GET /api/my-work
+export const myWorkQuerySchema = z.object({
+  // Open work only, or everything including completed items and closed actions
+  status: z.enum(['open', 'all']).default('open'),
+  projectId: z.string().uuid().optional(),
+  kind: z.enum(['plan_item', 'action']).optional(),
+});
+
+export type MyWorkQuery = z.infer<typeof myWorkQuerySchema>;
@@ -0,0 +1,177 @@
+import type { Prisma } from '@prisma/client';
+import prisma from '../../config/database.js';
+import { AppError } from '../../middleware/errorHandler.js';
+import { ErrorCodes } from '../../utils/responses.js';
+import { findOwnerMember, getMembers } from '../raid/action-tracker.service.js';
+import { openRaidItemStatuses } from '../raid/raid.schema.js';
+import { normalizeName, stakeholderKeys } from '../stakeholders/stakeholder-resolver.service.js';
+import type { MyWorkQuery } from './my-work.schema.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Items due within this many days count as due this week
+const DUE_SOON_DAYS = 7;
+
+const CLOSED_PLAN_STATUSES = ['completed', 'cancelled'];
+
+interface WorkUser {
+  id: number;
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+const startOfToday = () => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+};
+
+const daysUntil = (date: Date, today: Date) => Math.round((date.getTime() - today.getTime()) / MS_PER_DAY);
+
+// Dated work first, soonest due at the top; undated work after it
+const byDueDate = (a: { dueDate: Date | null; title: string }, b: { dueDate: Date | null; title: string }) => {
+  if (a.dueDate && b.dueDate && a.dueDate.getTime() !== b.dueDate.getTime()) {
+    return a.dueDate.getTime() - b.dueDate.getTime();
+  }
+  if (a.dueDate && !b.dueDate) return -1;
+  if (!a.dueDate && b.dueDate) return 1;
+  return a.title.localeCompare(b.title);
+};
+
+// Action owners are free text. In each project, the user owns actions under the names of the
+// accepted stakeholder that is them, matched by email or full name.
+const getStakeholderNames = async (organizationId: number, user: WorkUser, projectIds: string[]) => {
+  const stakeholders = await prisma.stakeholder.findMany({
+    where: { projectId: { in: projectIds }, isActive: true, reviewStatus: 'accepted', project: { organizationId } },
+    select: { projectId: true, name: true, aliases: true, email: true },
+  });
+
+  const own = [user.email, `${user.firstName} ${user.lastName}`].map(normalizeName);
+  const namesByProject = new Map<string, Set<string>>();
+  for (const stakeholder of stakeholders) {
+    const keys = stakeholderKeys(stakeholder);
+    if (!keys.some(key => own.includes(key))) continue;
+    const names = namesByProject.get(stakeholder.projectId) ?? new Set<string>();
+    keys.forEach(key => names.add(key));
+    namesByProject.set(stakeholder.projectId, names);
+  }
+
+  return namesByProject;
+};
+
+// Plan items assigned to the user and action items they own, across the organization's projects,
+// in one list ordered by due date
+export const getMyWork = async (organizationId: number, user: WorkUser, query: MyWorkQuery) => {
+  const today = startOfToday();
+
+  const projects = await prisma.project.findMany({
+    where: { organizationId, isActive: true, ...(query.projectId && { id: query.projectId }) },
+    select: { id: true, name: true, client: true },
+  });
+
+  if (query.projectId && projects.length === 0) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Project not found', 404);
+  }
+
+  const projectIds = projects.map(project => project.id);
+  const projectsById = new Map(projects.map(project => [project.id, project]));
+  const open = query.status === 'open';
+
+  const planWhere: Prisma.PlanItemWhereInput = {
+    projectId: { in: projectIds },
+    ownerUserId: user.id,
+    isActive: true,
+    ...(open && { status: { notIn: CLOSED_PLAN_STATUSES } }),
+  };
+  const actionWhere: Prisma.RaidItemWhereInput = {
+    projectId: { in: projectIds },
+    type: 'action',
+    isActive: true,
+    reviewStatus: 'accepted',
+    owner: { not: null },
+    ...(open && { status: { in: [...openRaidItemStatuses] } }),
+  };
+
+  const [planItems, actions, members, stakeholderNames] = await Promise.all([
+    query.kind === 'action'
+      ? []
+      : prisma.planItem.findMany({
+        where: planWhere,
+        select: {
+          id: true,
+          projectId: true,
+          name: true,
+          status: true,
+          workflowStatus: true,
+          targetEndDate: true,
+          itemType: { select: { id: true, name: true, slug: true, level: true, icon: true, color: true } },
+          parent: { select: { id: true, name: true } },
+        },
+      }),
+    query.kind === 'plan_item'
+      ? []
+      : prisma.raidItem.findMany({
+        where: actionWhere,
+        select: {
+          id: true,
+          projectId: true,
+          title: true,
+          owner: true,
+          status: true,
+          severity: true,
+          dueDate: true,
+          planItemId: true,
+        },
+      }),
+    getMembers(organizationId),
+    getStakeholderNames(organizationId, user, projectIds),
+  ]);
+
+  const isOpenAction = (status: string) => (openRaidItemStatuses as readonly string[]).includes(status);
+  const isOpenPlanItem = (status: string) => !CLOSED_PLAN_STATUSES.includes(status);
+  const ownedActions = actions.filter(action =>
+    findOwnerMember(action.owner!, members)?.id === user.id ||
+    stakeholderNames.get(action.projectId)?.has(normalizeName(action.owner!))
+  );
+
+  const withDue = (dueDate: Date | null, isOpen: boolean) => {
+    const daysUntilDue = dueDate ? daysUntil(dueDate, today) : null;
+    return { dueDate, daysUntilDue, isOverdue: isOpen && daysUntilDue !== null && daysUntilDue < 0 };
+  };
+
+  const items = [
+    ...planItems.map(({ projectId, name, targetEndDate, ...item }) => ({
+      kind: 'plan_item' as const,
+      ...item,
+      title: name,
+      project: projectsById.get(projectId)!,
+      ...withDue(targetEndDate, isOpenPlanItem(item.status)),
+    })),
+    ...ownedActions.map(({ projectId, severity, dueDate, ...action }) => ({
+      kind: 'action' as const,
+      ...action,
+      priority: severity,
+      project: projectsById.get(projectId)!,
+      ...withDue(dueDate, isOpenAction(action.status)),
+    })),
+  ].sort(byDueDate);
+
+  return {
+    summary: {
+      total: items.length,
+      planItems: planItems.length,
+      actions: ownedActions.length,
+      overdue: items.filter(item => item.isOverdue).length,
+      dueSoon: items.filter(item =>
+        (item.kind === 'action' ? isOpenAction(item.status) : isOpenPlanItem(item.status)) &&
+        item.daysUntilDue !== null && item.daysUntilDue >= 0 && item.daysUntilDue <= DUE_SOON_DAYS
+      ).length,
+      noDueDate: items.filter(item => item.dueDate === null).length,
+    },
+    items,
+  };
+};
+
+export default {
+  getMyWork,
+};
@@ -19,6 +19,8 @@ export const ActionItemSchema = z.object({
   title: z.string(),
   description: z.string(),
   owner: z.string().nullable(),
+  // Stakeholder the owner resolved to, for grouping actions by person
+  stakeholderId: z.string().nullable().optional(),
   dueDate: z.string().nullable(),
   priority: z.enum(['high', 'medium', 'low']),
   status: z.string(),
@@ -42,6 +44,7 @@ export const DecisionSchema = z.object({
   description: z.string(),
   decisionMaker: z.string().nullable(),
   decisionDate: z.string().nullable(),
+  rationale: z.string().nullable().optional(),
   planItemId: z.string().nullable(),
   confidence: z.enum(['high', 'medium', 'low']),
   sourceContentIds: z.array(z.string()),
@@ -64,6 +67,89 @@ export const SuggestedPlanUpdateSchema = z.object({
   confidence: z.enum(['high', 'medium', 'low']),
 });
 
+// Schedule variance against a plan baseline
+export const ScheduleVarianceRowSchema = z.object({
+  planItemId: z.string(),
+  name: z.string(),
+  baselineEndDate: z.string().nullable(),
+  currentEndDate: z.string().nullable(),
+  endSlipDays: z.number().nullable(),
+});
+
+export const ScheduleVarianceSchema = z.object({
+  baselineId: z.string(),
+  baselineName: z.string(),
+  baselineDate: z.string(),
+  projectEndSlipDays: z.number().nullable(),
+  workstreams: z.array(ScheduleVarianceRowSchema),
+  milestones: z.array(ScheduleVarianceRowSchema),
+});
+
+// Plan changes between two points in time, from the plan's change history
+export const PlanChangeRowSchema = z.object({
+  planItemId: z.string(),
+  name: z.string(),
+  changes: z.array(z.enum(['added', 'removed', 'redated', 'reparented', 'status_changed'])),
+  details: z.array(z.string()),
+});
+
+export const PlanChangesSchema = z.object({
+  since: z.string(),
+  until: z.string(),
+  summary: z.object({
+    added: z.number(),
+    removed: z.number(),
+    redated: z.number(),
+    reparented: z.number(),
+    statusChanged: z.number(),
+  }),
+  workstreams: z.array(z.object({
+    name: z.string(),
+    items: z.array(PlanChangeRowSchema),
+  })),
+});
+
+// Computed RAG health with the factors behind each rating
+const RagSchema = z.enum(['green', 'amber', 'red']);
+
+export const HealthFactorSchema = z.object({
+  key: z.string(),
+  label: z.string(),
+  rag: RagSchema,
+  detail: z.string(),
+});
+
+export const ProjectHealthSchema = z.object({
+  asOf: z.string(),
+  rag: RagSchema,
+  score: z.number(),
+  factors: z.array(HealthFactorSchema),
+  workstreams: z.array(z.object({
+    planItemId: z.string(),
+    name: z.string(),
+    rag: RagSchema,
+    score: z.number(),
+    factors: z.array(HealthFactorSchema),
+  })),
+});
+
+// Project decision log, current and superseded decisions
+export const DecisionLogEntrySchema = z.object({
+  title: z.string(),
+  description: z.string().nullable(),
+  decisionMaker: z.string().nullable(),
+  decisionDate: z.string().nullable(),
+  rationale: z.string().nullable(),
+  alternatives: z.array(z.string()),
+  affectedPlanItems: z.array(z.string()),
+  supersededBy: z.string().nullable(),
+});
+
+export const DecisionLogSchema = z.object({
+  asOf: z.string(),
+  decisions: z.array(DecisionLogEntrySchema),
+});
+
 export const ReportDataSchema = z.object({
   summary: z.string(),
   statusUpdates: z.array(StatusUpdateSchema),
@@ -72,6 +158,9 @@ export const ReportDataSchema = z.object({
   decisions: z.array(DecisionSchema),
   blockers: z.array(BlockerSchema),
   suggestedPlanUpdates: z.array(SuggestedPlanUpdateSchema),
+  scheduleVariance: ScheduleVarianceSchema.nullable().optional(),
+  planChanges: PlanChangesSchema.nullable().optional(),
+  health: ProjectHealthSchema.nullable().optional(),
 });
 
 // Plan item structure for plan export (base without children for recursion)
@@ -96,7 +185,7 @@ export const PlanItemSchema: z.ZodType<PlanItemInput> = BasePlanItemSchema.exten
 
 // Format markdown input
 export const FormatMarkdownInputSchema = z.object({
-  sourceType: z.enum(['plan', 'activity_report', 'combined']),
+  sourceType: z.enum(['plan', 'activity_report', 'combined', 'variance', 'plan_diff', 'decision_log']),
   projectName: z.string(),
   data: z.union([
     // Activity report format
@@ -118,6 +207,18 @@ export const FormatMarkdownInputSchema = z.object({
       reportData: ReportDataSchema,
       planItems: z.array(PlanItemSchema).optional(),
     }),
+    // Baseline variance format
+    z.object({
+      scheduleVariance: ScheduleVarianceSchema,
+    }),
+    // Plan diff format
+    z.object({
+      planChanges: PlanChangesSchema,
+    }),
+    // Decision log format
+    z.object({
+      decisionLog: DecisionLogSchema,
+    }),
   ]),
 });
 
@@ -11,6 +11,45 @@ import type {
   FormatPptxResponse,
 } from './output-formatter.schema';
 
+type ScheduleVarianceData = {
+  baselineName: string;
+  baselineDate: string;
+  projectEndSlipDays: number | null;
+  workstreams: Array<{ name: string; baselineEndDate: string | null; currentEndDate: string | null; endSlipDays: number | null }>;
+  milestones: Array<{ name: string; baselineEndDate: string | null; currentEndDate: string | null; endSlipDays: number | null }>;
+};
+
+type HealthFactorData = { label: string; rag: string; detail: string };
+
+type ProjectHealthData = {
+  asOf: string;
+  rag: string;
+  score: number;
+  factors: HealthFactorData[];
+  workstreams: Array<{ name: string; rag: string; score: number; factors: HealthFactorData[] }>;
+};
+
+type PlanChangesData = {
+  since: string;
+  until: string;
+  summary: { added: number; removed: number; redated: number; reparented: number; statusChanged: number };
+  workstreams: Array<{ name: string; items: Array<{ name: string; details: string[] }> }>;
+};
+
+type DecisionLogData = {
+  asOf: string;
+  decisions: Array<{
+    title: string;
+    description: string | null;
+    decisionMaker: string | null;
+    decisionDate: string | null;
+    rationale: string | null;
+    alternatives: string[];
+    affectedPlanItems: string[];
+    supersededBy: string | null;
+  }>;
+};
+
 /**
  * Format data as Markdown
  */
@@ -22,6 +61,12 @@ export function formatAsMarkdown(input: FormatMarkdownInput): FormatMarkdownResp
     markdown = formatActivityReportMarkdown(input.projectName, data);
   } else if (input.sourceType === 'plan') {
     markdown = formatPlanMarkdown(input.projectName, data);
+  } else if (input.sourceType === 'variance') {
+    markdown = formatVarianceMarkdown(input.projectName, data);
+  } else if (input.sourceType === 'plan_diff') {
+    markdown = formatPlanDiffMarkdown(input.projectName, data);
+  } else if (input.sourceType === 'decision_log') {
+    markdown = formatDecisionLogMarkdown(input.projectName, data);
   }
 
   // Generate filename
@@ -43,10 +88,13 @@ function formatActivityReportMarkdown(projectName: string, data: Record<string,
     reportData: {
       summary: string;
       statusUpdates: Array<{ planItemName: string | null; update: string; status: string }>;
-      actionItems: Array<{ title: string; description: string; owner: string | null; dueDate: string | null; priority: string; status: string }>;
+      actionItems: Array<{ title: string; description: string; owner: string | null; stakeholderId?: string | null; dueDate: string | null; priority: string; status: string }>;
       risks: Array<{ title: string; description: string; severity: string; mitigation: string | null }>;
       decisions: Array<{ title: string; description: string; decisionMaker: string | null; decisionDate: string | null }>;
       blockers: Array<{ title: string; description: string; resolution: string | null }>;
+      scheduleVariance?: ScheduleVarianceData | null;
+      planChanges?: PlanChangesData | null;
+      health?: ProjectHealthData | null;
     };
   };
 
@@ -59,6 +107,12 @@ function formatActivityReportMarkdown(projectName: string, data: Record<string,
   // Summary
   md += `## Summary\n\n${reportData.summary}\n\n`;
 
+  // Health
+  if (reportData.health) {
+    md += `## Project Health\n\n`;
+    md += renderHealthMarkdown(reportData.health);
+  }
+
   // Status Updates
   if (reportData.statusUpdates.length > 0) {
     md += `## Status Updates\n\n`;
@@ -70,15 +124,18 @@ function formatActivityReportMarkdown(projectName: string, data: Record<string,
     });
   }
 
-  // Action Items
+  // Action Items, one table per owner
   if (reportData.actionItems.length > 0) {
     md += `## Action Items\n\n`;
-    md += `| Item | Owner | Due | Priority | Status |\n`;
-    md += `|------|-------|-----|----------|--------|\n`;
-    reportData.actionItems.forEach(ai => {
-      md += `| ${ai.title} | ${ai.owner || '-'} | ${ai.dueDate || '-'} | ${ai.priority} | ${formatStatus(ai.status || 'open')} |\n`;
+    groupActionsByOwner(reportData.actionItems).forEach(group => {
+      md += `### ${group.owner} (${group.items.length})\n\n`;
+      md += `| Item | Due | Priority | Status |\n`;
+      md += `|------|-----|----------|--------|\n`;
+      group.items.forEach(ai => {
+        md += `| ${ai.title} | ${ai.dueDate || '-'} | ${ai.priority} | ${formatStatus(ai.status || 'open')} |\n`;
+      });
+      md += '\n';
     });
-    md += '\n';
 
     // Details
     md += `### Action Item Details\n\n`;
@@ -131,9 +188,189 @@ function formatActivityReportMarkdown(projectName: string, data: Record<string,
     });
   }
 
+  // Schedule Variance
+  if (reportData.scheduleVariance) {
+    md += `## Schedule Variance\n\n`;
+    md += renderVarianceMarkdown(reportData.scheduleVariance);
+  }
+
+  // Plan Changes
+  if (reportData.planChanges) {
+    md += `## Plan Changes\n\n`;
+    md += renderPlanChangesMarkdown(reportData.planChanges);
+  }
+
+  return md;
+}
+
+/**
+ * Format baseline schedule variance as Markdown
+ */
+function formatVarianceMarkdown(projectName: string, data: Record<string, unknown>): string {
+  const { scheduleVariance } = data as { scheduleVariance: ScheduleVarianceData };
+
+  let md = `# ${projectName} Schedule Variance\n\n`;
+  md += `**Generated:** ${new Date().toISOString().split('T')[0]}\n\n`;
+  md += `---\n\n`;
+  md += renderVarianceMarkdown(scheduleVariance);
+
+  return md;
+}
+
+/**
+ * Render variance tables for workstreams and milestones
+ */
+function renderVarianceMarkdown(variance: ScheduleVarianceData): string {
+  let md = `**Baseline:** ${variance.baselineName} (${variance.baselineDate})\n`;
+  md += `**Project end:** ${formatSlip(variance.projectEndSlipDays)}\n\n`;
+
+  const renderTable = (heading: string, rows: ScheduleVarianceData['workstreams']) => {
+    if (rows.length === 0) return '';
+    let table = `### ${heading}\n\n`;
+    table += `| Item | Baseline End | Current End | Variance |\n`;
+    table += `|------|--------------|-------------|----------|\n`;
+    rows.forEach(r => {
+      table += `| ${r.name} | ${r.baselineEndDate || '-'} | ${r.currentEndDate || '-'} | ${formatSlip(r.endSlipDays)} |\n`;
+    });
+    return table + '\n';
+  };
+
+  md += renderTable('Workstreams', variance.workstreams);
+  md += renderTable('Milestones', variance.milestones);
+
+  return md;
+}
+
+/**
+ * Format plan changes between two dates as Markdown
+ */
+function formatPlanDiffMarkdown(projectName: string, data: Record<string, unknown>): string {
+  const { planChanges } = data as { planChanges: PlanChangesData };
+
+  let md = `# ${projectName} Plan Changes\n\n`;
+  md += `**Period:** ${planChanges.since} to ${planChanges.until}\n`;
+  md += `**Generated:** ${new Date().toISOString().split('T')[0]}\n\n`;
+  md += `---\n\n`;
+  md += renderPlanChangesMarkdown(planChanges);
+
+  return md;
+}
+
+/**
+ * Render plan changes as a summary line and a list per workstream
+ */
+function renderPlanChangesMarkdown(changes: PlanChangesData): string {
+  const { summary } = changes;
+  let md = `**Since ${changes.since}:** ${summary.added} added, ${summary.removed} removed, `;
+  md += `${summary.redated} re-dated, ${summary.reparented} moved, ${summary.statusChanged} status changes\n\n`;
+
+  if (changes.workstreams.length === 0) {
+    return md + `No plan changes.\n\n`;
+  }
+
+  changes.workstreams.forEach(w => {
+    md += `### ${w.name}\n\n`;
+    w.items.forEach(item => {
+      md += `- **${item.name}:** ${item.details.join('; ')}\n`;
+    });
+    md += '\n';
+  });
+
   return md;
 }
 
+/**
+ * Format the decision log as Markdown, current decisions first
+ */
+function formatDecisionLogMarkdown(projectName: string, data: Record<string, unknown>): string {
+  const { decisionLog } = data as { decisionLog: DecisionLogData };
+  const current = decisionLog.decisions.filter(d => !d.supersededBy);
+  const superseded = decisionLog.decisions.filter(d => d.supersededBy);
+
+  let md = `# ${projectName} Decision Log\n\n`;
+  md += `**As of:** ${decisionLog.asOf}\n`;
+  md += `**Generated:** ${new Date().toISOString().split('T')[0]}\n\n`;
+  md += `---\n\n`;
+
+  const renderDecision = (d: DecisionLogData['decisions'][number], i: number) => {
+    let entry = `### ${i + 1}. ${d.title}\n\n`;
+    if (d.description) entry += `${d.description}\n\n`;
+    if (d.decisionMaker || d.decisionDate) {
+      entry += `*Decided${d.decisionMaker ? ` by ${d.decisionMaker}` : ''}${d.decisionDate ? ` on ${d.decisionDate}` : ''}*\n\n`;
+    }
+    if (d.supersededBy) entry += `**Superseded by:** ${d.supersededBy}\n\n`;
+    if (d.rationale) entry += `**Rationale:** ${d.rationale}\n\n`;
+    if (d.alternatives.length > 0) {
+      entry += `**Alternatives considered:**\n`;
+      d.alternatives.forEach(a => {
+        entry += `- ${a}\n`;
+      });
+      entry += '\n';
+    }
+    if (d.affectedPlanItems.length > 0) entry += `**Affects:** ${d.affectedPlanItems.join(', ')}\n\n`;
+    return entry;
+  };
+
+  md += `## Current Decisions\n\n`;
+  md += current.length > 0 ? current.map(renderDecision).join('') : `No decisions recorded.\n\n`;
+
+  if (superseded.length > 0) {
+    md += `## Superseded Decisions\n\n`;
+    md += superseded.map(renderDecision).join('');
+  }
+
+  return md;
+}
+
+/**
+ * Render the overall rating with its contributing factors, then one row per workstream
+ */
+function renderHealthMarkdown(health: ProjectHealthData): string {
+  let md = `**Overall:** ${formatRag(health.rag)} (score ${health.score}/100, as of ${health.asOf})\n\n`;
+
+  // Green factors are not contributing to the rating, so only the others are listed
+  const contributing = health.factors.filter(f => f.rag !== 'green');
+  if (contributing.length > 0) {
+    contributing.forEach(f => {
+      md += `- ${formatRag(f.rag)} **${f.label}:** ${f.detail}\n`;
+    });
+    md += '\n';
+  }
+
+  if (health.workstreams.length > 0) {
+    md += `| Workstream | Health | Score | Contributing Factors |\n`;
+    md += `|------------|--------|-------|----------------------|\n`;
+    health.workstreams.forEach(w => {
+      const factors = w.factors.filter(f => f.rag !== 'green').map(f => `${f.label}: ${f.detail}`);
+      md += `| ${w.name} | ${formatRag(w.rag)} | ${w.score} | ${factors.join('; ') || '-'} |\n`;
+    });
+    md += '\n';
+  }
+
+  return md;
+}
+
+/**
+ * Format a RAG rating for display
+ */
+function formatRag(rag: string): string {
+  const ragMap: Record<string, string> = {
+    green: '🟢 Green',
+    amber: '🟡 Amber',
+    red: '🔴 Red',
+  };
+  return ragMap[rag] || rag;
+}
+
+/**
+ * Format a slip in days for display
+ */
+function formatSlip(days: number | null): string {
+  if (days === null) return 'n/a';
+  if (days === 0) return 'On baseline';
+  return days > 0 ? `+${days}d late` : `${Math.abs(days)}d early`;
+}
+
 /**
  * Format plan as Markdown
  */
@@ -191,6 +428,29 @@ function formatPlanMarkdown(projectName: string, data: Record<string, unknown>):
   return md;
 }
 
+/**
+ * Group report actions by the person who owns them. Actions resolved to the same stakeholder
+ * share a group whatever name they were written with; unowned actions come last.
+ */
+function groupActionsByOwner<T extends { owner: string | null; stakeholderId?: string | null }>(
+  actionItems: T[]
+): Array<{ owner: string; items: T[] }> {
+  const groups = new Map<string, { owner: string; items: T[] }>();
+  actionItems.forEach(ai => {
+    const key = ai.stakeholderId || ai.owner?.trim().toLowerCase() || '';
+    const group = groups.get(key) || { owner: ai.owner?.trim() || 'Unassigned', items: [] };
+    group.items.push(ai);
+    groups.set(key, group);
+  });
+
+  const unassigned = groups.get('');
+  groups.delete('');
+  return [
+    ...Array.from(groups.values()).sort((a, b) => a.owner.localeCompare(b.owner)),
+    ...(unassigned ? [unassigned] : []),
+  ];
+}
+
 /**
  * Format status for display
  */
@@ -219,7 +479,15 @@ export async function formatAsPptx(input: FormatPptxInput): Promise<FormatPptxRe
   // Set presentation properties
   pptx.author = 'AI Project Manager';
   pptx.title = `${input.projectName} Report`;
-  pptx.subject = input.sourceType === 'activity_report' ? 'Activity Report' : 'Project Plan';
+  pptx.subject = input.sourceType === 'activity_report'
+    ? 'Activity Report'
+    : input.sourceType === 'variance'
+      ? 'Schedule Variance'
+      : input.sourceType === 'plan_diff'
+        ? 'Plan Changes'
+        : input.sourceType === 'decision_log'
+          ? 'Decision Log'
+          : 'Project Plan';
 
   // Color scheme
   const colors = {
@@ -237,6 +505,12 @@ export async function formatAsPptx(input: FormatPptxInput): Promise<FormatPptxRe
     await createActivityReportSlides(pptx, input.projectName, data, colors);
   } else if (input.sourceType === 'plan') {
     await createPlanSlides(pptx, input.projectName, data, colors);
+  } else if (input.sourceType === 'variance') {
+    await createVarianceSlides(pptx, input.projectName, data, colors);
+  } else if (input.sourceType === 'plan_diff') {
+    await createPlanDiffSlides(pptx, input.projectName, data, colors);
+  } else if (input.sourceType === 'decision_log') {
+    await createDecisionLogSlides(pptx, input.projectName, data, colors);
   }
 
   // Generate filename
@@ -266,10 +540,13 @@ async function createActivityReportSlides(
     reportData: {
       summary: string;
       statusUpdates: Array<{ planItemName: string | null; update: string; status: string }>;
-      actionItems: Array<{ title: string; description: string; owner: string | null; dueDate: string | null; priority: string; status?: string }>;
+      actionItems: Array<{ title: string; description: string; owner: string | null; stakeholderId?: string | null; dueDate: string | null; priority: string; status?: string }>;
       risks: Array<{ title: string; description: string; severity: string; mitigation: string | null }>;
       decisions: Array<{ title: string; description: string }>;
       blockers: Array<{ title: string; description: string; resolution: string | null }>;
+      scheduleVariance?: ScheduleVarianceData | null;
+      planChanges?: PlanChangesData | null;
+      health?: ProjectHealthData | null;
     };
   };
 
@@ -317,6 +594,11 @@ async function createActivityReportSlides(
     valign: 'top',
   });
 
+  // Health Slide (reports generated before health scoring have none)
+  if (reportData.health) {
+    addHealthSlide(pptx, reportData.health, colors);
+  }
+
   // Status Updates Slide (if any)
   if (reportData.statusUpdates.length > 0) {
     const statusSlide = pptx.addSlide();
@@ -362,10 +644,13 @@ async function createActivityReportSlides(
       ],
     ];
 
-    reportData.actionItems.slice(0, 8).forEach(ai => {
+    // Listed person by person; the owner is shown on the first row of each
+    const byOwner = groupActionsByOwner(reportData.actionItems)
+      .flatMap(group => group.items.map((ai, i) => ({ ai, owner: i === 0 ? group.owner : '' })));
+    byOwner.slice(0, 8).forEach(({ ai, owner }) => {
       actionRows.push([
         { text: truncate(ai.title, 40), options: { color: colors.text } },
-        { text: ai.owner || '-', options: { color: colors.text } },
+        { text: owner, options: { color: colors.text, bold: true } },
         { text: ai.dueDate || '-', options: { color: colors.text } },
         { text: ai.priority, options: { color: getPriorityColor(ai.priority, colors) } },
       ]);
@@ -447,6 +732,357 @@ async function createActivityReportSlides(
       yPos += 1.2;
     });
   }
+
+  // Schedule Variance Slide (if a baseline exists)
+  if (reportData.scheduleVariance) {
+    addVarianceSlide(pptx, reportData.scheduleVariance, colors);
+  }
+
+  // Plan Changes Slide (if the plan changed during the period)
+  if (reportData.planChanges) {
+    addPlanChangesSlide(pptx, reportData.planChanges, colors);
+  }
+}
+
+/**
+ * Create baseline schedule variance slides
+ */
+async function createVarianceSlides(
+  pptx: PptxGenJS,
+  projectName: string,
+  data: Record<string, unknown>,
+  colors: Record<string, string>
+): Promise<void> {
+  const { scheduleVariance } = data as { scheduleVariance: ScheduleVarianceData };
+
+  // Title Slide
+  const titleSlide = pptx.addSlide();
+  titleSlide.addText(`${projectName} Schedule Variance`, {
+    x: 0.5,
+    y: 2,
+    w: 9,
+    h: 1.5,
+    fontSize: 36,
+    bold: true,
+    color: colors.primary,
+    align: 'center',
+  });
+  titleSlide.addText(`Against baseline: ${scheduleVariance.baselineName} (${scheduleVariance.baselineDate})`, {
+    x: 0.5,
+    y: 3.5,
+    w: 9,
+    h: 0.5,
+    fontSize: 18,
+    color: colors.muted,
+    align: 'center',
+  });
+  titleSlide.addText(`Generated: ${new Date().toISOString().split('T')[0]}`, {
+    x: 0.5,
+    y: 4.5,
+    w: 9,
+    h: 0.5,
+    fontSize: 12,
+    color: colors.muted,
+    align: 'center',
+  });
+
+  addVarianceSlide(pptx, scheduleVariance, colors);
+}
+
+/**
+ * Add a slide with the overall RAG rating, its contributing factors and each workstream's rating
+ */
+function addHealthSlide(pptx: PptxGenJS, health: ProjectHealthData, colors: Record<string, string>): void {
+  const slide = pptx.addSlide();
+  addSlideTitle(slide, 'Project Health', colors);
+
+  slide.addText(`Overall: ${health.rag.toUpperCase()}    Score: ${health.score}/100`, {
+    x: 0.5,
+    y: 1.3,
+    w: 9,
+    h: 0.3,
+    fontSize: 14,
+    bold: true,
+    color: getRagColor(health.rag, colors),
+  });
+
+  const contributing = health.factors.filter(f => f.rag !== 'green');
+  slide.addText(
+    contributing.length > 0
+      ? contributing.map(f => `${f.label}: ${f.detail}`).join('\n')
+      : 'All health factors are within their thresholds',
+    {
+      x: 0.5,
+      y: 1.7,
+      w: 9,
+      h: 0.9,
+      fontSize: 10,
+      color: colors.text,
+      valign: 'top',
+    }
+  );
+
+  if (health.workstreams.length === 0) return;
+
+  const rows: PptxGenJS.TableRow[] = [
+    [
+      { text: 'Workstream', options: { bold: true, fill: { color: colors.primary }, color: 'FFFFFF' } },
+      { text: 'Health', options: { bold: true, fill: { color: colors.primary }, color: 'FFFFFF' } },
+      { text: 'Contributing Factors', options: { bold: true, fill: { color: colors.primary }, color: 'FFFFFF' } },
+    ],
+  ];
+
+  health.workstreams.slice(0, 8).forEach(w => {
+    const factors = w.factors.filter(f => f.rag !== 'green').map(f => f.label);
+    rows.push([
+      { text: truncate(w.name, 40), options: { color: colors.text } },
+      { text: w.rag.toUpperCase(), options: { bold: true, color: getRagColor(w.rag, colors) } },
+      { text: factors.join(', ') || '-', options: { color: colors.text } },
+    ]);
+  });
+
+  slide.addTable(rows, {
+    x: 0.5,
+    y: 2.7,
+    w: 9,
+    colW: [3.5, 1.2, 4.3],
+    fontSize: 10,
+    border: { type: 'solid', pt: 0.5, color: colors.muted },
+  });
+}
+
+/**
+ * Add a slide with workstream and milestone slip against the baseline
+ */
+function addVarianceSlide(pptx: PptxGenJS, variance: ScheduleVarianceData, colors: Record<string, string>): void {
+  const slide = pptx.addSlide();
+  addSlideTitle(slide, 'Schedule Variance', colors);
+
+  slide.addText(`Baseline: ${variance.baselineName}    Project end: ${formatSlip(variance.projectEndSlipDays)}`, {
+    x: 0.5,
+    y: 1.3,
+    w: 9,
+    h: 0.3,
+    fontSize: 12,
+    color: getSlipColor(variance.projectEndSlipDays, colors),
+  });
+
+  const rows: PptxGenJS.TableRow[] = [
+    [
+      { text: 'Item', options: { bold: true, fill: { color: colors.primary }, color: 'FFFFFF' } },
+      { text: 'Baseline End', options: { bold: true, fill: { color: colors.primary }, color: 'FFFFFF' } },
+      { text: 'Current End', options: { bold: true, fill: { color: colors.primary }, color: 'FFFFFF' } },
+      { text: 'Variance', options: { bold: true, fill: { color: colors.primary }, color: 'FFFFFF' } },
+    ],
+  ];
+
+  // Workstreams first, then the milestones that slipped the most
+  const milestones = [...variance.milestones].sort((a, b) => (b.endSlipDays ?? 0) - (a.endSlipDays ?? 0));
+  [...variance.workstreams, ...milestones].slice(0, 10).forEach(r => {
+    rows.push([
+      { text: truncate(r.name, 40), options: { color: colors.text } },
+      { text: r.baselineEndDate || '-', options: { color: colors.text } },
+      { text: r.currentEndDate || '-', options: { color: colors.text } },
+      { text: formatSlip(r.endSlipDays), options: { color: getSlipColor(r.endSlipDays, colors) } },
+    ]);
+  });
+
+  slide.addTable(rows, {
+    x: 0.5,
+    y: 1.8,
+    w: 9,
+    colW: [4, 1.7, 1.7, 1.6],
+    fontSize: 10,
+    border: { type: 'solid', pt: 0.5, color: colors.muted },
+  });
+}
+
+/**
+ * Create slides for plan changes between two dates
+ */
+async function createPlanDiffSlides(
+  pptx: PptxGenJS,
+  projectName: string,
+  data: Record<string, unknown>,
+  colors: Record<string, string>
+): Promise<void> {
+  const { planChanges } = data as { planChanges: PlanChangesData };
+
+  // Title Slide
+  const titleSlide = pptx.addSlide();
+  titleSlide.addText(`${projectName} Plan Changes`, {
+    x: 0.5,
+    y: 2,
+    w: 9,
+    h: 1.5,
+    fontSize: 36,
+    bold: true,
+    color: colors.primary,
+    align: 'center',
+  });
+  titleSlide.addText(`${planChanges.since} to ${planChanges.until}`, {
+    x: 0.5,
+    y: 3.5,
+    w: 9,
+    h: 0.5,
+    fontSize: 18,
+    color: colors.muted,
+    align: 'center',
+  });
+  titleSlide.addText(`Generated: ${new Date().toISOString().split('T')[0]}`, {
+    x: 0.5,
+    y: 4.5,
+    w: 9,
+    h: 0.5,
+    fontSize: 12,
+    color: colors.muted,
+    align: 'center',
+  });
+
+  addPlanChangesSlide(pptx, planChanges, colors);
+}
+
+/**
+ * Add a slide listing changed plan items by workstream
+ */
+function addPlanChangesSlide(pptx: PptxGenJS, changes: PlanChangesData, colors: Record<string, string>): void {
+  const slide = pptx.addSlide();
+  addSlideTitle(slide, 'Plan Changes', colors);
+
+  const { summary } = changes;
+  slide.addText(
+    `Since ${changes.since}: ${summary.added} added, ${summary.removed} removed, ${summary.redated} re-dated, ` +
+      `${summary.reparented} moved, ${summary.statusChanged} status changes`,
+    {
+      x: 0.5,
+      y: 1.3,
+      w: 9,
+      h: 0.3,
+      fontSize: 12,
+      color: colors.text,
+    }
+  );
+
+  const rows: PptxGenJS.TableRow[] = [
+    [
+      { text: 'Workstream', options: { bold: true, fill: { color: colors.primary }, color: 'FFFFFF' } },
+      { text: 'Item', options: { bold: true, fill: { color: colors.primary }, color: 'FFFFFF' } },
+      { text: 'Change', options: { bold: true, fill: { color: colors.primary }, color: 'FFFFFF' } },
+    ],
+  ];
+
+  changes.workstreams
+    .flatMap(w => w.items.map(item => ({ workstream: w.name, item })))
+    .slice(0, 10)
+    .forEach(({ workstream, item }) => {
+      rows.push([
+        { text: truncate(workstream, 25), options: { color: colors.muted } },
+        { text: truncate(item.name, 35), options: { color: colors.text } },
+        { text: truncate(item.details.join('; '), 70), options: { color: colors.text } },
+      ]);
+    });
+
+  slide.addTable(rows, {
+    x: 0.5,
+    y: 1.8,
+    w: 9,
+    colW: [2, 2.8, 4.2],
+    fontSize: 10,
+    border: { type: 'solid', pt: 0.5, color: colors.muted },
+  });
+}
+
+/**
+ * Create decision log slides: current decisions with their rationale, then superseded ones
+ */
+async function createDecisionLogSlides(
+  pptx: PptxGenJS,
+  projectName: string,
+  data: Record<string, unknown>,
+  colors: Record<string, string>
+): Promise<void> {
+  const { decisionLog } = data as { decisionLog: DecisionLogData };
+
+  // Title Slide
+  const titleSlide = pptx.addSlide();
+  titleSlide.addText(`${projectName} Decision Log`, {
+    x: 0.5,
+    y: 2,
+    w: 9,
+    h: 1.5,
+    fontSize: 36,
+    bold: true,
+    color: colors.primary,
+    align: 'center',
+  });
+  titleSlide.addText(`As of ${decisionLog.asOf}`, {
+    x: 0.5,
+    y: 3.5,
+    w: 9,
+    h: 0.5,
+    fontSize: 18,
+    color: colors.muted,
+    align: 'center',
+  });
+  titleSlide.addText(`Generated: ${new Date().toISOString().split('T')[0]}`, {
+    x: 0.5,
+    y: 4.5,
+    w: 9,
+    h: 0.5,
+    fontSize: 12,
+    color: colors.muted,
+    align: 'center',
+  });
+
+  const header = (labels: string[]): PptxGenJS.TableRow =>
+    labels.map(text => ({ text, options: { bold: true, fill: { color: colors.primary }, color: 'FFFFFF' } }));
+  const decidedBy = (d: DecisionLogData['decisions'][number]) =>
+    [d.decisionDate, d.decisionMaker].filter(Boolean).join(', ') || '-';
+
+  // Every decision is exported, so long logs continue over several slides
+  const addTableSlides = (
+    title: string,
+    decisions: DecisionLogData['decisions'],
+    columns: string[],
+    colW: number[],
+    toRow: (d: DecisionLogData['decisions'][number]) => PptxGenJS.TableRow
+  ) => {
+    const perSlide = 6;
+    for (let start = 0; start < decisions.length; start += perSlide) {
+      const slide = pptx.addSlide();
+      addSlideTitle(slide, start === 0 ? title : `${title} (continued)`, colors);
+      slide.addTable([header(columns), ...decisions.slice(start, start + perSlide).map(toRow)], {
+        x: 0.5,
+        y: 1.4,
+        w: 9,
+        colW,
+        fontSize: 10,
+        border: { type: 'solid', pt: 0.5, color: colors.muted },
+      });
+    }
+  };
+
+  const current = decisionLog.decisions.filter(d => !d.supersededBy);
+  const superseded = decisionLog.decisions.filter(d => d.supersededBy);
+
+  if (current.length === 0) {
+    const slide = pptx.addSlide();
+    addSlideTitle(slide, 'Decisions', colors);
+    slide.addText('No decisions recorded.', { x: 0.5, y: 1.5, w: 9, h: 0.5, fontSize: 14, color: colors.muted });
+  }
+
+  addTableSlides('Decisions', current, ['Decision', 'Decided', 'Rationale', 'Alternatives'], [2.6, 1.4, 3, 2], d => [
+    { text: truncate(d.title, 60), options: { bold: true, color: colors.text } },
+    { text: truncate(decidedBy(d), 40), options: { color: colors.muted } },
+    { text: truncate(d.rationale || '-', 160), options: { color: colors.text } },
+    { text: truncate(d.alternatives.join('; ') || '-', 100), options: { color: colors.muted } },
+  ]);
+
+  addTableSlides('Superseded Decisions', superseded, ['Decision', 'Decided', 'Superseded By'], [3.8, 1.6, 3.6], d => [
+    { text: truncate(d.title, 70), options: { color: colors.muted } },
+    { text: truncate(decidedBy(d), 40), options: { color: colors.muted } },
+    { text: truncate(d.supersededBy!, 70), options: { color: colors.text } },
+  ]);
 }
 
 /**
@@ -613,6 +1249,20 @@ function getSeverityColor(severity: string, colors: Record<string, string>): str
   return getPriorityColor(severity, colors);
 }
 
+function getRagColor(rag: string, colors: Record<string, string>): string {
+  const ragColors: Record<string, string> = {
+    green: colors.success,
+    amber: colors.warning,
+    red: colors.danger,
+  };
+  return ragColors[rag] || colors.text;
+}
+
+function getSlipColor(days: number | null, colors: Record<string, string>): string {
+  if (days === null || days === 0) return colors.text;
+  return days > 0 ? colors.danger : colors.success;
+}
+
 export default {
   formatAsMarkdown,
   formatAsPptx,
@@ -27,6 +27,7 @@ export interface PlanItemToCreate {
   startDate?: string;
   targetEndDate?: string;
   status?: 'not_started' | 'in_progress' | 'completed' | 'on_hold' | 'cancelled';
+  customFields?: Record<string, string | number | null>;
   children?: PlanItemToCreate[];
 }
 
@@ -42,6 +43,8 @@ const planItemToCreateSchema: z.ZodType<PlanItemToCreate> = z.object({
   startDate: z.string().optional(),
   targetEndDate: z.string().optional(),
   status: z.enum(['not_started', 'in_progress', 'completed', 'on_hold', 'cancelled']).optional(),
+  // Suggested by the AI, so values are checked against the field definitions leniently on create
+  customFields: z.record(z.union([z.string(), z.number(), z.null()])).optional(),
   // Allow nested children
   children: z.lazy(() => z.array(planItemToCreateSchema)).optional(),
 });
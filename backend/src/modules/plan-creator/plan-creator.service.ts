@@ -7,6 +7,12 @@ import prisma from '../../config/database.js';
 import { AppError } from '../../middleware/errorHandler.js';
 import { ErrorCodes } from '../../utils/responses.js';
 import * as unifiedAI from '../../services/ai/unified.service.js';
+import {
+  fieldsForItemType,
+  getCustomFields,
+  getMemberEmails,
+  validateCustomFieldValues,
+} from '../plan-items/plan-custom-fields.service.js';
 import {
   getPlanCreatorSystemPrompt,
   getPlanCreatorUserPrompt,
@@ -91,6 +97,9 @@ export async function analyzePlanContent(
     status: item.status,
   }));
 
+  const customFields = await getCustomFields(organizationId);
+  const typeSlugs = new Map(planItemTypes.map(pt => [pt.id, pt.slug]));
+
   // Build AI context
   const aiContext: PlanCreatorContext = {
     projectName: project.name,
@@ -102,6 +111,14 @@ export async function analyzePlanContent(
       slug: pt.slug,
       level: pt.level,
     })),
+    customFields: customFields.map(field => ({
+      key: field.key,
+      label: field.label,
+      fieldType: field.fieldType,
+      options: field.options,
+      description: field.description,
+      appliesTo: field.planItemTypeId ? typeSlugs.get(field.planItemTypeId) ?? null : null,
+    })),
   };
 
   // Generate plan using AI
@@ -175,6 +192,11 @@ export async function createPlanFromSuggestions(
     slugToTypeId[type.slug] = type.id;
   }
 
+  const customFields = await getCustomFields(organizationId);
+  const memberEmails = customFields.some(field => field.fieldType === 'user')
+    ? await getMemberEmails(organizationId)
+    : new Set<string>();
+
   const createdItems: Array<{ id: string; name: string; itemType: string; parentId: string | null }> = [];
 
   // Process plan items recursively in a transaction
@@ -208,6 +230,16 @@ export async function createPlanFromSuggestions(
           if (!isNaN(parsed.getTime())) targetEndDate = parsed;
         }
 
+        // Keep only the suggested custom field values that are valid for this item type
+        const applicableFields = fieldsForItemType(customFields, typeId);
+        const customFieldValues: Record<string, string | number> = {};
+        for (const [key, value] of Object.entries(item.customFields ?? {})) {
+          const { values, errors } = validateCustomFieldValues(
+            applicableFields, memberEmails, { [key]: value }, {}, false
+          );
+          if (errors.length === 0 && values[key] !== undefined) customFieldValues[key] = values[key];
+        }
+
         // Create the plan item
         const created = await tx.planItem.create({
           data: {
@@ -221,6 +253,7 @@ export async function createPlanFromSuggestions(
             startDate,
             targetEndDate,
             notes: item.estimatedDuration ? `Estimated duration: ${item.estimatedDuration}` : null,
+            customFields: customFieldValues,
             path,
             depth,
             sortOrder: sortOrder++,
@@ -0,0 +1,177 @@
+import { z } from 'zod';
+import type { CustomField, Prisma } from '@prisma/client';
+import prisma from '../../config/database.js';
+import { AppError } from '../../middleware/errorHandler.js';
+import { ErrorCodes } from '../../utils/responses.js';
+
+// Custom field values as stored in PlanItem.customFields, keyed by CustomField.key.
+// Dates are YYYY-MM-DD strings and user fields hold the member's email.
+export type CustomFieldValues = Record<string, string | number>;
+
+export interface CustomFieldValidation {
+  values: CustomFieldValues;
+  errors: string[];
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const NUMERIC = /^-?\d+(\.\d+)?$/;
+
+// Active custom fields for an organization. With an item type, only the fields that apply to it.
+export const getCustomFields = async (organizationId: number, itemTypeId?: number) => {
+  return prisma.customField.findMany({
+    where: {
+      organizationId,
+      isActive: true,
+      ...(itemTypeId !== undefined && {
+        OR: [{ planItemTypeId: null }, { planItemTypeId: itemTypeId }],
+      }),
+    },
+    orderBy: [{ sortOrder: 'asc' }, { label: 'asc' }],
+  });
+};
+
+export const fieldsForItemType = (fields: CustomField[], itemTypeId: number): CustomField[] => {
+  return fields.filter(field => field.planItemTypeId === null || field.planItemTypeId === itemTypeId);
+};
+
+// Emails of the organization's active members, for validating user fields
+export const getMemberEmails = async (organizationId: number): Promise<Set<string>> => {
+  const members = await prisma.organizationUser.findMany({
+    where: { organizationId, isActive: true },
+    select: { user: { select: { email: true } } },
+  });
+  return new Set(members.map(member => member.user.email.toLowerCase()));
+};
+
+// Read the stored JSON column back as a values map, dropping anything malformed
+export const storedCustomFieldValues = (json: Prisma.JsonValue | undefined): CustomFieldValues => {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    return {};
+  }
+  const values: CustomFieldValues = {};
+  for (const [key, value] of Object.entries(json)) {
+    if (typeof value === 'string' || typeof value === 'number') {
+      values[key] = value;
+    }
+  }
+  return values;
+};
+
+// Rejects dates that don't exist, such as 2026-02-30
+const isIsoDate = (value: string) =>
+  ISO_DATE.test(value) && !isNaN(Date.parse(value)) && new Date(value).toISOString().startsWith(value);
+
+// Schema for one non-empty value, normalizing it to its stored form
+const valueSchema = (field: CustomField, memberEmails: Set<string>): z.ZodType<string | number, z.ZodTypeDef, unknown> => {
+  switch (field.fieldType) {
+    case 'number':
+      return z.coerce.string().trim().regex(NUMERIC, 'Expected a number').transform(Number);
+    case 'date':
+      return z
+        .string()
+        .trim()
+        .refine(isIsoDate, 'Expected a date (YYYY-MM-DD)');
+    case 'select':
+      return z.coerce.string().trim().transform((value, ctx) => {
+        const option = field.options.find(o => o.toLowerCase() === value.toLowerCase());
+        if (!option) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Expected one of: ${field.options.join(', ')}` });
+          return z.NEVER;
+        }
+        return option;
+      });
+    case 'user':
+      return z
+        .string()
+        .trim()
+        .toLowerCase()
+        .email('Expected a user email')
+        .refine(value => memberEmails.has(value), 'Not a member of this organization');
+    default:
+      return z.coerce.string().max(2000);
+  }
+};
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+// Validate input values for the given fields and merge them over the item's current values.
+// Empty input clears a field. Values stored for fields that no longer apply are kept untouched.
+export const validateCustomFieldValues = (
+  fields: CustomField[],
+  memberEmails: Set<string>,
+  input: Record<string, unknown>,
+  current: CustomFieldValues = {},
+  enforceRequired = true
+): CustomFieldValidation => {
+  const byKey = new Map(fields.map(field => [field.key, field]));
+  const values: CustomFieldValues = { ...current };
+  const errors: string[] = [];
+
+  for (const [key, raw] of Object.entries(input)) {
+    const field = byKey.get(key);
+    if (!field) {
+      errors.push(`Unknown custom field "${key}"`);
+      continue;
+    }
+    if (isEmpty(raw)) {
+      delete values[key];
+      continue;
+    }
+    const parsed = valueSchema(field, memberEmails).safeParse(raw);
+    if (parsed.success) {
+      values[key] = parsed.data;
+    } else {
+      errors.push(`${field.label}: ${parsed.error.issues[0].message}`);
+    }
+  }
+
+  if (enforceRequired) {
+    for (const field of fields) {
+      if (field.required && isEmpty(values[field.key])) {
+        errors.push(`${field.label} is required`);
+      }
+    }
+  }
+
+  return { values, errors };
+};
+
+// Load the fields that apply to an item type and validate values against them, throwing on bad input.
+// Used by the plan item create/update endpoints.
+export const resolveCustomFieldValues = async (
+  organizationId: number,
+  itemTypeId: number,
+  input: Record<string, unknown>,
+  current: CustomFieldValues = {}
+): Promise<CustomFieldValues> => {
+  const fields = await getCustomFields(organizationId, itemTypeId);
+  const memberEmails = fields.some(field => field.fieldType === 'user')
+    ? await getMemberEmails(organizationId)
+    : new Set<string>();
+
+  const { values, errors } = validateCustomFieldValues(fields, memberEmails, input, current);
+  if (errors.length > 0) {
+    throw new AppError(ErrorCodes.VALIDATION_ERROR, `Invalid custom fields: ${errors.join('; ')}`, 400);
+  }
+  return values;
+};
+
+const normalizeColumn = (value: string) =>
+  value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+// Match an import column header to a field by its key or its label
+export const findCustomFieldForColumn = (column: string, fields: CustomField[]): CustomField | undefined => {
+  const normalized = normalizeColumn(column);
+  if (!normalized) return undefined;
+  return fields.find(field => field.key === normalized || normalizeColumn(field.label) === normalized);
+};
+
+// Label/value pairs for the fields set on an item, in field order, for prompts and exports
+export const describeCustomFieldValues = (
+  fields: CustomField[],
+  values: CustomFieldValues
+): Array<{ key: string; label: string; value: string }> => {
+  return fields
+    .filter(field => !isEmpty(values[field.key]))
+    .map(field => ({ key: field.key, label: field.label, value: String(values[field.key]) }));
+};
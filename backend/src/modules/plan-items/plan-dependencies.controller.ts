@@ -0,0 +1,74 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import * as planDependenciesService from './plan-dependencies.service.js';
+import { successResponse } from '../../utils/responses.js';
+import type { CreateDependencyInput } from './plan-items.schema.js';
+
+// GET /api/projects/:projectId/plan/dependencies - List plan dependencies
+export const listDependencies: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId } = req.params;
+    const dependencies = await planDependenciesService.listDependencies(projectId, organizationId);
+    successResponse(res, dependencies);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/plan/dependencies - Create plan dependency
+export const createDependency: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId } = req.params;
+    const input = req.body as CreateDependencyInput;
+    const dependency = await planDependenciesService.createDependency(
+      projectId,
+      organizationId,
+      input,
+      req.user?.id
+    );
+    successResponse(res, dependency, 201);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// DELETE /api/projects/:projectId/plan/dependencies/:dependencyId - Delete plan dependency
+export const deleteDependency: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId, dependencyId } = req.params;
+    const result = await planDependenciesService.deleteDependency(dependencyId, projectId, organizationId);
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/projects/:projectId/plan/critical-path - Compute critical path and slack
+export const getCriticalPath: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId } = req.params;
+    const result = await planDependenciesService.getCriticalPath(projectId, organizationId);
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
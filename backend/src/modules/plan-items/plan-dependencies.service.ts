@@ -0,0 +1,360 @@
+import prisma from '../../config/database.js';
+import { AppError } from '../../middleware/errorHandler.js';
+import { ErrorCodes } from '../../utils/responses.js';
+import type { CreateDependencyInput, DependencyType } from './plan-items.schema.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Critical path schedule for a single plan item
+export interface CriticalPathItem {
+  planItemId: string;
+  name: string;
+  durationDays: number;
+  earlyStart: Date;
+  earlyFinish: Date;
+  lateStart: Date;
+  lateFinish: Date;
+  slackDays: number;
+  isCritical: boolean;
+}
+
+export interface CriticalPathResult {
+  projectStart: Date | null;
+  projectFinish: Date | null;
+  criticalPath: string[];
+  items: CriticalPathItem[];
+}
+
+// Verify project belongs to organization
+const getProjectOrThrow = async (projectId: string, organizationId: number) => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, organizationId, isActive: true },
+  });
+
+  if (!project) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Project not found', 404);
+  }
+
+  return project;
+};
+
+// Check whether `to` is reachable from `from` following predecessor -> successor links
+export const isReachable = (edges: Array<{ predecessorId: string; successorId: string }>, from: string, to: string): boolean => {
+  const successors = new Map<string, string[]>();
+  for (const edge of edges) {
+    const list = successors.get(edge.predecessorId) || [];
+    list.push(edge.successorId);
+    successors.set(edge.predecessorId, list);
+  }
+
+  const visited = new Set<string>();
+  const stack = [from];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === to) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    stack.push(...(successors.get(current) || []));
+  }
+
+  return false;
+};
+
+// List dependencies for a project
+export const listDependencies = async (projectId: string, organizationId: number) => {
+  await getProjectOrThrow(projectId, organizationId);
+
+  const dependencies = await prisma.planItemDependency.findMany({
+    where: {
+      projectId,
+      predecessor: { isActive: true },
+      successor: { isActive: true },
+    },
+    include: {
+      predecessor: { select: { id: true, name: true } },
+      successor: { select: { id: true, name: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return dependencies;
+};
+
+// Create a dependency, rejecting links that would introduce a cycle
+export const createDependency = async (
+  projectId: string,
+  organizationId: number,
+  input: CreateDependencyInput,
+  userId?: number
+) => {
+  await getProjectOrThrow(projectId, organizationId);
+
+  if (input.predecessorId === input.successorId) {
+    throw new AppError(ErrorCodes.VALIDATION_ERROR, 'A plan item cannot depend on itself', 400);
+  }
+
+  const items = await prisma.planItem.findMany({
+    where: { id: { in: [input.predecessorId, input.successorId] }, projectId, isActive: true },
+    select: { id: true, path: true },
+  });
+
+  const predecessor = items.find(i => i.id === input.predecessorId);
+  const successor = items.find(i => i.id === input.successorId);
+
+  if (!predecessor || !successor) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Plan item not found', 404);
+  }
+
+  // Summary items already span their children, so linking across the hierarchy is meaningless
+  if (predecessor.path.includes(successor.id) || successor.path.includes(predecessor.id)) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      'Cannot link a plan item to its own ancestor or descendant',
+      400
+    );
+  }
+
+  const existing = await prisma.planItemDependency.findMany({
+    where: { projectId },
+    select: { predecessorId: true, successorId: true },
+  });
+
+  if (existing.some(e => e.predecessorId === input.predecessorId && e.successorId === input.successorId)) {
+    throw new AppError(ErrorCodes.CONFLICT, 'Dependency already exists', 409);
+  }
+
+  // Adding predecessor -> successor closes a loop if the predecessor is already downstream of the successor
+  if (isReachable(existing, input.successorId, input.predecessorId)) {
+    throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Dependency would create a cycle', 400);
+  }
+
+  const dependency = await prisma.planItemDependency.create({
+    data: {
+      projectId,
+      predecessorId: input.predecessorId,
+      successorId: input.successorId,
+      type: input.type,
+      lagDays: input.lagDays,
+      createdByUserId: userId,
+    },
+    include: {
+      predecessor: { select: { id: true, name: true } },
+      successor: { select: { id: true, name: true } },
+    },
+  });
+
+  return dependency;
+};
+
+// Delete a dependency
+export const deleteDependency = async (dependencyId: string, projectId: string, organizationId: number) => {
+  await getProjectOrThrow(projectId, organizationId);
+
+  const dependency = await prisma.planItemDependency.findFirst({
+    where: { id: dependencyId, projectId },
+  });
+
+  if (!dependency) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Dependency not found', 404);
+  }
+
+  await prisma.planItemDependency.delete({ where: { id: dependencyId } });
+
+  return { message: 'Dependency deleted successfully' };
+};
+
+// Compute the critical path with a forward/backward pass over planned dates and dependencies.
+// Items keep their planned start as a lower bound; slack is measured against the project finish.
+// Summary items only span their children, so unless they have links of their own they are left
+// out of the passes and take their schedule, slack and criticality from their children.
+export const getCriticalPath = async (projectId: string, organizationId: number): Promise<CriticalPathResult> => {
+  await getProjectOrThrow(projectId, organizationId);
+
+  const [items, dependencies] = await Promise.all([
+    prisma.planItem.findMany({
+      where: { projectId, isActive: true },
+      select: { id: true, name: true, path: true, depth: true, startDate: true, targetEndDate: true },
+    }),
+    prisma.planItemDependency.findMany({
+      where: { projectId },
+      select: { predecessorId: true, successorId: true, type: true, lagDays: true },
+    }),
+  ]);
+
+  const scheduled = items.filter(i => i.startDate || i.targetEndDate);
+  if (scheduled.length === 0) {
+    return { projectStart: null, projectFinish: null, criticalPath: [], items: [] };
+  }
+
+  const scheduledIds = new Set(scheduled.map(i => i.id));
+  const links = dependencies.filter(d => scheduledIds.has(d.predecessorId) && scheduledIds.has(d.successorId));
+
+  const linkedIds = new Set(links.flatMap(l => [l.predecessorId, l.successorId]));
+  const ancestorIds = (path: string) => path.split('/').filter(Boolean);
+  const hasScheduledDescendants = new Set(scheduled.flatMap(i => ancestorIds(i.path)));
+  const summaries = scheduled.filter(i => hasScheduledDescendants.has(i.id) && !linkedIds.has(i.id));
+  const summaryIds = new Set(summaries.map(i => i.id));
+  const itemIds = new Set(scheduled.filter(i => !summaryIds.has(i.id)).map(i => i.id));
+
+  const base = Math.min(...scheduled.map(i => (i.startDate || i.targetEndDate)!.getTime()));
+  const toOffset = (date: Date) => Math.round((date.getTime() - base) / MS_PER_DAY);
+  const toDate = (offset: number) => new Date(base + offset * MS_PER_DAY);
+
+  const nodes = new Map(
+    scheduled.filter(i => itemIds.has(i.id)).map(i => {
+      const start = toOffset((i.startDate || i.targetEndDate)!);
+      const finish = toOffset((i.targetEndDate || i.startDate)!);
+      const duration = Math.max(0, finish - start);
+      return [i.id, { id: i.id, name: i.name, plannedStart: start, duration, es: 0, ef: 0, ls: 0, lf: 0 }];
+    })
+  );
+
+  const order = topologicalOrder(Array.from(itemIds), links);
+
+  // Forward pass: earliest start respecting the planned start and every predecessor link
+  for (const id of order) {
+    const node = nodes.get(id)!;
+    let es = node.plannedStart;
+    for (const link of links.filter(l => l.successorId === id)) {
+      const pred = nodes.get(link.predecessorId)!;
+      es = Math.max(es, successorEarliestStart(link.type as DependencyType, pred, node.duration, link.lagDays));
+    }
+    node.es = es;
+    node.ef = es + node.duration;
+  }
+
+  const projectFinish = Math.max(...Array.from(nodes.values()).map(n => n.ef));
+
+  // Backward pass: latest finish that does not delay any successor or the project finish
+  for (const id of [...order].reverse()) {
+    const node = nodes.get(id)!;
+    let lf = projectFinish;
+    for (const link of links.filter(l => l.predecessorId === id)) {
+      const succ = nodes.get(link.successorId)!;
+      lf = Math.min(lf, predecessorLatestFinish(link.type as DependencyType, succ, node.duration, link.lagDays));
+    }
+    node.lf = lf;
+    node.ls = lf - node.duration;
+  }
+
+  const resultItems: CriticalPathItem[] = Array.from(nodes.values()).map(n => ({
+    planItemId: n.id,
+    name: n.name,
+    durationDays: n.duration,
+    earlyStart: toDate(n.es),
+    earlyFinish: toDate(n.ef),
+    lateStart: toDate(n.ls),
+    lateFinish: toDate(n.lf),
+    slackDays: n.ls - n.es,
+    isCritical: n.ls - n.es <= 0,
+  }));
+
+  // Roll summaries up from the items below them, deepest first so nested summaries are ready
+  const paths = new Map(scheduled.map(i => [i.id, i.path]));
+  const childrenBySummary = new Map<string, CriticalPathItem[]>();
+  const addToSummary = (item: CriticalPathItem) => {
+    const summaryId = ancestorIds(paths.get(item.planItemId)!).reverse().find(id => summaryIds.has(id));
+    if (summaryId) childrenBySummary.set(summaryId, [...(childrenBySummary.get(summaryId) ?? []), item]);
+  };
+  resultItems.forEach(addToSummary);
+
+  for (const summary of [...summaries].sort((a, b) => b.depth - a.depth)) {
+    const children = childrenBySummary.get(summary.id)!;
+    const earlyStart = Math.min(...children.map(c => c.earlyStart.getTime()));
+    const earlyFinish = Math.max(...children.map(c => c.earlyFinish.getTime()));
+    const item: CriticalPathItem = {
+      planItemId: summary.id,
+      name: summary.name,
+      durationDays: Math.round((earlyFinish - earlyStart) / MS_PER_DAY),
+      earlyStart: new Date(earlyStart),
+      earlyFinish: new Date(earlyFinish),
+      lateStart: new Date(Math.min(...children.map(c => c.lateStart.getTime()))),
+      lateFinish: new Date(Math.max(...children.map(c => c.lateFinish.getTime()))),
+      slackDays: Math.min(...children.map(c => c.slackDays)),
+      isCritical: children.some(c => c.isCritical),
+    };
+    resultItems.push(item);
+    addToSummary(item);
+  }
+
+  resultItems.sort((a, b) => a.earlyStart.getTime() - b.earlyStart.getTime() || a.name.localeCompare(b.name));
+
+  return {
+    projectStart: toDate(0),
+    projectFinish: toDate(projectFinish),
+    criticalPath: resultItems.filter(i => i.isCritical).map(i => i.planItemId),
+    items: resultItems,
+  };
+};
+
+// Helper functions
+
+const successorEarliestStart = (
+  type: DependencyType,
+  pred: { es: number; ef: number },
+  successorDuration: number,
+  lag: number
+): number => {
+  switch (type) {
+    case 'start_to_start':
+      return pred.es + lag;
+    case 'finish_to_finish':
+      return pred.ef + lag - successorDuration;
+    case 'finish_to_start':
+    default:
+      return pred.ef + lag;
+  }
+};
+
+const predecessorLatestFinish = (
+  type: DependencyType,
+  succ: { ls: number; lf: number },
+  predecessorDuration: number,
+  lag: number
+): number => {
+  switch (type) {
+    case 'start_to_start':
+      return succ.ls - lag + predecessorDuration;
+    case 'finish_to_finish':
+      return succ.lf - lag;
+    case 'finish_to_start':
+    default:
+      return succ.ls - lag;
+  }
+};
+
+const topologicalOrder = (
+  ids: string[],
+  links: Array<{ predecessorId: string; successorId: string }>
+): string[] => {
+  const inDegree = new Map(ids.map(id => [id, 0]));
+  for (const link of links) {
+    inDegree.set(link.successorId, (inDegree.get(link.successorId) || 0) + 1);
+  }
+
+  const queue = ids.filter(id => inDegree.get(id) === 0);
+  const order: string[] = [];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const link of links.filter(l => l.predecessorId === id)) {
+      const remaining = inDegree.get(link.successorId)! - 1;
+      inDegree.set(link.successorId, remaining);
+      if (remaining === 0) queue.push(link.successorId);
+    }
+  }
+
+  if (order.length !== ids.length) {
+    throw new AppError(ErrorCodes.CONFLICT, 'Plan dependencies contain a cycle', 409);
+  }
+
+  return order;
+};
+
+export default {
+  listDependencies,
+  createDependency,
+  deleteDependency,
+  getCriticalPath,
+};
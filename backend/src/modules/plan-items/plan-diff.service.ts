@@ -0,0 +1,261 @@
+import type { PlanItemHistory } from '@prisma/client';
+import prisma from '../../config/database.js';
+import { AppError } from '../../middleware/errorHandler.js';
+import { ErrorCodes } from '../../utils/responses.js';
+import { normalizeHistoryValue } from './plan-revert.service.js';
+import type { PlanChangeKind, PlanChangeRow, PlanChanges } from '../../services/ai/prompts/activity-reporter.js';
+import type { PlanDiffQuery } from './plan-items.schema.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// The fields a plan diff compares, as they stood at a point in time
+export interface PlanItemState {
+  name: string;
+  parentId: string | null;
+  status: string;
+  startDate: string | null;
+  targetEndDate: string | null;
+}
+
+export interface PlanDiffItem {
+  planItemId: string;
+  name: string;
+  itemType: string;
+  changes: PlanChangeKind[];
+  details: string[];
+  before: (PlanItemState & { parentName: string | null }) | null;
+  after: (PlanItemState & { parentName: string | null }) | null;
+  // Days the target end moved, positive when later
+  endShiftDays: number | null;
+}
+
+export interface PlanDiff {
+  from: Date;
+  to: Date;
+  summary: PlanChanges['summary'];
+  workstreams: Array<{ workstreamId: string; name: string; items: PlanDiffItem[] }>;
+}
+
+type ProjectPlanItem = Awaited<ReturnType<typeof loadPlanItems>>[number];
+
+const STATE_FIELDS = ['name', 'parentId', 'status', 'startDate', 'targetEndDate'] as const;
+
+const loadPlanItems = (projectId: string) =>
+  prisma.planItem.findMany({
+    where: { projectId },
+    include: { itemType: { select: { name: true } } },
+    orderBy: [{ depth: 'asc' }, { sortOrder: 'asc' }],
+  });
+
+const formatDate = (date: Date | null): string | null => (date ? date.toISOString().split('T')[0] : null);
+
+// Rebuild the active plan at a point in time by undoing, per field, every change recorded after it.
+// `entries` must be the project's history after `at` (or earlier), oldest first.
+const planStateAt = (
+  items: ProjectPlanItem[],
+  entries: PlanItemHistory[],
+  at: Date
+): Map<string, PlanItemState> => {
+  const undone = new Map<string, { field: string; value: string | null }[]>();
+  const seen = new Set<string>();
+  for (const entry of entries) {
+    if (entry.createdAt <= at) continue;
+    const key = `${entry.planItemId}:${entry.field}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const list = undone.get(entry.planItemId) ?? [];
+    list.push({ field: entry.field, value: normalizeHistoryValue(entry.field, entry.oldValue) });
+    undone.set(entry.planItemId, list);
+  }
+  const hasDeleteHistory = new Set(entries.filter(e => e.field === 'isActive').map(e => e.planItemId));
+
+  const state = new Map<string, PlanItemState>();
+  for (const item of items) {
+    if (item.createdAt > at) continue;
+
+    const values: PlanItemState = {
+      name: item.name,
+      parentId: item.parentId,
+      status: item.status,
+      startDate: formatDate(item.startDate),
+      targetEndDate: formatDate(item.targetEndDate),
+    };
+    // Deletes weren't recorded in history before plan revert existed, so an item deleted without a
+    // history entry is taken to have been deleted at its last update
+    let isActive = item.isActive || (!hasDeleteHistory.has(item.id) && item.updatedAt > at);
+
+    for (const { field, value } of undone.get(item.id) ?? []) {
+      if (field === 'isActive') {
+        isActive = value === 'true';
+      } else if ((STATE_FIELDS as readonly string[]).includes(field)) {
+        (values as unknown as Record<string, string | null>)[field] = value;
+      }
+    }
+
+    if (isActive) state.set(item.id, values);
+  }
+  return state;
+};
+
+// The top-level item an item sits under in a plan state
+const rootOf = (id: string, state: Map<string, PlanItemState>): string => {
+  const seen = new Set([id]);
+  let current = id;
+  for (;;) {
+    const parentId = state.get(current)?.parentId;
+    if (!parentId || !state.has(parentId) || seen.has(parentId)) return current;
+    seen.add(parentId);
+    current = parentId;
+  }
+};
+
+const diffDays = (later: string | null, earlier: string | null): number | null => {
+  if (!later || !earlier) return null;
+  return Math.round((new Date(later).getTime() - new Date(earlier).getTime()) / MS_PER_DAY);
+};
+
+// One readable line per change
+const describeChanges = (
+  before: PlanDiffItem['before'],
+  after: PlanDiffItem['after'],
+  endShiftDays: number | null
+): string[] => {
+  if (!before) return [`Added${after?.parentName ? ` under ${after.parentName}` : ''}`];
+  if (!after) return ['Removed'];
+
+  const details: string[] = [];
+  if (before.startDate !== after.startDate) {
+    details.push(`Start ${before.startDate ?? 'none'} → ${after.startDate ?? 'none'}`);
+  }
+  if (before.targetEndDate !== after.targetEndDate) {
+    const shift = endShiftDays ? ` (${endShiftDays > 0 ? '+' : ''}${endShiftDays}d)` : '';
+    details.push(`Target end ${before.targetEndDate ?? 'none'} → ${after.targetEndDate ?? 'none'}${shift}`);
+  }
+  if (before.parentId !== after.parentId) {
+    details.push(`Moved from ${before.parentName ?? 'top level'} to ${after.parentName ?? 'top level'}`);
+  }
+  if (before.status !== after.status) {
+    details.push(`Status ${before.status.replace(/_/g, ' ')} → ${after.status.replace(/_/g, ' ')}`);
+  }
+  return details;
+};
+
+// Items added, removed, re-dated, re-parented or with a new status between two points in time,
+// grouped by the workstream (top-level item) they sit under
+export const getPlanDiff = async (projectId: string, organizationId: number, query: PlanDiffQuery): Promise<PlanDiff> => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, organizationId, isActive: true },
+    select: { id: true },
+  });
+
+  if (!project) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Project not found', 404);
+  }
+
+  const now = new Date();
+  const to = query.to && query.to < now ? query.to : now;
+  if (query.from >= to) {
+    throw new AppError(ErrorCodes.VALIDATION_ERROR, '"from" must be before "to"', 400);
+  }
+
+  return buildPlanDiff(projectId, query.from, to);
+};
+
+const buildPlanDiff = async (projectId: string, from: Date, to: Date): Promise<PlanDiff> => {
+  const [items, entries] = await Promise.all([
+    loadPlanItems(projectId),
+    prisma.planItemHistory.findMany({
+      where: { planItem: { projectId }, createdAt: { gt: from } },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    }),
+  ]);
+
+  const before = planStateAt(items, entries, from);
+  const after = planStateAt(items, entries, to);
+  const withParentName = (state: Map<string, PlanItemState>, id: string) => {
+    const values = state.get(id);
+    if (!values) return null;
+    return { ...values, parentName: values.parentId ? state.get(values.parentId)?.name ?? null : null };
+  };
+
+  const workstreams = new Map<string, PlanDiff['workstreams'][number]>();
+  for (const item of items) {
+    const was = withParentName(before, item.id);
+    const now = withParentName(after, item.id);
+    if (!was && !now) continue;
+
+    const changes: PlanChangeKind[] = [];
+    if (!was) changes.push('added');
+    else if (!now) changes.push('removed');
+    else {
+      if (was.startDate !== now.startDate || was.targetEndDate !== now.targetEndDate) changes.push('redated');
+      if (was.parentId !== now.parentId) changes.push('reparented');
+      if (was.status !== now.status) changes.push('status_changed');
+    }
+    if (changes.length === 0) continue;
+
+    // Removed items are grouped where they used to be
+    const state = now ? after : before;
+    const rootId = rootOf(item.id, state);
+    const workstream = workstreams.get(rootId) ?? { workstreamId: rootId, name: state.get(rootId)!.name, items: [] };
+    const endShiftDays = diffDays(now?.targetEndDate ?? null, was?.targetEndDate ?? null);
+    workstream.items.push({
+      planItemId: item.id,
+      name: (now ?? was)!.name,
+      itemType: item.itemType.name,
+      changes,
+      details: describeChanges(was, now, endShiftDays),
+      before: was,
+      after: now,
+      endShiftDays,
+    });
+    workstreams.set(rootId, workstream);
+  }
+
+  const all = Array.from(workstreams.values()).flatMap(w => w.items);
+  const count = (kind: PlanChangeKind) => all.filter(i => i.changes.includes(kind)).length;
+
+  return {
+    from,
+    to,
+    summary: {
+      added: count('added'),
+      removed: count('removed'),
+      redated: count('redated'),
+      reparented: count('reparented'),
+      statusChanged: count('status_changed'),
+    },
+    workstreams: Array.from(workstreams.values()),
+  };
+};
+
+// Condense a plan diff to readable rows for reports and exports
+export const toPlanChanges = (diff: PlanDiff): PlanChanges => {
+  const toRow = (item: PlanDiffItem): PlanChangeRow => ({
+    planItemId: item.planItemId,
+    name: item.name,
+    changes: item.changes,
+    details: item.details,
+  });
+
+  return {
+    since: formatDate(diff.from)!,
+    until: formatDate(diff.to)!,
+    summary: diff.summary,
+    workstreams: diff.workstreams.map(w => ({ name: w.name, items: w.items.map(toRow) })),
+  };
+};
+
+// Plan changes over a report period for the activity reporter, or null when nothing changed
+export const getPlanChangesForReport = async (
+  projectId: string,
+  periodStart: Date,
+  periodEnd: Date
+): Promise<PlanChanges | null> => {
+  const now = new Date();
+  const to = periodEnd < now ? periodEnd : now;
+  if (periodStart >= to) return null;
+
+  const diff = await buildPlanDiff(projectId, periodStart, to);
+  return diff.workstreams.length > 0 ? toPlanChanges(diff) : null;
+};
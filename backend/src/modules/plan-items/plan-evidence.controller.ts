@@ -0,0 +1,74 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import * as planEvidenceService from './plan-evidence.service.js';
+import { successResponse } from '../../utils/responses.js';
+import type { LinkContentItemInput } from './plan-items.schema.js';
+
+// GET /api/plan-items/:id/evidence - Content and reports linked to a plan item
+export const getPlanItemEvidence: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const evidence = await planEvidenceService.getPlanItemEvidence(req.params.id, organizationId);
+    successResponse(res, evidence);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/plan-items/:id/evidence - Link a content item to a plan item
+export const linkContentItem: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const input = req.body as LinkContentItemInput;
+    const link = await planEvidenceService.linkContentItem(
+      req.params.id,
+      input.contentItemId,
+      organizationId,
+      req.user?.id
+    );
+    successResponse(res, link, 201);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// DELETE /api/plan-items/:id/evidence/:contentItemId - Unlink a content item from a plan item
+export const unlinkContentItem: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const result = await planEvidenceService.unlinkContentItem(
+      req.params.id,
+      req.params.contentItemId,
+      organizationId
+    );
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/content-items/:id/plan-items - Plan items linked to a content item
+export const getContentItemPlanItems: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const planItems = await planEvidenceService.getContentItemPlanItems(req.params.id, organizationId);
+    successResponse(res, planItems);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,198 @@
+import type { Prisma } from '@prisma/client';
+import prisma from '../../config/database.js';
+import { AppError } from '../../middleware/errorHandler.js';
+import { ErrorCodes } from '../../utils/responses.js';
+
+// How a plan item came to be linked to a content item
+export type LinkSource = 'manual' | 'ai' | 'plan_update';
+
+// Either the client or a transaction, so links can be written alongside the records they join
+type Db = typeof prisma | Prisma.TransactionClient;
+
+// Verify plan item belongs to organization
+const getPlanItemOrThrow = async (id: string, organizationId: number) => {
+  const item = await prisma.planItem.findFirst({
+    where: { id, isActive: true, project: { organizationId, isActive: true } },
+  });
+
+  if (!item) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Plan item not found', 404);
+  }
+
+  return item;
+};
+
+// Verify content item belongs to organization
+const getContentItemOrThrow = async (id: string, organizationId: number) => {
+  const item = await prisma.contentItem.findFirst({
+    where: { id, isActive: true, project: { organizationId, isActive: true } },
+  });
+
+  if (!item) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Content item not found', 404);
+  }
+
+  return item;
+};
+
+// Links can only join live records in the same project
+export const assertPlanItemsInProject = async (projectId: string, planItemIds: string[]) => {
+  const ids = Array.from(new Set(planItemIds));
+  if (ids.length === 0) return;
+
+  const count = await prisma.planItem.count({ where: { id: { in: ids }, projectId, isActive: true } });
+  if (count !== ids.length) {
+    throw new AppError(ErrorCodes.VALIDATION_ERROR, 'One or more plan items not found', 400);
+  }
+};
+
+export const assertContentItemsInProject = async (projectId: string, contentItemIds: string[]) => {
+  const ids = Array.from(new Set(contentItemIds));
+  if (ids.length === 0) return;
+
+  const count = await prisma.contentItem.count({ where: { id: { in: ids }, projectId, isActive: true } });
+  if (count !== ids.length) {
+    throw new AppError(ErrorCodes.VALIDATION_ERROR, 'One or more content items not found', 400);
+  }
+};
+
+// Link a plan item to content items, keeping any links it already has
+export const addPlanItemLinks = (
+  db: Db,
+  projectId: string,
+  planItemId: string,
+  contentItemIds: string[],
+  source: LinkSource,
+  userId?: number
+) =>
+  db.planItemContentLink.createMany({
+    data: contentItemIds.map(contentItemId => ({ projectId, planItemId, contentItemId, source, createdByUserId: userId })),
+    skipDuplicates: true,
+  });
+
+// Link a content item to plan items, keeping any links it already has
+export const addContentItemLinks = (
+  db: Db,
+  projectId: string,
+  contentItemId: string,
+  planItemIds: string[],
+  source: LinkSource,
+  userId?: number
+) =>
+  db.planItemContentLink.createMany({
+    data: planItemIds.map(planItemId => ({ projectId, planItemId, contentItemId, source, createdByUserId: userId })),
+    skipDuplicates: true,
+  });
+
+// Replace the plan items linked to a content item, leaving links to trashed plan items alone
+export const setContentItemLinks = async (
+  db: Db,
+  projectId: string,
+  contentItemId: string,
+  planItemIds: string[],
+  userId?: number
+) => {
+  await db.planItemContentLink.deleteMany({
+    where: { contentItemId, planItemId: { notIn: planItemIds }, planItem: { isActive: true } },
+  });
+  await addContentItemLinks(db, projectId, contentItemId, planItemIds, 'manual', userId);
+};
+
+// Content linked to a plan item, most recent first, with the reports generated from it
+export const getPlanItemEvidence = async (planItemId: string, organizationId: number) => {
+  const planItem = await getPlanItemOrThrow(planItemId, organizationId);
+
+  const links = await prisma.planItemContentLink.findMany({
+    where: { planItemId, contentItem: { isActive: true } },
+    include: {
+      contentItem: {
+        select: {
+          id: true,
+          title: true,
+          sourceType: true,
+          dateOccurred: true,
+          aiSummary: true,
+          fileName: true,
+          createdAt: true,
+        },
+      },
+    },
+    orderBy: [{ contentItem: { dateOccurred: 'desc' } }, { createdAt: 'desc' }],
+  });
+
+  const contentItemIds = links.map(link => link.contentItemId);
+  const reports = contentItemIds.length > 0
+    ? await prisma.activityReport.findMany({
+        where: { projectId: planItem.projectId, isActive: true, sourceContentIds: { hasSome: contentItemIds } },
+        select: { id: true, title: true, periodStart: true, periodEnd: true, createdAt: true },
+        orderBy: { periodEnd: 'desc' },
+      })
+    : [];
+
+  return {
+    contentItems: links.map(link => ({
+      ...link.contentItem,
+      linkId: link.id,
+      linkSource: link.source,
+      linkedAt: link.createdAt,
+    })),
+    reports,
+  };
+};
+
+// Plan items linked to a content item, in plan order
+export const getContentItemPlanItems = async (contentItemId: string, organizationId: number) => {
+  await getContentItemOrThrow(contentItemId, organizationId);
+
+  const links = await prisma.planItemContentLink.findMany({
+    where: { contentItemId, planItem: { isActive: true } },
+    include: {
+      planItem: {
+        select: {
+          id: true,
+          name: true,
+          status: true,
+          owner: true,
+          targetEndDate: true,
+          path: true,
+          itemType: { select: { id: true, name: true, level: true } },
+        },
+      },
+    },
+    orderBy: { planItem: { path: 'asc' } },
+  });
+
+  return links.map(link => ({
+    ...link.planItem,
+    linkId: link.id,
+    linkSource: link.source,
+    linkedAt: link.createdAt,
+  }));
+};
+
+export const linkContentItem = async (
+  planItemId: string,
+  contentItemId: string,
+  organizationId: number,
+  userId?: number
+) => {
+  const planItem = await getPlanItemOrThrow(planItemId, organizationId);
+  await assertContentItemsInProject(planItem.projectId, [contentItemId]);
+
+  await addPlanItemLinks(prisma, planItem.projectId, planItemId, [contentItemId], 'manual', userId);
+
+  return prisma.planItemContentLink.findUniqueOrThrow({
+    where: { planItemId_contentItemId: { planItemId, contentItemId } },
+  });
+};
+
+export const unlinkContentItem = async (planItemId: string, contentItemId: string, organizationId: number) => {
+  await getPlanItemOrThrow(planItemId, organizationId);
+
+  const { count } = await prisma.planItemContentLink.deleteMany({ where: { planItemId, contentItemId } });
+  if (count === 0) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Link not found', 404);
+  }
+
+  return { message: 'Link removed successfully' };
+};
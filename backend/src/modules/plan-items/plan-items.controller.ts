@@ -1,11 +1,20 @@
 import { Request, Response, NextFunction, RequestHandler } from 'express';
 import * as planItemsService from './plan-items.service.js';
+import * as planMspdiService from './plan-mspdi.service.js';
+import * as planXlsxService from './plan-xlsx.service.js';
+import * as planRevertService from './plan-revert.service.js';
+import * as planDiffService from './plan-diff.service.js';
 import { successResponse } from '../../utils/responses.js';
 import type {
   CreatePlanItemInput,
   UpdatePlanItemInput,
   ListPlanItemsQuery,
   BulkUpdateInput,
+  MovePlanItemInput,
+  RevertOptions,
+  RevertPlanInput,
+  ProjectHistoryQuery,
+  PlanDiffQuery,
 } from './plan-items.schema.js';
 
 // GET /api/projects/:projectId/plan - Get full plan tree
@@ -18,7 +27,7 @@ export const getProjectPlan: RequestHandler = async (
     const organizationId = req.organizationId!;
     const { projectId } = req.params;
     const query = req.query as unknown as ListPlanItemsQuery;
-    const result = await planItemsService.getProjectPlan(projectId, organizationId, query);
+    const result = await planItemsService.getProjectPlan(projectId, organizationId, query, req.user?.id);
     successResponse(res, result);
   } catch (error) {
     next(error);
@@ -93,7 +102,12 @@ export const deletePlanItem: RequestHandler = async (
 ): Promise<void> => {
   try {
     const organizationId = req.organizationId!;
-    const result = await planItemsService.deletePlanItem(req.params.id, organizationId);
+    const result = await planItemsService.deletePlanItem(
+      req.params.id,
+      organizationId,
+      req.user?.id,
+      req.user?.email
+    );
     successResponse(res, result);
   } catch (error) {
     next(error);
@@ -115,6 +129,118 @@ export const getPlanItemHistory: RequestHandler = async (
   }
 };
 
+// POST /api/plan-items/:id/history/:historyId/revert - Revert a single change
+export const revertHistoryEntry: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const result = await planRevertService.revertHistoryEntry(
+      req.params.id,
+      parseInt(req.params.historyId, 10),
+      organizationId,
+      req.body as RevertOptions,
+      req.user?.id,
+      req.user?.email
+    );
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/projects/:projectId/plan/history - Recent changes across the plan
+export const getProjectHistory: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const query = req.query as unknown as ProjectHistoryQuery;
+    const history = await planRevertService.getProjectHistory(req.params.projectId, organizationId, query);
+    successResponse(res, history);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/projects/:projectId/plan/diff - What changed in the plan between two points in time
+export const getPlanDiff: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const query = req.query as unknown as PlanDiffQuery;
+    const diff = await planDiffService.getPlanDiff(req.params.projectId, organizationId, query);
+    successResponse(res, diff);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/plan/history/batches/:batchId/revert - Revert a batch of changes
+export const revertHistoryBatch: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const result = await planRevertService.revertHistoryBatch(
+      req.params.projectId,
+      req.params.batchId,
+      organizationId,
+      req.body as RevertOptions,
+      req.user?.id,
+      req.user?.email
+    );
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/plan/revert - Roll the plan back to a point in time
+export const revertPlanToTimestamp: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const result = await planRevertService.revertPlanToTimestamp(
+      req.params.projectId,
+      organizationId,
+      req.body as RevertPlanInput,
+      req.user?.id,
+      req.user?.email
+    );
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/plan-items/:id/transitions - Current status and allowed next statuses
+export const getPlanItemTransitions: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const transitions = await planItemsService.getPlanItemTransitions(req.params.id, organizationId);
+    successResponse(res, transitions);
+  } catch (error) {
+    next(error);
+  }
+};
+
 // GET /api/plan-item-types - Get all plan item types
 export const getPlanItemTypes: RequestHandler = async (
   req: Request,
@@ -151,7 +277,29 @@ export const bulkUpdatePlanItems: RequestHandler = async (
   }
 };
 
-// POST /api/projects/:projectId/plan/import - Import plan items from CSV
+// POST /api/plan-items/:id/move - Move plan item to a new parent/position
+export const movePlanItem: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const input = req.body as MovePlanItemInput;
+    const item = await planItemsService.movePlanItem(
+      req.params.id,
+      organizationId,
+      input,
+      req.user?.id,
+      req.user?.email
+    );
+    successResponse(res, item);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/plan/import - Import plan items from CSV or XLSX
 export const importPlanItems: RequestHandler = async (
   req: Request,
   res: Response,
@@ -161,6 +309,18 @@ export const importPlanItems: RequestHandler = async (
     const organizationId = req.organizationId!;
     const { projectId } = req.params;
 
+    if (req.file && planXlsxService.isXlsxFile(req.file)) {
+      const result = await planXlsxService.importXlsx(
+        projectId,
+        organizationId,
+        req.file.buffer,
+        req.user?.id,
+        req.user?.email
+      );
+      successResponse(res, result);
+      return;
+    }
+
     // Get CSV content from uploaded file or body
     let csvContent: string;
 
@@ -189,13 +349,19 @@ export const importPlanItems: RequestHandler = async (
   }
 };
 
-// POST /api/projects/:projectId/plan/import/preview - Preview CSV import
+// POST /api/projects/:projectId/plan/import/preview - Preview CSV or XLSX import
 export const previewCsvImport: RequestHandler = async (
   req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
+    if (req.file && planXlsxService.isXlsxFile(req.file)) {
+      const result = await planXlsxService.parseXlsxPreview(req.file.buffer, req.organizationId!);
+      successResponse(res, result);
+      return;
+    }
+
     // Get CSV content from uploaded file or body
     let csvContent: string;
 
@@ -218,6 +384,113 @@ export const previewCsvImport: RequestHandler = async (
   }
 };
 
+// Read MS Project XML from the uploaded file or the request body
+const getXmlContent = (req: Request): string | null => {
+  if (req.file) return req.file.buffer.toString('utf-8');
+  if (typeof req.body.xmlContent === 'string') return req.body.xmlContent;
+  return null;
+};
+
+// POST /api/projects/:projectId/plan/import/mspdi/preview - Preview MS Project XML import
+export const previewMspdiImport: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const xmlContent = getXmlContent(req);
+    if (xmlContent === null) {
+      res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'No XML file or content provided' },
+      });
+      return;
+    }
+
+    const result = await planMspdiService.parseMspdiPreview(xmlContent, req.organizationId!);
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/plan/import/mspdi - Import plan items from MS Project XML
+export const importMspdi: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const xmlContent = getXmlContent(req);
+    if (xmlContent === null) {
+      res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'No XML file or content provided' },
+      });
+      return;
+    }
+
+    const result = await planMspdiService.importMspdi(
+      req.params.projectId,
+      req.organizationId!,
+      xmlContent,
+      req.user?.id,
+      req.user?.email
+    );
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/projects/:projectId/plan/export/mspdi - Download the plan as MS Project XML
+export const exportMspdi: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { fileName, xml } = await planMspdiService.exportMspdi(req.params.projectId, req.organizationId!);
+    res.setHeader('Content-Type', 'application/xml');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.send(xml);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/projects/:projectId/plan/export/xlsx - Download the plan as an Excel workbook
+export const exportXlsx: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { fileName, buffer } = await planXlsxService.exportXlsx(req.params.projectId, req.organizationId!);
+    res.setHeader('Content-Type', planXlsxService.XLSX_MIME_TYPE);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.send(buffer);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/projects/:projectId/plan/export/csv - Download plan in the CSV import format
+export const exportCsv: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { fileName, csv } = await planItemsService.exportPlanCsv(req.params.projectId, req.organizationId!);
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.send(csv);
+  } catch (error) {
+    next(error);
+  }
+};
+
 // GET /api/plan-items/import/template - Get CSV template
 export const getCsvTemplate: RequestHandler = async (
   req: Request,
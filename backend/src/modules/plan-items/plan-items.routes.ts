@@ -1,5 +1,7 @@
 import { Router } from 'express';
 import * as planItemsController from './plan-items.controller.js';
+import * as planEvidenceController from './plan-evidence.controller.js';
+import * as trashController from '../trash/trash.controller.js';
 import { validateBody, validateQuery } from '../../middleware/validation.js';
 import { authenticate } from '../../middleware/auth.js';
 import { requireOrgContext } from '../../middleware/orgContext.js';
@@ -8,6 +10,9 @@ import {
   updatePlanItemSchema,
   listPlanItemsQuerySchema,
   bulkUpdateSchema,
+  movePlanItemSchema,
+  revertOptionsSchema,
+  linkContentItemSchema,
 } from './plan-items.schema.js';
 
 const router = Router();
@@ -81,6 +86,9 @@ router.get(
  *                     endDate:
  *                       type: string
  *                       format: date
+ *                     changeReason:
+ *                       type: string
+ *                       description: Recorded on the history entries for this item
  *     responses:
  *       200:
  *         description: Items updated successfully
@@ -147,6 +155,90 @@ router.get(
   planItemsController.getPlanItemHistory
 );
 
+/**
+ * @swagger
+ * /plan-items/{id}/history/{historyId}/revert:
+ *   post:
+ *     summary: Revert a plan item change
+ *     description: |
+ *       Restore the field changed by one history entry to its previous value. If the field was
+ *       edited again since, the change is reported as a conflict and skipped unless `force` is set.
+ *       The revert is recorded as new history entries sharing a batch ID.
+ *     tags: [Plan Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Plan item UUID
+ *       - in: path
+ *         name: historyId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               preview:
+ *                 type: boolean
+ *                 description: Report what would change without writing anything
+ *               force:
+ *                 type: boolean
+ *                 description: Overwrite edits made after the reverted change
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Changes made (or previewed) and changes skipped
+ *       404:
+ *         description: History entry not found
+ */
+router.post(
+  '/:id/history/:historyId/revert',
+  validateBody(revertOptionsSchema),
+  planItemsController.revertHistoryEntry
+);
+
+/**
+ * @swagger
+ * /plan-items/{id}/transitions:
+ *   get:
+ *     summary: Get allowed status transitions
+ *     description: |
+ *       The item's current status and the statuses it can move to next. For item types with a
+ *       status workflow, each option lists the fields that must be filled in and whether a
+ *       change reason is required. Without a workflow every built-in status is allowed.
+ *     tags: [Plan Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Plan item UUID
+ *     responses:
+ *       200:
+ *         description: Current status and allowed next statuses
+ *       404:
+ *         description: Plan item not found
+ */
+router.get(
+  '/:id/transitions',
+  planItemsController.getPlanItemTransitions
+);
+
 /**
  * @swagger
  * /plan-items/{id}:
@@ -176,9 +268,18 @@ router.get(
  *                 type: string
  *               description:
  *                 type: string
+ *               owner:
+ *                 type: string
+ *                 description: Free-text owner; a changed owner sent without ownerUserId unassigns the member
+ *               ownerUserId:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Organization member to assign, or null to unassign
  *               status:
  *                 type: string
- *                 enum: [not_started, in_progress, completed, blocked]
+ *                 description: |
+ *                   A built-in status (not_started, in_progress, completed, on_hold, blocked, cancelled)
+ *                   or a status key from the item type's workflow. Workflow transitions are enforced.
  *               startDate:
  *                 type: string
  *                 format: date
@@ -190,9 +291,18 @@ router.get(
  *                 description: New parent plan item UUID
  *               sortOrder:
  *                 type: integer
+ *               customFields:
+ *                 type: object
+ *                 additionalProperties: true
+ *                 description: Custom field values to merge, keyed by field key; null clears a field
+ *               changeReason:
+ *                 type: string
+ *                 description: Why the item changed, recorded on each history entry
  *     responses:
  *       200:
  *         description: Plan item updated
+ *       400:
+ *         description: Status transition not allowed by the workflow, or missing required fields
  *       404:
  *         description: Plan item not found
  */
@@ -202,12 +312,72 @@ router.put(
   planItemsController.updatePlanItem
 );
 
+/**
+ * @swagger
+ * /plan-items/{id}/move:
+ *   post:
+ *     summary: Move a plan item
+ *     description: |
+ *       Move a plan item under a new parent (or to the top level) and position it among its new
+ *       siblings. The item's whole subtree has its path and depth rewritten, and sibling sort
+ *       order is renumbered, in one transaction. The new parent must have a lower type level
+ *       than the item and cannot be one of the item's descendants.
+ *     tags: [Plan Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Plan item UUID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - parentId
+ *             properties:
+ *               parentId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: New parent plan item UUID, or null for a top-level item
+ *               beforeId:
+ *                 type: string
+ *                 description: Place the item immediately before this sibling
+ *               afterId:
+ *                 type: string
+ *                 description: Place the item immediately after this sibling
+ *               changeReason:
+ *                 type: string
+ *                 description: Recorded on the history entry for a parent change
+ *     responses:
+ *       200:
+ *         description: Plan item moved
+ *       400:
+ *         description: Invalid parent or position
+ *       404:
+ *         description: Plan item or parent not found
+ */
+router.post(
+  '/:id/move',
+  validateBody(movePlanItemSchema),
+  planItemsController.movePlanItem
+);
+
 /**
  * @swagger
  * /plan-items/{id}:
  *   delete:
  *     summary: Delete a plan item
- *     description: Delete a plan item and optionally its children
+ *     description: |
+ *       Soft delete a plan item and all of its descendants. They move to the project's trash
+ *       together and can be restored until the trash retention period ends.
  *     tags: [Plan Items]
  *     security:
  *       - bearerAuth: []
@@ -231,4 +401,148 @@ router.delete(
   planItemsController.deletePlanItem
 );
 
+/**
+ * @swagger
+ * /plan-items/{id}/evidence:
+ *   get:
+ *     summary: Get plan item evidence
+ *     description: |
+ *       Meeting notes, emails, documents and other content linked to the plan item, most recent
+ *       first, with how each was linked. Also lists the activity reports generated from that
+ *       content. Content in the trash is left out.
+ *     tags: [Plan Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Plan item UUID
+ *     responses:
+ *       200:
+ *         description: Linked content items and reports
+ *       404:
+ *         description: Plan item not found
+ */
+router.get(
+  '/:id/evidence',
+  planEvidenceController.getPlanItemEvidence
+);
+
+/**
+ * @swagger
+ * /plan-items/{id}/evidence:
+ *   post:
+ *     summary: Link content to a plan item
+ *     description: Link a content item in the same project to the plan item. Linking twice is a no-op.
+ *     tags: [Plan Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Plan item UUID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - contentItemId
+ *             properties:
+ *               contentItemId:
+ *                 type: string
+ *                 format: uuid
+ *     responses:
+ *       201:
+ *         description: Link created
+ *       400:
+ *         description: Content item not found in the plan item's project
+ *       404:
+ *         description: Plan item not found
+ */
+router.post(
+  '/:id/evidence',
+  validateBody(linkContentItemSchema),
+  planEvidenceController.linkContentItem
+);
+
+/**
+ * @swagger
+ * /plan-items/{id}/evidence/{contentItemId}:
+ *   delete:
+ *     summary: Unlink content from a plan item
+ *     tags: [Plan Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Plan item UUID
+ *       - in: path
+ *         name: contentItemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Content item UUID
+ *     responses:
+ *       200:
+ *         description: Link removed
+ *       404:
+ *         description: Plan item or link not found
+ */
+router.delete(
+  '/:id/evidence/:contentItemId',
+  planEvidenceController.unlinkContentItem
+);
+
+/**
+ * @swagger
+ * /plan-items/{id}/restore:
+ *   post:
+ *     summary: Restore a deleted plan item
+ *     description: |
+ *       Restore a plan item from the project's trash, together with the descendants that were
+ *       deleted with it. Descendants deleted separately beforehand stay in the trash. The restore
+ *       is written to plan history as one batch.
+ *     tags: [Plan Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Plan item UUID
+ *     responses:
+ *       200:
+ *         description: Number of items restored and the history batch id
+ *       404:
+ *         description: Deleted plan item not found
+ *       409:
+ *         description: The item's parent is also deleted and must be restored first
+ */
+router.post(
+  '/:id/restore',
+  trashController.restorePlanItem
+);
+
 export default router;
@@ -10,6 +10,17 @@ export const planItemStatuses = [
   'cancelled',
 ] as const;
 
+// Organization-defined custom field values keyed by field key. Types, options and required
+// fields are checked against the field definitions by the service.
+export const customFieldValuesSchema = z.record(
+  z.string().regex(/^[a-z][a-z0-9_]*$/),
+  z.union([z.string().max(2000), z.number(), z.null()])
+);
+
+// A built-in status or, for item types with a status workflow, one of the workflow's status keys.
+// The service checks it against the item's type.
+const planItemStatusInput = z.string().min(1).max(50);
+
 // Schema for creating plan items via POST /api/projects/:projectId/plan
 // projectId comes from URL param, not body
 export const createPlanItemSchema = z.object({
@@ -18,43 +29,58 @@ export const createPlanItemSchema = z.object({
   name: z.string().min(1).max(500),
   description: z.string().max(5000).nullable().optional(),
   owner: z.string().max(255).nullable().optional(),
-  status: z.enum(planItemStatuses).default('not_started'),
+  // An organization member to assign; their name replaces owner
+  ownerUserId: z.coerce.number().int().positive().nullable().optional(),
+  // Defaults to not_started, or the workflow's initial status
+  status: planItemStatusInput.optional(),
   startDate: z.coerce.date().nullable().optional(),
   targetEndDate: z.coerce.date().nullable().optional(),
   actualStartDate: z.coerce.date().nullable().optional(),
   actualEndDate: z.coerce.date().nullable().optional(),
+  effort: z.coerce.number().nonnegative().nullable().optional(),
   notes: z.string().nullable().optional(),
+  // Content items to link as evidence
   references: z.array(z.string().uuid()).default([]),
   sortOrder: z.coerce.number().int().default(0),
+  customFields: customFieldValuesSchema.optional(),
 });
 
 export const updatePlanItemSchema = z.object({
   name: z.string().min(1).max(500).optional(),
   description: z.string().max(5000).nullable().optional(),
   owner: z.string().max(255).nullable().optional(),
-  status: z.enum(planItemStatuses).optional(),
+  // Null unassigns the member; a new owner on its own replaces them with free text
+  ownerUserId: z.coerce.number().int().positive().nullable().optional(),
+  status: planItemStatusInput.optional(),
   startDate: z.coerce.date().nullable().optional(),
   targetEndDate: z.coerce.date().nullable().optional(),
   actualStartDate: z.coerce.date().nullable().optional(),
   actualEndDate: z.coerce.date().nullable().optional(),
+  effort: z.coerce.number().nonnegative().nullable().optional(),
   notes: z.string().nullable().optional(),
   references: z.array(z.string().uuid()).optional(),
   sortOrder: z.coerce.number().int().optional(),
   parentId: z.string().uuid().nullable().optional(),
   itemTypeId: z.coerce.number().int().positive().optional(),
+  // Merged over the item's current values; null clears a field
+  customFields: customFieldValuesSchema.optional(),
+  // Recorded on the history entries written for this update
+  changeReason: z.string().max(1000).optional(),
 });
 
 export const listPlanItemsQuerySchema = z.object({
   status: z.enum(planItemStatuses).optional(),
   itemTypeId: z.coerce.number().int().positive().optional(),
   parentId: z.string().uuid().nullable().optional(),
+  // A member's user id, or "me" for the caller
+  assigneeId: z.union([z.literal('me'), z.coerce.number().int().positive()]).optional(),
 });
 
 export const bulkUpdateSchema = z.object({
   updates: z.array(
     z.object({
       id: z.string().uuid(),
-      status: z.enum(planItemStatuses).optional(),
+      status: planItemStatusInput.optional(),
       notes: z.string().nullable().optional(),
       references: z.array(z.string().uuid()).optional(),
       changeReason: z.string().optional(),
@@ -62,7 +88,72 @@ export const bulkUpdateSchema = z.object({
   ),
 });
 
+// Move an item under a new parent, optionally positioned next to one of its new siblings.
+// Without beforeId/afterId the item goes to the end of the sibling list.
+export const movePlanItemSchema = z
+  .object({
+    parentId: z.string().uuid().nullable(),
+    beforeId: z.string().uuid().optional(),
+    afterId: z.string().uuid().optional(),
+    changeReason: z.string().max(1000).optional(),
+  })
+  .refine(data => !(data.beforeId && data.afterId), {
+    message: 'Specify either beforeId or afterId, not both',
+  });
+
+// Options shared by the revert endpoints. A preview reports what would change without writing anything.
+export const revertOptionsSchema = z.object({
+  preview: z.boolean().default(false),
+  // Also overwrite fields that were edited again after the entries being reverted
+  force: z.boolean().default(false),
+  reason: z.string().max(1000).optional(),
+});
+
+// Roll a whole project plan back to its state at a point in time
+export const revertPlanSchema = revertOptionsSchema.extend({
+  at: z.coerce.date(),
+});
+
+export const projectHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  before: z.coerce.date().optional(),
+  batchId: z.string().uuid().optional(),
+});
+
+// Compare the plan at two points in time; `to` defaults to now
+export const planDiffQuerySchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date().optional(),
+});
+
+// Dependency types between plan items
+export const dependencyTypes = [
+  'finish_to_start',
+  'start_to_start',
+  'finish_to_finish',
+] as const;
+
+export const createDependencySchema = z.object({
+  predecessorId: z.string().uuid(),
+  successorId: z.string().uuid(),
+  type: z.enum(dependencyTypes).default('finish_to_start'),
+  lagDays: z.coerce.number().int().min(-365).max(365).default(0),
+});
+
+// Link a content item to a plan item as evidence
+export const linkContentItemSchema = z.object({
+  contentItemId: z.string().uuid(),
+});
+
 export type CreatePlanItemInput = z.infer<typeof createPlanItemSchema>;
 export type UpdatePlanItemInput = z.infer<typeof updatePlanItemSchema>;
 export type ListPlanItemsQuery = z.infer<typeof listPlanItemsQuerySchema>;
 export type BulkUpdateInput = z.infer<typeof bulkUpdateSchema>;
+export type MovePlanItemInput = z.infer<typeof movePlanItemSchema>;
+export type RevertOptions = z.infer<typeof revertOptionsSchema>;
+export type RevertPlanInput = z.infer<typeof revertPlanSchema>;
+export type ProjectHistoryQuery = z.infer<typeof projectHistoryQuerySchema>;
+export type PlanDiffQuery = z.infer<typeof planDiffQuerySchema>;
+export type DependencyType = typeof dependencyTypes[number];
+export type CreateDependencyInput = z.infer<typeof createDependencySchema>;
+export type LinkContentItemInput = z.infer<typeof linkContentItemSchema>;
@@ -1,12 +1,33 @@
+import { randomUUID } from 'crypto';
 import prisma from '../../config/database.js';
 import { AppError } from '../../middleware/errorHandler.js';
 import { ErrorCodes } from '../../utils/responses.js';
 import { parse } from 'csv-parse/sync';
+import { Prisma, type CustomField, type PlanItem } from '@prisma/client';
+import { getProjectRollup, propagateStatusUpward } from './plan-rollup.service.js';
+import { planItemStatuses } from './plan-items.schema.js';
+import {
+  fieldsForItemType,
+  findCustomFieldForColumn,
+  getCustomFields,
+  getMemberEmails,
+  resolveCustomFieldValues,
+  storedCustomFieldValues,
+  validateCustomFieldValues,
+} from './plan-custom-fields.service.js';
+import {
+  getStatusOptions,
+  resolveInitialStatus,
+  resolveStatusChange,
+  type ResolvedStatusChange,
+} from './plan-workflows.service.js';
+import { assertContentItemsInProject } from './plan-evidence.service.js';
 import type {
   CreatePlanItemInput,
   UpdatePlanItemInput,
   ListPlanItemsQuery,
   BulkUpdateInput,
+  MovePlanItemInput,
 } from './plan-items.schema.js';
 
 // CSV column mapping for hierarchy levels
@@ -19,8 +40,8 @@ const HIERARCHY_LEVELS: Record<typeof HIERARCHY_COLUMNS[number], number> = {
   subtask: 5,
 };
 
-// CSV row interface
-interface CsvRow {
+// CSV row interface (XLSX imports are normalized to the same shape)
+export interface CsvRow {
   workstream?: string;
   milestone?: string;
   activity?: string;
@@ -31,6 +52,8 @@ interface CsvRow {
   start_date?: string;
   target_end_date?: string;
   notes?: string;
+  // Any other column is matched to the organization's custom fields by key or label
+  [column: string]: string | undefined;
 }
 
 // Import result interface
@@ -38,9 +61,33 @@ export interface ImportResult {
   totalRows: number;
   itemsCreated: number;
   itemsUpdated: number;
-  errors: Array<{ row: number; error: string }>;
+  errors: Array<{ row: number; sheet?: string; error: string }>;
 }
 
+// A parsed import row and where it came from, for error reporting
+export interface ImportRowInput {
+  row: CsvRow;
+  rowNumber: number;
+  sheet?: string;
+}
+
+// Custom field definitions looked up once per import
+interface ImportCustomFields {
+  fields: CustomField[];
+  memberEmails: Set<string>;
+}
+
+const STANDARD_COLUMNS: readonly string[] = [
+  ...HIERARCHY_COLUMNS,
+  'status',
+  'owner',
+  'start_date',
+  'target_end_date',
+  'notes',
+];
+
+const IMPORT_CHANGE_REASON = 'Imported from plan file';
+
 // Helper to build tree structure from flat list
 const buildTree = (items: any[], parentId: string | null = null): any[] => {
   return items
@@ -52,6 +99,23 @@ const buildTree = (items: any[], parentId: string | null = null): any[] => {
     .sort((a, b) => a.sortOrder - b.sortOrder);
 };
 
+const ownerUserSelect = { id: true, firstName: true, lastName: true, email: true };
+
+// Assignees must be active members of the item's organization. Their name is written to owner
+// so exports, reports and the board read the same for members and external owners.
+const getAssigneeOrThrow = async (organizationId: number, userId: number) => {
+  const membership = await prisma.organizationUser.findFirst({
+    where: { organizationId, userId, isActive: true, user: { isActive: true } },
+    select: { user: { select: ownerUserSelect } },
+  });
+
+  if (!membership) {
+    throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Assignee must be an active member of the organization', 400);
+  }
+
+  return { ownerUserId: membership.user.id, owner: `${membership.user.firstName} ${membership.user.lastName}` };
+};
+
 // Calculate path and depth based on parent
 const calculatePathAndDepth = async (parentId: string | null): Promise<{ path: string; depth: number }> => {
   if (!parentId) {
@@ -73,8 +137,70 @@ const calculatePathAndDepth = async (parentId: string | null): Promise<{ path: s
   };
 };
 
+// Check that an item may be placed under a new parent: the parent must be in the same project,
+// must not be the item or one of its descendants, and must sit at a shallower type level
+const assertValidParent = async (
+  item: { id: string; projectId: string },
+  itemType: { level: number; name: string },
+  parentId: string
+) => {
+  const parent = await prisma.planItem.findFirst({
+    where: { id: parentId, projectId: item.projectId, isActive: true },
+    include: { itemType: { select: { level: true, name: true } } },
+  });
+
+  if (!parent) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'New parent plan item not found', 404);
+  }
+
+  if (parent.id === item.id || parent.path.split('/').includes(item.id)) {
+    throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Cannot move item to its own descendant', 400);
+  }
+
+  if (parent.itemType.level >= itemType.level) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      `A ${itemType.name.toLowerCase()} cannot be placed under a ${parent.itemType.name.toLowerCase()}`,
+      400
+    );
+  }
+
+  return parent;
+};
+
+// Build the updates that re-root an item's descendants once the item moves to newPath/newDepth.
+// Soft-deleted descendants are included so they stay consistent if restored.
+const subtreePathUpdates = async (
+  item: { id: string; projectId: string; path: string; depth: number },
+  newPath: string,
+  newDepth: number
+) => {
+  const oldPrefix = `${item.path}/${item.id}`;
+  const newPrefix = `${newPath}/${item.id}`;
+
+  const descendants = await prisma.planItem.findMany({
+    where: { projectId: item.projectId, path: { startsWith: oldPrefix } },
+    select: { id: true, path: true, depth: true },
+  });
+
+  return descendants.map(descendant =>
+    prisma.planItem.update({
+      where: { id: descendant.id },
+      data: {
+        path: newPrefix + descendant.path.slice(oldPrefix.length),
+        depth: descendant.depth + (newDepth - item.depth),
+      },
+    })
+  );
+};
+
 // Get full plan tree for a project
-export const getProjectPlan = async (projectId: string, organizationId: number, query: ListPlanItemsQuery) => {
+export const getProjectPlan = async (
+  projectId: string,
+  organizationId: number,
+  query: ListPlanItemsQuery,
+  userId?: number
+) => {
   // Verify project belongs to organization
   const project = await prisma.project.findFirst({
     where: { id: projectId, organizationId, isActive: true },
@@ -97,18 +223,41 @@ export const getProjectPlan = async (projectId: string, organizationId: number,
     where.itemTypeId = query.itemTypeId;
   }
 
+  if (query.assigneeId === 'me') {
+    // Without a signed-in user, 'me' would drop the filter and return the whole plan
+    if (!userId) {
+      throw new AppError(ErrorCodes.UNAUTHORIZED, "Sign in to filter by assignee 'me'", 401);
+    }
+    where.ownerUserId = userId;
+  } else if (query.assigneeId) {
+    where.ownerUserId = query.assigneeId;
+  }
+
   const items = await prisma.planItem.findMany({
     where,
     include: {
       itemType: {
         select: { id: true, name: true, slug: true, level: true, icon: true, color: true },
       },
+      ownerUser: { select: ownerUserSelect },
     },
     orderBy: [{ depth: 'asc' }, { sortOrder: 'asc' }],
   });
 
-  // Build tree structure
-  const tree = buildTree(items);
+  // Roll-up is computed over the whole plan so filtered views still show true progress
+  const rollup = await getProjectRollup(projectId);
+  const withRollup = items.map(item => ({
+    ...item,
+    progress: rollup.get(item.id)?.progress ?? 0,
+    derivedStatus: rollup.get(item.id)?.derivedStatus ?? item.status,
+  }));
+
+  // Build tree structure. Items whose parent was filtered out are shown at the top level.
+  const ids = new Set(items.map(item => item.id));
+  const tree = withRollup
+    .filter(item => item.parentId === null || !ids.has(item.parentId))
+    .map(item => ({ ...item, children: buildTree(withRollup, item.id) }))
+    .sort((a, b) => a.sortOrder - b.sortOrder);
 
   return { items: tree, total: items.length };
 };
@@ -122,6 +271,7 @@ export const getPlanItemById = async (id: string, organizationId: number) => {
       itemType: {
         select: { id: true, name: true, slug: true, level: true, icon: true, color: true },
       },
+      ownerUser: { select: ownerUserSelect },
       children: {
         where: { isActive: true },
         include: {
@@ -184,6 +334,14 @@ export const createPlanItem = async (
     throw new AppError(ErrorCodes.NOT_FOUND, 'Plan item type not found', 404);
   }
 
+  // Required custom fields are enforced even when none are sent
+  const customFields = await resolveCustomFieldValues(organizationId, itemType.id, input.customFields ?? {});
+  const { status, workflowStatus } = await resolveInitialStatus(organizationId, itemType.id, input.status);
+  await assertContentItemsInProject(projectId, input.references);
+  const owner = input.ownerUserId
+    ? await getAssigneeOrThrow(organizationId, input.ownerUserId)
+    : { ownerUserId: null, owner: input.owner };
+
   // Calculate path and depth
   const { path, depth } = await calculatePathAndDepth(input.parentId || null);
 
@@ -194,15 +352,25 @@ export const createPlanItem = async (
       itemTypeId: input.itemTypeId,
       name: input.name,
       description: input.description,
-      owner: input.owner,
-      status: input.status || 'not_started',
+      owner: owner.owner,
+      ownerUserId: owner.ownerUserId,
+      status,
+      workflowStatus,
       startDate: input.startDate,
       targetEndDate: input.targetEndDate,
       actualStartDate: input.actualStartDate,
       actualEndDate: input.actualEndDate,
+      effort: input.effort,
       notes: input.notes,
-      references: input.references || [],
+      contentLinks: {
+        create: Array.from(new Set(input.references)).map(contentItemId => ({
+          projectId,
+          contentItemId,
+          createdByUserId: userId,
+        })),
+      },
       sortOrder: input.sortOrder || 0,
+      customFields,
       path,
       depth,
     },
@@ -210,6 +378,7 @@ export const createPlanItem = async (
       itemType: {
         select: { id: true, name: true, slug: true, level: true, icon: true, color: true },
       },
+      ownerUser: { select: ownerUserSelect },
     },
   });
 
@@ -228,6 +397,7 @@ export const updatePlanItem = async (
     where: { id, isActive: true },
     include: {
       project: { select: { organizationId: true } },
+      itemType: { select: { level: true, name: true } },
     },
   });
 
@@ -239,14 +409,44 @@ export const updatePlanItem = async (
     throw new AppError(ErrorCodes.FORBIDDEN, 'Access denied', 403);
   }
 
+  // Assigning a member writes their name to owner; unassigning clears owner unless a new one is
+  // given, and a changed owner on its own is free text that replaces the member
+  let ownerChange: { ownerUserId: number | null; owner: string | null | undefined } | undefined;
+  if (input.ownerUserId) {
+    ownerChange = await getAssigneeOrThrow(organizationId, input.ownerUserId);
+  } else if (input.ownerUserId === null) {
+    ownerChange = { ownerUserId: null, owner: input.owner !== undefined ? input.owner : null };
+  } else if (input.owner !== undefined && input.owner !== item.owner) {
+    ownerChange = { ownerUserId: null, owner: input.owner };
+  }
+
+  // Resolve the requested status against the type's workflow, which may also require fields
+  // to be filled in or a reason to be given
+  const nextItemTypeId = input.itemTypeId ?? item.itemTypeId;
+  const resolvedStatus = input.status !== undefined
+    ? await resolveStatusChange(
+      organizationId,
+      { itemTypeId: nextItemTypeId, status: item.status, workflowStatus: item.workflowStatus },
+      input.status,
+      { ...item, ...Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined)), ...ownerChange },
+      input.changeReason
+    )
+    : undefined;
+
+  const fieldValues: UpdatePlanItemInput = {
+    ...input,
+    ...(resolvedStatus && { status: resolvedStatus.status }),
+    ...ownerChange,
+  };
+
   // Track changes for history
   const changes: { field: string; oldValue: string | null; newValue: string | null }[] = [];
-  const trackableFields = ['name', 'description', 'owner', 'status', 'startDate', 'targetEndDate', 'actualStartDate', 'actualEndDate', 'notes'];
+  const trackableFields = ['name', 'description', 'owner', 'ownerUserId', 'status', 'startDate', 'targetEndDate', 'actualStartDate', 'actualEndDate', 'effort', 'notes'];
 
   for (const field of trackableFields) {
-    if (input[field as keyof UpdatePlanItemInput] !== undefined) {
+    if (fieldValues[field as keyof UpdatePlanItemInput] !== undefined) {
       const oldVal = item[field as keyof typeof item];
-      const newVal = input[field as keyof UpdatePlanItemInput];
+      const newVal = fieldValues[field as keyof UpdatePlanItemInput];
       if (String(oldVal) !== String(newVal)) {
         changes.push({
           field,
@@ -258,40 +458,91 @@ export const updatePlanItem = async (
   }
 
   // Build update data
-  const updateData: any = {};
+  const updateData: Prisma.PlanItemUncheckedUpdateInput = {};
   if (input.name !== undefined) updateData.name = input.name;
   if (input.description !== undefined) updateData.description = input.description;
-  if (input.owner !== undefined) updateData.owner = input.owner;
-  if (input.status !== undefined) updateData.status = input.status;
+  if (ownerChange) {
+    updateData.owner = ownerChange.owner;
+    updateData.ownerUserId = ownerChange.ownerUserId;
+  }
+  if (resolvedStatus) {
+    updateData.status = resolvedStatus.status;
+    updateData.workflowStatus = resolvedStatus.workflowStatus;
+    if (resolvedStatus.workflowStatus !== resolvedStatus.previousWorkflowStatus) {
+      changes.push({
+        field: 'workflowStatus',
+        oldValue: resolvedStatus.previousWorkflowStatus,
+        newValue: resolvedStatus.workflowStatus,
+      });
+    }
+  } else if (nextItemTypeId !== item.itemTypeId) {
+    // The old key means nothing in the new type's workflow
+    updateData.workflowStatus = null;
+  }
   if (input.startDate !== undefined) updateData.startDate = input.startDate;
   if (input.targetEndDate !== undefined) updateData.targetEndDate = input.targetEndDate;
   if (input.actualStartDate !== undefined) updateData.actualStartDate = input.actualStartDate;
   if (input.actualEndDate !== undefined) updateData.actualEndDate = input.actualEndDate;
+  if (input.effort !== undefined) updateData.effort = input.effort;
   if (input.notes !== undefined) updateData.notes = input.notes;
-  if (input.references !== undefined) updateData.references = input.references;
   if (input.sortOrder !== undefined) updateData.sortOrder = input.sortOrder;
   if (input.itemTypeId !== undefined) updateData.itemTypeId = input.itemTypeId;
 
-  // Handle parent change (needs path/depth recalculation)
+  // References replace the content linked as evidence; links to content in the trash are kept.
+  // A nested deleteMany can't filter on the content item, so the unlink runs on its own below.
+  if (input.references !== undefined) {
+    await assertContentItemsInProject(item.projectId, input.references);
+    updateData.contentLinks = {
+      createMany: {
+        data: Array.from(new Set(input.references)).map(contentItemId => ({
+          projectId: item.projectId,
+          contentItemId,
+          createdByUserId: userId,
+        })),
+        skipDuplicates: true,
+      },
+    };
+  }
+
+  // Custom fields are only validated when sent, so items that predate a required field stay editable
+  if (input.customFields !== undefined) {
+    const current = storedCustomFieldValues(item.customFields);
+    const merged = await resolveCustomFieldValues(
+      organizationId,
+      input.itemTypeId ?? item.itemTypeId,
+      input.customFields,
+      current
+    );
+    for (const key of new Set([...Object.keys(current), ...Object.keys(merged)])) {
+      if (current[key] !== merged[key]) {
+        changes.push({
+          field: `customFields.${key}`,
+          oldValue: current[key] !== undefined ? String(current[key]) : null,
+          newValue: merged[key] !== undefined ? String(merged[key]) : null,
+        });
+      }
+    }
+    updateData.customFields = merged;
+  }
+
+  // Handle parent change (needs path/depth recalculation for the whole subtree)
+  let descendantUpdates: Awaited<ReturnType<typeof subtreePathUpdates>> = [];
   if (input.parentId !== undefined && input.parentId !== item.parentId) {
-    // Verify new parent exists if not null
     if (input.parentId !== null) {
-      const newParent = await prisma.planItem.findFirst({
-        where: { id: input.parentId, projectId: item.projectId, isActive: true },
-      });
-      if (!newParent) {
-        throw new AppError(ErrorCodes.NOT_FOUND, 'New parent plan item not found', 404);
-      }
-      // Prevent circular reference
-      if (newParent.path.includes(id)) {
-        throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Cannot move item to its own descendant', 400);
+      const itemType = input.itemTypeId !== undefined
+        ? await prisma.planItemType.findUnique({ where: { id: input.itemTypeId }, select: { level: true, name: true } })
+        : item.itemType;
+      if (!itemType) {
+        throw new AppError(ErrorCodes.NOT_FOUND, 'Plan item type not found', 404);
       }
+      await assertValidParent(item, itemType, input.parentId);
     }
 
     const { path, depth } = await calculatePathAndDepth(input.parentId);
     updateData.parentId = input.parentId;
     updateData.path = path;
     updateData.depth = depth;
+    descendantUpdates = await subtreePathUpdates(item, path, depth);
 
     changes.push({
       field: 'parentId',
@@ -300,6 +551,12 @@ export const updatePlanItem = async (
     });
   }
 
+  const unlinkReferences = input.references !== undefined
+    ? [prisma.planItemContentLink.deleteMany({
+      where: { planItemId: id, contentItemId: { notIn: input.references }, contentItem: { isActive: true } },
+    })]
+    : [];
+
   // Update item and create history records in transaction
   const [updated] = await prisma.$transaction([
     prisma.planItem.update({
@@ -309,8 +566,11 @@ export const updatePlanItem = async (
         itemType: {
           select: { id: true, name: true, slug: true, level: true, icon: true, color: true },
         },
+        ownerUser: { select: ownerUserSelect },
       },
     }),
+    ...unlinkReferences,
+    ...descendantUpdates,
     ...changes.map(change =>
       prisma.planItemHistory.create({
         data: {
@@ -320,16 +580,143 @@ export const updatePlanItem = async (
           newValue: change.newValue,
           changedByUserId: userId,
           changedByEmail: userEmail,
+          changeReason: input.changeReason,
         },
       })
     ),
   ]);
 
+  if (changes.some(change => change.field === 'status')) {
+    await propagateStatusUpward(item.projectId, [id], userId, userEmail);
+  }
+
+  return updated;
+};
+
+// Current status and the statuses the item can move to next, following its type's workflow
+export const getPlanItemTransitions = async (id: string, organizationId: number) => {
+  const item = await getPlanItemById(id, organizationId);
+  return getStatusOptions(organizationId, item);
+};
+
+// Move a plan item to a new parent and position among its new siblings. The item's subtree is
+// re-rooted and the destination siblings renumbered in a single transaction.
+export const movePlanItem = async (
+  id: string,
+  organizationId: number,
+  input: MovePlanItemInput,
+  userId?: number,
+  userEmail?: string
+) => {
+  const item = await prisma.planItem.findFirst({
+    where: { id, isActive: true },
+    include: {
+      project: { select: { organizationId: true } },
+      itemType: { select: { level: true, name: true } },
+    },
+  });
+
+  if (!item) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Plan item not found', 404);
+  }
+
+  if (item.project.organizationId !== organizationId) {
+    throw new AppError(ErrorCodes.FORBIDDEN, 'Access denied', 403);
+  }
+
+  if (input.parentId) {
+    await assertValidParent(item, item.itemType, input.parentId);
+  }
+
+  const parentChanged = input.parentId !== item.parentId;
+  const { path, depth } = parentChanged
+    ? await calculatePathAndDepth(input.parentId)
+    : { path: item.path, depth: item.depth };
+
+  // Work out the new sibling order with the item slotted in
+  const siblings = await prisma.planItem.findMany({
+    where: { projectId: item.projectId, parentId: input.parentId, isActive: true, id: { not: id } },
+    select: { id: true, sortOrder: true },
+    orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  let position = siblings.length;
+  const anchorId = input.beforeId ?? input.afterId;
+  if (anchorId) {
+    const anchorIndex = siblings.findIndex(sibling => sibling.id === anchorId);
+    if (anchorIndex === -1) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Position must reference a sibling under the new parent', 400);
+    }
+    position = input.beforeId ? anchorIndex : anchorIndex + 1;
+  }
+
+  const ordered = siblings.map(sibling => sibling.id);
+  ordered.splice(position, 0, id);
+  const currentOrder = new Map(siblings.map(sibling => [sibling.id, sibling.sortOrder]));
+  const siblingUpdates = ordered
+    .map((siblingId, sortOrder) => ({ siblingId, sortOrder }))
+    .filter(({ siblingId, sortOrder }) => siblingId !== id && currentOrder.get(siblingId) !== sortOrder)
+    .map(({ siblingId, sortOrder }) =>
+      prisma.planItem.update({ where: { id: siblingId }, data: { sortOrder } })
+    );
+
+  const descendantUpdates = parentChanged ? await subtreePathUpdates(item, path, depth) : [];
+
+  const [updated] = await prisma.$transaction([
+    prisma.planItem.update({
+      where: { id },
+      data: { parentId: input.parentId, path, depth, sortOrder: position },
+      include: {
+        itemType: {
+          select: { id: true, name: true, slug: true, level: true, icon: true, color: true },
+        },
+      },
+    }),
+    ...descendantUpdates,
+    ...siblingUpdates,
+    ...(parentChanged
+      ? [
+          prisma.planItemHistory.create({
+            data: {
+              planItemId: id,
+              field: 'parentId',
+              oldValue: item.parentId,
+              newValue: input.parentId,
+              changedByUserId: userId,
+              changedByEmail: userEmail,
+              changeReason: input.changeReason,
+            },
+          }),
+        ]
+      : []),
+  ]);
+
+  if (parentChanged) {
+    // Re-derive statuses above both the new position and the siblings the item left behind
+    const formerSibling = item.parentId
+      ? await prisma.planItem.findFirst({
+          where: { parentId: item.parentId, isActive: true },
+          select: { id: true },
+        })
+      : null;
+    await propagateStatusUpward(
+      item.projectId,
+      formerSibling ? [id, formerSibling.id] : [id],
+      userId,
+      userEmail
+    );
+  }
+
   return updated;
 };
 
 // Delete a plan item (soft delete with cascade)
-export const deletePlanItem = async (id: string, organizationId: number) => {
+export const deletePlanItem = async (
+  id: string,
+  organizationId: number,
+  userId?: number,
+  userEmail?: string
+) => {
   const item = await prisma.planItem.findFirst({
     where: { id, isActive: true },
     include: {
@@ -345,16 +732,39 @@ export const deletePlanItem = async (id: string, organizationId: number) => {
     throw new AppError(ErrorCodes.FORBIDDEN, 'Access denied', 403);
   }
 
-  // Soft delete this item and all descendants
-  await prisma.planItem.updateMany({
+  // Soft delete this item and all descendants, recording each one so the delete can be reverted.
+  // They share one deletedAt so the trash can restore the subtree together, and one history batch
+  // so a revert does too.
+  const deleted = await prisma.planItem.findMany({
     where: {
+      isActive: true,
       OR: [
         { id },
         { path: { startsWith: item.path ? `${item.path}/${id}` : `/${id}` } },
       ],
     },
-    data: { isActive: false },
+    select: { id: true },
   });
+  const deletedIds = deleted.map(d => d.id);
+  const batchId = randomUUID();
+
+  await prisma.$transaction([
+    prisma.planItem.updateMany({
+      where: { id: { in: deletedIds } },
+      data: { isActive: false, deletedAt: new Date(), deletedByUserId: userId, deletedByEmail: userEmail },
+    }),
+    prisma.planItemHistory.createMany({
+      data: deletedIds.map(planItemId => ({
+        planItemId,
+        field: 'isActive',
+        oldValue: 'true',
+        newValue: 'false',
+        changedByUserId: userId,
+        changedByEmail: userEmail,
+        batchId,
+      })),
+    }),
+  ]);
 
   return { message: 'Plan item and children deleted successfully' };
 };
@@ -418,6 +828,7 @@ export const bulkUpdatePlanItems = async (
           status: update.status,
           notes: update.notes,
           references: update.references,
+          changeReason: update.changeReason,
         },
         userId,
         userEmail
@@ -496,6 +907,23 @@ export const importPlanItems = async (
     };
   }
 
+  return importPlanRows(
+    projectId,
+    organizationId,
+    rows.map((row, rowIndex) => ({ row, rowNumber: rowIndex + 2 })), // +2 for 1-indexed + header row
+    userId,
+    userEmail
+  );
+};
+
+// Import already-parsed rows (from CSV or XLSX) into a project the caller has verified
+export const importPlanRows = async (
+  projectId: string,
+  organizationId: number,
+  rows: ImportRowInput[],
+  userId?: number,
+  userEmail?: string
+): Promise<ImportResult> => {
   // Get plan item types for mapping
   const itemTypes = await prisma.planItemType.findMany({
     where: {
@@ -511,24 +939,35 @@ export const importPlanItems = async (
     levelToTypeId[type.level] = type.id;
   }
 
+  const fields = await getCustomFields(organizationId);
+  const customFields: ImportCustomFields = {
+    fields,
+    memberEmails: fields.some(field => field.fieldType === 'user')
+      ? await getMemberEmails(organizationId)
+      : new Set(),
+  };
+
   const result: ImportResult = {
     totalRows: rows.length,
     itemsCreated: 0,
     itemsUpdated: 0,
     errors: [],
   };
+  const statusChangedIds: string[] = [];
 
   // Process each row
-  for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
-    const row = rows[rowIndex];
-    const rowNumber = rowIndex + 2; // +2 for 1-indexed + header row
+  for (const { row, rowNumber, sheet } of rows) {
+    const errorCount = result.errors.length;
 
     try {
       await processImportRow(
         projectId,
+        organizationId,
         row,
         levelToTypeId,
+        customFields,
         result,
+        statusChangedIds,
         rowNumber,
         userId,
         userEmail
@@ -539,6 +978,14 @@ export const importPlanItems = async (
         error: error instanceof Error ? error.message : 'Unknown error',
       });
     }
+
+    if (sheet) {
+      result.errors.slice(errorCount).forEach(error => (error.sheet = sheet));
+    }
+  }
+
+  if (statusChangedIds.length > 0) {
+    await propagateStatusUpward(projectId, statusChangedIds, userId, userEmail);
   }
 
   return result;
@@ -547,15 +994,19 @@ export const importPlanItems = async (
 // Process a single CSV row - find or create items at each hierarchy level
 async function processImportRow(
   projectId: string,
+  organizationId: number,
   row: CsvRow,
   levelToTypeId: Record<number, number>,
+  customFields: ImportCustomFields,
   result: ImportResult,
+  statusChangedIds: string[],
   rowNumber: number,
   userId?: number,
   userEmail?: string
 ) {
   let parentId: string | null = null;
   let deepestItemId: string | null = null;
+  let deepestTypeId = 0;
   let deepestLevel = 0;
 
   // Process each hierarchy level in order
@@ -589,20 +1040,17 @@ async function processImportRow(
 
     parentId = item.id;
     deepestItemId = item.id;
+    deepestTypeId = typeId;
     deepestLevel = level;
   }
 
+  const customFieldInput = readCustomFieldColumns(row, customFields.fields);
+
   // Apply metadata to the deepest item
-  if (deepestItemId && hasMetadata(row)) {
+  if (deepestItemId && (hasMetadata(row) || Object.keys(customFieldInput).length > 0)) {
+    const existing = await prisma.planItem.findUniqueOrThrow({ where: { id: deepestItemId } });
     const updateData: UpdatePlanItemInput = {};
 
-    if (row.status) {
-      const normalizedStatus = normalizeStatus(row.status);
-      if (normalizedStatus) {
-        updateData.status = normalizedStatus;
-      }
-    }
-
     if (row.owner) {
       updateData.owner = row.owner.trim();
     }
@@ -621,17 +1069,119 @@ async function processImportRow(
       updateData.notes = row.notes.trim();
     }
 
+    if (Object.keys(customFieldInput).length > 0) {
+      const applicable = fieldsForItemType(customFields.fields, deepestTypeId);
+      const input: Record<string, string> = {};
+      for (const [key, value] of Object.entries(customFieldInput)) {
+        if (applicable.some(field => field.key === key)) {
+          input[key] = value;
+        } else {
+          const field = customFields.fields.find(f => f.key === key)!;
+          result.errors.push({ row: rowNumber, error: `${field.label} does not apply to this item type` });
+        }
+      }
+
+      // Required fields are not enforced on import, since rows often only fill in part of the plan
+      const { values, errors } = validateCustomFieldValues(
+        applicable,
+        customFields.memberEmails,
+        input,
+        storedCustomFieldValues(existing.customFields),
+        false
+      );
+      errors.forEach(error => result.errors.push({ row: rowNumber, error }));
+      updateData.customFields = values;
+    }
+
+    // The status moves through the item type's workflow like any other change. A move the
+    // workflow doesn't allow is reported and the rest of the row still applies.
+    const normalizedStatus = row.status ? normalizeStatus(row.status) : null;
+    let resolvedStatus: ResolvedStatusChange | undefined;
+    if (normalizedStatus && normalizedStatus !== existing.status) {
+      try {
+        resolvedStatus = await resolveStatusChange(
+          organizationId,
+          existing,
+          normalizedStatus,
+          { ...existing, ...updateData },
+          IMPORT_CHANGE_REASON
+        );
+        updateData.status = resolvedStatus.status;
+      } catch (error) {
+        if (!(error instanceof AppError)) throw error;
+        result.errors.push({ row: rowNumber, error: error.message });
+      }
+    }
+
     // Only update if there's something to update
     if (Object.keys(updateData).length > 0) {
-      await prisma.planItem.update({
-        where: { id: deepestItemId },
-        data: updateData,
-      });
+      const changes = importChanges(existing, updateData);
+      if (resolvedStatus && resolvedStatus.workflowStatus !== resolvedStatus.previousWorkflowStatus) {
+        changes.push({
+          field: 'workflowStatus',
+          oldValue: resolvedStatus.previousWorkflowStatus,
+          newValue: resolvedStatus.workflowStatus,
+        });
+      }
+
+      await prisma.$transaction([
+        prisma.planItem.update({
+          where: { id: deepestItemId },
+          data: { ...updateData, ...(resolvedStatus && { workflowStatus: resolvedStatus.workflowStatus }) },
+        }),
+        ...changes.map(change =>
+          prisma.planItemHistory.create({
+            data: {
+              planItemId: deepestItemId!,
+              field: change.field,
+              oldValue: change.oldValue,
+              newValue: change.newValue,
+              changedByUserId: userId,
+              changedByEmail: userEmail,
+              changeReason: IMPORT_CHANGE_REASON,
+            },
+          })
+        ),
+      ]);
       result.itemsUpdated++;
+      if (resolvedStatus) statusChangedIds.push(deepestItemId);
     }
   }
 }
 
+// History entries for the fields an imported row changes, recorded the way manual edits are
+function importChanges(item: PlanItem, updateData: UpdatePlanItemInput) {
+  const changes: { field: string; oldValue: string | null; newValue: string | null }[] = [];
+
+  for (const field of ['owner', 'status', 'startDate', 'targetEndDate', 'notes'] as const) {
+    const newVal = updateData[field];
+    const oldVal = item[field];
+    if (newVal !== undefined && String(oldVal) !== String(newVal)) {
+      changes.push({
+        field,
+        oldValue: oldVal !== null ? String(oldVal) : null,
+        newValue: newVal !== null ? String(newVal) : null,
+      });
+    }
+  }
+
+  if (updateData.customFields) {
+    const current = storedCustomFieldValues(item.customFields);
+    const merged = updateData.customFields;
+    for (const key of new Set([...Object.keys(current), ...Object.keys(merged)])) {
+      if (current[key] !== merged[key]) {
+        changes.push({
+          field: `customFields.${key}`,
+          oldValue: current[key] !== undefined ? String(current[key]) : null,
+          newValue: merged[key] !== undefined ? String(merged[key]) : null,
+        });
+      }
+    }
+  }
+
+  return changes;
+}
+
 // Find or create a plan item by name and parent
 async function findOrCreatePlanItem(
   projectId: string,
@@ -695,18 +1245,33 @@ async function findOrCreatePlanItem(
   return { item: newItem, created: true };
 }
 
+// Values from non-standard columns that name a custom field. Blank cells leave the field unchanged,
+// and dates are normalized to YYYY-MM-DD the same way as the standard date columns.
+function readCustomFieldColumns(row: CsvRow, fields: CustomField[]): Record<string, string> {
+  const input: Record<string, string> = {};
+  for (const [column, raw] of Object.entries(row)) {
+    const value = raw?.trim();
+    if (!value || STANDARD_COLUMNS.includes(column)) continue;
+
+    const field = findCustomFieldForColumn(column, fields);
+    if (!field) continue;
+
+    input[field.key] = field.fieldType === 'date' ? parseDate(value)?.slice(0, 10) ?? value : value;
+  }
+  return input;
+}
+
 // Check if row has any metadata fields
 function hasMetadata(row: CsvRow): boolean {
   return !!(row.status || row.owner || row.start_date || row.target_end_date || row.notes);
 }
 
 // Normalize status string to valid status value
-function normalizeStatus(status: string): 'not_started' | 'in_progress' | 'completed' | 'on_hold' | 'cancelled' | null {
-  const normalized = status.toLowerCase().replace(/[\s-]/g, '_');
-  const validStatuses = ['not_started', 'in_progress', 'completed', 'on_hold', 'cancelled'];
+export function normalizeStatus(status: string): typeof planItemStatuses[number] | null {
+  const normalized = status.trim().toLowerCase().replace(/[\s-]/g, '_');
 
-  if (validStatuses.includes(normalized)) {
-    return normalized as any;
+  if ((planItemStatuses as readonly string[]).includes(normalized)) {
+    return normalized as typeof planItemStatuses[number];
   }
 
   // Common aliases
@@ -717,7 +1282,6 @@ function normalizeStatus(status: string): 'not_started' | 'in_progress' | 'compl
     'active': 'in_progress',
     'pending': 'not_started',
     'todo': 'not_started',
-    'blocked': 'on_hold',
     'hold': 'on_hold',
     'cancel': 'cancelled',
     'canceled': 'cancelled',
@@ -727,7 +1291,7 @@ function normalizeStatus(status: string): 'not_started' | 'in_progress' | 'compl
 }
 
 // Parse date string to ISO format
-function parseDate(dateStr: string): string | null {
+export function parseDate(dateStr: string): string | null {
   const trimmed = dateStr.trim();
   if (!trimmed) return null;
 
@@ -777,3 +1341,71 @@ export const getCsvTemplate = (): string => {
 
   return [headers.join(','), ...sampleRows.map(row => row.join(','))].join('\n');
 };
+
+const csvCell = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Export the plan in the import CSV format, one row per item with its ancestors repeated in the
+// hierarchy columns, followed by a column per custom field. Re-importing the file updates in place.
+export const exportPlanCsv = async (projectId: string, organizationId: number) => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, organizationId, isActive: true },
+  });
+
+  if (!project) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Project not found', 404);
+  }
+
+  const [items, fields] = await Promise.all([
+    prisma.planItem.findMany({
+      where: { projectId, isActive: true },
+      include: { itemType: { select: { level: true } } },
+      orderBy: { sortOrder: 'asc' },
+    }),
+    getCustomFields(organizationId),
+  ]);
+
+  const childrenOf = new Map<string | null, typeof items>();
+  for (const item of items) {
+    const list = childrenOf.get(item.parentId) || [];
+    list.push(item);
+    childrenOf.set(item.parentId, list);
+  }
+
+  const toDate = (date: Date | null) => (date ? date.toISOString().slice(0, 10) : null);
+  const lines = [[...STANDARD_COLUMNS, ...fields.map(field => field.key)].map(csvCell).join(',')];
+
+  // ancestors[i] is the name of the ancestor at level i + 1, or null where the tree skips a level
+  const walk = (parentId: string | null, ancestors: Array<string | null>) => {
+    for (const item of childrenOf.get(parentId) || []) {
+      const level = Math.min(Math.max(item.itemType.level, 1), HIERARCHY_COLUMNS.length);
+      const hierarchy: Array<string | null> = HIERARCHY_COLUMNS.map(() => null);
+      ancestors.slice(0, level - 1).forEach((name, index) => (hierarchy[index] = name));
+      hierarchy[level - 1] = item.name;
+
+      const values = storedCustomFieldValues(item.customFields);
+      lines.push(
+        [
+          ...hierarchy,
+          item.status,
+          item.owner,
+          toDate(item.startDate),
+          toDate(item.targetEndDate),
+          item.notes,
+          ...fields.map(field => values[field.key]),
+        ]
+          .map(csvCell)
+          .join(',')
+      );
+
+      walk(item.id, hierarchy.slice(0, level));
+    }
+  };
+  walk(null, []);
+
+  const fileName = `${project.name.replace(/[^a-z0-9-_ ]/gi, '').trim().replace(/\s+/g, '-') || 'plan'}.csv`;
+  return { fileName, csv: lines.join('\n') };
+};
@@ -0,0 +1,697 @@
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { XMLBuilder, XMLParser } from 'fast-xml-parser';
+import prisma from '../../config/database.js';
+import { AppError } from '../../middleware/errorHandler.js';
+import { ErrorCodes } from '../../utils/responses.js';
+import { isReachable } from './plan-dependencies.service.js';
+import { getProjectRollup, propagateStatusUpward } from './plan-rollup.service.js';
+import { resolveStatusChange } from './plan-workflows.service.js';
+import type { ImportResult } from './plan-items.service.js';
+
+// MS Project XML (MSPDI) import and export. Tasks map onto plan items by outline level, resource
+// assignments onto the owner field and predecessor links onto plan dependencies. Exported tasks
+// carry the plan item id in their GUID so a file that comes back from the client updates the
+// same items instead of duplicating them.
+
+const MSPDI_NAMESPACE = 'http://schemas.microsoft.com/project';
+const MINUTES_PER_DAY = 480;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const IMPORT_CHANGE_REASON = 'Imported from MS Project';
+
+// MSPDI PredecessorLink/Type values. Start-to-finish (2) has no plan dependency equivalent.
+const LINK_TYPES: Record<string, string> = {
+  '0': 'finish_to_finish',
+  '1': 'finish_to_start',
+  '3': 'start_to_start',
+};
+const LINK_TYPE_CODES: Record<string, number> = {
+  finish_to_finish: 0,
+  finish_to_start: 1,
+  start_to_start: 3,
+};
+
+const PREVIEW_HEADERS = ['outline', 'name', 'type', 'owner', 'start_date', 'target_end_date', 'status', 'predecessors'];
+
+interface MspdiLink {
+  predecessorUid: string;
+  type: string | null;
+  lagDays: number;
+}
+
+interface MspdiTask {
+  uid: string;
+  row: number;
+  guid: string | null;
+  name: string;
+  outlineLevel: number;
+  outlineNumber: string | null;
+  start: Date | null;
+  finish: Date | null;
+  actualStart: Date | null;
+  actualFinish: Date | null;
+  percentComplete: number;
+  effort: number | null;
+  notes: string | null;
+  active: boolean;
+  owner: string | null;
+  predecessors: MspdiLink[];
+}
+
+interface ParsedMspdi {
+  projectName: string | null;
+  tasks: MspdiTask[];
+  errors: string[];
+}
+
+export interface MspdiPreview {
+  projectName: string | null;
+  headers: string[];
+  rows: Record<string, string>[];
+  errors: string[];
+}
+
+export interface MspdiImportResult extends ImportResult {
+  dependenciesCreated: number;
+}
+
+type PlanStatus = 'not_started' | 'in_progress' | 'completed' | 'cancelled';
+
+// Elements as fast-xml-parser returns them. Values are left unknown because any of them can be
+// missing, empty or malformed in a hand-edited file; text() checks each one as it is read.
+type XmlElement = Record<string, unknown>;
+
+interface RawMspdiProject {
+  Title?: unknown;
+  Name?: unknown;
+  Tasks?: unknown;
+  Resources?: unknown;
+  Assignments?: unknown;
+}
+
+interface RawMspdiResource {
+  UID?: unknown;
+  Name?: unknown;
+}
+
+interface RawMspdiAssignment {
+  TaskUID?: unknown;
+  ResourceUID?: unknown;
+}
+
+interface RawMspdiLink {
+  PredecessorUID?: unknown;
+  Type?: unknown;
+  LinkLag?: unknown;
+}
+
+interface RawMspdiTask {
+  UID?: unknown;
+  ID?: unknown;
+  IsNull?: unknown;
+  GUID?: unknown;
+  Name?: unknown;
+  OutlineLevel?: unknown;
+  OutlineNumber?: unknown;
+  Start?: unknown;
+  Finish?: unknown;
+  ActualStart?: unknown;
+  ActualFinish?: unknown;
+  PercentComplete?: unknown;
+  Duration?: unknown;
+  Notes?: unknown;
+  Active?: unknown;
+  PredecessorLink?: unknown;
+}
+
+const isElement = (value: unknown): value is XmlElement =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The repeated child elements of an element, e.g. the <Task>s of <Tasks>. An empty container
+// parses as a string, so anything that is not a list of elements counts as none.
+const childElements = <T>(parent: unknown, tagName: string): T[] => {
+  if (!isElement(parent)) return [];
+  const value = parent[tagName];
+  return Array.isArray(value) ? (value.filter(isElement) as T[]) : [];
+};
+
+// Trimmed text content of an element, or null when it is missing or empty
+const text = (value: unknown): string | null => {
+  if (typeof value === 'string' || typeof value === 'number') {
+    const trimmed = String(value).trim();
+    return trimmed.length > 0 ? trimmed : null;
+  }
+  return null;
+};
+
+// MSPDI dates are local date-times (2024-01-15T08:00:00); plan dates are calendar days
+const parseMspdiDate = (value: unknown): Date | null => {
+  const raw = text(value);
+  const match = raw?.match(/^(\d{4}-\d{2}-\d{2})/);
+  if (!match) return null;
+  const date = new Date(`${match[1]}T00:00:00Z`);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// ISO 8601 duration (PT40H0M0S) converted to working days
+const parseDurationDays = (value: unknown): number | null => {
+  const match = text(value)?.match(/^PT(\d+(?:\.\d+)?)H(\d+(?:\.\d+)?)M/);
+  if (!match) return null;
+  const minutes = parseFloat(match[1]) * 60 + parseFloat(match[2]);
+  return minutes > 0 ? Math.round((minutes / MINUTES_PER_DAY) * 100) / 100 : null;
+};
+
+const statusFromTask = (task: MspdiTask): PlanStatus => {
+  if (!task.active) return 'cancelled';
+  if (task.percentComplete >= 100) return 'completed';
+  if (task.percentComplete > 0 || task.actualStart) return 'in_progress';
+  return 'not_started';
+};
+
+const formatDay = (date: Date | null) => (date ? date.toISOString().slice(0, 10) : null);
+
+const parseMspdi = (xmlContent: string): ParsedMspdi => {
+  const errors: string[] = [];
+
+  let document: unknown;
+  try {
+    const parser = new XMLParser({
+      ignoreAttributes: true,
+      parseTagValue: false,
+      isArray: tagName => ['Task', 'Resource', 'Assignment', 'PredecessorLink'].includes(tagName),
+    });
+    document = parser.parse(xmlContent);
+  } catch (error) {
+    errors.push(`XML parsing error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return { projectName: null, tasks: [], errors };
+  }
+
+  const root = isElement(document) ? document.Project : undefined;
+  if (!isElement(root)) {
+    errors.push('File is not an MS Project XML document (missing <Project> root element)');
+    return { projectName: null, tasks: [], errors };
+  }
+  const project: RawMspdiProject = root;
+
+  // Resource names per task, via assignments
+  const resourceNames = new Map<string, string>();
+  for (const resource of childElements<RawMspdiResource>(project.Resources, 'Resource')) {
+    const uid = text(resource.UID);
+    const name = text(resource.Name);
+    if (uid && name) resourceNames.set(uid, name);
+  }
+
+  const ownersByTask = new Map<string, string[]>();
+  for (const assignment of childElements<RawMspdiAssignment>(project.Assignments, 'Assignment')) {
+    const taskUid = text(assignment.TaskUID);
+    const resourceName = resourceNames.get(text(assignment.ResourceUID) || '');
+    if (!taskUid || !resourceName) continue;
+    const owners = ownersByTask.get(taskUid) || [];
+    if (!owners.includes(resourceName)) owners.push(resourceName);
+    ownersByTask.set(taskUid, owners);
+  }
+
+  const tasks: MspdiTask[] = [];
+  for (const raw of childElements<RawMspdiTask>(project.Tasks, 'Task')) {
+    const uid = text(raw.UID);
+    const outlineLevel = parseInt(text(raw.OutlineLevel) || '', 10);
+
+    // Skip the project summary task (outline level 0) and blank rows
+    if (!uid || text(raw.IsNull) === '1' || outlineLevel === 0) continue;
+
+    const row = parseInt(text(raw.ID) || '', 10) || tasks.length + 1;
+    const name = text(raw.Name);
+    if (!name) {
+      errors.push(`Task ${row} has no name and was skipped`);
+      continue;
+    }
+
+    tasks.push({
+      uid,
+      row,
+      guid: text(raw.GUID)?.toLowerCase() ?? null,
+      name,
+      outlineLevel: isNaN(outlineLevel) ? 1 : outlineLevel,
+      outlineNumber: text(raw.OutlineNumber),
+      start: parseMspdiDate(raw.Start),
+      finish: parseMspdiDate(raw.Finish),
+      actualStart: parseMspdiDate(raw.ActualStart),
+      actualFinish: parseMspdiDate(raw.ActualFinish),
+      percentComplete: parseFloat(text(raw.PercentComplete) || '0') || 0,
+      effort: parseDurationDays(raw.Duration),
+      notes: text(raw.Notes),
+      active: text(raw.Active) !== '0',
+      owner: ownersByTask.get(uid)?.join(', ') ?? null,
+      predecessors: childElements<RawMspdiLink>(raw, 'PredecessorLink').flatMap(link => {
+        const predecessorUid = text(link.PredecessorUID);
+        if (!predecessorUid) return [];
+        return [{
+          predecessorUid,
+          type: LINK_TYPES[text(link.Type) ?? '1'] ?? null,
+          // LinkLag is stored in tenths of a minute
+          lagDays: Math.round((parseFloat(text(link.LinkLag) || '0') || 0) / 10 / MINUTES_PER_DAY),
+        }];
+      }),
+    });
+  }
+
+  if (tasks.length === 0) {
+    errors.push('No tasks found in MS Project file');
+  }
+
+  return { projectName: text(project.Title) || text(project.Name), tasks, errors };
+};
+
+// Load the org's plan item types keyed by level
+const getLevelTypes = async (organizationId: number) => {
+  const itemTypes = await prisma.planItemType.findMany({
+    where: {
+      isActive: true,
+      OR: [{ organizationId: null }, { organizationId }],
+    },
+    orderBy: { level: 'asc' },
+  });
+
+  const levelTypes = new Map<number, { id: number; name: string }>();
+  for (const type of itemTypes) {
+    if (!levelTypes.has(type.level)) levelTypes.set(type.level, { id: type.id, name: type.name });
+  }
+  return levelTypes;
+};
+
+// Parse an MSPDI file into the same headers/rows shape as the CSV preview
+export const parseMspdiPreview = async (xmlContent: string, organizationId: number): Promise<MspdiPreview> => {
+  const { projectName, tasks, errors } = parseMspdi(xmlContent);
+  const levelTypes = await getLevelTypes(organizationId);
+
+  const uidToRow = new Map(tasks.map(task => [task.uid, task.row]));
+  const rows = tasks.map(task => {
+    const type = levelTypes.get(task.outlineLevel);
+    if (!type) errors.push(`Task ${task.row}: no item type found for outline level ${task.outlineLevel}`);
+
+    return {
+      outline: task.outlineNumber || String(task.outlineLevel),
+      name: task.name,
+      type: type?.name || '',
+      owner: task.owner || '',
+      start_date: formatDay(task.start) || '',
+      target_end_date: formatDay(task.finish) || '',
+      status: statusFromTask(task),
+      predecessors: task.predecessors
+        .map(link => uidToRow.get(link.predecessorUid))
+        .filter(Boolean)
+        .join(', '),
+    };
+  });
+
+  return { projectName, headers: PREVIEW_HEADERS, rows, errors };
+};
+
+// Import an MSPDI file. Tasks whose GUID matches a plan item in this project update that item;
+// everything else is created under its outline parent, appended after the existing plan.
+// Fields absent from the file are left untouched on matched items, and effort is only taken from
+// task durations for new items so a round trip doesn't overwrite estimates.
+export const importMspdi = async (
+  projectId: string,
+  organizationId: number,
+  xmlContent: string,
+  userId?: number,
+  userEmail?: string
+): Promise<MspdiImportResult> => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, organizationId, isActive: true },
+  });
+
+  if (!project) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Project not found', 404);
+  }
+
+  const { tasks, errors: parseErrors } = parseMspdi(xmlContent);
+  const result: MspdiImportResult = {
+    totalRows: tasks.length,
+    itemsCreated: 0,
+    itemsUpdated: 0,
+    dependenciesCreated: 0,
+    errors: parseErrors.map(error => ({ row: 0, error })),
+  };
+
+  if (tasks.length === 0) return result;
+
+  const [levelTypes, existingItems, existingEdges] = await Promise.all([
+    getLevelTypes(organizationId),
+    prisma.planItem.findMany({
+      where: { projectId, isActive: true },
+      include: { itemType: { select: { level: true } } },
+    }),
+    prisma.planItemDependency.findMany({
+      where: { projectId },
+      select: { predecessorId: true, successorId: true },
+    }),
+  ]);
+
+  const existingById = new Map(existingItems.map(item => [item.id, item]));
+
+  // Next free sortOrder under each parent ('' for the root level)
+  const nextSortOrder = new Map<string, number>();
+  for (const item of existingItems) {
+    const key = item.parentId || '';
+    nextSortOrder.set(key, Math.max(nextSortOrder.get(key) ?? 0, item.sortOrder + 1));
+  }
+  const takeSortOrder = (parentId: string | null) => {
+    const key = parentId || '';
+    const sortOrder = nextSortOrder.get(key) ?? 0;
+    nextSortOrder.set(key, sortOrder + 1);
+    return sortOrder;
+  };
+
+  interface OutlineEntry {
+    itemId: string;
+    path: string;
+    depth: number;
+    typeLevel: number;
+  }
+
+  // outline[level] holds the most recent item at that outline level (null if it was skipped)
+  const outline: Array<OutlineEntry | null> = [];
+  const uidToItemId = new Map<string, string>();
+  const rows: Prisma.PlanItemCreateManyInput[] = [];
+  const updates: Prisma.PrismaPromise<unknown>[] = [];
+  const touchedIds: string[] = [];
+
+  for (const task of tasks) {
+    const level = task.outlineLevel;
+    outline.length = level;
+    const parent = level > 1 ? outline[level - 1] : undefined;
+
+    if (parent === null || (level > 1 && !parent)) {
+      result.errors.push({ row: task.row, error: 'Parent task could not be imported' });
+      outline[level] = null;
+      continue;
+    }
+
+    const matched = task.guid ? existingById.get(task.guid) : undefined;
+    const status = statusFromTask(task);
+
+    if (matched) {
+      const changes: { field: string; oldValue: string | null; newValue: string | null }[] = [];
+      const data: Prisma.PlanItemUpdateInput = {};
+
+      const compare = (field: keyof typeof matched & keyof Prisma.PlanItemUpdateInput, value: string | number | Date | null) => {
+        if (value === null) return;
+        const oldValue = matched[field] as string | number | Date | null;
+        const format = (v: string | number | Date | null) =>
+          v instanceof Date ? formatDay(v) : v !== null ? String(v) : null;
+        if (format(oldValue) === format(value)) return;
+        (data as Record<string, unknown>)[field] = value;
+        changes.push({ field, oldValue: format(oldValue), newValue: format(value) });
+      };
+
+      compare('name', task.name);
+      compare('owner', task.owner);
+      compare('startDate', task.start);
+      compare('targetEndDate', task.finish);
+      compare('actualStartDate', task.actualStart);
+      compare('actualEndDate', task.actualFinish);
+      compare('notes', task.notes);
+
+      // MS Project can't express blocked or on hold, so those survive a round trip. The status
+      // moves through the item type's workflow; a move it doesn't allow is reported instead.
+      if (status !== matched.status && (!['blocked', 'on_hold'].includes(matched.status) || status === 'completed')) {
+        try {
+          const resolved = await resolveStatusChange(
+            organizationId,
+            matched,
+            status,
+            { ...matched, ...data },
+            IMPORT_CHANGE_REASON
+          );
+          compare('status', resolved.status);
+          data.workflowStatus = resolved.workflowStatus;
+          if (resolved.workflowStatus !== resolved.previousWorkflowStatus) {
+            changes.push({
+              field: 'workflowStatus',
+              oldValue: resolved.previousWorkflowStatus,
+              newValue: resolved.workflowStatus,
+            });
+          }
+        } catch (error) {
+          if (!(error instanceof AppError)) throw error;
+          result.errors.push({ row: task.row, error: `${task.name}: ${error.message}` });
+        }
+      }
+
+      if (changes.length > 0) {
+        updates.push(
+          prisma.planItem.update({ where: { id: matched.id }, data }),
+          ...changes.map(change =>
+            prisma.planItemHistory.create({
+              data: {
+                planItemId: matched.id,
+                ...change,
+                changedByUserId: userId,
+                changedByEmail: userEmail,
+                changeReason: IMPORT_CHANGE_REASON,
+              },
+            })
+          )
+        );
+        touchedIds.push(matched.id);
+        result.itemsUpdated++;
+      }
+
+      uidToItemId.set(task.uid, matched.id);
+      outline[level] = {
+        itemId: matched.id,
+        path: matched.path,
+        depth: matched.depth,
+        typeLevel: matched.itemType.level,
+      };
+      continue;
+    }
+
+    const typeLevel = parent ? parent.typeLevel + 1 : 1;
+    const type = levelTypes.get(typeLevel);
+    if (!type) {
+      result.errors.push({ row: task.row, error: `No item type found for level ${typeLevel}` });
+      outline[level] = null;
+      continue;
+    }
+
+    const id = randomUUID();
+    const parentId = parent ? parent.itemId : null;
+    const path = parent ? `${parent.path}/${parent.itemId}` : '';
+    const depth = parent ? parent.depth + 1 : 0;
+
+    rows.push({
+      id,
+      projectId,
+      parentId,
+      itemTypeId: type.id,
+      name: task.name,
+      owner: task.owner,
+      status,
+      startDate: task.start,
+      targetEndDate: task.finish,
+      actualStartDate: task.actualStart,
+      actualEndDate: task.actualFinish,
+      effort: task.effort,
+      notes: task.notes,
+      sortOrder: takeSortOrder(parentId),
+      path,
+      depth,
+    });
+
+    uidToItemId.set(task.uid, id);
+    touchedIds.push(id);
+    outline[level] = { itemId: id, path, depth, typeLevel };
+    result.itemsCreated++;
+  }
+
+  // Predecessor links, skipping any that already exist or would close a cycle
+  const edges = [...existingEdges];
+  const dependencies: Prisma.PlanItemDependencyCreateManyInput[] = [];
+  for (const task of tasks) {
+    const successorId = uidToItemId.get(task.uid);
+    if (!successorId) continue;
+
+    for (const link of task.predecessors) {
+      const predecessorId = uidToItemId.get(link.predecessorUid);
+      if (!predecessorId) continue;
+
+      if (!link.type) {
+        result.errors.push({ row: task.row, error: 'Start-to-finish links are not supported and were skipped' });
+        continue;
+      }
+      if (edges.some(edge => edge.predecessorId === predecessorId && edge.successorId === successorId)) {
+        continue;
+      }
+      if (predecessorId === successorId || isReachable(edges, successorId, predecessorId)) {
+        result.errors.push({ row: task.row, error: 'Predecessor link would create a cycle and was skipped' });
+        continue;
+      }
+
+      edges.push({ predecessorId, successorId });
+      dependencies.push({
+        projectId,
+        predecessorId,
+        successorId,
+        type: link.type,
+        lagDays: link.lagDays,
+        createdByUserId: userId,
+      });
+    }
+  }
+
+  await prisma.$transaction([
+    prisma.planItem.createMany({ data: rows }),
+    ...updates,
+    prisma.planItemDependency.createMany({ data: dependencies }),
+  ]);
+  result.dependenciesCreated = dependencies.length;
+
+  await propagateStatusUpward(projectId, touchedIds, userId, userEmail);
+
+  return result;
+};
+
+// Format a calendar day as an MSPDI date-time at the start or end of the working day
+const toMspdiDateTime = (date: Date, time: '08:00:00' | '17:00:00') => `${formatDay(date)}T${time}`;
+
+// Working days (Mon-Fri) between two dates, inclusive
+const workingDaysBetween = (start: Date, end: Date): number => {
+  let days = 0;
+  for (let t = start.getTime(); t <= end.getTime(); t += MS_PER_DAY) {
+    const weekday = new Date(t).getUTCDay();
+    if (weekday !== 0 && weekday !== 6) days++;
+  }
+  return Math.max(days, 1);
+};
+
+const toDuration = (days: number) => {
+  const minutes = Math.round(days * MINUTES_PER_DAY);
+  return `PT${Math.floor(minutes / 60)}H${minutes % 60}M0S`;
+};
+
+// Export the active plan as an MSPDI document. Tasks are manually scheduled so MS Project keeps
+// the plan's dates as-is rather than rescheduling them from durations and links. Elements are
+// written in schema order, which MS Project checks on open.
+export const exportMspdi = async (projectId: string, organizationId: number) => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, organizationId, isActive: true },
+  });
+
+  if (!project) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Project not found', 404);
+  }
+
+  const [items, dependencies, rollup] = await Promise.all([
+    prisma.planItem.findMany({
+      where: { projectId, isActive: true },
+      orderBy: { sortOrder: 'asc' },
+    }),
+    prisma.planItemDependency.findMany({ where: { projectId } }),
+    getProjectRollup(projectId),
+  ]);
+
+  const childrenOf = new Map<string | null, typeof items>();
+  for (const item of items) {
+    const list = childrenOf.get(item.parentId) || [];
+    list.push(item);
+    childrenOf.set(item.parentId, list);
+  }
+
+  // Depth-first order gives MS Project's row order; UIDs and outline numbers follow from it
+  const ordered: Array<{ item: (typeof items)[number]; level: number; outlineNumber: string }> = [];
+  const walk = (parentId: string | null, prefix: string, level: number) => {
+    (childrenOf.get(parentId) || []).forEach((item, index) => {
+      const outlineNumber = prefix ? `${prefix}.${index + 1}` : String(index + 1);
+      ordered.push({ item, level, outlineNumber });
+      walk(item.id, outlineNumber, level + 1);
+    });
+  };
+  walk(null, '', 1);
+
+  const uidById = new Map(ordered.map(({ item }, index) => [item.id, index + 1]));
+  const predecessorsOf = new Map<string, typeof dependencies>();
+  for (const dependency of dependencies) {
+    const list = predecessorsOf.get(dependency.successorId) || [];
+    list.push(dependency);
+    predecessorsOf.set(dependency.successorId, list);
+  }
+
+  const owners = [...new Set(items.map(item => item.owner?.trim()).filter((owner): owner is string => !!owner))];
+  const resourceUid = new Map(owners.map((owner, index) => [owner, index + 1]));
+
+  const tasks = ordered.map(({ item, level, outlineNumber }) => {
+    const uid = uidById.get(item.id)!;
+    const isSummary = childrenOf.has(item.id);
+    const links = (predecessorsOf.get(item.id) || []).filter(d => uidById.has(d.predecessorId));
+
+    return {
+      UID: uid,
+      GUID: item.id.toUpperCase(),
+      ID: uid,
+      Name: item.name,
+      Active: item.status === 'cancelled' ? 0 : 1,
+      Manual: 1,
+      OutlineNumber: outlineNumber,
+      OutlineLevel: level,
+      ...(item.startDate && { Start: toMspdiDateTime(item.startDate, '08:00:00') }),
+      ...(item.targetEndDate && { Finish: toMspdiDateTime(item.targetEndDate, '17:00:00') }),
+      ...(item.startDate && item.targetEndDate && {
+        Duration: toDuration(workingDaysBetween(item.startDate, item.targetEndDate)),
+      }),
+      Summary: isSummary ? 1 : 0,
+      PercentComplete: rollup.get(item.id)?.progress ?? 0,
+      ...(item.actualStartDate && { ActualStart: toMspdiDateTime(item.actualStartDate, '08:00:00') }),
+      ...(item.actualEndDate && { ActualFinish: toMspdiDateTime(item.actualEndDate, '17:00:00') }),
+      ...(item.notes && { Notes: item.notes }),
+      ...(links.length > 0 && {
+        PredecessorLink: links.map(link => ({
+          PredecessorUID: uidById.get(link.predecessorId),
+          Type: LINK_TYPE_CODES[link.type] ?? 1,
+          LinkLag: link.lagDays * MINUTES_PER_DAY * 10,
+          LagFormat: 7,
+        })),
+      }),
+    };
+  });
+
+  const assignments = ordered
+    .filter(({ item }) => item.owner?.trim())
+    .map(({ item }, index) => ({
+      UID: index + 1,
+      TaskUID: uidById.get(item.id),
+      ResourceUID: resourceUid.get(item.owner!.trim()),
+      Units: 1,
+    }));
+
+  const builder = new XMLBuilder({ ignoreAttributes: false, format: true });
+  const xml = builder.build({
+    '?xml': { '@_version': '1.0', '@_encoding': 'UTF-8', '@_standalone': 'yes' },
+    Project: {
+      '@_xmlns': MSPDI_NAMESPACE,
+      Name: `${project.name}.xml`,
+      Title: project.name,
+      ScheduleFromStart: 1,
+      StartDate: toMspdiDateTime(project.startDate, '08:00:00'),
+      MinutesPerDay: MINUTES_PER_DAY,
+      MinutesPerWeek: MINUTES_PER_DAY * 5,
+      DaysPerMonth: 20,
+      Tasks: { Task: tasks },
+      Resources: {
+        Resource: owners.map(owner => ({ UID: resourceUid.get(owner), ID: resourceUid.get(owner), Name: owner, Type: 1 })),
+      },
+      Assignments: { Assignment: assignments },
+    },
+  });
+
+  const fileName = `${project.name.replace(/[^a-z0-9-_ ]/gi, '').trim().replace(/\s+/g, '-') || 'plan'}.xml`;
+  return { fileName, xml };
+};
+
+export default {
+  parseMspdiPreview,
+  importMspdi,
+  exportMspdi,
+};
@@ -0,0 +1,499 @@
+import { randomUUID } from 'crypto';
+import type { PlanItem, PlanItemHistory, Prisma } from '@prisma/client';
+import prisma from '../../config/database.js';
+import { AppError } from '../../middleware/errorHandler.js';
+import { ErrorCodes } from '../../utils/responses.js';
+import { propagateStatusUpward } from './plan-rollup.service.js';
+import { getCustomFields, storedCustomFieldValues } from './plan-custom-fields.service.js';
+import type { ProjectHistoryQuery, RevertOptions, RevertPlanInput } from './plan-items.schema.js';
+
+const TEXT_FIELDS = new Set(['name', 'description', 'owner', 'status', 'workflowStatus', 'notes']);
+const DATE_FIELDS = new Set(['startDate', 'targetEndDate', 'actualStartDate', 'actualEndDate']);
+const TREE_FIELDS = new Set(['parentId', 'isActive']);
+const CUSTOM_FIELD_PREFIX = 'customFields.';
+
+// A field a revert will restore
+export interface RevertChange {
+  planItemId: string;
+  itemName: string;
+  field: string;
+  currentValue: string | null;
+  revertTo: string | null;
+  // The field was edited again after the entries being reverted, so reverting overwrites that edit
+  conflict: boolean;
+}
+
+export interface RevertSkip {
+  planItemId: string;
+  itemName: string;
+  field: string;
+  reason: string;
+}
+
+export interface RevertResult {
+  preview: boolean;
+  // History batch written by the revert, which can itself be reverted
+  batchId: string | null;
+  changes: RevertChange[];
+  skipped: RevertSkip[];
+}
+
+// One field to restore. `expected` is the value the reverted entries wrote, when reverting
+// specific entries rather than rolling back to a point in time.
+interface RevertTarget {
+  planItemId: string;
+  field: string;
+  revertTo: string | null;
+  expected?: string | null;
+}
+
+const isRevertable = (field: string) =>
+  TEXT_FIELDS.has(field) ||
+  DATE_FIELDS.has(field) ||
+  TREE_FIELDS.has(field) ||
+  field === 'effort' ||
+  field === 'ownerUserId' ||
+  field.startsWith(CUSTOM_FIELD_PREFIX);
+
+// History values were written by different code paths over time (dates as YYYY-MM-DD or full
+// Date strings), so compare them in one canonical form
+export const normalizeHistoryValue = (field: string, value: string | null | undefined): string | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (DATE_FIELDS.has(field)) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date.toISOString().slice(0, 10);
+  }
+  if (field === 'effort') {
+    const effort = Number(value);
+    return isNaN(effort) ? value : String(effort);
+  }
+  return value;
+};
+
+const currentValue = (item: PlanItem, field: string): string | null => {
+  if (field.startsWith(CUSTOM_FIELD_PREFIX)) {
+    const value = storedCustomFieldValues(item.customFields)[field.slice(CUSTOM_FIELD_PREFIX.length)];
+    return value === undefined ? null : String(value);
+  }
+  const value = item[field as keyof PlanItem];
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value);
+};
+
+const assertProjectAccess = async (projectId: string, organizationId: number) => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, organizationId, isActive: true },
+    select: { id: true },
+  });
+  if (!project) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Project not found', 404);
+  }
+};
+
+// Collapse history entries (oldest first) to one target per item field: back to the value before
+// the first entry, expecting the value written by the last
+const collapseEntries = (entries: PlanItemHistory[], withExpected: boolean): RevertTarget[] => {
+  const targets = new Map<string, RevertTarget>();
+  for (const entry of entries) {
+    const key = `${entry.planItemId}:${entry.field}`;
+    const existing = targets.get(key);
+    if (existing) {
+      if (withExpected) existing.expected = entry.newValue;
+      continue;
+    }
+    targets.set(key, {
+      planItemId: entry.planItemId,
+      field: entry.field,
+      revertTo: entry.oldValue,
+      ...(withExpected && { expected: entry.newValue }),
+    });
+  }
+  return Array.from(targets.values());
+};
+
+const skip = (item: PlanItem | undefined, target: { planItemId: string; field: string }, reason: string): RevertSkip => ({
+  planItemId: target.planItemId,
+  itemName: item?.name ?? target.planItemId,
+  field: target.field,
+  reason,
+});
+
+// Parent and active changes must leave a valid tree: every active item under an active parent in
+// the same project, and no item under its own descendant
+const checkTreeChanges = (items: Map<string, PlanItem>, changes: RevertChange[]) => {
+  const parentOf = new Map(Array.from(items.values()).map(item => [item.id, item.parentId]));
+  const activeOf = new Map(Array.from(items.values()).map(item => [item.id, item.isActive]));
+  for (const change of changes) {
+    if (change.field === 'parentId') parentOf.set(change.planItemId, change.revertTo);
+    if (change.field === 'isActive') activeOf.set(change.planItemId, change.revertTo === 'true');
+  }
+  const hasActiveChild = (id: string) =>
+    Array.from(parentOf).some(([childId, parentId]) => parentId === id && activeOf.get(childId));
+
+  const valid: RevertChange[] = [];
+  const skipped: RevertSkip[] = [];
+  for (const change of changes) {
+    const item = items.get(change.planItemId)!;
+    let reason: string | null = null;
+
+    if (change.field === 'parentId' && change.revertTo !== null) {
+      if (!items.has(change.revertTo)) {
+        reason = 'The former parent is not in this project';
+      } else if (activeOf.get(change.planItemId) && !activeOf.get(change.revertTo)) {
+        reason = 'The former parent has been deleted';
+      } else {
+        const seen = new Set<string>();
+        for (let id: string | null | undefined = change.revertTo; id; id = parentOf.get(id)) {
+          if (id === change.planItemId || seen.has(id)) {
+            reason = 'The item is now above its former parent';
+            break;
+          }
+          seen.add(id);
+        }
+      }
+    }
+
+    if (change.field === 'isActive' && change.revertTo === 'true') {
+      const parentId = parentOf.get(change.planItemId);
+      if (parentId && !activeOf.get(parentId)) {
+        reason = 'The parent item is deleted';
+      }
+    }
+
+    if (change.field === 'isActive' && change.revertTo === 'false' && hasActiveChild(change.planItemId)) {
+      reason = 'The item has active children';
+    }
+
+    if (reason) {
+      skipped.push(skip(item, change, reason));
+    } else {
+      valid.push(change);
+    }
+  }
+  return { valid, skipped };
+};
+
+// Recompute materialized paths and depths after parents changed
+const rebuildPaths = async (tx: Prisma.TransactionClient, projectId: string) => {
+  const items = await tx.planItem.findMany({
+    where: { projectId },
+    select: { id: true, parentId: true, path: true, depth: true },
+  });
+  const byId = new Map(items.map(item => [item.id, item]));
+  const computed = new Map<string, { path: string; depth: number }>();
+
+  const resolve = (id: string): { path: string; depth: number } => {
+    const cached = computed.get(id);
+    if (cached) return cached;
+    const item = byId.get(id)!;
+    const parent = item.parentId ? byId.get(item.parentId) : undefined;
+    let result = { path: '', depth: 0 };
+    if (parent) {
+      const parentPath = resolve(parent.id);
+      result = { path: `${parentPath.path}/${parent.id}`, depth: parentPath.depth + 1 };
+    }
+    computed.set(id, result);
+    return result;
+  };
+
+  for (const item of items) {
+    const { path, depth } = resolve(item.id);
+    if (path !== item.path || depth !== item.depth) {
+      await tx.planItem.update({ where: { id: item.id }, data: { path, depth } });
+    }
+  }
+};
+
+// Work out what a revert would change, then apply it unless this is a preview. Workflow transition
+// rules don't apply: a revert restores recorded values rather than moving an item forward.
+const runRevert = async (
+  organizationId: number,
+  projectId: string,
+  targets: RevertTarget[],
+  options: RevertOptions,
+  defaultReason: string,
+  userId?: number,
+  userEmail?: string
+): Promise<RevertResult> => {
+  const projectItems = await prisma.planItem.findMany({ where: { projectId } });
+  const items = new Map(projectItems.map(item => [item.id, item]));
+
+  // Items can only go back to assignees who are still members
+  const memberIds = targets.some(target => target.field === 'ownerUserId')
+    ? new Set(
+      (await prisma.organizationUser.findMany({
+        where: { organizationId, isActive: true, user: { isActive: true } },
+        select: { userId: true },
+      })).map(m => String(m.userId))
+    )
+    : new Set<string>();
+
+  const changes: RevertChange[] = [];
+  const skipped: RevertSkip[] = [];
+  for (const target of targets) {
+    const item = items.get(target.planItemId);
+    if (!item) {
+      skipped.push(skip(item, target, 'The item is not in this project'));
+      continue;
+    }
+    if (!isRevertable(target.field)) {
+      skipped.push(skip(item, target, 'This change cannot be reverted'));
+      continue;
+    }
+
+    const current = normalizeHistoryValue(target.field, currentValue(item, target.field));
+    const revertTo = normalizeHistoryValue(target.field, target.revertTo);
+    if (current === revertTo) continue;
+
+    if (target.field === 'name' && revertTo === null) {
+      skipped.push(skip(item, target, 'An item name cannot be empty'));
+      continue;
+    }
+
+    if (target.field === 'ownerUserId' && revertTo !== null && !memberIds.has(revertTo)) {
+      skipped.push(skip(item, target, 'The former assignee is no longer a member'));
+      continue;
+    }
+
+    changes.push({
+      planItemId: item.id,
+      itemName: item.name,
+      field: target.field,
+      currentValue: current,
+      revertTo,
+      conflict: target.expected !== undefined && normalizeHistoryValue(target.field, target.expected) !== current,
+    });
+  }
+
+  if (options.preview) {
+    const tree = checkTreeChanges(items, changes);
+    return { preview: true, batchId: null, changes: tree.valid, skipped: [...skipped, ...tree.skipped] };
+  }
+
+  // Later edits are kept unless the caller forces the revert
+  const unconflicted = options.force ? changes : changes.filter(change => !change.conflict);
+  if (!options.force) {
+    for (const change of changes.filter(c => c.conflict)) {
+      skipped.push(skip(items.get(change.planItemId), change, 'Changed again since; revert with force to overwrite'));
+    }
+  }
+  const tree = checkTreeChanges(items, unconflicted);
+  const toApply = tree.valid;
+  skipped.push(...tree.skipped);
+
+  if (toApply.length === 0) {
+    return { preview: false, batchId: null, changes: [], skipped };
+  }
+
+  const customFieldTypes = new Map(
+    (await getCustomFields(organizationId)).map(field => [field.key, field.fieldType])
+  );
+
+  // One update per item, with custom field values merged into the stored JSON
+  const updates = new Map<string, Record<string, unknown>>();
+  for (const change of toApply) {
+    const item = items.get(change.planItemId)!;
+    const data = updates.get(item.id) ?? {};
+    const value = change.revertTo;
+
+    if (change.field.startsWith(CUSTOM_FIELD_PREFIX)) {
+      const key = change.field.slice(CUSTOM_FIELD_PREFIX.length);
+      const values = (data.customFields as Record<string, string | number>) ?? storedCustomFieldValues(item.customFields);
+      if (value === null) {
+        delete values[key];
+      } else {
+        values[key] = customFieldTypes.get(key) === 'number' ? Number(value) : value;
+      }
+      data.customFields = values;
+    } else if (DATE_FIELDS.has(change.field)) {
+      data[change.field] = value ? new Date(value) : null;
+    } else if (change.field === 'effort' || change.field === 'ownerUserId') {
+      data[change.field] = value === null ? null : Number(value);
+    } else if (change.field === 'isActive') {
+      // Keep the trash in step: reverting a delete takes the item out, reverting a create puts it in
+      const isActive = value === 'true';
+      data.isActive = isActive;
+      data.deletedAt = isActive ? null : new Date();
+      data.deletedByUserId = isActive ? null : userId ?? null;
+      data.deletedByEmail = isActive ? null : userEmail ?? null;
+    } else {
+      data[change.field] = value;
+    }
+    updates.set(item.id, data);
+  }
+
+  const batchId = randomUUID();
+  const changeReason = options.reason ?? defaultReason;
+
+  await prisma.$transaction(async (tx) => {
+    for (const [id, data] of updates) {
+      await tx.planItem.update({ where: { id }, data });
+    }
+
+    await tx.planItemHistory.createMany({
+      data: toApply.map(change => ({
+        planItemId: change.planItemId,
+        field: change.field,
+        oldValue: change.currentValue,
+        newValue: change.revertTo,
+        changedByUserId: userId,
+        changedByEmail: userEmail,
+        changeReason,
+        batchId,
+      })),
+    });
+
+    if (toApply.some(change => change.field === 'parentId')) {
+      await rebuildPaths(tx, projectId);
+    }
+  });
+
+  const statusChanged = toApply.filter(change => change.field === 'status').map(change => change.planItemId);
+  if (statusChanged.length > 0) {
+    await propagateStatusUpward(projectId, statusChanged, userId, userEmail);
+  }
+
+  return { preview: false, batchId, changes: toApply, skipped };
+};
+
+// Recent changes across a project's plan, newest first
+export const getProjectHistory = async (projectId: string, organizationId: number, query: ProjectHistoryQuery) => {
+  await assertProjectAccess(projectId, organizationId);
+
+  return prisma.planItemHistory.findMany({
+    where: {
+      planItem: { projectId },
+      ...(query.before && { createdAt: { lt: query.before } }),
+      ...(query.batchId && { batchId: query.batchId }),
+    },
+    include: { planItem: { select: { id: true, name: true, isActive: true } } },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: query.limit,
+  });
+};
+
+// Undo a single history entry
+export const revertHistoryEntry = async (
+  planItemId: string,
+  historyId: number,
+  organizationId: number,
+  options: RevertOptions,
+  userId?: number,
+  userEmail?: string
+) => {
+  const entry = await prisma.planItemHistory.findFirst({
+    where: { id: historyId, planItemId },
+    include: {
+      planItem: { select: { projectId: true, path: true, project: { select: { organizationId: true } } } },
+    },
+  });
+
+  if (!entry) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'History entry not found', 404);
+  }
+
+  if (entry.planItem.project.organizationId !== organizationId) {
+    throw new AppError(ErrorCodes.FORBIDDEN, 'Access denied', 403);
+  }
+
+  // A delete removed the item's whole subtree in one batch, so undoing it restores the subtree too
+  const entries = entry.field === 'isActive' && entry.batchId
+    ? await prisma.planItemHistory.findMany({
+      where: {
+        batchId: entry.batchId,
+        field: 'isActive',
+        OR: [
+          { id: entry.id },
+          { planItem: { path: { startsWith: `${entry.planItem.path}/${planItemId}` } } },
+        ],
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    })
+    : [entry];
+
+  return runRevert(
+    organizationId,
+    entry.planItem.projectId,
+    collapseEntries(entries, true),
+    options,
+    `Reverted change #${entry.id}`,
+    userId,
+    userEmail
+  );
+};
+
+// Undo every change in a history batch, such as one apply of AI plan updates
+export const revertHistoryBatch = async (
+  projectId: string,
+  batchId: string,
+  organizationId: number,
+  options: RevertOptions,
+  userId?: number,
+  userEmail?: string
+) => {
+  await assertProjectAccess(projectId, organizationId);
+
+  const entries = await prisma.planItemHistory.findMany({
+    where: { batchId, planItem: { projectId } },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+  });
+
+  if (entries.length === 0) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Change batch not found', 404);
+  }
+
+  return runRevert(
+    organizationId,
+    projectId,
+    collapseEntries(entries, true),
+    options,
+    'Reverted a batch of plan changes',
+    userId,
+    userEmail
+  );
+};
+
+// Roll the project plan back to its state at a point in time. Each field goes back to the value
+// before its first later change, and items created since are deleted.
+export const revertPlanToTimestamp = async (
+  projectId: string,
+  organizationId: number,
+  input: RevertPlanInput,
+  userId?: number,
+  userEmail?: string
+) => {
+  await assertProjectAccess(projectId, organizationId);
+
+  if (input.at.getTime() > Date.now()) {
+    throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Cannot revert to a time in the future', 400);
+  }
+
+  const [entries, createdSince] = await Promise.all([
+    prisma.planItemHistory.findMany({
+      where: { planItem: { projectId }, createdAt: { gt: input.at } },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    }),
+    prisma.planItem.findMany({
+      where: { projectId, createdAt: { gt: input.at } },
+      select: { id: true },
+    }),
+  ]);
+
+  // Items that did not exist yet only need hiding; their other edits don't matter
+  const newItemIds = new Set(createdSince.map(item => item.id));
+  const targets = [
+    ...collapseEntries(entries, false).filter(target => !newItemIds.has(target.planItemId)),
+    ...Array.from(newItemIds).map(planItemId => ({ planItemId, field: 'isActive', revertTo: 'false' })),
+  ];
+
+  return runRevert(
+    organizationId,
+    projectId,
+    targets,
+    input,
+    `Reverted plan to ${input.at.toISOString()}`,
+    userId,
+    userEmail
+  );
+};
@@ -0,0 +1,234 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../../config/database.js';
+import { AppError } from '../../middleware/errorHandler.js';
+import type { ProgressWeighting } from '../projects/projects.schema.js';
+import { resolveStatusChange, type ResolvedStatusChange } from './plan-workflows.service.js';
+
+// Computed progress for a single plan item
+export interface PlanItemRollup {
+  progress: number;
+  derivedStatus: string;
+}
+
+interface RollupInput {
+  id: string;
+  parentId: string | null;
+  path: string;
+  status: string;
+  effort: number | null;
+}
+
+const ROLLUP_CHANGE_REASON = 'Status rolled up from child items';
+
+// Progress credited to a leaf item for its own status
+const leafProgress = (status: string): number => {
+  switch (status) {
+    case 'completed':
+      return 100;
+    case 'in_progress':
+    case 'blocked':
+      return 50;
+    default:
+      return 0;
+  }
+};
+
+// Derive a parent's status from its (already rolled-up) children
+const deriveStatus = (childStatuses: string[]): string => {
+  const counted = childStatuses.filter(s => s !== 'cancelled');
+
+  if (counted.length === 0) return 'cancelled';
+  if (counted.every(s => s === 'completed')) return 'completed';
+  if (counted.some(s => s === 'blocked')) return 'blocked';
+  if (counted.some(s => s === 'in_progress' || s === 'completed')) return 'in_progress';
+  if (counted.every(s => s === 'on_hold')) return 'on_hold';
+  return 'not_started';
+};
+
+// Roll progress and status up the tree. Items are processed deepest first (depth taken from the
+// materialized path) so every parent sees its children's final values. Cancelled children are
+// left out of both the weighting and the derived status.
+export const computeRollup = (
+  items: RollupInput[],
+  weighting: ProgressWeighting
+): Map<string, PlanItemRollup> => {
+  const children = new Map<string, RollupInput[]>();
+  for (const item of items) {
+    if (!item.parentId) continue;
+    const list = children.get(item.parentId) || [];
+    list.push(item);
+    children.set(item.parentId, list);
+  }
+
+  const depthOf = (item: RollupInput) => item.path.split('/').filter(Boolean).length;
+  const ordered = [...items].sort((a, b) => depthOf(b) - depthOf(a));
+
+  const result = new Map<string, PlanItemRollup>();
+  for (const item of ordered) {
+    const kids = (children.get(item.id) || []).filter(c => result.has(c.id));
+
+    if (kids.length === 0) {
+      result.set(item.id, { progress: leafProgress(item.status), derivedStatus: item.status });
+      continue;
+    }
+
+    let weighted = 0;
+    let totalWeight = 0;
+    for (const child of kids) {
+      if (child.status === 'cancelled') continue;
+      const weight = weighting === 'effort' ? child.effort ?? 1 : 1;
+      weighted += result.get(child.id)!.progress * weight;
+      totalWeight += weight;
+    }
+
+    result.set(item.id, {
+      progress: totalWeight > 0 ? Math.round(weighted / totalWeight) : 0,
+      derivedStatus: deriveStatus(kids.map(c => result.get(c.id)!.derivedStatus)),
+    });
+  }
+
+  return result;
+};
+
+// Compute roll-up for every active item in a project
+export const getProjectRollup = async (projectId: string): Promise<Map<string, PlanItemRollup>> => {
+  const [project, items] = await Promise.all([
+    prisma.project.findUnique({ where: { id: projectId }, select: { progressWeighting: true } }),
+    prisma.planItem.findMany({
+      where: { projectId, isActive: true },
+      select: { id: true, parentId: true, path: true, status: true, effort: true },
+    }),
+  ]);
+
+  return computeRollup(items, (project?.progressWeighting || 'count') as ProgressWeighting);
+};
+
+// Overall and per-workstream progress for the project dashboard
+export const getProjectProgressSummary = async (projectId: string) => {
+  const [project, items] = await Promise.all([
+    prisma.project.findUnique({ where: { id: projectId }, select: { progressWeighting: true } }),
+    prisma.planItem.findMany({
+      where: { projectId, isActive: true },
+      select: { id: true, parentId: true, path: true, status: true, effort: true, name: true, sortOrder: true },
+      orderBy: { sortOrder: 'asc' },
+    }),
+  ]);
+
+  const weighting = (project?.progressWeighting || 'count') as ProgressWeighting;
+  const rollup = computeRollup(items, weighting);
+  const roots = items.filter(i => !i.parentId);
+
+  // The project itself is treated as the parent of every top-level item
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const root of roots) {
+    if (root.status === 'cancelled') continue;
+    const weight = weighting === 'effort' ? root.effort ?? 1 : 1;
+    weighted += rollup.get(root.id)!.progress * weight;
+    totalWeight += weight;
+  }
+
+  return {
+    weighting,
+    overall: totalWeight > 0 ? Math.round(weighted / totalWeight) : 0,
+    workstreams: roots.map(root => ({
+      id: root.id,
+      name: root.name,
+      status: root.status,
+      ...rollup.get(root.id)!,
+    })),
+  };
+};
+
+// When the project opts in, push derived status changes up to every ancestor of the changed items.
+// A parent with a status workflow moves only where the workflow allows it, and keeps its status
+// when the move is not allowed or needs fields it doesn't have filled in.
+// Each parent whose status changes gets a history entry so the propagation is auditable.
+export const propagateStatusUpward = async (
+  projectId: string,
+  changedItemIds: string[],
+  userId?: number,
+  userEmail?: string
+): Promise<string[]> => {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { organizationId: true, autoRollupStatus: true, progressWeighting: true },
+  });
+
+  if (!project?.autoRollupStatus || changedItemIds.length === 0) return [];
+
+  const items = await prisma.planItem.findMany({
+    where: { projectId, isActive: true },
+    select: { id: true, parentId: true, path: true, status: true, effort: true },
+  });
+
+  const byId = new Map(items.map(i => [i.id, i]));
+  const ancestorIds = new Set<string>();
+  for (const id of changedItemIds) {
+    const item = byId.get(id);
+    item?.path.split('/').filter(Boolean).forEach(ancestorId => ancestorIds.add(ancestorId));
+  }
+
+  const rollup = computeRollup(items, project.progressWeighting as ProgressWeighting);
+  const changedIds = Array.from(ancestorIds).filter(
+    id => byId.has(id) && rollup.get(id)!.derivedStatus !== byId.get(id)!.status
+  );
+  if (changedIds.length === 0) return [];
+
+  const parents = await prisma.planItem.findMany({ where: { id: { in: changedIds } } });
+  const updates: Array<{ item: (typeof parents)[number]; resolved: ResolvedStatusChange }> = [];
+  for (const parent of parents) {
+    try {
+      const resolved = await resolveStatusChange(
+        project.organizationId,
+        parent,
+        rollup.get(parent.id)!.derivedStatus,
+        parent,
+        ROLLUP_CHANGE_REASON
+      );
+      updates.push({ item: parent, resolved });
+    } catch (error) {
+      if (!(error instanceof AppError)) throw error;
+    }
+  }
+
+  if (updates.length === 0) return [];
+
+  const history = (item: { id: string }, field: string, oldValue: string | null, newValue: string | null) =>
+    prisma.planItemHistory.create({
+      data: {
+        planItemId: item.id,
+        field,
+        oldValue,
+        newValue,
+        changedByUserId: userId,
+        changedByEmail: userEmail,
+        changeReason: ROLLUP_CHANGE_REASON,
+      },
+    });
+
+  await prisma.$transaction(
+    updates.flatMap(({ item, resolved }) => {
+      const operations: Prisma.PrismaPromise<unknown>[] = [
+        prisma.planItem.update({
+          where: { id: item.id },
+          data: { status: resolved.status, workflowStatus: resolved.workflowStatus },
+        }),
+        history(item, 'status', item.status, resolved.status),
+      ];
+      if (resolved.workflowStatus !== resolved.previousWorkflowStatus) {
+        operations.push(history(item, 'workflowStatus', resolved.previousWorkflowStatus, resolved.workflowStatus));
+      }
+      return operations;
+    })
+  );
+
+  return updates.map(({ item }) => item.id);
+};
+
+export default {
+  computeRollup,
+  getProjectRollup,
+  getProjectProgressSummary,
+  propagateStatusUpward,
+};
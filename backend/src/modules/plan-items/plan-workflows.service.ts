@@ -0,0 +1,242 @@
+import prisma from '../../config/database.js';
+import { AppError } from '../../middleware/errorHandler.js';
+import { ErrorCodes } from '../../utils/responses.js';
+import { planItemStatuses } from './plan-items.schema.js';
+
+type PlanItemStatus = typeof planItemStatuses[number];
+
+export interface WorkflowStatus {
+  key: string;
+  label: string;
+  // Built-in status stored in PlanItem.status while the item is in this workflow status
+  category: PlanItemStatus;
+  color?: string;
+}
+
+export interface WorkflowTransition {
+  from: string;
+  to: string;
+  requiredFields: string[];
+  requireReason: boolean;
+}
+
+export interface StatusWorkflowDefinition {
+  statuses: WorkflowStatus[];
+  transitions: WorkflowTransition[];
+  initialStatus: string;
+}
+
+// A status an item can move to next, with what the move requires
+export interface StatusOption extends WorkflowStatus {
+  requiredFields: string[];
+  requireReason: boolean;
+}
+
+// PlanItem.status and PlanItem.workflowStatus for a resolved status
+export interface ResolvedStatus {
+  status: PlanItemStatus;
+  workflowStatus: string | null;
+}
+
+// A resolved change, with the workflow status the item was effectively in before it
+export interface ResolvedStatusChange extends ResolvedStatus {
+  previousWorkflowStatus: string | null;
+}
+
+export interface PlanItemStatusState {
+  itemTypeId: number;
+  status: string;
+  workflowStatus: string | null;
+}
+
+const BUILT_IN_LABELS: Record<PlanItemStatus, string> = {
+  not_started: 'Not Started',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  on_hold: 'On Hold',
+  blocked: 'Blocked',
+  cancelled: 'Cancelled',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  owner: 'owner',
+  startDate: 'start date',
+  targetEndDate: 'target end date',
+  actualStartDate: 'actual start date',
+  actualEndDate: 'actual end date',
+  effort: 'effort',
+  notes: 'notes',
+};
+
+const isBuiltInStatus = (value: string): value is PlanItemStatus =>
+  (planItemStatuses as readonly string[]).includes(value);
+
+const isBlank = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+// The organization's workflow for a plan item type, or null when the type uses the built-in statuses.
+// Statuses and transitions are validated when the workflow is saved.
+export const getStatusWorkflow = async (
+  organizationId: number,
+  planItemTypeId: number
+): Promise<StatusWorkflowDefinition | null> => {
+  const workflow = await prisma.statusWorkflow.findUnique({
+    where: { organizationId_planItemTypeId: { organizationId, planItemTypeId } },
+  });
+  if (!workflow) {
+    return null;
+  }
+  return {
+    statuses: workflow.statuses as unknown as WorkflowStatus[],
+    transitions: (workflow.transitions as unknown as WorkflowTransition[]).map(transition => ({
+      ...transition,
+      requiredFields: transition.requiredFields ?? [],
+      requireReason: transition.requireReason ?? false,
+    })),
+    initialStatus: workflow.initialStatus,
+  };
+};
+
+// The workflow status an item is in. The stored key only counts while its category matches the
+// item's status, so a key left from before the type had this workflow is ignored.
+export const currentWorkflowStatus = (
+  workflow: StatusWorkflowDefinition,
+  item: { status: string; workflowStatus: string | null }
+): WorkflowStatus => {
+  const stored = workflow.statuses.find(status => status.key === item.workflowStatus);
+  if (stored && stored.category === item.status) {
+    return stored;
+  }
+  return (
+    workflow.statuses.find(status => status.category === item.status) ??
+    workflow.statuses.find(status => status.key === workflow.initialStatus) ??
+    workflow.statuses[0]
+  );
+};
+
+export const nextStatusOptions = (
+  workflow: StatusWorkflowDefinition,
+  current: WorkflowStatus
+): StatusOption[] => {
+  return workflow.transitions
+    .filter(transition => transition.from === current.key)
+    .flatMap(transition => {
+      const target = workflow.statuses.find(status => status.key === transition.to);
+      return target
+        ? [{ ...target, requiredFields: transition.requiredFields, requireReason: transition.requireReason }]
+        : [];
+    });
+};
+
+// Workflow keys match directly. A built-in status, as sent by the board, bulk updates and the plan
+// updater, means the first status in that category reachable from the current one.
+const matchRequestedStatus = (
+  workflow: StatusWorkflowDefinition,
+  current: WorkflowStatus,
+  requested: string
+): WorkflowStatus | undefined => {
+  const exact = workflow.statuses.find(status => status.key === requested);
+  if (exact) return exact;
+  if (current.category === requested) return current;
+  return (
+    nextStatusOptions(workflow, current).find(option => option.category === requested) ??
+    workflow.statuses.find(status => status.category === requested)
+  );
+};
+
+// Status for a new item: the workflow's initial status unless one is requested.
+// Transition rules only apply to changes, not to where an item starts.
+export const resolveInitialStatus = async (
+  organizationId: number,
+  itemTypeId: number,
+  requested?: string
+): Promise<ResolvedStatus> => {
+  const workflow = await getStatusWorkflow(organizationId, itemTypeId);
+  if (!workflow) {
+    const status = requested ?? 'not_started';
+    if (!isBuiltInStatus(status)) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, `Invalid status "${status}"`, 400);
+    }
+    return { status, workflowStatus: null };
+  }
+
+  const target = workflow.statuses.find(status => status.key === (requested ?? workflow.initialStatus)) ??
+    workflow.statuses.find(status => status.category === requested);
+  if (!target) {
+    throw new AppError(ErrorCodes.VALIDATION_ERROR, `"${requested}" is not a status in this item type's workflow`, 400);
+  }
+  return { status: target.category, workflowStatus: target.key };
+};
+
+// Resolve a requested status change and check it against the item type's workflow.
+// `values` are the item's fields as they will be after the update; `reason` is the change reason.
+export const resolveStatusChange = async (
+  organizationId: number,
+  item: PlanItemStatusState,
+  requested: string,
+  values: Record<string, unknown>,
+  reason?: string | null
+): Promise<ResolvedStatusChange> => {
+  const workflow = await getStatusWorkflow(organizationId, item.itemTypeId);
+  if (!workflow) {
+    if (!isBuiltInStatus(requested)) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, `Invalid status "${requested}"`, 400);
+    }
+    return { status: requested, workflowStatus: null, previousWorkflowStatus: null };
+  }
+
+  const current = currentWorkflowStatus(workflow, item);
+  const target = matchRequestedStatus(workflow, current, requested);
+  if (!target) {
+    throw new AppError(ErrorCodes.VALIDATION_ERROR, `"${requested}" is not a status in this item type's workflow`, 400);
+  }
+  if (target.key === current.key) {
+    return { status: target.category, workflowStatus: target.key, previousWorkflowStatus: current.key };
+  }
+
+  const transition = workflow.transitions.find(t => t.from === current.key && t.to === target.key);
+  if (!transition) {
+    throw new AppError(ErrorCodes.VALIDATION_ERROR, `Cannot move from ${current.label} to ${target.label}`, 400);
+  }
+
+  const missing = transition.requiredFields
+    .filter(field => isBlank(values[field]))
+    .map(field => FIELD_LABELS[field] ?? field);
+  if (transition.requireReason && isBlank(reason)) {
+    missing.push('a reason');
+  }
+  if (missing.length > 0) {
+    throw new AppError(ErrorCodes.VALIDATION_ERROR, `Moving to ${target.label} requires ${missing.join(', ')}`, 400);
+  }
+
+  return { status: target.category, workflowStatus: target.key, previousWorkflowStatus: current.key };
+};
+
+// Current status and the statuses an item can move to. Without a workflow every other built-in
+// status is allowed and nothing extra is required.
+export const getStatusOptions = async (organizationId: number, item: PlanItemStatusState) => {
+  const workflow = await getStatusWorkflow(organizationId, item.itemTypeId);
+  if (!workflow) {
+    const category = isBuiltInStatus(item.status) ? item.status : 'not_started';
+    return {
+      hasWorkflow: false,
+      current: { key: category, label: BUILT_IN_LABELS[category], category },
+      options: planItemStatuses
+        .filter(status => status !== category)
+        .map(status => ({
+          key: status,
+          label: BUILT_IN_LABELS[status],
+          category: status,
+          requiredFields: [],
+          requireReason: false,
+        })),
+    };
+  }
+
+  const current = currentWorkflowStatus(workflow, item);
+  return {
+    hasWorkflow: true,
+    current,
+    options: nextStatusOptions(workflow, current),
+  };
+};
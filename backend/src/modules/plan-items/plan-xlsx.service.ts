@@ -0,0 +1,511 @@
+import ExcelJS from 'exceljs';
+import prisma from '../../config/database.js';
+import { AppError } from '../../middleware/errorHandler.js';
+import { ErrorCodes } from '../../utils/responses.js';
+import { getProjectRollup } from './plan-rollup.service.js';
+import {
+  findCustomFieldForColumn,
+  getCustomFields,
+  storedCustomFieldValues,
+} from './plan-custom-fields.service.js';
+import {
+  importPlanRows,
+  normalizeStatus,
+  parseDate,
+  type CsvRow,
+  type ImportResult,
+  type ImportRowInput,
+} from './plan-items.service.js';
+
+// Excel import and export. Each worksheet is read independently and normalized to the CSV row shape,
+// so XLSX files go through the same find-or-create import as CSV. Two layouts are recognised:
+//   columns - one column per hierarchy level (Workstream, Milestone, ...), as the CSV template
+//   outline - a single Name column with the level taken from a Level column, Excel row grouping or
+//             the name cell's indent
+// Unrecognised headers are passed through under their normalized text for custom field matching.
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const HIERARCHY_COLUMNS = ['workstream', 'milestone', 'activity', 'task', 'subtask'] as const;
+const METADATA_COLUMNS = ['status', 'owner', 'start_date', 'target_end_date', 'notes'] as const;
+const DATE_COLUMNS = ['start_date', 'target_end_date'] as const;
+
+// How many rows from the top of a sheet are searched for the header row
+const HEADER_SCAN_ROWS = 10;
+
+// Normalized header text -> import column
+const HEADER_ALIASES: Record<string, string> = {
+  workstream: 'workstream',
+  milestone: 'milestone',
+  activity: 'activity',
+  task: 'task',
+  subtask: 'subtask',
+  sub_task: 'subtask',
+  status: 'status',
+  owner: 'owner',
+  assignee: 'owner',
+  assigned_to: 'owner',
+  start: 'start_date',
+  start_date: 'start_date',
+  end: 'target_end_date',
+  end_date: 'target_end_date',
+  finish: 'target_end_date',
+  due_date: 'target_end_date',
+  target_end_date: 'target_end_date',
+  notes: 'notes',
+  comments: 'notes',
+  name: 'name',
+  item: 'name',
+  task_name: 'name',
+  title: 'name',
+  level: 'level',
+  outline_level: 'level',
+};
+
+// Status cell fills for the export (ARGB)
+const STATUS_FILLS: Record<string, string> = {
+  not_started: 'FFF1F5F9',
+  in_progress: 'FFDBEAFE',
+  completed: 'FFDCFCE7',
+  on_hold: 'FFFEF3C7',
+  blocked: 'FFFEE2E2',
+  cancelled: 'FFE5E7EB',
+};
+
+type SheetLayout = 'columns' | 'outline' | 'skipped';
+
+export interface XlsxSheetSummary {
+  name: string;
+  layout: SheetLayout;
+  rows: number;
+}
+
+export interface XlsxPreview {
+  headers: string[];
+  rows: Record<string, string>[];
+  errors: string[];
+  sheets: XlsxSheetSummary[];
+}
+
+interface CellError {
+  sheet: string;
+  row: number;
+  cell: string;
+  error: string;
+}
+
+interface ParsedWorkbook {
+  rows: ImportRowInput[];
+  cellErrors: CellError[];
+  sheets: XlsxSheetSummary[];
+  errors: string[];
+}
+
+export const isXlsxFile = (file: { mimetype: string; originalname: string }) =>
+  file.mimetype === XLSX_MIME_TYPE || file.originalname.toLowerCase().endsWith('.xlsx');
+
+const normalizeHeader = (value: string) =>
+  value.trim().toLowerCase().replace(/[\s\-/]+/g, '_');
+
+// Plain text of a cell, whatever Excel stored in it (rich text, formulas, hyperlinks, dates)
+const cellText = (cell: ExcelJS.Cell): string => {
+  const value = cell.value;
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'object' && 'result' in value) {
+    const result = value.result;
+    if (result instanceof Date) return result.toISOString().slice(0, 10);
+    return result === undefined || result === null || typeof result === 'object' ? '' : String(result).trim();
+  }
+  return cell.text.trim();
+};
+
+const loadWorkbook = async (buffer: Buffer) => {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+  } catch (error) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      `XLSX parsing error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      400
+    );
+  }
+  return workbook;
+};
+
+const isKnownColumn = (key: string) => Object.values(HEADER_ALIASES).includes(key);
+
+// Find the header row and map column numbers to import columns
+const findHeader = (sheet: ExcelJS.Worksheet) => {
+  for (let rowNumber = 1; rowNumber <= Math.min(sheet.rowCount, HEADER_SCAN_ROWS); rowNumber++) {
+    const columns = new Map<number, string>();
+    sheet.getRow(rowNumber).eachCell((cell, colNumber) => {
+      const header = normalizeHeader(cellText(cell));
+      const key = HEADER_ALIASES[header] ?? (isKnownColumn(header) ? undefined : header);
+      if (key && ![...columns.values()].includes(key)) columns.set(colNumber, key);
+    });
+
+    const keys = [...columns.values()];
+    if (HIERARCHY_COLUMNS.some(col => keys.includes(col))) {
+      return { rowNumber, columns, layout: 'columns' as const };
+    }
+    if (keys.includes('name')) {
+      return { rowNumber, columns, layout: 'outline' as const };
+    }
+  }
+  return null;
+};
+
+// Copy status, owner, dates, notes and any custom columns into the row, validating each standard cell
+const readMetadata = (
+  sheet: ExcelJS.Worksheet,
+  excelRow: ExcelJS.Row,
+  columns: Map<number, string>,
+  row: CsvRow,
+  cellErrors: CellError[]
+) => {
+  for (const [colNumber, key] of columns) {
+    if (isKnownColumn(key) && !(METADATA_COLUMNS as readonly string[]).includes(key)) continue;
+
+    const cell = excelRow.getCell(colNumber);
+    const value = cellText(cell);
+    if (!value) continue;
+
+    // Custom field values are validated by the import against the field definitions
+    if (!isKnownColumn(key)) {
+      row[key] = value;
+      continue;
+    }
+
+    const reject = (error: string) =>
+      cellErrors.push({ sheet: sheet.name, row: excelRow.number, cell: cell.address, error });
+
+    if (key === 'status') {
+      const status = normalizeStatus(value);
+      if (status) row.status = status;
+      else reject(`Unrecognised status "${value}"`);
+    } else if ((DATE_COLUMNS as readonly string[]).includes(key)) {
+      if (parseDate(value)) row[key as typeof DATE_COLUMNS[number]] = value;
+      else reject(`Invalid date "${value}"`);
+    } else {
+      row[key as 'owner' | 'notes'] = value;
+    }
+  }
+};
+
+const parseColumnsSheet = (
+  sheet: ExcelJS.Worksheet,
+  header: NonNullable<ReturnType<typeof findHeader>>,
+  parsed: ParsedWorkbook
+) => {
+  const firstHierarchyCol = [...header.columns].find(([, key]) =>
+    (HIERARCHY_COLUMNS as readonly string[]).includes(key)
+  )![0];
+
+  let count = 0;
+  sheet.eachRow((excelRow, rowNumber) => {
+    if (rowNumber <= header.rowNumber) return;
+
+    const row: CsvRow = {};
+    for (const [colNumber, key] of header.columns) {
+      if (!(HIERARCHY_COLUMNS as readonly string[]).includes(key)) continue;
+      const value = cellText(excelRow.getCell(colNumber));
+      if (value) row[key as typeof HIERARCHY_COLUMNS[number]] = value;
+    }
+
+    if (!HIERARCHY_COLUMNS.some(col => row[col])) {
+      if (excelRow.actualCellCount > 0) {
+        parsed.cellErrors.push({
+          sheet: sheet.name,
+          row: rowNumber,
+          cell: excelRow.getCell(firstHierarchyCol).address,
+          error: 'Row has no value in any hierarchy column',
+        });
+      }
+      return;
+    }
+
+    readMetadata(sheet, excelRow, header.columns, row, parsed.cellErrors);
+    parsed.rows.push({ row, rowNumber, sheet: sheet.name });
+    count++;
+  });
+  return count;
+};
+
+const parseOutlineSheet = (
+  sheet: ExcelJS.Worksheet,
+  header: NonNullable<ReturnType<typeof findHeader>>,
+  parsed: ParsedWorkbook
+) => {
+  const nameCol = [...header.columns].find(([, key]) => key === 'name')![0];
+  const levelCol = [...header.columns].find(([, key]) => key === 'level')?.[0];
+
+  // Prefer an explicit Level column, then Excel row grouping, then the name cell's indent
+  let usesGrouping = false;
+  sheet.eachRow(excelRow => {
+    if ((excelRow.outlineLevel ?? 0) > 0) usesGrouping = true;
+  });
+
+  // ancestors[i] is the name of the most recent row at level i + 1 (empty if that row was rejected)
+  const ancestors: Array<string | null> = [];
+  let count = 0;
+
+  sheet.eachRow((excelRow, rowNumber) => {
+    if (rowNumber <= header.rowNumber) return;
+
+    const nameCell = excelRow.getCell(nameCol);
+    const name = cellText(nameCell);
+    if (!name) return;
+
+    const reject = (cell: string, error: string) => {
+      parsed.cellErrors.push({ sheet: sheet.name, row: rowNumber, cell, error });
+    };
+
+    let level: number;
+    if (levelCol) {
+      const levelCell = excelRow.getCell(levelCol);
+      level = parseInt(cellText(levelCell), 10);
+      if (isNaN(level) || level < 1) {
+        reject(levelCell.address, `Invalid level "${cellText(levelCell)}"`);
+        return;
+      }
+    } else if (usesGrouping) {
+      level = (excelRow.outlineLevel ?? 0) + 1;
+    } else {
+      level = (nameCell.alignment?.indent ?? 0) + 1;
+    }
+
+    if (level > HIERARCHY_COLUMNS.length) {
+      reject(nameCell.address, `Level ${level} is deeper than the ${HIERARCHY_COLUMNS.length} supported levels`);
+      ancestors.length = level - 1;
+      return;
+    }
+    if (Array.from({ length: level - 1 }, (_, i) => ancestors[i]).some(ancestor => !ancestor)) {
+      reject(nameCell.address, `"${name}" has no parent row at level ${level - 1}`);
+      ancestors.length = level - 1;
+      ancestors[level - 1] = null;
+      return;
+    }
+
+    ancestors.length = level - 1;
+    ancestors[level - 1] = name;
+
+    const row: CsvRow = {};
+    ancestors.forEach((ancestor, index) => {
+      row[HIERARCHY_COLUMNS[index]] = ancestor!;
+    });
+
+    readMetadata(sheet, excelRow, header.columns, row, parsed.cellErrors);
+    parsed.rows.push({ row, rowNumber, sheet: sheet.name });
+    count++;
+  });
+  return count;
+};
+
+const parseWorkbook = (workbook: ExcelJS.Workbook): ParsedWorkbook => {
+  const parsed: ParsedWorkbook = { rows: [], cellErrors: [], sheets: [], errors: [] };
+
+  workbook.eachSheet(sheet => {
+    const header = findHeader(sheet);
+    if (!header) {
+      parsed.sheets.push({ name: sheet.name, layout: 'skipped', rows: 0 });
+      return;
+    }
+
+    const rows = header.layout === 'columns'
+      ? parseColumnsSheet(sheet, header, parsed)
+      : parseOutlineSheet(sheet, header, parsed);
+    parsed.sheets.push({ name: sheet.name, layout: header.layout, rows });
+  });
+
+  if (!parsed.sheets.some(sheet => sheet.layout !== 'skipped')) {
+    parsed.errors.push(
+      'No sheet has hierarchy columns (workstream, milestone, activity, task, subtask) or a Name column'
+    );
+  }
+
+  return parsed;
+};
+
+// Parse an XLSX workbook and return preview data in the CSV preview shape. Extra columns are only
+// shown when they match one of the organization's custom fields.
+export const parseXlsxPreview = async (buffer: Buffer, organizationId: number): Promise<XlsxPreview> => {
+  const parsed = parseWorkbook(await loadWorkbook(buffer));
+  const fields = await getCustomFields(organizationId);
+  const multiSheet = parsed.sheets.filter(sheet => sheet.layout !== 'skipped').length > 1;
+
+  const rows = parsed.rows.map(({ row, sheet }) => ({
+    ...(multiSheet && { sheet: sheet! }),
+    ...(row as Record<string, string>),
+  }));
+  const standard: string[] = [...HIERARCHY_COLUMNS, ...METADATA_COLUMNS];
+  const extra = [...new Set(parsed.rows.flatMap(({ row }) => Object.keys(row)))].filter(
+    key => !standard.includes(key) && findCustomFieldForColumn(key, fields)
+  );
+  const headers = [...(multiSheet ? ['sheet'] : []), ...standard, ...extra].filter(
+    header => header === 'sheet' || rows.some(row => row[header as keyof typeof row])
+  );
+
+  return {
+    headers,
+    rows,
+    errors: [
+      ...parsed.errors,
+      ...parsed.cellErrors.map(e => `${e.sheet}!${e.cell}: ${e.error}`),
+    ],
+    sheets: parsed.sheets,
+  };
+};
+
+// Import plan items from an XLSX workbook. Invalid cells are reported and left out; the rest of
+// the row is still imported.
+export const importXlsx = async (
+  projectId: string,
+  organizationId: number,
+  buffer: Buffer,
+  userId?: number,
+  userEmail?: string
+): Promise<ImportResult> => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, organizationId, isActive: true },
+  });
+
+  if (!project) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Project not found', 404);
+  }
+
+  const parsed = parseWorkbook(await loadWorkbook(buffer));
+  const cellErrors = [
+    ...parsed.errors.map(error => ({ row: 0, error })),
+    ...parsed.cellErrors.map(e => ({ row: e.row, sheet: e.sheet, error: `${e.cell}: ${e.error}` })),
+  ];
+
+  if (parsed.rows.length === 0) {
+    return { totalRows: 0, itemsCreated: 0, itemsUpdated: 0, errors: cellErrors };
+  }
+
+  const result = await importPlanRows(projectId, organizationId, parsed.rows, userId, userEmail);
+  return { ...result, errors: [...cellErrors, ...result.errors] };
+};
+
+// Export the plan tree with one row per plan item. Each item's name sits in the column for its
+// type level with its ancestors repeated to the left, so the file re-imports with the column layout.
+export const exportXlsx = async (projectId: string, organizationId: number) => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, organizationId, isActive: true },
+  });
+
+  if (!project) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Project not found', 404);
+  }
+
+  const [items, rollup, fields] = await Promise.all([
+    prisma.planItem.findMany({
+      where: { projectId, isActive: true },
+      include: { itemType: { select: { level: true } } },
+      orderBy: { sortOrder: 'asc' },
+    }),
+    getProjectRollup(projectId),
+    getCustomFields(organizationId),
+  ]);
+
+  const childrenOf = new Map<string | null, typeof items>();
+  for (const item of items) {
+    const list = childrenOf.get(item.parentId) || [];
+    list.push(item);
+    childrenOf.set(item.parentId, list);
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'Project Management Platform';
+  const sheet = workbook.addWorksheet('Plan', { views: [{ state: 'frozen', ySplit: 1 }] });
+
+  sheet.columns = [
+    ...HIERARCHY_COLUMNS.map(col => ({
+      header: col.charAt(0).toUpperCase() + col.slice(1),
+      key: col,
+      width: 28,
+    })),
+    { header: 'Status', key: 'status', width: 14 },
+    { header: 'Owner', key: 'owner', width: 20 },
+    { header: 'Start Date', key: 'start_date', width: 13, style: { numFmt: 'yyyy-mm-dd' } },
+    { header: 'Target End Date', key: 'target_end_date', width: 16, style: { numFmt: 'yyyy-mm-dd' } },
+    { header: 'Actual Start', key: 'actual_start', width: 13, style: { numFmt: 'yyyy-mm-dd' } },
+    { header: 'Actual End', key: 'actual_end', width: 13, style: { numFmt: 'yyyy-mm-dd' } },
+    { header: 'Effort', key: 'effort', width: 10 },
+    { header: 'Progress %', key: 'progress', width: 11 },
+    { header: 'Notes', key: 'notes', width: 40 },
+    // Headed by label; the import matches custom columns by key or label
+    ...fields.map(field => ({
+      header: field.label,
+      key: `custom:${field.key}`,
+      width: 16,
+      ...(field.fieldType === 'date' && { style: { numFmt: 'yyyy-mm-dd' } }),
+    })),
+  ];
+  sheet.getRow(1).font = { bold: true };
+
+  const customFieldCells = (json: typeof items[number]['customFields']) => {
+    const values = storedCustomFieldValues(json);
+    return Object.fromEntries(
+      fields
+        .filter(field => values[field.key] !== undefined)
+        .map(field => [
+          `custom:${field.key}`,
+          field.fieldType === 'date' ? new Date(String(values[field.key])) : values[field.key],
+        ])
+    );
+  };
+
+  const walk = (parentId: string | null, ancestors: Array<{ level: number; name: string }>, depth: number) => {
+    for (const item of childrenOf.get(parentId) || []) {
+      const level = Math.min(Math.max(item.itemType.level, 1), HIERARCHY_COLUMNS.length);
+      const hasChildren = childrenOf.has(item.id);
+
+      const excelRow = sheet.addRow({
+        status: item.status,
+        owner: item.owner,
+        start_date: item.startDate,
+        target_end_date: item.targetEndDate,
+        actual_start: item.actualStartDate,
+        actual_end: item.actualEndDate,
+        effort: item.effort,
+        progress: rollup.get(item.id)?.progress ?? 0,
+        notes: item.notes,
+        ...customFieldCells(item.customFields),
+      });
+
+      for (const ancestor of ancestors) {
+        const cell = excelRow.getCell(ancestor.level);
+        cell.value = ancestor.name;
+        cell.font = { color: { argb: 'FF94A3B8' } };
+      }
+      const nameCell = excelRow.getCell(level);
+      nameCell.value = item.name;
+      nameCell.font = { bold: hasChildren };
+
+      const fill = STATUS_FILLS[item.status];
+      if (fill) {
+        excelRow.getCell('status').fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: fill } };
+      }
+      // Excel supports up to seven grouping levels
+      excelRow.outlineLevel = Math.min(depth, 7);
+
+      walk(item.id, [...ancestors, { level, name: item.name }], depth + 1);
+    }
+  };
+  walk(null, [], 0);
+
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: sheet.columns.length } };
+
+  const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+  const fileName = `${project.name.replace(/[^a-z0-9-_ ]/gi, '').trim().replace(/\s+/g, '-') || 'plan'}.xlsx`;
+  return { fileName, buffer };
+};
+
+export default {
+  parseXlsxPreview,
+  importXlsx,
+  exportXlsx,
+};
@@ -0,0 +1,89 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import * as planTemplatesService from './plan-templates.service.js';
+import { successResponse } from '../../utils/responses.js';
+import type { CreatePlanTemplateInput, InstantiatePlanTemplateInput } from './plan-templates.schema.js';
+
+// GET /api/plan-templates - List the organization's plan templates
+export const listTemplates: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const templates = await planTemplatesService.listTemplates(organizationId);
+    successResponse(res, templates);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/plan-templates/:templateId - Get template with its item tree
+export const getTemplate: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const template = await planTemplatesService.getTemplate(req.params.templateId, organizationId);
+    successResponse(res, template);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// DELETE /api/plan-templates/:templateId - Delete template
+export const deleteTemplate: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const result = await planTemplatesService.deleteTemplate(req.params.templateId, organizationId);
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/plan-templates - Save the project's plan as a template
+export const createTemplateFromProject: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId } = req.params;
+    const input = req.body as CreatePlanTemplateInput;
+    const template = await planTemplatesService.createTemplateFromProject(
+      projectId,
+      organizationId,
+      input,
+      req.user?.id,
+      req.user?.email
+    );
+    successResponse(res, template, 201);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/plan/from-template - Seed the plan from a template
+export const instantiateTemplate: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId } = req.params;
+    const input = req.body as InstantiatePlanTemplateInput;
+    const result = await planTemplatesService.instantiateTemplate(projectId, organizationId, input);
+    successResponse(res, result, 201);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,79 @@
+import { Router } from 'express';
+import * as planTemplatesController from './plan-templates.controller.js';
+import { authenticate } from '../../middleware/auth.js';
+import { requireOrgContext } from '../../middleware/orgContext.js';
+
+const router = Router();
+
+// All routes require authentication and organization context
+router.use(authenticate);
+router.use(requireOrgContext);
+
+/**
+ * @swagger
+ * /plan-templates:
+ *   get:
+ *     summary: List plan templates
+ *     description: List the organization's reusable plan templates with their item counts
+ *     tags: [Plan Templates]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *     responses:
+ *       200:
+ *         description: List of plan templates
+ */
+router.get('/', planTemplatesController.listTemplates);
+
+/**
+ * @swagger
+ * /plan-templates/{templateId}:
+ *   get:
+ *     summary: Get a plan template
+ *     description: Get a plan template with its items nested as a tree. Dates are stored as day offsets from the project start.
+ *     tags: [Plan Templates]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Plan template with item tree
+ *       404:
+ *         description: Plan template not found
+ */
+router.get('/:templateId', planTemplatesController.getTemplate);
+
+/**
+ * @swagger
+ * /plan-templates/{templateId}:
+ *   delete:
+ *     summary: Delete a plan template
+ *     tags: [Plan Templates]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Plan template deleted
+ *       404:
+ *         description: Plan template not found
+ */
+router.delete('/:templateId', planTemplatesController.deleteTemplate);
+
+export default router;
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+// Schema for saving a project's plan as a template via POST /api/projects/:projectId/plan-templates
+export const createPlanTemplateSchema = z.object({
+  name: z.string().min(1).max(200),
+  description: z.string().max(2000).nullable().optional(),
+});
+
+// Schema for seeding a plan via POST /api/projects/:projectId/plan/from-template.
+// Dates are shifted onto startDate, which defaults to the project's own start date.
+export const instantiatePlanTemplateSchema = z.object({
+  templateId: z.string().uuid(),
+  startDate: z.coerce.date().optional(),
+});
+
+export type CreatePlanTemplateInput = z.infer<typeof createPlanTemplateSchema>;
+export type InstantiatePlanTemplateInput = z.infer<typeof instantiatePlanTemplateSchema>;
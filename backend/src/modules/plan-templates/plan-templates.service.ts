@@ -0,0 +1,250 @@
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '../../config/database.js';
+import { AppError } from '../../middleware/errorHandler.js';
+import { ErrorCodes } from '../../utils/responses.js';
+import { resolveInitialStatus, type ResolvedStatus } from '../plan-items/plan-workflows.service.js';
+import type { CreatePlanTemplateInput, InstantiatePlanTemplateInput } from './plan-templates.schema.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+interface TemplateItemNode {
+  id: string;
+  parentId: string | null;
+  sortOrder: number;
+  itemTypeSlug: string;
+  name: string;
+  description: string | null;
+  effort: number | null;
+  startOffsetDays: number | null;
+  endOffsetDays: number | null;
+  children: TemplateItemNode[];
+}
+
+const toOffsetDays = (date: Date | null, base: Date): number | null =>
+  date ? Math.round((date.getTime() - base.getTime()) / MS_PER_DAY) : null;
+
+const fromOffsetDays = (offset: number | null, base: Date): Date | null =>
+  offset === null ? null : new Date(base.getTime() + offset * MS_PER_DAY);
+
+// Verify project belongs to organization
+const getProjectOrThrow = async (projectId: string, organizationId: number) => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, organizationId, isActive: true },
+  });
+
+  if (!project) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Project not found', 404);
+  }
+
+  return project;
+};
+
+const getTemplateWithItems = async (templateId: string, organizationId: number) => {
+  const template = await prisma.planTemplate.findFirst({
+    where: { id: templateId, organizationId },
+    include: { items: { orderBy: { sortOrder: 'asc' } } },
+  });
+
+  if (!template) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Plan template not found', 404);
+  }
+
+  return template;
+};
+
+// Nest flat template items under their parents
+const buildTemplateTree = (
+  items: Omit<TemplateItemNode, 'children'>[],
+  parentId: string | null = null
+): TemplateItemNode[] =>
+  items
+    .filter(item => item.parentId === parentId)
+    .map(item => ({ ...item, children: buildTemplateTree(items, item.id) }));
+
+// List templates for the organization
+export const listTemplates = async (organizationId: number) => {
+  const templates = await prisma.planTemplate.findMany({
+    where: { organizationId },
+    include: { _count: { select: { items: true } } },
+    orderBy: { name: 'asc' },
+  });
+
+  return templates.map(({ _count, ...template }) => ({
+    ...template,
+    itemCount: _count.items,
+  }));
+};
+
+// Get a template with its items as a tree
+export const getTemplate = async (templateId: string, organizationId: number) => {
+  const { items, ...template } = await getTemplateWithItems(templateId, organizationId);
+
+  return {
+    ...template,
+    itemCount: items.length,
+    items: buildTemplateTree(items.map(({ templateId: _templateId, ...item }) => item)),
+  };
+};
+
+// Save a project's active plan as a template. Dates become day offsets from the project start.
+export const createTemplateFromProject = async (
+  projectId: string,
+  organizationId: number,
+  input: CreatePlanTemplateInput,
+  userId?: number,
+  userEmail?: string
+) => {
+  const project = await getProjectOrThrow(projectId, organizationId);
+
+  const existing = await prisma.planTemplate.findFirst({
+    where: { organizationId, name: input.name },
+  });
+
+  if (existing) {
+    throw new AppError(ErrorCodes.CONFLICT, `A plan template named '${input.name}' already exists`, 409);
+  }
+
+  const planItems = await prisma.planItem.findMany({
+    where: { projectId, isActive: true },
+    include: { itemType: { select: { slug: true } } },
+    orderBy: [{ depth: 'asc' }, { sortOrder: 'asc' }],
+  });
+
+  if (planItems.length === 0) {
+    throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Project has no plan items to save as a template', 400);
+  }
+
+  // Template items get their own ids so the same project can be saved more than once
+  const templateIds = new Map(planItems.map(item => [item.id, randomUUID()]));
+
+  const template = await prisma.planTemplate.create({
+    data: {
+      organizationId,
+      name: input.name,
+      description: input.description,
+      sourceProjectId: projectId,
+      createdByUserId: userId,
+      createdByEmail: userEmail,
+      items: {
+        createMany: {
+          data: planItems.map(item => ({
+            id: templateIds.get(item.id)!,
+            parentId: item.parentId ? templateIds.get(item.parentId) ?? null : null,
+            sortOrder: item.sortOrder,
+            itemTypeSlug: item.itemType.slug,
+            name: item.name,
+            description: item.description,
+            effort: item.effort,
+            startOffsetDays: toOffsetDays(item.startDate, project.startDate),
+            endOffsetDays: toOffsetDays(item.targetEndDate, project.startDate),
+          })),
+        },
+      },
+    },
+  });
+
+  return { ...template, itemCount: planItems.length };
+};
+
+// Delete a template
+export const deleteTemplate = async (templateId: string, organizationId: number) => {
+  await getTemplateWithItems(templateId, organizationId);
+
+  await prisma.planTemplate.delete({ where: { id: templateId } });
+
+  return { message: 'Plan template deleted successfully' };
+};
+
+// Create plan items from a template, appended after any existing top-level items.
+// All dates are shifted so that offset 0 lands on the chosen start date.
+export const instantiateTemplate = async (
+  projectId: string,
+  organizationId: number,
+  input: InstantiatePlanTemplateInput
+) => {
+  const project = await getProjectOrThrow(projectId, organizationId);
+  const template = await getTemplateWithItems(input.templateId, organizationId);
+  const startDate = input.startDate ?? project.startDate;
+
+  const planItemTypes = await prisma.planItemType.findMany({
+    where: {
+      isActive: true,
+      OR: [{ organizationId: null }, { organizationId }],
+    },
+    // Global types first, so an organization's own type with the same slug replaces it below
+    orderBy: { organizationId: { sort: 'asc', nulls: 'first' } },
+  });
+
+  const slugToTypeId = new Map(planItemTypes.map(type => [type.slug, type.id]));
+  const missing = [...new Set(template.items.map(item => item.itemTypeSlug))].filter(
+    slug => !slugToTypeId.has(slug)
+  );
+
+  if (missing.length > 0) {
+    throw new AppError(
+      ErrorCodes.VALIDATION_ERROR,
+      `Template uses plan item types not available here: ${missing.join(', ')}`,
+      400
+    );
+  }
+
+  const lastRoot = await prisma.planItem.findFirst({
+    where: { projectId, parentId: null, isActive: true },
+    orderBy: { sortOrder: 'desc' },
+    select: { sortOrder: true },
+  });
+  const rootOffset = lastRoot ? lastRoot.sortOrder + 1 : 0;
+
+  // New items start in their type's workflow initial status
+  const typeIds = [...new Set(template.items.map(item => slugToTypeId.get(item.itemTypeSlug)!))];
+  const initialStatuses = new Map<number, ResolvedStatus>(
+    await Promise.all(typeIds.map(async id => [id, await resolveInitialStatus(organizationId, id)] as const))
+  );
+
+  // Walk the template top-down, assigning plan item ids up front so paths can be built in memory
+  const tree = buildTemplateTree(template.items);
+  const rows: Prisma.PlanItemCreateManyInput[] = [];
+  const walk = (nodes: TemplateItemNode[], parentId: string | null, path: string, depth: number) => {
+    nodes.forEach((node, index) => {
+      const id = randomUUID();
+      const itemTypeId = slugToTypeId.get(node.itemTypeSlug)!;
+      const { status, workflowStatus } = initialStatuses.get(itemTypeId)!;
+      rows.push({
+        id,
+        projectId,
+        parentId,
+        itemTypeId,
+        name: node.name,
+        description: node.description,
+        effort: node.effort,
+        status,
+        workflowStatus,
+        startDate: fromOffsetDays(node.startOffsetDays, startDate),
+        targetEndDate: fromOffsetDays(node.endOffsetDays, startDate),
+        sortOrder: parentId ? index : rootOffset + index,
+        path,
+        depth,
+      });
+      walk(node.children, id, `${path}/${id}`, depth + 1);
+    });
+  };
+  walk(tree, null, '', 0);
+
+  await prisma.planItem.createMany({ data: rows });
+
+  return {
+    templateId: template.id,
+    templateName: template.name,
+    startDate,
+    created: rows.length,
+  };
+};
+
+export default {
+  listTemplates,
+  getTemplate,
+  createTemplateFromProject,
+  deleteTemplate,
+  instantiateTemplate,
+};
@@ -3,9 +3,20 @@
  * Suggests and applies plan item updates based on activity reports
  */
 
+import { randomUUID } from 'crypto';
 import prisma from '../../config/database';
+import { AppError } from '../../middleware/errorHandler';
 import { generateJsonCompletion, isOpenAIConfigured } from '../../services/ai/openai.service';
 import { generateReport } from '../activity-reporter/activity-reporter.service';
+import {
+  describeCustomFieldValues,
+  fieldsForItemType,
+  getCustomFields,
+  storedCustomFieldValues,
+} from '../plan-items/plan-custom-fields.service';
+import { resolveStatusChange, type ResolvedStatusChange } from '../plan-items/plan-workflows.service';
+import { addPlanItemLinks } from '../plan-items/plan-evidence.service';
+import { propagateStatusUpward } from '../plan-items/plan-rollup.service';
 import {
   getPlanUpdaterSystemPrompt,
   getPlanUpdaterUserPrompt,
@@ -76,6 +87,8 @@ export async function getPlanSuggestions(
     orderBy: [{ path: 'asc' }, { sortOrder: 'asc' }],
   });
 
+  const customFields = await getCustomFields(organizationId);
+
   // Build plan item contexts
   const planItemContexts: PlanItemContext[] = planItems.map(p => ({
     id: p.id,
@@ -88,6 +101,10 @@ export async function getPlanSuggestions(
     owner: p.owner,
     startDate: p.startDate?.toISOString().split('T')[0] || null,
     targetEndDate: p.targetEndDate?.toISOString().split('T')[0] || null,
+    customFields: describeCustomFieldValues(
+      fieldsForItemType(customFields, p.itemTypeId),
+      storedCustomFieldValues(p.customFields)
+    ),
     children: p.children.map(c => ({
       id: c.id,
       name: c.name,
@@ -178,6 +195,7 @@ export async function applyPlanUpdates(
 ): Promise<{
   updated: number;
   historyRecords: number;
+  batchId: string | null;
 }> {
   // Verify project belongs to organization
   const project = await prisma.project.findFirst({
@@ -204,23 +222,70 @@ export async function applyPlanUpdates(
   const validPlanItemIds = new Set(planItems.map(p => p.id));
   const validUpdates = input.updates.filter(u => validPlanItemIds.has(u.planItemId));
 
+  // Evidence is linked to the plan item, so it must be live content in this project
+  const evidenceContentIds = new Set(
+    (await prisma.contentItem.findMany({
+      where: { id: { in: validUpdates.flatMap(u => u.evidenceContentIds) }, projectId, isActive: true },
+      select: { id: true },
+    })).map(c => c.id)
+  );
+
   if (validUpdates.length === 0) {
-    return { updated: 0, historyRecords: 0 };
+    return { updated: 0, historyRecords: 0, batchId: null };
+  }
+
+  // Check status changes against the item types' workflows before writing anything. Other
+  // updates to the same item in this batch count towards a transition's required fields.
+  const resolvedStatuses = new Map<(typeof validUpdates)[number], ResolvedStatusChange>();
+  const statusStates = new Map(
+    planItems.map(p => [p.id, { itemTypeId: p.itemTypeId, status: p.status, workflowStatus: p.workflowStatus }])
+  );
+  for (const update of validUpdates) {
+    if (update.field !== 'status') continue;
+
+    const planItem = planItems.find(p => p.id === update.planItemId)!;
+    const batchValues = Object.fromEntries(
+      validUpdates
+        .filter(u => u.planItemId === planItem.id && u.field !== 'status')
+        .map(u => [u.field, u.value])
+    );
+    const state = statusStates.get(planItem.id)!;
+
+    try {
+      const resolved = await resolveStatusChange(
+        organizationId,
+        state,
+        update.value,
+        { ...planItem, ...batchValues },
+        update.reason
+      );
+      resolvedStatuses.set(update, resolved);
+      statusStates.set(planItem.id, { ...state, status: resolved.status, workflowStatus: resolved.workflowStatus });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw new AppError(error.code, `${planItem.name}: ${error.message}`, error.statusCode);
+      }
+      throw error;
+    }
   }
 
-  // Apply updates in a transaction
+  // Apply updates in a transaction. The history entries share a batch ID so the whole apply can be reverted.
   let historyRecords = 0;
+  const batchId = randomUUID();
 
   await prisma.$transaction(async (tx) => {
     for (const update of validUpdates) {
       const planItem = planItems.find(p => p.id === update.planItemId)!;
       let oldValue: string | null = null;
+      let newValue = update.value;
       let updateData: Record<string, unknown> = {};
+      const resolvedStatus = resolvedStatuses.get(update);
 
       switch (update.field) {
         case 'status':
           oldValue = planItem.status;
-          updateData = { status: update.value };
+          newValue = resolvedStatus!.status;
+          updateData = { status: resolvedStatus!.status, workflowStatus: resolvedStatus!.workflowStatus };
           break;
         case 'notes':
           oldValue = planItem.notes;
@@ -228,6 +293,7 @@ export async function applyPlanUpdates(
           const newNotes = planItem.notes
             ? `${planItem.notes}\n\n[${new Date().toISOString().split('T')[0]}] ${update.value}`
             : `[${new Date().toISOString().split('T')[0]}] ${update.value}`;
+          newValue = newNotes;
           updateData = { notes: newNotes };
           break;
         case 'targetEndDate':
@@ -243,34 +309,61 @@ export async function applyPlanUpdates(
       // Update the plan item
       await tx.planItem.update({
         where: { id: update.planItemId },
-        data: {
-          ...updateData,
-          references: {
-            push: update.evidenceContentIds,
-          },
-        },
+        data: updateData,
       });
 
+      await addPlanItemLinks(
+        tx,
+        projectId,
+        update.planItemId,
+        update.evidenceContentIds.filter(id => evidenceContentIds.has(id)),
+        'plan_update',
+        userId
+      );
+
       // Create history record
       await tx.planItemHistory.create({
         data: {
           planItemId: update.planItemId,
           field: update.field,
           oldValue,
-          newValue: update.value,
+          newValue,
           changedByUserId: userId,
           changedByEmail: userEmail,
           changeReason: update.reason,
+          batchId,
         },
       });
 
       historyRecords++;
+
+      if (resolvedStatus && resolvedStatus.workflowStatus !== resolvedStatus.previousWorkflowStatus) {
+        await tx.planItemHistory.create({
+          data: {
+            planItemId: update.planItemId,
+            field: 'workflowStatus',
+            oldValue: resolvedStatus.previousWorkflowStatus,
+            newValue: resolvedStatus.workflowStatus,
+            changedByUserId: userId,
+            changedByEmail: userEmail,
+            changeReason: update.reason,
+            batchId,
+          },
+        });
+        historyRecords++;
+      }
     }
   });
 
+  const statusChangedIds = validUpdates.filter(u => u.field === 'status').map(u => u.planItemId);
+  if (statusChangedIds.length > 0) {
+    await propagateStatusUpward(projectId, statusChangedIds, userId, userEmail);
+  }
+
   return {
     updated: validUpdates.length,
     historyRecords,
+    batchId,
   };
 }
 
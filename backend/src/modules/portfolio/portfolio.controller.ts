@@ -0,0 +1,36 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import * as portfolioService from './portfolio.service.js';
+import { successResponse } from '../../utils/responses.js';
+import type { PortfolioQuery, UpcomingMilestonesQuery } from './portfolio.schema.js';
+
+// GET /api/portfolio - All projects in the organization with health and latest activity
+export const getPortfolio: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const query = req.query as unknown as PortfolioQuery;
+    const portfolio = await portfolioService.getPortfolio(organizationId, query);
+    successResponse(res, portfolio);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/portfolio/milestones - Upcoming milestones across projects
+export const getUpcomingMilestones: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const query = req.query as unknown as UpcomingMilestonesQuery;
+    const milestones = await portfolioService.getUpcomingMilestones(organizationId, query);
+    successResponse(res, milestones);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,115 @@
+import { Router } from 'express';
+import * as portfolioController from './portfolio.controller.js';
+import { validateQuery } from '../../middleware/validation.js';
+import { authenticate } from '../../middleware/auth.js';
+import { requireOrgContext } from '../../middleware/orgContext.js';
+import { requirePermission } from '../../middleware/rbac.js';
+import { portfolioQuerySchema, upcomingMilestonesQuerySchema } from './portfolio.schema.js';
+
+const router = Router();
+
+// All routes require authentication, organization context and read access to the portfolio menu
+router.use(authenticate);
+router.use(requireOrgContext);
+router.use(requirePermission('portfolio', 'read'));
+
+/**
+ * @swagger
+ * /portfolio:
+ *   get:
+ *     summary: Get the project portfolio
+ *     description: |
+ *       Every project in the organization with its RAG health, next open milestone, overdue and
+ *       blocked item counts, when content was last ingested and when a report was last generated.
+ *       Also returns a RAG summary and the organization's clients for filtering.
+ *     tags: [Portfolio]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: query
+ *         name: client
+ *         schema:
+ *           type: string
+ *         description: Exact client name (case-insensitive)
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, completed, on_hold, cancelled]
+ *       - in: query
+ *         name: health
+ *         schema:
+ *           type: string
+ *           enum: [green, amber, red]
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Matches project name, client or description
+ *     responses:
+ *       200:
+ *         description: Portfolio rows, summary and clients
+ *       403:
+ *         description: No read access to the portfolio
+ */
+router.get(
+  '/',
+  validateQuery(portfolioQuerySchema),
+  portfolioController.getPortfolio
+);
+
+/**
+ * @swagger
+ * /portfolio/milestones:
+ *   get:
+ *     summary: Get upcoming milestones across projects
+ *     description: |
+ *       Open milestones due within the coming days across every matching project, soonest first,
+ *       with their project and workstream. Overdue milestones are included and flagged unless
+ *       includeOverdue is false.
+ *     tags: [Portfolio]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 365
+ *           default: 90
+ *       - in: query
+ *         name: includeOverdue
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *       - in: query
+ *         name: client
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, completed, on_hold, cancelled]
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Milestone timeline
+ *       403:
+ *         description: No read access to the portfolio
+ */
+router.get(
+  '/milestones',
+  validateQuery(upcomingMilestonesQuerySchema),
+  portfolioController.getUpcomingMilestones
+);
+
+export default router;
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+const rags = ['green', 'amber', 'red'] as const;
+
+// Project filters shared by the portfolio endpoints
+const projectFiltersSchema = z.object({
+  // Exact client name, case-insensitive
+  client: z.string().trim().min(1).optional(),
+  status: z.enum(['active', 'completed', 'on_hold', 'cancelled']).optional(),
+  search: z.string().trim().min(1).optional(),
+});
+
+// Schema for GET /api/portfolio
+export const portfolioQuerySchema = projectFiltersSchema.extend({
+  health: z.enum(rags).optional(),
+});
+
+// Schema for GET /api/portfolio/milestones
+export const upcomingMilestonesQuerySchema = projectFiltersSchema.extend({
+  days: z.coerce.number().int().min(1).max(365).default(90),
+  // Open milestones already past their target date are listed first unless excluded
+  includeOverdue: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform(value => value === 'true'),
+});
+
+export type PortfolioQuery = z.infer<typeof portfolioQuerySchema>;
+export type UpcomingMilestonesQuery = z.infer<typeof upcomingMilestonesQuerySchema>;
@@ -0,0 +1,199 @@
+import type { Prisma } from '@prisma/client';
+import prisma from '../../config/database.js';
+import { computeProjectsHealth } from '../projects/project-health.service.js';
+import type { HealthFactor } from '../projects/project-health.service.js';
+import type { Rag } from '../../services/ai/prompts/activity-reporter.js';
+import type { PortfolioQuery, UpcomingMilestonesQuery } from './portfolio.schema.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Milestones are the second level of the plan hierarchy, under workstreams
+const MILESTONE_LEVEL = 2;
+
+const CLOSED_STATUSES = ['completed', 'cancelled'];
+
+const startOfToday = () => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+};
+
+const daysUntil = (date: Date, today: Date) => Math.round((date.getTime() - today.getTime()) / MS_PER_DAY);
+
+const projectWhere = (
+  organizationId: number,
+  filters: Pick<PortfolioQuery, 'client' | 'status' | 'search'>
+): Prisma.ProjectWhereInput => ({
+  organizationId,
+  isActive: true,
+  ...(filters.status && { status: filters.status }),
+  ...(filters.client && { client: { equals: filters.client, mode: 'insensitive' } }),
+  ...(filters.search && {
+    OR: [
+      { name: { contains: filters.search, mode: 'insensitive' } },
+      { client: { contains: filters.search, mode: 'insensitive' } },
+      { description: { contains: filters.search, mode: 'insensitive' } },
+    ],
+  }),
+});
+
+// Every project in the organization with its health, next milestone, overdue work and latest activity
+export const getPortfolio = async (organizationId: number, query: PortfolioQuery) => {
+  const today = startOfToday();
+
+  const [projects, clientRows] = await Promise.all([
+    prisma.project.findMany({
+      where: projectWhere(organizationId, query),
+      select: {
+        id: true,
+        name: true,
+        client: true,
+        status: true,
+        startDate: true,
+        targetEndDate: true,
+        statusConfig: true,
+      },
+      orderBy: { name: 'asc' },
+    }),
+    // Unfiltered, so the client filter can always offer every client
+    prisma.project.findMany({
+      where: { organizationId, isActive: true, client: { not: null } },
+      select: { client: true },
+      distinct: ['client'],
+      orderBy: { client: 'asc' },
+    }),
+  ]);
+
+  const projectIds = projects.map(p => p.id);
+
+  const [healths, milestones, latestContent, latestReports] = await Promise.all([
+    computeProjectsHealth(projects),
+    prisma.planItem.findMany({
+      where: {
+        projectId: { in: projectIds },
+        isActive: true,
+        itemType: { level: MILESTONE_LEVEL },
+        status: { notIn: CLOSED_STATUSES },
+        targetEndDate: { gte: today },
+      },
+      select: { id: true, projectId: true, name: true, status: true, targetEndDate: true },
+      orderBy: [{ targetEndDate: 'asc' }, { sortOrder: 'asc' }],
+    }),
+    prisma.contentItem.groupBy({
+      by: ['projectId'],
+      where: { projectId: { in: projectIds }, isActive: true },
+      _max: { createdAt: true },
+    }),
+    prisma.activityReport.groupBy({
+      by: ['projectId'],
+      where: { projectId: { in: projectIds }, isActive: true },
+      _max: { createdAt: true },
+    }),
+  ]);
+
+  const contentByProject = new Map(latestContent.map(row => [row.projectId, row._max.createdAt]));
+  const reportsByProject = new Map(latestReports.map(row => [row.projectId, row._max.createdAt]));
+  const factorValue = (factors: HealthFactor[], key: HealthFactor['key']) =>
+    factors.find(f => f.key === key)?.value ?? 0;
+
+  const rows = projects
+    .map(({ statusConfig: _statusConfig, ...project }) => {
+      const health = healths.get(project.id)!;
+      // Milestones are ordered by date, so the first one for the project is the next due
+      const next = milestones.find(m => m.projectId === project.id);
+
+      return {
+        ...project,
+        health: {
+          rag: health.rag,
+          score: health.score,
+          factors: health.factors.map(f => ({ key: f.key, label: f.label, rag: f.rag, detail: f.detail })),
+        },
+        nextMilestone: next
+          ? {
+              id: next.id,
+              name: next.name,
+              status: next.status,
+              targetEndDate: next.targetEndDate,
+              daysUntil: daysUntil(next.targetEndDate!, today),
+            }
+          : null,
+        overdueItems: factorValue(health.factors, 'overdueItems'),
+        blockedItems: factorValue(health.factors, 'blockedItems'),
+        lastContentIngestedAt: contentByProject.get(project.id) ?? null,
+        lastReportAt: reportsByProject.get(project.id) ?? null,
+      };
+    })
+    .filter(row => !query.health || row.health.rag === query.health);
+
+  const countRag = (rag: Rag) => rows.filter(row => row.health.rag === rag).length;
+
+  return {
+    asOf: today.toISOString().split('T')[0],
+    summary: {
+      totalProjects: rows.length,
+      green: countRag('green'),
+      amber: countRag('amber'),
+      red: countRag('red'),
+      overdueItems: rows.reduce((sum, row) => sum + row.overdueItems, 0),
+    },
+    clients: clientRows.map(row => row.client!),
+    projects: rows,
+  };
+};
+
+// Open milestones due in the coming days across every matching project, soonest first
+export const getUpcomingMilestones = async (organizationId: number, query: UpcomingMilestonesQuery) => {
+  const today = startOfToday();
+  const until = new Date(today.getTime() + query.days * MS_PER_DAY);
+
+  const milestones = await prisma.planItem.findMany({
+    where: {
+      project: projectWhere(organizationId, query),
+      isActive: true,
+      itemType: { level: MILESTONE_LEVEL },
+      status: { notIn: CLOSED_STATUSES },
+      targetEndDate: query.includeOverdue ? { lte: until } : { gte: today, lte: until },
+    },
+    select: {
+      id: true,
+      name: true,
+      status: true,
+      owner: true,
+      path: true,
+      targetEndDate: true,
+      project: { select: { id: true, name: true, client: true } },
+    },
+    orderBy: [{ targetEndDate: 'asc' }, { name: 'asc' }],
+  });
+
+  // A milestone's path starts with its workstream's id
+  const workstreamIds = Array.from(
+    new Set(milestones.map(m => m.path.split('/')[1]).filter((id): id is string => !!id))
+  );
+  const workstreams = workstreamIds.length > 0
+    ? await prisma.planItem.findMany({
+        where: { id: { in: workstreamIds } },
+        select: { id: true, name: true },
+      })
+    : [];
+  const workstreamById = new Map(workstreams.map(w => [w.id, w]));
+
+  return {
+    from: today.toISOString().split('T')[0],
+    to: until.toISOString().split('T')[0],
+    milestones: milestones.map(({ path, ...milestone }) => {
+      const days = daysUntil(milestone.targetEndDate!, today);
+      return {
+        ...milestone,
+        workstream: workstreamById.get(path.split('/')[1]) ?? null,
+        daysUntil: days,
+        isOverdue: days < 0,
+      };
+    }),
+  };
+};
+
+export default {
+  getPortfolio,
+  getUpcomingMilestones,
+};
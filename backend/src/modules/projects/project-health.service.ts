@@ -0,0 +1,354 @@
+import prisma from '../../config/database.js';
+import { AppError } from '../../middleware/errorHandler.js';
+import { ErrorCodes } from '../../utils/responses.js';
+import { healthThresholdsSchema } from './projects.schema.js';
+import type { HealthThresholds } from './projects.schema.js';
+import type { ProjectHealthSummary, Rag } from '../../services/ai/prompts/activity-reporter.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export type HealthFactorKey = keyof HealthThresholds;
+
+export interface RagThreshold {
+  amber: number;
+  red: number;
+}
+
+export interface HealthFactor {
+  key: HealthFactorKey;
+  label: string;
+  value: number | null;
+  rag: Rag;
+  detail: string;
+  threshold: RagThreshold;
+}
+
+export interface HealthAssessment {
+  rag: Rag;
+  // 0-100: the average of the factor ratings, green counting 100, amber 50 and red 0
+  score: number;
+  factors: HealthFactor[];
+}
+
+export interface WorkstreamHealth extends HealthAssessment {
+  planItemId: string;
+  name: string;
+  status: string;
+}
+
+export interface ProjectHealth extends HealthAssessment {
+  asOf: string;
+  thresholds: Record<HealthFactorKey, RagThreshold>;
+  workstreams: WorkstreamHealth[];
+}
+
+// Used for any factor a project's statusConfig.health does not override
+export const DEFAULT_HEALTH_THRESHOLDS: Record<HealthFactorKey, RagThreshold> = {
+  scheduleSlipDays: { amber: 5, red: 15 },
+  overdueItems: { amber: 1, red: 5 },
+  highRisks: { amber: 1, red: 3 },
+  blockedItems: { amber: 1, red: 3 },
+  contentAgeDays: { amber: 14, red: 30 },
+};
+
+const FACTOR_LABELS: Record<HealthFactorKey, string> = {
+  scheduleSlipDays: 'Schedule slip',
+  overdueItems: 'Overdue items',
+  highRisks: 'High-severity risks',
+  blockedItems: 'Blocked items',
+  contentAgeDays: 'Content recency',
+};
+
+const RAG_ORDER: Rag[] = ['green', 'amber', 'red'];
+const RAG_POINTS: Record<Rag, number> = { green: 100, amber: 50, red: 0 };
+
+const CLOSED_STATUSES = ['completed', 'cancelled'];
+
+interface HealthPlanItem {
+  id: string;
+  parentId: string | null;
+  name: string;
+  path: string;
+  status: string;
+  targetEndDate: Date | null;
+}
+
+const formatDate = (date: Date): string => date.toISOString().split('T')[0];
+
+const daysBetween = (from: Date, to: Date): number => Math.round((to.getTime() - from.getTime()) / MS_PER_DAY);
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// Merge a project's statusConfig.health over the defaults. Invalid stored config is ignored.
+export const resolveHealthThresholds = (statusConfig: unknown): Record<HealthFactorKey, RagThreshold> => {
+  const stored = (statusConfig as { health?: unknown } | null)?.health;
+  const parsed = healthThresholdsSchema.safeParse(stored ?? {});
+  const overrides = parsed.success ? parsed.data : {};
+
+  return {
+    scheduleSlipDays: overrides.scheduleSlipDays ?? DEFAULT_HEALTH_THRESHOLDS.scheduleSlipDays,
+    overdueItems: overrides.overdueItems ?? DEFAULT_HEALTH_THRESHOLDS.overdueItems,
+    highRisks: overrides.highRisks ?? DEFAULT_HEALTH_THRESHOLDS.highRisks,
+    blockedItems: overrides.blockedItems ?? DEFAULT_HEALTH_THRESHOLDS.blockedItems,
+    contentAgeDays: overrides.contentAgeDays ?? DEFAULT_HEALTH_THRESHOLDS.contentAgeDays,
+  };
+};
+
+const rate = (value: number, threshold: RagThreshold): Rag => {
+  if (value >= threshold.red) return 'red';
+  if (value >= threshold.amber) return 'amber';
+  return 'green';
+};
+
+const factor = (
+  key: HealthFactorKey,
+  value: number | null,
+  detail: string,
+  thresholds: Record<HealthFactorKey, RagThreshold>
+): HealthFactor => ({
+  key,
+  label: FACTOR_LABELS[key],
+  value,
+  // A factor that cannot be measured (no target date) does not count against health
+  rag: value === null ? 'green' : rate(value, thresholds[key]),
+  detail,
+  threshold: thresholds[key],
+});
+
+const assess = (factors: HealthFactor[]): HealthAssessment => ({
+  rag: factors.reduce<Rag>((worst, f) => (RAG_ORDER.indexOf(f.rag) > RAG_ORDER.indexOf(worst) ? f.rag : worst), 'green'),
+  score: Math.round(factors.reduce((sum, f) => sum + RAG_POINTS[f.rag], 0) / factors.length),
+  factors,
+});
+
+interface ScopeInput {
+  target: Date | null;
+  isClosed: boolean;
+  // Items whose dates and statuses count towards the scope
+  items: HealthPlanItem[];
+  highRisks: number;
+  // Latest content for the scope (or the date staleness is counted from when there is none)
+  // and how to explain its age
+  content: { date: Date; describe: (days: number) => string };
+}
+
+// Rate one scope (the project or a workstream) against the thresholds
+const assessScope = (
+  scope: ScopeInput,
+  today: Date,
+  thresholds: Record<HealthFactorKey, RagThreshold>
+): HealthAssessment => {
+  const open = scope.items.filter(i => !CLOSED_STATUSES.includes(i.status));
+
+  // Slip: how far the forecast end (today while still open, or the latest open target) is past the target
+  let slip: HealthFactor;
+  if (!scope.target) {
+    slip = factor('scheduleSlipDays', null, 'No target end date set', thresholds);
+  } else {
+    const openTargets = open.map(i => i.targetEndDate).filter((d): d is Date => d !== null);
+    const forecast = [...openTargets, ...(scope.isClosed ? [] : [today])]
+      .reduce<Date | null>((latest, d) => (!latest || d > latest ? d : latest), null);
+    const days = forecast ? Math.max(0, daysBetween(scope.target, forecast)) : 0;
+    slip = factor(
+      'scheduleSlipDays',
+      days,
+      days > 0
+        ? `Forecast end ${formatDate(forecast!)} is ${plural(days, 'day')} past the ${formatDate(scope.target)} target`
+        : `On track for the ${formatDate(scope.target)} target`,
+      thresholds
+    );
+  }
+
+  const overdue = open.filter(i => i.targetEndDate && i.targetEndDate < today).length;
+  const blocked = open.filter(i => i.status === 'blocked').length;
+
+  const contentAge = Math.max(0, daysBetween(scope.content.date, today));
+
+  return assess([
+    slip,
+    factor('overdueItems', overdue, `${plural(overdue, 'open item')} past the target end date`, thresholds),
+    factor('highRisks', scope.highRisks, `${plural(scope.highRisks, 'open high-severity risk')} in the RAID register`, thresholds),
+    factor('blockedItems', blocked, `${plural(blocked, 'item')} blocked`, thresholds),
+    factor('contentAgeDays', contentAge, scope.content.describe(contentAge), thresholds),
+  ]);
+};
+
+interface HealthProject {
+  id: string;
+  status: string;
+  startDate: Date;
+  targetEndDate: Date | null;
+  statusConfig: unknown;
+}
+
+// What a project's health is computed from
+interface HealthData {
+  planItems: HealthPlanItem[];
+  highRisks: Array<{ planItemId: string | null }>;
+  latestContent: Date | null;
+  contentLinks: Array<{ planItemId: string; dateOccurred: Date }>;
+}
+
+// Load the health inputs for several projects at once, in one query per kind of record
+const loadHealthData = async (projectIds: string[]): Promise<Map<string, HealthData>> => {
+  const [planItems, highRisks, latestContent, contentLinks] = await Promise.all([
+    prisma.planItem.findMany({
+      where: { projectId: { in: projectIds }, isActive: true },
+      select: { id: true, projectId: true, parentId: true, name: true, path: true, status: true, targetEndDate: true },
+      orderBy: [{ depth: 'asc' }, { sortOrder: 'asc' }],
+    }),
+    prisma.raidItem.findMany({
+      where: {
+        projectId: { in: projectIds },
+        isActive: true,
+        type: 'risk',
+        severity: 'high',
+        status: { in: ['open', 'in_progress'] },
+      },
+      select: { projectId: true, planItemId: true },
+    }),
+    prisma.contentItem.groupBy({
+      by: ['projectId'],
+      where: { projectId: { in: projectIds }, isActive: true },
+      _max: { dateOccurred: true },
+    }),
+    prisma.planItemContentLink.findMany({
+      where: { projectId: { in: projectIds }, planItem: { isActive: true }, contentItem: { isActive: true } },
+      select: { projectId: true, planItemId: true, contentItem: { select: { dateOccurred: true } } },
+    }),
+  ]);
+
+  const data = new Map<string, HealthData>(
+    projectIds.map(id => [id, { planItems: [], highRisks: [], latestContent: null, contentLinks: [] }])
+  );
+  for (const { projectId, ...item } of planItems) data.get(projectId)?.planItems.push(item);
+  for (const { projectId, ...risk } of highRisks) data.get(projectId)?.highRisks.push(risk);
+  for (const row of latestContent) {
+    const entry = data.get(row.projectId);
+    if (entry) entry.latestContent = row._max.dateOccurred;
+  }
+  for (const link of contentLinks) {
+    data.get(link.projectId)?.contentLinks.push({ planItemId: link.planItemId, dateOccurred: link.contentItem.dateOccurred });
+  }
+  return data;
+};
+
+const computeProjectHealth = (
+  project: HealthProject,
+  { planItems, highRisks, latestContent: projectLatestContent, contentLinks }: HealthData
+): ProjectHealth => {
+  const now = new Date();
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const thresholds = resolveHealthThresholds(project.statusConfig);
+
+  // Without any content, staleness counts from the project start
+  const projectContent = projectLatestContent
+    ? {
+        date: projectLatestContent,
+        describe: (days: number) => `Latest content is ${plural(days, 'day')} old (${formatDate(projectLatestContent)})`,
+      }
+    : {
+        date: project.startDate,
+        describe: (days: number) => `No content captured in the ${plural(days, 'day')} since the project started`,
+      };
+
+  const overall = assessScope(
+    {
+      target: project.targetEndDate,
+      isClosed: CLOSED_STATUSES.includes(project.status),
+      items: planItems,
+      highRisks: highRisks.length,
+      content: projectContent,
+    },
+    today,
+    thresholds
+  );
+
+  // Workstreams are the top-level plan items; each covers itself and everything beneath it
+  const workstreams = planItems
+    .filter(item => !item.parentId)
+    .map(workstream => {
+      const items = planItems.filter(i => i.id === workstream.id || `${i.path}/`.startsWith(`/${workstream.id}/`));
+      const ids = new Set(items.map(i => i.id));
+      const latestLinked = contentLinks
+        .filter(link => ids.has(link.planItemId))
+        .map(link => link.dateOccurred)
+        .reduce<Date | null>((latest, d) => (!latest || d > latest ? d : latest), null);
+
+      const assessment = assessScope(
+        {
+          target: workstream.targetEndDate,
+          isClosed: CLOSED_STATUSES.includes(workstream.status),
+          items: items.filter(i => i.id !== workstream.id),
+          highRisks: highRisks.filter(r => r.planItemId && ids.has(r.planItemId)).length,
+          // Workstreams without linked content are judged on the project's content
+          content: latestLinked
+            ? {
+                date: latestLinked,
+                describe: (days: number) => `Latest linked content is ${plural(days, 'day')} old (${formatDate(latestLinked)})`,
+              }
+            : {
+                date: projectContent.date,
+                describe: (days: number) => `No content linked to this workstream; ${projectContent.describe(days).toLowerCase()}`,
+              },
+        },
+        today,
+        thresholds
+      );
+
+      return { planItemId: workstream.id, name: workstream.name, status: workstream.status, ...assessment };
+    });
+
+  return { asOf: formatDate(today), thresholds, ...overall, workstreams };
+};
+
+// Health for several projects, by project id, loading their data together
+export const computeProjectsHealth = async (projects: HealthProject[]): Promise<Map<string, ProjectHealth>> => {
+  const data = await loadHealthData(projects.map(p => p.id));
+  return new Map(projects.map(project => [project.id, computeProjectHealth(project, data.get(project.id)!)]));
+};
+
+const computeOneProjectHealth = async (project: HealthProject): Promise<ProjectHealth> =>
+  (await computeProjectsHealth([project])).get(project.id)!;
+
+// Health for one project, scoped to the organization
+export const getProjectHealth = async (projectId: string, organizationId: number): Promise<ProjectHealth> => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, organizationId, isActive: true },
+    select: { id: true, status: true, startDate: true, targetEndDate: true, statusConfig: true },
+  });
+
+  if (!project) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Project not found', 404);
+  }
+
+  return computeOneProjectHealth(project);
+};
+
+// Health for the activity reporter, condensed to the ratings and their explanations
+export const getProjectHealthForReport = async (projectId: string): Promise<ProjectHealthSummary | null> => {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { id: true, status: true, startDate: true, targetEndDate: true, statusConfig: true },
+  });
+
+  if (!project) return null;
+
+  const health = await computeOneProjectHealth(project);
+  const toFactors = (factors: HealthFactor[]) =>
+    factors.map(f => ({ key: f.key, label: f.label, rag: f.rag, detail: f.detail }));
+
+  return {
+    asOf: health.asOf,
+    rag: health.rag,
+    score: health.score,
+    factors: toFactors(health.factors),
+    workstreams: health.workstreams.map(w => ({
+      planItemId: w.planItemId,
+      name: w.name,
+      rag: w.rag,
+      score: w.score,
+      factors: toFactors(w.factors),
+    })),
+  };
+};
@@ -1,10 +1,12 @@
 import { Request, Response, NextFunction, RequestHandler } from 'express';
 import * as projectsService from './projects.service.js';
+import * as projectHealthService from './project-health.service.js';
 import { successResponse, paginatedResponse } from '../../utils/responses.js';
 import type {
   CreateProjectInput,
   UpdateProjectInput,
   ListProjectsQuery,
+  CloneProjectInput,
 } from './projects.schema.js';
 
 export const listProjects: RequestHandler = async (
@@ -64,6 +66,20 @@ export const updateProject = async (
   }
 };
 
+export const cloneProject = async (
+  req: Request<{ id: string }, {}, CloneProjectInput>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const project = await projectsService.cloneProject(req.params.id, organizationId, req.body);
+    successResponse(res, project, 201);
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const deleteProject = async (
   req: Request<{ id: string }>,
   res: Response,
@@ -71,7 +87,7 @@ export const deleteProject = async (
 ): Promise<void> => {
   try {
     const organizationId = req.organizationId!;
-    const result = await projectsService.deleteProject(req.params.id, organizationId);
+    const result = await projectsService.deleteProject(req.params.id, organizationId, req.user?.id, req.user?.email);
     successResponse(res, result);
   } catch (error) {
     next(error);
@@ -91,3 +107,17 @@ export const getProjectDashboard = async (
     next(error);
   }
 };
+
+export const getProjectHealth = async (
+  req: Request<{ projectId: string }>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const result = await projectHealthService.getProjectHealth(req.params.projectId, organizationId);
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -2,21 +2,35 @@ import { Router } from 'express';
 import multer from 'multer';
 import * as projectsController from './projects.controller';
 import * as planItemsController from '../plan-items/plan-items.controller';
+import * as planDependenciesController from '../plan-items/plan-dependencies.controller';
 import * as contentItemsController from '../content-items/content-items.controller';
 import * as activityReporterController from '../activity-reporter/activity-reporter.controller';
 import * as planUpdaterController from '../plan-updater/plan-updater.controller';
 import * as planCreatorController from '../plan-creator/plan-creator.controller';
+import * as raidController from '../raid/raid.controller';
+import * as baselinesController from '../baselines/baselines.controller';
+import * as planTemplatesController from '../plan-templates/plan-templates.controller';
+import * as trashController from '../trash/trash.controller';
+import * as commentsController from '../comments/comments.controller';
+import * as stakeholdersController from '../stakeholders/stakeholders.controller';
 import { validateBody, validateQuery } from '../../middleware/validation';
 import { authenticate } from '../../middleware/auth';
 import { requireOrgContext } from '../../middleware/orgContext';
+import { uploadSingleFile } from '../../middleware/upload.js';
 import {
   createProjectSchema,
   updateProjectSchema,
   listProjectsQuerySchema,
+  cloneProjectSchema,
 } from './projects.schema';
 import {
   createPlanItemSchema,
   listPlanItemsQuerySchema,
+  createDependencySchema,
+  revertPlanSchema,
+  revertOptionsSchema,
+  projectHistoryQuerySchema,
+  planDiffQuerySchema,
 } from '../plan-items/plan-items.schema';
 import {
   listContentItemsQuerySchema,
@@ -33,16 +47,51 @@ import {
   analyzePlanContentSchema,
   createPlanFromSuggestionsSchema,
 } from '../plan-creator/plan-creator.schema';
+import {
+  createRaidItemSchema,
+  updateRaidItemSchema,
+  listRaidItemsQuerySchema,
+  listActionsQuerySchema,
+  completeActionSchema,
+  mergeActionSchema,
+  listDecisionsQuerySchema,
+  supersedeDecisionSchema,
+} from '../raid/raid.schema';
+import {
+  createStakeholderSchema,
+  updateStakeholderSchema,
+  listStakeholdersQuerySchema,
+  mergeStakeholderSchema,
+} from '../stakeholders/stakeholders.schema';
+import { createBaselineSchema } from '../baselines/baselines.schema';
+import { isXlsxFile } from '../plan-items/plan-xlsx.service';
+import {
+  createPlanTemplateSchema,
+  instantiatePlanTemplateSchema,
+} from '../plan-templates/plan-templates.schema';
 
-// Configure multer for CSV upload (memory storage, 5MB limit)
+// Configure multer for CSV/XLSX upload (memory storage, 5MB limit)
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: { fileSize: 5 * 1024 * 1024 }, // 5MB
   fileFilter: (req, file, cb) => {
-    if (file.mimetype === 'text/csv' || file.originalname.endsWith('.csv')) {
+    if (file.mimetype === 'text/csv' || file.originalname.endsWith('.csv') || isXlsxFile(file)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only CSV or XLSX files are allowed'));
+    }
+  },
+});
+
+// MS Project XML files run larger than CSV exports (memory storage, 10MB limit)
+const xmlUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024 }, // 10MB
+  fileFilter: (req, file, cb) => {
+    if (['application/xml', 'text/xml'].includes(file.mimetype) || file.originalname.endsWith('.xml')) {
       cb(null, true);
     } else {
-      cb(new Error('Only CSV files are allowed'));
+      cb(new Error('Only XML files are allowed'));
     }
   },
 });
@@ -158,6 +207,29 @@ router.get(
   contentItemsController.getActivityItemTypes
 );
 
+/**
+ * @swagger
+ * /projects/trash:
+ *   get:
+ *     summary: List deleted projects
+ *     description: |
+ *       Projects in the organization's trash, with who deleted them and when they will be purged.
+ *       Retention is set by the trash_retention_days platform setting.
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *     responses:
+ *       200:
+ *         description: Deleted projects
+ */
+router.get(
+  '/trash',
+  trashController.listDeletedProjects
+);
+
 /**
  * @swagger
  * /projects/{id}:
@@ -232,6 +304,9 @@ router.get(
  *                 type: string
  *                 enum: [active, completed, on_hold, cancelled]
  *                 default: active
+ *               templateId:
+ *                 type: string
+ *                 description: Plan template to seed the new project's plan from, dated from startDate
  *     responses:
  *       201:
  *         description: Project created
@@ -284,6 +359,13 @@ router.post(
  *               status:
  *                 type: string
  *                 enum: [active, completed, on_hold, cancelled]
+ *               progressWeighting:
+ *                 type: string
+ *                 enum: [count, effort]
+ *                 description: Weight plan progress roll-up by child count or by item effort
+ *               autoRollupStatus:
+ *                 type: boolean
+ *                 description: Propagate derived status changes up to parent plan items
  *     responses:
  *       200:
  *         description: Project updated
@@ -301,7 +383,7 @@ router.put(
  * /projects/{id}:
  *   delete:
  *     summary: Delete a project
- *     description: Soft delete a project (sets isActive to false)
+ *     description: Soft delete a project. It moves to the organization's trash until restored or purged.
  *     tags: [Projects]
  *     security:
  *       - bearerAuth: []
@@ -325,6 +407,108 @@ router.delete(
   projectsController.deleteProject
 );
 
+/**
+ * @swagger
+ * /projects/{id}/restore:
+ *   post:
+ *     summary: Restore a deleted project
+ *     description: Restore a project from the organization's trash
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Project UUID
+ *     responses:
+ *       200:
+ *         description: Project restored
+ *       404:
+ *         description: Deleted project not found
+ *       409:
+ *         description: Another project has the same name
+ */
+router.post(
+  '/:id/restore',
+  trashController.restoreProject
+);
+
+/**
+ * @swagger
+ * /projects/{id}/clone:
+ *   post:
+ *     summary: Clone a project
+ *     description: |
+ *       Copy a project with its full plan tree, dependencies and status configuration under a new
+ *       name. Plan item ids, parent links and materialized paths are remapped. Content items (with
+ *       chunk embeddings) and activity reports are copied only when requested. All dates shift by
+ *       the difference between the source start date and startDate.
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Source project UUID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "Acme Phase 2"
+ *               client:
+ *                 type: string
+ *                 description: Defaults to the source project's client
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *                 description: Start date of the copy; defaults to the source start date
+ *               resetStatuses:
+ *                 type: boolean
+ *                 default: true
+ *                 description: Set every plan item back to not_started
+ *               resetActualDates:
+ *                 type: boolean
+ *                 default: true
+ *                 description: Clear actual start and end dates
+ *               includeContent:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Copy content items with their chunks and embeddings
+ *               includeReports:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Copy prior activity reports
+ *     responses:
+ *       201:
+ *         description: Project cloned, with counts of what was copied
+ *       404:
+ *         description: Project not found
+ *       409:
+ *         description: A project with this name already exists
+ */
+router.post(
+  '/:id/clone',
+  validateBody(cloneProjectSchema),
+  projectsController.cloneProject
+);
+
 // ============================================================================
 // Dashboard Routes (under project)
 // ============================================================================
@@ -356,6 +540,39 @@ router.get(
   projectsController.getProjectDashboard
 );
 
+/**
+ * @swagger
+ * /projects/{projectId}/health:
+ *   get:
+ *     summary: Get project health
+ *     description: |
+ *       Red/amber/green health for the project and each top-level workstream, with the factors behind
+ *       each rating: schedule slip against the target end date, overdue items, open high-severity
+ *       risks, blocked items and how recent the latest content is. Thresholds come from
+ *       `statusConfig.health` on the project, falling back to the defaults.
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Project UUID
+ *     responses:
+ *       200:
+ *         description: Overall and per-workstream rating, score and contributing factors
+ *       404:
+ *         description: Project not found
+ */
+router.get(
+  '/:projectId/health',
+  projectsController.getProjectHealth
+);
+
 // ============================================================================
 // Nested Plan Routes (under project)
 // ============================================================================
@@ -365,7 +582,7 @@ router.get(
  * /projects/{projectId}/plan:
  *   get:
  *     summary: Get project plan tree
- *     description: Retrieve the full hierarchical plan tree for a project
+ *     description: Retrieve the full hierarchical plan tree for a project. Each item carries its rolled-up progress (0-100) and the status derived from its children.
  *     tags: [Plan Items]
  *     security:
  *       - bearerAuth: []
@@ -384,6 +601,14 @@ router.get(
  *           type: boolean
  *           default: true
  *         description: Include completed items
+ *       - in: query
+ *         name: assigneeId
+ *         schema:
+ *           oneOf:
+ *             - type: integer
+ *             - type: string
+ *               enum: [me]
+ *         description: Only items assigned to this member, or to the caller with "me". Items whose parent is filtered out are listed at the top level.
  *     responses:
  *       200:
  *         description: Hierarchical plan tree
@@ -433,10 +658,15 @@ router.get(
  *               parentId:
  *                 type: string
  *                 description: Parent plan item UUID for nesting
+ *               owner:
+ *                 type: string
+ *                 description: Free-text owner, for people outside the organization
+ *               ownerUserId:
+ *                 type: integer
+ *                 description: Organization member to assign; their name is used as the owner
  *               status:
  *                 type: string
- *                 enum: [not_started, in_progress, completed, blocked]
- *                 default: not_started
+ *                 description: Built-in status or workflow status key. Defaults to not_started, or the workflow's initial status.
  *               startDate:
  *                 type: string
  *                 format: date
@@ -445,6 +675,13 @@ router.get(
  *                 format: date
  *               sortOrder:
  *                 type: integer
+ *               effort:
+ *                 type: number
+ *                 description: Relative effort, used when the project weights progress by effort
+ *               customFields:
+ *                 type: object
+ *                 additionalProperties: true
+ *                 description: Custom field values keyed by field key; required fields must be set
  *     responses:
  *       201:
  *         description: Plan item created
@@ -461,8 +698,12 @@ router.post(
  * @swagger
  * /projects/{projectId}/plan/import/preview:
  *   post:
- *     summary: Preview CSV import
- *     description: Preview plan items from a CSV file before importing
+ *     summary: Preview CSV or XLSX import
+ *     description: |
+ *       Preview plan items from a CSV or XLSX file before importing. Each worksheet of an XLSX
+ *       workbook is read separately, with either hierarchy columns (Workstream, Milestone, ...) or a
+ *       Name column whose level comes from a Level column, row grouping or cell indent. Invalid
+ *       cells are reported as errors in Sheet!Cell form.
  *     tags: [Plan Items]
  *     security:
  *       - bearerAuth: []
@@ -484,7 +725,7 @@ router.post(
  *               file:
  *                 type: string
  *                 format: binary
- *                 description: CSV file to preview
+ *                 description: CSV or XLSX file to preview
  *     responses:
  *       200:
  *         description: Preview of items to be imported
@@ -499,8 +740,11 @@ router.post(
  * @swagger
  * /projects/{projectId}/plan/import:
  *   post:
- *     summary: Import plan items from CSV
- *     description: Bulk import plan items from a CSV file
+ *     summary: Import plan items from CSV or XLSX
+ *     description: |
+ *       Bulk import plan items from a CSV or XLSX file. Invalid XLSX cells are skipped and reported
+ *       with their sheet; the rest of the row is still imported. Extra columns whose header matches
+ *       a custom field key or label set that field on the row's item.
  *     tags: [Plan Items]
  *     security:
  *       - bearerAuth: []
@@ -522,7 +766,7 @@ router.post(
  *               file:
  *                 type: string
  *                 format: binary
- *                 description: CSV file to import
+ *                 description: CSV or XLSX file to import
  *     responses:
  *       200:
  *         description: Import results
@@ -533,16 +777,14 @@ router.post(
   planItemsController.importPlanItems
 );
 
-// ============================================================================
-// Nested Plan Creator Routes (AI-powered plan generation)
-// ============================================================================
-
 /**
  * @swagger
- * /projects/{projectId}/plan/ai-analyze:
+ * /projects/{projectId}/plan/import/mspdi/preview:
  *   post:
- *     summary: Analyze content and generate plan suggestions
- *     description: Use AI to analyze project requirements/content and generate a structured plan
+ *     summary: Preview MS Project XML import
+ *     description: |
+ *       Preview the tasks in an MS Project XML (MSPDI) file before importing. Rows use the same
+ *       headers/rows shape as the CSV preview, with outline levels resolved to plan item types.
  *     tags: [Plan Items]
  *     security:
  *       - bearerAuth: []
@@ -557,34 +799,34 @@ router.post(
  *     requestBody:
  *       required: true
  *       content:
- *         application/json:
+ *         multipart/form-data:
  *           schema:
  *             type: object
- *             required:
- *               - content
  *             properties:
- *               content:
- *                 type: string
- *                 description: Project requirements, description, or content to analyze
- *               additionalContext:
+ *               file:
  *                 type: string
- *                 description: Additional context for the AI (optional)
+ *                 format: binary
+ *                 description: MSPDI (.xml) file to preview
  *     responses:
  *       200:
- *         description: AI-generated plan structure suggestions
+ *         description: Preview of tasks to be imported
  */
 router.post(
-  '/:projectId/plan/ai-analyze',
-  validateBody(analyzePlanContentSchema),
-  planCreatorController.analyzePlanContent
+  '/:projectId/plan/import/mspdi/preview',
+  xmlUpload.single('file'),
+  planItemsController.previewMspdiImport
 );
 
 /**
  * @swagger
- * /projects/{projectId}/plan/ai-create:
+ * /projects/{projectId}/plan/import/mspdi:
  *   post:
- *     summary: Create plan items from AI suggestions
- *     description: Create plan items from the accepted AI-generated suggestions
+ *     summary: Import plan items from MS Project XML
+ *     description: |
+ *       Import tasks from an MS Project XML (MSPDI) file. Outline levels map to plan item type
+ *       levels, resource assignments to owner and predecessor links to plan dependencies. Tasks
+ *       whose GUID matches a plan item in this project (as written by the export) update that item
+ *       instead of creating a new one.
  *     tags: [Plan Items]
  *     security:
  *       - bearerAuth: []
@@ -599,55 +841,35 @@ router.post(
  *     requestBody:
  *       required: true
  *       content:
- *         application/json:
+ *         multipart/form-data:
  *           schema:
  *             type: object
- *             required:
- *               - planItems
  *             properties:
- *               planItems:
- *                 type: array
- *                 description: Plan items to create (may include children)
- *                 items:
- *                   type: object
- *                   required:
- *                     - name
- *                     - itemType
- *                   properties:
- *                     name:
- *                       type: string
- *                     itemType:
- *                       type: string
- *                       enum: [workstream, milestone, activity, task, subtask]
- *                     description:
- *                       type: string
- *                     owner:
- *                       type: string
- *                     children:
- *                       type: array
- *                       items:
- *                         $ref: '#/components/schemas/PlanItemToCreate'
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: MSPDI (.xml) file to import
  *     responses:
- *       201:
- *         description: Plan items created successfully
+ *       200:
+ *         description: Import results, including the number of dependencies created
+ *       404:
+ *         description: Project not found
  */
 router.post(
-  '/:projectId/plan/ai-create',
-  validateBody(createPlanFromSuggestionsSchema),
-  planCreatorController.createPlanFromSuggestions
+  '/:projectId/plan/import/mspdi',
+  xmlUpload.single('file'),
+  planItemsController.importMspdi
 );
 
-// ============================================================================
-// Nested Content Routes (under project)
-// ============================================================================
-
 /**
  * @swagger
- * /projects/{projectId}/content:
+ * /projects/{projectId}/plan/export/mspdi:
  *   get:
- *     summary: List project content items
- *     description: Retrieve content items (meetings, notes, transcripts) for a project
- *     tags: [Content Items]
+ *     summary: Export plan as MS Project XML
+ *     description: |
+ *       Download the active plan as an MS Project XML (MSPDI) file with manually scheduled tasks,
+ *       owners as resources and dependencies as predecessor links.
+ *     tags: [Plan Items]
  *     security:
  *       - bearerAuth: []
  *       - apiKeyAuth: []
@@ -658,43 +880,28 @@ router.post(
  *         required: true
  *         schema:
  *           type: string
- *         description: Project UUID
- *       - in: query
- *         name: page
- *         schema:
- *           type: integer
- *           default: 1
- *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
- *           default: 20
- *       - in: query
- *         name: contentTypeId
- *         schema:
- *           type: integer
- *         description: Filter by content type
  *     responses:
  *       200:
- *         description: List of content items
+ *         description: MSPDI XML file
+ *         content:
+ *           application/xml:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Project not found
  */
-router.get(
-  '/:projectId/content',
-  validateQuery(listContentItemsQuerySchema),
-  contentItemsController.getProjectContent
-);
-
-// ============================================================================
-// Nested Activity Report Routes (under project)
-// ============================================================================
+router.get('/:projectId/plan/export/mspdi', planItemsController.exportMspdi);
 
 /**
  * @swagger
- * /projects/{projectId}/activity-report:
- *   post:
- *     summary: Generate activity report
- *     description: Generate an AI-powered activity report for a date range using RAG
- *     tags: [Reports]
+ * /projects/{projectId}/plan/export/xlsx:
+ *   get:
+ *     summary: Export plan as Excel
+ *     description: |
+ *       Download the active plan as an XLSX workbook with one row per plan item. Names sit in the
+ *       hierarchy column for their level with ancestors repeated, so the file can be re-imported.
+ *       Status cells are coloured and rows are grouped by depth.
+ *     tags: [Plan Items]
  *     security:
  *       - bearerAuth: []
  *       - apiKeyAuth: []
@@ -705,46 +912,1694 @@ router.get(
  *         required: true
  *         schema:
  *           type: string
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - startDate
- *               - endDate
- *             properties:
- *               startDate:
- *                 type: string
- *                 format: date
- *                 example: "2026-01-01"
- *               endDate:
- *                 type: string
- *                 format: date
- *                 example: "2026-01-15"
- *               focusAreas:
- *                 type: array
- *                 items:
- *                   type: string
- *                 description: Optional focus areas for the report
  *     responses:
- *       201:
- *         description: Report generated
+ *       200:
+ *         description: XLSX workbook
+ *         content:
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Project not found
  */
-router.post(
-  '/:projectId/activity-report',
-  validateBody(generateReportSchema),
+router.get('/:projectId/plan/export/xlsx', planItemsController.exportXlsx);
+
+/**
+ * @swagger
+ * /projects/{projectId}/plan/export/csv:
+ *   get:
+ *     summary: Export plan as CSV
+ *     description: |
+ *       Download the active plan in the CSV import format, one row per plan item with its ancestors
+ *       in the hierarchy columns. Each custom field is added as a column named by its key.
+ *     tags: [Plan Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: CSV file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Project not found
+ */
+router.get('/:projectId/plan/export/csv', planItemsController.exportCsv);
+
+// ============================================================================
+// Nested Plan History Routes (change feed and revert)
+// ============================================================================
+
+/**
+ * @swagger
+ * /projects/{projectId}/plan/history:
+ *   get:
+ *     summary: Get plan change history
+ *     description: |
+ *       History entries for every item in the project plan, newest first. Entries written
+ *       together, such as one apply of plan updates, share a batch ID.
+ *     tags: [Plan Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *       - in: query
+ *         name: before
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only entries older than this, for paging
+ *       - in: query
+ *         name: batchId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: History entries with their plan item
+ *       404:
+ *         description: Project not found
+ */
+router.get(
+  '/:projectId/plan/history',
+  validateQuery(projectHistoryQuerySchema),
+  planItemsController.getProjectHistory
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/plan/diff:
+ *   get:
+ *     summary: Compare the plan at two points in time
+ *     description: |
+ *       Rebuild the plan at `from` and `to` from the change history and list the items that were
+ *       added, removed, re-dated, re-parented or changed status, grouped by workstream.
+ *     tags: [Plan Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Defaults to now
+ *     responses:
+ *       200:
+ *         description: Changed items grouped by workstream, with before and after values
+ *       400:
+ *         description: "`from` is not before `to`"
+ *       404:
+ *         description: Project not found
+ */
+router.get(
+  '/:projectId/plan/diff',
+  validateQuery(planDiffQuerySchema),
+  planItemsController.getPlanDiff
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/plan/history/batches/{batchId}/revert:
+ *   post:
+ *     summary: Revert a batch of plan changes
+ *     description: |
+ *       Undo every change in a history batch, such as one apply of AI plan updates. Each field
+ *       goes back to its value before the batch. Fields edited again since are conflicts and are
+ *       skipped unless `force` is set.
+ *     tags: [Plan Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               preview:
+ *                 type: boolean
+ *               force:
+ *                 type: boolean
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Changes made (or previewed) and changes skipped
+ *       404:
+ *         description: Project or batch not found
+ */
+router.post(
+  '/:projectId/plan/history/batches/:batchId/revert',
+  validateBody(revertOptionsSchema),
+  planItemsController.revertHistoryBatch
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/plan/revert:
+ *   post:
+ *     summary: Revert the plan to a point in time
+ *     description: |
+ *       Roll every plan item back to its recorded state at `at`. Items created after that time
+ *       are deleted and deleted items are restored. Use `preview` to see the changes first.
+ *     tags: [Plan Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [at]
+ *             properties:
+ *               at:
+ *                 type: string
+ *                 format: date-time
+ *               preview:
+ *                 type: boolean
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Changes made (or previewed) and changes skipped
+ *       400:
+ *         description: Time is in the future
+ *       404:
+ *         description: Project not found
+ */
+router.post(
+  '/:projectId/plan/revert',
+  validateBody(revertPlanSchema),
+  planItemsController.revertPlanToTimestamp
+);
+
+// ============================================================================
+// Nested Plan Dependency Routes (scheduling links and critical path)
+// ============================================================================
+
+/**
+ * @swagger
+ * /projects/{projectId}/plan/dependencies:
+ *   get:
+ *     summary: List plan dependencies
+ *     description: Retrieve all predecessor/successor links between plan items in the project
+ *     tags: [Plan Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of dependencies
+ */
+router.get(
+  '/:projectId/plan/dependencies',
+  planDependenciesController.listDependencies
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/plan/dependencies:
+ *   post:
+ *     summary: Create a plan dependency
+ *     description: Link two plan items. Links that would create a cycle are rejected.
+ *     tags: [Plan Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - predecessorId
+ *               - successorId
+ *             properties:
+ *               predecessorId:
+ *                 type: string
+ *               successorId:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [finish_to_start, start_to_start, finish_to_finish]
+ *                 default: finish_to_start
+ *               lagDays:
+ *                 type: integer
+ *                 default: 0
+ *                 description: Lag in days (negative for lead time)
+ *     responses:
+ *       201:
+ *         description: Dependency created
+ *       400:
+ *         description: Validation error or cycle detected
+ *       409:
+ *         description: Dependency already exists
+ */
+router.post(
+  '/:projectId/plan/dependencies',
+  validateBody(createDependencySchema),
+  planDependenciesController.createDependency
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/plan/dependencies/{dependencyId}:
+ *   delete:
+ *     summary: Delete a plan dependency
+ *     tags: [Plan Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: dependencyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Dependency deleted
+ *       404:
+ *         description: Dependency not found
+ */
+router.delete(
+  '/:projectId/plan/dependencies/:dependencyId',
+  planDependenciesController.deleteDependency
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/plan/critical-path:
+ *   get:
+ *     summary: Get critical path
+ *     description: Compute early/late dates and slack for every scheduled plan item and return the critical path
+ *     tags: [Plan Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Critical path with per-item slack
+ */
+router.get(
+  '/:projectId/plan/critical-path',
+  planDependenciesController.getCriticalPath
+);
+
+// ============================================================================
+// Nested Plan Baseline Routes (snapshots and schedule variance)
+// ============================================================================
+
+/**
+ * @swagger
+ * /projects/{projectId}/baselines:
+ *   get:
+ *     summary: List plan baselines
+ *     description: Retrieve all captured baselines for the project, newest first
+ *     tags: [Plan Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of baselines with item counts
+ */
+router.get(
+  '/:projectId/baselines',
+  baselinesController.listBaselines
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/baselines:
+ *   post:
+ *     summary: Capture a plan baseline
+ *     description: Snapshot the dates and status of every active plan item under a name
+ *     tags: [Plan Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Approved plan v1
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Baseline captured
+ *       409:
+ *         description: A baseline with this name already exists
+ */
+router.post(
+  '/:projectId/baselines',
+  validateBody(createBaselineSchema),
+  baselinesController.createBaseline
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/baselines/{baselineId}:
+ *   get:
+ *     summary: Get a plan baseline
+ *     description: Retrieve a baseline with its captured plan items
+ *     tags: [Plan Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: baselineId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Baseline with items
+ *       404:
+ *         description: Baseline not found
+ */
+router.get(
+  '/:projectId/baselines/:baselineId',
+  baselinesController.getBaseline
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/baselines/{baselineId}:
+ *   delete:
+ *     summary: Delete a plan baseline
+ *     tags: [Plan Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: baselineId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Baseline deleted
+ *       404:
+ *         description: Baseline not found
+ */
+router.delete(
+  '/:projectId/baselines/:baselineId',
+  baselinesController.deleteBaseline
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/baselines/{baselineId}/variance:
+ *   get:
+ *     summary: Get schedule variance against a baseline
+ *     description: Compare the current plan with a baseline, reporting slipped, pulled-in, added and removed items
+ *     tags: [Plan Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: baselineId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Variance report with per-workstream and per-milestone slip
+ *       404:
+ *         description: Baseline not found
+ */
+router.get(
+  '/:projectId/baselines/:baselineId/variance',
+  baselinesController.getVarianceReport
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/baselines/{baselineId}/compare/{otherBaselineId}:
+ *   get:
+ *     summary: Compare two plan baselines
+ *     description: Report how the plan moved between an earlier baseline and a later one
+ *     tags: [Plan Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: baselineId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: otherBaselineId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Variance report between the two baselines
+ *       404:
+ *         description: Baseline not found
+ */
+router.get(
+  '/:projectId/baselines/:baselineId/compare/:otherBaselineId',
+  baselinesController.compareBaselines
+);
+
+// ============================================================================
+// Nested Plan Template Routes (save and reuse plan skeletons)
+// ============================================================================
+
+/**
+ * @swagger
+ * /projects/{projectId}/plan-templates:
+ *   post:
+ *     summary: Save plan as template
+ *     description: |
+ *       Save the project's active plan hierarchy as an organization-wide template. Names, types,
+ *       descriptions and effort are kept; dates are stored as day offsets from the project start date.
+ *     tags: [Plan Templates]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "Standard delivery"
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Template saved
+ *       400:
+ *         description: Project has no plan items
+ *       409:
+ *         description: A template with this name already exists
+ */
+router.post(
+  '/:projectId/plan-templates',
+  validateBody(createPlanTemplateSchema),
+  planTemplatesController.createTemplateFromProject
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/plan/from-template:
+ *   post:
+ *     summary: Seed plan from template
+ *     description: |
+ *       Create plan items from a template, appended after any existing top-level items.
+ *       Template date offsets are applied to startDate (defaults to the project start date).
+ *     tags: [Plan Templates]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - templateId
+ *             properties:
+ *               templateId:
+ *                 type: string
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *     responses:
+ *       201:
+ *         description: Plan items created from the template
+ *       404:
+ *         description: Project or template not found
+ */
+router.post(
+  '/:projectId/plan/from-template',
+  validateBody(instantiatePlanTemplateSchema),
+  planTemplatesController.instantiateTemplate
+);
+
+// ============================================================================
+// Nested Plan Creator Routes (AI-powered plan generation)
+// ============================================================================
+
+/**
+ * @swagger
+ * /projects/{projectId}/plan/ai-analyze:
+ *   post:
+ *     summary: Analyze content and generate plan suggestions
+ *     description: Use AI to analyze project requirements/content and generate a structured plan
+ *     tags: [Plan Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - content
+ *             properties:
+ *               content:
+ *                 type: string
+ *                 description: Project requirements, description, or content to analyze
+ *               additionalContext:
+ *                 type: string
+ *                 description: Additional context for the AI (optional)
+ *     responses:
+ *       200:
+ *         description: AI-generated plan structure suggestions
+ */
+router.post(
+  '/:projectId/plan/ai-analyze',
+  validateBody(analyzePlanContentSchema),
+  planCreatorController.analyzePlanContent
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/plan/ai-create:
+ *   post:
+ *     summary: Create plan items from AI suggestions
+ *     description: Create plan items from the accepted AI-generated suggestions
+ *     tags: [Plan Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - planItems
+ *             properties:
+ *               planItems:
+ *                 type: array
+ *                 description: Plan items to create (may include children)
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - name
+ *                     - itemType
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                     itemType:
+ *                       type: string
+ *                       enum: [workstream, milestone, activity, task, subtask]
+ *                     description:
+ *                       type: string
+ *                     owner:
+ *                       type: string
+ *                     children:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/PlanItemToCreate'
+ *     responses:
+ *       201:
+ *         description: Plan items created successfully
+ */
+router.post(
+  '/:projectId/plan/ai-create',
+  validateBody(createPlanFromSuggestionsSchema),
+  planCreatorController.createPlanFromSuggestions
+);
+
+// ============================================================================
+// Nested Content Routes (under project)
+// ============================================================================
+
+/**
+ * @swagger
+ * /projects/{projectId}/content:
+ *   get:
+ *     summary: List project content items
+ *     description: Retrieve content items (meetings, notes, transcripts) for a project
+ *     tags: [Content Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Project UUID
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - in: query
+ *         name: contentTypeId
+ *         schema:
+ *           type: integer
+ *         description: Filter by content type
+ *     responses:
+ *       200:
+ *         description: List of content items
+ */
+router.get(
+  '/:projectId/content',
+  validateQuery(listContentItemsQuerySchema),
+  contentItemsController.getProjectContent
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/content/email:
+ *   post:
+ *     summary: Import email
+ *     description: |
+ *       Import an .eml message or an .mbox mailbox. Each message becomes a content item dated from
+ *       its Date header, with its headers, thread and participants kept as source metadata, and is
+ *       analyzed like pasted content. Readable attachments (PDF, DOCX, text) are stored as child
+ *       items. Messages whose Message-ID is already in the project are skipped. At most 10 new
+ *       messages are imported per upload; a larger mailbox is rejected and can be split.
+ *     tags: [Content Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: .eml or .mbox file
+ *     responses:
+ *       201:
+ *         description: Imported content items and skipped duplicates
+ *       400:
+ *         description: Not an email file, it could not be parsed, or it has too many new messages
+ *       404:
+ *         description: Project not found
+ */
+router.post(
+  '/:projectId/content/email',
+  uploadSingleFile,
+  contentItemsController.importEmail
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/content/email-address:
+ *   get:
+ *     summary: Get the project's intake email address
+ *     description: |
+ *       The address mail can be sent to when the SMTP listener is enabled, e.g.
+ *       website-redesign@intake.local. It is assigned from the project name when the project is created.
+ *       Senders log in to the listener with their email address and an API key of the
+ *       project's organization, and must send from that address.
+ *     tags: [Content Items]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The address and whether the SMTP listener is running
+ */
+router.get(
+  '/:projectId/content/email-address',
+  contentItemsController.getIntakeAddress
+);
+
+// ============================================================================
+// Nested Activity Report Routes (under project)
+// ============================================================================
+
+/**
+ * @swagger
+ * /projects/{projectId}/activity-report:
+ *   post:
+ *     summary: Generate activity report
+ *     description: Generate an AI-powered activity report for a date range using RAG
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - startDate
+ *               - endDate
+ *             properties:
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *                 example: "2026-01-01"
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *                 example: "2026-01-15"
+ *               focusAreas:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Optional focus areas for the report
+ *               baselineId:
+ *                 type: string
+ *                 description: Baseline for schedule variance (defaults to the most recent baseline)
+ *     responses:
+ *       201:
+ *         description: Report generated
+ */
+router.post(
+  '/:projectId/activity-report',
+  validateBody(generateReportSchema),
   activityReporterController.generateReport
 );
 
 /**
  * @swagger
- * /projects/{projectId}/activity-reports:
+ * /projects/{projectId}/activity-reports:
+ *   get:
+ *     summary: List activity reports
+ *     description: Get all activity reports for a project
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: List of activity reports
+ */
+router.get(
+  '/:projectId/activity-reports',
+  validateQuery(listReportsQuerySchema),
+  activityReporterController.listReports
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/activity-reports/{reportId}:
+ *   get:
+ *     summary: Get activity report
+ *     description: Retrieve a single activity report with its content
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: reportId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Activity report details
+ *       404:
+ *         description: Report not found
+ */
+router.get(
+  '/:projectId/activity-reports/:reportId',
+  activityReporterController.getReport
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/activity-reports/{reportId}/sources:
+ *   get:
+ *     summary: Get report sources
+ *     description: Get the content items that were used as sources for the report
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: reportId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of source content items
+ */
+router.get(
+  '/:projectId/activity-reports/:reportId/sources',
+  activityReporterController.getReportSources
+);
+
+// ============================================================================
+// Nested RAID Register Routes (under project)
+// ============================================================================
+
+/**
+ * @swagger
+ * /projects/{projectId}/raid:
+ *   get:
+ *     summary: List RAID register items
+ *     description: Retrieve the project's risks, actions, issues and decisions
+ *     tags: [RAID]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [risk, action, issue, decision]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, in_progress, resolved, closed]
+ *       - in: query
+ *         name: owner
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: planItemId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: openOnly
+ *         schema:
+ *           type: boolean
+ *         description: Only return open and in-progress items
+ *     responses:
+ *       200:
+ *         description: List of RAID items
+ */
+router.get(
+  '/:projectId/raid',
+  validateQuery(listRaidItemsQuerySchema),
+  raidController.listRaidItems
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/raid:
+ *   post:
+ *     summary: Create a RAID item
+ *     description: Add a risk, action, issue or decision to the project register
+ *     tags: [RAID]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - type
+ *               - title
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [risk, action, issue, decision]
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               owner:
+ *                 type: string
+ *               status:
+ *                 type: string
+ *                 enum: [open, in_progress, resolved, closed]
+ *                 default: open
+ *               severity:
+ *                 type: string
+ *                 enum: [high, medium, low]
+ *               likelihood:
+ *                 type: string
+ *                 enum: [high, medium, low]
+ *               dueDate:
+ *                 type: string
+ *                 format: date
+ *               rationale:
+ *                 type: string
+ *                 description: Decisions only - why this option was chosen
+ *               alternatives:
+ *                 type: array
+ *                 description: Decisions only - options considered and not taken
+ *                 items:
+ *                   type: string
+ *               planItemId:
+ *                 type: string
+ *               affectedPlanItemIds:
+ *                 type: array
+ *                 description: Decisions only - plan items the decision affects
+ *                 items:
+ *                   type: string
+ *               sourceContentIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       201:
+ *         description: RAID item created
+ *       400:
+ *         description: Validation error
+ */
+router.post(
+  '/:projectId/raid',
+  validateBody(createRaidItemSchema),
+  raidController.createRaidItem
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/raid/{raidItemId}:
+ *   get:
+ *     summary: Get a RAID item
+ *     tags: [RAID]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: raidItemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: RAID item details
+ *       404:
+ *         description: RAID item not found
+ */
+router.get(
+  '/:projectId/raid/:raidItemId',
+  raidController.getRaidItem
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/raid/{raidItemId}:
+ *   put:
+ *     summary: Update a RAID item
+ *     description: Update fields or move the item through its status lifecycle
+ *     tags: [RAID]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: raidItemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: RAID item updated
+ *       404:
+ *         description: RAID item not found
+ */
+router.put(
+  '/:projectId/raid/:raidItemId',
+  validateBody(updateRaidItemSchema),
+  raidController.updateRaidItem
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/raid/{raidItemId}:
+ *   delete:
+ *     summary: Delete a RAID item
+ *     tags: [RAID]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: raidItemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: RAID item deleted
+ */
+router.delete(
+  '/:projectId/raid/:raidItemId',
+  raidController.deleteRaidItem
+);
+
+// ============================================================================
+// Nested Action Tracker Routes (action items on the RAID register)
+// ============================================================================
+
+/**
+ * @swagger
+ * /projects/{projectId}/actions:
+ *   get:
+ *     summary: List tracked action items
+ *     description: |
+ *       The project's action items, merged across intake splits and activity reports, soonest due
+ *       first. Each carries the content and reports it was raised in, whether it is overdue, and the
+ *       organization member its owner resolves to for reminders.
+ *     tags: [RAID]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, done, all]
+ *           default: open
+ *       - in: query
+ *         name: owner
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: overdueOnly
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Action items and open/overdue/due-soon/done counts
+ *       404:
+ *         description: Project not found
+ */
+router.get(
+  '/:projectId/actions',
+  validateQuery(listActionsQuerySchema),
+  raidController.listActions
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/actions/reminders:
+ *   post:
+ *     summary: Send action reminders now
+ *     description: |
+ *       Email owners about open actions in the project that are due within a day or overdue. Reminders
+ *       also go out automatically; each is sent once, and overdue ones repeat weekly. Owners that do
+ *       not match an organization member by email or name are returned instead.
+ *     tags: [RAID]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Emails sent, actions reminded and unmatched owners
+ */
+router.post(
+  '/:projectId/actions/reminders',
+  raidController.sendActionReminders
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/actions/{actionId}/complete:
+ *   post:
+ *     summary: Mark an action done
+ *     tags: [RAID]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: actionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               resolution:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Action resolved
+ *       404:
+ *         description: Action item not found
+ */
+router.post(
+  '/:projectId/actions/:actionId/complete',
+  validateBody(completeActionSchema),
+  raidController.completeAction
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/actions/{actionId}/reopen:
+ *   post:
+ *     summary: Reopen a done action
+ *     description: Reopening starts the owner's reminders over
+ *     tags: [RAID]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: actionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Action reopened
+ *       404:
+ *         description: Action item not found
+ */
+router.post(
+  '/:projectId/actions/:actionId/reopen',
+  raidController.reopenAction
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/actions/{actionId}/merge:
+ *   post:
+ *     summary: Merge a duplicate action
+ *     description: |
+ *       Fold a duplicate the automatic matching missed into this action. The action keeps its own
+ *       fields, fills gaps from the duplicate and collects its sources; the duplicate is removed
+ *       from the register.
+ *     tags: [RAID]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: actionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [duplicateId]
+ *             properties:
+ *               duplicateId:
+ *                 type: string
+ *                 format: uuid
+ *     responses:
+ *       200:
+ *         description: Merged action
+ *       400:
+ *         description: Merging an action into itself
+ *       404:
+ *         description: Action item not found
+ */
+router.post(
+  '/:projectId/actions/:actionId/merge',
+  validateBody(mergeActionSchema),
+  raidController.mergeActions
+);
+
+// ============================================================================
+// Nested Decision Log Routes (decisions on the RAID register)
+// ============================================================================
+
+/**
+ * @swagger
+ * /projects/{projectId}/decisions:
+ *   get:
+ *     summary: List the decision log
+ *     description: |
+ *       The project's decisions, newest first, with their rationale, alternatives considered,
+ *       affected plan items and sources. Each shows the decision that superseded it and those it
+ *       superseded. Use review=pending for decisions the intake agent proposed that await review.
+ *       Decisions are created and edited through the RAID register with type decision.
+ *     tags: [RAID]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [current, superseded, all]
+ *           default: current
+ *       - in: query
+ *         name: review
+ *         schema:
+ *           type: string
+ *           enum: [accepted, pending, rejected]
+ *           default: accepted
+ *       - in: query
+ *         name: planItemId
+ *         description: Decisions linked to or affecting this plan item
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Decisions and current/superseded/pending review counts
+ *       404:
+ *         description: Project not found
+ */
+router.get(
+  '/:projectId/decisions',
+  validateQuery(listDecisionsQuerySchema),
+  raidController.listDecisions
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/decisions/{decisionId}/supersede:
+ *   post:
+ *     summary: Mark a decision superseded
+ *     description: Record the later decision that replaced this one. The decision is closed and kept in the log.
+ *     tags: [RAID]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: decisionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [supersededById]
+ *             properties:
+ *               supersededById:
+ *                 type: string
+ *                 format: uuid
+ *     responses:
+ *       200:
+ *         description: Superseded decision
+ *       400:
+ *         description: Superseding itself, a proposal, or a decision that replaced this one
+ *       404:
+ *         description: Decision not found
+ *       409:
+ *         description: Decision is already superseded
+ */
+router.post(
+  '/:projectId/decisions/:decisionId/supersede',
+  validateBody(supersedeDecisionSchema),
+  raidController.supersedeDecision
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/decisions/{decisionId}/accept:
+ *   post:
+ *     summary: Accept a proposed decision
+ *     description: Move a decision from the review queue into the log
+ *     tags: [RAID]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: decisionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Decision accepted
+ *       404:
+ *         description: Decision not found
+ */
+router.post(
+  '/:projectId/decisions/:decisionId/accept',
+  raidController.acceptDecision
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/decisions/{decisionId}/reject:
+ *   post:
+ *     summary: Reject a proposed decision
+ *     description: Rejected proposals are kept so the same decision is not proposed again
+ *     tags: [RAID]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: decisionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Decision rejected
+ *       400:
+ *         description: Decision is already accepted
+ *       404:
+ *         description: Decision not found
+ */
+router.post(
+  '/:projectId/decisions/:decisionId/reject',
+  raidController.rejectDecision
+);
+
+// ============================================================================
+// Nested Stakeholder Routes (people named as owners and decision makers)
+// ============================================================================
+
+/**
+ * @swagger
+ * /projects/{projectId}/stakeholders:
  *   get:
- *     summary: List activity reports
- *     description: Get all activity reports for a project
- *     tags: [Reports]
+ *     summary: List the stakeholder directory
+ *     description: |
+ *       The project's stakeholders with the number of open actions each owns. Names the intake
+ *       agent and activity reporter could not resolve are suggested as pending stakeholders; use
+ *       review=pending for the suggestions awaiting review.
+ *     tags: [Stakeholders]
  *     security:
  *       - bearerAuth: []
  *       - apiKeyAuth: []
@@ -756,32 +2611,95 @@ router.post(
  *         schema:
  *           type: string
  *       - in: query
- *         name: page
+ *         name: review
  *         schema:
- *           type: integer
- *           default: 1
+ *           type: string
+ *           enum: [accepted, pending, rejected]
+ *           default: accepted
  *       - in: query
- *         name: limit
+ *         name: affiliation
  *         schema:
- *           type: integer
- *           default: 20
+ *           type: string
+ *           enum: [internal, client]
+ *       - in: query
+ *         name: search
+ *         description: Matches name, email, organization or an exact alias
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
- *         description: List of activity reports
+ *         description: Stakeholders and the number of pending suggestions
+ *       404:
+ *         description: Project not found
  */
 router.get(
-  '/:projectId/activity-reports',
-  validateQuery(listReportsQuerySchema),
-  activityReporterController.listReports
+  '/:projectId/stakeholders',
+  validateQuery(listStakeholdersQuerySchema),
+  stakeholdersController.listStakeholders
 );
 
 /**
  * @swagger
- * /projects/{projectId}/activity-reports/{reportId}:
- *   get:
- *     summary: Get activity report
- *     description: Retrieve a single activity report with its content
- *     tags: [Reports]
+ * /projects/{projectId}/stakeholders:
+ *   post:
+ *     summary: Add a stakeholder
+ *     tags: [Stakeholders]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               aliases:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Nicknames, short names and other emails the person goes by
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               organization:
+ *                 type: string
+ *               role:
+ *                 type: string
+ *               affiliation:
+ *                 type: string
+ *                 enum: [internal, client]
+ *                 default: client
+ *     responses:
+ *       201:
+ *         description: Stakeholder created
+ *       404:
+ *         description: Project not found
+ *       409:
+ *         description: The name, an alias or the email already belongs to another stakeholder
+ */
+router.post(
+  '/:projectId/stakeholders',
+  validateBody(createStakeholderSchema),
+  stakeholdersController.createStakeholder
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/stakeholders/{stakeholderId}:
+ *   put:
+ *     summary: Update a stakeholder
+ *     tags: [Stakeholders]
  *     security:
  *       - bearerAuth: []
  *       - apiKeyAuth: []
@@ -793,28 +2711,54 @@ router.get(
  *         schema:
  *           type: string
  *       - in: path
- *         name: reportId
+ *         name: stakeholderId
  *         required: true
  *         schema:
  *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               aliases:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Nicknames, short names and other emails the person goes by
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               organization:
+ *                 type: string
+ *               role:
+ *                 type: string
+ *               affiliation:
+ *                 type: string
+ *                 enum: [internal, client]
  *     responses:
  *       200:
- *         description: Activity report details
+ *         description: Stakeholder updated
  *       404:
- *         description: Report not found
+ *         description: Stakeholder not found
+ *       409:
+ *         description: The name, an alias or the email already belongs to another stakeholder
  */
-router.get(
-  '/:projectId/activity-reports/:reportId',
-  activityReporterController.getReport
+router.put(
+  '/:projectId/stakeholders/:stakeholderId',
+  validateBody(updateStakeholderSchema),
+  stakeholdersController.updateStakeholder
 );
 
 /**
  * @swagger
- * /projects/{projectId}/activity-reports/{reportId}/sources:
- *   get:
- *     summary: Get report sources
- *     description: Get the content items that were used as sources for the report
- *     tags: [Reports]
+ * /projects/{projectId}/stakeholders/{stakeholderId}:
+ *   delete:
+ *     summary: Delete a stakeholder
+ *     tags: [Stakeholders]
  *     security:
  *       - bearerAuth: []
  *       - apiKeyAuth: []
@@ -826,17 +2770,142 @@ router.get(
  *         schema:
  *           type: string
  *       - in: path
- *         name: reportId
+ *         name: stakeholderId
  *         required: true
  *         schema:
  *           type: string
  *     responses:
  *       200:
- *         description: List of source content items
+ *         description: Stakeholder deleted
+ *       404:
+ *         description: Stakeholder not found
  */
-router.get(
-  '/:projectId/activity-reports/:reportId/sources',
-  activityReporterController.getReportSources
+router.delete(
+  '/:projectId/stakeholders/:stakeholderId',
+  stakeholdersController.deleteStakeholder
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/stakeholders/{stakeholderId}/accept:
+ *   post:
+ *     summary: Accept a suggested stakeholder
+ *     description: Add a name the agents suggested to the directory
+ *     tags: [Stakeholders]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: stakeholderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Stakeholder accepted
+ *       404:
+ *         description: Stakeholder not found
+ *       409:
+ *         description: The suggestion duplicates a listed stakeholder and should be merged into them
+ */
+router.post(
+  '/:projectId/stakeholders/:stakeholderId/accept',
+  stakeholdersController.acceptStakeholder
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/stakeholders/{stakeholderId}/reject:
+ *   post:
+ *     summary: Reject a suggested stakeholder
+ *     description: Rejected suggestions are kept so the same name is not suggested again
+ *     tags: [Stakeholders]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: stakeholderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Stakeholder rejected
+ *       400:
+ *         description: Stakeholder is already accepted
+ *       404:
+ *         description: Stakeholder not found
+ */
+router.post(
+  '/:projectId/stakeholders/:stakeholderId/reject',
+  stakeholdersController.rejectStakeholder
+);
+
+/**
+ * @swagger
+ * /projects/{projectId}/stakeholders/{stakeholderId}/merge:
+ *   post:
+ *     summary: Merge a duplicate stakeholder
+ *     description: |
+ *       Fold a duplicate, such as a suggestion for a nickname, into this stakeholder. The
+ *       duplicate's name, aliases and email become aliases so later mentions resolve here, and
+ *       RAID entries owned or decided under the duplicate's names are renamed. The duplicate is
+ *       removed from the directory.
+ *     tags: [Stakeholders]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: stakeholderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [duplicateId]
+ *             properties:
+ *               duplicateId:
+ *                 type: string
+ *                 format: uuid
+ *     responses:
+ *       200:
+ *         description: Merged stakeholder
+ *       400:
+ *         description: Merging a stakeholder into itself
+ *       404:
+ *         description: Stakeholder not found
+ *       409:
+ *         description: A merged alias already belongs to another stakeholder
+ */
+router.post(
+  '/:projectId/stakeholders/:stakeholderId/merge',
+  validateBody(mergeStakeholderSchema),
+  stakeholdersController.mergeStakeholders
 );
 
 // ============================================================================
@@ -923,6 +2992,8 @@ router.post(
  *     responses:
  *       200:
  *         description: Updates applied successfully
+ *       400:
+ *         description: A status change is not allowed by the item type's workflow; nothing is applied
  */
 router.post(
   '/:projectId/plan-updates',
@@ -930,4 +3001,77 @@ router.post(
   planUpdaterController.applyPlanUpdates
 );
 
+// ============================================================================
+// Nested Trash Routes (deleted plan items and content)
+// ============================================================================
+
+/**
+ * @swagger
+ * /projects/{projectId}/trash:
+ *   get:
+ *     summary: List a project's trash
+ *     description: |
+ *       Plan items and content items deleted in the project, with who deleted them, when, and
+ *       when they will be purged. A deleted subtree is listed once, under the item that was
+ *       deleted, with the number of descendants that will be restored with it.
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Project UUID
+ *     responses:
+ *       200:
+ *         description: Retention period and deleted plan and content items
+ *       404:
+ *         description: Project not found
+ */
+router.get(
+  '/:projectId/trash',
+  trashController.getProjectTrash
+);
+
+
+// ============================================================================
+// Nested Comment Routes
+// ============================================================================
+
+/**
+ * @swagger
+ * /projects/{projectId}/comments/unread:
+ *   get:
+ *     summary: Get comment counts for a project
+ *     description: |
+ *       Total and unread comment counts for every commented plan item, content item and activity
+ *       report in the project, for showing unread badges. A comment is unread when it was posted
+ *       by someone else after the current user last read the thread.
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Project UUID
+ *     responses:
+ *       200:
+ *         description: Comment counts per commented item
+ *       404:
+ *         description: Project not found
+ */
+router.get(
+  '/:projectId/comments/unread',
+  commentsController.getProjectUnreadCounts
+);
+
 export default router;
@@ -1,5 +1,31 @@
 import { z } from 'zod';
 
+// How child items are weighted when rolling progress up the plan tree
+export const progressWeightings = ['count', 'effort'] as const;
+
+// Health factor thresholds: a factor turns amber at `amber` and red at `red`
+const ragThresholdSchema = z
+  .object({
+    amber: z.number().min(0),
+    red: z.number().min(0),
+  })
+  .refine(t => t.red >= t.amber, { message: 'Red threshold must be at or above the amber threshold' });
+
+export const healthThresholdsSchema = z.object({
+  scheduleSlipDays: ragThresholdSchema.optional(),
+  overdueItems: ragThresholdSchema.optional(),
+  highRisks: ragThresholdSchema.optional(),
+  blockedItems: ragThresholdSchema.optional(),
+  contentAgeDays: ragThresholdSchema.optional(),
+});
+
+// Free-form report configuration; `health` overrides the default RAG thresholds
+export const statusConfigSchema = z
+  .object({
+    health: healthThresholdsSchema.optional(),
+  })
+  .passthrough();
+
 export const createProjectSchema = z.object({
   name: z.string().min(1).max(200),
   client: z.string().max(200).optional(),
@@ -7,7 +33,11 @@ export const createProjectSchema = z.object({
   startDate: z.coerce.date(),
   targetEndDate: z.coerce.date().optional(),
   status: z.enum(['active', 'completed', 'on_hold', 'cancelled']).default('active'),
-  statusConfig: z.record(z.unknown()).default({}),
+  statusConfig: statusConfigSchema.default({}),
+  progressWeighting: z.enum(progressWeightings).default('count'),
+  autoRollupStatus: z.boolean().default(false),
+  // Seed the new project's plan from a saved plan template
+  templateId: z.string().uuid().optional(),
 });
 
 export const updateProjectSchema = z.object({
@@ -17,7 +47,21 @@ export const updateProjectSchema = z.object({
   startDate: z.coerce.date().optional(),
   targetEndDate: z.coerce.date().nullable().optional(),
   status: z.enum(['active', 'completed', 'on_hold', 'cancelled']).optional(),
-  statusConfig: z.record(z.unknown()).optional(),
+  statusConfig: statusConfigSchema.optional(),
+  progressWeighting: z.enum(progressWeightings).optional(),
+  autoRollupStatus: z.boolean().optional(),
+});
+
+// Options for POST /api/projects/:id/clone. The plan is always copied; content and reports are opt-in.
+export const cloneProjectSchema = z.object({
+  name: z.string().min(1).max(200),
+  client: z.string().max(200).nullable().optional(),
+  // Shift every date so the copy starts here (defaults to the source start date)
+  startDate: z.coerce.date().optional(),
+  resetStatuses: z.boolean().default(true),
+  resetActualDates: z.boolean().default(true),
+  includeContent: z.boolean().default(false),
+  includeReports: z.boolean().default(false),
 });
 
 export const listProjectsQuerySchema = z.object({
@@ -30,3 +74,6 @@ export const listProjectsQuerySchema = z.object({
 export type CreateProjectInput = z.infer<typeof createProjectSchema>;
 export type UpdateProjectInput = z.infer<typeof updateProjectSchema>;
 export type ListProjectsQuery = z.infer<typeof listProjectsQuerySchema>;
+export type CloneProjectInput = z.infer<typeof cloneProjectSchema>;
+export type ProgressWeighting = typeof progressWeightings[number];
+export type HealthThresholds = z.infer<typeof healthThresholdsSchema>;
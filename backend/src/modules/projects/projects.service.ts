@@ -2,10 +2,18 @@ import prisma from '../../config/database.js';
 import { AppError } from '../../middleware/errorHandler.js';
 import { ErrorCodes } from '../../utils/responses.js';
 import { Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { getProjectProgressSummary } from '../plan-items/plan-rollup.service.js';
+import { resolveInitialStatus, type ResolvedStatus } from '../plan-items/plan-workflows.service.js';
+import { instantiateTemplate } from '../plan-templates/plan-templates.service.js';
+import { getProjectHealth } from './project-health.service.js';
+import { assignIntakeEmailSlug } from '../content-items/email-intake.service.js';
+import type { ReportResult } from '../../services/ai/prompts/activity-reporter.js';
 import type {
   CreateProjectInput,
   UpdateProjectInput,
   ListProjectsQuery,
+  CloneProjectInput,
 } from './projects.schema.js';
 
 export const getProjectsByOrganization = async (organizationId: number, query: ListProjectsQuery) => {
@@ -72,6 +80,16 @@ export const createProject = async (organizationId: number, input: CreateProject
     throw new AppError(ErrorCodes.CONFLICT, 'Project with this name already exists in this organization', 409);
   }
 
+  // Check the template up front so a bad id doesn't leave behind an empty project
+  if (input.templateId) {
+    const template = await prisma.planTemplate.findFirst({
+      where: { id: input.templateId, organizationId },
+    });
+    if (!template) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Plan template not found', 404);
+    }
+  }
+
   const project = await prisma.project.create({
     data: {
       organizationId,
@@ -82,10 +100,17 @@ export const createProject = async (organizationId: number, input: CreateProject
       targetEndDate: input.targetEndDate || null,
       status: input.status || 'active',
       statusConfig: (input.statusConfig || {}) as Prisma.InputJsonValue,
+      progressWeighting: input.progressWeighting,
+      autoRollupStatus: input.autoRollupStatus,
     },
   });
+  const intakeEmailSlug = await assignIntakeEmailSlug(project.id, project.name);
 
-  return project;
+  if (input.templateId) {
+    await instantiateTemplate(project.id, organizationId, { templateId: input.templateId });
+  }
+
+  return { ...project, intakeEmailSlug };
 };
 
 export const updateProject = async (
@@ -131,6 +156,8 @@ export const updateProject = async (
   if (input.targetEndDate !== undefined) updateData.targetEndDate = input.targetEndDate;
   if (input.status !== undefined) updateData.status = input.status;
   if (input.statusConfig !== undefined) updateData.statusConfig = input.statusConfig as Prisma.InputJsonValue;
+  if (input.progressWeighting !== undefined) updateData.progressWeighting = input.progressWeighting;
+  if (input.autoRollupStatus !== undefined) updateData.autoRollupStatus = input.autoRollupStatus;
 
   const updated = await prisma.project.update({
     where: { id: projectId },
@@ -140,7 +167,12 @@ export const updateProject = async (
   return updated;
 };
 
-export const deleteProject = async (projectId: string, organizationId: number) => {
+export const deleteProject = async (
+  projectId: string,
+  organizationId: number,
+  userId?: number,
+  userEmail?: string
+) => {
   const project = await prisma.project.findFirst({
     where: {
       id: projectId,
@@ -153,15 +185,282 @@ export const deleteProject = async (projectId: string, organizationId: number) =
     throw new AppError(ErrorCodes.NOT_FOUND, 'Project not found', 404);
   }
 
-  // Soft delete
+  // Soft delete; the project stays in the organization's trash until restored or purged
   await prisma.project.update({
     where: { id: projectId },
-    data: { isActive: false },
+    data: { isActive: false, deletedAt: new Date(), deletedByUserId: userId, deletedByEmail: userEmail },
   });
 
   return { message: 'Project deleted successfully' };
 };
 
+type ReportFinding = {
+  planItemId: string | null;
+  sourceContentIds: string[];
+  raidItemId?: string | null;
+  isNew?: boolean;
+  stakeholderId?: string | null;
+};
+
+// Point a copied report's findings at the copied plan items and content. The RAID register and
+// stakeholder directory are not cloned, so links into them are dropped.
+const cloneReportData = (
+  data: ReportResult,
+  planIds: Map<string, string>,
+  contentIds: Map<string, string>
+): ReportResult => {
+  const finding = <T extends ReportFinding>({ raidItemId: _raid, isNew: _isNew, stakeholderId: _stakeholder, ...item }: T) => ({
+    ...item,
+    planItemId: item.planItemId ? planIds.get(item.planItemId) ?? null : null,
+    sourceContentIds: (item.sourceContentIds ?? []).map(id => contentIds.get(id)).filter((id): id is string => !!id),
+  });
+  const rows = <T extends { planItemId: string }>(items: T[]) =>
+    items.filter(item => planIds.has(item.planItemId)).map(item => ({ ...item, planItemId: planIds.get(item.planItemId)! }));
+
+  return {
+    ...data,
+    statusUpdates: (data.statusUpdates ?? []).map(finding),
+    actionItems: (data.actionItems ?? []).map(finding),
+    risks: (data.risks ?? []).map(finding),
+    decisions: (data.decisions ?? []).map(finding),
+    blockers: (data.blockers ?? []).map(finding),
+    suggestedPlanUpdates: rows(data.suggestedPlanUpdates ?? []),
+    scheduleVariance: data.scheduleVariance && {
+      ...data.scheduleVariance,
+      workstreams: rows(data.scheduleVariance.workstreams),
+      milestones: rows(data.scheduleVariance.milestones),
+    },
+    planChanges: data.planChanges && {
+      ...data.planChanges,
+      workstreams: data.planChanges.workstreams.map(ws => ({ ...ws, items: rows(ws.items) })),
+    },
+    health: data.health && { ...data.health, workstreams: rows(data.health.workstreams) },
+  };
+};
+
+/**
+ * Copy a project with its plan tree and dependencies, and optionally its content (with chunk
+ * embeddings) and activity reports. Every id is remapped, and all dates move by the gap between
+ * the source start date and the requested one.
+ */
+export const cloneProject = async (projectId: string, organizationId: number, input: CloneProjectInput) => {
+  const source = await prisma.project.findFirst({
+    where: { id: projectId, organizationId, isActive: true },
+  });
+
+  if (!source) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Project not found', 404);
+  }
+
+  // Names stay taken while a deleted project is in the trash
+  const existing = await prisma.project.findFirst({
+    where: { organizationId, name: input.name },
+  });
+
+  if (existing) {
+    throw new AppError(
+      ErrorCodes.CONFLICT,
+      existing.isActive
+        ? 'Project with this name already exists in this organization'
+        : 'A deleted project in the trash has this name',
+      409
+    );
+  }
+
+  const startDate = input.startDate ?? source.startDate;
+  const shiftMs = startDate.getTime() - source.startDate.getTime();
+  const shift = (date: Date | null) => (date ? new Date(date.getTime() + shiftMs) : null);
+
+  const [planItems, dependencies, contentItems, reports, contentLinks] = await Promise.all([
+    prisma.planItem.findMany({
+      where: { projectId, isActive: true },
+      orderBy: [{ depth: 'asc' }, { sortOrder: 'asc' }],
+    }),
+    prisma.planItemDependency.findMany({ where: { projectId } }),
+    input.includeContent
+      ? prisma.contentItem.findMany({
+          where: { projectId, isActive: true },
+          include: { chunks: true },
+          // Split parents first so the self-reference is satisfied on insert
+          orderBy: [{ parentItemId: { sort: 'asc', nulls: 'first' } }, { createdAt: 'asc' }],
+        })
+      : Promise.resolve([]),
+    input.includeReports
+      ? prisma.activityReport.findMany({ where: { projectId, isActive: true } })
+      : Promise.resolve([]),
+    prisma.planItemContentLink.findMany({ where: { projectId } }),
+  ]);
+
+  const newProjectId = randomUUID();
+  const planIds = new Map(planItems.map(item => [item.id, randomUUID()]));
+  const contentIds = new Map(contentItems.map(item => [item.id, randomUUID()]));
+  const chunkIds = new Map(contentItems.flatMap(item => item.chunks.map(chunk => [chunk.id, randomUUID()] as const)));
+
+  // Map a list of ids, dropping any that weren't copied
+  const remap = (ids: string[], mapping: Map<string, string>) =>
+    ids.map(id => mapping.get(id)).filter((id): id is string => !!id);
+
+  const remapPath = (path: string) =>
+    path
+      .split('/')
+      .map(segment => (segment ? planIds.get(segment) ?? segment : segment))
+      .join('/');
+
+  // Reset items start over in their type's workflow initial status
+  const initialStatuses = new Map<number, ResolvedStatus>(
+    input.resetStatuses
+      ? await Promise.all(
+          [...new Set(planItems.map(item => item.itemTypeId))].map(
+            async id => [id, await resolveInitialStatus(organizationId, id)] as const
+          )
+        )
+      : []
+  );
+
+  const copiedDependencies = dependencies.filter(
+    dep => planIds.has(dep.predecessorId) && planIds.has(dep.successorId)
+  );
+  const copiedContentLinks = contentLinks.filter(
+    link => planIds.has(link.planItemId) && contentIds.has(link.contentItemId)
+  );
+
+  const project = await prisma.$transaction(
+    async tx => {
+      const created = await tx.project.create({
+        data: {
+          id: newProjectId,
+          organizationId,
+          name: input.name,
+          client: input.client !== undefined ? input.client : source.client,
+          description: source.description,
+          startDate,
+          targetEndDate: shift(source.targetEndDate),
+          status: 'active',
+          statusConfig: source.statusConfig as Prisma.InputJsonValue,
+          progressWeighting: source.progressWeighting,
+          autoRollupStatus: source.autoRollupStatus,
+        },
+      });
+
+      await tx.planItem.createMany({
+        data: planItems.map(item => ({
+          id: planIds.get(item.id)!,
+          projectId: newProjectId,
+          parentId: item.parentId ? planIds.get(item.parentId) ?? null : null,
+          itemTypeId: item.itemTypeId,
+          name: item.name,
+          description: item.description,
+          owner: item.owner,
+          ownerUserId: item.ownerUserId,
+          ...(input.resetStatuses
+            ? initialStatuses.get(item.itemTypeId)!
+            : { status: item.status, workflowStatus: item.workflowStatus }),
+          startDate: shift(item.startDate),
+          targetEndDate: shift(item.targetEndDate),
+          actualStartDate: input.resetActualDates ? null : shift(item.actualStartDate),
+          actualEndDate: input.resetActualDates ? null : shift(item.actualEndDate),
+          effort: item.effort,
+          notes: item.notes,
+          sortOrder: item.sortOrder,
+          customFields: item.customFields as Prisma.InputJsonValue,
+          path: remapPath(item.path),
+          depth: item.depth,
+        })),
+      });
+
+      await tx.planItemDependency.createMany({
+        data: copiedDependencies.map(dep => ({
+          projectId: newProjectId,
+          predecessorId: planIds.get(dep.predecessorId)!,
+          successorId: planIds.get(dep.successorId)!,
+          type: dep.type,
+          lagDays: dep.lagDays,
+          createdByUserId: dep.createdByUserId,
+        })),
+      });
+
+      if (contentItems.length > 0) {
+        await tx.contentItem.createMany({
+          data: contentItems.map(({ chunks: _chunks, id, createdAt: _createdAt, updatedAt: _updatedAt, ...item }) => ({
+            ...item,
+            id: contentIds.get(id)!,
+            projectId: newProjectId,
+            parentItemId: item.parentItemId ? contentIds.get(item.parentItemId) ?? null : null,
+            dateOccurred: shift(item.dateOccurred)!,
+            aiExtractedEntities: item.aiExtractedEntities as Prisma.InputJsonValue,
+            sourceMetadata: item.sourceMetadata as Prisma.InputJsonValue,
+          })),
+        });
+
+        await tx.contentChunk.createMany({
+          data: contentItems.flatMap(item =>
+            item.chunks.map(chunk => ({
+              id: chunkIds.get(chunk.id)!,
+              contentItemId: contentIds.get(item.id)!,
+              chunkIndex: chunk.chunkIndex,
+              chunkText: chunk.chunkText,
+              tokenCount: chunk.tokenCount,
+              embeddingVector: chunk.embeddingVector ?? Prisma.JsonNull,
+              metadata: chunk.metadata as Prisma.InputJsonValue,
+            }))
+          ),
+        });
+      }
+
+      await tx.planItemContentLink.createMany({
+        data: copiedContentLinks.map(link => ({
+          projectId: newProjectId,
+          planItemId: planIds.get(link.planItemId)!,
+          contentItemId: contentIds.get(link.contentItemId)!,
+          source: link.source,
+          createdByUserId: link.createdByUserId,
+        })),
+      });
+
+      if (reports.length > 0) {
+        await tx.activityReport.createMany({
+          data: reports.map(report => ({
+            projectId: newProjectId,
+            title: report.title,
+            periodStart: shift(report.periodStart)!,
+            periodEnd: shift(report.periodEnd)!,
+            workstreamFilter: remap(report.workstreamFilter, planIds),
+            activityTypeFilter: report.activityTypeFilter,
+            summary: report.summary,
+            reportData: cloneReportData(
+              report.reportData as unknown as ReportResult,
+              planIds,
+              contentIds
+            ) as unknown as Prisma.InputJsonValue,
+            sourceContentIds: remap(report.sourceContentIds, contentIds),
+            sourceChunkIds: remap(report.sourceChunkIds, chunkIds),
+            generatedByUserId: report.generatedByUserId,
+            generationDurationMs: report.generationDurationMs,
+          })),
+        });
+      }
+
+      return created;
+    },
+    // Large projects with embeddings can take a while to copy
+    { timeout: 60000 }
+  );
+
+  const intakeEmailSlug = await assignIntakeEmailSlug(project.id, project.name);
+
+  return {
+    ...project,
+    intakeEmailSlug,
+    cloned: {
+      planItems: planItems.length,
+      dependencies: copiedDependencies.length,
+      contentItems: contentItems.length,
+      contentChunks: chunkIds.size,
+      activityReports: reports.length,
+    },
+  };
+};
+
 /**
  * Get dashboard statistics for a project
  */
@@ -215,6 +514,12 @@ export const getProjectDashboard = async (projectId: string, organizationId: num
     },
   });
 
+  // Progress rolled up through the plan hierarchy
+  const progress = await getProjectProgressSummary(projectId);
+
+  // RAG health for the project and each workstream
+  const health = await getProjectHealth(projectId, organizationId);
+
   // Get content item statistics
   const contentItemStats = await prisma.contentItem.groupBy({
     by: ['sourceType'],
@@ -314,6 +619,8 @@ export const getProjectDashboard = async (projectId: string, organizationId: num
       status: project.status,
       startDate: project.startDate,
       targetEndDate: project.targetEndDate,
+      progressWeighting: project.progressWeighting,
+      autoRollupStatus: project.autoRollupStatus,
     },
     planItems: {
       total: totalPlanItems,
@@ -326,6 +633,7 @@ export const getProjectDashboard = async (projectId: string, organizationId: num
         typeId: t.itemTypeId,
         count: t._count,
       })),
+      progress,
     },
     contentItems: {
       total: totalContentItems,
@@ -342,5 +650,6 @@ export const getProjectDashboard = async (projectId: string, organizationId: num
     activityReports: {
       recent: recentReports,
     },
+    health,
   };
 };
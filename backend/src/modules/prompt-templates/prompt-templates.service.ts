@@ -60,6 +60,7 @@ export const DEFAULT_TEMPLATES = {
       { name: 'risks', description: 'Risks from activity report', required: true },
       { name: 'blockers', description: 'Blockers from activity report', required: true },
       { name: 'sourceContentIds', description: 'Source content IDs for evidence', required: true },
+      { name: 'customFields', description: 'Custom field values on each plan item', required: false },
     ] as PromptTemplateVariable[],
   },
   'plan-creator': {
@@ -72,6 +73,7 @@ export const DEFAULT_TEMPLATES = {
       { name: 'existingPlanItems', description: 'Existing plan items for context', required: false },
       { name: 'additionalContext', description: 'Additional context or constraints', required: false },
       { name: 'planItemTypes', description: 'Available plan item types', required: false },
+      { name: 'customFields', description: 'Organization custom fields that generated items may set', required: false },
     ] as PromptTemplateVariable[],
   },
 };
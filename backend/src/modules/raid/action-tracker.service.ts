@@ -0,0 +1,352 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../../config/database.js';
+import config from '../../config/index.js';
+import { AppError } from '../../middleware/errorHandler.js';
+import { ErrorCodes } from '../../utils/responses.js';
+import emailService from '../../services/email/email.service.js';
+import logger from '../../utils/logger.js';
+import { loadSources, updateRaidItem } from './raid.service.js';
+import { asEmbedding, normalizeOwner } from './raid-matching.service.js';
+import {
+  openRaidItemStatuses,
+  type ListActionsQuery,
+  type CompleteActionInput,
+} from './raid.schema.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Owners hear about an action this many days before it is due
+const REMINDER_LEAD_DAYS = 1;
+
+// Overdue actions are chased again at this interval until done or rescheduled
+const OVERDUE_REMINDER_INTERVAL_DAYS = 7;
+
+const REMINDER_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+const DONE_STATUSES = ['resolved', 'closed'];
+
+type ReminderKind = 'due' | 'overdue';
+
+export interface Member {
+  id: number;
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+const memberSelect = { id: true, email: true, firstName: true, lastName: true };
+
+const startOfToday = () => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+};
+
+const daysBetween = (from: Date, to: Date) => Math.round((to.getTime() - from.getTime()) / MS_PER_DAY);
+
+// Verify project belongs to organization
+const getProjectOrThrow = async (projectId: string, organizationId: number) => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, organizationId, isActive: true },
+  });
+
+  if (!project) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Project not found', 404);
+  }
+
+  return project;
+};
+
+const getActionOrThrow = async (id: string, projectId: string) => {
+  const action = await prisma.raidItem.findFirst({
+    where: { id, projectId, type: 'action', isActive: true },
+  });
+
+  if (!action) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Action item not found', 404);
+  }
+
+  return action;
+};
+
+export const getMembers = async (organizationId: number): Promise<Member[]> => {
+  const memberships = await prisma.organizationUser.findMany({
+    where: { organizationId, isActive: true, user: { isActive: true } },
+    select: { user: { select: memberSelect } },
+  });
+
+  return memberships.map(m => m.user);
+};
+
+// Owners are free text from notes and reports; match them to a member by email, full name,
+// or the part of the email before the @ when only one member has it
+export const findOwnerMember = (owner: string, members: Member[]): Member | null => {
+  const normalized = normalizeOwner(owner);
+  if (!normalized) return null;
+
+  const byEmailOrName = members.find(
+    m => m.email.toLowerCase() === normalized || normalizeOwner(`${m.firstName} ${m.lastName}`) === normalized
+  );
+  if (byEmailOrName) return byEmailOrName;
+
+  const byLocalPart = members.filter(m => m.email.toLowerCase().split('@')[0] === normalized);
+  return byLocalPart.length === 1 ? byLocalPart[0] : null;
+};
+
+// The project's action items with where each was raised and whether reminders can reach the owner
+export const listActions = async (projectId: string, organizationId: number, query: ListActionsQuery) => {
+  await getProjectOrThrow(projectId, organizationId);
+  const today = startOfToday();
+
+  const where: Prisma.RaidItemWhereInput = { projectId, type: 'action', isActive: true };
+  if (query.status === 'open') where.status = { in: [...openRaidItemStatuses] };
+  if (query.status === 'done') where.status = { in: DONE_STATUSES };
+  if (query.owner) where.owner = { contains: query.owner, mode: 'insensitive' };
+  if (query.overdueOnly) {
+    where.status = { in: [...openRaidItemStatuses] };
+    where.dueDate = { lt: today };
+  }
+
+  const [actions, members, openCounts] = await Promise.all([
+    prisma.raidItem.findMany({
+      where,
+      include: { planItem: { select: { id: true, name: true } } },
+      orderBy: [{ dueDate: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+    }),
+    getMembers(organizationId),
+    prisma.raidItem.findMany({
+      where: { projectId, type: 'action', isActive: true },
+      select: { status: true, dueDate: true },
+    }),
+  ]);
+
+  const sourcesFor = await loadSources(actions);
+
+  const isOpen = (status: string) => (openRaidItemStatuses as readonly string[]).includes(status);
+  const open = openCounts.filter(a => isOpen(a.status));
+  const dueBy = new Date(today.getTime() + REMINDER_LEAD_DAYS * MS_PER_DAY);
+
+  return {
+    summary: {
+      open: open.length,
+      overdue: open.filter(a => a.dueDate && a.dueDate < today).length,
+      dueSoon: open.filter(a => a.dueDate && a.dueDate >= today && a.dueDate <= dueBy).length,
+      done: openCounts.length - open.length,
+    },
+    items: actions.map(({ embedding, ...action }) => {
+      const ownerMember = action.owner ? findOwnerMember(action.owner, members) : null;
+      const daysUntilDue = action.dueDate ? daysBetween(today, action.dueDate) : null;
+      return {
+        ...action,
+        ownerUser: ownerMember,
+        daysUntilDue,
+        isOverdue: isOpen(action.status) && daysUntilDue !== null && daysUntilDue < 0,
+        sources: sourcesFor(action),
+      };
+    }),
+  };
+};
+
+// Mark an action done
+export const completeAction = async (
+  id: string,
+  projectId: string,
+  organizationId: number,
+  input: CompleteActionInput
+) => {
+  await getProjectOrThrow(projectId, organizationId);
+  await getActionOrThrow(id, projectId);
+
+  return updateRaidItem(id, projectId, organizationId, {
+    status: 'resolved',
+    ...(input.resolution !== undefined && { resolution: input.resolution }),
+  });
+};
+
+export const reopenAction = async (id: string, projectId: string, organizationId: number) => {
+  await getProjectOrThrow(projectId, organizationId);
+  await getActionOrThrow(id, projectId);
+
+  return updateRaidItem(id, projectId, organizationId, { status: 'open' });
+};
+
+// Fold a duplicate into an action: the action keeps its own fields, takes any the duplicate
+// fills in, and collects its sources. The duplicate leaves the register pointing at the action.
+export const mergeActions = async (
+  id: string,
+  duplicateId: string,
+  projectId: string,
+  organizationId: number
+) => {
+  await getProjectOrThrow(projectId, organizationId);
+
+  if (id === duplicateId) {
+    throw new AppError(ErrorCodes.VALIDATION_ERROR, 'An action cannot be merged into itself', 400);
+  }
+
+  const [action, duplicate] = await Promise.all([
+    getActionOrThrow(id, projectId),
+    getActionOrThrow(duplicateId, projectId),
+  ]);
+
+  const data: Prisma.RaidItemUncheckedUpdateInput = {
+    sourceContentIds: Array.from(new Set([...action.sourceContentIds, ...duplicate.sourceContentIds])),
+    sourceReportIds: Array.from(new Set([...action.sourceReportIds, ...duplicate.sourceReportIds])),
+  };
+  if (!action.description && duplicate.description) data.description = duplicate.description;
+  if (!action.owner && duplicate.owner) data.owner = duplicate.owner;
+  if (!action.dueDate && duplicate.dueDate) data.dueDate = duplicate.dueDate;
+  if (!action.planItemId && duplicate.planItemId) data.planItemId = duplicate.planItemId;
+  if (!action.severity && duplicate.severity) data.severity = duplicate.severity;
+  if (!asEmbedding(action.embedding) && asEmbedding(duplicate.embedding)) {
+    data.embedding = duplicate.embedding as Prisma.InputJsonValue;
+  }
+  if (duplicate.lastReportedAt && (!action.lastReportedAt || duplicate.lastReportedAt > action.lastReportedAt)) {
+    data.lastReportedAt = duplicate.lastReportedAt;
+  }
+
+  const [merged] = await prisma.$transaction([
+    prisma.raidItem.update({
+      where: { id },
+      data,
+      include: { planItem: { select: { id: true, name: true } } },
+    }),
+    prisma.raidItem.update({
+      where: { id: duplicateId },
+      data: { isActive: false, mergedIntoId: id },
+    }),
+  ]);
+
+  const { embedding, ...result } = merged;
+  return result;
+};
+
+const reminderKindFor = (dueDate: Date, today: Date): ReminderKind => (dueDate < today ? 'overdue' : 'due');
+
+// Each reminder goes out once; overdue ones repeat on the interval
+const needsReminder = (
+  action: { kind: ReminderKind; reminderKind: string | null; reminderSentAt: Date | null },
+  now: Date
+) =>
+  action.reminderKind !== action.kind ||
+  (action.kind === 'overdue' &&
+    !!action.reminderSentAt &&
+    action.reminderSentAt.getTime() <= now.getTime() - OVERDUE_REMINDER_INTERVAL_DAYS * MS_PER_DAY);
+
+// Email owners a digest of their open actions that are due soon or overdue. Owners who are not
+// members of the organization are reported back rather than emailed.
+export const sendActionReminders = async (options: { projectId?: string } = {}) => {
+  const now = new Date();
+  const today = startOfToday();
+  const dueBy = new Date(today.getTime() + REMINDER_LEAD_DAYS * MS_PER_DAY);
+
+  const actions = await prisma.raidItem.findMany({
+    where: {
+      type: 'action',
+      isActive: true,
+      status: { in: [...openRaidItemStatuses] },
+      owner: { not: null },
+      dueDate: { lte: dueBy },
+      project: { isActive: true, ...(options.projectId && { id: options.projectId }) },
+    },
+    select: {
+      id: true,
+      title: true,
+      owner: true,
+      dueDate: true,
+      reminderKind: true,
+      reminderSentAt: true,
+      project: { select: { name: true, organizationId: true } },
+    },
+    orderBy: { dueDate: 'asc' },
+  });
+
+  const pending = actions
+    .map(action => ({ ...action, kind: reminderKindFor(action.dueDate!, today) }))
+    .filter(action => needsReminder(action, now));
+
+  const organizationIds = Array.from(new Set(pending.map(action => action.project.organizationId)));
+  const membersByOrg = new Map(
+    await Promise.all(organizationIds.map(async orgId => [orgId, await getMembers(orgId)] as const))
+  );
+
+  const byMember = new Map<number, { member: Member; actions: typeof pending }>();
+  const unmatchedOwners = new Set<string>();
+  for (const action of pending) {
+    const member = findOwnerMember(action.owner!, membersByOrg.get(action.project.organizationId) ?? []);
+    if (!member) {
+      unmatchedOwners.add(action.owner!);
+      continue;
+    }
+    const entry = byMember.get(member.id) ?? { member, actions: [] };
+    entry.actions.push(action);
+    byMember.set(member.id, entry);
+  }
+
+  const viewUrl = `${config.frontendUrl}/reporter?tab=actions`;
+  const reminded: typeof pending = [];
+  let remindersSent = 0;
+  for (const { member, actions: memberActions } of byMember.values()) {
+    const result = await emailService.sendActionReminder(
+      member.email,
+      member.firstName,
+      memberActions.map(action => ({
+        title: action.title,
+        projectName: action.project.name,
+        dueDate: action.dueDate!.toISOString().split('T')[0],
+        daysOverdue: daysBetween(action.dueDate!, today),
+      })),
+      viewUrl
+    );
+    if (result.success) {
+      remindersSent++;
+      reminded.push(...memberActions);
+    } else {
+      logger.warn(`Failed to send action reminder to ${member.email}:`, result.error);
+    }
+  }
+
+  // Record what went out so the same reminder is not sent twice
+  await prisma.$transaction(
+    (['due', 'overdue'] as const).map(kind =>
+      prisma.raidItem.updateMany({
+        where: { id: { in: reminded.filter(action => action.kind === kind).map(action => action.id) } },
+        data: { reminderKind: kind, reminderSentAt: now },
+      })
+    )
+  );
+
+  const summary = {
+    remindersSent,
+    actionsReminded: reminded.length,
+    unmatchedOwners: Array.from(unmatchedOwners),
+  };
+  if (summary.actionsReminded > 0) {
+    logger.info('Sent action item reminders', summary);
+  }
+  return summary;
+};
+
+// Reminders for one project, on demand
+export const sendProjectActionReminders = async (projectId: string, organizationId: number) => {
+  await getProjectOrThrow(projectId, organizationId);
+  return sendActionReminders({ projectId });
+};
+
+// Check for due and overdue actions at startup and then hourly
+export const scheduleActionReminders = () => {
+  const run = () => {
+    sendActionReminders().catch(error => logger.error('Action reminders failed:', error));
+  };
+  run();
+  return setInterval(run, REMINDER_SWEEP_INTERVAL_MS);
+};
+
+export default {
+  listActions,
+  completeAction,
+  reopenAction,
+  mergeActions,
+  sendActionReminders,
+  sendProjectActionReminders,
+  scheduleActionReminders,
+};
@@ -0,0 +1,208 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../../config/database.js';
+import { AppError } from '../../middleware/errorHandler.js';
+import { ErrorCodes } from '../../utils/responses.js';
+import { loadSources } from './raid.service.js';
+import { openRaidItemStatuses, type ListDecisionsQuery } from './raid.schema.js';
+
+const planItemInclude = { planItem: { select: { id: true, name: true } } };
+
+const linkedDecisionSelect = { id: true, title: true, decisionDate: true, supersededById: true };
+
+// Verify project belongs to organization
+const getProjectOrThrow = async (projectId: string, organizationId: number) => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, organizationId, isActive: true },
+  });
+
+  if (!project) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Project not found', 404);
+  }
+
+  return project;
+};
+
+const getDecisionOrThrow = async (id: string, projectId: string) => {
+  const decision = await prisma.raidItem.findFirst({
+    where: { id, projectId, type: 'decision', isActive: true },
+  });
+
+  if (!decision) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Decision not found', 404);
+  }
+
+  return decision;
+};
+
+// The project's decisions, newest first, with what they replaced or were replaced by, the plan
+// items they affect and where they were raised
+export const listDecisions = async (projectId: string, organizationId: number, query: ListDecisionsQuery) => {
+  await getProjectOrThrow(projectId, organizationId);
+
+  const where: Prisma.RaidItemWhereInput = {
+    projectId,
+    type: 'decision',
+    isActive: true,
+    reviewStatus: query.review,
+  };
+  if (query.status === 'current') where.supersededById = null;
+  if (query.status === 'superseded') where.supersededById = { not: null };
+  if (query.planItemId) {
+    where.OR = [{ planItemId: query.planItemId }, { affectedPlanItemIds: { has: query.planItemId } }];
+  }
+
+  const [decisions, counts] = await Promise.all([
+    prisma.raidItem.findMany({
+      where,
+      include: planItemInclude,
+      orderBy: [{ decisionDate: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
+    }),
+    prisma.raidItem.findMany({
+      where: { projectId, type: 'decision', isActive: true },
+      select: { reviewStatus: true, supersededById: true },
+    }),
+  ]);
+
+  const decisionIds = decisions.map(d => d.id);
+  const replacementIds = decisions.map(d => d.supersededById).filter((id): id is string => !!id);
+  const affectedIds = Array.from(new Set(decisions.flatMap(d => d.affectedPlanItemIds)));
+
+  const [linked, affectedPlanItems, sourcesFor] = await Promise.all([
+    prisma.raidItem.findMany({
+      where: {
+        projectId,
+        type: 'decision',
+        isActive: true,
+        OR: [{ id: { in: replacementIds } }, { supersededById: { in: decisionIds } }],
+      },
+      select: linkedDecisionSelect,
+    }),
+    prisma.planItem.findMany({
+      where: { id: { in: affectedIds }, isActive: true },
+      select: { id: true, name: true },
+    }),
+    loadSources(decisions),
+  ]);
+  const linkedById = new Map(linked.map(d => [d.id, d]));
+  const planItemById = new Map(affectedPlanItems.map(p => [p.id, p]));
+  const accepted = counts.filter(d => d.reviewStatus === 'accepted');
+
+  return {
+    summary: {
+      current: accepted.filter(d => !d.supersededById).length,
+      superseded: accepted.filter(d => d.supersededById).length,
+      pendingReview: counts.filter(d => d.reviewStatus === 'pending').length,
+    },
+    items: decisions.map(({ embedding, ...decision }) => {
+      const supersededBy = decision.supersededById ? linkedById.get(decision.supersededById) : undefined;
+      return {
+        ...decision,
+        affectedPlanItems: decision.affectedPlanItemIds
+          .map(id => planItemById.get(id))
+          .filter(p => p !== undefined),
+        supersededBy: supersededBy
+          ? { id: supersededBy.id, title: supersededBy.title, decisionDate: supersededBy.decisionDate }
+          : null,
+        supersedes: linked
+          .filter(d => d.supersededById === decision.id)
+          .map(({ supersededById, ...d }) => d),
+        sources: sourcesFor(decision),
+      };
+    }),
+  };
+};
+
+// Record that a later decision replaced this one. The superseded decision is closed but stays in
+// the log, pointing at its replacement.
+export const supersedeDecision = async (
+  id: string,
+  supersededById: string,
+  projectId: string,
+  organizationId: number
+) => {
+  await getProjectOrThrow(projectId, organizationId);
+
+  if (id === supersededById) {
+    throw new AppError(ErrorCodes.VALIDATION_ERROR, 'A decision cannot supersede itself', 400);
+  }
+
+  const [decision, replacement] = await Promise.all([
+    getDecisionOrThrow(id, projectId),
+    getDecisionOrThrow(supersededById, projectId),
+  ]);
+
+  if (decision.reviewStatus !== 'accepted' || replacement.reviewStatus !== 'accepted') {
+    throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Only accepted decisions can be superseded or supersede', 400);
+  }
+  if (decision.supersededById) {
+    throw new AppError(ErrorCodes.CONFLICT, 'Decision is already superseded', 409);
+  }
+
+  // Walk the replacement's own chain so two decisions never end up superseding each other
+  let next: string | null = replacement.supersededById;
+  const seen = new Set<string>();
+  while (next && !seen.has(next)) {
+    if (next === id) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, 'The replacement was itself superseded by this decision', 400);
+    }
+    seen.add(next);
+    const link: { supersededById: string | null } | null = await prisma.raidItem.findUnique({
+      where: { id: next },
+      select: { supersededById: true },
+    });
+    next = link?.supersededById ?? null;
+  }
+
+  const now = new Date();
+  const isOpen = (openRaidItemStatuses as readonly string[]).includes(decision.status);
+  const { embedding, ...updated } = await prisma.raidItem.update({
+    where: { id },
+    data: {
+      supersededById,
+      supersededAt: now,
+      status: 'closed',
+      ...(isOpen && { closedAt: now }),
+    },
+    include: planItemInclude,
+  });
+
+  return updated;
+};
+
+const reviewDecision = async (
+  id: string,
+  projectId: string,
+  organizationId: number,
+  reviewStatus: 'accepted' | 'rejected',
+  userId?: number
+) => {
+  await getProjectOrThrow(projectId, organizationId);
+  const decision = await getDecisionOrThrow(id, projectId);
+
+  if (reviewStatus === 'rejected' && decision.reviewStatus === 'accepted') {
+    throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Only proposed decisions can be rejected', 400);
+  }
+
+  const { embedding, ...updated } = await prisma.raidItem.update({
+    where: { id },
+    data: { reviewStatus, reviewedAt: new Date(), reviewedByUserId: userId },
+    include: planItemInclude,
+  });
+
+  return updated;
+};
+
+// Accept a proposed decision into the log
+export const acceptDecision = (id: string, projectId: string, organizationId: number, userId?: number) =>
+  reviewDecision(id, projectId, organizationId, 'accepted', userId);
+
+// Reject a proposal. It is kept so the same decision found again is not proposed a second time.
+export const rejectDecision = (id: string, projectId: string, organizationId: number, userId?: number) =>
+  reviewDecision(id, projectId, organizationId, 'rejected', userId);
+
+export default {
+  listDecisions,
+  supersedeDecision,
+  acceptDecision,
+  rejectDecision,
+};
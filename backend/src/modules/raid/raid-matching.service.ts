@@ -0,0 +1,161 @@
+import { generateEmbeddings, isOpenAIConfigured } from '../../services/ai/openai.service.js';
+import logger from '../../utils/logger.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Token overlap needed before an extracted item is treated as an existing register entry
+const TITLE_MATCH_THRESHOLD = 0.6;
+
+// Embedding similarity at which two actions describe the same piece of work
+const EMBEDDING_MATCH_THRESHOLD = 0.88;
+
+// Each corroborating signal on an action (same owner, close due dates, shared source content)
+// lowers the similarity needed for a match by this much
+const CORROBORATION_DISCOUNT = 0.08;
+
+// Due dates this close together count as the same commitment
+const DUE_DATE_TOLERANCE_DAYS = 2;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'of', 'on', 'or', 'the', 'to', 'with',
+]);
+
+export interface MatchableRaidItem {
+  type: string;
+  title: string;
+  planItemId: string | null;
+}
+
+export interface MatchableAction extends MatchableRaidItem {
+  owner: string | null;
+  dueDate: Date | null;
+  sourceContentIds: string[];
+  embedding?: unknown;
+}
+
+const tokenizeTitle = (title: string): Set<string> =>
+  new Set(
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter(word => word && !STOP_WORDS.has(word))
+  );
+
+export const titleSimilarity = (a: string, b: string): number => {
+  const tokensA = tokenizeTitle(a);
+  const tokensB = tokenizeTitle(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let shared = 0;
+  for (const token of tokensA) {
+    if (tokensB.has(token)) shared++;
+  }
+
+  return shared / (tokensA.size + tokensB.size - shared);
+};
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Embeddings are stored as JSON, so check the shape before trusting one
+export const asEmbedding = (value: unknown): number[] | null =>
+  Array.isArray(value) && value.length > 0 && value.every(v => typeof v === 'number') ? value : null;
+
+export const normalizeOwner = (owner: string | null | undefined): string | null => {
+  const normalized = owner?.trim().toLowerCase().replace(/\s+/g, ' ');
+  return normalized || null;
+};
+
+// Embed action titles and descriptions for matching. Without OpenAI, or if the call fails,
+// every entry is null and matching falls back to title overlap.
+export const embedActions = async (
+  actions: Array<{ title: string; description?: string | null }>
+): Promise<Array<number[] | null>> => {
+  if (actions.length === 0 || !isOpenAIConfigured()) return actions.map(() => null);
+
+  try {
+    return await generateEmbeddings(
+      actions.map(action => [action.title, action.description].filter(Boolean).join('\n'))
+    );
+  } catch (error) {
+    logger.warn('Failed to embed actions; matching on titles only:', error);
+    return actions.map(() => null);
+  }
+};
+
+// Best open register entry of the same type with a similar title
+export const findMatchingRaidItem = <T extends MatchableRaidItem>(
+  extracted: MatchableRaidItem,
+  candidates: T[]
+): T | null => {
+  let best: T | null = null;
+  let bestScore = 0;
+
+  for (const candidate of candidates) {
+    if (candidate.type !== extracted.type) continue;
+    // Same title on a different plan item is a different entry
+    if (candidate.planItemId && extracted.planItemId && candidate.planItemId !== extracted.planItemId) continue;
+
+    const score = titleSimilarity(candidate.title, extracted.title);
+    if (score >= TITLE_MATCH_THRESHOLD && score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+
+  return best;
+};
+
+// Best register action for an extracted one. Similarity comes from the embeddings when both
+// sides have one and from title overlap otherwise; a matching owner, due date or source
+// lowers the bar, and a different owner or plan item rules the candidate out.
+export const findMatchingAction = <T extends MatchableAction>(
+  extracted: MatchableAction,
+  embedding: number[] | null,
+  candidates: T[]
+): T | null => {
+  const owner = normalizeOwner(extracted.owner);
+  let best: T | null = null;
+  let bestMargin = -Infinity;
+
+  for (const candidate of candidates) {
+    if (candidate.type !== 'action') continue;
+    if (candidate.planItemId && extracted.planItemId && candidate.planItemId !== extracted.planItemId) continue;
+
+    const candidateOwner = normalizeOwner(candidate.owner);
+    if (owner && candidateOwner && owner !== candidateOwner) continue;
+
+    const candidateEmbedding = asEmbedding(candidate.embedding);
+    const [similarity, threshold] = embedding && candidateEmbedding
+      ? [cosineSimilarity(embedding, candidateEmbedding), EMBEDDING_MATCH_THRESHOLD]
+      : [titleSimilarity(candidate.title, extracted.title), TITLE_MATCH_THRESHOLD];
+
+    const corroboration = [
+      !!owner && owner === candidateOwner,
+      !!extracted.dueDate && !!candidate.dueDate &&
+        Math.abs(extracted.dueDate.getTime() - candidate.dueDate.getTime()) <= DUE_DATE_TOLERANCE_DAYS * MS_PER_DAY,
+      extracted.sourceContentIds.some(id => candidate.sourceContentIds.includes(id)),
+    ].filter(Boolean).length;
+
+    const margin = similarity - (threshold - corroboration * CORROBORATION_DISCOUNT);
+    if (margin >= 0 && margin > bestMargin) {
+      best = candidate;
+      bestMargin = margin;
+    }
+  }
+
+  return best;
+};
@@ -0,0 +1,247 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import * as raidService from './raid.service.js';
+import * as actionTrackerService from './action-tracker.service.js';
+import * as decisionLogService from './decision-log.service.js';
+import { successResponse } from '../../utils/responses.js';
+import type {
+  CreateRaidItemInput,
+  UpdateRaidItemInput,
+  ListRaidItemsQuery,
+  ListActionsQuery,
+  CompleteActionInput,
+  MergeActionInput,
+  ListDecisionsQuery,
+  SupersedeDecisionInput,
+} from './raid.schema.js';
+
+// GET /api/projects/:projectId/raid - List RAID register items
+export const listRaidItems: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId } = req.params;
+    const query = req.query as unknown as ListRaidItemsQuery;
+    const result = await raidService.listRaidItems(projectId, organizationId, query);
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/projects/:projectId/raid/:raidItemId - Get single RAID item
+export const getRaidItem: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId, raidItemId } = req.params;
+    const item = await raidService.getRaidItem(raidItemId, projectId, organizationId);
+    successResponse(res, item);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/raid - Create RAID item
+export const createRaidItem: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId } = req.params;
+    const input = req.body as CreateRaidItemInput;
+    const item = await raidService.createRaidItem(projectId, organizationId, input, req.user?.id);
+    successResponse(res, item, 201);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// PUT /api/projects/:projectId/raid/:raidItemId - Update RAID item
+export const updateRaidItem: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId, raidItemId } = req.params;
+    const input = req.body as UpdateRaidItemInput;
+    const item = await raidService.updateRaidItem(raidItemId, projectId, organizationId, input);
+    successResponse(res, item);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// DELETE /api/projects/:projectId/raid/:raidItemId - Delete RAID item
+export const deleteRaidItem: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId, raidItemId } = req.params;
+    const result = await raidService.deleteRaidItem(raidItemId, projectId, organizationId);
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/projects/:projectId/actions - Action tracker
+export const listActions: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId } = req.params;
+    const query = req.query as unknown as ListActionsQuery;
+    const result = await actionTrackerService.listActions(projectId, organizationId, query);
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/actions/:actionId/complete - Mark an action done
+export const completeAction: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId, actionId } = req.params;
+    const input = req.body as CompleteActionInput;
+    const item = await actionTrackerService.completeAction(actionId, projectId, organizationId, input);
+    successResponse(res, item);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/actions/:actionId/reopen - Reopen a done action
+export const reopenAction: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId, actionId } = req.params;
+    const item = await actionTrackerService.reopenAction(actionId, projectId, organizationId);
+    successResponse(res, item);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/actions/:actionId/merge - Fold a duplicate into an action
+export const mergeActions: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId, actionId } = req.params;
+    const { duplicateId } = req.body as MergeActionInput;
+    const item = await actionTrackerService.mergeActions(actionId, duplicateId, projectId, organizationId);
+    successResponse(res, item);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/actions/reminders - Email owners of due and overdue actions now
+export const sendActionReminders: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId } = req.params;
+    const result = await actionTrackerService.sendProjectActionReminders(projectId, organizationId);
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/projects/:projectId/decisions - Decision log, or the review queue with review=pending
+export const listDecisions: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId } = req.params;
+    const query = req.query as unknown as ListDecisionsQuery;
+    const result = await decisionLogService.listDecisions(projectId, organizationId, query);
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/decisions/:decisionId/supersede - Mark replaced by a later decision
+export const supersedeDecision: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId, decisionId } = req.params;
+    const { supersededById } = req.body as SupersedeDecisionInput;
+    const item = await decisionLogService.supersedeDecision(decisionId, supersededById, projectId, organizationId);
+    successResponse(res, item);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/decisions/:decisionId/accept - Accept a proposed decision
+export const acceptDecision: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId, decisionId } = req.params;
+    const item = await decisionLogService.acceptDecision(decisionId, projectId, organizationId, req.user?.id);
+    successResponse(res, item);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/decisions/:decisionId/reject - Reject a proposed decision
+export const rejectDecision: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId, decisionId } = req.params;
+    const item = await decisionLogService.rejectDecision(decisionId, projectId, organizationId, req.user?.id);
+    successResponse(res, item);
+  } catch (error) {
+    next(error);
+  }
+};
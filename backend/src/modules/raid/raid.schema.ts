@@ -0,0 +1,113 @@
+import { z } from 'zod';
+
+// RAID register entry types (blockers from activity reports are tracked as issues)
+export const raidItemTypes = ['risk', 'action', 'issue', 'decision'] as const;
+
+// Status lifecycle: open -> in_progress -> resolved -> closed
+export const raidItemStatuses = ['open', 'in_progress', 'resolved', 'closed'] as const;
+
+// Statuses that count as "open" when reconciling newly reported items
+export const openRaidItemStatuses = ['open', 'in_progress'] as const;
+
+export const raidLevels = ['high', 'medium', 'low'] as const;
+
+// Review lifecycle: decisions proposed by the intake agent are pending until accepted or rejected
+export const raidReviewStatuses = ['accepted', 'pending', 'rejected'] as const;
+
+// Schema for creating RAID items via POST /api/projects/:projectId/raid
+export const createRaidItemSchema = z.object({
+  type: z.enum(raidItemTypes),
+  title: z.string().min(1).max(500),
+  description: z.string().max(5000).nullable().optional(),
+  owner: z.string().max(255).nullable().optional(),
+  status: z.enum(raidItemStatuses).default('open'),
+  severity: z.enum(raidLevels).nullable().optional(),
+  likelihood: z.enum(raidLevels).nullable().optional(),
+  dueDate: z.coerce.date().nullable().optional(),
+  resolution: z.string().max(5000).nullable().optional(),
+  decisionMaker: z.string().max(255).nullable().optional(),
+  decisionDate: z.coerce.date().nullable().optional(),
+  rationale: z.string().max(5000).nullable().optional(),
+  alternatives: z.array(z.string().min(1).max(1000)).max(20).default([]),
+  planItemId: z.string().uuid().nullable().optional(),
+  affectedPlanItemIds: z.array(z.string().uuid()).default([]),
+  sourceContentIds: z.array(z.string().uuid()).default([]),
+});
+
+export const updateRaidItemSchema = z.object({
+  title: z.string().min(1).max(500).optional(),
+  description: z.string().max(5000).nullable().optional(),
+  owner: z.string().max(255).nullable().optional(),
+  status: z.enum(raidItemStatuses).optional(),
+  severity: z.enum(raidLevels).nullable().optional(),
+  likelihood: z.enum(raidLevels).nullable().optional(),
+  dueDate: z.coerce.date().nullable().optional(),
+  resolution: z.string().max(5000).nullable().optional(),
+  decisionMaker: z.string().max(255).nullable().optional(),
+  decisionDate: z.coerce.date().nullable().optional(),
+  rationale: z.string().max(5000).nullable().optional(),
+  alternatives: z.array(z.string().min(1).max(1000)).max(20).optional(),
+  planItemId: z.string().uuid().nullable().optional(),
+  affectedPlanItemIds: z.array(z.string().uuid()).optional(),
+  sourceContentIds: z.array(z.string().uuid()).optional(),
+});
+
+export const listRaidItemsQuerySchema = z.object({
+  type: z.enum(raidItemTypes).optional(),
+  status: z.enum(raidItemStatuses).optional(),
+  owner: z.string().optional(),
+  planItemId: z.string().uuid().optional(),
+  openOnly: z
+    .enum(['true', 'false'])
+    .transform(v => v === 'true')
+    .optional(),
+});
+
+// Action tracker views: open covers open and in-progress, done covers resolved and closed
+export const actionTrackerStatuses = ['open', 'done', 'all'] as const;
+
+// Schema for GET /api/projects/:projectId/actions
+export const listActionsQuerySchema = z.object({
+  status: z.enum(actionTrackerStatuses).default('open'),
+  owner: z.string().optional(),
+  overdueOnly: z
+    .enum(['true', 'false'])
+    .transform(v => v === 'true')
+    .optional(),
+});
+
+export const completeActionSchema = z.object({
+  resolution: z.string().max(5000).optional(),
+});
+
+// Fold a duplicate action into the one in the URL
+export const mergeActionSchema = z.object({
+  duplicateId: z.string().uuid(),
+});
+
+// Decision log views: current decisions stand, superseded ones were replaced by a later decision
+export const decisionLogStatuses = ['current', 'superseded', 'all'] as const;
+
+// Schema for GET /api/projects/:projectId/decisions
+export const listDecisionsQuerySchema = z.object({
+  status: z.enum(decisionLogStatuses).default('current'),
+  review: z.enum(raidReviewStatuses).default('accepted'),
+  planItemId: z.string().uuid().optional(),
+});
+
+// Mark the decision in the URL as replaced by a later one
+export const supersedeDecisionSchema = z.object({
+  supersededById: z.string().uuid(),
+});
+
+export type RaidItemType = typeof raidItemTypes[number];
+export type RaidItemStatus = typeof raidItemStatuses[number];
+export type CreateRaidItemInput = z.infer<typeof createRaidItemSchema>;
+export type UpdateRaidItemInput = z.infer<typeof updateRaidItemSchema>;
+export type ListRaidItemsQuery = z.infer<typeof listRaidItemsQuerySchema>;
+export type ListActionsQuery = z.infer<typeof listActionsQuerySchema>;
+export type CompleteActionInput = z.infer<typeof completeActionSchema>;
+export type MergeActionInput = z.infer<typeof mergeActionSchema>;
+export type RaidReviewStatus = typeof raidReviewStatuses[number];
+export type ListDecisionsQuery = z.infer<typeof listDecisionsQuerySchema>;
+export type SupersedeDecisionInput = z.infer<typeof supersedeDecisionSchema>;
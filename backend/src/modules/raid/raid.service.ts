@@ -0,0 +1,650 @@
+import prisma from '../../config/database.js';
+import { Prisma, type RaidItem } from '@prisma/client';
+import { AppError } from '../../middleware/errorHandler.js';
+import { ErrorCodes } from '../../utils/responses.js';
+import type {
+  ReportResult,
+  ActionItem,
+  Risk,
+  Decision,
+  Blocker,
+} from '../../services/ai/prompts/activity-reporter.js';
+import {
+  openRaidItemStatuses,
+  type CreateRaidItemInput,
+  type UpdateRaidItemInput,
+  type ListRaidItemsQuery,
+  type RaidItemType,
+  type RaidItemStatus,
+} from './raid.schema.js';
+import { embedActions, findMatchingAction, findMatchingRaidItem } from './raid-matching.service.js';
+
+// A report or intake item normalized into register fields
+export interface ExtractedRaidItem {
+  type: RaidItemType;
+  status: RaidItemStatus;
+  title: string;
+  description: string | null;
+  owner: string | null;
+  severity: string | null;
+  likelihood: string | null;
+  dueDate: Date | null;
+  resolution: string | null;
+  decisionMaker: string | null;
+  decisionDate: Date | null;
+  planItemId: string | null;
+  sourceContentIds: string[];
+  // Decisions only
+  rationale?: string | null;
+  alternatives?: string[];
+  affectedPlanItemIds?: string[];
+}
+
+// Verify project belongs to organization
+const getProjectOrThrow = async (projectId: string, organizationId: number) => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, organizationId, isActive: true },
+  });
+
+  if (!project) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Project not found', 404);
+  }
+
+  return project;
+};
+
+// Verify a linked plan item belongs to the same project
+const verifyPlanItem = async (projectId: string, planItemId: string | null | undefined) => {
+  if (!planItemId) return;
+
+  const planItem = await prisma.planItem.findFirst({
+    where: { id: planItemId, projectId, isActive: true },
+  });
+
+  if (!planItem) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Plan item not found', 404);
+  }
+};
+
+// Verify every plan item a decision affects belongs to the same project
+const verifyPlanItems = async (projectId: string, planItemIds: string[] | undefined) => {
+  if (!planItemIds || planItemIds.length === 0) return;
+
+  const found = await prisma.planItem.count({
+    where: { id: { in: planItemIds }, projectId, isActive: true },
+  });
+
+  if (found !== new Set(planItemIds).size) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Plan item not found', 404);
+  }
+};
+
+const planItemSelect = {
+  planItem: { select: { id: true, name: true } },
+};
+
+// Embeddings are only used for matching and are too large to send to clients
+const omitEmbedding = <T extends { embedding: unknown }>({ embedding, ...item }: T) => item;
+
+const isOpenStatus = (status: string) => (openRaidItemStatuses as readonly string[]).includes(status);
+
+// List RAID items for a project
+export const listRaidItems = async (projectId: string, organizationId: number, query: ListRaidItemsQuery) => {
+  await getProjectOrThrow(projectId, organizationId);
+
+  // Proposals awaiting review, and rejected ones, stay off the register
+  const where: Prisma.RaidItemWhereInput = {
+    projectId,
+    isActive: true,
+    reviewStatus: 'accepted',
+  };
+
+  if (query.type) where.type = query.type;
+  if (query.planItemId) where.planItemId = query.planItemId;
+  if (query.owner) where.owner = { contains: query.owner, mode: 'insensitive' };
+
+  if (query.status) {
+    where.status = query.status;
+  } else if (query.openOnly) {
+    where.status = { in: [...openRaidItemStatuses] };
+  }
+
+  const items = await prisma.raidItem.findMany({
+    where,
+    include: planItemSelect,
+    orderBy: [{ type: 'asc' }, { createdAt: 'desc' }],
+  });
+
+  return { items: items.map(omitEmbedding), total: items.length };
+};
+
+// Get a single RAID item
+export const getRaidItem = async (id: string, projectId: string, organizationId: number) => {
+  await getProjectOrThrow(projectId, organizationId);
+
+  const item = await prisma.raidItem.findFirst({
+    where: { id, projectId, isActive: true },
+    include: planItemSelect,
+  });
+
+  if (!item) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'RAID item not found', 404);
+  }
+
+  return omitEmbedding(item);
+};
+
+// Create a RAID item
+export const createRaidItem = async (
+  projectId: string,
+  organizationId: number,
+  input: CreateRaidItemInput,
+  userId?: number
+) => {
+  await getProjectOrThrow(projectId, organizationId);
+  await verifyPlanItem(projectId, input.planItemId);
+  await verifyPlanItems(projectId, input.affectedPlanItemIds);
+
+  const isClosed = input.status === 'resolved' || input.status === 'closed';
+  const [embedding] = input.type === 'action' ? await embedActions([input]) : [null];
+
+  const item = await prisma.raidItem.create({
+    data: {
+      projectId,
+      type: input.type,
+      title: input.title,
+      description: input.description,
+      owner: input.owner,
+      status: input.status,
+      severity: input.severity,
+      likelihood: input.likelihood,
+      dueDate: input.dueDate,
+      resolution: input.resolution,
+      decisionMaker: input.decisionMaker,
+      decisionDate: input.decisionDate,
+      rationale: input.rationale,
+      alternatives: input.alternatives,
+      planItemId: input.planItemId || null,
+      affectedPlanItemIds: input.affectedPlanItemIds,
+      sourceContentIds: input.sourceContentIds,
+      embedding: embedding ?? undefined,
+      closedAt: isClosed ? new Date() : null,
+      createdBy: 'user',
+      createdByUserId: userId,
+    },
+    include: planItemSelect,
+  });
+
+  return omitEmbedding(item);
+};
+
+// Update a RAID item
+export const updateRaidItem = async (
+  id: string,
+  projectId: string,
+  organizationId: number,
+  input: UpdateRaidItemInput
+) => {
+  const existing = await getRaidItem(id, projectId, organizationId);
+
+  if (input.planItemId !== undefined) {
+    await verifyPlanItem(projectId, input.planItemId);
+  }
+  await verifyPlanItems(projectId, input.affectedPlanItemIds);
+
+  const updateData: Prisma.RaidItemUncheckedUpdateInput = { ...input };
+
+  // Stamp closedAt when the item leaves the open lifecycle, clear it when reopened
+  const reopened = input.status !== undefined && !isOpenStatus(existing.status) && isOpenStatus(input.status);
+  if (input.status !== undefined && input.status !== existing.status) {
+    if (isOpenStatus(existing.status) && !isOpenStatus(input.status)) updateData.closedAt = new Date();
+    if (reopened) updateData.closedAt = null;
+  }
+
+  // A new due date, or reopening, starts the owner's reminders over
+  const dueDateChanged = input.dueDate !== undefined && input.dueDate?.getTime() !== existing.dueDate?.getTime();
+  if (dueDateChanged || reopened) {
+    updateData.reminderKind = null;
+    updateData.reminderSentAt = null;
+  }
+
+  // Keep the matching embedding in step with what the action says
+  const textChanged = (input.title !== undefined && input.title !== existing.title)
+    || (input.description !== undefined && input.description !== existing.description);
+  if (existing.type === 'action' && textChanged) {
+    const [embedding] = await embedActions([{
+      title: input.title ?? existing.title,
+      description: input.description !== undefined ? input.description : existing.description,
+    }]);
+    updateData.embedding = embedding ?? Prisma.DbNull;
+  }
+
+  const item = await prisma.raidItem.update({
+    where: { id },
+    data: updateData,
+    include: planItemSelect,
+  });
+
+  return omitEmbedding(item);
+};
+
+// Delete a RAID item (soft delete)
+export const deleteRaidItem = async (id: string, projectId: string, organizationId: number) => {
+  await getRaidItem(id, projectId, organizationId);
+
+  await prisma.raidItem.update({
+    where: { id },
+    data: { isActive: false },
+  });
+
+  return { message: 'RAID item deleted successfully' };
+};
+
+// Look up the content and reports register entries were raised in, for showing alongside them
+export const loadSources = async (items: Array<{ sourceContentIds: string[]; sourceReportIds: string[] }>) => {
+  const contentIds = Array.from(new Set(items.flatMap(i => i.sourceContentIds)));
+  const reportIds = Array.from(new Set(items.flatMap(i => i.sourceReportIds)));
+  const [contentItems, reports] = await Promise.all([
+    prisma.contentItem.findMany({
+      where: { id: { in: contentIds }, isActive: true },
+      select: { id: true, title: true, sourceType: true, dateOccurred: true, parentItemId: true },
+    }),
+    prisma.activityReport.findMany({
+      where: { id: { in: reportIds }, isActive: true },
+      select: { id: true, title: true, periodStart: true, periodEnd: true },
+    }),
+  ]);
+  const contentById = new Map(contentItems.map(c => [c.id, c]));
+  const reportById = new Map(reports.map(r => [r.id, r]));
+
+  return (item: { sourceContentIds: string[]; sourceReportIds: string[] }) => ({
+    contentItems: item.sourceContentIds.map(id => contentById.get(id)).filter(c => c !== undefined),
+    reports: item.sourceReportIds.map(id => reportById.get(id)).filter(r => r !== undefined),
+  });
+};
+
+// Get open register items for the activity reporter prompt
+export const getOpenRaidItems = async (projectId: string) => {
+  return prisma.raidItem.findMany({
+    where: {
+      projectId,
+      isActive: true,
+      reviewStatus: 'accepted',
+      status: { in: [...openRaidItemStatuses] },
+    },
+    select: { id: true, type: true, title: true, owner: true, status: true },
+    orderBy: { createdAt: 'asc' },
+  });
+};
+
+// Action items split out of content by the intake agent
+export interface IntakeAction {
+  title: string;
+  description: string | null;
+  owner: string | null;
+  dueDate: string | null;
+  status: string | null;
+  planItemId: string | null;
+  sourceContentIds: string[];
+}
+
+// Decisions found in content by the intake agent, proposed for the decision log
+export interface IntakeDecision {
+  title: string;
+  description: string | null;
+  decisionMaker: string | null;
+  decisionDate: string | null;
+  rationale: string | null;
+  alternatives: string[];
+  planItemId: string | null;
+  affectedPlanItemIds: string[];
+  sourceContentIds: string[];
+}
+
+// Who or what is adding to the register
+interface Lineage {
+  createdBy: 'activity_reporter' | 'intake_agent';
+  createdByUserId?: number;
+  // Stamp lastReportedAt on the entries touched
+  reported: boolean;
+  // New entries wait in the review queue instead of joining the register
+  proposed?: boolean;
+}
+
+// Reconciling reads and writes a fair share of the register, one item at a time
+const RECONCILE_TIMEOUT_MS = 60000;
+
+// Open entries, plus every decision, that newly extracted items can reconcile to. Takes a
+// project-wide lock for the rest of the transaction first, so reconciles running side by side
+// see each other's new entries instead of each creating its own.
+const getReconcileCandidates = async (tx: Prisma.TransactionClient, projectId: string) => {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`raid-reconcile:${projectId}`}))`;
+  return tx.raidItem.findMany({
+    where: {
+      projectId,
+      isActive: true,
+      // Decisions are matched regardless of status so a re-reported decision is not logged twice
+      OR: [{ status: { in: [...openRaidItemStatuses] } }, { type: 'decision' }],
+    },
+  });
+};
+
+// Fold one extracted item into the register: update the entry it matches or create a new one.
+// New entries join the candidates so later items can reconcile against them.
+const applyExtractedItem = async (
+  tx: Prisma.TransactionClient,
+  projectId: string,
+  candidates: RaidItem[],
+  extracted: ExtractedRaidItem,
+  embedding: number[] | null,
+  lineage: Lineage,
+  now: Date
+): Promise<{ raidItemId: string; isNew: boolean }> => {
+  const match = extracted.type === 'action'
+    ? findMatchingAction(extracted, embedding, candidates)
+    : findMatchingRaidItem(extracted, candidates);
+
+  if (match) {
+    const data: Prisma.RaidItemUncheckedUpdateInput = {
+      sourceContentIds: Array.from(new Set([...match.sourceContentIds, ...extracted.sourceContentIds])),
+    };
+    if (lineage.reported) data.lastReportedAt = now;
+    // Fill gaps but never overwrite what someone has curated on the register
+    if (!match.owner && extracted.owner) data.owner = extracted.owner;
+    if (!match.dueDate && extracted.dueDate) data.dueDate = extracted.dueDate;
+    if (!match.planItemId && extracted.planItemId) data.planItemId = extracted.planItemId;
+    if (!match.severity && extracted.severity) data.severity = extracted.severity;
+    if (!match.resolution && extracted.resolution) data.resolution = extracted.resolution;
+    if (!match.embedding && embedding) data.embedding = embedding;
+    if (!match.rationale && extracted.rationale) data.rationale = extracted.rationale;
+    if (match.alternatives.length === 0 && extracted.alternatives?.length) data.alternatives = extracted.alternatives;
+    if (extracted.affectedPlanItemIds?.length) {
+      data.affectedPlanItemIds = Array.from(new Set([...match.affectedPlanItemIds, ...extracted.affectedPlanItemIds]));
+    }
+    // A report repeating a proposal is taken as confirmation; rejections stand
+    if (lineage.reported && match.reviewStatus === 'pending') {
+      data.reviewStatus = 'accepted';
+      data.reviewedAt = now;
+    }
+    if (extracted.status === 'resolved' && match.status !== 'resolved' && match.status !== 'closed') {
+      data.status = 'resolved';
+      data.closedAt = now;
+    } else if (extracted.status === 'in_progress' && match.status === 'open') {
+      data.status = 'in_progress';
+    }
+
+    const updated = await tx.raidItem.update({ where: { id: match.id }, data });
+    Object.assign(match, updated);
+    return { raidItemId: match.id, isNew: false };
+  }
+
+  const created = await tx.raidItem.create({
+    data: {
+      projectId,
+      ...extracted,
+      embedding: embedding ?? undefined,
+      closedAt: extracted.status === 'resolved' ? now : null,
+      lastReportedAt: lineage.reported ? now : null,
+      reviewStatus: lineage.proposed ? 'pending' : 'accepted',
+      createdBy: lineage.createdBy,
+      createdByUserId: lineage.createdByUserId,
+    },
+  });
+  candidates.push(created);
+  return { raidItemId: created.id, isNew: true };
+};
+
+// Reconcile report items against the register and save the report in the same transaction,
+// so the register never points at a report that failed to save.
+// Items that match an open entry update it; anything else becomes a new entry.
+// Every saved report item carries the raidItemId it was reconciled to, and
+// repeats of the same entry within one report are dropped.
+export const reconcileReportWithRegister = async <T extends { id: string }>(
+  projectId: string,
+  result: ReportResult,
+  saveReport: (tx: Prisma.TransactionClient, result: ReportResult) => Promise<T>
+): Promise<{ result: ReportResult; report: T }> => {
+  // Embedded before the transaction so it does not wait on the embedding API
+  const actionEmbeddings = await embedActions(result.actionItems);
+
+  const touched = new Set<string>();
+  const now = new Date();
+  const lineage: Lineage = { createdBy: 'activity_reporter', reported: true };
+
+  return prisma.$transaction(async tx => {
+    const candidates = await getReconcileCandidates(tx, projectId);
+    const reconcileList = async <T extends { raidItemId?: string | null; isNew?: boolean }>(
+      items: T[],
+      toExtracted: (item: T) => ExtractedRaidItem,
+      embeddings: Array<number[] | null> = []
+    ): Promise<T[]> => {
+      const reconciled: T[] = [];
+      const seenInList = new Set<string>();
+
+      for (const [index, item] of items.entries()) {
+        const { raidItemId, isNew } = await applyExtractedItem(
+          tx,
+          projectId,
+          candidates,
+          toExtracted(item),
+          embeddings[index] ?? null,
+          lineage,
+          now
+        );
+
+        touched.add(raidItemId);
+        if (seenInList.has(raidItemId)) continue;
+        seenInList.add(raidItemId);
+        reconciled.push({ ...item, raidItemId, isNew });
+      }
+
+      return reconciled;
+    };
+
+    const actionItems = await reconcileList(result.actionItems, fromActionItem, actionEmbeddings);
+    const risks = await reconcileList(result.risks, fromRisk);
+    const decisions = await reconcileList(result.decisions, fromDecision);
+    const blockers = await reconcileList(result.blockers, fromBlocker);
+
+    const reconciled = { ...result, actionItems, risks, decisions, blockers };
+    const report = await saveReport(tx, reconciled);
+    await linkReportToRaidItems(tx, report.id, Array.from(touched));
+
+    return { result: reconciled, report };
+  }, { timeout: RECONCILE_TIMEOUT_MS });
+};
+
+// Fold intake items into the register in one transaction, returning the entry for each
+const reconcileIntakeItems = async (
+  projectId: string,
+  items: ExtractedRaidItem[],
+  embeddings: Array<number[] | null>,
+  lineage: Lineage
+): Promise<string[]> => {
+  const now = new Date();
+
+  return prisma.$transaction(async tx => {
+    const candidates = await getReconcileCandidates(tx, projectId);
+    const raidItemIds: string[] = [];
+    for (const [index, item] of items.entries()) {
+      const { raidItemId } = await applyExtractedItem(
+        tx,
+        projectId,
+        candidates,
+        item,
+        embeddings[index] ?? null,
+        lineage,
+        now
+      );
+      raidItemIds.push(raidItemId);
+    }
+    return raidItemIds;
+  }, { timeout: RECONCILE_TIMEOUT_MS });
+};
+
+// Track action items split out by the intake agent, merging repeats of actions already on the
+// register from earlier content or reports. Returns the register entry for each action.
+export const reconcileIntakeActions = async (
+  projectId: string,
+  actions: IntakeAction[],
+  userId?: number
+): Promise<string[]> => {
+  if (actions.length === 0) return [];
+
+  const embeddings = await embedActions(actions);
+  return reconcileIntakeItems(projectId, actions.map(fromIntakeAction), embeddings, {
+    createdBy: 'intake_agent',
+    createdByUserId: userId,
+    reported: false,
+  });
+};
+
+// Propose decisions found by the intake agent for the decision log. Repeats of a logged,
+// pending or rejected decision add their sources to it rather than queueing a new proposal.
+export const proposeIntakeDecisions = async (
+  projectId: string,
+  decisions: IntakeDecision[],
+  userId?: number
+): Promise<string[]> => {
+  if (decisions.length === 0) return [];
+
+  return reconcileIntakeItems(projectId, decisions.map(fromIntakeDecision), [], {
+    createdBy: 'intake_agent',
+    createdByUserId: userId,
+    reported: false,
+    proposed: true,
+  });
+};
+
+// Record the report on every register entry it reconciled to
+export const linkReportToRaidItems = async (tx: Prisma.TransactionClient, reportId: string, raidItemIds: string[]) => {
+  if (raidItemIds.length === 0) return;
+
+  await tx.raidItem.updateMany({
+    where: { id: { in: raidItemIds } },
+    data: { sourceReportIds: { push: reportId } },
+  });
+};
+
+// Helper functions
+
+const parseReportDate = (value: string | null | undefined): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const fromActionItem = (item: ActionItem): ExtractedRaidItem => ({
+  type: 'action',
+  status: item.status === 'completed' ? 'resolved' : item.status === 'in_progress' ? 'in_progress' : 'open',
+  title: item.title,
+  description: item.description || null,
+  owner: item.owner,
+  severity: item.priority || null,
+  likelihood: null,
+  dueDate: parseReportDate(item.dueDate),
+  resolution: null,
+  decisionMaker: null,
+  decisionDate: null,
+  planItemId: item.planItemId,
+  sourceContentIds: item.sourceContentIds || [],
+});
+
+const fromIntakeAction = (item: IntakeAction): ExtractedRaidItem => ({
+  type: 'action',
+  status: item.status === 'completed' || item.status === 'done'
+    ? 'resolved'
+    : item.status === 'in_progress' ? 'in_progress' : 'open',
+  title: item.title,
+  description: item.description || null,
+  owner: item.owner || null,
+  severity: null,
+  likelihood: null,
+  dueDate: parseReportDate(item.dueDate),
+  resolution: null,
+  decisionMaker: null,
+  decisionDate: null,
+  planItemId: item.planItemId,
+  sourceContentIds: item.sourceContentIds,
+});
+
+const fromRisk = (item: Risk): ExtractedRaidItem => ({
+  type: 'risk',
+  status: 'open',
+  title: item.title,
+  description: item.description || null,
+  owner: null,
+  severity: item.severity || null,
+  likelihood: item.likelihood || null,
+  dueDate: null,
+  resolution: item.mitigation,
+  decisionMaker: null,
+  decisionDate: null,
+  planItemId: item.planItemId,
+  sourceContentIds: item.sourceContentIds || [],
+});
+
+const fromDecision = (item: Decision): ExtractedRaidItem => ({
+  type: 'decision',
+  status: 'open',
+  title: item.title,
+  description: item.description || null,
+  owner: item.decisionMaker,
+  severity: null,
+  likelihood: null,
+  dueDate: null,
+  resolution: item.impact,
+  decisionMaker: item.decisionMaker,
+  decisionDate: parseReportDate(item.decisionDate),
+  planItemId: item.planItemId,
+  sourceContentIds: item.sourceContentIds || [],
+  rationale: item.rationale || null,
+});
+
+const fromIntakeDecision = (item: IntakeDecision): ExtractedRaidItem => ({
+  type: 'decision',
+  status: 'open',
+  title: item.title,
+  description: item.description || null,
+  owner: item.decisionMaker,
+  severity: null,
+  likelihood: null,
+  dueDate: null,
+  resolution: null,
+  decisionMaker: item.decisionMaker,
+  decisionDate: parseReportDate(item.decisionDate),
+  planItemId: item.planItemId,
+  sourceContentIds: item.sourceContentIds,
+  rationale: item.rationale,
+  alternatives: item.alternatives,
+  affectedPlanItemIds: item.affectedPlanItemIds,
+});
+
+const fromBlocker = (item: Blocker): ExtractedRaidItem => ({
+  type: 'issue',
+  status: 'open',
+  title: item.title,
+  description: item.description || null,
+  owner: item.owner,
+  severity: 'high',
+  likelihood: null,
+  dueDate: null,
+  resolution: item.resolution,
+  decisionMaker: null,
+  decisionDate: null,
+  planItemId: item.planItemId,
+  sourceContentIds: item.sourceContentIds || [],
+});
+
+export default {
+  listRaidItems,
+  getRaidItem,
+  createRaidItem,
+  updateRaidItem,
+  deleteRaidItem,
+  getOpenRaidItems,
+  reconcileReportWithRegister,
+  reconcileIntakeActions,
+  proposeIntakeDecisions,
+  linkReportToRaidItems,
+};
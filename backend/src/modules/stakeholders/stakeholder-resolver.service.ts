@@ -0,0 +1,168 @@
+import prisma from '../../config/database.js';
+import type { ReportResult } from '../../services/ai/prompts/activity-reporter.js';
+
+// Owner values that name nobody in particular and are never suggested as stakeholders
+const PLACEHOLDER_NAMES = new Set([
+  'all', 'everyone', 'n/a', 'na', 'none', 'null', 'tbc', 'tbd', 'team', 'the team', 'unassigned', 'unknown',
+]);
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface DirectoryEntry {
+  id: string;
+  name: string;
+  aliases: string[];
+  email: string | null;
+  reviewStatus: string;
+  sourceContentIds: string[];
+}
+
+// A name as it appeared in content, with the content it appeared in
+export interface PersonMention {
+  name: string;
+  sourceContentIds: string[];
+}
+
+export interface ResolvedPerson {
+  stakeholderId: string;
+  // The directory name when the stakeholder is accepted, otherwise the name as written
+  name: string;
+  accepted: boolean;
+}
+
+// Who is suggesting new stakeholders
+interface Lineage {
+  createdBy: 'intake_agent' | 'activity_reporter';
+  createdByUserId?: number;
+}
+
+export const normalizeName = (value: string): string => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const isPlaceholder = (normalized: string) => !normalized || PLACEHOLDER_NAMES.has(normalized);
+
+// Every string the stakeholder goes by, normalized: name, aliases and email
+export const stakeholderKeys = (stakeholder: { name: string; aliases: string[]; email: string | null }): string[] =>
+  [stakeholder.name, ...stakeholder.aliases, stakeholder.email]
+    .filter((key): key is string => !!key && !!key.trim())
+    .map(normalizeName);
+
+const REVIEW_PREFERENCE = ['accepted', 'pending', 'rejected'];
+
+// The stakeholder a free-text name refers to. An exact name, alias or email wins, preferring
+// accepted entries over suggestions; failing that, a lone first name matches when exactly one
+// accepted stakeholder has it.
+export const matchStakeholder = <T extends DirectoryEntry>(name: string, directory: T[]): T | null => {
+  const normalized = normalizeName(name);
+  if (isPlaceholder(normalized)) return null;
+
+  const exact = directory
+    .filter(entry => stakeholderKeys(entry).includes(normalized))
+    .sort((a, b) => REVIEW_PREFERENCE.indexOf(a.reviewStatus) - REVIEW_PREFERENCE.indexOf(b.reviewStatus));
+  if (exact.length > 0) return exact[0];
+
+  if (!normalized.includes(' ') && !EMAIL_PATTERN.test(normalized)) {
+    const byFirstName = directory.filter(
+      entry => entry.reviewStatus === 'accepted' && normalizeName(entry.name).split(' ')[0] === normalized
+    );
+    if (byFirstName.length === 1) return byFirstName[0];
+  }
+
+  return null;
+};
+
+export const loadDirectory = (projectId: string): Promise<DirectoryEntry[]> =>
+  prisma.stakeholder.findMany({
+    where: { projectId, isActive: true },
+    select: { id: true, name: true, aliases: true, email: true, reviewStatus: true, sourceContentIds: true },
+  });
+
+// Resolve names the agents extracted against the project's stakeholder directory. Known people
+// collect the content they were named in; unknown names are suggested as pending stakeholders,
+// and rejected suggestions are matched so they are not suggested again. Returns a lookup from a
+// name as written to the person it resolved to.
+export const resolvePeople = async (
+  projectId: string,
+  mentions: PersonMention[],
+  lineage: Lineage
+): Promise<(name: string | null | undefined) => ResolvedPerson | null> => {
+  const directory = await loadDirectory(projectId);
+  const resolved = new Map<string, ResolvedPerson>();
+
+  // One pass per distinct name, with the sources of every mention of it
+  const sourcesByName = new Map<string, { name: string; sourceContentIds: Set<string> }>();
+  for (const mention of mentions) {
+    const normalized = normalizeName(mention.name);
+    if (isPlaceholder(normalized)) continue;
+    const entry = sourcesByName.get(normalized) ?? { name: mention.name.trim(), sourceContentIds: new Set<string>() };
+    mention.sourceContentIds.forEach(id => entry.sourceContentIds.add(id));
+    sourcesByName.set(normalized, entry);
+  }
+
+  for (const [normalized, mention] of sourcesByName) {
+    const sourceContentIds = Array.from(mention.sourceContentIds);
+    const match = matchStakeholder(mention.name, directory);
+
+    if (match) {
+      const newSources = sourceContentIds.filter(id => !match.sourceContentIds.includes(id));
+      if (newSources.length > 0) {
+        match.sourceContentIds = [...match.sourceContentIds, ...newSources];
+        await prisma.stakeholder.update({
+          where: { id: match.id },
+          data: { sourceContentIds: match.sourceContentIds },
+        });
+      }
+      const accepted = match.reviewStatus === 'accepted';
+      resolved.set(normalized, { stakeholderId: match.id, name: accepted ? match.name : mention.name, accepted });
+      continue;
+    }
+
+    const suggestion = await prisma.stakeholder.create({
+      data: {
+        projectId,
+        name: mention.name,
+        email: EMAIL_PATTERN.test(mention.name) ? mention.name : null,
+        reviewStatus: 'pending',
+        sourceContentIds,
+        createdBy: lineage.createdBy,
+        createdByUserId: lineage.createdByUserId,
+      },
+      select: { id: true, name: true, aliases: true, email: true, reviewStatus: true, sourceContentIds: true },
+    });
+    directory.push(suggestion);
+    resolved.set(normalized, { stakeholderId: suggestion.id, name: suggestion.name, accepted: false });
+  }
+
+  return (name) => (name ? resolved.get(normalizeName(name)) ?? null : null);
+};
+
+// Put the report's owners and decision makers in their directory form, tagging each action with
+// the stakeholder it belongs to so the report can group actions by person
+export const resolveReportPeople = async (projectId: string, result: ReportResult): Promise<ReportResult> => {
+  const mentions: PersonMention[] = [
+    ...result.actionItems.map(item => ({ name: item.owner ?? '', sourceContentIds: item.sourceContentIds })),
+    ...result.decisions.map(item => ({ name: item.decisionMaker ?? '', sourceContentIds: item.sourceContentIds })),
+    ...result.blockers.map(item => ({ name: item.owner ?? '', sourceContentIds: item.sourceContentIds })),
+  ];
+  const resolve = await resolvePeople(projectId, mentions, { createdBy: 'activity_reporter' });
+
+  return {
+    ...result,
+    actionItems: result.actionItems.map(item => {
+      const person = resolve(item.owner);
+      return { ...item, owner: person?.name ?? item.owner, stakeholderId: person?.stakeholderId ?? null };
+    }),
+    decisions: result.decisions.map(item => ({
+      ...item,
+      decisionMaker: resolve(item.decisionMaker)?.name ?? item.decisionMaker,
+    })),
+    blockers: result.blockers.map(item => ({ ...item, owner: resolve(item.owner)?.name ?? item.owner })),
+  };
+};
+
+// Accepted stakeholders as the agents' prompts list them
+export const getStakeholdersForPrompt = (projectId: string) =>
+  prisma.stakeholder.findMany({
+    where: { projectId, isActive: true, reviewStatus: 'accepted' },
+    select: { name: true, aliases: true, email: true, organization: true, role: true, affiliation: true },
+    orderBy: { name: 'asc' },
+  });
@@ -0,0 +1,130 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import * as stakeholdersService from './stakeholders.service.js';
+import { successResponse } from '../../utils/responses.js';
+import type {
+  CreateStakeholderInput,
+  UpdateStakeholderInput,
+  ListStakeholdersQuery,
+  MergeStakeholderInput,
+} from './stakeholders.schema.js';
+
+// GET /api/projects/:projectId/stakeholders - List the stakeholder directory
+export const listStakeholders: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId } = req.params;
+    const query = req.query as unknown as ListStakeholdersQuery;
+    const result = await stakeholdersService.listStakeholders(projectId, organizationId, query);
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/stakeholders - Add a stakeholder
+export const createStakeholder: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId } = req.params;
+    const input = req.body as CreateStakeholderInput;
+    const stakeholder = await stakeholdersService.createStakeholder(projectId, organizationId, input, req.user?.id);
+    successResponse(res, stakeholder, 201);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// PUT /api/projects/:projectId/stakeholders/:stakeholderId - Update a stakeholder
+export const updateStakeholder: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId, stakeholderId } = req.params;
+    const input = req.body as UpdateStakeholderInput;
+    const stakeholder = await stakeholdersService.updateStakeholder(stakeholderId, projectId, organizationId, input);
+    successResponse(res, stakeholder);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// DELETE /api/projects/:projectId/stakeholders/:stakeholderId - Delete a stakeholder
+export const deleteStakeholder: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId, stakeholderId } = req.params;
+    const result = await stakeholdersService.deleteStakeholder(stakeholderId, projectId, organizationId);
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/stakeholders/:stakeholderId/accept - Accept a suggested stakeholder
+export const acceptStakeholder: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId, stakeholderId } = req.params;
+    const stakeholder = await stakeholdersService.acceptStakeholder(stakeholderId, projectId, organizationId);
+    successResponse(res, stakeholder);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/stakeholders/:stakeholderId/reject - Reject a suggested stakeholder
+export const rejectStakeholder: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId, stakeholderId } = req.params;
+    const stakeholder = await stakeholdersService.rejectStakeholder(stakeholderId, projectId, organizationId);
+    successResponse(res, stakeholder);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:projectId/stakeholders/:stakeholderId/merge - Fold a duplicate into a stakeholder
+export const mergeStakeholders: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const { projectId, stakeholderId } = req.params;
+    const { duplicateId } = req.body as MergeStakeholderInput;
+    const stakeholder = await stakeholdersService.mergeStakeholders(
+      stakeholderId,
+      duplicateId,
+      projectId,
+      organizationId
+    );
+    successResponse(res, stakeholder);
+  } catch (error) {
+    next(error);
+  }
+};
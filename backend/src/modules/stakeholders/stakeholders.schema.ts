@@ -0,0 +1,46 @@
+import { z } from 'zod';
+
+// Whether the person works for us or for the client
+export const stakeholderAffiliations = ['internal', 'client'] as const;
+
+// Review lifecycle: names the agents could not resolve are suggested as pending stakeholders
+export const stakeholderReviewStatuses = ['accepted', 'pending', 'rejected'] as const;
+
+const aliasesSchema = z.array(z.string().trim().min(1).max(255)).max(30);
+
+// Schema for POST /api/projects/:projectId/stakeholders
+export const createStakeholderSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  aliases: aliasesSchema.default([]),
+  email: z.string().trim().email().max(255).nullable().optional(),
+  organization: z.string().max(255).nullable().optional(),
+  role: z.string().max(255).nullable().optional(),
+  affiliation: z.enum(stakeholderAffiliations).default('client'),
+});
+
+export const updateStakeholderSchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  aliases: aliasesSchema.optional(),
+  email: z.string().trim().email().max(255).nullable().optional(),
+  organization: z.string().max(255).nullable().optional(),
+  role: z.string().max(255).nullable().optional(),
+  affiliation: z.enum(stakeholderAffiliations).optional(),
+});
+
+// Schema for GET /api/projects/:projectId/stakeholders
+export const listStakeholdersQuerySchema = z.object({
+  review: z.enum(stakeholderReviewStatuses).default('accepted'),
+  affiliation: z.enum(stakeholderAffiliations).optional(),
+  search: z.string().optional(),
+});
+
+// Fold a duplicate stakeholder into the one in the URL
+export const mergeStakeholderSchema = z.object({
+  duplicateId: z.string().uuid(),
+});
+
+export type StakeholderAffiliation = typeof stakeholderAffiliations[number];
+export type CreateStakeholderInput = z.infer<typeof createStakeholderSchema>;
+export type UpdateStakeholderInput = z.infer<typeof updateStakeholderSchema>;
+export type ListStakeholdersQuery = z.infer<typeof listStakeholdersQuerySchema>;
+export type MergeStakeholderInput = z.infer<typeof mergeStakeholderSchema>;
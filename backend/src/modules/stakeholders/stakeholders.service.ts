@@ -0,0 +1,296 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../../config/database.js';
+import { AppError } from '../../middleware/errorHandler.js';
+import { ErrorCodes } from '../../utils/responses.js';
+import { openRaidItemStatuses } from '../raid/raid.schema.js';
+import { normalizeName, stakeholderKeys } from './stakeholder-resolver.service.js';
+import type {
+  CreateStakeholderInput,
+  UpdateStakeholderInput,
+  ListStakeholdersQuery,
+} from './stakeholders.schema.js';
+
+// Verify project belongs to organization
+const getProjectOrThrow = async (projectId: string, organizationId: number) => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, organizationId, isActive: true },
+  });
+
+  if (!project) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Project not found', 404);
+  }
+
+  return project;
+};
+
+const getStakeholderOrThrow = async (id: string, projectId: string) => {
+  const stakeholder = await prisma.stakeholder.findFirst({
+    where: { id, projectId, isActive: true },
+  });
+
+  if (!stakeholder) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Stakeholder not found', 404);
+  }
+
+  return stakeholder;
+};
+
+// Two accepted stakeholders can't share a name, alias or email, or names would resolve to
+// either of them
+const assertNoConflict = async (
+  projectId: string,
+  stakeholder: { name: string; aliases: string[]; email: string | null },
+  excludeIds: string[] = []
+) => {
+  const keys = new Set(stakeholderKeys(stakeholder));
+  const others = await prisma.stakeholder.findMany({
+    where: { projectId, isActive: true, reviewStatus: 'accepted', id: { notIn: excludeIds } },
+    select: { name: true, aliases: true, email: true },
+  });
+
+  for (const other of others) {
+    const shared = stakeholderKeys(other).find(key => keys.has(key));
+    if (shared) {
+      throw new AppError(ErrorCodes.CONFLICT, `"${shared}" already belongs to ${other.name}`, 409);
+    }
+  }
+};
+
+// Aliases without blanks, repeats or the stakeholder's own name and email
+const cleanAliases = (aliases: string[], name: string, email: string | null | undefined) => {
+  const own = new Set([name, email].filter((v): v is string => !!v).map(normalizeName));
+  const seen = new Set<string>();
+  return aliases
+    .map(alias => alias.trim())
+    .filter(alias => {
+      const key = normalizeName(alias);
+      if (!key || own.has(key) || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+// The project's stakeholders with how many open actions each owns. Use review=pending for the
+// names the agents suggested.
+export const listStakeholders = async (projectId: string, organizationId: number, query: ListStakeholdersQuery) => {
+  await getProjectOrThrow(projectId, organizationId);
+
+  const where: Prisma.StakeholderWhereInput = {
+    projectId,
+    isActive: true,
+    reviewStatus: query.review,
+    ...(query.affiliation && { affiliation: query.affiliation }),
+  };
+  if (query.search) {
+    where.OR = [
+      { name: { contains: query.search, mode: 'insensitive' } },
+      { email: { contains: query.search, mode: 'insensitive' } },
+      { organization: { contains: query.search, mode: 'insensitive' } },
+      { aliases: { has: query.search } },
+    ];
+  }
+
+  const [stakeholders, pendingCount, openActions] = await Promise.all([
+    prisma.stakeholder.findMany({ where, orderBy: { name: 'asc' } }),
+    prisma.stakeholder.count({ where: { projectId, isActive: true, reviewStatus: 'pending' } }),
+    prisma.raidItem.findMany({
+      where: {
+        projectId,
+        type: 'action',
+        isActive: true,
+        reviewStatus: 'accepted',
+        status: { in: [...openRaidItemStatuses] },
+        owner: { not: null },
+      },
+      select: { owner: true },
+    }),
+  ]);
+
+  const ownerCounts = new Map<string, number>();
+  for (const { owner } of openActions) {
+    const key = normalizeName(owner!);
+    ownerCounts.set(key, (ownerCounts.get(key) ?? 0) + 1);
+  }
+
+  return {
+    pendingCount,
+    items: stakeholders.map(stakeholder => ({
+      ...stakeholder,
+      openActionCount: stakeholderKeys(stakeholder).reduce((sum, key) => sum + (ownerCounts.get(key) ?? 0), 0),
+    })),
+  };
+};
+
+// Add a stakeholder to the directory
+export const createStakeholder = async (
+  projectId: string,
+  organizationId: number,
+  input: CreateStakeholderInput,
+  userId?: number
+) => {
+  await getProjectOrThrow(projectId, organizationId);
+
+  const aliases = cleanAliases(input.aliases, input.name, input.email);
+  await assertNoConflict(projectId, { name: input.name, aliases, email: input.email ?? null });
+
+  return prisma.stakeholder.create({
+    data: {
+      projectId,
+      name: input.name,
+      aliases,
+      email: input.email,
+      organization: input.organization,
+      role: input.role,
+      affiliation: input.affiliation,
+      createdBy: 'user',
+      createdByUserId: userId,
+    },
+  });
+};
+
+// Update a stakeholder
+export const updateStakeholder = async (
+  id: string,
+  projectId: string,
+  organizationId: number,
+  input: UpdateStakeholderInput
+) => {
+  await getProjectOrThrow(projectId, organizationId);
+  const existing = await getStakeholderOrThrow(id, projectId);
+
+  const name = input.name ?? existing.name;
+  const email = input.email !== undefined ? input.email : existing.email;
+  const aliases = cleanAliases(input.aliases ?? existing.aliases, name, email);
+  if (existing.reviewStatus === 'accepted') {
+    await assertNoConflict(projectId, { name, aliases, email }, [id]);
+  }
+
+  return prisma.stakeholder.update({
+    where: { id },
+    data: { ...input, aliases },
+  });
+};
+
+// Delete a stakeholder (soft delete)
+export const deleteStakeholder = async (id: string, projectId: string, organizationId: number) => {
+  await getProjectOrThrow(projectId, organizationId);
+  await getStakeholderOrThrow(id, projectId);
+
+  await prisma.stakeholder.update({
+    where: { id },
+    data: { isActive: false },
+  });
+
+  return { message: 'Stakeholder deleted successfully' };
+};
+
+// Accept a suggested stakeholder into the directory
+export const acceptStakeholder = async (id: string, projectId: string, organizationId: number) => {
+  await getProjectOrThrow(projectId, organizationId);
+  const stakeholder = await getStakeholderOrThrow(id, projectId);
+
+  // A suggestion that collides with someone already listed is a duplicate to merge instead
+  await assertNoConflict(projectId, stakeholder, [id]);
+
+  return prisma.stakeholder.update({
+    where: { id },
+    data: { reviewStatus: 'accepted' },
+  });
+};
+
+// Reject a suggestion. It is kept so the same name is not suggested again.
+export const rejectStakeholder = async (id: string, projectId: string, organizationId: number) => {
+  await getProjectOrThrow(projectId, organizationId);
+  const stakeholder = await getStakeholderOrThrow(id, projectId);
+
+  if (stakeholder.reviewStatus === 'accepted') {
+    throw new AppError(ErrorCodes.VALIDATION_ERROR, 'Only suggested stakeholders can be rejected', 400);
+  }
+
+  return prisma.stakeholder.update({
+    where: { id },
+    data: { reviewStatus: 'rejected' },
+  });
+};
+
+// Fold a duplicate into this stakeholder: the duplicate's name and email become aliases, gaps
+// are filled from it and its sources collected, and register entries and plan items it owned are renamed.
+// The duplicate is removed from the directory.
+export const mergeStakeholders = async (
+  id: string,
+  duplicateId: string,
+  projectId: string,
+  organizationId: number
+) => {
+  await getProjectOrThrow(projectId, organizationId);
+
+  if (id === duplicateId) {
+    throw new AppError(ErrorCodes.VALIDATION_ERROR, 'A stakeholder cannot be merged into itself', 400);
+  }
+
+  const [target, duplicate] = await Promise.all([
+    getStakeholderOrThrow(id, projectId),
+    getStakeholderOrThrow(duplicateId, projectId),
+  ]);
+
+  const email = target.email ?? duplicate.email;
+  const aliases = cleanAliases(
+    [...target.aliases, duplicate.name, ...duplicate.aliases, ...(duplicate.email ? [duplicate.email] : [])],
+    target.name,
+    email
+  );
+  const accepted = target.reviewStatus === 'accepted' || duplicate.reviewStatus === 'accepted';
+  if (accepted) {
+    await assertNoConflict(projectId, { name: target.name, aliases, email }, [id, duplicateId]);
+  }
+
+  return prisma.$transaction(async tx => {
+    await tx.stakeholder.update({
+      where: { id: duplicateId },
+      data: { isActive: false },
+    });
+
+    // Owners and decision makers on the register were written the way the duplicate was named
+    const renamed = [duplicate.name, ...duplicate.aliases, ...(duplicate.email ? [duplicate.email] : [])];
+    await tx.raidItem.updateMany({
+      where: { projectId, OR: renamed.map(name => ({ owner: { equals: name, mode: 'insensitive' as const } })) },
+      data: { owner: target.name },
+    });
+    await tx.raidItem.updateMany({
+      where: { projectId, OR: renamed.map(name => ({ decisionMaker: { equals: name, mode: 'insensitive' as const } })) },
+      data: { decisionMaker: target.name },
+    });
+    // Plan items assigned to a member keep the member's name
+    await tx.planItem.updateMany({
+      where: {
+        projectId,
+        ownerUserId: null,
+        OR: renamed.map(name => ({ owner: { equals: name, mode: 'insensitive' as const } })),
+      },
+      data: { owner: target.name },
+    });
+
+    return tx.stakeholder.update({
+      where: { id },
+      data: {
+        aliases,
+        email,
+        organization: target.organization ?? duplicate.organization,
+        role: target.role ?? duplicate.role,
+        sourceContentIds: Array.from(new Set([...target.sourceContentIds, ...duplicate.sourceContentIds])),
+        // Absorbing a listed person puts a suggestion in their place in the directory
+        ...(accepted && { reviewStatus: 'accepted' }),
+      },
+    });
+  });
+};
+
+export default {
+  listStakeholders,
+  createStakeholder,
+  updateStakeholder,
+  deleteStakeholder,
+  acceptStakeholder,
+  rejectStakeholder,
+  mergeStakeholders,
+};
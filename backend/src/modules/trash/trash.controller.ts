@@ -0,0 +1,83 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import * as trashService from './trash.service.js';
+import { successResponse } from '../../utils/responses.js';
+
+// GET /api/projects/:projectId/trash - List deleted plan items and content in a project
+export const getProjectTrash: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const trash = await trashService.getProjectTrash(req.params.projectId, organizationId);
+    successResponse(res, trash);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/plan-items/:id/restore - Restore a deleted plan item and its subtree
+export const restorePlanItem: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const result = await trashService.restorePlanItem(
+      req.params.id,
+      organizationId,
+      req.user?.id,
+      req.user?.email
+    );
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/content-items/:id/restore - Restore a deleted content item and its chunks
+export const restoreContentItem: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const result = await trashService.restoreContentItem(req.params.id, organizationId);
+    successResponse(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// GET /api/projects/trash - List deleted projects
+export const listDeletedProjects: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const projects = await trashService.listDeletedProjects(organizationId);
+    successResponse(res, projects);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// POST /api/projects/:id/restore - Restore a deleted project
+export const restoreProject: RequestHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const project = await trashService.restoreProject(req.params.id, organizationId);
+    successResponse(res, project);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,353 @@
+import { randomUUID } from 'crypto';
+import prisma from '../../config/database.js';
+import { AppError } from '../../middleware/errorHandler.js';
+import { ErrorCodes } from '../../utils/responses.js';
+import { getSettingValue } from '../platform-settings/platform-settings.service.js';
+import { deleteStoredFile } from '../../services/file-processing/index.js';
+import logger from '../../utils/logger.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 30;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface TrashedPlanItem {
+  id: string;
+  name: string;
+  itemType: string;
+  parentId: string | null;
+  parentName: string | null;
+  // Descendants deleted along with this item, restored with it
+  descendantCount: number;
+  deletedAt: Date | null;
+  deletedByEmail: string | null;
+  purgeAt: Date | null;
+}
+
+export interface TrashedContentItem {
+  id: string;
+  title: string;
+  sourceType: string;
+  dateOccurred: Date;
+  chunkCount: number;
+  deletedAt: Date | null;
+  deletedByEmail: string | null;
+  purgeAt: Date | null;
+}
+
+export interface TrashedProject {
+  id: string;
+  name: string;
+  client: string | null;
+  planItemCount: number;
+  contentItemCount: number;
+  deletedAt: Date | null;
+  deletedByEmail: string | null;
+  purgeAt: Date | null;
+}
+
+// Days a deleted record stays restorable, from platform settings
+export const getRetentionDays = async (): Promise<number> => {
+  const value = Number(await getSettingValue('trash_retention_days'));
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_RETENTION_DAYS;
+};
+
+const purgeDate = (deletedAt: Date | null, retentionDays: number): Date | null =>
+  deletedAt ? new Date(deletedAt.getTime() + retentionDays * MS_PER_DAY) : null;
+
+const sameTime = (a: Date | null, b: Date | null) => (a?.getTime() ?? null) === (b?.getTime() ?? null);
+
+const subtreePrefix = (item: { id: string; path: string }) => (item.path ? `${item.path}/${item.id}` : `/${item.id}`);
+
+const assertActiveProject = async (projectId: string, organizationId: number) => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, organizationId, isActive: true },
+    select: { id: true },
+  });
+
+  if (!project) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Project not found', 404);
+  }
+};
+
+// Everything soft-deleted in a project. A deleted subtree is listed once, under the item that was deleted.
+export const getProjectTrash = async (projectId: string, organizationId: number) => {
+  await assertActiveProject(projectId, organizationId);
+
+  const [retentionDays, planItems, contentItems] = await Promise.all([
+    getRetentionDays(),
+    prisma.planItem.findMany({
+      where: { projectId },
+      select: {
+        id: true,
+        name: true,
+        parentId: true,
+        path: true,
+        isActive: true,
+        deletedAt: true,
+        deletedByEmail: true,
+        itemType: { select: { name: true } },
+      },
+    }),
+    prisma.contentItem.findMany({
+      where: { projectId, isActive: false },
+      include: { _count: { select: { chunks: true } } },
+      orderBy: { deletedAt: 'desc' },
+    }),
+  ]);
+
+  const byId = new Map(planItems.map(item => [item.id, item]));
+  const deleted = planItems.filter(item => !item.isActive);
+
+  const trashedPlanItems: TrashedPlanItem[] = deleted
+    .filter(item => {
+      const parent = item.parentId ? byId.get(item.parentId) : undefined;
+      // Items deleted before their parent was are listed on their own
+      return !parent || parent.isActive || !sameTime(parent.deletedAt, item.deletedAt);
+    })
+    .map(item => {
+      const prefix = subtreePrefix(item);
+      return {
+        id: item.id,
+        name: item.name,
+        itemType: item.itemType.name,
+        parentId: item.parentId,
+        parentName: item.parentId ? byId.get(item.parentId)?.name ?? null : null,
+        descendantCount: deleted.filter(d => d.path.startsWith(prefix) && sameTime(d.deletedAt, item.deletedAt)).length,
+        deletedAt: item.deletedAt,
+        deletedByEmail: item.deletedByEmail,
+        purgeAt: purgeDate(item.deletedAt, retentionDays),
+      };
+    })
+    .sort((a, b) => (b.deletedAt?.getTime() ?? 0) - (a.deletedAt?.getTime() ?? 0));
+
+  const trashedContentItems: TrashedContentItem[] = contentItems.map(item => ({
+    id: item.id,
+    title: item.title,
+    sourceType: item.sourceType,
+    dateOccurred: item.dateOccurred,
+    chunkCount: item._count.chunks,
+    deletedAt: item.deletedAt,
+    deletedByEmail: item.deletedByEmail,
+    purgeAt: purgeDate(item.deletedAt, retentionDays),
+  }));
+
+  return { retentionDays, planItems: trashedPlanItems, contentItems: trashedContentItems };
+};
+
+// Restore a deleted plan item with the descendants that were deleted along with it
+export const restorePlanItem = async (
+  id: string,
+  organizationId: number,
+  userId?: number,
+  userEmail?: string
+) => {
+  const item = await prisma.planItem.findFirst({
+    where: { id, isActive: false },
+    include: {
+      project: { select: { organizationId: true, isActive: true } },
+      parent: { select: { name: true, isActive: true } },
+    },
+  });
+
+  if (!item || !item.project.isActive) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Deleted plan item not found', 404);
+  }
+
+  if (item.project.organizationId !== organizationId) {
+    throw new AppError(ErrorCodes.FORBIDDEN, 'Access denied', 403);
+  }
+
+  if (item.parent && !item.parent.isActive) {
+    throw new AppError(
+      ErrorCodes.CONFLICT,
+      `Parent "${item.parent.name}" is also deleted; restore it first`,
+      409
+    );
+  }
+
+  const descendants = await prisma.planItem.findMany({
+    where: {
+      isActive: false,
+      path: { startsWith: subtreePrefix(item) },
+      deletedAt: item.deletedAt,
+    },
+    select: { id: true },
+  });
+  const restoredIds = [id, ...descendants.map(d => d.id)];
+
+  // Recorded as one batch so the restore shows in plan history and can be undone
+  const batchId = randomUUID();
+  await prisma.$transaction([
+    prisma.planItem.updateMany({
+      where: { id: { in: restoredIds } },
+      data: { isActive: true, deletedAt: null, deletedByUserId: null, deletedByEmail: null },
+    }),
+    prisma.planItemHistory.createMany({
+      data: restoredIds.map(planItemId => ({
+        planItemId,
+        field: 'isActive',
+        oldValue: 'false',
+        newValue: 'true',
+        changedByUserId: userId,
+        changedByEmail: userEmail,
+        changeReason: 'Restored from trash',
+        batchId,
+      })),
+    }),
+  ]);
+
+  return { restored: restoredIds.length, batchId };
+};
+
+// Restore a deleted content item and put its chunks back into retrieval
+export const restoreContentItem = async (id: string, organizationId: number) => {
+  const item = await prisma.contentItem.findFirst({
+    where: {
+      id,
+      isActive: false,
+      project: { organizationId, isActive: true },
+    },
+  });
+
+  if (!item) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Deleted content item not found', 404);
+  }
+
+  const [, chunks] = await prisma.$transaction([
+    prisma.contentItem.update({
+      where: { id },
+      data: { isActive: true, deletedAt: null, deletedByUserId: null, deletedByEmail: null },
+    }),
+    prisma.contentChunk.updateMany({
+      where: { contentItemId: id },
+      data: { isActive: true },
+    }),
+  ]);
+
+  return { restored: 1, chunksRestored: chunks.count };
+};
+
+// Deleted projects in an organization
+export const listDeletedProjects = async (organizationId: number): Promise<TrashedProject[]> => {
+  const [retentionDays, projects] = await Promise.all([
+    getRetentionDays(),
+    prisma.project.findMany({
+      where: { organizationId, isActive: false },
+      include: {
+        _count: {
+          select: {
+            planItems: { where: { isActive: true } },
+            contentItems: { where: { isActive: true } },
+          },
+        },
+      },
+      orderBy: { deletedAt: 'desc' },
+    }),
+  ]);
+
+  return projects.map(project => ({
+    id: project.id,
+    name: project.name,
+    client: project.client,
+    planItemCount: project._count.planItems,
+    contentItemCount: project._count.contentItems,
+    deletedAt: project.deletedAt,
+    deletedByEmail: project.deletedByEmail,
+    purgeAt: purgeDate(project.deletedAt, retentionDays),
+  }));
+};
+
+export const restoreProject = async (projectId: string, organizationId: number) => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, organizationId, isActive: false },
+  });
+
+  if (!project) {
+    throw new AppError(ErrorCodes.NOT_FOUND, 'Deleted project not found', 404);
+  }
+
+  const sameName = await prisma.project.findFirst({
+    where: { organizationId, name: project.name, isActive: true, NOT: { id: projectId } },
+    select: { id: true },
+  });
+
+  if (sameName) {
+    throw new AppError(
+      ErrorCodes.CONFLICT,
+      `Another project is named "${project.name}"; rename it before restoring this one`,
+      409
+    );
+  }
+
+  return prisma.project.update({
+    where: { id: projectId },
+    data: { isActive: true, deletedAt: null, deletedByUserId: null, deletedByEmail: null },
+  });
+};
+
+// Permanently delete everything that has been in the trash longer than the retention period
+export const purgeExpiredTrash = async () => {
+  const retentionDays = await getRetentionDays();
+  const expired = { isActive: false, deletedAt: { lt: new Date(Date.now() - retentionDays * MS_PER_DAY) } };
+
+  // Stored files outlive their rows, so collect them first, including those of expiring projects
+  const files = await prisma.contentItem.findMany({
+    where: { fileReference: { not: null }, OR: [expired, { project: expired }] },
+    select: { fileReference: true },
+  });
+
+  // A deleted item can only sit above active items if history was reverted around it; keep those
+  const planItems = await prisma.planItem.findMany({ where: expired, select: { id: true, path: true } });
+  const activeUnder = planItems.length > 0
+    ? await prisma.planItem.findMany({
+        where: { isActive: true, OR: planItems.map(item => ({ path: { startsWith: subtreePrefix(item) } })) },
+        select: { path: true },
+      })
+    : [];
+  const purgeablePlanItemIds = planItems
+    .filter(item => !activeUnder.some(active => active.path.startsWith(subtreePrefix(item))))
+    .map(item => item.id);
+
+  // Comments point at their record by id only, so they go with it explicitly. That includes the
+  // records of expiring projects, which the project delete cascades to.
+  const contentItemIds = (await prisma.contentItem.findMany({ where: expired, select: { id: true } }))
+    .map(item => item.id);
+  const inExpiredProjects = { project: expired };
+  const [projectPlanItems, projectContentItems, projectReports] = await Promise.all([
+    prisma.planItem.findMany({ where: inExpiredProjects, select: { id: true } }),
+    prisma.contentItem.findMany({ where: inExpiredProjects, select: { id: true } }),
+    prisma.activityReport.findMany({ where: inExpiredProjects, select: { id: true } }),
+  ]);
+  const commentedRecords = [
+    { entityType: 'plan_item', entityId: { in: [...purgeablePlanItemIds, ...projectPlanItems.map(i => i.id)] } },
+    { entityType: 'content_item', entityId: { in: [...contentItemIds, ...projectContentItems.map(i => i.id)] } },
+    { entityType: 'activity_report', entityId: { in: projectReports.map(r => r.id) } },
+  ];
+
+  const [, , contentItems, purgedPlanItems, projects] = await prisma.$transaction([
+    prisma.comment.deleteMany({ where: { OR: commentedRecords } }),
+    prisma.commentRead.deleteMany({ where: { OR: commentedRecords } }),
+    prisma.contentItem.deleteMany({ where: { id: { in: contentItemIds } } }),
+    prisma.planItem.deleteMany({ where: { id: { in: purgeablePlanItemIds } } }),
+    prisma.project.deleteMany({ where: expired }),
+  ]);
+
+  for (const file of files) {
+    await deleteStoredFile(file.fileReference!);
+  }
+
+  const purged = { projects: projects.count, planItems: purgedPlanItems.count, contentItems: contentItems.count };
+  if (purged.projects + purged.planItems + purged.contentItems > 0) {
+    logger.info(`Purged trash older than ${retentionDays} days`, purged);
+  }
+  return purged;
+};
+
+// Purge expired trash at startup and then hourly
+export const scheduleTrashPurge = () => {
+  const run = () => {
+    purgeExpiredTrash().catch(error => logger.error('Trash purge failed:', error));
+  };
+  run();
+  return setInterval(run, PURGE_INTERVAL_MS);
+};
@@ -231,6 +231,7 @@ export async function searchSimilarChunks(
     FROM "ContentChunk" cc
     JOIN "ContentItem" ci ON cc."contentItemId" = ci.id
     WHERE cc."embeddingVector" IS NOT NULL
+      AND cc."isActive" = true
       AND ci."isActive" = true
       ${whereClause}
     ORDER BY cc."embeddingVector" <=> $1::vector
@@ -321,6 +322,7 @@ export async function searchProjectChunks(
     FROM "ContentChunk" cc
     JOIN "ContentItem" ci ON cc."contentItemId" = ci.id
     WHERE cc."embeddingVector" IS NOT NULL
+      AND cc."isActive" = true
       AND ci."isActive" = true
       AND ci."projectId" = $2
       ${dateFilter}
@@ -24,6 +24,90 @@ export interface ReportContext {
     name: string;
     slug: string;
   }>;
+  openRaidItems?: Array<{
+    id: string;
+    type: string;
+    title: string;
+    owner: string | null;
+    status: string;
+  }>;
+  stakeholders?: Array<{
+    name: string;
+    aliases: string[];
+    email: string | null;
+    organization: string | null;
+    role: string | null;
+    affiliation: string;
+  }>;
+  scheduleVariance?: ScheduleVariance | null;
+  planChanges?: PlanChanges | null;
+}
+
+export interface ScheduleVarianceRow {
+  planItemId: string;
+  name: string;
+  baselineEndDate: string | null;
+  currentEndDate: string | null;
+  endSlipDays: number | null;
+}
+
+// Baseline-vs-current slip, summarized for the prompt and the saved report
+export interface ScheduleVariance {
+  baselineId: string;
+  baselineName: string;
+  baselineDate: string;
+  projectEndSlipDays: number | null;
+  workstreams: ScheduleVarianceRow[];
+  milestones: ScheduleVarianceRow[];
+}
+
+export type PlanChangeKind = 'added' | 'removed' | 'redated' | 'reparented' | 'status_changed';
+
+export interface PlanChangeRow {
+  planItemId: string;
+  name: string;
+  changes: PlanChangeKind[];
+  // One readable line per change, such as "Target end 2026-03-01 → 2026-03-15 (+14d)"
+  details: string[];
+}
+
+// What changed in the plan between two points in time, grouped by workstream
+export interface PlanChanges {
+  since: string;
+  until: string;
+  summary: {
+    added: number;
+    removed: number;
+    redated: number;
+    reparented: number;
+    statusChanged: number;
+  };
+  workstreams: Array<{ name: string; items: PlanChangeRow[] }>;
+}
+
+export type Rag = 'green' | 'amber' | 'red';
+
+export interface HealthFactorSummary {
+  key: string;
+  label: string;
+  rag: Rag;
+  // Why the factor has its rating, such as "3 items past their target end date"
+  detail: string;
+}
+
+// Computed project and workstream health as of report generation
+export interface ProjectHealthSummary {
+  asOf: string;
+  rag: Rag;
+  score: number;
+  factors: HealthFactorSummary[];
+  workstreams: Array<{
+    planItemId: string;
+    name: string;
+    rag: Rag;
+    score: number;
+    factors: HealthFactorSummary[];
+  }>;
 }
 
 export interface ReportChunk {
@@ -54,6 +138,11 @@ export interface ActionItem {
   planItemId: string | null;
   confidence: 'high' | 'medium' | 'low';
   sourceContentIds: string[];
+  // Set when the item is reconciled against the project's RAID register
+  raidItemId?: string | null;
+  isNew?: boolean;
+  // Set when the owner resolves to someone in the project's stakeholder directory
+  stakeholderId?: string | null;
 }
 
 export interface Risk {
@@ -65,6 +154,9 @@ export interface Risk {
   planItemId: string | null;
   confidence: 'high' | 'medium' | 'low';
   sourceContentIds: string[];
+  // Set when the item is reconciled against the project's RAID register
+  raidItemId?: string | null;
+  isNew?: boolean;
 }
 
 export interface Decision {
@@ -73,9 +165,13 @@ export interface Decision {
   decisionMaker: string | null;
   decisionDate: string | null;
   impact: string | null;
+  rationale?: string | null;
   planItemId: string | null;
   confidence: 'high' | 'medium' | 'low';
   sourceContentIds: string[];
+  // Set when the item is reconciled against the project's RAID register
+  raidItemId?: string | null;
+  isNew?: boolean;
 }
 
 export interface Blocker {
@@ -87,6 +183,9 @@ export interface Blocker {
   planItemId: string | null;
   confidence: 'high' | 'medium' | 'low';
   sourceContentIds: string[];
+  // Set when the item is reconciled against the project's RAID register
+  raidItemId?: string | null;
+  isNew?: boolean;
 }
 
 export interface ReportResult {
@@ -103,6 +202,9 @@ export interface ReportResult {
     reason: string;
     confidence: 'high' | 'medium' | 'low';
   }>;
+  scheduleVariance?: ScheduleVariance | null;
+  planChanges?: PlanChanges | null;
+  health?: ProjectHealthSummary | null;
 }
 
 export function getActivityReporterSystemPrompt(): string {
@@ -130,6 +232,30 @@ export function getActivityReporterUserPrompt(
     .map(p => `  - ID: ${p.id}, Name: ${p.name}, Path: ${p.fullPath}, Status: ${p.status}, Type: ${p.itemType}`)
     .join('\n');
 
+  const raidList = (context.openRaidItems || [])
+    .map(r => `  - [${r.type}] ${r.title}${r.owner ? ` (Owner: ${r.owner})` : ''} - ${r.status}`)
+    .join('\n');
+
+  const stakeholderList = (context.stakeholders || [])
+    .map(s => {
+      const knownAs = [...s.aliases, s.email].filter(Boolean);
+      return `  - ${s.name}${knownAs.length ? ` (also: ${knownAs.join(', ')})` : ''}${s.role ? `, ${s.role}` : ''}${s.organization ? ` at ${s.organization}` : ''} [${s.affiliation}]`;
+    })
+    .join('\n');
+
+  const variance = context.scheduleVariance;
+  const formatSlip = (days: number | null) =>
+    days === null ? 'no date' : days > 0 ? `+${days} days late` : days < 0 ? `${-days} days early` : 'on baseline';
+  const varianceList = variance
+    ? [...variance.workstreams, ...variance.milestones]
+        .map(v => `  - ${v.name}: baseline ${v.baselineEndDate || 'n/a'}, now ${v.currentEndDate || 'n/a'} (${formatSlip(v.endSlipDays)})`)
+        .join('\n')
+    : '';
+
+  const planChangesList = (context.planChanges?.workstreams || [])
+    .map(w => `  ${w.name}:\n${w.items.map(i => `    - ${i.name}: ${i.details.join('; ')}`).join('\n')}`)
+    .join('\n');
+
   const contentList = chunks
     .map(c => `--- Content from "${c.contentItemTitle}" (${c.dateOccurred}, ID: ${c.contentItemId}) ---
 ${c.chunkText}
@@ -141,6 +267,18 @@ ${c.chunkText}
 PROJECT PLAN ITEMS:
 ${planItemsList || '  (No plan items defined)'}
 
+SCHEDULE VARIANCE${variance ? ` (against baseline "${variance.baselineName}" from ${variance.baselineDate})` : ''}:
+${varianceList || '  (No baseline captured)'}
+
+PLAN CHANGES DURING THE PERIOD (from the plan's change history):
+${planChangesList || '  (No plan changes)'}
+
+PROJECT STAKEHOLDERS:
+${stakeholderList || '  (No stakeholders listed)'}
+
+OPEN RAID REGISTER (risks, actions, issues and decisions already being tracked):
+${raidList || '  (Register is empty)'}
+
 CONTENT FOR ANALYSIS:
 ${contentList || '(No content available for this period)'}
 
@@ -190,6 +328,7 @@ Based on the above content, generate a comprehensive activity report in the foll
       "decisionMaker": "Who made the decision or null",
       "decisionDate": "YYYY-MM-DD or null",
       "impact": "Impact of the decision or null",
+      "rationale": "Why this option was chosen or null",
       "planItemId": "uuid or null",
       "confidence": "high | medium | low",
       "sourceContentIds": ["uuid1"]
@@ -222,6 +361,10 @@ IMPORTANT:
 - Only include items that are clearly supported by the source content
 - Always include sourceContentIds for traceability
 - Use the exact plan item IDs from the list above when linking
+- Mention significant slips against the baseline in the summary and status updates
+- Mention re-dated, added and removed plan items in the summary, and don't suggest plan updates that were already made
+- When content refers to an item already on the RAID register, reuse its exact title instead of rewording it
+- When an owner or decision maker is one of the project stakeholders, use their listed name even if the content uses a nickname or email
 - Set confidence based on how explicitly the information is stated
 - If no content is available, return empty arrays for each category
 - Dates should be in YYYY-MM-DD format`;
@@ -25,11 +25,21 @@ export interface ActivityTypeContext {
   description?: string;
 }
 
+export interface StakeholderContext {
+  name: string;
+  aliases: string[];
+  email: string | null;
+  organization: string | null;
+  role: string | null;
+  affiliation: string;
+}
+
 export interface AnalysisContext {
   projectName: string;
   planItems: PlanItemContext[];
   contentTypes: ContentTypeContext[];
   activityTypes: ActivityTypeContext[];
+  stakeholders?: StakeholderContext[];
   userSelectedContentTypes?: number[];
   userSelectedActivityTypes?: number[];
   userSelectedPlanItems?: string[];
@@ -53,6 +63,14 @@ export function getIntakeAgentSystemPrompt(context: AnalysisContext): string {
     .map((at) => `- ${at.name} (id: ${at.id}): ${at.description || at.slug}`)
     .join('\n');
 
+  const stakeholdersList = (context.stakeholders || [])
+    .map((s) => {
+      const knownAs = [...s.aliases, s.email].filter(Boolean);
+      const details = [s.role, s.organization, s.affiliation].filter(Boolean).join(', ');
+      return `- ${s.name}${knownAs.length ? ` (also: ${knownAs.join(', ')})` : ''}${details ? ` - ${details}` : ''}`;
+    })
+    .join('\n');
+
   return `You are an AI assistant that analyzes project-related content (meeting notes, emails, documents, etc.) to extract structured information for a project management system.
 
 PROJECT: "${context.projectName}"
@@ -66,6 +84,9 @@ ${contentTypesList}
 AVAILABLE ACTIVITY TYPES:
 ${activityTypesList}
 
+KNOWN STAKEHOLDERS:
+${stakeholdersList || 'No stakeholders listed yet.'}
+
 ${context.userSelectedContentTypes?.length ? `USER ALREADY SELECTED CONTENT TYPES: ${context.userSelectedContentTypes.join(', ')}` : ''}
 ${context.userSelectedActivityTypes?.length ? `USER ALREADY SELECTED ACTIVITY TYPES: ${context.userSelectedActivityTypes.join(', ')}` : ''}
 ${context.userSelectedPlanItems?.length ? `USER ALREADY LINKED PLAN ITEMS: ${context.userSelectedPlanItems.join(', ')}` : ''}
@@ -130,6 +151,8 @@ Important:
 - Only include suggestedContentTypes/ActivityTypes if the user hasn't already selected them
 - Match plan items by keywords in their names/paths
 - For action items, always try to identify an owner and due date
+- When an owner or decision maker is one of the known stakeholders, use their listed name even if the content uses a nickname or email
+- For decisions, put "decisionMaker", "decisionDate", "rationale" (why this option was chosen) and "alternatives" (array of options considered and not taken) in metadata when mentioned
 - Use ISO 8601 format for dates (YYYY-MM-DD)
 - Set confidence based on how clearly the information appears in the text`;
 }
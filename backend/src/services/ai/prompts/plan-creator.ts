@@ -19,6 +19,15 @@ export interface PlanCreatorContext {
     slug: string;
     level: number;
   }>;
+  customFields?: Array<{
+    key: string;
+    label: string;
+    fieldType: string;
+    options: string[];
+    description: string | null;
+    // Plan item type slug the field is limited to, or null for all types
+    appliesTo: string | null;
+  }>;
 }
 
 export interface GeneratedPlanItem {
@@ -27,6 +36,7 @@ export interface GeneratedPlanItem {
   description: string;
   owner?: string;
   estimatedDuration?: string;
+  customFields?: Record<string, string | number>;
   children?: GeneratedPlanItem[];
 }
 
@@ -77,6 +87,16 @@ export function getPlanCreatorUserPrompt(context: PlanCreatorContext): string {
     ?.map(pt => `  - ${pt.name} (${pt.slug}): Level ${pt.level}`)
     .join('\n');
 
+  const customFieldsList = context.customFields
+    ?.map(f => {
+      let field = `  - ${f.key} (${f.label}, ${f.fieldType})`;
+      if (f.options.length > 0) field += ` options: ${f.options.join(' | ')}`;
+      if (f.appliesTo) field += ` - ${f.appliesTo} items only`;
+      if (f.description) field += ` - ${f.description}`;
+      return field;
+    })
+    .join('\n');
+
   return `Create a project plan for the following:
 
 PROJECT NAME: ${context.projectName}
@@ -90,6 +110,9 @@ ${existingPlanList}
 ${context.planItemTypes?.length ? `AVAILABLE PLAN ITEM TYPES:
 ${planTypesList}
 ` : ''}
+${context.customFields?.length ? `CUSTOM FIELDS (set on an item as "customFields": {"key": value} only when the description gives a value; dates as YYYY-MM-DD, user fields as email):
+${customFieldsList}
+` : ''}
 ${context.additionalContext ? `ADDITIONAL CONTEXT:
 ${context.additionalContext}
 ` : ''}
@@ -14,6 +14,8 @@ export interface PlanItemContext {
   owner: string | null;
   startDate: string | null;
   targetEndDate: string | null;
+  // Organization-defined fields set on the item
+  customFields?: Array<{ label: string; value: string }>;
   children: Array<{
     id: string;
     name: string;
@@ -104,6 +106,9 @@ export function getPlanUpdaterUserPrompt(
     Status: ${p.status}`;
       if (p.owner) item += `\n    Owner: ${p.owner}`;
       if (p.notes) item += `\n    Notes: ${p.notes.substring(0, 200)}...`;
+      if (p.customFields?.length) {
+        item += `\n    Custom fields: ${p.customFields.map(f => `${f.label}=${f.value}`).join('; ')}`;
+      }
       if (p.children.length > 0) {
         const childStatuses = p.children.map(c => `${c.name}(${c.status})`).join(', ');
         item += `\n    Children: ${childStatuses}`;
@@ -7,6 +7,8 @@ import { getInvitationEmailTemplate } from './templates/invitation.js';
 import { getWelcomeEmailTemplate } from './templates/welcome.js';
 import { getPasswordResetEmailTemplate } from './templates/password-reset.js';
 import { getPasswordChangedEmailTemplate } from './templates/password-changed.js';
+import { getMentionEmailTemplate } from './templates/mention.js';
+import { getActionReminderEmailTemplate } from './templates/action-reminder.js';
 
 class EmailService {
   private provider: EmailProvider;
@@ -80,6 +82,44 @@ class EmailService {
 
     return this.send({ to: email, subject, html, text });
   }
+
+  async sendMention(
+    email: string,
+    firstName: string,
+    authorName: string,
+    subjectName: string,
+    projectName: string,
+    commentBody: string,
+    viewUrl: string
+  ): Promise<EmailResult> {
+    const { subject, html, text } = getMentionEmailTemplate({
+      firstName,
+      authorName,
+      subjectName,
+      projectName,
+      commentBody,
+      viewUrl,
+      appName: 'Multi-Tenant App',
+    });
+
+    return this.send({ to: email, subject, html, text });
+  }
+
+  async sendActionReminder(
+    email: string,
+    firstName: string,
+    actions: Array<{ title: string; projectName: string; dueDate: string; daysOverdue: number }>,
+    viewUrl: string
+  ): Promise<EmailResult> {
+    const { subject, html, text } = getActionReminderEmailTemplate({
+      firstName,
+      actions,
+      viewUrl,
+      appName: 'Multi-Tenant App',
+    });
+
+    return this.send({ to: email, subject, html, text });
+  }
 }
 
 export const emailService = new EmailService();
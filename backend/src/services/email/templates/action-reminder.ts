@@ -0,0 +1,98 @@
+interface ReminderAction {
+  title: string;
+  projectName: string;
+  dueDate: string;
+  // Days past the due date; 0 or less when not yet overdue
+  daysOverdue: number;
+}
+
+interface ActionReminderTemplateData {
+  firstName: string;
+  actions: ReminderAction[];
+  viewUrl: string;
+  appName: string;
+}
+
+// Action titles come from meeting notes and AI extraction
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const describeDue = (action: ReminderAction) =>
+  action.daysOverdue > 0
+    ? `${action.daysOverdue} day${action.daysOverdue === 1 ? '' : 's'} overdue (due ${action.dueDate})`
+    : `due ${action.dueDate}`;
+
+export const getActionReminderEmailTemplate = (data: ActionReminderTemplateData) => {
+  const overdue = data.actions.filter(action => action.daysOverdue > 0).length;
+  const subject = overdue > 0
+    ? `${overdue} of your action items ${overdue === 1 ? 'is' : 'are'} overdue`
+    : `${data.actions.length === 1 ? 'An action item is' : `${data.actions.length} action items are`} due soon`;
+
+  const rows = data.actions
+    .map(action => `
+      <tr>
+        <td style="padding: 8px 0; border-bottom: 1px solid #eee;">
+          <strong>${escapeHtml(action.title)}</strong><br>
+          <span style="color: #666; font-size: 14px;">${escapeHtml(action.projectName)}</span>
+        </td>
+        <td style="padding: 8px 0 8px 16px; border-bottom: 1px solid #eee; white-space: nowrap; color: ${action.daysOverdue > 0 ? '#c00' : '#333'};">
+          ${describeDue(action)}
+        </td>
+      </tr>`)
+    .join('');
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(subject)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .button { display: inline-block; padding: 12px 24px; background-color: #0070f3; color: white; text-decoration: none; border-radius: 6px; font-weight: 500; }
+    .footer { margin-top: 40px; padding-top: 20px; border-top: 1px solid #eee; color: #666; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h1>Action items need your attention</h1>
+
+    <p>Hi ${escapeHtml(data.firstName)},</p>
+
+    <p>These action items assigned to you are due or overdue:</p>
+
+    <table style="width: 100%; border-collapse: collapse;">${rows}
+    </table>
+
+    <p style="margin: 30px 0;">
+      <a href="${data.viewUrl}" class="button">View Action Items</a>
+    </p>
+
+    <div class="footer">
+      <p>Best regards,<br>The ${data.appName} Team</p>
+    </div>
+  </div>
+</body>
+</html>
+  `.trim();
+
+  const text = `
+${subject}
+
+Hi ${data.firstName},
+
+These action items assigned to you are due or overdue:
+
+${data.actions.map(action => `- ${action.title} (${action.projectName}): ${describeDue(action)}`).join('\n')}
+
+View your action items:
+${data.viewUrl}
+
+Best regards,
+The ${data.appName} Team
+  `.trim();
+
+  return { subject, html, text };
+};
@@ -0,0 +1,72 @@
+interface MentionTemplateData {
+  firstName: string;
+  authorName: string;
+  subjectName: string;
+  projectName: string;
+  commentBody: string;
+  viewUrl: string;
+  appName: string;
+}
+
+// Comment bodies are user input
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const getMentionEmailTemplate = (data: MentionTemplateData) => {
+  const subject = `${data.authorName} mentioned you on ${data.subjectName}`;
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(subject)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .button { display: inline-block; padding: 12px 24px; background-color: #0070f3; color: white; text-decoration: none; border-radius: 6px; font-weight: 500; }
+    .quote { border-left: 3px solid #ddd; padding: 8px 16px; margin: 20px 0; color: #555; white-space: pre-wrap; }
+    .footer { margin-top: 40px; padding-top: 20px; border-top: 1px solid #eee; color: #666; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h1>You were mentioned</h1>
+
+    <p>Hi ${escapeHtml(data.firstName)},</p>
+
+    <p><strong>${escapeHtml(data.authorName)}</strong> mentioned you in a comment on <strong>${escapeHtml(data.subjectName)}</strong> in ${escapeHtml(data.projectName)}:</p>
+
+    <div class="quote">${escapeHtml(data.commentBody)}</div>
+
+    <p style="margin: 30px 0;">
+      <a href="${data.viewUrl}" class="button">View Comment</a>
+    </p>
+
+    <div class="footer">
+      <p>Best regards,<br>The ${data.appName} Team</p>
+    </div>
+  </div>
+</body>
+</html>
+  `.trim();
+
+  const text = `
+${subject}
+
+Hi ${data.firstName},
+
+${data.authorName} mentioned you in a comment on ${data.subjectName} in ${data.projectName}:
+
+${data.commentBody}
+
+View the comment:
+${data.viewUrl}
+
+Best regards,
+The ${data.appName} Team
+  `.trim();
+
+  return { subject, html, text };
+};
@@ -0,0 +1,153 @@
+/**
+ * Email Processing Service
+ * Parses RFC 822 messages (.eml) and mailbox files (.mbox) using mailparser
+ */
+
+import path from 'path';
+import { simpleParser, type AddressObject } from 'mailparser';
+import logger from '../../utils/logger.js';
+
+export interface EmailParticipant {
+  name: string | null;
+  address: string;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  size: number;
+  content: Buffer;
+}
+
+export interface ParsedEmail {
+  messageId: string | null;
+  inReplyTo: string | null;
+  references: string[];
+  // Message id of the first message in the conversation, shared by every reply
+  threadId: string | null;
+  subject: string;
+  date: Date | null;
+  from: EmailParticipant | null;
+  to: EmailParticipant[];
+  cc: EmailParticipant[];
+  // Body text with the quoted history of a reply removed
+  text: string;
+  attachments: EmailAttachment[];
+}
+
+// Flatten mailparser's address objects, skipping group names without an address
+const toParticipants = (value: AddressObject | AddressObject[] | undefined): EmailParticipant[] =>
+  (Array.isArray(value) ? value : value ? [value] : [])
+    .flatMap(group => group.value)
+    .filter(entry => !!entry.address)
+    .map(entry => ({ name: entry.name || null, address: entry.address!.toLowerCase() }));
+
+/**
+ * Remove the quoted history from a reply: "> " lines and the "On ... wrote:" line above them.
+ * Earlier messages of a thread are ingested on their own, so repeating them would only
+ * duplicate what was extracted from them.
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.split(/\r?\n/);
+  const kept: string[] = [];
+
+  for (const line of lines) {
+    if (/^\s*>/.test(line)) {
+      // Drop the attribution line (and blank lines) leading into the quote
+      while (kept.length > 0 && (!kept[kept.length - 1].trim() || /wrote:\s*$/.test(kept[kept.length - 1]))) {
+        kept.pop();
+      }
+      continue;
+    }
+    kept.push(line);
+  }
+
+  return kept.join('\n').trim();
+}
+
+/**
+ * Check if a buffer looks like an mbox file, which starts with a "From " postmark line
+ */
+export function isMboxBuffer(buffer: Buffer): boolean {
+  return buffer.subarray(0, 5).toString('latin1') === 'From ';
+}
+
+/**
+ * Split an mbox file into its messages. Body lines escaped as ">From " (mboxrd) are restored.
+ */
+export function splitMbox(buffer: Buffer): Buffer[] {
+  const content = buffer.toString('latin1');
+  const messages = content.split(/^From .*\r?\n/m).filter(message => message.trim().length > 0);
+
+  return messages.map(message => Buffer.from(message.replace(/^>(>*From )/gm, '$1'), 'latin1'));
+}
+
+/**
+ * Parse a single RFC 822 message
+ */
+export async function parseEmail(buffer: Buffer): Promise<ParsedEmail> {
+  try {
+    const mail = await simpleParser(buffer);
+
+    const references = (Array.isArray(mail.references) ? mail.references : mail.references ? [mail.references] : [])
+      .flatMap(reference => reference.split(/\s+/))
+      .filter(Boolean);
+    const messageId = mail.messageId || null;
+    const inReplyTo = mail.inReplyTo || null;
+
+    return {
+      messageId,
+      inReplyTo,
+      references,
+      threadId: references[0] ?? inReplyTo ?? messageId,
+      subject: mail.subject?.trim() || '(no subject)',
+      date: mail.date && !isNaN(mail.date.getTime()) ? mail.date : null,
+      from: toParticipants(mail.from)[0] ?? null,
+      to: toParticipants(mail.to),
+      cc: toParticipants(mail.cc),
+      text: stripQuotedReply(mail.text || ''),
+      // Inline images referenced from the HTML body are not attachments anyone sent
+      attachments: mail.attachments
+        .filter(attachment => !attachment.related)
+        .map(attachment => ({
+          filename: attachment.filename || 'attachment',
+          contentType: attachment.contentType,
+          size: attachment.size,
+          content: attachment.content,
+        })),
+    };
+  } catch (error) {
+    logger.error('Failed to parse email:', error);
+    throw new Error(`Email parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Parse an uploaded .eml or .mbox file into its messages
+ */
+export async function parseEmailFile(buffer: Buffer, filename: string): Promise<ParsedEmail[]> {
+  const ext = path.extname(filename).toLowerCase();
+  const messages = ext === '.mbox' || isMboxBuffer(buffer) ? splitMbox(buffer) : [buffer];
+
+  const emails: ParsedEmail[] = [];
+  for (const message of messages) {
+    emails.push(await parseEmail(message));
+  }
+  return emails;
+}
+
+/**
+ * Check if a filename is an email or mailbox file
+ */
+export function isEmailFile(filename: string): boolean {
+  return ['.eml', '.mbox'].includes(path.extname(filename).toLowerCase());
+}
+
+export default {
+  parseEmail,
+  parseEmailFile,
+  splitMbox,
+  isMboxBuffer,
+  isEmailFile,
+  stripQuotedReply,
+};
@@ -10,6 +10,8 @@ import { extractTextFromPdf, isPdfBuffer } from './pdf.service.js';
 import { extractTextFromDocx, isDocxBuffer } from './docx.service.js';
 import logger from '../../utils/logger.js';
 
+export { parseEmailFile, isEmailFile, type ParsedEmail } from './email.service.js';
+
 // Upload directory (relative to backend root)
 const UPLOADS_DIR = path.join(process.cwd(), 'uploads');
 
@@ -77,6 +79,8 @@ export function getMimeType(filename: string): string {
     '.txt': 'text/plain',
     '.md': 'text/markdown',
     '.markdown': 'text/markdown',
+    '.eml': 'message/rfc822',
+    '.mbox': 'application/mbox',
   };
   return mimeTypes[ext] || 'application/octet-stream';
 }
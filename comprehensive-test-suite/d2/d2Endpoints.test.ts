@@ -193,6 +193,160 @@ export async function runD2Tests(): Promise<ReturnType<TestRunner['summary']>> {
     assertError(data, 'Should return error');
   });
 
+  // ==================== Project Health ====================
+
+  await runner.test('GET /api/projects/:id/health - Rates the project and each workstream with its factors', async () => {
+    if (!testProjectId) {
+      throw new Error('No test project created');
+    }
+
+    const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+    const workstream = await (await post(`/projects/${testProjectId}/plan`, adminUser, {
+      name: 'Late Workstream',
+      itemTypeId: 1,
+      status: 'in_progress',
+      targetEndDate: daysAgo(20),
+    })).json();
+    assertSuccess(workstream, 'Workstream should be created');
+
+    const child = await (await post(`/projects/${testProjectId}/plan`, adminUser, {
+      name: 'Blocked Milestone',
+      itemTypeId: 2,
+      parentId: workstream.data.id,
+      status: 'blocked',
+      targetEndDate: daysAgo(3),
+    })).json();
+    assertSuccess(child, 'Child item should be created');
+
+    const response = await get(`/projects/${testProjectId}/health`, adminUser);
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertSuccess(data, 'Health should be returned');
+    assertTrue(['green', 'amber', 'red'].includes(data.data.rag), 'Should have an overall rating');
+    assertEqual(data.data.factors.length, 5, 'Should explain all five factors');
+    const overdue = data.data.factors.find((f: any) => f.key === 'overdueItems');
+    assertEqual(overdue.value, 2, 'Both open items past their target should count as overdue');
+
+    const rated = data.data.workstreams.find((w: any) => w.planItemId === workstream.data.id);
+    assertExists(rated, 'Workstream should be rated');
+    assertEqual(rated.rag, 'red', 'Workstream 20 days past target should be red');
+    const slip = rated.factors.find((f: any) => f.key === 'scheduleSlipDays');
+    assertEqual(slip.rag, 'red', 'Schedule slip should be the red factor');
+    assertTrue(slip.detail.includes('past the'), 'Slip should be explained');
+    assertEqual(rated.factors.find((f: any) => f.key === 'blockedItems').value, 1, 'Blocked child should count');
+  });
+
+  await runner.test('PUT /api/projects/:id - Health thresholds come from statusConfig', async () => {
+    if (!testProjectId) {
+      throw new Error('No test project created');
+    }
+
+    const response = await put(`/projects/${testProjectId}`, adminUser, {
+      statusConfig: { health: { overdueItems: { amber: 10, red: 20 } } },
+    });
+    assertEqual(response.status, 200, 'Should return 200 status');
+
+    const health = await (await get(`/projects/${testProjectId}/health`, adminUser)).json();
+    const overdue = health.data.factors.find((f: any) => f.key === 'overdueItems');
+    assertEqual(overdue.rag, 'green', 'Overdue items below the raised threshold should be green');
+    assertEqual(health.data.thresholds.overdueItems.amber, 10, 'Configured threshold should be used');
+    assertEqual(health.data.thresholds.blockedItems.amber, 1, 'Other factors should keep the defaults');
+
+    const invalid = await put(`/projects/${testProjectId}`, adminUser, {
+      statusConfig: { health: { overdueItems: { amber: 5, red: 1 } } },
+    });
+    assertEqual(invalid.status, 400, 'Red below amber should be rejected');
+
+    const dashboard = await (await get(`/projects/${testProjectId}/dashboard`, adminUser)).json();
+    assertSuccess(dashboard, 'Dashboard should load');
+    assertEqual(dashboard.data.health.rag, health.data.rag, 'Dashboard should carry the same health');
+  });
+
+  // ==================== Portfolio ====================
+
+  await runner.test('GET /api/portfolio - Lists projects with health, next milestone and latest activity', async () => {
+    if (!testProjectId) {
+      throw new Error('No test project created');
+    }
+
+    const daysAhead = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const plan = await (await get(`/projects/${testProjectId}/plan`, adminUser)).json();
+    const workstream = plan.data.items.find((item: any) => item.name === 'Late Workstream');
+    assertExists(workstream, 'Workstream from the health test should exist');
+
+    const milestone = await (await post(`/projects/${testProjectId}/plan`, adminUser, {
+      name: 'Upcoming Milestone',
+      itemTypeId: 2,
+      parentId: workstream.id,
+      targetEndDate: daysAhead(10),
+    })).json();
+    assertSuccess(milestone, 'Milestone should be created');
+
+    const response = await get(`/portfolio?search=${encodeURIComponent(testProjectName)}`, adminUser);
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertSuccess(data, 'Portfolio should be returned');
+    const row = data.data.projects.find((p: any) => p.id === testProjectId);
+    assertExists(row, 'Project should be listed');
+    assertTrue(['green', 'amber', 'red'].includes(row.health.rag), 'Should carry the project health');
+    assertEqual(row.nextMilestone?.name, 'Upcoming Milestone', 'Next open milestone should be the future one');
+    assertEqual(row.nextMilestone.daysUntil, 10, 'Should say how far away the milestone is');
+    assertTrue(row.overdueItems >= 2, 'Overdue items should be counted');
+    assertEqual(row.lastReportAt, null, 'No report has been generated');
+    assertTrue(data.data.clients.includes('Test Client'), 'Clients should be offered for filtering');
+    assertEqual(data.data.summary.totalProjects, data.data.projects.length, 'Summary should count the rows');
+  });
+
+  await runner.test('GET /api/portfolio - Filters by client and status', async () => {
+    const search = encodeURIComponent(testProjectName);
+
+    const byClient = await (await get(`/portfolio?search=${search}&client=test%20client`, adminUser)).json();
+    assertTrue(byClient.data.projects.some((p: any) => p.id === testProjectId), 'Client match should be case-insensitive');
+
+    const otherClient = await (await get(`/portfolio?search=${search}&client=Nobody`, adminUser)).json();
+    assertEqual(otherClient.data.projects.length, 0, 'Other clients should be filtered out');
+
+    const cancelled = await (await get(`/portfolio?search=${search}&status=cancelled`, adminUser)).json();
+    assertEqual(cancelled.data.projects.length, 0, 'Active project should not match the cancelled filter');
+
+    const invalid = await get('/portfolio?health=purple', adminUser);
+    assertEqual(invalid.status, 400, 'Unknown health rating should be rejected');
+  });
+
+  await runner.test('GET /api/portfolio/milestones - Timeline of open milestones across projects', async () => {
+    const search = encodeURIComponent(testProjectName);
+    const response = await get(`/portfolio/milestones?search=${search}&days=30`, adminUser);
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertSuccess(data, 'Timeline should be returned');
+    const names = data.data.milestones.map((m: any) => m.name);
+    assertTrue(names.indexOf('Blocked Milestone') < names.indexOf('Upcoming Milestone'), 'Overdue milestone should come first');
+
+    const upcoming = data.data.milestones.find((m: any) => m.name === 'Upcoming Milestone');
+    assertEqual(upcoming.project.id, testProjectId, 'Should name the project');
+    assertEqual(upcoming.workstream?.name, 'Late Workstream', 'Should name the workstream');
+    assertEqual(upcoming.isOverdue, false, 'Future milestone should not be overdue');
+    assertTrue(data.data.milestones.find((m: any) => m.name === 'Blocked Milestone').isOverdue, 'Past milestone should be flagged');
+
+    const withoutOverdue = await (await get(`/portfolio/milestones?search=${search}&includeOverdue=false`, adminUser)).json();
+    assertTrue(
+      withoutOverdue.data.milestones.every((m: any) => !m.isOverdue),
+      'Overdue milestones should be left out when excluded'
+    );
+
+    const shortWindow = await (await get(`/portfolio/milestones?search=${search}&days=5&includeOverdue=false`, adminUser)).json();
+    assertEqual(shortWindow.data.milestones.length, 0, 'Milestones beyond the window should be left out');
+  });
+
+  await runner.test('GET /api/portfolio - Without auth should fail', async () => {
+    const response = await get('/portfolio', {} as TestUser);
+    assertEqual(response.status, 401, 'Should return 401 status');
+  });
+
   // ==================== Delete Project ====================
 
   await runner.test('DELETE /api/projects/:id - Delete (soft) project', async () => {
@@ -217,6 +371,36 @@ export async function runD2Tests(): Promise<ReturnType<TestRunner['summary']>> {
     }
   });
 
+  await runner.test('GET /api/projects/trash - Lists deleted projects', async () => {
+    if (!testProjectId) throw new Error('No test project created');
+
+    const response = await get('/projects/trash', adminUser);
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertSuccess(data, 'Trash should be listed');
+    const project = data.data.find((p: any) => p.id === testProjectId);
+    assertExists(project, 'Deleted project should be in the trash');
+    assertExists(project.deletedAt, 'Should record when it was deleted');
+  });
+
+  await runner.test('POST /api/projects/:id/restore - Restore deleted project', async () => {
+    if (!testProjectId) throw new Error('No test project created');
+
+    const response = await post(`/projects/${testProjectId}/restore`, adminUser, {});
+    const data = await response.json();
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertSuccess(data, 'Restore should succeed');
+
+    const getResponse = await get(`/projects/${testProjectId}`, adminUser);
+    assertEqual(getResponse.status, 200, 'Restored project should be found');
+
+    const again = await post(`/projects/${testProjectId}/restore`, adminUser, {});
+    assertEqual(again.status, 404, 'Restoring an active project should return 404');
+
+    await del(`/projects/${testProjectId}`, adminUser);
+  });
+
   await runner.test('DELETE /api/projects/:id - Delete non-existent should fail', async () => {
     const fakeId = '00000000-0000-0000-0000-000000000000';
     const response = await del(`/projects/${fakeId}`, adminUser);
@@ -280,11 +464,88 @@ export async function runD2Tests(): Promise<ReturnType<TestRunner['summary']>> {
     assertEqual(data.data.status, 'cancelled', 'Status should be cancelled');
   });
 
+  // ==================== Clone Project ====================
+
+  let clonedProjectId: string | null = null;
+
+  await runner.test('POST /api/projects/:id/clone - Copies plan tree with remapped ids and shifted dates', async () => {
+    if (!secondProjectId) {
+      throw new Error('No second project created');
+    }
+
+    await put(`/projects/${secondProjectId}`, adminUser, { startDate: '2026-01-05' });
+
+    const parentResponse = await post(`/projects/${secondProjectId}/plan`, adminUser, {
+      name: 'Discovery',
+      itemTypeId: 1,
+      status: 'completed',
+      startDate: '2026-01-05',
+      targetEndDate: '2026-01-30',
+      actualEndDate: '2026-01-28',
+    });
+    const parent = (await parentResponse.json()).data;
+
+    await post(`/projects/${secondProjectId}/plan`, adminUser, {
+      name: 'Workshops',
+      itemTypeId: 2,
+      parentId: parent.id,
+      status: 'completed',
+      targetEndDate: '2026-01-20',
+      ownerUserId: adminUser.userId,
+    });
+
+    const response = await post(`/projects/${secondProjectId}/clone`, adminUser, {
+      name: uniqueString('cloned'),
+      startDate: '2026-03-02',
+    });
+    const data = await response.json();
+
+    assertEqual(response.status, 201, 'Should return 201 status');
+    assertSuccess(data, 'Clone should succeed');
+    assertEqual(data.data.cloned.planItems, 2, 'Should copy both plan items');
+    assertEqual(data.data.client, 'Second Client', 'Client should carry over');
+    clonedProjectId = data.data.id;
+
+    const planData = await (await get(`/projects/${clonedProjectId}/plan`, adminUser)).json();
+    const items = Array.isArray(planData.data) ? planData.data : (planData.data?.items || []);
+    const discovery = items.find((item: any) => item.name === 'Discovery');
+    assertExists(discovery, 'Copied workstream should exist');
+    assertTrue(discovery.id !== parent.id, 'Copied item should get a new id');
+    assertEqual(discovery.status, 'not_started', 'Statuses are reset by default');
+    assertEqual(discovery.actualEndDate, null, 'Actual dates are cleared by default');
+    assertTrue(discovery.startDate.startsWith('2026-03-02'), 'Start date should shift with the project');
+    assertTrue(discovery.targetEndDate.startsWith('2026-03-27'), 'End date should keep its offset');
+
+    const child = discovery.children[0];
+    assertExists(child, 'Copied child should be nested under the copied parent');
+    assertEqual(child.parentId, discovery.id, 'Child parentId should be remapped');
+    assertEqual(child.path, `/${discovery.id}`, 'Child path should be remapped');
+    assertEqual(child.ownerUserId, adminUser.userId, 'Assignee should carry over');
+  });
+
+  await runner.test('POST /api/projects/:id/clone - Duplicate name should fail', async () => {
+    if (!secondProjectId || !clonedProjectId) {
+      throw new Error('No cloned project');
+    }
+
+    const cloned = (await (await get(`/projects/${clonedProjectId}`, adminUser)).json()).data;
+    const response = await post(`/projects/${secondProjectId}/clone`, adminUser, { name: cloned.name });
+
+    assertEqual(response.status, 409, 'Should return 409 status');
+
+    // The first test project was deleted above and is still in the trash
+    const trashed = await post(`/projects/${secondProjectId}/clone`, adminUser, { name: testProjectName });
+    assertEqual(trashed.status, 409, 'Name of a project in the trash should be taken');
+  });
+
   // Cleanup
   await runner.test('Cleanup: Delete second test project', async () => {
     if (secondProjectId) {
       await cleanup(`/projects/${secondProjectId}`, adminUser);
     }
+    if (clonedProjectId) {
+      await cleanup(`/projects/${clonedProjectId}`, adminUser);
+    }
     assertTrue(true, 'Cleanup completed');
   });
 
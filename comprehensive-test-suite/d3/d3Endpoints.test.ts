@@ -20,6 +20,7 @@ import {
   post,
   put,
   del,
+  postFile,
   uniqueString,
   cleanup,
   type TestUser,
@@ -32,6 +33,13 @@ export async function runD3Tests(): Promise<ReturnType<TestRunner['summary']>> {
   let testProjectId: string | null = null;
   let testPlanItemId: string | null = null;
   let childPlanItemId: string | null = null;
+  let designItemId: string | null = null;
+  let buildItemId: string | null = null;
+  let dependencyId: string | null = null;
+  let baselineId: string | null = null;
+  let secondBaselineId: string | null = null;
+  let planTemplateId: string | null = null;
+  let templatedProjectId: string | null = null;
 
   // Login and create test project
   await runner.test('Setup: Login and create test project', async () => {
@@ -211,6 +219,22 @@ export async function runD3Tests(): Promise<ReturnType<TestRunner['summary']>> {
     assertEqual(data.data.status, 'completed', 'Status should be updated');
   });
 
+  await runner.test('PUT /api/plan-items/:id - Reschedule records change reason', async () => {
+    if (!testPlanItemId) throw new Error('No test plan item');
+
+    const response = await put(`/plan-items/${testPlanItemId}`, adminUser, {
+      targetEndDate: '2026-06-30',
+      changeReason: 'Client moved go-live',
+    });
+    assertEqual(response.status, 200, 'Should return 200 status');
+
+    const historyResponse = await get(`/plan-items/${testPlanItemId}/history`, adminUser);
+    const history = (await historyResponse.json()).data;
+    const entry = history.find((h: any) => h.field === 'targetEndDate');
+    assertExists(entry, 'Should record a targetEndDate history entry');
+    assertEqual(entry.changeReason, 'Client moved go-live', 'Change reason should be recorded');
+  });
+
   // ==================== Plan Item History ====================
 
   await runner.test('GET /api/plan-items/:id/history - Get item history', async () => {
@@ -253,6 +277,1423 @@ export async function runD3Tests(): Promise<ReturnType<TestRunner['summary']>> {
     assertEqual(getData.data.status, 'in_progress', 'Status should be updated');
   });
 
+  await runner.test('POST /api/plan-items/bulk-update - Board move records transition in history', async () => {
+    if (!childPlanItemId) throw new Error('No child plan item');
+
+    const response = await post('/plan-items/bulk-update', adminUser, {
+      updates: [
+        {
+          id: childPlanItemId,
+          status: 'blocked',
+          changeReason: 'Moved from In Progress to Blocked on the board',
+        },
+      ],
+    });
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertTrue(data.data[0].success, 'Item update should succeed');
+
+    const historyResponse = await get(`/plan-items/${childPlanItemId}/history`, adminUser);
+    const history = (await historyResponse.json()).data;
+    const transition = history.find((h: any) => h.field === 'status' && h.newValue === 'blocked');
+    assertExists(transition, 'Status transition should be recorded');
+    assertEqual(transition.oldValue, 'in_progress', 'Previous status should be recorded');
+    assertEqual(
+      transition.changeReason,
+      'Moved from In Progress to Blocked on the board',
+      'Change reason should be recorded'
+    );
+  });
+
+  // ==================== Progress & Status Roll-up ====================
+
+  await runner.test('GET /api/projects/:id/plan - Parent progress rolls up from children', async () => {
+    if (!testProjectId || !testPlanItemId) throw new Error('Missing test data');
+
+    const response = await get(`/projects/${testProjectId}/plan`, adminUser);
+    const data = await response.json();
+    const items = Array.isArray(data.data) ? data.data : (data.data?.items || []);
+    const root = items.find((item: any) => item.id === testPlanItemId);
+
+    assertExists(root, 'Root item should exist');
+    assertEqual(root.progress, 50, 'Single blocked child should give 50% progress');
+    assertEqual(root.derivedStatus, 'blocked', 'Blocked child should make the parent blocked');
+    assertEqual(root.children[0].progress, 50, 'Blocked leaf should count as half done');
+  });
+
+  await runner.test('PUT /api/plan-items/:id - Auto roll-up updates parent status with history', async () => {
+    if (!testProjectId || !testPlanItemId || !childPlanItemId) throw new Error('Missing test data');
+
+    const projectResponse = await put(`/projects/${testProjectId}`, adminUser, { autoRollupStatus: true });
+    assertSuccess(await projectResponse.json(), 'Enabling auto roll-up should succeed');
+
+    const response = await put(`/plan-items/${childPlanItemId}`, adminUser, { status: 'in_progress' });
+    assertEqual(response.status, 200, 'Should return 200 status');
+
+    const parentResponse = await get(`/plan-items/${testPlanItemId}`, adminUser);
+    const parent = (await parentResponse.json()).data;
+    assertEqual(parent.status, 'in_progress', 'Parent status should follow its children');
+
+    const historyResponse = await get(`/plan-items/${testPlanItemId}/history`, adminUser);
+    const history = (await historyResponse.json()).data;
+    const rollup = history.find((h: any) => h.field === 'status' && h.newValue === 'in_progress');
+    assertExists(rollup, 'Rolled-up status change should be recorded');
+    assertEqual(rollup.changeReason, 'Status rolled up from child items', 'Roll-up reason should be recorded');
+
+    await put(`/projects/${testProjectId}`, adminUser, { autoRollupStatus: false });
+  });
+
+  await runner.test('POST /api/projects/:id/plan-updates - Applied status changes roll up to parents', async () => {
+    if (!testProjectId || !testPlanItemId || !childPlanItemId) throw new Error('Missing test data');
+
+    await put(`/projects/${testProjectId}`, adminUser, { autoRollupStatus: true });
+
+    const applied = await (await post(`/projects/${testProjectId}/plan-updates`, adminUser, {
+      updates: [{ planItemId: childPlanItemId, field: 'status', value: 'completed', reason: 'Signed off' }],
+    })).json();
+    assertSuccess(applied, 'Apply should succeed');
+
+    const parent = (await (await get(`/plan-items/${testPlanItemId}`, adminUser)).json()).data;
+    assertEqual(parent.status, 'completed', 'Parent status should follow the applied change');
+
+    await put(`/plan-items/${childPlanItemId}`, adminUser, { status: 'in_progress' });
+    await put(`/projects/${testProjectId}`, adminUser, { autoRollupStatus: false });
+  });
+
+  await runner.test('GET /api/projects/:id/dashboard - Includes rolled-up plan progress', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const response = await get(`/projects/${testProjectId}/dashboard`, adminUser);
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertHasProperty(data.data.planItems, 'progress', 'Dashboard should include progress');
+    assertEqual(data.data.planItems.progress.weighting, 'count', 'Default weighting should be by count');
+    assertArrayMinLength(data.data.planItems.progress.workstreams, 1, 'Should list workstreams');
+  });
+
+  // ==================== Dependencies & Critical Path ====================
+
+  await runner.test('POST /api/projects/:id/plan/dependencies - Create finish-to-start link', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const day = 24 * 60 * 60 * 1000;
+    const start = Date.now();
+
+    const designResponse = await post(`/projects/${testProjectId}/plan`, adminUser, {
+      name: 'Design',
+      itemTypeId: 1,
+      startDate: new Date(start).toISOString(),
+      targetEndDate: new Date(start + 10 * day).toISOString(),
+    });
+    designItemId = (await designResponse.json()).data.id;
+
+    const buildResponse = await post(`/projects/${testProjectId}/plan`, adminUser, {
+      name: 'Build',
+      itemTypeId: 1,
+      startDate: new Date(start).toISOString(),
+      targetEndDate: new Date(start + 5 * day).toISOString(),
+    });
+    buildItemId = (await buildResponse.json()).data.id;
+
+    const response = await post(`/projects/${testProjectId}/plan/dependencies`, adminUser, {
+      predecessorId: designItemId,
+      successorId: buildItemId,
+      type: 'finish_to_start',
+      lagDays: 2,
+    });
+    const data = await response.json();
+
+    assertEqual(response.status, 201, 'Should return 201 status');
+    assertSuccess(data, 'Create should succeed');
+    assertEqual(data.data.lagDays, 2, 'Lag should match');
+    dependencyId = data.data.id;
+  });
+
+  await runner.test('POST /api/projects/:id/plan/dependencies - Cycle should fail', async () => {
+    if (!testProjectId || !designItemId || !buildItemId) throw new Error('Missing test data');
+
+    const response = await post(`/projects/${testProjectId}/plan/dependencies`, adminUser, {
+      predecessorId: buildItemId,
+      successorId: designItemId,
+    });
+    const data = await response.json();
+
+    assertEqual(response.status, 400, 'Should return 400 status');
+    assertError(data, 'Should reject cyclic dependency');
+  });
+
+  await runner.test('GET /api/projects/:id/plan/critical-path - Returns slack per item', async () => {
+    if (!testProjectId || !designItemId || !buildItemId) throw new Error('Missing test data');
+
+    const response = await get(`/projects/${testProjectId}/plan/critical-path`, adminUser);
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertSuccess(data, 'Response should be successful');
+    assertTrue(data.data.criticalPath.includes(designItemId), 'Design should be critical');
+    assertTrue(data.data.criticalPath.includes(buildItemId), 'Build should be critical');
+
+    const build = data.data.items.find((i: any) => i.planItemId === buildItemId);
+    assertEqual(build.slackDays, 0, 'Critical items should have zero slack');
+  });
+
+  await runner.test('GET /api/projects/:id/plan/critical-path - Summary items follow their children', async () => {
+    if (!testProjectId || !designItemId) throw new Error('Missing test data');
+
+    const day = 24 * 60 * 60 * 1000;
+    const start = Date.now();
+
+    // The summary's own end date is well past the Design > Build chain, but its only child is short
+    const summary = (await (await post(`/projects/${testProjectId}/plan`, adminUser, {
+      name: 'Release',
+      itemTypeId: 1,
+      startDate: new Date(start).toISOString(),
+      targetEndDate: new Date(start + 90 * day).toISOString(),
+    })).json()).data;
+    await post(`/projects/${testProjectId}/plan`, adminUser, {
+      name: 'Release notes',
+      itemTypeId: 2,
+      parentId: summary.id,
+      startDate: new Date(start).toISOString(),
+      targetEndDate: new Date(start + day).toISOString(),
+    });
+
+    const data = (await (await get(`/projects/${testProjectId}/plan/critical-path`, adminUser)).json()).data;
+    const release = data.items.find((i: any) => i.planItemId === summary.id);
+    assertExists(release, 'Summary should be scheduled');
+    assertTrue(!release.isCritical, 'Summary with a non-critical child should not be critical');
+    assertTrue(release.slackDays > 0, 'Summary slack should come from its child');
+    assertTrue(data.criticalPath.includes(designItemId), 'Design should stay critical');
+
+    await del(`/plan-items/${summary.id}`, adminUser);
+  });
+
+  // ==================== Move / Reparent ====================
+
+  await runner.test('POST /api/plan-items/:id/move - Moving under own descendant should fail', async () => {
+    if (!testPlanItemId || !childPlanItemId) throw new Error('Missing test data');
+
+    const response = await post(`/plan-items/${testPlanItemId}/move`, adminUser, { parentId: childPlanItemId });
+    const data = await response.json();
+
+    assertEqual(response.status, 400, 'Should return 400 status');
+    assertError(data, 'Should reject moving an item under its descendant');
+  });
+
+  await runner.test('POST /api/plan-items/:id/move - Parent must be a higher level type', async () => {
+    if (!designItemId || !buildItemId) throw new Error('Missing test data');
+
+    const response = await post(`/plan-items/${designItemId}/move`, adminUser, { parentId: buildItemId });
+    const data = await response.json();
+
+    assertEqual(response.status, 400, 'Should return 400 status');
+    assertError(data, 'Should reject a workstream nested under a workstream');
+  });
+
+  await runner.test('POST /api/plan-items/:id/move - Reparent rewrites subtree path and depth', async () => {
+    if (!testProjectId || !childPlanItemId || !designItemId || !testPlanItemId) throw new Error('Missing test data');
+
+    const grandchildResponse = await post(`/projects/${testProjectId}/plan`, adminUser, {
+      name: 'Moving Activity',
+      itemTypeId: 3,
+      parentId: childPlanItemId,
+    });
+    const grandchild = (await grandchildResponse.json()).data;
+    assertEqual(grandchild.depth, 2, 'Activity should start at depth 2');
+
+    const response = await post(`/plan-items/${childPlanItemId}/move`, adminUser, {
+      parentId: designItemId,
+      changeReason: 'Re-scoped under design',
+    });
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertEqual(data.data.parentId, designItemId, 'Parent should change');
+    assertEqual(data.data.path, `/${designItemId}`, 'Path should point at the new parent');
+
+    const movedGrandchild = (await (await get(`/plan-items/${grandchild.id}`, adminUser)).json()).data;
+    assertEqual(movedGrandchild.path, `/${designItemId}/${childPlanItemId}`, 'Descendant path should be rewritten');
+    assertEqual(movedGrandchild.depth, 2, 'Descendant depth should be kept relative to its parent');
+
+    const history = (await (await get(`/plan-items/${childPlanItemId}/history`, adminUser)).json()).data;
+    const entry = history.find((h: any) => h.field === 'parentId');
+    assertExists(entry, 'Parent change should be recorded');
+    assertEqual(entry.oldValue, testPlanItemId, 'Previous parent should be recorded');
+    assertEqual(entry.changeReason, 'Re-scoped under design', 'Change reason should be recorded');
+  });
+
+  await runner.test('POST /api/plan-items/:id/move - Position among siblings renumbers sort order', async () => {
+    if (!designItemId || !buildItemId) throw new Error('Missing test data');
+
+    const response = await post(`/plan-items/${buildItemId}/move`, adminUser, {
+      parentId: null,
+      beforeId: designItemId,
+    });
+    assertEqual(response.status, 200, 'Should return 200 status');
+
+    const build = (await (await get(`/plan-items/${buildItemId}`, adminUser)).json()).data;
+    const design = (await (await get(`/plan-items/${designItemId}`, adminUser)).json()).data;
+    assertTrue(build.sortOrder < design.sortOrder, 'Build should sort before design');
+  });
+
+  await runner.test('POST /api/plan-items/:id/move - Anchor must be a sibling under the new parent', async () => {
+    if (!childPlanItemId || !testPlanItemId || !buildItemId) throw new Error('Missing test data');
+
+    const response = await post(`/plan-items/${childPlanItemId}/move`, adminUser, {
+      parentId: testPlanItemId,
+      afterId: buildItemId,
+    });
+    assertEqual(response.status, 400, 'Should return 400 status');
+
+    // Put the milestone back where the remaining tests expect it
+    const restore = await post(`/plan-items/${childPlanItemId}/move`, adminUser, { parentId: testPlanItemId });
+    assertEqual(restore.status, 200, 'Moving back should succeed');
+  });
+
+  await runner.test('DELETE /api/projects/:id/plan/dependencies/:dependencyId - Delete link', async () => {
+    if (!testProjectId || !dependencyId) throw new Error('No test dependency');
+
+    const response = await del(`/projects/${testProjectId}/plan/dependencies/${dependencyId}`, adminUser);
+    assertEqual(response.status, 200, 'Should return 200 status');
+  });
+
+  // ==================== Baselines & Variance ====================
+
+  await runner.test('POST /api/projects/:id/baselines - Capture baseline', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const response = await post(`/projects/${testProjectId}/baselines`, adminUser, {
+      name: 'Signed-off plan',
+      description: 'Dates agreed with the client',
+    });
+    const data = await response.json();
+
+    assertEqual(response.status, 201, 'Should return 201 status');
+    assertSuccess(data, 'Capture should succeed');
+    assertTrue(data.data.itemCount >= 2, 'Baseline should snapshot every active item');
+    baselineId = data.data.id;
+  });
+
+  await runner.test('POST /api/projects/:id/baselines - Duplicate name should fail', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const response = await post(`/projects/${testProjectId}/baselines`, adminUser, {
+      name: 'Signed-off plan',
+    });
+    const data = await response.json();
+
+    assertEqual(response.status, 409, 'Should return 409 status');
+    assertError(data, 'Should reject duplicate baseline name');
+  });
+
+  await runner.test('GET /api/projects/:id/baselines/:baselineId/variance - Reports slip in days', async () => {
+    if (!testProjectId || !baselineId || !designItemId) throw new Error('Missing test data');
+
+    // Move Design's end date out by three days
+    const itemResponse = await get(`/plan-items/${designItemId}`, adminUser);
+    const item = (await itemResponse.json()).data;
+    const newEnd = new Date(new Date(item.targetEndDate).getTime() + 3 * 24 * 60 * 60 * 1000);
+    await put(`/plan-items/${designItemId}`, adminUser, { targetEndDate: newEnd.toISOString() });
+
+    const response = await get(`/projects/${testProjectId}/baselines/${baselineId}/variance`, adminUser);
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertSuccess(data, 'Response should be successful');
+    assertHasProperty(data.data, 'summary', 'Should include summary');
+
+    const design = data.data.workstreams.find((w: any) => w.planItemId === designItemId);
+    assertExists(design, 'Design workstream should be in the variance');
+    assertEqual(design.endSlipDays, 3, 'Design should have slipped three days');
+    assertEqual(design.change, 'slipped', 'Design should be marked as slipped');
+  });
+
+  await runner.test('GET /api/projects/:id/baselines/:baselineId/compare/:otherId - Compare baselines', async () => {
+    if (!testProjectId || !baselineId || !designItemId) throw new Error('Missing test data');
+
+    const createResponse = await post(`/projects/${testProjectId}/baselines`, adminUser, {
+      name: 'Re-plan',
+    });
+    secondBaselineId = (await createResponse.json()).data.id;
+
+    const response = await get(
+      `/projects/${testProjectId}/baselines/${baselineId}/compare/${secondBaselineId}`,
+      adminUser
+    );
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertEqual(data.data.comparedTo.id, secondBaselineId, 'Should compare against the second baseline');
+    const design = data.data.items.find((i: any) => i.planItemId === designItemId);
+    assertEqual(design.endSlipDays, 3, 'Slip should carry into the later baseline');
+  });
+
+  await runner.test('GET /api/projects/:id/baselines - List baselines', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const response = await get(`/projects/${testProjectId}/baselines`, adminUser);
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertArrayMinLength(data.data, 2, 'Should list both baselines');
+  });
+
+  await runner.test('DELETE /api/projects/:id/baselines/:baselineId - Delete baseline', async () => {
+    if (!testProjectId || !secondBaselineId) throw new Error('No test baseline');
+
+    const response = await del(`/projects/${testProjectId}/baselines/${secondBaselineId}`, adminUser);
+    assertEqual(response.status, 200, 'Should return 200 status');
+
+    const getResponse = await get(`/projects/${testProjectId}/baselines/${secondBaselineId}`, adminUser);
+    assertEqual(getResponse.status, 404, 'Deleted baseline should not be found');
+  });
+
+  // ==================== Plan Templates ====================
+
+  await runner.test('POST /api/projects/:id/plan-templates - Save plan as template', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const response = await post(`/projects/${testProjectId}/plan-templates`, adminUser, {
+      name: uniqueString('template'),
+      description: 'Saved from the plan test project',
+    });
+    const data = await response.json();
+
+    assertEqual(response.status, 201, 'Should return 201 status');
+    assertSuccess(data, 'Save should succeed');
+    assertTrue(data.data.itemCount > 0, 'Template should capture plan items');
+    planTemplateId = data.data.id;
+
+    const duplicate = await post(`/projects/${testProjectId}/plan-templates`, adminUser, { name: data.data.name });
+    assertEqual(duplicate.status, 409, 'Duplicate template name should fail');
+  });
+
+  await runner.test('GET /api/plan-templates/:templateId - Template stores date offsets', async () => {
+    if (!planTemplateId) throw new Error('No plan template');
+
+    const listData = await (await get('/plan-templates', adminUser)).json();
+    assertTrue(listData.data.some((t: any) => t.id === planTemplateId), 'Template should be listed');
+
+    const response = await get(`/plan-templates/${planTemplateId}`, adminUser);
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    const design = data.data.items.find((i: any) => i.name === 'Design');
+    assertExists(design, 'Design workstream should be in the template');
+    assertEqual(design.itemTypeSlug, 'workstream', 'Item type should be stored by slug');
+    assertEqual(design.startOffsetDays, 0, 'Design starts on the project start date');
+    assertEqual(design.endOffsetDays, 10, 'Design ends ten days in');
+    assertTrue(Array.isArray(design.children), 'Items should be nested');
+  });
+
+  await runner.test('POST /api/projects - New project seeded from template with shifted dates', async () => {
+    if (!planTemplateId) throw new Error('No plan template');
+
+    const response = await post('/projects', adminUser, {
+      name: uniqueString('templated'),
+      startDate: '2030-01-01',
+      templateId: planTemplateId,
+    });
+    const data = await response.json();
+    assertSuccess(data, 'Project creation should succeed');
+    templatedProjectId = data.data.id;
+
+    const planData = await (await get(`/projects/${templatedProjectId}/plan`, adminUser)).json();
+    const items = Array.isArray(planData.data) ? planData.data : (planData.data?.items || []);
+    const design = items.find((item: any) => item.name === 'Design');
+    assertExists(design, 'Design should be created from the template');
+    assertTrue(design.startDate.startsWith('2030-01-01'), 'Start date should shift to the new project start');
+    assertTrue(design.targetEndDate.startsWith('2030-01-11'), 'End date should keep its offset');
+    assertEqual(design.status, 'not_started', 'Seeded items should start fresh');
+  });
+
+  await runner.test('POST /api/projects/:id/plan/from-template - Seed existing project from a start date', async () => {
+    if (!planTemplateId || !templatedProjectId) throw new Error('Missing test data');
+
+    const response = await post(`/projects/${templatedProjectId}/plan/from-template`, adminUser, {
+      templateId: planTemplateId,
+      startDate: '2030-03-01',
+    });
+    const data = await response.json();
+
+    assertEqual(response.status, 201, 'Should return 201 status');
+    assertTrue(data.data.created > 0, 'Should create plan items');
+
+    const planData = await (await get(`/projects/${templatedProjectId}/plan`, adminUser)).json();
+    const items = Array.isArray(planData.data) ? planData.data : (planData.data?.items || []);
+    const designs = items.filter((item: any) => item.name === 'Design');
+    assertEqual(designs.length, 2, 'Template items should be appended to the existing plan');
+    assertTrue(
+      designs.some((item: any) => item.startDate.startsWith('2030-03-01')),
+      'Second copy should be dated from the requested start'
+    );
+  });
+
+  await runner.test('DELETE /api/plan-templates/:templateId - Delete template', async () => {
+    if (!planTemplateId) throw new Error('No plan template');
+
+    const response = await del(`/plan-templates/${planTemplateId}`, adminUser);
+    assertEqual(response.status, 200, 'Should return 200 status');
+
+    const getResponse = await get(`/plan-templates/${planTemplateId}`, adminUser);
+    assertEqual(getResponse.status, 404, 'Deleted template should not be found');
+  });
+
+  // ==================== MS Project XML ====================
+
+  const mspdiSample = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Project xmlns="http://schemas.microsoft.com/project">
+  <Title>Client Rollout</Title>
+  <Tasks>
+    <Task><UID>0</UID><ID>0</ID><Name>Client Rollout</Name><OutlineLevel>0</OutlineLevel></Task>
+    <Task><UID>10</UID><ID>1</ID><Name>MSP Rollout</Name><OutlineNumber>1</OutlineNumber><OutlineLevel>1</OutlineLevel><Start>2030-05-01T08:00:00</Start><Finish>2030-05-31T17:00:00</Finish></Task>
+    <Task><UID>11</UID><ID>2</ID><Name>MSP Pilot</Name><OutlineNumber>1.1</OutlineNumber><OutlineLevel>2</OutlineLevel><Start>2030-05-01T08:00:00</Start><Finish>2030-05-10T17:00:00</Finish><PercentComplete>100</PercentComplete></Task>
+    <Task><UID>12</UID><ID>3</ID><Name>MSP Go-live</Name><OutlineNumber>1.2</OutlineNumber><OutlineLevel>2</OutlineLevel><Start>2030-05-13T08:00:00</Start><Finish>2030-05-31T17:00:00</Finish><PercentComplete>25</PercentComplete>
+      <PredecessorLink><PredecessorUID>11</PredecessorUID><Type>1</Type><LinkLag>9600</LinkLag><LagFormat>7</LagFormat></PredecessorLink>
+    </Task>
+  </Tasks>
+  <Resources><Resource><UID>1</UID><ID>1</ID><Name>Dana Client</Name></Resource></Resources>
+  <Assignments><Assignment><UID>1</UID><TaskUID>12</TaskUID><ResourceUID>1</ResourceUID></Assignment></Assignments>
+</Project>`;
+
+  await runner.test('POST /api/projects/:id/plan/import/mspdi/preview - Preview tasks', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const response = await post(`/projects/${testProjectId}/plan/import/mspdi/preview`, adminUser, {
+      xmlContent: mspdiSample,
+    });
+    const data = await response.json();
+
+    assertSuccess(data, 'Preview should succeed');
+    assertEqual(data.data.projectName, 'Client Rollout', 'Should read the project title');
+    assertEqual(data.data.rows.length, 3, 'Project summary task should be skipped');
+    assertEqual(data.data.rows[2].owner, 'Dana Client', 'Owner should come from the resource assignment');
+    assertEqual(data.data.rows[2].predecessors, '2', 'Predecessors should be listed by task ID');
+    assertEqual(data.data.errors.length, 0, 'Should have no errors');
+  });
+
+  await runner.test('POST /api/projects/:id/plan/import/mspdi - Import tasks with links', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const response = await post(`/projects/${testProjectId}/plan/import/mspdi`, adminUser, {
+      xmlContent: mspdiSample,
+    });
+    const data = await response.json();
+
+    assertSuccess(data, 'Import should succeed');
+    assertEqual(data.data.itemsCreated, 3, 'Should create one item per task');
+    assertEqual(data.data.dependenciesCreated, 1, 'Should create the predecessor link');
+
+    const planData = await (await get(`/projects/${testProjectId}/plan`, adminUser)).json();
+    const items = Array.isArray(planData.data) ? planData.data : (planData.data?.items || []);
+    const rollout = items.find((item: any) => item.name === 'MSP Rollout');
+    assertExists(rollout, 'Outline level 1 task should be a top-level item');
+    assertEqual(rollout.itemType.level, 1, 'Outline level should map to the item type level');
+
+    const goLive = rollout.children.find((child: any) => child.name === 'MSP Go-live');
+    assertExists(goLive, 'Outline level 2 task should be nested under its summary task');
+    assertEqual(goLive.owner, 'Dana Client', 'Owner should be set');
+    assertEqual(goLive.status, 'in_progress', 'Partially complete task should be in progress');
+    assertTrue(goLive.targetEndDate.startsWith('2030-05-31'), 'Finish should map to target end date');
+
+    const depsData = await (await get(`/projects/${testProjectId}/plan/dependencies`, adminUser)).json();
+    const link = depsData.data.find((dep: any) => dep.successorId === goLive.id);
+    assertExists(link, 'Dependency should be created');
+    assertEqual(link.type, 'finish_to_start', 'Link type should map');
+    assertEqual(link.lagDays, 2, 'Lag should convert from tenths of minutes to days');
+  });
+
+  await runner.test('GET /api/projects/:id/plan/export/mspdi - Export round-trips without duplicates', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const response = await get(`/projects/${testProjectId}/plan/export/mspdi`, adminUser);
+    assertEqual(response.status, 200, 'Should return 200 status');
+    const xml = await response.text();
+    assertTrue(xml.includes('<Project xmlns="http://schemas.microsoft.com/project">'), 'Should be an MSPDI document');
+    assertTrue(xml.includes('<Name>MSP Go-live</Name>'), 'Should include plan items as tasks');
+    assertTrue(xml.includes('<PredecessorUID>'), 'Should include predecessor links');
+
+    const reimport = await post(`/projects/${testProjectId}/plan/import/mspdi`, adminUser, { xmlContent: xml });
+    const data = await reimport.json();
+    assertSuccess(data, 'Re-import should succeed');
+    assertEqual(data.data.itemsCreated, 0, 'Exported tasks should match existing items by GUID');
+    assertEqual(data.data.dependenciesCreated, 0, 'Existing links should not be duplicated');
+  });
+
+  // ==================== Excel ====================
+
+  await runner.test('GET /api/projects/:id/plan/export/xlsx - Export re-imports without duplicates', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const response = await get(`/projects/${testProjectId}/plan/export/xlsx`, adminUser);
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertTrue(
+      (response.headers.get('content-type') || '').includes('spreadsheetml'),
+      'Should return an XLSX workbook'
+    );
+    const workbook = await response.blob();
+    assertTrue(workbook.size > 0, 'Workbook should not be empty');
+
+    const previewResponse = await postFile(
+      `/projects/${testProjectId}/plan/import/preview`,
+      adminUser,
+      workbook,
+      'plan.xlsx'
+    );
+    const preview = await previewResponse.json();
+    assertSuccess(preview, 'XLSX preview should succeed');
+    assertEqual(preview.data.sheets[0].layout, 'columns', 'Export should use the hierarchy column layout');
+    assertTrue(preview.data.headers.includes('workstream'), 'Headers should be normalized to import columns');
+
+    const importResponse = await postFile(`/projects/${testProjectId}/plan/import`, adminUser, workbook, 'plan.xlsx');
+    const data = await importResponse.json();
+    assertSuccess(data, 'XLSX import should succeed');
+    assertEqual(data.data.itemsCreated, 0, 'Existing items should be matched by name under the same parent');
+  });
+
+  // ==================== Custom Fields ====================
+
+  let budgetFieldId: number | null = null;
+  const budgetKey = uniqueString('budget').toLowerCase();
+  let customFieldItemId: string | null = null;
+
+  await runner.test('POST /api/projects/:id/plan - Custom field values are validated and stored', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const fieldResponse = await post('/config/custom-fields', adminUser, {
+      key: budgetKey,
+      label: 'Budget',
+      fieldType: 'number',
+    });
+    const field = await fieldResponse.json();
+    assertSuccess(field, 'Custom field should be created');
+    budgetFieldId = field.data.id;
+
+    const invalid = await post(`/projects/${testProjectId}/plan`, adminUser, {
+      name: 'CF Invalid',
+      itemTypeId: 1,
+      customFields: { [budgetKey]: 'lots' },
+    });
+    assertEqual(invalid.status, 400, 'Non-numeric value should be rejected');
+
+    const response = await post(`/projects/${testProjectId}/plan`, adminUser, {
+      name: uniqueString('CF Workstream'),
+      itemTypeId: 1,
+      customFields: { [budgetKey]: '12.5' },
+    });
+    const data = await response.json();
+    assertSuccess(data, 'Create should succeed');
+    assertEqual(data.data.customFields[budgetKey], 12.5, 'Number should be stored as a number');
+    customFieldItemId = data.data.id;
+  });
+
+  await runner.test('PUT /api/plan-items/:id - Custom field changes are recorded in history', async () => {
+    if (!customFieldItemId) throw new Error('No custom field item');
+
+    const response = await put(`/plan-items/${customFieldItemId}`, adminUser, {
+      customFields: { [budgetKey]: 20 },
+    });
+    const data = await response.json();
+    assertSuccess(data, 'Update should succeed');
+    assertEqual(data.data.customFields[budgetKey], 20, 'Value should be updated');
+
+    const history = (await (await get(`/plan-items/${customFieldItemId}/history`, adminUser)).json()).data;
+    const entry = history.find((h: any) => h.field === `customFields.${budgetKey}`);
+    assertExists(entry, 'Should record a history entry for the custom field');
+    assertEqual(entry.oldValue, '12.5', 'Old value should be recorded');
+  });
+
+  await runner.test('GET /api/projects/:id/plan/export/csv - Custom fields round-trip through CSV', async () => {
+    if (!testProjectId || !customFieldItemId) throw new Error('No custom field item');
+
+    const response = await get(`/projects/${testProjectId}/plan/export/csv`, adminUser);
+    assertEqual(response.status, 200, 'Should return 200 status');
+    const csv = await response.text();
+    const [header, ...lines] = csv.split('\n');
+    const column = header.split(',').indexOf(budgetKey);
+    assertTrue(column >= 0, 'Should include a column per custom field');
+
+    const line = lines.find(l => l.includes('CF Workstream'));
+    assertExists(line, 'Item should be exported');
+    const cells = line!.split(',');
+    assertEqual(cells[column], '20', 'Item row should carry its custom field value');
+
+    cells[column] = '35';
+    const edited = [header, cells.join(',')].join('\n');
+    const importResponse = await postFile(
+      `/projects/${testProjectId}/plan/import`,
+      adminUser,
+      new Blob([edited], { type: 'text/csv' }),
+      'plan.csv'
+    );
+    const result = await importResponse.json();
+    assertSuccess(result, 'CSV import should succeed');
+    assertEqual(result.data.itemsCreated, 0, 'Exported rows should match existing items');
+
+    const item = (await (await get(`/plan-items/${customFieldItemId}`, adminUser)).json()).data;
+    assertEqual(item.customFields[budgetKey], 35, 'Imported column should update the custom field');
+
+    const history = (await (await get(`/plan-items/${customFieldItemId}/history`, adminUser)).json()).data;
+    const entry = history.find((h: any) => h.field === `customFields.${budgetKey}` && h.newValue === '35');
+    assertExists(entry, 'Imported change should be recorded in history');
+    assertEqual(entry.changeReason, 'Imported from plan file', 'Import should be given as the reason');
+  });
+
+  await runner.test('POST /api/projects/:id/plan - Required custom fields must be set', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const fieldResponse = await post('/config/custom-fields', adminUser, {
+      key: uniqueString('gate').toLowerCase(),
+      label: 'Phase gate',
+      fieldType: 'select',
+      options: ['G1', 'G2'],
+      required: true,
+    });
+    const field = await fieldResponse.json();
+    assertSuccess(field, 'Required field should be created');
+
+    try {
+      const response = await post(`/projects/${testProjectId}/plan`, adminUser, {
+        name: 'CF Missing Required',
+        itemTypeId: 1,
+      });
+      assertEqual(response.status, 400, 'Create without the required field should be rejected');
+    } finally {
+      await del(`/config/custom-fields/${field.data.id}`, adminUser);
+    }
+
+    if (budgetFieldId) {
+      await del(`/config/custom-fields/${budgetFieldId}`, adminUser);
+    }
+  });
+
+  // ==================== Status Workflows ====================
+
+  let workflowTypeId: number | null = null;
+  let workflowItemId: string | null = null;
+
+  await runner.test('POST /api/projects/:id/plan - New items start in the workflow initial status', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const typeResponse = await post('/config/plan-item-types', adminUser, {
+      name: uniqueString('Review Task'),
+      slug: uniqueString('review_task').toLowerCase(),
+      level: 3,
+    });
+    const type = await typeResponse.json();
+    assertSuccess(type, 'Plan item type should be created');
+    workflowTypeId = type.data.id;
+
+    const workflowResponse = await put(`/config/status-workflows/${workflowTypeId}`, adminUser, {
+      statuses: [
+        { key: 'todo', label: 'To Do', category: 'not_started' },
+        { key: 'doing', label: 'Doing', category: 'in_progress' },
+        { key: 'in_review', label: 'In Review', category: 'in_progress' },
+        { key: 'done', label: 'Done', category: 'completed' },
+        { key: 'parked', label: 'Parked', category: 'on_hold' },
+      ],
+      transitions: [
+        { from: 'todo', to: 'doing' },
+        { from: 'doing', to: 'in_review' },
+        { from: 'in_review', to: 'done', requiredFields: ['actualEndDate'] },
+        { from: 'doing', to: 'parked', requireReason: true },
+      ],
+      initialStatus: 'todo',
+    });
+    assertSuccess(await workflowResponse.json(), 'Workflow should be saved');
+
+    const response = await post(`/projects/${testProjectId}/plan`, adminUser, {
+      name: uniqueString('Workflow Item'),
+      itemTypeId: workflowTypeId,
+    });
+    const data = await response.json();
+    assertSuccess(data, 'Create should succeed');
+    assertEqual(data.data.workflowStatus, 'todo', 'Should start in the initial status');
+    assertEqual(data.data.status, 'not_started', 'Status should hold the category');
+    workflowItemId = data.data.id;
+  });
+
+  await runner.test('PUT /api/plan-items/:id - Workflow transitions are enforced', async () => {
+    if (!workflowItemId) throw new Error('No workflow item');
+
+    const skip = await put(`/plan-items/${workflowItemId}`, adminUser, { status: 'done' });
+    assertEqual(skip.status, 400, 'Moving to a status without a transition should be rejected');
+
+    const start = await (await put(`/plan-items/${workflowItemId}`, adminUser, { status: 'in_progress' })).json();
+    assertSuccess(start, 'Built-in status should map to the reachable workflow status');
+    assertEqual(start.data.workflowStatus, 'doing', 'Should move to Doing');
+
+    const park = await put(`/plan-items/${workflowItemId}`, adminUser, { status: 'parked' });
+    assertEqual(park.status, 400, 'Transition requiring a reason should be rejected without one');
+
+    const transitions = (await (await get(`/plan-items/${workflowItemId}/transitions`, adminUser)).json()).data;
+    assertTrue(transitions.hasWorkflow, 'Should report the workflow');
+    assertEqual(transitions.current.key, 'doing', 'Should report the current status');
+    const keys = transitions.options.map((o: any) => o.key).sort();
+    assertEqual(keys.join(','), 'in_review,parked', 'Should only offer the allowed next statuses');
+    assertTrue(transitions.options.find((o: any) => o.key === 'parked').requireReason, 'Should flag required reasons');
+  });
+
+  await runner.test('POST /api/projects/:id/plan/from-template - Seeded items start in the workflow initial status', async () => {
+    if (!testProjectId || !templatedProjectId || !workflowItemId) throw new Error('Missing test data');
+
+    const workflowItem = (await (await get(`/plan-items/${workflowItemId}`, adminUser)).json()).data;
+    const template = (await (await post(`/projects/${testProjectId}/plan-templates`, adminUser, {
+      name: uniqueString('workflow template'),
+    })).json()).data;
+
+    const response = await post(`/projects/${templatedProjectId}/plan/from-template`, adminUser, {
+      templateId: template.id,
+    });
+    assertEqual(response.status, 201, 'Should return 201 status');
+
+    const planData = await (await get(`/projects/${templatedProjectId}/plan`, adminUser)).json();
+    const items = Array.isArray(planData.data) ? planData.data : (planData.data?.items || []);
+    const seeded = items.find((item: any) => item.name === workflowItem.name);
+    assertExists(seeded, 'Workflow item should be seeded from the template');
+    assertEqual(seeded.workflowStatus, 'todo', 'Should start in the initial status');
+    assertEqual(seeded.status, 'not_started', 'Status should hold the category');
+
+    await del(`/plan-templates/${template.id}`, adminUser);
+  });
+
+  await runner.test('PUT /api/plan-items/:id - Auto roll-up follows the parent workflow', async () => {
+    if (!testProjectId || !workflowTypeId) throw new Error('Missing test data');
+
+    const parent = (await (await post(`/projects/${testProjectId}/plan`, adminUser, {
+      name: uniqueString('Workflow Parent'),
+      itemTypeId: workflowTypeId,
+    })).json()).data;
+    const child = (await (await post(`/projects/${testProjectId}/plan`, adminUser, {
+      name: 'Workflow child task',
+      itemTypeId: 4,
+      parentId: parent.id,
+    })).json()).data;
+    await put(`/projects/${testProjectId}`, adminUser, { autoRollupStatus: true });
+
+    await put(`/plan-items/${child.id}`, adminUser, { status: 'in_progress' });
+    const started = (await (await get(`/plan-items/${parent.id}`, adminUser)).json()).data;
+    assertEqual(started.workflowStatus, 'doing', 'Parent should move to the reachable workflow status');
+    const history = (await (await get(`/plan-items/${parent.id}/history`, adminUser)).json()).data;
+    assertTrue(
+      history.some((h: any) => h.field === 'workflowStatus' && h.oldValue === 'todo' && h.newValue === 'doing'),
+      'Workflow status change should be recorded'
+    );
+
+    await put(`/plan-items/${child.id}`, adminUser, { status: 'completed' });
+    const finished = (await (await get(`/plan-items/${parent.id}`, adminUser)).json()).data;
+    assertEqual(finished.workflowStatus, 'doing', 'Parent should not skip the review step');
+    assertEqual(finished.status, 'in_progress', 'Parent status should stay in its workflow status category');
+
+    await put(`/projects/${testProjectId}`, adminUser, { autoRollupStatus: false });
+    await del(`/plan-items/${parent.id}`, adminUser);
+  });
+
+  await runner.test('POST /api/projects/:id/plan/import - Imported statuses follow the workflow', async () => {
+    if (!testProjectId || !workflowItemId) throw new Error('No workflow item');
+
+    const item = (await (await get(`/plan-items/${workflowItemId}`, adminUser)).json()).data;
+    const response = await postFile(
+      `/projects/${testProjectId}/plan/import`,
+      adminUser,
+      new Blob([`workstream,status\n"${item.name}",Completed`], { type: 'text/csv' }),
+      'plan.csv'
+    );
+    const result = await response.json();
+    assertSuccess(result, 'CSV import should succeed');
+    assertTrue(
+      result.data.errors.some((e: any) => e.error.includes('Cannot move from Doing to Done')),
+      'Disallowed move should be reported for the row'
+    );
+
+    const after = (await (await get(`/plan-items/${workflowItemId}`, adminUser)).json()).data;
+    assertEqual(after.workflowStatus, 'doing', 'Item should keep its workflow status');
+  });
+
+  await runner.test('PUT /api/plan-items/:id - Transition required fields must be filled in', async () => {
+    if (!workflowItemId) throw new Error('No workflow item');
+
+    await put(`/plan-items/${workflowItemId}`, adminUser, { status: 'in_review' });
+
+    const missing = await put(`/plan-items/${workflowItemId}`, adminUser, { status: 'done' });
+    assertEqual(missing.status, 400, 'Completing without an actual end date should be rejected');
+
+    const done = await (await put(`/plan-items/${workflowItemId}`, adminUser, {
+      status: 'done',
+      actualEndDate: '2026-03-01',
+    })).json();
+    assertSuccess(done, 'Completing with the required field should succeed');
+    assertEqual(done.data.status, 'completed', 'Status should hold the category');
+
+    const history = (await (await get(`/plan-items/${workflowItemId}/history`, adminUser)).json()).data;
+    const entry = history.find((h: any) => h.field === 'workflowStatus' && h.newValue === 'done');
+    assertExists(entry, 'Should record the workflow status change');
+    assertEqual(entry.oldValue, 'in_review', 'Should record the previous workflow status');
+
+    await del(`/config/status-workflows/${workflowTypeId}`, adminUser);
+  });
+
+  // ==================== History Revert ====================
+
+  let revertItemId: string | null = null;
+
+  await runner.test('POST /api/plan-items/:id/history/:historyId/revert - Revert a single change', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const created = await (await post(`/projects/${testProjectId}/plan`, adminUser, {
+      name: uniqueString('Revert Item'),
+      itemTypeId: 1,
+      owner: 'alice@example.com',
+    })).json();
+    assertSuccess(created, 'Create should succeed');
+    revertItemId = created.data.id;
+
+    await put(`/plan-items/${revertItemId}`, adminUser, { owner: 'bob@example.com' });
+    const history = (await (await get(`/plan-items/${revertItemId}/history`, adminUser)).json()).data;
+    const entry = history.find((h: any) => h.field === 'owner');
+    assertExists(entry, 'Owner change should be recorded');
+
+    const response = await post(`/plan-items/${revertItemId}/history/${entry.id}/revert`, adminUser, {});
+    const data = await response.json();
+    assertSuccess(data, 'Revert should succeed');
+    assertEqual(data.data.changes.length, 1, 'Should revert one field');
+    assertExists(data.data.batchId, 'Revert should be recorded as a batch');
+
+    const item = (await (await get(`/plan-items/${revertItemId}`, adminUser)).json()).data;
+    assertEqual(item.owner, 'alice@example.com', 'Owner should be restored');
+
+    const after = (await (await get(`/plan-items/${revertItemId}/history`, adminUser)).json()).data;
+    const revertEntry = after.find((h: any) => h.batchId === data.data.batchId);
+    assertExists(revertEntry, 'Revert should write a history entry');
+    assertEqual(revertEntry.newValue, 'alice@example.com', 'History should record the restored value');
+  });
+
+  await runner.test('POST /api/plan-items/:id/history/:historyId/revert - Later edits are kept unless forced', async () => {
+    if (!revertItemId) throw new Error('No revert item');
+
+    await put(`/plan-items/${revertItemId}`, adminUser, { effort: 5 });
+    await put(`/plan-items/${revertItemId}`, adminUser, { effort: 8 });
+    const history = (await (await get(`/plan-items/${revertItemId}/history`, adminUser)).json()).data;
+    const first = history.filter((h: any) => h.field === 'effort').pop();
+    assertExists(first, 'First effort change should be recorded');
+
+    const preview = (await (await post(`/plan-items/${revertItemId}/history/${first.id}/revert`, adminUser, {
+      preview: true,
+    })).json()).data;
+    assertTrue(preview.preview, 'Should be a preview');
+    assertTrue(preview.changes[0].conflict, 'Should flag the later edit as a conflict');
+
+    const kept = (await (await post(`/plan-items/${revertItemId}/history/${first.id}/revert`, adminUser, {})).json()).data;
+    assertEqual(kept.changes.length, 0, 'Conflicting change should not be reverted');
+    assertEqual(kept.skipped.length, 1, 'Conflicting change should be reported as skipped');
+
+    const forced = await (await post(`/plan-items/${revertItemId}/history/${first.id}/revert`, adminUser, {
+      force: true,
+    })).json();
+    assertSuccess(forced, 'Forced revert should succeed');
+    const item = (await (await get(`/plan-items/${revertItemId}`, adminUser)).json()).data;
+    assertEqual(item.effort, null, 'Effort should be back to empty');
+  });
+
+  await runner.test('POST /api/plan-items/:id/history/:historyId/revert - Reverting a delete restores the subtree', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const parent = (await (await post(`/projects/${testProjectId}/plan`, adminUser, {
+      name: uniqueString('Revert Parent'),
+      itemTypeId: 1,
+    })).json()).data;
+    const child = (await (await post(`/projects/${testProjectId}/plan`, adminUser, {
+      name: uniqueString('Revert Child'),
+      itemTypeId: 1,
+      parentId: parent.id,
+    })).json()).data;
+
+    await del(`/plan-items/${parent.id}`, adminUser);
+    const history = (await (await get(`/plan-items/${parent.id}/history`, adminUser)).json()).data;
+    const entry = history.find((h: any) => h.field === 'isActive' && h.newValue === 'false');
+    assertExists(entry, 'Delete should be recorded');
+    assertExists(entry.batchId, 'Delete should be recorded as a batch');
+
+    const data = await (await post(`/plan-items/${parent.id}/history/${entry.id}/revert`, adminUser, {})).json();
+    assertSuccess(data, 'Revert should succeed');
+    assertEqual(data.data.changes.length, 2, 'Parent and child should both be restored');
+
+    const restored = await get(`/plan-items/${child.id}`, adminUser);
+    assertEqual(restored.status, 200, 'Child should be active again');
+  });
+
+  await runner.test('POST /api/projects/:id/plan/history/batches/:batchId/revert - Undo applied plan updates', async () => {
+    if (!testProjectId || !revertItemId) throw new Error('No revert item');
+
+    const applied = await (await post(`/projects/${testProjectId}/plan-updates`, adminUser, {
+      updates: [
+        { planItemId: revertItemId, field: 'targetEndDate', value: '2026-09-30', reason: 'Slipped' },
+        { planItemId: revertItemId, field: 'notes', value: 'Vendor late', reason: 'Status call' },
+      ],
+    })).json();
+    assertSuccess(applied, 'Apply should succeed');
+    assertExists(applied.data.batchId, 'Apply should return its batch ID');
+
+    const feed = (await (await get(
+      `/projects/${testProjectId}/plan/history?batchId=${applied.data.batchId}`,
+      adminUser
+    )).json()).data;
+    assertEqual(feed.length, 2, 'Project history should list the batch entries');
+    assertEqual(feed[0].planItem.id, revertItemId, 'Entries should include their plan item');
+
+    const response = await post(
+      `/projects/${testProjectId}/plan/history/batches/${applied.data.batchId}/revert`,
+      adminUser,
+      {}
+    );
+    const data = await response.json();
+    assertSuccess(data, 'Batch revert should succeed');
+    assertEqual(data.data.changes.length, 2, 'Both fields should be reverted');
+
+    const item = (await (await get(`/plan-items/${revertItemId}`, adminUser)).json()).data;
+    assertEqual(item.targetEndDate, null, 'Target end date should be restored');
+    assertEqual(item.notes, null, 'Appended notes should be removed');
+
+    const missing = await post(
+      `/projects/${testProjectId}/plan/history/batches/00000000-0000-4000-8000-000000000000/revert`,
+      adminUser,
+      {}
+    );
+    assertEqual(missing.status, 404, 'Unknown batch should return 404');
+  });
+
+  await runner.test('POST /api/projects/:id/plan/revert - Roll the plan back to a point in time', async () => {
+    if (!testProjectId || !revertItemId) throw new Error('No revert item');
+
+    const before = (await (await get(`/plan-items/${revertItemId}`, adminUser)).json()).data;
+    await new Promise(resolve => setTimeout(resolve, 1100));
+    const at = new Date().toISOString();
+    await new Promise(resolve => setTimeout(resolve, 1100));
+
+    await put(`/plan-items/${revertItemId}`, adminUser, { name: uniqueString('Renamed') });
+    const added = await (await post(`/projects/${testProjectId}/plan`, adminUser, {
+      name: uniqueString('Added Later'),
+      itemTypeId: 1,
+    })).json();
+    await del(`/plan-items/${revertItemId}`, adminUser);
+
+    const preview = (await (await post(`/projects/${testProjectId}/plan/revert`, adminUser, {
+      at,
+      preview: true,
+    })).json()).data;
+    assertTrue(preview.changes.length >= 3, 'Preview should list the rename, the delete and the new item');
+    const stillDeleted = await get(`/plan-items/${revertItemId}`, adminUser);
+    assertTrue(stillDeleted.status === 404 || stillDeleted.status === 400, 'Preview should not write anything');
+
+    const data = await (await post(`/projects/${testProjectId}/plan/revert`, adminUser, { at })).json();
+    assertSuccess(data, 'Revert should succeed');
+
+    const item = (await (await get(`/plan-items/${revertItemId}`, adminUser)).json()).data;
+    assertEqual(item.name, before.name, 'Deleted item should be restored with its old name');
+    const newItem = await get(`/plan-items/${added.data.id}`, adminUser);
+    assertTrue(newItem.status === 404 || newItem.status === 400, 'Item created since should be removed');
+
+    const future = await post(`/projects/${testProjectId}/plan/revert`, adminUser, {
+      at: new Date(Date.now() + 86400000).toISOString(),
+    });
+    assertEqual(future.status, 400, 'Reverting to the future should be rejected');
+  });
+
+  // ==================== Plan Diff ====================
+
+  await runner.test('GET /api/projects/:id/plan/diff - Changes between two points in time by workstream', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const workstream = await (await post(`/projects/${testProjectId}/plan`, adminUser, {
+      name: uniqueString('Diff Workstream'),
+      itemTypeId: 1,
+      targetEndDate: '2026-06-01',
+    })).json();
+    assertSuccess(workstream, 'Workstream should be created');
+
+    await new Promise(resolve => setTimeout(resolve, 1100));
+    const from = new Date().toISOString();
+    await new Promise(resolve => setTimeout(resolve, 1100));
+
+    await put(`/plan-items/${workstream.data.id}`, adminUser, { targetEndDate: '2026-06-15' });
+    const child = await (await post(`/projects/${testProjectId}/plan`, adminUser, {
+      name: uniqueString('Diff Milestone'),
+      itemTypeId: 2,
+      parentId: workstream.data.id,
+    })).json();
+    assertSuccess(child, 'Child should be created');
+
+    const response = await get(`/projects/${testProjectId}/plan/diff?from=${encodeURIComponent(from)}`, adminUser);
+    const data = await response.json();
+    assertSuccess(data, 'Diff should succeed');
+
+    const group = data.data.workstreams.find((w: any) => w.workstreamId === workstream.data.id);
+    assertExists(group, 'Changes should be grouped under the workstream');
+    const redated = group.items.find((i: any) => i.planItemId === workstream.data.id);
+    assertTrue(redated.changes.includes('redated'), 'Workstream should be re-dated');
+    assertEqual(redated.endShiftDays, 14, 'Should report how far the end date moved');
+    const added = group.items.find((i: any) => i.planItemId === child.data.id);
+    assertTrue(added.changes.includes('added'), 'New child should be added');
+    assertTrue(data.data.summary.added >= 1, 'Summary should count added items');
+
+    const before = await get(`/projects/${testProjectId}/plan/diff?from=${encodeURIComponent(from)}&to=${encodeURIComponent(from)}`, adminUser);
+    assertEqual(before.status, 400, '"from" must be before "to"');
+  });
+
+  // ==================== Comments ====================
+
+  let commentId: number | null = null;
+
+  await runner.test('POST /api/comments - Comment on a plan item with an @mention', async () => {
+    if (!testPlanItemId) throw new Error('No test plan item');
+
+    const handle = adminUser.email.split('@')[0];
+    const response = await post('/comments', adminUser, {
+      entityType: 'plan_item',
+      entityId: testPlanItemId,
+      body: `@${handle} can you confirm the end date?`,
+    });
+    const data = await response.json();
+
+    assertEqual(response.status, 201, 'Should return 201 status');
+    assertSuccess(data, 'Comment should be created');
+    assertTrue(
+      data.data.mentions.some((u: any) => u.email === adminUser.email),
+      'Mention should resolve by the part of the email before the @'
+    );
+    commentId = data.data.id;
+
+    const missing = await post('/comments', adminUser, {
+      entityType: 'plan_item',
+      entityId: '00000000-0000-0000-0000-000000000000',
+      body: 'Nobody home',
+    });
+    assertEqual(missing.status, 404, 'Commenting on a missing item should return 404');
+  });
+
+  await runner.test('POST /api/comments - Replies to replies join the same thread', async () => {
+    if (!testPlanItemId || !commentId) throw new Error('No comment');
+
+    const reply = await (await post('/comments', adminUser, {
+      entityType: 'plan_item',
+      entityId: testPlanItemId,
+      body: 'Confirmed for mid June',
+      parentId: commentId,
+    })).json();
+    assertSuccess(reply, 'Reply should be created');
+    assertEqual(reply.data.parentId, commentId, 'Reply should hang off the comment');
+
+    const nested = await (await post('/comments', adminUser, {
+      entityType: 'plan_item',
+      entityId: testPlanItemId,
+      body: 'Thanks',
+      parentId: reply.data.id,
+    })).json();
+    assertSuccess(nested, 'Reply to a reply should be created');
+    assertEqual(nested.data.parentId, commentId, 'Threads should be one level deep');
+
+    const response = await get(`/comments?entityType=plan_item&entityId=${testPlanItemId}`, adminUser);
+    const data = await response.json();
+    assertSuccess(data, 'Thread should be listed');
+    const thread = data.data.comments.find((c: any) => c.id === commentId);
+    assertExists(thread, 'Comment should be in the thread');
+    assertEqual(thread.replies.length, 2, 'Both replies should be nested under the comment');
+  });
+
+  await runner.test('PUT /api/comments/:id - Edit own comment', async () => {
+    if (!commentId) throw new Error('No comment');
+
+    const response = await put(`/comments/${commentId}`, adminUser, { body: 'Can someone confirm the end date?' });
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertSuccess(data, 'Edit should succeed');
+    assertExists(data.data.editedAt, 'Should record when it was edited');
+    assertEqual(data.data.mentions.length, 0, 'Mentions should follow the edited text');
+  });
+
+  await runner.test('GET /api/projects/:id/comments/unread - Own comments are never unread', async () => {
+    if (!testProjectId || !testPlanItemId) throw new Error('No test plan item');
+
+    const response = await get(`/projects/${testProjectId}/comments/unread`, adminUser);
+    const data = await response.json();
+
+    assertSuccess(data, 'Counts should be returned');
+    const count = data.data.find((c: any) => c.entityType === 'plan_item' && c.entityId === testPlanItemId);
+    assertExists(count, 'Commented plan item should have a count');
+    assertEqual(count.total, 3, 'Should count the comment and its replies');
+    assertEqual(count.unread, 0, 'Comments by the current user should not be unread');
+
+    const read = await post('/comments/read', adminUser, { entityType: 'plan_item', entityId: testPlanItemId });
+    assertEqual(read.status, 200, 'Marking the thread read should succeed');
+  });
+
+  await runner.test('DELETE /api/comments/:id - Deleted comment stays as a placeholder for its replies', async () => {
+    if (!testPlanItemId || !commentId) throw new Error('No comment');
+
+    const response = await del(`/comments/${commentId}`, adminUser);
+    assertEqual(response.status, 200, 'Should return 200 status');
+
+    const thread = await (await get(`/comments?entityType=plan_item&entityId=${testPlanItemId}`, adminUser)).json();
+    const deleted = thread.data.comments.find((c: any) => c.id === commentId);
+    assertExists(deleted, 'Comment with replies should stay in the thread');
+    assertTrue(deleted.isDeleted, 'Comment should be marked deleted');
+    assertEqual(deleted.body, null, 'Deleted text should be hidden');
+
+    const again = await put(`/comments/${commentId}`, adminUser, { body: 'Too late' });
+    assertEqual(again.status, 404, 'Deleted comments cannot be edited');
+  });
+
+  // ==================== Evidence Links ====================
+
+  let evidenceContentId: string | null = null;
+
+  await runner.test('POST /api/content-items - Linked plan items show the content as evidence', async () => {
+    if (!testProjectId || !testPlanItemId) throw new Error('No test plan item');
+
+    const created = await (await post('/content-items', adminUser, {
+      projectId: testProjectId,
+      planItemIds: [testPlanItemId],
+      sourceType: 'text',
+      title: 'Steering committee notes',
+      rawContent: 'Agreed to move the launch by two weeks',
+      dateOccurred: new Date().toISOString().split('T')[0],
+    })).json();
+    assertSuccess(created, 'Content should be created');
+    assertEqual(created.data.planItemIds.length, 1, 'Content should list the linked plan item');
+    evidenceContentId = created.data.id;
+
+    const response = await get(`/plan-items/${testPlanItemId}/evidence`, adminUser);
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertSuccess(data, 'Evidence should be returned');
+    const linked = data.data.contentItems.find((c: any) => c.id === evidenceContentId);
+    assertExists(linked, 'Content should be listed as evidence');
+    assertEqual(linked.linkSource, 'manual', 'Link should be recorded as manual');
+    assertExists(linked.dateOccurred, 'Evidence should carry its date');
+    assertTrue(Array.isArray(data.data.reports), 'Reports should be listed');
+  });
+
+  await runner.test('POST /api/plan-items/:id/evidence - Link content from the plan item side', async () => {
+    if (!childPlanItemId || !evidenceContentId) throw new Error('No evidence content');
+
+    const response = await post(`/plan-items/${childPlanItemId}/evidence`, adminUser, { contentItemId: evidenceContentId });
+    const data = await response.json();
+
+    assertEqual(response.status, 201, 'Should return 201 status');
+    assertSuccess(data, 'Link should be created');
+
+    const again = await post(`/plan-items/${childPlanItemId}/evidence`, adminUser, { contentItemId: evidenceContentId });
+    assertEqual(again.status, 201, 'Linking twice should be a no-op');
+
+    const content = await (await get(`/content-items/${evidenceContentId}`, adminUser)).json();
+    assertEqual(content.data.planItemIds.length, 2, 'Content should see the new link');
+
+    const missing = await post(`/plan-items/${childPlanItemId}/evidence`, adminUser, {
+      contentItemId: '00000000-0000-0000-0000-000000000000',
+    });
+    assertEqual(missing.status, 400, 'Linking content outside the project should return 400');
+  });
+
+  await runner.test('GET /api/content-items/:id/plan-items - Linked plan items in plan order', async () => {
+    if (!evidenceContentId) throw new Error('No evidence content');
+
+    const response = await get(`/content-items/${evidenceContentId}/plan-items`, adminUser);
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertSuccess(data, 'Linked plan items should be returned');
+    assertEqual(data.data.length, 2, 'Both linked plan items should be listed');
+    assertEqual(data.data[0].id, testPlanItemId, 'Parent should come before its child');
+    assertExists(data.data[0].itemType, 'Plan item type should be included');
+  });
+
+  await runner.test('DELETE /api/plan-items/:id/evidence/:contentItemId - Unlink from either side', async () => {
+    if (!testPlanItemId || !childPlanItemId || !evidenceContentId) throw new Error('No evidence content');
+
+    const response = await del(`/plan-items/${childPlanItemId}/evidence/${evidenceContentId}`, adminUser);
+    assertEqual(response.status, 200, 'Should return 200 status');
+
+    const again = await del(`/plan-items/${childPlanItemId}/evidence/${evidenceContentId}`, adminUser);
+    assertEqual(again.status, 404, 'Removing a missing link should return 404');
+
+    // Clearing the content's plan items removes the link from the plan item too
+    const updated = await (await put(`/content-items/${evidenceContentId}`, adminUser, { planItemIds: [] })).json();
+    assertSuccess(updated, 'Content update should succeed');
+    assertEqual(updated.data.planItemIds.length, 0, 'Content should have no plan items');
+
+    const evidence = await (await get(`/plan-items/${testPlanItemId}/evidence`, adminUser)).json();
+    assertTrue(
+      !evidence.data.contentItems.some((c: any) => c.id === evidenceContentId),
+      'Plan item should no longer list the content'
+    );
+  });
+
+  await runner.test('PUT /api/plan-items/:id - References replace the linked evidence', async () => {
+    if (!testProjectId || !childPlanItemId || !evidenceContentId) throw new Error('No evidence content');
+
+    const other = await (await post('/content-items', adminUser, {
+      projectId: testProjectId,
+      sourceType: 'text',
+      title: 'Vendor call notes',
+      rawContent: 'Vendor confirmed the delivery window',
+      dateOccurred: new Date().toISOString().split('T')[0],
+    })).json();
+    assertSuccess(other, 'Content should be created');
+
+    const linked = await (await put(`/plan-items/${childPlanItemId}`, adminUser, {
+      references: [evidenceContentId, other.data.id],
+    })).json();
+    assertSuccess(linked, 'Update with references should succeed');
+
+    let evidence = await (await get(`/plan-items/${childPlanItemId}/evidence`, adminUser)).json();
+    let ids = evidence.data.contentItems.map((c: any) => c.id);
+    assertTrue(ids.includes(evidenceContentId) && ids.includes(other.data.id), 'Both references should be listed');
+
+    const replaced = await (await put(`/plan-items/${childPlanItemId}`, adminUser, {
+      references: [other.data.id],
+    })).json();
+    assertSuccess(replaced, 'Replacing references should succeed');
+
+    evidence = await (await get(`/plan-items/${childPlanItemId}/evidence`, adminUser)).json();
+    ids = evidence.data.contentItems.map((c: any) => c.id);
+    assertEqual(ids.length, 1, 'Only the remaining reference should be listed');
+    assertEqual(ids[0], other.data.id, 'The dropped reference should be unlinked');
+
+    await put(`/plan-items/${childPlanItemId}`, adminUser, { references: [] });
+    await del(`/content-items/${other.data.id}`, adminUser);
+  });
+
+  await runner.test('DELETE /api/content-items/:id - Deleted content drops out of evidence', async () => {
+    if (!testPlanItemId || !evidenceContentId) throw new Error('No evidence content');
+
+    await post(`/plan-items/${testPlanItemId}/evidence`, adminUser, { contentItemId: evidenceContentId });
+    const response = await del(`/content-items/${evidenceContentId}`, adminUser);
+    assertEqual(response.status, 200, 'Should return 200 status');
+
+    const evidence = await (await get(`/plan-items/${testPlanItemId}/evidence`, adminUser)).json();
+    assertTrue(
+      !evidence.data.contentItems.some((c: any) => c.id === evidenceContentId),
+      'Deleted content should not be listed as evidence'
+    );
+  });
+
+  // ==================== Assignees & My Work ====================
+
+  let assignedItemId: string | null = null;
+
+  await runner.test('POST /api/projects/:id/plan - Assign an organization member', async () => {
+    if (!testProjectId || !testPlanItemId) throw new Error('No test plan item');
+
+    const response = await post(`/projects/${testProjectId}/plan`, adminUser, {
+      name: 'Sign off test plan',
+      itemTypeId: 2,
+      parentId: testPlanItemId,
+      ownerUserId: adminUser.userId,
+      owner: 'Ignored when a member is assigned',
+      targetEndDate: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+    });
+    const data = await response.json();
+
+    assertEqual(response.status, 201, 'Should return 201 status');
+    assertEqual(data.data.ownerUserId, adminUser.userId, 'Member should be assigned');
+    assertEqual(data.data.ownerUser?.email, adminUser.email, 'Assignee should be included');
+    assertTrue(data.data.owner !== 'Ignored when a member is assigned', 'Owner should be the member name');
+    assignedItemId = data.data.id;
+  });
+
+  await runner.test('PUT /api/plan-items/:id - Assignee must be an organization member', async () => {
+    if (!assignedItemId) throw new Error('No assigned item');
+
+    const response = await put(`/plan-items/${assignedItemId}`, adminUser, { ownerUserId: 999999999 });
+    const data = await response.json();
+
+    assertEqual(response.status, 400, 'Should return 400 status');
+    assertError(data, 'Should reject a non-member');
+  });
+
+  await runner.test('GET /api/projects/:id/plan - Filter by assignee', async () => {
+    if (!testProjectId || !assignedItemId) throw new Error('No assigned item');
+
+    const response = await get(`/projects/${testProjectId}/plan?assigneeId=me`, adminUser);
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertEqual(data.data.total, 1, 'Only the assigned item should match');
+    assertEqual(data.data.items[0]?.id, assignedItemId, 'Item under an unassigned parent is listed at the top');
+
+    const byId = await (await get(`/projects/${testProjectId}/plan?assigneeId=${adminUser.userId}`, adminUser)).json();
+    assertEqual(byId.data.total, 1, 'Filtering by user id should match too');
+  });
+
+  await runner.test('GET /api/my-work - Assigned plan items and owned actions by due date', async () => {
+    if (!testProjectId || !assignedItemId) throw new Error('No assigned item');
+
+    const nextWeek = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const byEmail = await (await post(`/projects/${testProjectId}/raid`, adminUser, {
+      type: 'action',
+      title: 'Circulate sign-off pack',
+      owner: adminUser.email,
+      dueDate: nextWeek,
+    })).json();
+    await post(`/projects/${testProjectId}/stakeholders`, adminUser, {
+      name: uniqueString('Delivery Lead'),
+      aliases: ['DL'],
+      email: adminUser.email,
+      affiliation: 'internal',
+    });
+    const byAlias = await (await post(`/projects/${testProjectId}/raid`, adminUser, {
+      type: 'action',
+      title: 'Book sign-off meeting',
+      owner: 'DL',
+    })).json();
+    const someoneElse = await (await post(`/projects/${testProjectId}/raid`, adminUser, {
+      type: 'action',
+      title: 'Review sign-off pack',
+      owner: 'Client Sponsor',
+    })).json();
+
+    const response = await get(`/my-work?projectId=${testProjectId}`, adminUser);
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertSuccess(data, 'Response should be successful');
+    const ids = data.data.items.map((item: any) => item.id);
+    assertEqual(ids[0], assignedItemId, 'Overdue plan item should come first');
+    assertEqual(ids[1], byEmail.data.id, 'Action due next week should follow');
+    assertEqual(ids[2], byAlias.data.id, 'Undated action owned through a stakeholder alias should be last');
+    assertTrue(!ids.includes(someoneElse.data.id), 'Actions owned by others should be excluded');
+    assertEqual(data.data.items[0].kind, 'plan_item', 'Should flag plan items');
+    assertTrue(data.data.items[0].isOverdue, 'Plan item past its target end should be overdue');
+    assertEqual(data.data.summary.overdue, 1, 'Summary should count overdue work');
+    assertEqual(data.data.summary.noDueDate, 1, 'Summary should count undated work');
+  });
+
+  await runner.test('GET /api/my-work - Unknown project should fail', async () => {
+    const response = await get('/my-work?projectId=00000000-0000-0000-0000-000000000000', adminUser);
+    assertEqual(response.status, 404, 'Should return 404 status');
+  });
+
+  await runner.test('PUT /api/plan-items/:id - Free-text owner replaces the assignee', async () => {
+    if (!testProjectId || !assignedItemId) throw new Error('No assigned item');
+
+    const response = await put(`/plan-items/${assignedItemId}`, adminUser, { owner: 'Client PMO' });
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertEqual(data.data.owner, 'Client PMO', 'Owner should be the free text');
+    assertEqual(data.data.ownerUserId, null, 'Member should be unassigned');
+
+    const history = (await (await get(`/plan-items/${assignedItemId}/history`, adminUser)).json()).data;
+    assertExists(history.find((h: any) => h.field === 'ownerUserId'), 'Unassigning should be recorded');
+
+    const work = await (await get(`/my-work?projectId=${testProjectId}&kind=plan_item`, adminUser)).json();
+    assertEqual(work.data.items.length, 0, 'Item should leave My Work');
+  });
+
   // ==================== CSV Template ====================
 
   await runner.test('GET /api/plan-items/import/template - Get CSV template', async () => {
@@ -294,6 +1735,57 @@ export async function runD3Tests(): Promise<ReturnType<TestRunner['summary']>> {
     assertSuccess(data, 'Delete should succeed');
   });
 
+  // ==================== Trash ====================
+
+  await runner.test('GET /api/projects/:id/trash - Lists separately deleted items on their own', async () => {
+    if (!testProjectId || !testPlanItemId || !childPlanItemId) throw new Error('No deleted plan items');
+
+    const response = await get(`/projects/${testProjectId}/trash`, adminUser);
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertSuccess(data, 'Trash should be listed');
+    assertTrue(typeof data.data.retentionDays === 'number', 'Should report the retention period');
+
+    const parent = data.data.planItems.find((i: any) => i.id === testPlanItemId);
+    assertExists(parent, 'Deleted parent should be in the trash');
+    assertExists(parent.deletedAt, 'Should record when it was deleted');
+    assertExists(parent.purgeAt, 'Should report when it will be purged');
+    assertTrue(
+      data.data.planItems.some((i: any) => i.id === childPlanItemId),
+      'Child deleted before its parent should be listed on its own'
+    );
+  });
+
+  await runner.test('POST /api/plan-items/:id/restore - Child of a deleted parent should conflict', async () => {
+    if (!childPlanItemId) throw new Error('No child plan item');
+
+    const response = await post(`/plan-items/${childPlanItemId}/restore`, adminUser, {});
+    assertEqual(response.status, 409, 'Should return 409 until the parent is restored');
+  });
+
+  await runner.test('POST /api/plan-items/:id/restore - Restore parent, then child', async () => {
+    if (!testPlanItemId || !childPlanItemId) throw new Error('No deleted plan items');
+
+    const response = await post(`/plan-items/${testPlanItemId}/restore`, adminUser, {});
+    const data = await response.json();
+    assertSuccess(data, 'Restore should succeed');
+    assertExists(data.data.batchId, 'Restore should be recorded as a history batch');
+
+    const parent = await get(`/plan-items/${testPlanItemId}`, adminUser);
+    assertEqual(parent.status, 200, 'Parent should be back in the plan');
+
+    // The child was deleted separately, so it stays in the trash until restored itself
+    const stillDeleted = await get(`/plan-items/${childPlanItemId}`, adminUser);
+    assertTrue(stillDeleted.status === 404 || stillDeleted.status === 400, 'Child should still be deleted');
+
+    const child = await (await post(`/plan-items/${childPlanItemId}/restore`, adminUser, {})).json();
+    assertSuccess(child, 'Child restore should succeed once the parent is back');
+
+    const missing = await post(`/plan-items/${childPlanItemId}/restore`, adminUser, {});
+    assertEqual(missing.status, 404, 'Restoring an active item should return 404');
+  });
+
   // ==================== Plan Suggestions (AI) ====================
 
   await runner.test('POST /api/projects/:id/plan-suggestions - Get AI suggestions (may require OpenAI)', async () => {
@@ -323,6 +1815,9 @@ export async function runD3Tests(): Promise<ReturnType<TestRunner['summary']>> {
     if (testProjectId) {
       await cleanup(`/projects/${testProjectId}`, adminUser);
     }
+    if (templatedProjectId) {
+      await cleanup(`/projects/${templatedProjectId}`, adminUser);
+    }
     assertTrue(true, 'Cleanup completed');
   });
 
@@ -6,6 +6,7 @@
 import {
   TestRunner,
   assertEqual,
+  assertDeepEqual,
   assertExists,
   assertTrue,
   assertSuccess,
@@ -20,6 +21,7 @@ import {
   post,
   put,
   del,
+  postFile,
   uniqueString,
   cleanup,
   type TestUser,
@@ -31,6 +33,23 @@ export async function runD4Tests(): Promise<ReturnType<TestRunner['summary']>> {
   let adminUser: TestUser = TEST_ADMIN;
   let testProjectId: string | null = null;
   let testContentId: string | null = null;
+  let stakeholderId: string | null = null;
+  let emailContentId: string | null = null;
+  const kickoffMessageId = `<${uniqueString('kickoff')}@example.com>`;
+  const replyMessageId = `<${uniqueString('reply')}@example.com>`;
+
+  const kickoffEmail = [
+    `Message-ID: ${kickoffMessageId}`,
+    'From: Alice Smith <alice@example.com>',
+    'To: Bob Jones <bob@example.com>',
+    'Cc: carol@example.com',
+    'Date: Mon, 05 Jan 2026 10:00:00 +0000',
+    'Subject: Kickoff planning',
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    'We agreed to start the discovery workshops next Monday.',
+    '',
+  ].join('\r\n');
 
   // Login and create test project
   await runner.test('Setup: Login and create test project', async () => {
@@ -324,6 +343,281 @@ export async function runD4Tests(): Promise<ReturnType<TestRunner['summary']>> {
     }
   });
 
+  // ==================== Stakeholders ====================
+
+  await runner.test('POST /api/projects/:id/stakeholders - Create stakeholder with aliases', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const response = await post(`/projects/${testProjectId}/stakeholders`, adminUser, {
+      name: 'Robert Smith',
+      aliases: ['Bob', 'robert smith'],
+      email: 'rsmith@client.com',
+      role: 'Product Owner',
+      affiliation: 'client',
+    });
+    const data = await response.json();
+
+    assertEqual(response.status, 201, 'Should return 201 status');
+    assertSuccess(data, 'Create should succeed');
+    assertEqual(data.data.reviewStatus, 'accepted', 'Added stakeholders should be accepted');
+    assertEqual(data.data.aliases.length, 1, 'Alias repeating the name should be dropped');
+    stakeholderId = data.data.id;
+  });
+
+  await runner.test('POST /api/projects/:id/stakeholders - Alias of another stakeholder should fail', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const response = await post(`/projects/${testProjectId}/stakeholders`, adminUser, {
+      name: 'Bobby Tables',
+      aliases: ['BOB'],
+    });
+    const data = await response.json();
+
+    assertEqual(response.status, 409, 'Should return 409 status');
+    assertError(data, 'Shared alias should be rejected');
+  });
+
+  await runner.test('POST /api/content-items/save-analyzed - Resolves owners and suggests unknown names', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const response = await post('/content-items/save-analyzed', adminUser, {
+      projectId: testProjectId,
+      title: 'Steering committee notes',
+      sourceType: 'text',
+      rawContent: 'Bob to sign off the budget. rsmith@client.com to share the vendor list. Rob S. to book the venue.',
+      dateOccurred: new Date().toISOString().split('T')[0],
+      extractedItems: [
+        { type: 'action_item', title: 'Sign off the budget', description: 'Budget sign-off', owner: 'Bob' },
+        { type: 'action_item', title: 'Share the vendor list', description: 'Vendor list', owner: 'rsmith@client.com' },
+        { type: 'action_item', title: 'Book the offsite venue', description: 'Venue booking', owner: 'Rob S.' },
+        { type: 'action_item', title: 'Collect team feedback', description: 'Feedback', owner: 'TBD' },
+      ],
+    });
+    const data = await response.json();
+
+    assertEqual(response.status, 201, 'Should return 201 status');
+    assertSuccess(data, 'Save should succeed');
+
+    const raidResponse = await get(`/projects/${testProjectId}/raid?type=action`, adminUser);
+    const raidData = await raidResponse.json();
+    const owners = raidData.data.items.map((item: { owner: string | null }) => item.owner);
+    assertEqual(owners.filter((owner: string | null) => owner === 'Robert Smith').length, 2, 'Alias and email should resolve to the stakeholder');
+    assertTrue(owners.includes('Rob S.'), 'Unknown names should be kept as written');
+
+    const pendingResponse = await get(`/projects/${testProjectId}/stakeholders?review=pending`, adminUser);
+    const pendingData = await pendingResponse.json();
+    const suggested = pendingData.data.items.map((s: { name: string }) => s.name);
+    assertEqual(pendingData.data.pendingCount, 1, 'Only the unknown name should be suggested');
+    assertTrue(suggested.includes('Rob S.'), 'Unknown owner should be suggested');
+    assertTrue(!suggested.includes('TBD'), 'Placeholders should not be suggested');
+  });
+
+  await runner.test('GET /api/projects/:id/stakeholders - Counts open actions per stakeholder', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const response = await get(`/projects/${testProjectId}/stakeholders`, adminUser);
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertEqual(data.data.items.length, 1, 'Suggestions should not be listed in the directory');
+    assertEqual(data.data.items[0].openActionCount, 2, 'Should count actions owned by the stakeholder');
+  });
+
+  await runner.test('POST /api/projects/:id/stakeholders/:stakeholderId/merge - Folds suggestion into stakeholder', async () => {
+    if (!testProjectId || !stakeholderId) throw new Error('No test stakeholder');
+
+    const pendingResponse = await get(`/projects/${testProjectId}/stakeholders?review=pending`, adminUser);
+    const pendingData = await pendingResponse.json();
+    const suggestion = pendingData.data.items.find((s: { name: string }) => s.name === 'Rob S.');
+    const planItem = (await (await post(`/projects/${testProjectId}/plan`, adminUser, {
+      name: 'Venue logistics',
+      itemTypeId: 1,
+      owner: 'rob s.',
+    })).json()).data;
+
+    const response = await post(`/projects/${testProjectId}/stakeholders/${stakeholderId}/merge`, adminUser, {
+      duplicateId: suggestion.id,
+    });
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertTrue(data.data.aliases.includes('Rob S.'), 'Suggestion name should become an alias');
+
+    const raidResponse = await get(`/projects/${testProjectId}/raid?type=action&owner=${encodeURIComponent('Robert Smith')}`, adminUser);
+    const raidData = await raidResponse.json();
+    assertEqual(raidData.data.items.length, 3, 'Actions owned under the suggestion should be renamed');
+
+    const renamedItem = (await (await get(`/plan-items/${planItem.id}`, adminUser)).json()).data;
+    assertEqual(renamedItem.owner, 'Robert Smith', 'Plan items owned under the suggestion should be renamed');
+  });
+
+  await runner.test('POST /api/projects/:id/stakeholders/:stakeholderId/merge - Merging into itself should fail', async () => {
+    if (!testProjectId || !stakeholderId) throw new Error('No test stakeholder');
+
+    const response = await post(`/projects/${testProjectId}/stakeholders/${stakeholderId}/merge`, adminUser, {
+      duplicateId: stakeholderId,
+    });
+
+    assertEqual(response.status, 400, 'Should return 400 status');
+  });
+
+  await runner.test('POST /api/projects/:id/stakeholders/:stakeholderId/reject - Accepted stakeholder should fail', async () => {
+    if (!testProjectId || !stakeholderId) throw new Error('No test stakeholder');
+
+    const response = await post(`/projects/${testProjectId}/stakeholders/${stakeholderId}/reject`, adminUser, {});
+
+    assertEqual(response.status, 400, 'Should return 400 status');
+  });
+
+  await runner.test('DELETE /api/projects/:id/stakeholders/:stakeholderId - Delete stakeholder', async () => {
+    if (!testProjectId || !stakeholderId) throw new Error('No test stakeholder');
+
+    const response = await del(`/projects/${testProjectId}/stakeholders/${stakeholderId}`, adminUser);
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertSuccess(data, 'Delete should succeed');
+  });
+
+  // ==================== Email Import ====================
+
+  await runner.test('POST /api/projects/:id/content/email - Import .eml dated from its Date header', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const response = await postFile(
+      `/projects/${testProjectId}/content/email`,
+      adminUser,
+      new Blob([kickoffEmail], { type: 'message/rfc822' }),
+      'kickoff.eml'
+    );
+    assertEqual(response.status, 201, 'Should return 201');
+    const data = await response.json();
+    assertSuccess(data, 'Import should succeed');
+    assertEqual(data.data.items.length, 1, 'Should import one message');
+    emailContentId = data.data.items[0].id;
+
+    const itemResponse = await get(`/content-items/${emailContentId}`, adminUser);
+    const item = (await itemResponse.json()).data;
+    assertEqual(item.sourceType, 'email', 'Source type should be email');
+    assertEqual(item.title, 'Kickoff planning', 'Title should be the subject');
+    assertTrue(item.dateOccurred.startsWith('2026-01-05'), 'Date should come from the Date header');
+    assertEqual(item.sourceMetadata.messageId, kickoffMessageId, 'Should keep the Message-ID');
+    assertDeepEqual(
+      [...item.sourceMetadata.participants].sort(),
+      ['alice@example.com', 'bob@example.com', 'carol@example.com'],
+      'Should list sender and recipients as participants'
+    );
+  });
+
+  await runner.test('POST /api/projects/:id/content/email - Re-importing the same message is skipped', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const response = await postFile(
+      `/projects/${testProjectId}/content/email`,
+      adminUser,
+      new Blob([kickoffEmail], { type: 'message/rfc822' }),
+      'kickoff.eml'
+    );
+    const data = await response.json();
+    assertSuccess(data, 'Import should succeed');
+    assertEqual(data.data.items.length, 0, 'Nothing new to import');
+    assertEqual(data.data.skipped.length, 1, 'Duplicate should be skipped');
+  });
+
+  await runner.test('POST /api/projects/:id/content/email - Import .mbox thread without quoted history', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const reply = [
+      `Message-ID: ${replyMessageId}`,
+      `In-Reply-To: ${kickoffMessageId}`,
+      `References: ${kickoffMessageId}`,
+      'From: Bob Jones <bob@example.com>',
+      'To: Alice Smith <alice@example.com>',
+      'Date: Tue, 06 Jan 2026 09:30:00 +0000',
+      'Subject: Re: Kickoff planning',
+      '',
+      'Confirmed, I will book the room.',
+      '',
+      'On Mon, Alice Smith wrote:',
+      '> We agreed to start the discovery workshops next Monday.',
+      '',
+    ].join('\n');
+    const mbox = [
+      'From alice@example.com Mon Jan  5 10:00:00 2026',
+      kickoffEmail.replace(/\r\n/g, '\n'),
+      'From bob@example.com Tue Jan  6 09:30:00 2026',
+      reply,
+    ].join('\n');
+
+    const response = await postFile(
+      `/projects/${testProjectId}/content/email`,
+      adminUser,
+      new Blob([mbox], { type: 'application/mbox' }),
+      'thread.mbox'
+    );
+    assertEqual(response.status, 201, 'Should return 201');
+    const data = await response.json();
+    assertEqual(data.data.items.length, 1, 'Only the reply is new');
+    assertEqual(data.data.skipped.length, 1, 'Already imported message should be skipped');
+    assertEqual(data.data.items[0].threadId, kickoffMessageId, 'Reply should share the thread');
+
+    const itemResponse = await get(`/content-items/${data.data.items[0].id}`, adminUser);
+    const item = (await itemResponse.json()).data;
+    assertTrue(item.dateOccurred.startsWith('2026-01-06'), 'Reply should be dated from its header');
+    assertTrue(!item.rawContent.includes('discovery workshops'), 'Quoted history should be stripped');
+  });
+
+  await runner.test('POST /api/projects/:id/content/email - Mailbox over the per-upload limit should fail', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const messages = Array.from({ length: 11 }, (_, i) => [
+      `From alice@example.com Wed Jan  7 10:${String(i).padStart(2, '0')}:00 2026`,
+      `Message-ID: <${uniqueString(`bulk-${i}`)}@example.com>`,
+      'From: Alice Smith <alice@example.com>',
+      'To: bob@example.com',
+      `Date: Wed, 07 Jan 2026 10:${String(i).padStart(2, '0')}:00 +0000`,
+      `Subject: Status ${i + 1}`,
+      '',
+      `Update number ${i + 1}.`,
+      '',
+    ].join('\n'));
+
+    const before = await (await get(`/projects/${testProjectId}/content`, adminUser)).json();
+    const response = await postFile(
+      `/projects/${testProjectId}/content/email`,
+      adminUser,
+      new Blob([messages.join('\n')], { type: 'application/mbox' }),
+      'bulk.mbox'
+    );
+    assertEqual(response.status, 400, 'Should return 400');
+
+    const after = await (await get(`/projects/${testProjectId}/content`, adminUser)).json();
+    assertEqual(after.meta.total, before.meta.total, 'Nothing should be imported');
+  });
+
+  await runner.test('POST /api/projects/:id/content/email - Non-email file should fail', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const response = await postFile(
+      `/projects/${testProjectId}/content/email`,
+      adminUser,
+      new Blob(['Just some notes'], { type: 'text/plain' }),
+      'notes.txt'
+    );
+    assertEqual(response.status, 400, 'Should return 400');
+  });
+
+  await runner.test('GET /api/projects/:id/content/email-address - Get project intake address', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const first = await (await get(`/projects/${testProjectId}/content/email-address`, adminUser)).json();
+    assertSuccess(first, 'Should return the address');
+    assertTrue(/^[a-z0-9-]+@/.test(first.data.address), 'Address should start with the project slug');
+
+    const second = await (await get(`/projects/${testProjectId}/content/email-address`, adminUser)).json();
+    assertEqual(second.data.address, first.data.address, 'Address should stay the same');
+  });
+
   // ==================== Delete Content Item ====================
 
   await runner.test('DELETE /api/content-items/:id - Delete content item', async () => {
@@ -343,6 +637,25 @@ export async function runD4Tests(): Promise<ReturnType<TestRunner['summary']>> {
     );
   });
 
+  await runner.test('POST /api/content-items/:id/restore - Restore from trash', async () => {
+    if (!testContentId || !testProjectId) throw new Error('No test content');
+
+    const trash = await (await get(`/projects/${testProjectId}/trash`, adminUser)).json();
+    assertSuccess(trash, 'Trash should be listed');
+    assertTrue(
+      trash.data.contentItems.some((i: any) => i.id === testContentId),
+      'Deleted content should be in the trash'
+    );
+
+    const response = await post(`/content-items/${testContentId}/restore`, adminUser, {});
+    const data = await response.json();
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertSuccess(data, 'Restore should succeed');
+
+    const getResponse = await get(`/content-items/${testContentId}`, adminUser);
+    assertEqual(getResponse.status, 200, 'Restored content should be found');
+  });
+
   await runner.test('DELETE /api/content-items/:id - Delete non-existent should fail', async () => {
     const fakeId = '00000000-0000-0000-0000-000000000000';
     const response = await del(`/content-items/${fakeId}`, adminUser);
@@ -17,6 +17,8 @@ import {
   login,
   get,
   post,
+  put,
+  del,
   uniqueString,
   cleanup,
   type TestUser,
@@ -28,6 +30,11 @@ export async function runD5Tests(): Promise<ReturnType<TestRunner['summary']>> {
   let adminUser: TestUser = TEST_ADMIN;
   let testProjectId: string | null = null;
   let testReportId: string | null = null;
+  let testRaidItemId: string | null = null;
+  let testActionId: string | null = null;
+  let duplicateActionId: string | null = null;
+  let originalDecisionId: string | null = null;
+  let revisedDecisionId: string | null = null;
 
   // Login and create test project with content
   await runner.test('Setup: Login and create test project with content', async () => {
@@ -266,6 +273,284 @@ export async function runD5Tests(): Promise<ReturnType<TestRunner['summary']>> {
     assertTrue(response.status === 404 || response.status === 400 || response.status === 200, 'Should handle non-existent gracefully');
   });
 
+  // ==================== RAID Register ====================
+
+  await runner.test('POST /api/projects/:id/raid - Create risk', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const response = await post(`/projects/${testProjectId}/raid`, adminUser, {
+      type: 'risk',
+      title: 'Security review may delay launch',
+      severity: 'high',
+      likelihood: 'medium',
+      owner: 'Security Lead',
+    });
+    const data = await response.json();
+
+    assertEqual(response.status, 201, 'Should return 201 status');
+    assertSuccess(data, 'Response should be successful');
+    assertEqual(data.data.type, 'risk', 'Type should be risk');
+    assertEqual(data.data.status, 'open', 'New items should default to open');
+    testRaidItemId = data.data.id;
+  });
+
+  await runner.test('POST /api/projects/:id/raid - Invalid type should fail', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const response = await post(`/projects/${testProjectId}/raid`, adminUser, {
+      type: 'concern',
+      title: 'Not a RAID type',
+    });
+    const data = await response.json();
+
+    assertEqual(response.status, 400, 'Should return 400 status');
+    assertError(data, 'Should return validation error');
+  });
+
+  await runner.test('GET /api/projects/:id/raid - List open items by type', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const response = await get(`/projects/${testProjectId}/raid?type=risk&openOnly=true`, adminUser);
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertSuccess(data, 'Response should be successful');
+    assertTrue(Array.isArray(data.data.items), 'Should return items array');
+    assertTrue(
+      data.data.items.some((item: any) => item.id === testRaidItemId),
+      'Created risk should be in the open register'
+    );
+  });
+
+  await runner.test('PUT /api/projects/:id/raid/:raidItemId - Close item', async () => {
+    if (!testProjectId || !testRaidItemId) throw new Error('No test RAID item');
+
+    const response = await put(`/projects/${testProjectId}/raid/${testRaidItemId}`, adminUser, {
+      status: 'closed',
+      resolution: 'Security review completed',
+    });
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertEqual(data.data.status, 'closed', 'Status should be closed');
+    assertExists(data.data.closedAt, 'closedAt should be stamped');
+  });
+
+  await runner.test('DELETE /api/projects/:id/raid/:raidItemId - Delete item', async () => {
+    if (!testProjectId || !testRaidItemId) throw new Error('No test RAID item');
+
+    const response = await del(`/projects/${testProjectId}/raid/${testRaidItemId}`, adminUser);
+    assertEqual(response.status, 200, 'Should return 200 status');
+
+    const getResponse = await get(`/projects/${testProjectId}/raid/${testRaidItemId}`, adminUser);
+    assertEqual(getResponse.status, 404, 'Deleted item should not be found');
+  });
+
+  // ==================== Action Tracker ====================
+
+  await runner.test('GET /api/projects/:id/actions - Lists open actions with overdue flag', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const lastWeek = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const actionResponse = await post(`/projects/${testProjectId}/raid`, adminUser, {
+      type: 'action',
+      title: 'Send revised budget to finance',
+      owner: 'Finance Lead',
+      dueDate: lastWeek,
+    });
+    testActionId = (await actionResponse.json()).data.id;
+
+    const duplicateResponse = await post(`/projects/${testProjectId}/raid`, adminUser, {
+      type: 'action',
+      title: 'Send the revised budget to finance team',
+      description: 'Raised again in the steering meeting',
+    });
+    duplicateActionId = (await duplicateResponse.json()).data.id;
+
+    const response = await get(`/projects/${testProjectId}/actions`, adminUser);
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertSuccess(data, 'Response should be successful');
+    assertHasProperty(data.data, 'summary', 'Should include summary');
+    assertTrue(data.data.summary.overdue >= 1, 'Summary should count the overdue action');
+    const action = data.data.items.find((item: any) => item.id === testActionId);
+    assertExists(action, 'Created action should be tracked');
+    assertTrue(action.isOverdue, 'Past-due action should be flagged overdue');
+    assertTrue(action.daysUntilDue < 0, 'daysUntilDue should be negative');
+    assertHasProperty(action, 'sources', 'Should include sources');
+    assertTrue(!('embedding' in action), 'Embedding should not be returned');
+  });
+
+  await runner.test('POST /api/projects/:id/actions/:actionId/complete - Marks action done', async () => {
+    if (!testProjectId || !testActionId) throw new Error('No test action');
+
+    const response = await post(`/projects/${testProjectId}/actions/${testActionId}/complete`, adminUser, {
+      resolution: 'Sent on Friday',
+    });
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertEqual(data.data.status, 'resolved', 'Action should be resolved');
+    assertExists(data.data.closedAt, 'closedAt should be stamped');
+
+    const openResponse = await get(`/projects/${testProjectId}/actions?status=open`, adminUser);
+    const openData = await openResponse.json();
+    assertTrue(
+      !openData.data.items.some((item: any) => item.id === testActionId),
+      'Done action should leave the open list'
+    );
+  });
+
+  await runner.test('POST /api/projects/:id/actions/:actionId/reopen - Reopens action', async () => {
+    if (!testProjectId || !testActionId) throw new Error('No test action');
+
+    const response = await post(`/projects/${testProjectId}/actions/${testActionId}/reopen`, adminUser, {});
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertEqual(data.data.status, 'open', 'Action should be open again');
+  });
+
+  await runner.test('POST /api/projects/:id/actions/:actionId/merge - Merging into itself should fail', async () => {
+    if (!testProjectId || !testActionId) throw new Error('No test action');
+
+    const response = await post(`/projects/${testProjectId}/actions/${testActionId}/merge`, adminUser, {
+      duplicateId: testActionId,
+    });
+    const data = await response.json();
+
+    assertEqual(response.status, 400, 'Should return 400 status');
+    assertError(data, 'Should return validation error');
+  });
+
+  await runner.test('POST /api/projects/:id/actions/:actionId/merge - Folds duplicate into action', async () => {
+    if (!testProjectId || !testActionId || !duplicateActionId) throw new Error('No test actions');
+
+    const response = await post(`/projects/${testProjectId}/actions/${testActionId}/merge`, adminUser, {
+      duplicateId: duplicateActionId,
+    });
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertEqual(data.data.owner, 'Finance Lead', 'Action should keep its own owner');
+    assertEqual(
+      data.data.description,
+      'Raised again in the steering meeting',
+      'Missing description should be taken from the duplicate'
+    );
+
+    const duplicateResponse = await get(`/projects/${testProjectId}/raid/${duplicateActionId}`, adminUser);
+    assertEqual(duplicateResponse.status, 404, 'Duplicate should leave the register');
+  });
+
+  await runner.test('POST /api/projects/:id/actions/reminders - Reports unmatched owners', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const response = await post(`/projects/${testProjectId}/actions/reminders`, adminUser, {});
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertSuccess(data, 'Response should be successful');
+    assertHasProperty(data.data, 'remindersSent', 'Should report reminders sent');
+    assertTrue(
+      data.data.unmatchedOwners.includes('Finance Lead'),
+      'Owner who is not a member should be reported as unmatched'
+    );
+  });
+
+  // ==================== Decision Log ====================
+
+  await runner.test('GET /api/projects/:id/decisions - Lists current decisions with rationale', async () => {
+    if (!testProjectId) throw new Error('No test project');
+
+    const originalResponse = await post(`/projects/${testProjectId}/raid`, adminUser, {
+      type: 'decision',
+      title: 'Launch in the EU region first',
+      decisionMaker: 'Steering Committee',
+      decisionDate: '2024-01-10',
+      rationale: 'Most early customers are in Europe',
+      alternatives: ['Launch in the US first', 'Launch everywhere at once'],
+    });
+    originalDecisionId = (await originalResponse.json()).data.id;
+
+    const revisedResponse = await post(`/projects/${testProjectId}/raid`, adminUser, {
+      type: 'decision',
+      title: 'Launch in the US and EU together',
+      decisionDate: '2024-02-01',
+    });
+    revisedDecisionId = (await revisedResponse.json()).data.id;
+
+    const response = await get(`/projects/${testProjectId}/decisions`, adminUser);
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertSuccess(data, 'Response should be successful');
+    assertHasProperty(data.data.summary, 'pendingReview', 'Summary should count the review queue');
+    const decision = data.data.items.find((item: any) => item.id === originalDecisionId);
+    assertExists(decision, 'Created decision should be in the log');
+    assertEqual(decision.rationale, 'Most early customers are in Europe', 'Rationale should be kept');
+    assertEqual(decision.alternatives.length, 2, 'Alternatives should be kept');
+    assertEqual(decision.supersededBy, null, 'New decision should not be superseded');
+  });
+
+  await runner.test('POST /api/projects/:id/decisions/:decisionId/supersede - Superseding itself should fail', async () => {
+    if (!testProjectId || !originalDecisionId) throw new Error('No test decision');
+
+    const response = await post(`/projects/${testProjectId}/decisions/${originalDecisionId}/supersede`, adminUser, {
+      supersededById: originalDecisionId,
+    });
+    const data = await response.json();
+
+    assertEqual(response.status, 400, 'Should return 400 status');
+    assertError(data, 'Should return validation error');
+  });
+
+  await runner.test('POST /api/projects/:id/decisions/:decisionId/supersede - Links to the later decision', async () => {
+    if (!testProjectId || !originalDecisionId || !revisedDecisionId) throw new Error('No test decisions');
+
+    const response = await post(`/projects/${testProjectId}/decisions/${originalDecisionId}/supersede`, adminUser, {
+      supersededById: revisedDecisionId,
+    });
+    const data = await response.json();
+
+    assertEqual(response.status, 200, 'Should return 200 status');
+    assertEqual(data.data.supersededById, revisedDecisionId, 'Should point at the later decision');
+    assertExists(data.data.supersededAt, 'supersededAt should be stamped');
+
+    const currentResponse = await get(`/projects/${testProjectId}/decisions?status=current`, adminUser);
+    const current = await currentResponse.json();
+    assertTrue(
+      !current.data.items.some((item: any) => item.id === originalDecisionId),
+      'Superseded decision should leave the current log'
+    );
+    const revised = current.data.items.find((item: any) => item.id === revisedDecisionId);
+    assertTrue(
+      revised.supersedes.some((item: any) => item.id === originalDecisionId),
+      'Later decision should list what it supersedes'
+    );
+  });
+
+  await runner.test('POST /api/projects/:id/decisions/:decisionId/supersede - Reversing the link should fail', async () => {
+    if (!testProjectId || !originalDecisionId || !revisedDecisionId) throw new Error('No test decisions');
+
+    const response = await post(`/projects/${testProjectId}/decisions/${revisedDecisionId}/supersede`, adminUser, {
+      supersededById: originalDecisionId,
+    });
+
+    assertEqual(response.status, 400, 'Should return 400 status');
+  });
+
+  await runner.test('POST /api/projects/:id/decisions/:decisionId/reject - Accepted decision should fail', async () => {
+    if (!testProjectId || !revisedDecisionId) throw new Error('No test decision');
+
+    const response = await post(`/projects/${testProjectId}/decisions/${revisedDecisionId}/reject`, adminUser, {});
+    const data = await response.json();
+
+    assertEqual(response.status, 400, 'Should return 400 status');
+    assertError(data, 'Only proposals can be rejected');
+  });
+
   // ==================== Cleanup ====================
 
   await runner.test('Cleanup: Delete test project', async () => {
@@ -74,6 +74,89 @@ export async function runD7Tests(): Promise<TestResult[]> {
     })
   );
 
+  // Test: Format plan changes as markdown
+  results.push(
+    await runTest('Format plan changes as markdown groups items by workstream', async () => {
+      const response = await post('/format/markdown', authUser, {
+        sourceType: 'plan_diff',
+        projectName: 'Test Project',
+        data: {
+          planChanges: {
+            since: '2024-01-01',
+            until: '2024-01-08',
+            summary: { added: 0, removed: 0, redated: 1, reparented: 0, statusChanged: 0 },
+            workstreams: [
+              {
+                name: 'Build',
+                items: [
+                  {
+                    planItemId: 'item-1',
+                    name: 'API',
+                    changes: ['redated'],
+                    details: ['Target end 2024-02-01 → 2024-02-15 (+14d)'],
+                  },
+                ],
+              },
+            ],
+          },
+        },
+      });
+      assertSuccess(response, 'Format plan changes');
+
+      const data = await response.json();
+      if (!data.data.content.includes('### Build') || !data.data.content.includes('+14d')) {
+        throw new Error('Expected changes listed under their workstream');
+      }
+    })
+  );
+
+  // Test: Format decision log as markdown
+  results.push(
+    await runTest('Format decision log as markdown separates superseded decisions', async () => {
+      const response = await post('/format/markdown', authUser, {
+        sourceType: 'decision_log',
+        projectName: 'Test Project',
+        data: {
+          decisionLog: {
+            asOf: '2024-01-08',
+            decisions: [
+              {
+                title: 'Host on managed Postgres',
+                description: null,
+                decisionMaker: 'CTO',
+                decisionDate: '2024-01-05',
+                rationale: 'Less operational overhead',
+                alternatives: ['Self-hosted Postgres'],
+                affectedPlanItems: ['Infrastructure'],
+                supersededBy: null,
+              },
+              {
+                title: 'Host on self-managed VMs',
+                description: null,
+                decisionMaker: null,
+                decisionDate: '2023-12-01',
+                rationale: null,
+                alternatives: [],
+                affectedPlanItems: [],
+                supersededBy: 'Host on managed Postgres',
+              },
+            ],
+          },
+        },
+      });
+      assertSuccess(response, 'Format decision log');
+
+      const data = await response.json();
+      const content: string = data.data.content;
+      if (!content.includes('**Rationale:** Less operational overhead') || !content.includes('- Self-hosted Postgres')) {
+        throw new Error('Expected rationale and alternatives in the log');
+      }
+      if (content.indexOf('## Superseded Decisions') > content.indexOf('Host on self-managed VMs')) {
+        throw new Error('Expected the superseded decision under its own heading');
+      }
+    })
+  );
+
   // Test: Format markdown without auth
   results.push(
     await runTest('Format markdown without auth returns 401', async () => {
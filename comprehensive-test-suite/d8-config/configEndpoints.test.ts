@@ -23,6 +23,8 @@ export async function runD8Tests(): Promise<TestResult[]> {
   let createdPlanItemTypeId: string | null = null;
   let createdContentTypeId: string | null = null;
   let createdActivityTypeId: string | null = null;
+  let createdCustomFieldId: number | null = null;
+  const customFieldKey = uniqueString('client_owner').toLowerCase();
   let systemPlanItemTypeId: string | null = null;
 
   // Setup: Login
@@ -170,6 +172,155 @@ export async function runD8Tests(): Promise<TestResult[]> {
     })
   );
 
+  // ==================== Custom Fields ====================
+
+  // Test: Create custom field
+  results.push(
+    await runTest('Create select custom field succeeds', async () => {
+      const response = await post('/config/custom-fields', authUser, {
+        key: customFieldKey,
+        label: 'Client owner',
+        fieldType: 'select',
+        options: ['Alpha', 'Beta'],
+      });
+
+      assertStatus(response, 201, 'Create custom field');
+      const data = await response.json();
+      createdCustomFieldId = data.data.id;
+    })
+  );
+
+  // Test: Select fields need options
+  results.push(
+    await runTest('Create select custom field without options returns 400', async () => {
+      const response = await post('/config/custom-fields', authUser, {
+        key: uniqueString('no_options').toLowerCase(),
+        label: 'No options',
+        fieldType: 'select',
+      });
+      assertStatus(response, 400, 'Select without options');
+    })
+  );
+
+  // Test: Keys are unique per organization
+  results.push(
+    await runTest('Create custom field with duplicate key returns 409', async () => {
+      const response = await post('/config/custom-fields', authUser, {
+        key: customFieldKey,
+        label: 'Duplicate',
+        fieldType: 'text',
+      });
+      assertStatus(response, 409, 'Duplicate key');
+    })
+  );
+
+  // Test: List custom fields
+  results.push(
+    await runTest('List custom fields includes created field', async () => {
+      const response = await get('/config/custom-fields', authUser);
+      assertSuccess(response, 'List custom fields');
+      const data = await response.json();
+      if (!data.data.some((f: any) => f.id === createdCustomFieldId)) {
+        throw new Error('Created custom field not listed');
+      }
+    })
+  );
+
+  // Test: Update custom field
+  results.push(
+    await runTest('Update custom field options succeeds', async () => {
+      if (!createdCustomFieldId) throw new Error('No custom field created');
+
+      const response = await put(`/config/custom-fields/${createdCustomFieldId}`, authUser, {
+        options: ['Alpha', 'Beta', 'Gamma'],
+      });
+      assertSuccess(response, 'Update custom field');
+      const data = await response.json();
+      if (data.data.options.length !== 3) {
+        throw new Error('Options were not updated');
+      }
+    })
+  );
+
+  // Test: Delete custom field
+  results.push(
+    await runTest('Delete custom field succeeds', async () => {
+      if (!createdCustomFieldId) throw new Error('No custom field created');
+
+      const response = await del(`/config/custom-fields/${createdCustomFieldId}`, authUser);
+      assertSuccess(response, 'Delete custom field');
+    })
+  );
+
+  // ==================== Status Workflows ====================
+
+  let workflowTypeId: number | null = null;
+
+  // Test: Save a workflow for a plan item type
+  results.push(
+    await runTest('Save status workflow for plan item type succeeds', async () => {
+      const typeResponse = await post('/config/plan-item-types', authUser, {
+        name: uniqueString('WorkflowType'),
+        slug: uniqueString('workflow_type'),
+        level: 3,
+      });
+      assertSuccess(typeResponse, 'Create plan item type');
+      workflowTypeId = (await typeResponse.json()).data.id;
+
+      const response = await put(`/config/status-workflows/${workflowTypeId}`, authUser, {
+        statuses: [
+          { key: 'open', label: 'Open', category: 'not_started' },
+          { key: 'closed', label: 'Closed', category: 'completed' },
+        ],
+        transitions: [{ from: 'open', to: 'closed', requiredFields: ['actualEndDate'] }],
+        initialStatus: 'open',
+      });
+      assertSuccess(response, 'Save status workflow');
+    })
+  );
+
+  // Test: Transitions must reference workflow statuses
+  results.push(
+    await runTest('Save status workflow with unknown transition status returns 400', async () => {
+      if (!workflowTypeId) throw new Error('No workflow type created');
+
+      const response = await put(`/config/status-workflows/${workflowTypeId}`, authUser, {
+        statuses: [{ key: 'open', label: 'Open', category: 'not_started' }],
+        transitions: [{ from: 'open', to: 'missing' }],
+        initialStatus: 'open',
+      });
+      assertStatus(response, 400, 'Unknown transition status');
+    })
+  );
+
+  // Test: List status workflows
+  results.push(
+    await runTest('List status workflows includes saved workflow', async () => {
+      const response = await get('/config/status-workflows', authUser);
+      assertSuccess(response, 'List status workflows');
+      const data = await response.json();
+      const workflow = data.data.find((w: any) => w.planItemTypeId === workflowTypeId);
+      if (!workflow || workflow.statuses.length !== 2) {
+        throw new Error('Saved workflow not listed');
+      }
+    })
+  );
+
+  // Test: Delete status workflow
+  results.push(
+    await runTest('Delete status workflow succeeds and a second delete returns 404', async () => {
+      if (!workflowTypeId) throw new Error('No workflow type created');
+
+      const response = await del(`/config/status-workflows/${workflowTypeId}`, authUser);
+      assertSuccess(response, 'Delete status workflow');
+
+      const again = await del(`/config/status-workflows/${workflowTypeId}`, authUser);
+      assertStatus(again, 404, 'Workflow already deleted');
+
+      await del(`/config/plan-item-types/${workflowTypeId}`, authUser);
+    })
+  );
+
   // ==================== Auth Tests ====================
 
   // Test: List types without auth
@@ -171,6 +171,23 @@ export async function del(path: string, user: TestUser): Promise<Response> {
   return apiRequest('DELETE', path, user);
 }
 
+/**
+ * Multipart file upload helper (sent as the "file" field)
+ */
+export async function postFile(path: string, user: TestUser, file: Blob, fileName: string): Promise<Response> {
+  const formData = new FormData();
+  formData.append('file', file, fileName);
+
+  return fetch(`${API_BASE_URL}${path}`, {
+    method: 'POST',
+    headers: {
+      ...(user.accessToken ? { Authorization: `Bearer ${user.accessToken}` } : {}),
+      ...(user.organizationId ? { 'X-Organization-Id': String(user.organizationId) } : {}),
+    },
+    body: formData,
+  });
+}
+
 /**
  * Assert that a response is successful (2xx status)
  */
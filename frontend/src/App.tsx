@@ -15,6 +15,12 @@ import { SsoCallbackPage } from '@/pages/auth/SsoCallbackPage';
 // Dashboard Page
 import { DashboardPage } from '@/pages/sample/DashboardPage';
 
+// Portfolio Page
+import { PortfolioPage } from '@/pages/portfolio/PortfolioPage';
+
+// My Work Page
+import { MyWorkPage } from '@/pages/my-work/MyWorkPage';
+
 // Plan Pages
 import { PlanPage } from '@/pages/plan/PlanPage';
 
@@ -66,6 +72,12 @@ function App() {
         {/* Dashboard */}
         <Route path="/dashboard" element={<DashboardPage />} />
 
+        {/* Portfolio (all projects in the organization) */}
+        <Route path="/portfolio" element={<PortfolioPage />} />
+
+        {/* My Work (the user's assigned items across projects) */}
+        <Route path="/my-work" element={<MyWorkPage />} />
+
         {/* Agent Pages */}
         <Route path="/plan" element={<PlanPage />} />
         <Route path="/intake" element={<IntakePage />} />
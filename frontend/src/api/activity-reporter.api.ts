@@ -1,5 +1,6 @@
 import apiClient from './client';
 import type { ApiResponse } from '@/types';
+import type { Rag } from './projects.api';
 
 // Report types
 export interface StatusUpdate {
@@ -21,6 +22,10 @@ export interface ActionItem {
   planItemId: string | null;
   confidence: 'high' | 'medium' | 'low';
   sourceContentIds: string[];
+  raidItemId?: string | null;
+  isNew?: boolean;
+  // Set when the owner resolves to a project stakeholder
+  stakeholderId?: string | null;
 }
 
 export interface Risk {
@@ -32,6 +37,8 @@ export interface Risk {
   planItemId: string | null;
   confidence: 'high' | 'medium' | 'low';
   sourceContentIds: string[];
+  raidItemId?: string | null;
+  isNew?: boolean;
 }
 
 export interface Decision {
@@ -43,6 +50,8 @@ export interface Decision {
   planItemId: string | null;
   confidence: 'high' | 'medium' | 'low';
   sourceContentIds: string[];
+  raidItemId?: string | null;
+  isNew?: boolean;
 }
 
 export interface Blocker {
@@ -54,6 +63,8 @@ export interface Blocker {
   planItemId: string | null;
   confidence: 'high' | 'medium' | 'low';
   sourceContentIds: string[];
+  raidItemId?: string | null;
+  isNew?: boolean;
 }
 
 export interface SuggestedPlanUpdate {
@@ -64,6 +75,62 @@ export interface SuggestedPlanUpdate {
   confidence: 'high' | 'medium' | 'low';
 }
 
+export interface ScheduleVarianceRow {
+  planItemId: string;
+  name: string;
+  baselineEndDate: string | null;
+  currentEndDate: string | null;
+  endSlipDays: number | null;
+}
+
+export interface ScheduleVariance {
+  baselineId: string;
+  baselineName: string;
+  baselineDate: string;
+  projectEndSlipDays: number | null;
+  workstreams: ScheduleVarianceRow[];
+  milestones: ScheduleVarianceRow[];
+}
+
+export type PlanChangeKind = 'added' | 'removed' | 'redated' | 'reparented' | 'status_changed';
+
+export interface PlanChangeRow {
+  planItemId: string;
+  name: string;
+  changes: PlanChangeKind[];
+  details: string[];
+}
+
+// What changed in the plan between two dates, grouped by workstream
+export interface PlanChanges {
+  since: string;
+  until: string;
+  summary: {
+    added: number;
+    removed: number;
+    redated: number;
+    reparented: number;
+    statusChanged: number;
+  };
+  workstreams: Array<{ name: string; items: PlanChangeRow[] }>;
+}
+
+export interface HealthFactorSummary {
+  key: string;
+  label: string;
+  rag: Rag;
+  detail: string;
+}
+
+// Project and workstream health as of when the report was generated
+export interface ProjectHealthSummary {
+  asOf: string;
+  rag: Rag;
+  score: number;
+  factors: HealthFactorSummary[];
+  workstreams: Array<{ planItemId: string; name: string; rag: Rag; score: number; factors: HealthFactorSummary[] }>;
+}
+
 export interface ReportData {
   summary: string;
   statusUpdates: StatusUpdate[];
@@ -72,6 +139,9 @@ export interface ReportData {
   decisions: Decision[];
   blockers: Blocker[];
   suggestedPlanUpdates: SuggestedPlanUpdate[];
+  scheduleVariance?: ScheduleVariance | null;
+  planChanges?: PlanChanges | null;
+  health?: ProjectHealthSummary | null;
 }
 
 export interface ActivityReport {
@@ -114,6 +184,7 @@ export interface GenerateReportInput {
   workstreamFilter?: string[];
   activityTypeFilter?: number[];
   title?: string;
+  baselineId?: string;
 }
 
 export interface GenerateReportResponse {
@@ -0,0 +1,121 @@
+import apiClient from './client';
+import type { ApiResponse } from '@/types';
+
+export type VarianceChange = 'unchanged' | 'slipped' | 'pulled_in' | 'added' | 'removed';
+
+export interface PlanBaseline {
+  id: string;
+  projectId: string;
+  name: string;
+  description: string | null;
+  createdByUserId: number | null;
+  createdByEmail: string | null;
+  itemCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PlanBaselineItem {
+  id: string;
+  baselineId: string;
+  planItemId: string;
+  parentId: string | null;
+  path: string;
+  name: string;
+  itemTypeName: string;
+  itemTypeLevel: number;
+  status: string;
+  startDate: string | null;
+  targetEndDate: string | null;
+  actualStartDate: string | null;
+  actualEndDate: string | null;
+}
+
+export interface VarianceItem {
+  planItemId: string;
+  parentId: string | null;
+  name: string;
+  itemType: string;
+  level: number;
+  baselineStatus: string | null;
+  currentStatus: string | null;
+  baselineStartDate: string | null;
+  currentStartDate: string | null;
+  baselineEndDate: string | null;
+  currentEndDate: string | null;
+  startSlipDays: number | null;
+  endSlipDays: number | null;
+  change: VarianceChange;
+}
+
+export interface VarianceReport {
+  baseline: { id: string; name: string; createdAt: string };
+  comparedTo: { id: string | null; name: string; createdAt: string | null };
+  summary: {
+    itemsCompared: number;
+    slipped: number;
+    pulledIn: number;
+    added: number;
+    removed: number;
+    statusChanged: number;
+    maxSlipDays: number;
+    projectEndSlipDays: number | null;
+  };
+  workstreams: VarianceItem[];
+  milestones: VarianceItem[];
+  items: VarianceItem[];
+}
+
+export interface CreateBaselineInput {
+  name: string;
+  description?: string | null;
+}
+
+export const baselinesApi = {
+  // List baselines for a project
+  list: async (projectId: string): Promise<ApiResponse<PlanBaseline[]>> => {
+    const response = await apiClient.get(`/projects/${projectId}/baselines`);
+    return response.data;
+  },
+
+  // Get a baseline with its captured items
+  get: async (
+    projectId: string,
+    baselineId: string
+  ): Promise<ApiResponse<PlanBaseline & { items: PlanBaselineItem[] }>> => {
+    const response = await apiClient.get(`/projects/${projectId}/baselines/${baselineId}`);
+    return response.data;
+  },
+
+  // Capture a baseline of the current plan
+  create: async (projectId: string, data: CreateBaselineInput): Promise<ApiResponse<PlanBaseline>> => {
+    const response = await apiClient.post(`/projects/${projectId}/baselines`, data);
+    return response.data;
+  },
+
+  // Delete a baseline
+  delete: async (projectId: string, baselineId: string): Promise<ApiResponse<{ message: string }>> => {
+    const response = await apiClient.delete(`/projects/${projectId}/baselines/${baselineId}`);
+    return response.data;
+  },
+
+  // Variance of the current plan against a baseline
+  getVariance: async (projectId: string, baselineId: string): Promise<ApiResponse<VarianceReport>> => {
+    const response = await apiClient.get(`/projects/${projectId}/baselines/${baselineId}/variance`);
+    return response.data;
+  },
+
+  // Variance between two baselines
+  compare: async (
+    projectId: string,
+    baselineId: string,
+    otherBaselineId: string
+  ): Promise<ApiResponse<VarianceReport>> => {
+    const response = await apiClient.get(
+      `/projects/${projectId}/baselines/${baselineId}/compare/${otherBaselineId}`
+    );
+    return response.data;
+  },
+};
+
+export default baselinesApi;
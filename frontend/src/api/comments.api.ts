@@ -0,0 +1,83 @@
+import apiClient from './client';
+import type { ApiResponse } from '@/types';
+
+export type CommentEntityType = 'plan_item' | 'content_item' | 'activity_report';
+
+export interface CommentUser {
+  id: number;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+export interface Comment {
+  id: number;
+  parentId: number | null;
+  // Null once deleted; kept in the thread only while it has replies
+  body: string | null;
+  author: CommentUser;
+  mentions: CommentUser[];
+  editedAt: string | null;
+  isDeleted: boolean;
+  isUnread: boolean;
+  createdAt: string;
+  replies: Comment[];
+}
+
+export interface CommentThread {
+  comments: Comment[];
+  lastReadAt: string | null;
+}
+
+export interface CommentCount {
+  entityType: CommentEntityType;
+  entityId: string;
+  total: number;
+  unread: number;
+}
+
+export const commentsApi = {
+  list: async (entityType: CommentEntityType, entityId: string): Promise<ApiResponse<CommentThread>> => {
+    const response = await apiClient.get('/comments', { params: { entityType, entityId } });
+    return response.data;
+  },
+
+  // Organization members that can be @mentioned
+  getMentionable: async (): Promise<ApiResponse<CommentUser[]>> => {
+    const response = await apiClient.get('/comments/mentionable');
+    return response.data;
+  },
+
+  create: async (data: {
+    entityType: CommentEntityType;
+    entityId: string;
+    body: string;
+    parentId?: number;
+  }): Promise<ApiResponse<Comment>> => {
+    const response = await apiClient.post('/comments', data);
+    return response.data;
+  },
+
+  update: async (id: number, body: string): Promise<ApiResponse<Comment>> => {
+    const response = await apiClient.put(`/comments/${id}`, { body });
+    return response.data;
+  },
+
+  delete: async (id: number): Promise<ApiResponse<{ message: string }>> => {
+    const response = await apiClient.delete(`/comments/${id}`);
+    return response.data;
+  },
+
+  markRead: async (entityType: CommentEntityType, entityId: string): Promise<ApiResponse<{ lastReadAt: string }>> => {
+    const response = await apiClient.post('/comments/read', { entityType, entityId });
+    return response.data;
+  },
+
+  // Total and unread comment counts for every commented record in a project
+  getProjectCounts: async (projectId: string): Promise<ApiResponse<CommentCount[]>> => {
+    const response = await apiClient.get(`/projects/${projectId}/comments/unread`);
+    return response.data;
+  },
+};
+
+export default commentsApi;
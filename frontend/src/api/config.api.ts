@@ -1,6 +1,7 @@
 /**
  * Config API
  * Functions for managing configuration types (plan item types, content types, activity types)
+ * and the organization's custom plan item fields
  */
 
 import apiClient from './client';
@@ -202,6 +203,126 @@ export async function deleteActivityType(id: number): Promise<ApiResponse<{ dele
   return response.data;
 }
 
+// ============ Custom Fields ============
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'user';
+
+export interface CustomField {
+  id: number;
+  organizationId: number;
+  // Null when the field applies to every plan item type
+  planItemTypeId: number | null;
+  planItemType: { id: number; name: string; slug: string } | null;
+  key: string;
+  label: string;
+  description: string | null;
+  fieldType: CustomFieldType;
+  options: string[];
+  required: boolean;
+  sortOrder: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateCustomFieldInput {
+  key: string;
+  label: string;
+  description?: string | null;
+  fieldType: CustomFieldType;
+  planItemTypeId?: number | null;
+  options?: string[];
+  required?: boolean;
+  sortOrder?: number;
+}
+
+// Key and field type cannot be changed after creation
+export type UpdateCustomFieldInput = Partial<Omit<CreateCustomFieldInput, 'key' | 'fieldType'>>;
+
+export async function listCustomFields(params?: { planItemTypeId?: number }): Promise<ApiResponse<CustomField[]>> {
+  const response = await apiClient.get<ApiResponse<CustomField[]>>('/config/custom-fields', { params });
+  return response.data;
+}
+
+export async function createCustomField(input: CreateCustomFieldInput): Promise<ApiResponse<CustomField>> {
+  const response = await apiClient.post<ApiResponse<CustomField>>('/config/custom-fields', input);
+  return response.data;
+}
+
+export async function updateCustomField(id: number, input: UpdateCustomFieldInput): Promise<ApiResponse<CustomField>> {
+  const response = await apiClient.put<ApiResponse<CustomField>>(`/config/custom-fields/${id}`, input);
+  return response.data;
+}
+
+export async function deleteCustomField(id: number): Promise<ApiResponse<{ deleted: boolean }>> {
+  const response = await apiClient.delete<ApiResponse<{ deleted: boolean }>>(`/config/custom-fields/${id}`);
+  return response.data;
+}
+
+// ============ Status Workflows ============
+
+export type PlanItemStatusCategory = 'not_started' | 'in_progress' | 'completed' | 'on_hold' | 'blocked' | 'cancelled';
+
+export type TransitionRequirableField =
+  | 'owner'
+  | 'startDate'
+  | 'targetEndDate'
+  | 'actualStartDate'
+  | 'actualEndDate'
+  | 'effort'
+  | 'notes';
+
+export interface WorkflowStatus {
+  key: string;
+  label: string;
+  // Built-in status the workflow status counts as for roll-up and filtering
+  category: PlanItemStatusCategory;
+  color?: string;
+}
+
+export interface WorkflowTransition {
+  from: string;
+  to: string;
+  requiredFields: TransitionRequirableField[];
+  requireReason: boolean;
+}
+
+export interface StatusWorkflow {
+  id: number;
+  organizationId: number;
+  planItemTypeId: number;
+  planItemType: { id: number; name: string; slug: string; level: number };
+  statuses: WorkflowStatus[];
+  transitions: WorkflowTransition[];
+  initialStatus: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UpsertStatusWorkflowInput {
+  statuses: WorkflowStatus[];
+  transitions: WorkflowTransition[];
+  initialStatus: string;
+}
+
+export async function listStatusWorkflows(): Promise<ApiResponse<StatusWorkflow[]>> {
+  const response = await apiClient.get<ApiResponse<StatusWorkflow[]>>('/config/status-workflows');
+  return response.data;
+}
+
+export async function upsertStatusWorkflow(
+  planItemTypeId: number,
+  input: UpsertStatusWorkflowInput
+): Promise<ApiResponse<StatusWorkflow>> {
+  const response = await apiClient.put<ApiResponse<StatusWorkflow>>(`/config/status-workflows/${planItemTypeId}`, input);
+  return response.data;
+}
+
+export async function deleteStatusWorkflow(planItemTypeId: number): Promise<ApiResponse<{ deleted: boolean }>> {
+  const response = await apiClient.delete<ApiResponse<{ deleted: boolean }>>(`/config/status-workflows/${planItemTypeId}`);
+  return response.data;
+}
+
 export const configApi = {
   // Plan Item Types
   listPlanItemTypes,
@@ -221,6 +342,15 @@ export const configApi = {
   createActivityType,
   updateActivityType,
   deleteActivityType,
+  // Custom Fields
+  listCustomFields,
+  createCustomField,
+  updateCustomField,
+  deleteCustomField,
+  // Status Workflows
+  listStatusWorkflows,
+  upsertStatusWorkflow,
+  deleteStatusWorkflow,
 };
 
 export default configApi;
@@ -41,6 +41,8 @@ export interface ContentItem {
   mimeType: string | null;
   aiSummary: string | null;
   aiExtractedEntities: Record<string, unknown>;
+  // Source-specific details, e.g. an imported email's headers and participants
+  sourceMetadata?: Record<string, unknown>;
   processingStatus: 'pending' | 'processing' | 'completed' | 'failed';
   parentItemId: string | null;
   createdBy: string;
@@ -54,6 +56,41 @@ export interface ContentItem {
   };
 }
 
+export interface LinkedPlanItem {
+  id: string;
+  name: string;
+  status: string;
+  owner: string | null;
+  targetEndDate: string | null;
+  path: string;
+  itemType: { id: number; name: string; level: number };
+  linkId: string;
+  linkSource: 'manual' | 'ai' | 'plan_update';
+  linkedAt: string;
+}
+
+export interface ImportedEmail {
+  id: string;
+  title: string;
+  dateOccurred: string;
+  messageId: string | null;
+  threadId: string | null;
+  attachments: Array<{ id: string; title: string }>;
+  extractedItems: Array<{ id: string; title: string; type: string }>;
+  trackedActionIds: string[];
+  proposedDecisionIds: string[];
+}
+
+export interface ImportEmailResponse {
+  items: ImportedEmail[];
+  skipped: Array<{ messageId: string | null; subject: string; reason: string }>;
+}
+
+export interface IntakeAddress {
+  address: string | null;
+  smtpEnabled: boolean;
+}
+
 export interface CreateContentItemInput {
   projectId: string;
   planItemIds?: string[];
@@ -233,6 +270,12 @@ export const contentItemsApi = {
     return response.data;
   },
 
+  // Plan items a content item is linked to
+  getLinkedPlanItems: async (id: string): Promise<ApiResponse<LinkedPlanItem[]>> => {
+    const response = await apiClient.get(`/content-items/${id}/plan-items`);
+    return response.data;
+  },
+
   // Create a new content item
   create: async (input: CreateContentItemInput): Promise<ApiResponse<ContentItem>> => {
     const response = await apiClient.post('/content-items', input);
@@ -293,6 +336,25 @@ export const contentItemsApi = {
     });
     return response.data;
   },
+
+  // Import an .eml message or .mbox mailbox; each message is analyzed and saved
+  importEmail: async (projectId: string, file: File): Promise<ApiResponse<ImportEmailResponse>> => {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    const response = await apiClient.post(`/projects/${projectId}/content/email`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    });
+    return response.data;
+  },
+
+  // Get the address mail can be sent to for this project
+  getIntakeAddress: async (projectId: string): Promise<ApiResponse<IntakeAddress>> => {
+    const response = await apiClient.get(`/projects/${projectId}/content/email-address`);
+    return response.data;
+  },
 };
 
 export default contentItemsApi;
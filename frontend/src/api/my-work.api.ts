@@ -0,0 +1,63 @@
+import apiClient from './client';
+import type { ApiResponse, PlanItemType } from '@/types';
+import type { RaidLevel } from './raid.api';
+
+export type MyWorkKind = 'plan_item' | 'action';
+
+export interface MyWorkParams {
+  // Open work only (default), or include completed items and closed actions
+  status?: 'open' | 'all';
+  projectId?: string;
+  kind?: MyWorkKind;
+}
+
+interface MyWorkItemBase {
+  id: string;
+  title: string;
+  status: string;
+  project: { id: string; name: string; client: string | null };
+  dueDate: string | null;
+  // Negative once the due date has passed
+  daysUntilDue: number | null;
+  isOverdue: boolean;
+}
+
+// A plan item assigned to the user, due on its target end date
+export interface MyWorkPlanItem extends MyWorkItemBase {
+  kind: 'plan_item';
+  workflowStatus: string | null;
+  itemType: Pick<PlanItemType, 'id' | 'name' | 'slug' | 'level' | 'icon' | 'color'>;
+  parent: { id: string; name: string } | null;
+}
+
+// An action item on a project's register owned by the user
+export interface MyWorkAction extends MyWorkItemBase {
+  kind: 'action';
+  owner: string;
+  priority: RaidLevel | null;
+  planItemId: string | null;
+}
+
+export type MyWorkItem = MyWorkPlanItem | MyWorkAction;
+
+export interface MyWork {
+  summary: {
+    total: number;
+    planItems: number;
+    actions: number;
+    overdue: number;
+    dueSoon: number;
+    noDueDate: number;
+  };
+  items: MyWorkItem[];
+}
+
+export const myWorkApi = {
+  // Plan items assigned to the caller and actions they own across projects, soonest due first
+  get: async (params?: MyWorkParams): Promise<ApiResponse<MyWork>> => {
+    const response = await apiClient.get('/my-work', { params });
+    return response.data;
+  },
+};
+
+export default myWorkApi;
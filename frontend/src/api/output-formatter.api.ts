@@ -4,7 +4,7 @@
  */
 
 import apiClient from './client';
-import type { ActivityReport } from './activity-reporter.api';
+import type { ActivityReport, PlanChanges, ScheduleVariance } from './activity-reporter.api';
 import type { PlanItem } from '@/types';
 
 interface ApiResponse<T> {
@@ -16,12 +16,12 @@ interface ApiResponse<T> {
   };
 }
 
-export type SourceType = 'plan' | 'activity_report' | 'combined';
+export type SourceType = 'plan' | 'activity_report' | 'combined' | 'variance' | 'plan_diff' | 'decision_log';
 
 export interface FormatMarkdownRequest {
   sourceType: SourceType;
   projectName: string;
-  data: ActivityReportData | PlanData | CombinedData;
+  data: ActivityReportData | PlanData | CombinedData | VarianceData | PlanDiffData | DecisionLogData;
 }
 
 export interface ActivityReportData {
@@ -39,6 +39,30 @@ export interface CombinedData extends ActivityReportData {
   planItems?: PlanItem[];
 }
 
+export interface VarianceData {
+  scheduleVariance: ScheduleVariance;
+}
+
+export interface PlanDiffData {
+  planChanges: PlanChanges;
+}
+
+export interface DecisionLogData {
+  decisionLog: {
+    asOf: string;
+    decisions: Array<{
+      title: string;
+      description: string | null;
+      decisionMaker: string | null;
+      decisionDate: string | null;
+      rationale: string | null;
+      alternatives: string[];
+      affectedPlanItems: string[];
+      supersededBy: string | null;
+    }>;
+  };
+}
+
 export interface FormatMarkdownResponse {
   content: string;
   filename: string;
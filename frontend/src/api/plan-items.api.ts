@@ -1,5 +1,23 @@
 import apiClient from './client';
-import type { ApiResponse, PlanItem, PlanItemType, PlanItemHistory, CreatePlanItemInput, UpdatePlanItemInput } from '@/types';
+import type {
+  ApiResponse,
+  PlanItem,
+  PlanItemType,
+  PlanItemHistory,
+  PlanHistoryEntry,
+  PlanRevertOptions,
+  PlanRevertResult,
+  PlanItemTransitions,
+  PlanItemDependency,
+  CriticalPathResult,
+  DependencyType,
+  CreatePlanItemInput,
+  UpdatePlanItemInput,
+  BulkUpdatePlanItemsInput,
+  BulkUpdateResult,
+  MovePlanItemInput,
+} from '@/types';
+import type { PlanChangeKind, PlanChanges } from './activity-reporter.api';
 
 export interface PlanTreeResponse {
   items: PlanItem[];
@@ -9,19 +27,93 @@ export interface PlanTreeResponse {
 export interface ListPlanItemsParams {
   status?: PlanItem['status'];
   itemTypeId?: number;
+  // A member's user id, or "me" for the caller
+  assigneeId?: number | 'me';
 }
 
 export interface CsvPreviewResponse {
   headers: string[];
   rows: Record<string, string>[];
   errors: string[];
+  // XLSX only: how each worksheet was read
+  sheets?: Array<{ name: string; layout: 'columns' | 'outline' | 'skipped'; rows: number }>;
 }
 
 export interface ImportResult {
   totalRows: number;
   itemsCreated: number;
   itemsUpdated: number;
-  errors: Array<{ row: number; error: string }>;
+  errors: Array<{ row: number; sheet?: string; error: string }>;
+}
+
+export interface MspdiPreviewResponse extends CsvPreviewResponse {
+  projectName: string | null;
+}
+
+export interface MspdiImportResult extends ImportResult {
+  dependenciesCreated: number;
+}
+
+export interface ProjectHistoryParams {
+  limit?: number;
+  before?: string;
+  batchId?: string;
+}
+
+export interface PlanDiffItemState {
+  name: string;
+  parentId: string | null;
+  parentName: string | null;
+  status: string;
+  startDate: string | null;
+  targetEndDate: string | null;
+}
+
+export interface PlanDiffItem {
+  planItemId: string;
+  name: string;
+  itemType: string;
+  changes: PlanChangeKind[];
+  details: string[];
+  before: PlanDiffItemState | null;
+  after: PlanDiffItemState | null;
+  endShiftDays: number | null;
+}
+
+export interface PlanDiff {
+  from: string;
+  to: string;
+  summary: PlanChanges['summary'];
+  workstreams: Array<{ workstreamId: string; name: string; items: PlanDiffItem[] }>;
+}
+
+export interface CreateDependencyInput {
+  predecessorId: string;
+  successorId: string;
+  type?: DependencyType;
+  lagDays?: number;
+}
+
+// How a link between a plan item and content came about
+export type LinkSource = 'manual' | 'ai' | 'plan_update';
+
+export interface EvidenceContentItem {
+  id: string;
+  title: string;
+  sourceType: string;
+  dateOccurred: string;
+  aiSummary: string | null;
+  fileName: string | null;
+  createdAt: string;
+  linkId: string;
+  linkSource: LinkSource;
+  linkedAt: string;
+}
+
+export interface PlanItemEvidence {
+  contentItems: EvidenceContentItem[];
+  // Activity reports generated from the linked content
+  reports: Array<{ id: string; title: string; periodStart: string; periodEnd: string; createdAt: string }>;
 }
 
 export const planItemsApi = {
@@ -49,6 +141,18 @@ export const planItemsApi = {
     return response.data;
   },
 
+  // Update several plan items at once, recording history for each
+  bulkUpdate: async (input: BulkUpdatePlanItemsInput): Promise<ApiResponse<BulkUpdateResult[]>> => {
+    const response = await apiClient.post('/plan-items/bulk-update', input);
+    return response.data;
+  },
+
+  // Move a plan item to a new parent and/or position among its siblings
+  move: async (id: string, input: MovePlanItemInput): Promise<ApiResponse<PlanItem>> => {
+    const response = await apiClient.post(`/plan-items/${id}/move`, input);
+    return response.data;
+  },
+
   // Delete a plan item
   delete: async (id: string): Promise<ApiResponse<{ message: string }>> => {
     const response = await apiClient.delete(`/plan-items/${id}`);
@@ -61,13 +165,110 @@ export const planItemsApi = {
     return response.data;
   },
 
+  // Revert a single history entry
+  revertChange: async (
+    id: string,
+    historyId: number,
+    options?: PlanRevertOptions
+  ): Promise<ApiResponse<PlanRevertResult>> => {
+    const response = await apiClient.post(`/plan-items/${id}/history/${historyId}/revert`, options ?? {});
+    return response.data;
+  },
+
+  // Get recent changes across the project plan, newest first
+  getProjectHistory: async (
+    projectId: string,
+    params?: ProjectHistoryParams
+  ): Promise<ApiResponse<PlanHistoryEntry[]>> => {
+    const response = await apiClient.get(`/projects/${projectId}/plan/history`, { params });
+    return response.data;
+  },
+
+  // Compare the plan at two points in time (`to` defaults to now)
+  getDiff: async (projectId: string, from: string, to?: string): Promise<ApiResponse<PlanDiff>> => {
+    const response = await apiClient.get(`/projects/${projectId}/plan/diff`, { params: { from, to } });
+    return response.data;
+  },
+
+  // Revert every change in a history batch
+  revertBatch: async (
+    projectId: string,
+    batchId: string,
+    options?: PlanRevertOptions
+  ): Promise<ApiResponse<PlanRevertResult>> => {
+    const response = await apiClient.post(
+      `/projects/${projectId}/plan/history/batches/${batchId}/revert`,
+      options ?? {}
+    );
+    return response.data;
+  },
+
+  // Roll the whole plan back to its state at a point in time
+  revertToTimestamp: async (
+    projectId: string,
+    at: string,
+    options?: PlanRevertOptions
+  ): Promise<ApiResponse<PlanRevertResult>> => {
+    const response = await apiClient.post(`/projects/${projectId}/plan/revert`, { ...options, at });
+    return response.data;
+  },
+
+  // Get the item's current status and the statuses it can move to next
+  getTransitions: async (id: string): Promise<ApiResponse<PlanItemTransitions>> => {
+    const response = await apiClient.get(`/plan-items/${id}/transitions`);
+    return response.data;
+  },
+
   // Get plan item types
   getTypes: async (): Promise<ApiResponse<PlanItemType[]>> => {
     const response = await apiClient.get('/plan-item-types');
     return response.data;
   },
 
-  // Preview CSV import
+  // List dependencies between plan items
+  getDependencies: async (projectId: string): Promise<ApiResponse<PlanItemDependency[]>> => {
+    const response = await apiClient.get(`/projects/${projectId}/plan/dependencies`);
+    return response.data;
+  },
+
+  // Create a dependency between two plan items
+  createDependency: async (
+    projectId: string,
+    input: CreateDependencyInput
+  ): Promise<ApiResponse<PlanItemDependency>> => {
+    const response = await apiClient.post(`/projects/${projectId}/plan/dependencies`, input);
+    return response.data;
+  },
+
+  // Delete a dependency
+  deleteDependency: async (projectId: string, dependencyId: string): Promise<ApiResponse<{ message: string }>> => {
+    const response = await apiClient.delete(`/projects/${projectId}/plan/dependencies/${dependencyId}`);
+    return response.data;
+  },
+
+  // Content and reports linked to a plan item
+  getEvidence: async (id: string): Promise<ApiResponse<PlanItemEvidence>> => {
+    const response = await apiClient.get(`/plan-items/${id}/evidence`);
+    return response.data;
+  },
+
+  linkContent: async (id: string, contentItemId: string): Promise<ApiResponse<{ id: string }>> => {
+    const response = await apiClient.post(`/plan-items/${id}/evidence`, { contentItemId });
+    return response.data;
+  },
+
+  unlinkContent: async (id: string, contentItemId: string): Promise<ApiResponse<{ message: string }>> => {
+    const response = await apiClient.delete(`/plan-items/${id}/evidence/${contentItemId}`);
+    return response.data;
+  },
+
+  // Get critical path with per-item slack
+  getCriticalPath: async (projectId: string): Promise<ApiResponse<CriticalPathResult>> => {
+    const response = await apiClient.get(`/projects/${projectId}/plan/critical-path`);
+    return response.data;
+  },
+
+  // Preview CSV or XLSX import
   previewImport: async (projectId: string, file: File): Promise<ApiResponse<CsvPreviewResponse>> => {
     const formData = new FormData();
     formData.append('file', file);
@@ -77,7 +278,7 @@ export const planItemsApi = {
     return response.data;
   },
 
-  // Import plan items from CSV
+  // Import plan items from CSV or XLSX
   importCsv: async (projectId: string, file: File): Promise<ApiResponse<ImportResult>> => {
     const formData = new FormData();
     formData.append('file', file);
@@ -87,6 +288,50 @@ export const planItemsApi = {
     return response.data;
   },
 
+  // Preview MS Project XML import
+  previewMspdiImport: async (projectId: string, file: File): Promise<ApiResponse<MspdiPreviewResponse>> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    const response = await apiClient.post(`/projects/${projectId}/plan/import/mspdi/preview`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data;
+  },
+
+  // Import plan items from MS Project XML
+  importMspdi: async (projectId: string, file: File): Promise<ApiResponse<MspdiImportResult>> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    const response = await apiClient.post(`/projects/${projectId}/plan/import/mspdi`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data;
+  },
+
+  // Export the plan as MS Project XML (returns the file for download)
+  exportMspdi: async (projectId: string): Promise<Blob> => {
+    const response = await apiClient.get(`/projects/${projectId}/plan/export/mspdi`, {
+      responseType: 'blob',
+    });
+    return response.data as Blob;
+  },
+
+  // Export the plan as an Excel workbook (returns the file for download)
+  exportXlsx: async (projectId: string): Promise<Blob> => {
+    const response = await apiClient.get(`/projects/${projectId}/plan/export/xlsx`, {
+      responseType: 'blob',
+    });
+    return response.data as Blob;
+  },
+
+  // Export plan in the CSV import format, with a column per custom field
+  exportCsv: async (projectId: string): Promise<Blob> => {
+    const response = await apiClient.get(`/projects/${projectId}/plan/export/csv`, {
+      responseType: 'blob',
+    });
+    return response.data as Blob;
+  },
+
   // Get CSV import template URL
   getTemplateUrl: (): string => {
     const baseUrl = apiClient.defaults.baseURL || '';
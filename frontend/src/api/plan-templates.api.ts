@@ -0,0 +1,85 @@
+import apiClient from './client';
+import type { ApiResponse } from '@/types';
+
+export interface PlanTemplate {
+  id: string;
+  organizationId: number;
+  name: string;
+  description: string | null;
+  sourceProjectId: string | null;
+  createdByUserId: number | null;
+  createdByEmail: string | null;
+  itemCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PlanTemplateItem {
+  id: string;
+  parentId: string | null;
+  sortOrder: number;
+  itemTypeSlug: string;
+  name: string;
+  description: string | null;
+  effort: number | null;
+  startOffsetDays: number | null;
+  endOffsetDays: number | null;
+  children: PlanTemplateItem[];
+}
+
+export interface CreatePlanTemplateInput {
+  name: string;
+  description?: string | null;
+}
+
+export interface InstantiatePlanTemplateInput {
+  templateId: string;
+  startDate?: string;
+}
+
+export interface InstantiatePlanTemplateResult {
+  templateId: string;
+  templateName: string;
+  startDate: string;
+  created: number;
+}
+
+export const planTemplatesApi = {
+  // List the organization's plan templates
+  list: async (): Promise<ApiResponse<PlanTemplate[]>> => {
+    const response = await apiClient.get('/plan-templates');
+    return response.data;
+  },
+
+  // Get a template with its item tree
+  get: async (templateId: string): Promise<ApiResponse<PlanTemplate & { items: PlanTemplateItem[] }>> => {
+    const response = await apiClient.get(`/plan-templates/${templateId}`);
+    return response.data;
+  },
+
+  // Delete a template
+  delete: async (templateId: string): Promise<ApiResponse<{ message: string }>> => {
+    const response = await apiClient.delete(`/plan-templates/${templateId}`);
+    return response.data;
+  },
+
+  // Save a project's plan as a template
+  createFromProject: async (
+    projectId: string,
+    data: CreatePlanTemplateInput
+  ): Promise<ApiResponse<PlanTemplate>> => {
+    const response = await apiClient.post(`/projects/${projectId}/plan-templates`, data);
+    return response.data;
+  },
+
+  // Seed a project's plan from a template
+  instantiate: async (
+    projectId: string,
+    data: InstantiatePlanTemplateInput
+  ): Promise<ApiResponse<InstantiatePlanTemplateResult>> => {
+    const response = await apiClient.post(`/projects/${projectId}/plan/from-template`, data);
+    return response.data;
+  },
+};
+
+export default planTemplatesApi;
@@ -40,6 +40,8 @@ export interface ApplyPlanUpdatesInput {
 export interface ApplyPlanUpdatesResponse {
   updated: number;
   historyRecords: number;
+  // History batch for the apply, used to undo it
+  batchId: string | null;
 }
 
 export const planUpdaterApi = {
@@ -0,0 +1,85 @@
+import apiClient from './client';
+import type { ApiResponse, Project } from '@/types';
+import type { Rag, HealthFactorKey } from './projects.api';
+
+export interface PortfolioFilters {
+  client?: string;
+  status?: Project['status'];
+  search?: string;
+}
+
+export interface PortfolioProject {
+  id: string;
+  name: string;
+  client: string | null;
+  status: Project['status'];
+  startDate: string;
+  targetEndDate: string | null;
+  health: {
+    rag: Rag;
+    score: number;
+    factors: Array<{ key: HealthFactorKey; label: string; rag: Rag; detail: string }>;
+  };
+  nextMilestone: {
+    id: string;
+    name: string;
+    status: string;
+    targetEndDate: string;
+    daysUntil: number;
+  } | null;
+  overdueItems: number;
+  blockedItems: number;
+  lastContentIngestedAt: string | null;
+  lastReportAt: string | null;
+}
+
+export interface Portfolio {
+  asOf: string;
+  summary: {
+    totalProjects: number;
+    green: number;
+    amber: number;
+    red: number;
+    overdueItems: number;
+  };
+  // Every client in the organization, for the client filter
+  clients: string[];
+  projects: PortfolioProject[];
+}
+
+export interface PortfolioMilestone {
+  id: string;
+  name: string;
+  status: string;
+  owner: string | null;
+  targetEndDate: string;
+  project: { id: string; name: string; client: string | null };
+  workstream: { id: string; name: string } | null;
+  // Negative once the target date has passed
+  daysUntil: number;
+  isOverdue: boolean;
+}
+
+export interface MilestoneTimeline {
+  from: string;
+  to: string;
+  milestones: PortfolioMilestone[];
+}
+
+export const portfolioApi = {
+  // Every project in the organization with health, next milestone and latest activity
+  getPortfolio: async (filters?: PortfolioFilters & { health?: Rag }): Promise<ApiResponse<Portfolio>> => {
+    const response = await apiClient.get('/portfolio', { params: filters });
+    return response.data;
+  },
+
+  // Open milestones due in the coming days across projects, soonest first
+  getUpcomingMilestones: async (
+    params?: PortfolioFilters & { days?: number; includeOverdue?: boolean }
+  ): Promise<ApiResponse<MilestoneTimeline>> => {
+    const response = await apiClient.get('/portfolio/milestones', { params });
+    return response.data;
+  },
+};
+
+export default portfolioApi;
@@ -1,5 +1,5 @@
 import apiClient from './client';
-import type { ApiResponse, Project } from '@/types';
+import type { ApiResponse, Project, ProgressWeighting } from '@/types';
 
 export interface CreateProjectInput {
   name: string;
@@ -8,6 +8,31 @@ export interface CreateProjectInput {
   startDate: string;
   targetEndDate?: string;
   status?: Project['status'];
+  progressWeighting?: ProgressWeighting;
+  autoRollupStatus?: boolean;
+  statusConfig?: Record<string, unknown>;
+  // Seed the plan from a saved plan template
+  templateId?: string;
+}
+
+export interface CloneProjectInput {
+  name: string;
+  client?: string | null;
+  startDate?: string;
+  resetStatuses?: boolean;
+  resetActualDates?: boolean;
+  includeContent?: boolean;
+  includeReports?: boolean;
+}
+
+export interface ClonedProject extends Project {
+  cloned: {
+    planItems: number;
+    dependencies: number;
+    contentItems: number;
+    contentChunks: number;
+    activityReports: number;
+  };
 }
 
 export interface UpdateProjectInput {
@@ -17,6 +42,9 @@ export interface UpdateProjectInput {
   startDate?: string;
   targetEndDate?: string | null;
   status?: Project['status'];
+  progressWeighting?: ProgressWeighting;
+  autoRollupStatus?: boolean;
+  statusConfig?: Record<string, unknown>;
 }
 
 export interface ListProjectsParams {
@@ -26,6 +54,40 @@ export interface ListProjectsParams {
   status?: Project['status'];
 }
 
+// Health types
+export type Rag = 'green' | 'amber' | 'red';
+
+export type HealthFactorKey = 'scheduleSlipDays' | 'overdueItems' | 'highRisks' | 'blockedItems' | 'contentAgeDays';
+
+export interface RagThreshold {
+  amber: number;
+  red: number;
+}
+
+// Per-project overrides, stored under statusConfig.health
+export type HealthThresholds = Partial<Record<HealthFactorKey, RagThreshold>>;
+
+export interface HealthFactor {
+  key: HealthFactorKey;
+  label: string;
+  value: number | null;
+  rag: Rag;
+  detail: string;
+  threshold: RagThreshold;
+}
+
+export interface HealthAssessment {
+  rag: Rag;
+  score: number;
+  factors: HealthFactor[];
+}
+
+export interface ProjectHealth extends HealthAssessment {
+  asOf: string;
+  thresholds: Record<HealthFactorKey, RagThreshold>;
+  workstreams: Array<HealthAssessment & { planItemId: string; name: string; status: string }>;
+}
+
 // Dashboard types
 export interface ProjectDashboard {
   project: {
@@ -36,11 +98,24 @@ export interface ProjectDashboard {
     status: string;
     startDate: string;
     targetEndDate: string | null;
+    progressWeighting: ProgressWeighting;
+    autoRollupStatus: boolean;
   };
   planItems: {
     total: number;
     byStatus: Array<{ status: string; count: number }>;
     byType: Array<{ type: string; typeId: number; count: number }>;
+    progress: {
+      weighting: ProgressWeighting;
+      overall: number;
+      workstreams: Array<{
+        id: string;
+        name: string;
+        status: string;
+        progress: number;
+        derivedStatus: string;
+      }>;
+    };
   };
   contentItems: {
     total: number;
@@ -63,6 +138,7 @@ export interface ProjectDashboard {
       createdAt: string;
     }>;
   };
+  health: ProjectHealth;
 }
 
 export const projectsApi = {
@@ -91,10 +167,22 @@ export const projectsApi = {
     return response.data;
   },
 
+  // Copy a project's plan (and optionally content and reports) into a new project
+  clone: async (id: string, input: CloneProjectInput): Promise<ApiResponse<ClonedProject>> => {
+    const response = await apiClient.post(`/projects/${id}/clone`, input);
+    return response.data;
+  },
+
   getDashboard: async (projectId: string): Promise<ApiResponse<ProjectDashboard>> => {
     const response = await apiClient.get(`/projects/${projectId}/dashboard`);
     return response.data;
   },
+
+  // Red/amber/green health for the project and each workstream, with contributing factors
+  getHealth: async (projectId: string): Promise<ApiResponse<ProjectHealth>> => {
+    const response = await apiClient.get(`/projects/${projectId}/health`);
+    return response.data;
+  },
 };
 
 export default projectsApi;
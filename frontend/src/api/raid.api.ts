@@ -0,0 +1,253 @@
+import apiClient from './client';
+import type { ApiResponse } from '@/types';
+
+export type RaidItemType = 'risk' | 'action' | 'issue' | 'decision';
+export type RaidItemStatus = 'open' | 'in_progress' | 'resolved' | 'closed';
+export type RaidLevel = 'high' | 'medium' | 'low';
+export type RaidReviewStatus = 'accepted' | 'pending' | 'rejected';
+
+export interface RaidItem {
+  id: string;
+  projectId: string;
+  type: RaidItemType;
+  title: string;
+  description: string | null;
+  owner: string | null;
+  status: RaidItemStatus;
+  severity: RaidLevel | null;
+  likelihood: RaidLevel | null;
+  dueDate: string | null;
+  resolution: string | null;
+  decisionMaker: string | null;
+  decisionDate: string | null;
+  rationale: string | null;
+  alternatives: string[];
+  planItemId: string | null;
+  planItem: { id: string; name: string } | null;
+  affectedPlanItemIds: string[];
+  supersededById: string | null;
+  supersededAt: string | null;
+  reviewStatus: RaidReviewStatus;
+  sourceContentIds: string[];
+  sourceReportIds: string[];
+  lastReportedAt: string | null;
+  closedAt: string | null;
+  createdBy: 'user' | 'intake_agent' | 'activity_reporter';
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateRaidItemInput {
+  type: RaidItemType;
+  title: string;
+  description?: string | null;
+  owner?: string | null;
+  status?: RaidItemStatus;
+  severity?: RaidLevel | null;
+  likelihood?: RaidLevel | null;
+  dueDate?: string | null;
+  resolution?: string | null;
+  decisionMaker?: string | null;
+  decisionDate?: string | null;
+  rationale?: string | null;
+  alternatives?: string[];
+  planItemId?: string | null;
+  affectedPlanItemIds?: string[];
+  sourceContentIds?: string[];
+}
+
+export type UpdateRaidItemInput = Partial<Omit<CreateRaidItemInput, 'type'>>;
+
+export interface ListRaidItemsParams {
+  type?: RaidItemType;
+  status?: RaidItemStatus;
+  owner?: string;
+  planItemId?: string;
+  openOnly?: boolean;
+}
+
+export type ActionTrackerStatus = 'open' | 'done' | 'all';
+
+// Content and reports a register entry was raised in
+export interface RaidItemSources {
+  contentItems: Array<{
+    id: string;
+    title: string;
+    sourceType: string;
+    dateOccurred: string;
+    parentItemId: string | null;
+  }>;
+  reports: Array<{ id: string; title: string; periodStart: string; periodEnd: string }>;
+}
+
+export interface TrackedAction extends RaidItem {
+  ownerUser: { id: number; email: string; firstName: string; lastName: string } | null;
+  daysUntilDue: number | null;
+  isOverdue: boolean;
+  sources: RaidItemSources;
+}
+
+export interface ActionTrackerSummary {
+  open: number;
+  overdue: number;
+  dueSoon: number;
+  done: number;
+}
+
+export interface ListActionsParams {
+  status?: ActionTrackerStatus;
+  owner?: string;
+  overdueOnly?: boolean;
+}
+
+export interface ActionRemindersResult {
+  remindersSent: number;
+  actionsReminded: number;
+  unmatchedOwners: string[];
+}
+
+export type DecisionLogStatus = 'current' | 'superseded' | 'all';
+
+export interface LinkedDecision {
+  id: string;
+  title: string;
+  decisionDate: string | null;
+}
+
+export interface LoggedDecision extends RaidItem {
+  affectedPlanItems: Array<{ id: string; name: string }>;
+  supersededBy: LinkedDecision | null;
+  supersedes: LinkedDecision[];
+  sources: RaidItemSources;
+}
+
+export interface DecisionLogSummary {
+  current: number;
+  superseded: number;
+  pendingReview: number;
+}
+
+export interface ListDecisionsParams {
+  status?: DecisionLogStatus;
+  review?: RaidReviewStatus;
+  planItemId?: string;
+}
+
+export const raidApi = {
+  // List RAID register items for a project
+  list: async (
+    projectId: string,
+    params?: ListRaidItemsParams
+  ): Promise<ApiResponse<{ items: RaidItem[]; total: number }>> => {
+    const response = await apiClient.get(`/projects/${projectId}/raid`, { params });
+    return response.data;
+  },
+
+  // Get a single RAID item
+  get: async (projectId: string, raidItemId: string): Promise<ApiResponse<RaidItem>> => {
+    const response = await apiClient.get(`/projects/${projectId}/raid/${raidItemId}`);
+    return response.data;
+  },
+
+  // Create a RAID item
+  create: async (projectId: string, data: CreateRaidItemInput): Promise<ApiResponse<RaidItem>> => {
+    const response = await apiClient.post(`/projects/${projectId}/raid`, data);
+    return response.data;
+  },
+
+  // Update a RAID item
+  update: async (
+    projectId: string,
+    raidItemId: string,
+    data: UpdateRaidItemInput
+  ): Promise<ApiResponse<RaidItem>> => {
+    const response = await apiClient.put(`/projects/${projectId}/raid/${raidItemId}`, data);
+    return response.data;
+  },
+
+  // Delete a RAID item
+  delete: async (projectId: string, raidItemId: string): Promise<ApiResponse<{ message: string }>> => {
+    const response = await apiClient.delete(`/projects/${projectId}/raid/${raidItemId}`);
+    return response.data;
+  },
+
+  // List the project's action tracker
+  listActions: async (
+    projectId: string,
+    params?: ListActionsParams
+  ): Promise<ApiResponse<{ summary: ActionTrackerSummary; items: TrackedAction[] }>> => {
+    const response = await apiClient.get(`/projects/${projectId}/actions`, { params });
+    return response.data;
+  },
+
+  // Mark an action done
+  completeAction: async (
+    projectId: string,
+    actionId: string,
+    resolution?: string
+  ): Promise<ApiResponse<RaidItem>> => {
+    const response = await apiClient.post(`/projects/${projectId}/actions/${actionId}/complete`, {
+      resolution,
+    });
+    return response.data;
+  },
+
+  // Reopen a done action
+  reopenAction: async (projectId: string, actionId: string): Promise<ApiResponse<RaidItem>> => {
+    const response = await apiClient.post(`/projects/${projectId}/actions/${actionId}/reopen`);
+    return response.data;
+  },
+
+  // Merge a duplicate into an action
+  mergeActions: async (
+    projectId: string,
+    actionId: string,
+    duplicateId: string
+  ): Promise<ApiResponse<RaidItem>> => {
+    const response = await apiClient.post(`/projects/${projectId}/actions/${actionId}/merge`, {
+      duplicateId,
+    });
+    return response.data;
+  },
+
+  // Email owners about their due and overdue actions now
+  sendActionReminders: async (projectId: string): Promise<ApiResponse<ActionRemindersResult>> => {
+    const response = await apiClient.post(`/projects/${projectId}/actions/reminders`);
+    return response.data;
+  },
+
+  // List the decision log, or the review queue with review 'pending'
+  listDecisions: async (
+    projectId: string,
+    params?: ListDecisionsParams
+  ): Promise<ApiResponse<{ summary: DecisionLogSummary; items: LoggedDecision[] }>> => {
+    const response = await apiClient.get(`/projects/${projectId}/decisions`, { params });
+    return response.data;
+  },
+
+  // Mark a decision as replaced by a later one
+  supersedeDecision: async (
+    projectId: string,
+    decisionId: string,
+    supersededById: string
+  ): Promise<ApiResponse<RaidItem>> => {
+    const response = await apiClient.post(`/projects/${projectId}/decisions/${decisionId}/supersede`, {
+      supersededById,
+    });
+    return response.data;
+  },
+
+  // Accept a proposed decision into the log
+  acceptDecision: async (projectId: string, decisionId: string): Promise<ApiResponse<RaidItem>> => {
+    const response = await apiClient.post(`/projects/${projectId}/decisions/${decisionId}/accept`);
+    return response.data;
+  },
+
+  // Reject a proposed decision
+  rejectDecision: async (projectId: string, decisionId: string): Promise<ApiResponse<RaidItem>> => {
+    const response = await apiClient.post(`/projects/${projectId}/decisions/${decisionId}/reject`);
+    return response.data;
+  },
+};
+
+export default raidApi;
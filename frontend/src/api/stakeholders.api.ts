@@ -0,0 +1,100 @@
+import apiClient from './client';
+import type { ApiResponse } from '@/types';
+
+export type StakeholderAffiliation = 'internal' | 'client';
+export type StakeholderReviewStatus = 'accepted' | 'pending' | 'rejected';
+
+export interface Stakeholder {
+  id: string;
+  projectId: string;
+  name: string;
+  aliases: string[];
+  email: string | null;
+  organization: string | null;
+  role: string | null;
+  affiliation: StakeholderAffiliation;
+  reviewStatus: StakeholderReviewStatus;
+  sourceContentIds: string[];
+  createdBy: 'user' | 'intake_agent' | 'activity_reporter';
+  createdByUserId: number | null;
+  createdAt: string;
+  updatedAt: string;
+  // Open actions on the register owned under any of the stakeholder's names
+  openActionCount?: number;
+}
+
+export interface CreateStakeholderInput {
+  name: string;
+  aliases?: string[];
+  email?: string | null;
+  organization?: string | null;
+  role?: string | null;
+  affiliation?: StakeholderAffiliation;
+}
+
+export type UpdateStakeholderInput = Partial<CreateStakeholderInput>;
+
+export interface ListStakeholdersParams {
+  review?: StakeholderReviewStatus;
+  affiliation?: StakeholderAffiliation;
+  search?: string;
+}
+
+export const stakeholdersApi = {
+  // List the project's stakeholder directory, or the suggestions with review=pending
+  list: async (
+    projectId: string,
+    params?: ListStakeholdersParams
+  ): Promise<ApiResponse<{ pendingCount: number; items: Stakeholder[] }>> => {
+    const response = await apiClient.get(`/projects/${projectId}/stakeholders`, { params });
+    return response.data;
+  },
+
+  // Add a stakeholder
+  create: async (projectId: string, data: CreateStakeholderInput): Promise<ApiResponse<Stakeholder>> => {
+    const response = await apiClient.post(`/projects/${projectId}/stakeholders`, data);
+    return response.data;
+  },
+
+  // Update a stakeholder
+  update: async (
+    projectId: string,
+    stakeholderId: string,
+    data: UpdateStakeholderInput
+  ): Promise<ApiResponse<Stakeholder>> => {
+    const response = await apiClient.put(`/projects/${projectId}/stakeholders/${stakeholderId}`, data);
+    return response.data;
+  },
+
+  // Delete a stakeholder
+  delete: async (projectId: string, stakeholderId: string): Promise<ApiResponse<{ message: string }>> => {
+    const response = await apiClient.delete(`/projects/${projectId}/stakeholders/${stakeholderId}`);
+    return response.data;
+  },
+
+  // Accept a suggested stakeholder into the directory
+  accept: async (projectId: string, stakeholderId: string): Promise<ApiResponse<Stakeholder>> => {
+    const response = await apiClient.post(`/projects/${projectId}/stakeholders/${stakeholderId}/accept`);
+    return response.data;
+  },
+
+  // Reject a suggested stakeholder
+  reject: async (projectId: string, stakeholderId: string): Promise<ApiResponse<Stakeholder>> => {
+    const response = await apiClient.post(`/projects/${projectId}/stakeholders/${stakeholderId}/reject`);
+    return response.data;
+  },
+
+  // Fold a duplicate into a stakeholder
+  merge: async (
+    projectId: string,
+    stakeholderId: string,
+    duplicateId: string
+  ): Promise<ApiResponse<Stakeholder>> => {
+    const response = await apiClient.post(`/projects/${projectId}/stakeholders/${stakeholderId}/merge`, {
+      duplicateId,
+    });
+    return response.data;
+  },
+};
+
+export default stakeholdersApi;
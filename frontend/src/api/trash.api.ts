@@ -0,0 +1,76 @@
+import apiClient from './client';
+import type { ApiResponse, Project } from '@/types';
+
+export interface TrashedPlanItem {
+  id: string;
+  name: string;
+  itemType: string;
+  parentId: string | null;
+  parentName: string | null;
+  // Descendants deleted along with this item, restored with it
+  descendantCount: number;
+  deletedAt: string | null;
+  deletedByEmail: string | null;
+  purgeAt: string | null;
+}
+
+export interface TrashedContentItem {
+  id: string;
+  title: string;
+  sourceType: string;
+  dateOccurred: string;
+  chunkCount: number;
+  deletedAt: string | null;
+  deletedByEmail: string | null;
+  purgeAt: string | null;
+}
+
+export interface TrashedProject {
+  id: string;
+  name: string;
+  client: string | null;
+  planItemCount: number;
+  contentItemCount: number;
+  deletedAt: string | null;
+  deletedByEmail: string | null;
+  purgeAt: string | null;
+}
+
+export interface ProjectTrash {
+  retentionDays: number;
+  planItems: TrashedPlanItem[];
+  contentItems: TrashedContentItem[];
+}
+
+export const trashApi = {
+  // Deleted plan items and content in a project
+  getProjectTrash: async (projectId: string): Promise<ApiResponse<ProjectTrash>> => {
+    const response = await apiClient.get(`/projects/${projectId}/trash`);
+    return response.data;
+  },
+
+  // Restore a plan item with the descendants deleted along with it
+  restorePlanItem: async (id: string): Promise<ApiResponse<{ restored: number; batchId: string }>> => {
+    const response = await apiClient.post(`/plan-items/${id}/restore`);
+    return response.data;
+  },
+
+  // Restore a content item and its chunks
+  restoreContentItem: async (id: string): Promise<ApiResponse<{ restored: number; chunksRestored: number }>> => {
+    const response = await apiClient.post(`/content-items/${id}/restore`);
+    return response.data;
+  },
+
+  // Deleted projects in the organization
+  listDeletedProjects: async (): Promise<ApiResponse<TrashedProject[]>> => {
+    const response = await apiClient.get('/projects/trash');
+    return response.data;
+  },
+
+  restoreProject: async (id: string): Promise<ApiResponse<Project>> => {
+    const response = await apiClient.post(`/projects/${id}/restore`);
+    return response.data;
+  },
+};
+
+export default trashApi;
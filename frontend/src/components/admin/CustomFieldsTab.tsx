@@ -0,0 +1,392 @@
+/**
+ * Custom Fields Tab - Organization-defined fields captured on plan items
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Plus, Pencil, Trash2, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAuthStore } from '@/stores/authStore';
+import {
+  configApi,
+  type CustomField,
+  type CustomFieldType,
+  type PlanItemType,
+} from '@/api/config.api';
+
+const FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  select: 'Select',
+  user: 'User',
+};
+
+const ALL_TYPES = 'all';
+
+export function CustomFieldsTab() {
+  const { currentRole } = useAuthStore();
+  const isOrgAdmin = (currentRole?.level ?? 0) >= 40;
+
+  const [fields, setFields] = useState<CustomField[]>([]);
+  const [itemTypes, setItemTypes] = useState<PlanItemType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingField, setEditingField] = useState<CustomField | null>(null);
+  const [fieldToDelete, setFieldToDelete] = useState<CustomField | null>(null);
+
+  const fetchFields = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [fieldsRes, typesRes] = await Promise.all([
+        configApi.listCustomFields(),
+        configApi.listPlanItemTypes({ limit: 100 }),
+      ]);
+      if (fieldsRes.success && fieldsRes.data) {
+        setFields(fieldsRes.data);
+      }
+      if (typesRes.success && typesRes.data) {
+        setItemTypes(typesRes.data.items);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchFields();
+  }, [fetchFields]);
+
+  const handleCreate = () => {
+    setEditingField(null);
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (field: CustomField) => {
+    setEditingField(field);
+    setDialogOpen(true);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!fieldToDelete) return;
+    await configApi.deleteCustomField(fieldToDelete.id);
+    setFieldToDelete(null);
+    fetchFields();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Custom Fields</CardTitle>
+            <CardDescription>
+              Extra fields captured on plan items, for all item types or just one.
+            </CardDescription>
+          </div>
+          {isOrgAdmin && (
+            <Button onClick={handleCreate}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Field
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : fields.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No custom fields defined yet.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Label</TableHead>
+                <TableHead>Key</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Required</TableHead>
+                {isOrgAdmin && <TableHead className="text-right">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {fields.map((field) => (
+                <TableRow key={field.id}>
+                  <TableCell className="font-medium">{field.label}</TableCell>
+                  <TableCell>
+                    <code className="text-sm">{field.key}</code>
+                  </TableCell>
+                  <TableCell>
+                    {FIELD_TYPE_LABELS[field.fieldType]}
+                    {field.fieldType === 'select' && (
+                      <span className="ml-1 text-xs text-muted-foreground">
+                        ({field.options.join(', ')})
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>{field.planItemType?.name ?? 'All types'}</TableCell>
+                  <TableCell>
+                    {field.required ? <Badge variant="secondary">Required</Badge> : '-'}
+                  </TableCell>
+                  {isOrgAdmin && (
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => handleEdit(field)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setFieldToDelete(field)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <CustomFieldDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        field={editingField}
+        itemTypes={itemTypes}
+        onSaved={fetchFields}
+      />
+
+      <AlertDialog open={!!fieldToDelete} onOpenChange={(open) => !open && setFieldToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Custom Field</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete "{fieldToDelete?.label}"? Values already entered on plan items will no longer
+              be shown.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
+
+interface CustomFieldDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  field: CustomField | null;
+  itemTypes: PlanItemType[];
+  onSaved: () => void;
+}
+
+function CustomFieldDialog({ open, onOpenChange, field, itemTypes, onSaved }: CustomFieldDialogProps) {
+  const [label, setLabel] = useState('');
+  const [key, setKey] = useState('');
+  const [description, setDescription] = useState('');
+  const [fieldType, setFieldType] = useState<CustomFieldType>('text');
+  const [planItemTypeId, setPlanItemTypeId] = useState(ALL_TYPES);
+  const [options, setOptions] = useState('');
+  const [required, setRequired] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setLabel(field?.label ?? '');
+    setKey(field?.key ?? '');
+    setDescription(field?.description ?? '');
+    setFieldType(field?.fieldType ?? 'text');
+    setPlanItemTypeId(field?.planItemTypeId ? String(field.planItemTypeId) : ALL_TYPES);
+    setOptions(field?.options.join(', ') ?? '');
+    setRequired(field?.required ?? false);
+    setError('');
+  }, [field, open]);
+
+  const handleLabelChange = (value: string) => {
+    setLabel(value);
+    if (!field) {
+      setKey(value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, ''));
+    }
+  };
+
+  const handleSave = async () => {
+    if (!label.trim() || !key.trim()) return;
+
+    const common = {
+      label: label.trim(),
+      description: description.trim() || null,
+      planItemTypeId: planItemTypeId === ALL_TYPES ? null : parseInt(planItemTypeId, 10),
+      options: options.split(',').map(o => o.trim()).filter(Boolean),
+      required,
+    };
+
+    setSaving(true);
+    setError('');
+    try {
+      if (field) {
+        await configApi.updateCustomField(field.id, common);
+      } else {
+        await configApi.createCustomField({ ...common, key: key.trim(), fieldType });
+      }
+      onOpenChange(false);
+      onSaved();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to save custom field');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{field ? 'Edit Custom Field' : 'Create Custom Field'}</DialogTitle>
+          <DialogDescription>
+            The key is used in API requests and CSV columns and cannot be changed later.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          {error && (
+            <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="cf-label">Label *</Label>
+            <Input
+              id="cf-label"
+              value={label}
+              onChange={(e) => handleLabelChange(e.target.value)}
+              placeholder="e.g., Budget code"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="cf-key">Key *</Label>
+            <Input
+              id="cf-key"
+              value={key}
+              onChange={(e) => setKey(e.target.value)}
+              placeholder="e.g., budget_code"
+              disabled={!!field}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={fieldType}
+                onValueChange={(v) => setFieldType(v as CustomFieldType)}
+                disabled={!!field}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FIELD_TYPE_LABELS).map(([value, text]) => (
+                    <SelectItem key={value} value={value}>{text}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Applies To</Label>
+              <Select value={planItemTypeId} onValueChange={setPlanItemTypeId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_TYPES}>All types</SelectItem>
+                  {itemTypes.map((type) => (
+                    <SelectItem key={type.id} value={String(type.id)}>{type.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {fieldType === 'select' && (
+            <div className="space-y-2">
+              <Label htmlFor="cf-options">Options *</Label>
+              <Input
+                id="cf-options"
+                value={options}
+                onChange={(e) => setOptions(e.target.value)}
+                placeholder="Comma separated, e.g., Low, Medium, High"
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="cf-description">Description</Label>
+            <Input
+              id="cf-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional help text"
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="cf-required">Required</Label>
+              <p className="text-sm text-muted-foreground">
+                Must be filled in when items are created or edited.
+              </p>
+            </div>
+            <Switch id="cf-required" checked={required} onCheckedChange={setRequired} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!label.trim() || !key.trim() || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {field ? 'Save Changes' : 'Create Field'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,466 @@
+/**
+ * Status Workflows Tab - Custom statuses and allowed transitions per plan item type
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Plus, Pencil, Trash2, Loader2, ArrowRight, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAuthStore } from '@/stores/authStore';
+import {
+  configApi,
+  type PlanItemType,
+  type PlanItemStatusCategory,
+  type StatusWorkflow,
+  type TransitionRequirableField,
+  type WorkflowStatus,
+  type WorkflowTransition,
+} from '@/api/config.api';
+
+const CATEGORY_LABELS: Record<PlanItemStatusCategory, string> = {
+  not_started: 'Not Started',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  on_hold: 'On Hold',
+  blocked: 'Blocked',
+  cancelled: 'Cancelled',
+};
+
+const REQUIRABLE_FIELDS: Array<{ value: TransitionRequirableField; label: string }> = [
+  { value: 'owner', label: 'Owner' },
+  { value: 'startDate', label: 'Start date' },
+  { value: 'targetEndDate', label: 'Target end' },
+  { value: 'actualStartDate', label: 'Actual start' },
+  { value: 'actualEndDate', label: 'Actual end' },
+  { value: 'effort', label: 'Effort' },
+  { value: 'notes', label: 'Notes' },
+];
+
+// Starting point for a type without a workflow: the built-in statuses with a typical lifecycle
+const DEFAULT_STATUSES: WorkflowStatus[] = (Object.keys(CATEGORY_LABELS) as PlanItemStatusCategory[]).map(
+  (category) => ({ key: category, label: CATEGORY_LABELS[category], category })
+);
+
+const DEFAULT_TRANSITIONS: WorkflowTransition[] = [
+  { from: 'not_started', to: 'in_progress', requiredFields: [], requireReason: false },
+  { from: 'in_progress', to: 'completed', requiredFields: ['actualEndDate'], requireReason: false },
+  { from: 'in_progress', to: 'on_hold', requiredFields: [], requireReason: true },
+  { from: 'in_progress', to: 'blocked', requiredFields: [], requireReason: true },
+  { from: 'on_hold', to: 'in_progress', requiredFields: [], requireReason: false },
+  { from: 'blocked', to: 'in_progress', requiredFields: [], requireReason: false },
+  { from: 'not_started', to: 'cancelled', requiredFields: [], requireReason: true },
+  { from: 'in_progress', to: 'cancelled', requiredFields: [], requireReason: true },
+];
+
+const selectClassName =
+  'flex h-9 w-full rounded-md border border-input bg-background px-2 py-1 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+const toKey = (label: string) =>
+  label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '');
+
+export function StatusWorkflowsTab() {
+  const { currentRole } = useAuthStore();
+  const isOrgAdmin = (currentRole?.level ?? 0) >= 40;
+
+  const [workflows, setWorkflows] = useState<StatusWorkflow[]>([]);
+  const [itemTypes, setItemTypes] = useState<PlanItemType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingType, setEditingType] = useState<PlanItemType | null>(null);
+  const [typeToReset, setTypeToReset] = useState<PlanItemType | null>(null);
+
+  const fetchWorkflows = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [workflowsRes, typesRes] = await Promise.all([
+        configApi.listStatusWorkflows(),
+        configApi.listPlanItemTypes({ limit: 100 }),
+      ]);
+      if (workflowsRes.success && workflowsRes.data) {
+        setWorkflows(workflowsRes.data);
+      }
+      if (typesRes.success && typesRes.data) {
+        setItemTypes([...typesRes.data.items].sort((a, b) => a.level - b.level));
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWorkflows();
+  }, [fetchWorkflows]);
+
+  const workflowFor = (type: PlanItemType) => workflows.find((w) => w.planItemTypeId === type.id);
+
+  const handleConfirmReset = async () => {
+    if (!typeToReset) return;
+    await configApi.deleteStatusWorkflow(typeToReset.id);
+    setTypeToReset(null);
+    fetchWorkflows();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Status Workflows</CardTitle>
+        <CardDescription>
+          Custom statuses and allowed transitions for each plan item type. Each status counts as one
+          of the built-in statuses for progress roll-up and reports.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item Type</TableHead>
+                <TableHead>Statuses</TableHead>
+                <TableHead>Transitions</TableHead>
+                {isOrgAdmin && <TableHead className="text-right">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {itemTypes.map((type) => {
+                const workflow = workflowFor(type);
+                return (
+                  <TableRow key={type.id}>
+                    <TableCell className="font-medium">{type.name}</TableCell>
+                    <TableCell>
+                      {workflow ? (
+                        <div className="flex flex-wrap gap-1">
+                          {workflow.statuses.map((status) => (
+                            <Badge
+                              key={status.key}
+                              variant={status.key === workflow.initialStatus ? 'default' : 'secondary'}
+                            >
+                              {status.label}
+                            </Badge>
+                          ))}
+                        </div>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">Built-in statuses</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{workflow ? workflow.transitions.length : 'Any'}</TableCell>
+                    {isOrgAdmin && (
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="ghost" size="sm" onClick={() => setEditingType(type)}>
+                            {workflow ? <Pencil className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+                          </Button>
+                          {workflow && (
+                            <Button variant="ghost" size="sm" onClick={() => setTypeToReset(type)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <StatusWorkflowDialog
+        itemType={editingType}
+        workflow={editingType ? workflowFor(editingType) ?? null : null}
+        onOpenChange={(open) => !open && setEditingType(null)}
+        onSaved={fetchWorkflows}
+      />
+
+      <AlertDialog open={!!typeToReset} onOpenChange={(open) => !open && setTypeToReset(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove Status Workflow</AlertDialogTitle>
+            <AlertDialogDescription>
+              {typeToReset?.name} items will go back to the built-in statuses. Their current status
+              category is kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmReset}>Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
+
+interface StatusWorkflowDialogProps {
+  itemType: PlanItemType | null;
+  workflow: StatusWorkflow | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+function StatusWorkflowDialog({ itemType, workflow, onOpenChange, onSaved }: StatusWorkflowDialogProps) {
+  const [statuses, setStatuses] = useState<WorkflowStatus[]>([]);
+  const [transitions, setTransitions] = useState<WorkflowTransition[]>([]);
+  const [initialStatus, setInitialStatus] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setStatuses(workflow?.statuses ?? DEFAULT_STATUSES);
+    setTransitions(workflow?.transitions ?? DEFAULT_TRANSITIONS);
+    setInitialStatus(workflow?.initialStatus ?? 'not_started');
+    setError('');
+  }, [workflow, itemType]);
+
+  const updateStatus = (index: number, changes: Partial<WorkflowStatus>) => {
+    const previousKey = statuses[index].key;
+    setStatuses((prev) => prev.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+
+    // Keep transitions and the initial status pointing at a renamed key
+    if (changes.key !== undefined && changes.key !== previousKey) {
+      const rename = (key: string) => (key === previousKey ? changes.key! : key);
+      setTransitions((prev) => prev.map((t) => ({ ...t, from: rename(t.from), to: rename(t.to) })));
+      setInitialStatus((prev) => rename(prev));
+    }
+  };
+
+  // Unsaved statuses take their key from the label until the key is edited by hand. Saved keys
+  // stay put, since items already refer to them.
+  const handleLabelChange = (index: number, label: string) => {
+    const status = statuses[index];
+    const isSaved = workflow?.statuses.some((s) => s.key === status.key);
+    const isDerived = status.key === '' || status.key === toKey(status.label);
+    updateStatus(index, { label, ...(!isSaved && isDerived && { key: toKey(label) }) });
+  };
+
+  const removeStatus = (index: number) => {
+    const key = statuses[index].key;
+    setStatuses((prev) => prev.filter((_, i) => i !== index));
+    setTransitions((prev) => prev.filter((t) => t.from !== key && t.to !== key));
+  };
+
+  const addStatus = () => {
+    setStatuses((prev) => [...prev, { key: '', label: '', category: 'in_progress' }]);
+  };
+
+  const updateTransition = (index: number, changes: Partial<WorkflowTransition>) => {
+    setTransitions((prev) => prev.map((t, i) => (i === index ? { ...t, ...changes } : t)));
+  };
+
+  const toggleRequiredField = (index: number, field: TransitionRequirableField) => {
+    const current = transitions[index].requiredFields;
+    updateTransition(index, {
+      requiredFields: current.includes(field) ? current.filter((f) => f !== field) : [...current, field],
+    });
+  };
+
+  const addTransition = () => {
+    const first = statuses[0]?.key ?? '';
+    const second = statuses[1]?.key ?? first;
+    setTransitions((prev) => [...prev, { from: first, to: second, requiredFields: [], requireReason: false }]);
+  };
+
+  const handleSave = async () => {
+    if (!itemType) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      await configApi.upsertStatusWorkflow(itemType.id, {
+        statuses: statuses.map((s) => ({ ...s, key: s.key.trim(), label: s.label.trim() })),
+        transitions,
+        initialStatus,
+      });
+      onOpenChange(false);
+      onSaved();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to save status workflow');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const labelFor = (key: string) => statuses.find((s) => s.key === key)?.label || key;
+
+  return (
+    <Dialog open={!!itemType} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{itemType?.name} Workflow</DialogTitle>
+          <DialogDescription>
+            Items can only move along the transitions listed here. Each status counts as its
+            category for roll-up and reports.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 py-4">
+          {error && (
+            <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Statuses</Label>
+              <Button type="button" variant="outline" size="sm" onClick={addStatus}>
+                <Plus className="mr-1 h-4 w-4" />
+                Add Status
+              </Button>
+            </div>
+            {statuses.map((status, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] items-center gap-2">
+                <Input
+                  value={status.label}
+                  onChange={(e) => handleLabelChange(index, e.target.value)}
+                  placeholder="Label, e.g., In Review"
+                />
+                <Input
+                  value={status.key}
+                  onChange={(e) => updateStatus(index, { key: e.target.value })}
+                  placeholder="key"
+                  className="font-mono text-sm"
+                />
+                <select
+                  value={status.category}
+                  onChange={(e) => updateStatus(index, { category: e.target.value as PlanItemStatusCategory })}
+                  className={selectClassName}
+                >
+                  {Object.entries(CATEGORY_LABELS).map(([value, text]) => (
+                    <option key={value} value={value}>Counts as {text}</option>
+                  ))}
+                </select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeStatus(index)}
+                  disabled={statuses.length <= 1}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="wf-initial">Initial Status</Label>
+            <select
+              id="wf-initial"
+              value={initialStatus}
+              onChange={(e) => setInitialStatus(e.target.value)}
+              className={selectClassName}
+            >
+              {statuses.filter((s) => s.key).map((s) => (
+                <option key={s.key} value={s.key}>{s.label || s.key}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Transitions</Label>
+              <Button type="button" variant="outline" size="sm" onClick={addTransition}>
+                <Plus className="mr-1 h-4 w-4" />
+                Add Transition
+              </Button>
+            </div>
+            {transitions.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No transitions: items stay in the status they were created with.
+              </p>
+            )}
+            {transitions.map((transition, index) => (
+              <div key={index} className="space-y-2 rounded-md border p-3">
+                <div className="grid grid-cols-[1fr_auto_1fr_auto] items-center gap-2">
+                  <select
+                    value={transition.from}
+                    onChange={(e) => updateTransition(index, { from: e.target.value })}
+                    className={selectClassName}
+                    aria-label="From status"
+                  >
+                    {statuses.filter((s) => s.key).map((s) => (
+                      <option key={s.key} value={s.key}>{labelFor(s.key)}</option>
+                    ))}
+                  </select>
+                  <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                  <select
+                    value={transition.to}
+                    onChange={(e) => updateTransition(index, { to: e.target.value })}
+                    className={selectClassName}
+                    aria-label="To status"
+                  >
+                    {statuses.filter((s) => s.key).map((s) => (
+                      <option key={s.key} value={s.key}>{labelFor(s.key)}</option>
+                    ))}
+                  </select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setTransitions((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+                  <span className="text-muted-foreground">Requires:</span>
+                  {REQUIRABLE_FIELDS.map((field) => (
+                    <label key={field.value} className="flex items-center gap-1.5">
+                      <Checkbox
+                        checked={transition.requiredFields.includes(field.value)}
+                        onCheckedChange={() => toggleRequiredField(index, field.value)}
+                      />
+                      {field.label}
+                    </label>
+                  ))}
+                  <label className="flex items-center gap-1.5">
+                    <Checkbox
+                      checked={transition.requireReason}
+                      onCheckedChange={(checked) => updateTransition(index, { requireReason: checked })}
+                    />
+                    Reason
+                  </label>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || statuses.some((s) => !s.key || !s.label)}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Workflow
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,320 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, MessageSquare, Reply, Pencil, Trash2, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuthStore } from '@/stores/authStore';
+import { cn } from '@/lib/utils';
+import commentsApi, { type Comment, type CommentEntityType, type CommentUser } from '@/api/comments.api';
+
+interface CommentThreadProps {
+  entityType: CommentEntityType;
+  entityId: string;
+  // Called once the thread has been marked as read, so callers can refresh unread badges
+  onRead?: () => void;
+}
+
+interface CommentComposerProps {
+  members: CommentUser[];
+  initialValue?: string;
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}
+
+const fullName = (user: CommentUser) => `${user.firstName} ${user.lastName}`;
+
+// The @handle being typed just before the caret, if any
+const MENTION_IN_PROGRESS = /(^|[^\w@.])@([\w.+-]*)$/;
+
+function CommentComposer({ members, initialValue = '', placeholder, submitLabel, onSubmit, onCancel }: CommentComposerProps) {
+  const [value, setValue] = useState(initialValue);
+  const [caret, setCaret] = useState(initialValue.length);
+  const [submitting, setSubmitting] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const mention = MENTION_IN_PROGRESS.exec(value.slice(0, caret));
+  const query = mention?.[2].toLowerCase();
+  const suggestions = query !== undefined
+    ? members
+        .filter((m) => m.email.toLowerCase().startsWith(query) || fullName(m).toLowerCase().includes(query))
+        .slice(0, 6)
+    : [];
+
+  // Mention by the part of the email before the @ unless another member shares it
+  const handleFor = (user: CommentUser) => {
+    const localPart = user.email.split('@')[0].toLowerCase();
+    const shared = members.filter((m) => m.email.split('@')[0].toLowerCase() === localPart).length > 1;
+    return shared ? user.email : user.email.split('@')[0];
+  };
+
+  const insertMention = (user: CommentUser) => {
+    if (!mention) return;
+    const start = caret - mention[2].length;
+    const inserted = `${handleFor(user)} `;
+    const next = value.slice(0, start) + inserted + value.slice(caret);
+    setValue(next);
+    setCaret(start + inserted.length);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(start + inserted.length, start + inserted.length);
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!value.trim()) return;
+    setSubmitting(true);
+    try {
+      await onSubmit(value.trim());
+      setValue('');
+      setCaret(0);
+    } catch {
+      // Keep the text so it can be retried; the thread shows the error
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={value}
+          placeholder={placeholder}
+          rows={2}
+          onChange={(e) => {
+            setValue(e.target.value);
+            setCaret(e.target.selectionStart);
+          }}
+          onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault();
+              handleSubmit();
+            }
+          }}
+        />
+        {suggestions.length > 0 && (
+          <div className="absolute left-0 right-0 top-full z-10 mt-1 rounded-md border bg-popover shadow-md">
+            {suggestions.map((user) => (
+              <button
+                key={user.id}
+                type="button"
+                className="flex w-full items-center justify-between px-3 py-1.5 text-left text-sm hover:bg-accent"
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  insertMention(user);
+                }}
+              >
+                <span>{fullName(user)}</span>
+                <span className="text-xs text-muted-foreground">{user.email}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel} disabled={submitting}>
+            Cancel
+          </Button>
+        )}
+        <Button size="sm" onClick={handleSubmit} disabled={submitting || !value.trim()}>
+          {submitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function CommentThread({ entityType, entityId, onRead }: CommentThreadProps) {
+  const { user, currentRole } = useAuthStore();
+  const isOrgAdmin = (currentRole?.level ?? 0) >= 40;
+
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [members, setMembers] = useState<CommentUser[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<number | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  const onReadRef = useRef(onRead);
+  onReadRef.current = onRead;
+
+  const fetchThread = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await commentsApi.list(entityType, entityId);
+      if (response.success && response.data) {
+        setComments(response.data.comments);
+        // Unread comments stay highlighted until the next load
+        const hasUnread = response.data.comments.some(
+          (c) => c.isUnread || c.replies.some((r) => r.isUnread)
+        );
+        if (hasUnread) {
+          await commentsApi.markRead(entityType, entityId);
+          onReadRef.current?.();
+        }
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to load comments');
+    } finally {
+      setLoading(false);
+    }
+  }, [entityType, entityId]);
+
+  useEffect(() => {
+    fetchThread();
+  }, [fetchThread]);
+
+  useEffect(() => {
+    commentsApi
+      .getMentionable()
+      .then((response) => {
+        if (response.success && response.data) setMembers(response.data);
+      })
+      .catch((err) => console.error('Failed to load mentionable users:', err));
+  }, []);
+
+  // Run a change, surfacing its error, then reload the thread
+  const run = async (change: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await change();
+      await fetchThread();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to save comment');
+      throw err;
+    }
+  };
+
+  const handleCreate = (body: string, parentId?: number) =>
+    run(async () => {
+      await commentsApi.create({ entityType, entityId, body, parentId });
+      setReplyingTo(null);
+    });
+
+  const handleUpdate = (id: number, body: string) =>
+    run(async () => {
+      await commentsApi.update(id, body);
+      setEditingId(null);
+    });
+
+  const handleDelete = (comment: Comment) => {
+    if (!confirm('Delete this comment?')) return;
+    run(() => commentsApi.delete(comment.id)).catch(() => undefined);
+  };
+
+  const unreadCount = comments.reduce(
+    (sum, c) => sum + (c.isUnread ? 1 : 0) + c.replies.filter((r) => r.isUnread).length,
+    0
+  );
+
+  const renderComment = (comment: Comment, isReply: boolean) => {
+    const isAuthor = comment.author.id === user?.id;
+
+    return (
+      <div
+        key={comment.id}
+        className={cn(
+          'rounded-md border p-3',
+          isReply && 'ml-6',
+          comment.isUnread && 'border-blue-300 bg-blue-50/50'
+        )}
+      >
+        <div className="flex items-center gap-2 text-sm">
+          <span className="font-medium">{fullName(comment.author)}</span>
+          <span className="text-xs text-muted-foreground">
+            {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+          </span>
+          {comment.editedAt && <span className="text-xs text-muted-foreground">(edited)</span>}
+          {comment.isUnread && <Badge className="bg-blue-100 text-blue-700">New</Badge>}
+          {!comment.isDeleted && (
+            <div className="ml-auto flex gap-1">
+              {!isReply && (
+                <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => setReplyingTo(comment.id)}>
+                  <Reply className="h-3 w-3" />
+                </Button>
+              )}
+              {isAuthor && (
+                <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => setEditingId(comment.id)}>
+                  <Pencil className="h-3 w-3" />
+                </Button>
+              )}
+              {(isAuthor || isOrgAdmin) && (
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-destructive" onClick={() => handleDelete(comment)}>
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {comment.isDeleted ? (
+          <p className="mt-1 text-sm italic text-muted-foreground">This comment was deleted.</p>
+        ) : editingId === comment.id ? (
+          <div className="mt-2">
+            <CommentComposer
+              members={members}
+              initialValue={comment.body ?? ''}
+              placeholder="Edit comment"
+              submitLabel="Save"
+              onSubmit={(body) => handleUpdate(comment.id, body)}
+              onCancel={() => setEditingId(null)}
+            />
+          </div>
+        ) : (
+          <p className="mt-1 whitespace-pre-wrap text-sm">{comment.body}</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <MessageSquare className="h-4 w-4 text-muted-foreground" />
+        <span className="text-sm font-semibold">Comments</span>
+        {unreadCount > 0 && <Badge className="bg-blue-100 text-blue-700">{unreadCount} new</Badge>}
+        {loading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>
+      )}
+
+      {comments.length === 0 && !loading && (
+        <p className="text-sm text-muted-foreground">No comments yet.</p>
+      )}
+
+      {comments.map((comment) => (
+        <div key={comment.id} className="space-y-2">
+          {renderComment(comment, false)}
+          {comment.replies.map((reply) => renderComment(reply, true))}
+          {replyingTo === comment.id && (
+            <div className="ml-6">
+              <CommentComposer
+                members={members}
+                placeholder="Reply… use @ to mention someone"
+                submitLabel="Reply"
+                onSubmit={(body) => handleCreate(body, comment.id)}
+                onCancel={() => setReplyingTo(null)}
+              />
+            </div>
+          )}
+        </div>
+      ))}
+
+      <CommentComposer
+        members={members}
+        placeholder="Add a comment… use @ to mention someone"
+        submitLabel="Comment"
+        onSubmit={(body) => handleCreate(body)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { Rag } from '@/api/projects.api';
+
+interface HealthBadgeProps {
+  rag: Rag;
+  score?: number;
+  className?: string;
+}
+
+const ragConfig: Record<Rag, { label: string; className: string; dotClass: string }> = {
+  green: {
+    label: 'Green',
+    className: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+    dotClass: 'bg-emerald-500',
+  },
+  amber: {
+    label: 'Amber',
+    className: 'bg-amber-50 text-amber-700 border-amber-200',
+    dotClass: 'bg-amber-500',
+  },
+  red: {
+    label: 'Red',
+    className: 'bg-red-50 text-red-700 border-red-200',
+    dotClass: 'bg-red-500',
+  },
+};
+
+export function HealthBadge({ rag, score, className }: HealthBadgeProps) {
+  const config = ragConfig[rag];
+
+  return (
+    <Badge variant="outline" className={cn('gap-1.5 border font-medium', config.className, className)}>
+      <span className={cn('h-2 w-2 rounded-full', config.dotClass)} />
+      {config.label}
+      {score !== undefined && <span className="font-normal opacity-75">{score}</span>}
+    </Badge>
+  );
+}
+
+// Dot-only variant for tight spaces such as factor lists
+export function HealthDot({ rag, className }: { rag: Rag; className?: string }) {
+  return <span className={cn('inline-block h-2 w-2 shrink-0 rounded-full', ragConfig[rag].dotClass, className)} />;
+}
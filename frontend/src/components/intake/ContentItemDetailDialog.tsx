@@ -1,3 +1,4 @@
+import { useState, useEffect } from 'react';
 import { format } from 'date-fns';
 import {
   FileText,
@@ -24,7 +25,20 @@ import {
 } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
 import { Label } from '@/components/ui/label';
-import type { ContentItem, ContentType, ActivityItemType } from '@/api/content-items.api';
+import { CommentThread } from '@/components/common/CommentThread';
+import { StatusBadge } from '@/components/plan/StatusBadge';
+import contentItemsApi, {
+  type ContentItem,
+  type ContentType,
+  type ActivityItemType,
+  type LinkedPlanItem,
+} from '@/api/content-items.api';
+
+// Headers kept from an imported email
+interface EmailSourceMetadata {
+  from?: { name: string | null; address: string } | null;
+  participants?: string[];
+}
 
 interface ContentItemDetailDialogProps {
   item: ContentItem | null;
@@ -34,6 +48,43 @@ interface ContentItemDetailDialogProps {
   activityTypes: ActivityItemType[];
 }
 
+// Plan items the content is linked to, loaded separately so trashed items are left out
+function LinkedPlanItems({ contentItemId }: { contentItemId: string }) {
+  const [planItems, setPlanItems] = useState<LinkedPlanItem[]>([]);
+
+  useEffect(() => {
+    contentItemsApi
+      .getLinkedPlanItems(contentItemId)
+      .then((response) => {
+        if (response.success && response.data) setPlanItems(response.data);
+      })
+      .catch((err) => console.error('Failed to load linked plan items:', err));
+  }, [contentItemId]);
+
+  if (planItems.length === 0) return null;
+
+  return (
+    <div>
+      <Label className="text-xs text-muted-foreground uppercase">Linked Plan Items</Label>
+      <div className="mt-1 space-y-1">
+        {planItems.map((planItem) => (
+          <div key={planItem.id} className="flex items-center gap-2 text-sm">
+            <Link className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <span className="flex-1 truncate">{planItem.name}</span>
+            <span className="text-xs text-muted-foreground">{planItem.itemType.name}</span>
+            <StatusBadge status={planItem.status} size="sm" />
+            {planItem.linkSource === 'ai' && (
+              <span title="Suggested by AI">
+                <Sparkles className="h-3 w-3 text-muted-foreground" />
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 export function ContentItemDetailDialog({
   item,
   open,
@@ -152,6 +203,30 @@ export function ContentItemDetailDialog({
 
             <hr className="my-4 border-t border-gray-200" />
 
+            {/* Email participants */}
+            {item.sourceType === 'email' && item.sourceMetadata && (() => {
+              const email = item.sourceMetadata as EmailSourceMetadata;
+              return (
+                <div>
+                  <Label className="text-xs text-muted-foreground uppercase">Email</Label>
+                  {email.from && (
+                    <p className="text-sm mt-2">
+                      From {email.from.name ? `${email.from.name} <${email.from.address}>` : email.from.address}
+                    </p>
+                  )}
+                  {email.participants && email.participants.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {email.participants.map((address) => (
+                        <Badge key={address} variant="outline">
+                          {address}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })()}
+
             {/* Tags */}
             {item.tags.length > 0 && (
               <div>
@@ -202,15 +277,7 @@ export function ContentItemDetailDialog({
             )}
 
             {/* Linked Plan Items */}
-            {item.planItemIds.length > 0 && (
-              <div>
-                <Label className="text-xs text-muted-foreground uppercase">Linked Plan Items</Label>
-                <p className="text-sm mt-1 flex items-center gap-1">
-                  <Link className="h-4 w-4 text-muted-foreground" />
-                  {item.planItemIds.length} plan item(s) linked
-                </p>
-              </div>
-            )}
+            {item.planItemIds.length > 0 && <LinkedPlanItems contentItemId={item.id} />}
 
             <hr className="my-4 border-t border-gray-200" />
 
@@ -302,6 +369,11 @@ export function ContentItemDetailDialog({
               </div>
             )}
 
+            <hr className="my-4 border-t border-gray-200" />
+
+            {/* Comments */}
+            <CommentThread entityType="content_item" entityId={item.id} />
+
             {/* Metadata */}
             <div className="text-xs text-muted-foreground">
               <p>Created: {format(new Date(item.createdAt), 'PPpp')}</p>
@@ -0,0 +1,561 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Users,
+  Loader2,
+  RefreshCw,
+  Plus,
+  MoreHorizontal,
+  Pencil,
+  Merge,
+  Trash2,
+  Check,
+  X,
+  Inbox,
+  Sparkles,
+} from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useProjectStore } from '@/stores/projectStore';
+import {
+  stakeholdersApi,
+  type Stakeholder,
+  type StakeholderAffiliation,
+  type CreateStakeholderInput,
+  type ListStakeholdersParams,
+} from '@/api/stakeholders.api';
+
+const AFFILIATION_LABELS: Record<StakeholderAffiliation, string> = {
+  internal: 'Internal',
+  client: 'Client',
+};
+
+interface StakeholderForm {
+  name: string;
+  aliases: string;
+  email: string;
+  organization: string;
+  role: string;
+  affiliation: StakeholderAffiliation;
+}
+
+const emptyForm: StakeholderForm = {
+  name: '',
+  aliases: '',
+  email: '',
+  organization: '',
+  role: '',
+  affiliation: 'client',
+};
+
+export function StakeholdersTab() {
+  const { currentProject } = useProjectStore();
+
+  // Data state
+  const [stakeholders, setStakeholders] = useState<Stakeholder[]>([]);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filters
+  const [reviewing, setReviewing] = useState(false);
+  const [affiliationFilter, setAffiliationFilter] = useState<StakeholderAffiliation | 'all'>('all');
+  const [search, setSearch] = useState('');
+
+  // Add/edit dialog state
+  const [editing, setEditing] = useState<Stakeholder | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [form, setForm] = useState<StakeholderForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  // Merge dialog state: the duplicate, and the directory entries it can be folded into
+  const [mergeSource, setMergeSource] = useState<Stakeholder | null>(null);
+  const [mergeCandidates, setMergeCandidates] = useState<Stakeholder[]>([]);
+  const [targetId, setTargetId] = useState('');
+  const [merging, setMerging] = useState(false);
+
+  const fetchStakeholders = useCallback(async () => {
+    if (!currentProject) return;
+
+    setLoading(true);
+    try {
+      const params: ListStakeholdersParams = { review: reviewing ? 'pending' : 'accepted' };
+      if (affiliationFilter !== 'all') params.affiliation = affiliationFilter;
+      if (search.trim()) params.search = search.trim();
+
+      const response = await stakeholdersApi.list(currentProject.id, params);
+      if (response.success && response.data) {
+        setStakeholders(response.data.items);
+        setPendingCount(response.data.pendingCount);
+      }
+    } catch (err) {
+      console.error('Failed to fetch stakeholders:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentProject, reviewing, affiliationFilter, search]);
+
+  useEffect(() => {
+    fetchStakeholders();
+  }, [fetchStakeholders]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (stakeholder: Stakeholder) => {
+    setEditing(stakeholder);
+    setForm({
+      name: stakeholder.name,
+      aliases: stakeholder.aliases.join(', '),
+      email: stakeholder.email || '',
+      organization: stakeholder.organization || '',
+      role: stakeholder.role || '',
+      affiliation: stakeholder.affiliation,
+    });
+    setIsFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!currentProject || !form.name.trim()) return;
+
+    const data: CreateStakeholderInput = {
+      name: form.name.trim(),
+      aliases: form.aliases.split(',').map(a => a.trim()).filter(Boolean),
+      email: form.email.trim() || null,
+      organization: form.organization.trim() || null,
+      role: form.role.trim() || null,
+      affiliation: form.affiliation,
+    };
+
+    setSaving(true);
+    setError(null);
+    try {
+      if (editing) {
+        await stakeholdersApi.update(currentProject.id, editing.id, data);
+      } else {
+        await stakeholdersApi.create(currentProject.id, data);
+      }
+      setIsFormOpen(false);
+      fetchStakeholders();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to save stakeholder');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (stakeholder: Stakeholder) => {
+    if (!currentProject) return;
+
+    setError(null);
+    try {
+      await stakeholdersApi.delete(currentProject.id, stakeholder.id);
+      fetchStakeholders();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to delete stakeholder');
+    }
+  };
+
+  const handleReview = async (stakeholder: Stakeholder, accept: boolean) => {
+    if (!currentProject) return;
+
+    setError(null);
+    try {
+      if (accept) {
+        await stakeholdersApi.accept(currentProject.id, stakeholder.id);
+      } else {
+        await stakeholdersApi.reject(currentProject.id, stakeholder.id);
+      }
+      fetchStakeholders();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to review stakeholder');
+    }
+  };
+
+  const openMerge = async (stakeholder: Stakeholder) => {
+    if (!currentProject) return;
+
+    setMergeSource(stakeholder);
+    setTargetId('');
+    try {
+      const response = await stakeholdersApi.list(currentProject.id, { review: 'accepted' });
+      if (response.success && response.data) {
+        setMergeCandidates(response.data.items.filter(s => s.id !== stakeholder.id));
+      }
+    } catch (err) {
+      console.error('Failed to fetch stakeholders:', err);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!currentProject || !mergeSource || !targetId) return;
+
+    setMerging(true);
+    setError(null);
+    try {
+      await stakeholdersApi.merge(currentProject.id, targetId, mergeSource.id);
+      setMergeSource(null);
+      fetchStakeholders();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to merge stakeholders');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  if (!currentProject) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[400px] text-center">
+        <Users className="h-12 w-12 text-muted-foreground mb-4" />
+        <h2 className="text-xl font-semibold mb-2">No Project Selected</h2>
+        <p className="text-muted-foreground">
+          Please select a project to view its stakeholders.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>{reviewing ? 'Suggested Stakeholders' : 'Stakeholders'}</CardTitle>
+              <CardDescription>
+                {reviewing
+                  ? 'Names found in content and reports that are not in the directory yet. Accept them, or merge them into the person they refer to.'
+                  : 'Owners and decision makers found by the intake agent and activity reporter are matched to these people by name, alias or email.'}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="Search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="w-[160px]"
+              />
+              <Select
+                value={affiliationFilter}
+                onValueChange={(v) => setAffiliationFilter(v as StakeholderAffiliation | 'all')}
+              >
+                <SelectTrigger className="w-[130px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  {Object.entries(AFFILIATION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant={reviewing ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setReviewing(!reviewing)}
+              >
+                <Inbox className="h-4 w-4 mr-1" />
+                {reviewing ? 'Back to Directory' : `Suggestions${pendingCount ? ` (${pendingCount})` : ''}`}
+              </Button>
+              <Button variant="outline" size="sm" onClick={fetchStakeholders} disabled={loading}>
+                <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+              <Button size="sm" onClick={openCreate}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Stakeholder
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading && stakeholders.length === 0 ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : stakeholders.length === 0 ? (
+            <div className="text-center py-12">
+              <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium mb-1">
+                {reviewing ? 'No suggestions' : 'No stakeholders'}
+              </h3>
+              <p className="text-muted-foreground">
+                {reviewing
+                  ? 'Unknown names are suggested here as content is analyzed and reports are generated'
+                  : 'Add the people who own work and make decisions on this project'}
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Affiliation</TableHead>
+                  <TableHead>{reviewing ? 'Mentions' : 'Open Actions'}</TableHead>
+                  <TableHead className={reviewing ? 'w-48' : 'w-16'} />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stakeholders.map((stakeholder) => (
+                  <TableRow key={stakeholder.id} className="hover:bg-muted/50">
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <span className="font-medium">{stakeholder.name}</span>
+                        {stakeholder.createdBy !== 'user' && (
+                          <Sparkles
+                            className="h-3 w-3 text-muted-foreground"
+                            aria-label={stakeholder.createdBy === 'intake_agent' ? 'Found in content intake' : 'Found by activity reporter'}
+                          />
+                        )}
+                      </div>
+                      {stakeholder.aliases.length > 0 && (
+                        <p className="text-xs text-muted-foreground">Also: {stakeholder.aliases.join(', ')}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {stakeholder.email || <span className="text-muted-foreground">-</span>}
+                    </TableCell>
+                    <TableCell>
+                      {stakeholder.role || stakeholder.organization ? (
+                        <div>
+                          <span>{stakeholder.role || '-'}</span>
+                          {stakeholder.organization && (
+                            <p className="text-xs text-muted-foreground">{stakeholder.organization}</p>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={stakeholder.affiliation === 'internal' ? 'secondary' : 'outline'}>
+                        {AFFILIATION_LABELS[stakeholder.affiliation]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {reviewing ? stakeholder.sourceContentIds.length : stakeholder.openActionCount ?? 0}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center justify-end gap-2">
+                        {reviewing && (
+                          <>
+                            <Button size="sm" variant="outline" onClick={() => handleReview(stakeholder, false)}>
+                              <X className="h-4 w-4 mr-1" />
+                              Reject
+                            </Button>
+                            <Button size="sm" onClick={() => handleReview(stakeholder, true)}>
+                              <Check className="h-4 w-4 mr-1" />
+                              Accept
+                            </Button>
+                          </>
+                        )}
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="sm">
+                              <MoreHorizontal className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => openEdit(stakeholder)}>
+                              <Pencil className="h-4 w-4 mr-2" />
+                              Edit
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => openMerge(stakeholder)}>
+                              <Merge className="h-4 w-4 mr-2" />
+                              Same Person As...
+                            </DropdownMenuItem>
+                            {!reviewing && (
+                              <DropdownMenuItem
+                                onClick={() => handleDelete(stakeholder)}
+                                className="text-destructive"
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                Delete
+                              </DropdownMenuItem>
+                            )}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Stakeholder' : 'Add Stakeholder'}</DialogTitle>
+            <DialogDescription>
+              Aliases are the other names and emails content uses for this person, such as a nickname.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="stakeholder-name">Name</Label>
+              <Input
+                id="stakeholder-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Robert Smith"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="stakeholder-aliases">Aliases</Label>
+              <Input
+                id="stakeholder-aliases"
+                value={form.aliases}
+                onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+                placeholder="Bob, Rob, rsmith@client.com"
+              />
+              <p className="text-xs text-muted-foreground">Separate with commas</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="stakeholder-email">Email</Label>
+              <Input
+                id="stakeholder-email"
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="stakeholder-organization">Organization</Label>
+                <Input
+                  id="stakeholder-organization"
+                  value={form.organization}
+                  onChange={(e) => setForm({ ...form, organization: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="stakeholder-role">Role</Label>
+                <Input
+                  id="stakeholder-role"
+                  value={form.role}
+                  onChange={(e) => setForm({ ...form, role: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Affiliation</Label>
+              <Select
+                value={form.affiliation}
+                onValueChange={(v) => setForm({ ...form, affiliation: v as StakeholderAffiliation })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(AFFILIATION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !form.name.trim()}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editing ? 'Save' : 'Add'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Merge Dialog */}
+      <Dialog
+        open={!!mergeSource}
+        onOpenChange={(open) => {
+          if (!open) setMergeSource(null);
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Same Person As...</DialogTitle>
+            <DialogDescription>
+              &ldquo;{mergeSource?.name}&rdquo; becomes an alias of the stakeholder you choose, and actions
+              and decisions recorded under it are renamed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Stakeholder</Label>
+            <Select value={targetId} onValueChange={setTargetId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a stakeholder" />
+              </SelectTrigger>
+              <SelectContent>
+                {mergeCandidates.map(s => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.name}{s.email ? ` (${s.email})` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMergeSource(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleMerge} disabled={merging || !targetId}>
+              {merging && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Merge
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export default StakeholdersTab;
@@ -1,6 +1,6 @@
 import { useEffect } from 'react';
 import { Outlet, useNavigate, useLocation, Link } from 'react-router-dom';
-import { LogOut, ClipboardList, Inbox, Cog, User, Bell, Shield, Palette, ChevronDown, Home, ListTree, LayoutDashboard } from 'lucide-react';
+import { LogOut, ClipboardList, Inbox, Cog, User, Bell, Shield, Palette, ChevronDown, Home, ListTree, LayoutDashboard, Briefcase, ListChecks } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -20,8 +20,18 @@ import authApi from '@/api/auth.api';
 import { PageLoader } from '@/components/common/LoadingSpinner';
 import { cn } from '@/lib/utils';
 
-const agentTabs = [
+// Tabs with a menuSlug only show for roles that can read that menu
+const agentTabs: Array<{
+  id: string;
+  label: string;
+  path: string;
+  icon: typeof Home;
+  requiresProject: boolean;
+  menuSlug?: string;
+}> = [
   { id: 'dashboard', label: 'Dashboard', path: '/dashboard', icon: Home, requiresProject: false },
+  { id: 'portfolio', label: 'Portfolio', path: '/portfolio', icon: Briefcase, requiresProject: false, menuSlug: 'portfolio' },
+  { id: 'my-work', label: 'My Work', path: '/my-work', icon: ListChecks, requiresProject: false },
   { id: 'plan', label: 'Plan Agent', path: '/plan', icon: ListTree, requiresProject: true },
   { id: 'intake', label: 'Intake Agent', path: '/intake', icon: Inbox, requiresProject: true },
   { id: 'reporter', label: 'Activity Reporter', path: '/reporter', icon: ClipboardList, requiresProject: true },
@@ -32,7 +42,7 @@ export function AgentLayout() {
   const navigate = useNavigate();
   const location = useLocation();
   const { isAuthenticated, user, setUser, currentOrgId, currentOrg, refreshToken, logout } = useAuthStore();
-  const { setMenus } = usePermissionsStore();
+  const { setMenus, hasPermission } = usePermissionsStore();
   const { setFlags } = useFeatureFlagsStore();
   const { currentProject, fetchProjects } = useProjectStore();
 
@@ -101,6 +111,7 @@ export function AgentLayout() {
   };
 
   const activeTab = getActiveTab();
+  const visibleTabs = agentTabs.filter((tab) => !tab.menuSlug || hasPermission(tab.menuSlug, 'read'));
 
   // Check if current tab requires project and none is selected
   const currentTabConfig = agentTabs.find(t => t.id === activeTab);
@@ -185,7 +196,7 @@ export function AgentLayout() {
       <nav className="border-b bg-white">
         <div className="flex h-12 items-center px-6">
           <div className="flex gap-1">
-            {agentTabs.map((tab) => {
+            {visibleTabs.map((tab) => {
               const Icon = tab.icon;
               const isActive = activeTab === tab.id;
               const isDisabled = tab.requiresProject && !currentProject;
@@ -13,6 +13,7 @@ import {
   ListTree,
   Inbox,
   ClipboardList,
+  Briefcase,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { usePermissionsStore } from '@/stores/permissionsStore';
@@ -32,6 +33,7 @@ const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
   ListTree,
   Inbox,
   ClipboardList,
+  Briefcase,
 };
 
 export function Sidebar() {
@@ -13,6 +13,14 @@ import {
 } from '@/components/ui/dialog';
 import { useProjectStore } from '@/stores/projectStore';
 import planItemsApi from '@/api/plan-items.api';
+import { configApi, type StatusWorkflow } from '@/api/config.api';
+import {
+  CustomFieldInputs,
+  useCustomFields,
+  toCustomFieldInput,
+  type CustomFieldFormValues,
+} from './CustomFieldInputs';
+import { OwnerInput, useOrganizationMembers, type OwnerFormValue } from './OwnerInput';
 import type { PlanItem, CreatePlanItemInput } from '@/types';
 
 interface AddPlanItemDialogProps {
@@ -27,6 +35,7 @@ const statusOptions = [
   { value: 'in_progress', label: 'In Progress' },
   { value: 'completed', label: 'Completed' },
   { value: 'on_hold', label: 'On Hold' },
+  { value: 'blocked', label: 'Blocked' },
   { value: 'cancelled', label: 'Cancelled' },
 ];
 
@@ -44,11 +53,16 @@ export function AddPlanItemDialog({
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
   const [itemTypeId, setItemTypeId] = useState<number | null>(null);
-  const [owner, setOwner] = useState('');
-  const [status, setStatus] = useState<CreatePlanItemInput['status']>('not_started');
+  const [owner, setOwner] = useState<OwnerFormValue>({ ownerUserId: null, owner: '' });
+  const [effort, setEffort] = useState('');
+  const [status, setStatus] = useState('not_started');
+  const [workflows, setWorkflows] = useState<StatusWorkflow[]>([]);
   const [startDate, setStartDate] = useState('');
   const [targetEndDate, setTargetEndDate] = useState('');
   const [notes, setNotes] = useState('');
+  const [customFieldValues, setCustomFieldValues] = useState<CustomFieldFormValues>({});
+  const customFields = useCustomFields(itemTypeId, open);
+  const members = useOrganizationMembers(open);
 
   // Load plan item types
   useEffect(() => {
@@ -57,6 +71,24 @@ export function AddPlanItemDialog({
     }
   }, [open, planItemTypes.length, fetchPlanItemTypes]);
 
+  // Types with a status workflow start in the workflow's initial status
+  useEffect(() => {
+    if (!open) return;
+    configApi
+      .listStatusWorkflows()
+      .then((response) => setWorkflows(response.success && response.data ? response.data : []))
+      .catch(() => setWorkflows([]));
+  }, [open]);
+
+  const workflow = workflows.find((w) => w.planItemTypeId === itemTypeId);
+  const availableStatuses = workflow
+    ? workflow.statuses.map((s) => ({ value: s.key, label: s.label }))
+    : statusOptions;
+
+  useEffect(() => {
+    setStatus(workflow ? workflow.initialStatus : 'not_started');
+  }, [workflow]);
+
   // Set default type based on parent
   useEffect(() => {
     if (open && planItemTypes.length > 0) {
@@ -85,11 +117,13 @@ export function AddPlanItemDialog({
     if (open) {
       setName('');
       setDescription('');
-      setOwner('');
+      setOwner({ ownerUserId: null, owner: '' });
+      setEffort('');
       setStatus('not_started');
       setStartDate('');
       setTargetEndDate('');
       setNotes('');
+      setCustomFieldValues({});
       setError(null);
     }
   }, [open]);
@@ -107,11 +141,14 @@ export function AddPlanItemDialog({
         itemTypeId,
         parentId: parentItem?.id,
         description: description || undefined,
-        owner: owner || undefined,
+        ownerUserId: owner.ownerUserId ?? undefined,
+        owner: owner.ownerUserId ? undefined : owner.owner.trim() || undefined,
+        effort: effort ? Number(effort) : undefined,
         status,
         startDate: startDate || undefined,
         targetEndDate: targetEndDate || undefined,
         notes: notes || undefined,
+        customFields: toCustomFieldInput(customFields, customFieldValues),
       };
 
       const response = await planItemsApi.create(currentProject.id, input);
@@ -122,8 +159,8 @@ export function AddPlanItemDialog({
       } else {
         setError(response.error?.message || 'Failed to create plan item');
       }
-    } catch (err) {
-      setError('Failed to create plan item');
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to create plan item');
     } finally {
       setIsSubmitting(false);
     }
@@ -188,13 +225,19 @@ export function AddPlanItemDialog({
             </div>
 
             {/* Owner */}
+            <OwnerInput members={members} value={owner} onChange={setOwner} />
+
+            {/* Effort */}
             <div className="grid gap-2">
-              <Label htmlFor="owner">Owner</Label>
+              <Label htmlFor="effort">Effort</Label>
               <Input
-                id="owner"
-                value={owner}
-                onChange={(e) => setOwner(e.target.value)}
-                placeholder="Person responsible"
+                id="effort"
+                type="number"
+                min="0"
+                step="0.5"
+                value={effort}
+                onChange={(e) => setEffort(e.target.value)}
+                placeholder="Used to weight progress roll-up"
               />
             </div>
 
@@ -204,10 +247,10 @@ export function AddPlanItemDialog({
               <select
                 id="status"
                 value={status}
-                onChange={(e) => setStatus(e.target.value as CreatePlanItemInput['status'])}
+                onChange={(e) => setStatus(e.target.value)}
                 className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
               >
-                {statusOptions.map((opt) => (
+                {availableStatuses.map((opt) => (
                   <option key={opt.value} value={opt.value}>
                     {opt.label}
                   </option>
@@ -248,6 +291,14 @@ export function AddPlanItemDialog({
               />
             </div>
 
+            {/* Custom fields for the selected type */}
+            <CustomFieldInputs
+              fields={customFields}
+              values={customFieldValues}
+              onChange={(key, value) => setCustomFieldValues((prev) => ({ ...prev, [key]: value }))}
+              idPrefix="add-cf"
+            />
+
             {error && (
               <div className="text-sm text-destructive">{error}</div>
             )}
@@ -0,0 +1,112 @@
+import { useState, useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { configApi, type CustomField } from '@/api/config.api';
+
+// Form values for custom fields, keyed by field key. Empty strings are sent as null to clear a field.
+export type CustomFieldFormValues = Record<string, string>;
+
+const selectClassName =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+// Load the organization's custom fields that apply to a plan item type
+export function useCustomFields(itemTypeId: number | null, enabled: boolean) {
+  const [fields, setFields] = useState<CustomField[]>([]);
+
+  useEffect(() => {
+    if (!enabled || !itemTypeId) {
+      setFields([]);
+      return;
+    }
+    let cancelled = false;
+    configApi
+      .listCustomFields({ planItemTypeId: itemTypeId })
+      .then((response) => {
+        if (!cancelled && response.success && response.data) setFields(response.data);
+      })
+      .catch(() => {
+        if (!cancelled) setFields([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [itemTypeId, enabled]);
+
+  return fields;
+}
+
+export function toCustomFieldFormValues(values: Record<string, string | number> | undefined): CustomFieldFormValues {
+  return Object.fromEntries(Object.entries(values ?? {}).map(([key, value]) => [key, String(value)]));
+}
+
+// Values for the fields shown in the form, ready for the create/update request
+export function toCustomFieldInput(
+  fields: CustomField[],
+  values: CustomFieldFormValues
+): Record<string, string | null> {
+  return Object.fromEntries(fields.map((field) => [field.key, values[field.key]?.trim() || null]));
+}
+
+interface CustomFieldInputsProps {
+  fields: CustomField[];
+  values: CustomFieldFormValues;
+  onChange: (key: string, value: string) => void;
+  idPrefix?: string;
+}
+
+export function CustomFieldInputs({ fields, values, onChange, idPrefix = 'cf' }: CustomFieldInputsProps) {
+  if (fields.length === 0) return null;
+
+  return (
+    <>
+      {fields.map((field) => {
+        const id = `${idPrefix}-${field.key}`;
+        const value = values[field.key] ?? '';
+        return (
+          <div key={field.id} className="grid gap-2">
+            <Label htmlFor={id}>
+              {field.label}
+              {field.required && ' *'}
+            </Label>
+            {field.fieldType === 'select' ? (
+              <select
+                id={id}
+                value={value}
+                onChange={(e) => onChange(field.key, e.target.value)}
+                className={selectClassName}
+                required={field.required}
+              >
+                <option value="">Not set</option>
+                {field.options.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <Input
+                id={id}
+                type={
+                  field.fieldType === 'number'
+                    ? 'number'
+                    : field.fieldType === 'date'
+                      ? 'date'
+                      : field.fieldType === 'user'
+                        ? 'email'
+                        : 'text'
+                }
+                step={field.fieldType === 'number' ? 'any' : undefined}
+                value={value}
+                onChange={(e) => onChange(field.key, e.target.value)}
+                placeholder={
+                  field.description ?? (field.fieldType === 'user' ? 'Member email' : undefined)
+                }
+                required={field.required}
+              />
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+}
@@ -13,7 +13,15 @@ import {
 } from '@/components/ui/dialog';
 import { useProjectStore } from '@/stores/projectStore';
 import planItemsApi from '@/api/plan-items.api';
-import type { PlanItem, UpdatePlanItemInput } from '@/types';
+import {
+  CustomFieldInputs,
+  useCustomFields,
+  toCustomFieldFormValues,
+  toCustomFieldInput,
+  type CustomFieldFormValues,
+} from './CustomFieldInputs';
+import { OwnerInput, useOrganizationMembers, toOwnerInput, type OwnerFormValue } from './OwnerInput';
+import type { PlanItem, PlanItemTransitions, UpdatePlanItemInput } from '@/types';
 
 interface EditPlanItemDialogProps {
   open: boolean;
@@ -27,9 +35,20 @@ const statusOptions = [
   { value: 'in_progress', label: 'In Progress' },
   { value: 'completed', label: 'Completed' },
   { value: 'on_hold', label: 'On Hold' },
+  { value: 'blocked', label: 'Blocked' },
   { value: 'cancelled', label: 'Cancelled' },
 ];
 
+const requiredFieldLabels: Record<string, string> = {
+  owner: 'Owner',
+  startDate: 'Start Date',
+  targetEndDate: 'Target End Date',
+  actualStartDate: 'Actual Start Date',
+  actualEndDate: 'Actual End Date',
+  effort: 'Effort',
+  notes: 'Notes',
+};
+
 export function EditPlanItemDialog({
   open,
   onOpenChange,
@@ -44,13 +63,19 @@ export function EditPlanItemDialog({
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
   const [itemTypeId, setItemTypeId] = useState<number | null>(null);
-  const [owner, setOwner] = useState('');
-  const [status, setStatus] = useState<UpdatePlanItemInput['status']>('not_started');
+  const [owner, setOwner] = useState<OwnerFormValue>({ ownerUserId: null, owner: '' });
+  const [effort, setEffort] = useState('');
+  const [status, setStatus] = useState('not_started');
+  const [transitions, setTransitions] = useState<PlanItemTransitions | null>(null);
+  const [changeReason, setChangeReason] = useState('');
   const [startDate, setStartDate] = useState('');
   const [targetEndDate, setTargetEndDate] = useState('');
   const [actualStartDate, setActualStartDate] = useState('');
   const [actualEndDate, setActualEndDate] = useState('');
   const [notes, setNotes] = useState('');
+  const [customFieldValues, setCustomFieldValues] = useState<CustomFieldFormValues>({});
+  const customFields = useCustomFields(itemTypeId, open);
+  const members = useOrganizationMembers(open);
 
   // Load plan item types
   useEffect(() => {
@@ -65,17 +90,42 @@ export function EditPlanItemDialog({
       setName(item.name || '');
       setDescription(item.description || '');
       setItemTypeId(item.itemTypeId || null);
-      setOwner(item.owner || '');
+      setOwner({ ownerUserId: item.ownerUserId ?? null, owner: item.owner || '' });
+      setEffort(item.effort != null ? String(item.effort) : '');
       setStatus(item.status || 'not_started');
       setStartDate(item.startDate ? item.startDate.split('T')[0] : '');
       setTargetEndDate(item.targetEndDate ? item.targetEndDate.split('T')[0] : '');
       setActualStartDate(item.actualStartDate ? item.actualStartDate.split('T')[0] : '');
       setActualEndDate(item.actualEndDate ? item.actualEndDate.split('T')[0] : '');
       setNotes(item.notes || '');
+      setCustomFieldValues(toCustomFieldFormValues(item.customFields));
+      setChangeReason('');
       setError(null);
     }
   }, [open, item]);
 
+  // Only offer the statuses the item's workflow allows it to move to
+  useEffect(() => {
+    if (!open || !item) return;
+    setTransitions(null);
+    planItemsApi
+      .getTransitions(item.id)
+      .then((response) => {
+        if (response.success && response.data) {
+          setTransitions(response.data);
+          setStatus(response.data.current.key);
+        }
+      })
+      .catch(() => setTransitions(null));
+  }, [open, item]);
+
+  // Changing the type switches workflows, so fall back to the built-in statuses and let the server decide
+  const availableStatuses =
+    transitions && itemTypeId === item?.itemTypeId
+      ? [transitions.current, ...transitions.options].map((option) => ({ value: option.key, label: option.label }))
+      : statusOptions;
+  const selectedTransition = transitions?.options.find((option) => option.key === status);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!item || !itemTypeId) return;
@@ -88,13 +138,16 @@ export function EditPlanItemDialog({
         name,
         itemTypeId,
         description: description || null,
-        owner: owner || null,
+        ...toOwnerInput(owner),
+        effort: effort ? Number(effort) : null,
         status,
         startDate: startDate || null,
         targetEndDate: targetEndDate || null,
         actualStartDate: actualStartDate || null,
         actualEndDate: actualEndDate || null,
         notes: notes || null,
+        customFields: toCustomFieldInput(customFields, customFieldValues),
+        changeReason: changeReason.trim() || undefined,
       };
 
       const response = await planItemsApi.update(item.id, input);
@@ -105,8 +158,8 @@ export function EditPlanItemDialog({
       } else {
         setError(response.error?.message || 'Failed to update plan item');
       }
-    } catch (err) {
-      setError('Failed to update plan item');
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to update plan item');
     } finally {
       setIsSubmitting(false);
     }
@@ -169,13 +222,19 @@ export function EditPlanItemDialog({
             </div>
 
             {/* Owner */}
+            <OwnerInput members={members} value={owner} onChange={setOwner} idPrefix="edit-owner" />
+
+            {/* Effort */}
             <div className="grid gap-2">
-              <Label htmlFor="edit-owner">Owner</Label>
+              <Label htmlFor="edit-effort">Effort</Label>
               <Input
-                id="edit-owner"
-                value={owner}
-                onChange={(e) => setOwner(e.target.value)}
-                placeholder="Person responsible"
+                id="edit-effort"
+                type="number"
+                min="0"
+                step="0.5"
+                value={effort}
+                onChange={(e) => setEffort(e.target.value)}
+                placeholder="Used to weight progress roll-up"
               />
             </div>
 
@@ -185,15 +244,34 @@ export function EditPlanItemDialog({
               <select
                 id="edit-status"
                 value={status}
-                onChange={(e) => setStatus(e.target.value as UpdatePlanItemInput['status'])}
+                onChange={(e) => setStatus(e.target.value)}
                 className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
               >
-                {statusOptions.map((opt) => (
+                {availableStatuses.map((opt) => (
                   <option key={opt.value} value={opt.value}>
                     {opt.label}
                   </option>
                 ))}
               </select>
+              {selectedTransition?.requiredFields && selectedTransition.requiredFields.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Requires: {selectedTransition.requiredFields.map((field) => requiredFieldLabels[field] ?? field).join(', ')}
+                </p>
+              )}
+            </div>
+
+            {/* Change reason, required by some workflow transitions */}
+            <div className="grid gap-2">
+              <Label htmlFor="edit-changeReason">
+                Reason for change{selectedTransition?.requireReason ? ' *' : ''}
+              </Label>
+              <Input
+                id="edit-changeReason"
+                value={changeReason}
+                onChange={(e) => setChangeReason(e.target.value)}
+                placeholder="Recorded in the item's history"
+                required={selectedTransition?.requireReason}
+              />
             </div>
 
             {/* Planned Dates */}
@@ -253,6 +331,14 @@ export function EditPlanItemDialog({
               />
             </div>
 
+            {/* Custom fields for the selected type */}
+            <CustomFieldInputs
+              fields={customFields}
+              values={customFieldValues}
+              onChange={(key, value) => setCustomFieldValues((prev) => ({ ...prev, [key]: value }))}
+              idPrefix="edit-cf"
+            />
+
             {error && (
               <div className="text-sm text-destructive">{error}</div>
             )}
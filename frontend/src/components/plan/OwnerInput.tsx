@@ -0,0 +1,81 @@
+import { useState, useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import commentsApi, { type CommentUser } from '@/api/comments.api';
+
+// An owner is either an organization member or free text for someone outside it
+export interface OwnerFormValue {
+  ownerUserId: number | null;
+  owner: string;
+}
+
+const selectClassName =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+// Load the organization's active members
+export function useOrganizationMembers(enabled: boolean) {
+  const [members, setMembers] = useState<CommentUser[]>([]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    commentsApi
+      .getMentionable()
+      .then((response) => {
+        if (!cancelled && response.success && response.data) setMembers(response.data);
+      })
+      .catch(() => {
+        if (!cancelled) setMembers([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  return members;
+}
+
+// Owner fields for the create/update request. Free text is only sent when no member is picked.
+export function toOwnerInput(value: OwnerFormValue): { ownerUserId: number | null; owner: string | null } {
+  return value.ownerUserId
+    ? { ownerUserId: value.ownerUserId, owner: null }
+    : { ownerUserId: null, owner: value.owner.trim() || null };
+}
+
+interface OwnerInputProps {
+  members: CommentUser[];
+  value: OwnerFormValue;
+  onChange: (value: OwnerFormValue) => void;
+  idPrefix?: string;
+}
+
+export function OwnerInput({ members, value, onChange, idPrefix = 'owner' }: OwnerInputProps) {
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor={`${idPrefix}-member`}>Owner</Label>
+      <select
+        id={`${idPrefix}-member`}
+        value={value.ownerUserId ?? ''}
+        onChange={(e) =>
+          onChange({ ownerUserId: e.target.value ? Number(e.target.value) : null, owner: value.owner })
+        }
+        className={selectClassName}
+      >
+        <option value="">Someone outside the organization</option>
+        {members.map((member) => (
+          <option key={member.id} value={member.id}>
+            {member.firstName} {member.lastName} ({member.email})
+          </option>
+        ))}
+      </select>
+      {!value.ownerUserId && (
+        <Input
+          id={`${idPrefix}-name`}
+          value={value.owner}
+          onChange={(e) => onChange({ ownerUserId: null, owner: e.target.value })}
+          placeholder="Person responsible"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,488 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import {
+  Camera,
+  Loader2,
+  RefreshCw,
+  Trash2,
+  FileCode,
+  Presentation,
+  GitCompare,
+} from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { SlipBadge } from '@/components/plan/SlipBadge';
+import { useProjectStore } from '@/stores/projectStore';
+import {
+  baselinesApi,
+  type PlanBaseline,
+  type VarianceChange,
+  type VarianceItem,
+  type VarianceReport,
+} from '@/api/baselines.api';
+import type { ScheduleVariance } from '@/api/activity-reporter.api';
+import { outputFormatterApi } from '@/api/output-formatter.api';
+
+const CURRENT_PLAN = 'current';
+
+const CHANGE_LABELS: Record<VarianceChange, string> = {
+  unchanged: 'Unchanged',
+  slipped: 'Slipped',
+  pulled_in: 'Pulled in',
+  added: 'Added',
+  removed: 'Removed',
+};
+
+const formatDate = (date: string | null) => (date ? format(new Date(date), 'MMM d, yyyy') : '-');
+const toIsoDate = (date: string | null) => (date ? date.split('T')[0] : null);
+
+// Condense a variance report into the shape the output formatter exports
+function toScheduleVariance(report: VarianceReport): ScheduleVariance {
+  const toRow = (item: VarianceItem) => ({
+    planItemId: item.planItemId,
+    name: item.name,
+    baselineEndDate: toIsoDate(item.baselineEndDate),
+    currentEndDate: toIsoDate(item.currentEndDate),
+    endSlipDays: item.endSlipDays,
+  });
+
+  return {
+    baselineId: report.baseline.id,
+    baselineName: report.comparedTo.id
+      ? `${report.baseline.name} → ${report.comparedTo.name}`
+      : report.baseline.name,
+    baselineDate: toIsoDate(report.baseline.createdAt)!,
+    projectEndSlipDays: report.summary.projectEndSlipDays,
+    workstreams: report.workstreams.filter(w => w.change !== 'removed').map(toRow),
+    milestones: report.milestones.filter(m => m.change !== 'removed').map(toRow),
+  };
+}
+
+export function PlanBaselines() {
+  const { currentProject } = useProjectStore();
+
+  const [baselines, setBaselines] = useState<PlanBaseline[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Variance state
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareTo, setCompareTo] = useState<string>(CURRENT_PLAN);
+  const [variance, setVariance] = useState<VarianceReport | null>(null);
+  const [varianceLoading, setVarianceLoading] = useState(false);
+  const [showAllItems, setShowAllItems] = useState(false);
+
+  // Capture dialog state
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Export state
+  const [isExportingMarkdown, setIsExportingMarkdown] = useState(false);
+  const [isExportingPptx, setIsExportingPptx] = useState(false);
+
+  const fetchBaselines = useCallback(async () => {
+    if (!currentProject) return;
+
+    setLoading(true);
+    try {
+      const response = await baselinesApi.list(currentProject.id);
+      if (response.success && response.data) {
+        setBaselines(response.data);
+        setSelectedId(prev => prev ?? response.data![0]?.id ?? null);
+      }
+    } catch (err) {
+      console.error('Failed to fetch baselines:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentProject]);
+
+  useEffect(() => {
+    fetchBaselines();
+  }, [fetchBaselines]);
+
+  useEffect(() => {
+    if (!currentProject || !selectedId) {
+      setVariance(null);
+      return;
+    }
+
+    setVarianceLoading(true);
+    const request =
+      compareTo === CURRENT_PLAN
+        ? baselinesApi.getVariance(currentProject.id, selectedId)
+        : baselinesApi.compare(currentProject.id, selectedId, compareTo);
+
+    request
+      .then(response => {
+        if (response.success && response.data) setVariance(response.data);
+      })
+      .catch(err => console.error('Failed to fetch variance:', err))
+      .finally(() => setVarianceLoading(false));
+  }, [currentProject, selectedId, compareTo]);
+
+  const handleCreate = async () => {
+    if (!currentProject || !name.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await baselinesApi.create(currentProject.id, {
+        name: name.trim(),
+        description: description.trim() || null,
+      });
+      if (response.success && response.data) {
+        setIsCreateOpen(false);
+        setName('');
+        setDescription('');
+        setSelectedId(response.data.id);
+        setCompareTo(CURRENT_PLAN);
+        fetchBaselines();
+      } else {
+        setError(response.error?.message || 'Failed to capture baseline');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to capture baseline');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (baseline: PlanBaseline) => {
+    if (!currentProject) return;
+    if (!confirm(`Delete baseline "${baseline.name}"?`)) return;
+
+    try {
+      await baselinesApi.delete(currentProject.id, baseline.id);
+      setBaselines(prev => prev.filter(b => b.id !== baseline.id));
+      if (selectedId === baseline.id) setSelectedId(null);
+      if (compareTo === baseline.id) setCompareTo(CURRENT_PLAN);
+    } catch (err) {
+      console.error('Failed to delete baseline:', err);
+    }
+  };
+
+  const handleExportMarkdown = async () => {
+    if (!currentProject || !variance) return;
+
+    setIsExportingMarkdown(true);
+    try {
+      const response = await outputFormatterApi.formatAsMarkdown({
+        sourceType: 'variance',
+        projectName: currentProject.name,
+        data: { scheduleVariance: toScheduleVariance(variance) },
+      });
+
+      if (response.success && response.data) {
+        outputFormatterApi.downloadMarkdown(response.data.content, response.data.filename);
+      }
+    } catch (err) {
+      console.error('Failed to export variance markdown:', err);
+    } finally {
+      setIsExportingMarkdown(false);
+    }
+  };
+
+  const handleExportPptx = async () => {
+    if (!currentProject || !variance) return;
+
+    setIsExportingPptx(true);
+    try {
+      const blob = await outputFormatterApi.formatAsPptx({
+        sourceType: 'variance',
+        projectName: currentProject.name,
+        data: { scheduleVariance: toScheduleVariance(variance) },
+      });
+
+      const filename = `${currentProject.name.toLowerCase().replace(/[^a-z0-9]/g, '-')}-variance-${toIsoDate(variance.baseline.createdAt)}.pptx`;
+      outputFormatterApi.downloadPptx(blob, filename);
+    } catch (err) {
+      console.error('Failed to export variance PowerPoint:', err);
+    } finally {
+      setIsExportingPptx(false);
+    }
+  };
+
+  if (!currentProject) return null;
+
+  const varianceRows = variance
+    ? showAllItems
+      ? variance.items.filter(i => i.change !== 'unchanged')
+      : [...variance.workstreams, ...variance.milestones]
+    : [];
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Baselines</CardTitle>
+              <CardDescription>
+                Snapshots of committed plan dates to measure slip against.
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={fetchBaselines} disabled={loading}>
+                <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+              <Button size="sm" onClick={() => setIsCreateOpen(true)}>
+                <Camera className="h-4 w-4 mr-1" />
+                Capture Baseline
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading && baselines.length === 0 ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : baselines.length === 0 ? (
+            <div className="text-center py-12">
+              <Camera className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium mb-1">No baselines yet</h3>
+              <p className="text-muted-foreground">
+                Capture a baseline once the plan has been signed off
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Captured</TableHead>
+                  <TableHead>Captured By</TableHead>
+                  <TableHead className="w-20">Items</TableHead>
+                  <TableHead className="w-16">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {baselines.map(baseline => (
+                  <TableRow
+                    key={baseline.id}
+                    className={`cursor-pointer hover:bg-muted/50 ${selectedId === baseline.id ? 'bg-muted/50' : ''}`}
+                    onClick={() => setSelectedId(baseline.id)}
+                  >
+                    <TableCell>
+                      <span className="font-medium">{baseline.name}</span>
+                      {baseline.description && (
+                        <p className="text-xs text-muted-foreground">{baseline.description}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{formatDate(baseline.createdAt)}</TableCell>
+                    <TableCell className="text-muted-foreground">{baseline.createdByEmail || '-'}</TableCell>
+                    <TableCell className="text-muted-foreground">{baseline.itemCount}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={e => {
+                          e.stopPropagation();
+                          handleDelete(baseline);
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedId && (
+        <Card>
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <GitCompare className="h-5 w-5" />
+                  Schedule Variance
+                </CardTitle>
+                {variance && (
+                  <CardDescription>
+                    {variance.baseline.name} vs {variance.comparedTo.name}
+                  </CardDescription>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <Select value={compareTo} onValueChange={setCompareTo}>
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={CURRENT_PLAN}>Current plan</SelectItem>
+                    {baselines
+                      .filter(b => b.id !== selectedId)
+                      .map(b => (
+                        <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleExportMarkdown}
+                  disabled={!variance || isExportingMarkdown}
+                >
+                  {isExportingMarkdown ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <FileCode className="h-4 w-4 mr-1" />
+                  )}
+                  Markdown
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleExportPptx}
+                  disabled={!variance || isExportingPptx}
+                >
+                  {isExportingPptx ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <Presentation className="h-4 w-4 mr-1" />
+                  )}
+                  PowerPoint
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {varianceLoading || !variance ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="font-medium">Project end:</span>
+                  <SlipBadge days={variance.summary.projectEndSlipDays} />
+                  <Badge variant="secondary">{variance.summary.slipped} slipped</Badge>
+                  <Badge variant="secondary">{variance.summary.pulledIn} pulled in</Badge>
+                  <Badge variant="secondary">{variance.summary.added} added</Badge>
+                  <Badge variant="secondary">{variance.summary.removed} removed</Badge>
+                  <Badge variant="secondary">{variance.summary.statusChanged} status changes</Badge>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="ml-auto"
+                    onClick={() => setShowAllItems(prev => !prev)}
+                  >
+                    {showAllItems ? 'Workstreams & milestones' : 'All changed items'}
+                  </Button>
+                </div>
+
+                {varianceRows.length === 0 ? (
+                  <p className="text-sm text-muted-foreground py-6 text-center">
+                    Nothing to compare.
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Item</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Baseline End</TableHead>
+                        <TableHead>Current End</TableHead>
+                        <TableHead>Variance</TableHead>
+                        <TableHead>Change</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {varianceRows.map(item => (
+                        <TableRow key={item.planItemId}>
+                          <TableCell className={item.level === 1 ? 'font-medium' : 'pl-8'}>{item.name}</TableCell>
+                          <TableCell className="text-muted-foreground">{item.itemType}</TableCell>
+                          <TableCell className="text-muted-foreground">{formatDate(item.baselineEndDate)}</TableCell>
+                          <TableCell className="text-muted-foreground">{formatDate(item.currentEndDate)}</TableCell>
+                          <TableCell>
+                            <SlipBadge days={item.endSlipDays} />
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">{CHANGE_LABELS[item.change]}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Capture Dialog */}
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Capture Baseline</DialogTitle>
+            <DialogDescription>
+              Snapshot the dates and status of every plan item in {currentProject.name}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input
+                value={name}
+                placeholder="e.g. Signed-off plan v1"
+                onChange={e => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Textarea
+                value={description}
+                onChange={e => setDescription(e.target.value)}
+                rows={3}
+              />
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={saving || !name.trim()}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Capture
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
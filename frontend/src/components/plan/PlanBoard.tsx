@@ -0,0 +1,243 @@
+import { useState, useMemo } from 'react';
+import { User, Calendar, Pencil } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import planItemsApi from '@/api/plan-items.api';
+import type { PlanItem } from '@/types';
+
+type PlanStatus = PlanItem['status'];
+
+interface PlanBoardProps {
+  items: PlanItem[];
+  onItemUpdated: (item: PlanItem) => void;
+  onEdit: (item: PlanItem) => void;
+}
+
+interface BoardCard {
+  item: PlanItem;
+  workstream: PlanItem | null;
+}
+
+// One column per plan item status, in standup order
+const COLUMNS: Array<{ status: PlanStatus; label: string; accent: string }> = [
+  { status: 'not_started', label: 'Not Started', accent: 'border-t-neutral-400' },
+  { status: 'in_progress', label: 'In Progress', accent: 'border-t-blue-500' },
+  { status: 'blocked', label: 'Blocked', accent: 'border-t-red-500' },
+  { status: 'on_hold', label: 'On Hold', accent: 'border-t-amber-500' },
+  { status: 'completed', label: 'Completed', accent: 'border-t-emerald-500' },
+  { status: 'cancelled', label: 'Cancelled', accent: 'border-t-neutral-300' },
+];
+
+const STATUS_LABELS = Object.fromEntries(COLUMNS.map((c) => [c.status, c.label])) as Record<PlanStatus, string>;
+
+const ALL = 'all';
+const UNASSIGNED = 'unassigned';
+
+const formatDate = (dateStr: string | null) => {
+  if (!dateStr) return null;
+  return new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+};
+
+export function PlanBoard({ items, onItemUpdated, onEdit }: PlanBoardProps) {
+  const [typeFilter, setTypeFilter] = useState<string>(ALL);
+  const [ownerFilter, setOwnerFilter] = useState<string>(ALL);
+  const [workstreamFilter, setWorkstreamFilter] = useState<string>(ALL);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<PlanStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Flatten the tree, remembering each item's top-level workstream
+  const cards = useMemo(() => {
+    const result: BoardCard[] = [];
+    const walk = (nodes: PlanItem[], workstream: PlanItem | null) => {
+      nodes.forEach((node) => {
+        result.push({ item: node, workstream });
+        if (node.children) walk(node.children, workstream ?? node);
+      });
+    };
+    walk(items, null);
+    return result;
+  }, [items]);
+
+  const itemTypes = useMemo(() => {
+    const types = new Map<number, { id: number; name: string; level: number }>();
+    cards.forEach(({ item }) => item.itemType && types.set(item.itemType.id, item.itemType));
+    return Array.from(types.values()).sort((a, b) => a.level - b.level);
+  }, [cards]);
+
+  const owners = useMemo(
+    () => Array.from(new Set(cards.map(({ item }) => item.owner).filter((o): o is string => !!o))).sort(),
+    [cards]
+  );
+
+  const visibleCards = cards.filter(({ item, workstream }) => {
+    if (typeFilter !== ALL && String(item.itemTypeId) !== typeFilter) return false;
+    if (ownerFilter === UNASSIGNED && item.owner) return false;
+    if (ownerFilter !== ALL && ownerFilter !== UNASSIGNED && item.owner !== ownerFilter) return false;
+    if (workstreamFilter !== ALL && item.id !== workstreamFilter && workstream?.id !== workstreamFilter) return false;
+    return true;
+  });
+
+  const handleDrop = async (status: PlanStatus) => {
+    setDropTarget(null);
+    const card = cards.find((c) => c.item.id === draggingId);
+    setDraggingId(null);
+    if (!card || card.item.status === status) return;
+
+    const previous = card.item;
+    setError(null);
+
+    // Move the card right away and put it back if the update fails
+    onItemUpdated({ ...previous, status });
+    try {
+      const response = await planItemsApi.bulkUpdate({
+        updates: [
+          {
+            id: previous.id,
+            status,
+            changeReason: `Moved from ${STATUS_LABELS[previous.status]} to ${STATUS_LABELS[status]} on the board`,
+          },
+        ],
+      });
+      const result = response.data?.[0];
+      if (!response.success || !result?.success) {
+        throw new Error(result?.error || response.error?.message || 'Failed to update status');
+      }
+    } catch (err) {
+      onItemUpdated(previous);
+      setError(err instanceof Error ? err.message : 'Failed to update status');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={typeFilter} onValueChange={setTypeFilter}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All Types</SelectItem>
+            {itemTypes.map((type) => (
+              <SelectItem key={type.id} value={String(type.id)}>{type.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={ownerFilter} onValueChange={setOwnerFilter}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All Owners</SelectItem>
+            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+            {owners.map((owner) => (
+              <SelectItem key={owner} value={owner}>{owner}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={workstreamFilter} onValueChange={setWorkstreamFilter}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All Workstreams</SelectItem>
+            {items.map((workstream) => (
+              <SelectItem key={workstream.id} value={workstream.id}>{workstream.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-sm text-muted-foreground ml-auto">{visibleCards.length} items</span>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {COLUMNS.map((column) => {
+          const columnCards = visibleCards.filter(({ item }) => item.status === column.status);
+          return (
+            <div
+              key={column.status}
+              className={cn(
+                'flex w-64 min-w-64 flex-col rounded-lg border border-t-4 bg-muted/30',
+                column.accent,
+                dropTarget === column.status && 'ring-2 ring-primary/40'
+              )}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropTarget(column.status);
+              }}
+              onDragLeave={() => setDropTarget((prev) => (prev === column.status ? null : prev))}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(column.status);
+              }}
+            >
+              <div className="flex items-center justify-between px-3 py-2">
+                <span className="text-sm font-medium">{column.label}</span>
+                <Badge variant="secondary">{columnCards.length}</Badge>
+              </div>
+              <div className="flex-1 space-y-2 px-2 pb-2 min-h-[120px]">
+                {columnCards.map(({ item, workstream }) => (
+                  <div
+                    key={item.id}
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDraggingId(item.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggingId(null);
+                      setDropTarget(null);
+                    }}
+                    className={cn(
+                      'group rounded-md border bg-background p-2.5 shadow-sm cursor-grab',
+                      draggingId === item.id && 'opacity-50'
+                    )}
+                  >
+                    <div className="flex items-start justify-between gap-1">
+                      <p className="text-sm font-medium leading-snug">{item.name}</p>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                        onClick={() => onEdit(item)}
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                    </div>
+                    {workstream && (
+                      <p className="text-xs text-muted-foreground truncate">{workstream.name}</p>
+                    )}
+                    <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <span className="rounded bg-muted px-1.5 py-0.5">{item.itemType?.name}</span>
+                      {item.owner && (
+                        <span className="flex items-center gap-1">
+                          <User className="h-3 w-3" />
+                          {item.owner}
+                        </span>
+                      )}
+                      {item.targetEndDate && (
+                        <span className="flex items-center gap-1">
+                          <Calendar className="h-3 w-3" />
+                          {formatDate(item.targetEndDate)}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
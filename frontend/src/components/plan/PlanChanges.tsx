@@ -0,0 +1,227 @@
+import { useState, useEffect } from 'react';
+import { format, subDays } from 'date-fns';
+import { GitCompare, Loader2, FileCode, Presentation } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useProjectStore } from '@/stores/projectStore';
+import planItemsApi, { type PlanDiff } from '@/api/plan-items.api';
+import type { PlanChangeKind, PlanChanges as PlanChangesData } from '@/api/activity-reporter.api';
+import { outputFormatterApi } from '@/api/output-formatter.api';
+
+const CHANGE_LABELS: Record<PlanChangeKind, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  redated: 'Re-dated',
+  reparented: 'Moved',
+  status_changed: 'Status',
+};
+
+const CHANGE_VARIANTS: Record<PlanChangeKind, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  added: 'default',
+  removed: 'destructive',
+  redated: 'secondary',
+  reparented: 'outline',
+  status_changed: 'outline',
+};
+
+// Condense a diff into the shape the output formatter exports
+function toPlanChanges(diff: PlanDiff): PlanChangesData {
+  return {
+    since: diff.from.split('T')[0],
+    until: diff.to.split('T')[0],
+    summary: diff.summary,
+    workstreams: diff.workstreams.map(w => ({
+      name: w.name,
+      items: w.items.map(({ planItemId, name, changes, details }) => ({ planItemId, name, changes, details })),
+    })),
+  };
+}
+
+export function PlanChanges() {
+  const { currentProject } = useProjectStore();
+
+  const [since, setSince] = useState(format(subDays(new Date(), 7), 'yyyy-MM-dd'));
+  const [until, setUntil] = useState('');
+  const [diff, setDiff] = useState<PlanDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Export state
+  const [isExportingMarkdown, setIsExportingMarkdown] = useState(false);
+  const [isExportingPptx, setIsExportingPptx] = useState(false);
+
+  useEffect(() => {
+    if (!currentProject || !since) return;
+
+    setLoading(true);
+    setError(null);
+    // Dates are whole days: compare from the start of `since` to the end of `until`
+    const from = new Date(`${since}T00:00:00`).toISOString();
+    const to = until ? new Date(`${until}T23:59:59`).toISOString() : undefined;
+    planItemsApi
+      .getDiff(currentProject.id, from, to)
+      .then(response => {
+        if (response.success && response.data) setDiff(response.data);
+      })
+      .catch((err: any) => {
+        setDiff(null);
+        setError(err.response?.data?.error?.message || 'Failed to load plan changes');
+      })
+      .finally(() => setLoading(false));
+  }, [currentProject?.id, since, until]);
+
+  const handleExportMarkdown = async () => {
+    if (!currentProject || !diff) return;
+
+    setIsExportingMarkdown(true);
+    try {
+      const response = await outputFormatterApi.formatAsMarkdown({
+        sourceType: 'plan_diff',
+        projectName: currentProject.name,
+        data: { planChanges: toPlanChanges(diff) },
+      });
+
+      if (response.success && response.data) {
+        outputFormatterApi.downloadMarkdown(response.data.content, response.data.filename);
+      }
+    } catch (err) {
+      console.error('Failed to export plan changes markdown:', err);
+    } finally {
+      setIsExportingMarkdown(false);
+    }
+  };
+
+  const handleExportPptx = async () => {
+    if (!currentProject || !diff) return;
+
+    setIsExportingPptx(true);
+    try {
+      const blob = await outputFormatterApi.formatAsPptx({
+        sourceType: 'plan_diff',
+        projectName: currentProject.name,
+        data: { planChanges: toPlanChanges(diff) },
+      });
+
+      const filename = `${currentProject.name.toLowerCase().replace(/[^a-z0-9]/g, '-')}-plan-changes-${since}.pptx`;
+      outputFormatterApi.downloadPptx(blob, filename);
+    } catch (err) {
+      console.error('Failed to export plan changes PowerPoint:', err);
+    } finally {
+      setIsExportingPptx(false);
+    }
+  };
+
+  if (!currentProject) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <GitCompare className="h-5 w-5" />
+              What Changed
+            </CardTitle>
+            <CardDescription>
+              Items added, removed, re-dated, moved or with a new status between two dates.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExportMarkdown}
+              disabled={!diff || isExportingMarkdown}
+            >
+              {isExportingMarkdown ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <FileCode className="h-4 w-4 mr-1" />
+              )}
+              Markdown
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExportPptx}
+              disabled={!diff || isExportingPptx}
+            >
+              {isExportingPptx ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <Presentation className="h-4 w-4 mr-1" />
+              )}
+              PowerPoint
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="changes-since">Since</Label>
+            <Input id="changes-since" type="date" value={since} onChange={(e) => setSince(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="changes-until">Until</Label>
+            <Input id="changes-until" type="date" value={until} onChange={(e) => setUntil(e.target.value)} />
+          </div>
+          {!until && <p className="pb-2 text-sm text-muted-foreground">Until now</p>}
+        </div>
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : diff && (
+          <>
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline">{diff.summary.added} added</Badge>
+              <Badge variant="outline">{diff.summary.removed} removed</Badge>
+              <Badge variant="outline">{diff.summary.redated} re-dated</Badge>
+              <Badge variant="outline">{diff.summary.reparented} moved</Badge>
+              <Badge variant="outline">{diff.summary.statusChanged} status changes</Badge>
+            </div>
+
+            {diff.workstreams.length === 0 ? (
+              <p className="py-4 text-center text-sm text-muted-foreground">No plan changes in this period.</p>
+            ) : (
+              <div className="space-y-4">
+                {diff.workstreams.map((workstream) => (
+                  <div key={workstream.workstreamId} className="space-y-2">
+                    <h4 className="text-sm font-semibold">{workstream.name}</h4>
+                    {workstream.items.map((item) => (
+                      <div key={item.planItemId} className="rounded-lg border bg-muted/30 p-3">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium">{item.name}</span>
+                          <span className="text-xs text-muted-foreground">{item.itemType}</span>
+                          {item.changes.map((change) => (
+                            <Badge key={change} variant={CHANGE_VARIANTS[change]}>
+                              {CHANGE_LABELS[change]}
+                            </Badge>
+                          ))}
+                        </div>
+                        <ul className="mt-1 text-xs text-muted-foreground">
+                          {item.details.map((detail) => (
+                            <li key={detail}>{detail}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,488 @@
+import { useState, useMemo, useRef, useEffect } from 'react';
+import {
+  addDays,
+  addMonths,
+  addQuarters,
+  addWeeks,
+  differenceInCalendarDays,
+  format,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+} from 'date-fns';
+import { ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import planItemsApi from '@/api/plan-items.api';
+import type { PlanItem, CriticalPathItem } from '@/types';
+
+export type GanttZoom = 'week' | 'month' | 'quarter';
+
+interface PlanGanttProps {
+  items: PlanItem[];
+  schedule?: Map<string, CriticalPathItem>;
+  onItemUpdated: (item: PlanItem) => void;
+}
+
+interface GanttRow {
+  item: PlanItem;
+  depth: number;
+  hasChildren: boolean;
+}
+
+type DragMode = 'move' | 'resize';
+
+interface DragState {
+  item: PlanItem;
+  mode: DragMode;
+  originX: number;
+  deltaDays: number;
+}
+
+interface PendingReschedule {
+  item: PlanItem;
+  startDate: Date | null;
+  targetEndDate: Date | null;
+}
+
+// Pixels per day at each zoom level
+const DAY_WIDTH: Record<GanttZoom, number> = {
+  week: 32,
+  month: 10,
+  quarter: 3,
+};
+
+const ZOOM_LABELS: Record<GanttZoom, string> = {
+  week: 'Week',
+  month: 'Month',
+  quarter: 'Quarter',
+};
+
+const LABEL_WIDTH = 280;
+const ROW_HEIGHT = 40;
+
+// Plan dates are stored as calendar dates; parse the date part so they don't shift with the local timezone
+const toDay = (value: string | null): Date | null => {
+  if (!value) return null;
+  const [year, month, day] = value.split('T')[0].split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const toDateParam = (date: Date | null) => (date ? format(date, 'yyyy-MM-dd') : null);
+
+const isMilestone = (item: PlanItem) => item.itemType?.level === 2;
+
+// Timeline header cells for the current zoom
+function buildPeriods(start: Date, end: Date, zoom: GanttZoom): Array<{ date: Date; label: string }> {
+  const periods: Array<{ date: Date; label: string }> = [];
+  let cursor =
+    zoom === 'week'
+      ? startOfWeek(start, { weekStartsOn: 1 })
+      : zoom === 'month'
+        ? startOfMonth(start)
+        : startOfQuarter(start);
+
+  while (cursor <= end) {
+    const label =
+      zoom === 'week'
+        ? format(cursor, 'MMM d')
+        : zoom === 'month'
+          ? format(cursor, 'MMM yyyy')
+          : `Q${Math.floor(cursor.getMonth() / 3) + 1} ${cursor.getFullYear()}`;
+    periods.push({ date: cursor, label });
+    cursor = zoom === 'week' ? addWeeks(cursor, 1) : zoom === 'month' ? addMonths(cursor, 1) : addQuarters(cursor, 1);
+  }
+
+  return periods;
+}
+
+export function PlanGantt({ items, schedule, onItemUpdated }: PlanGanttProps) {
+  const [zoom, setZoom] = useState<GanttZoom>('month');
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [pending, setPending] = useState<PendingReschedule | null>(null);
+  const [changeReason, setChangeReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const dayWidth = DAY_WIDTH[zoom];
+  const today = useMemo(() => toDay(format(new Date(), 'yyyy-MM-dd'))!, []);
+
+  // Flatten the tree into visible rows
+  const rows = useMemo(() => {
+    const result: GanttRow[] = [];
+    const walk = (nodes: PlanItem[], depth: number) => {
+      nodes.forEach((node) => {
+        const hasChildren = !!node.children && node.children.length > 0;
+        result.push({ item: node, depth, hasChildren });
+        if (hasChildren && !collapsedIds.has(node.id)) walk(node.children!, depth + 1);
+      });
+    };
+    walk(items, 0);
+    return result;
+  }, [items, collapsedIds]);
+
+  // Visible range: every plan date plus today, padded by a period on each side
+  const { rangeStart, rangeEnd } = useMemo(() => {
+    const dates: Date[] = [today];
+    const collect = (nodes: PlanItem[]) => {
+      nodes.forEach((node) => {
+        [node.startDate, node.targetEndDate, node.actualStartDate, node.actualEndDate]
+          .map(toDay)
+          .forEach((d) => d && dates.push(d));
+        if (node.children) collect(node.children);
+      });
+    };
+    collect(items);
+
+    const min = new Date(Math.min(...dates.map((d) => d.getTime())));
+    const max = new Date(Math.max(...dates.map((d) => d.getTime())));
+    const padding = zoom === 'week' ? 7 : zoom === 'month' ? 30 : 90;
+    return { rangeStart: addDays(min, -padding), rangeEnd: addDays(max, padding) };
+  }, [items, today, zoom]);
+
+  const periods = useMemo(() => buildPeriods(rangeStart, rangeEnd, zoom), [rangeStart, rangeEnd, zoom]);
+  const timelineStart = periods[0]?.date ?? rangeStart;
+  const totalDays = differenceInCalendarDays(rangeEnd, timelineStart) + 1;
+  const timelineWidth = totalDays * dayWidth;
+
+  const xFor = (date: Date) => differenceInCalendarDays(date, timelineStart) * dayWidth;
+
+  // Bring today into view when the zoom changes
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollLeft = Math.max(0, xFor(today) - 200);
+    }
+  }, [zoom, timelineStart.getTime()]);
+
+  // Track the pointer while dragging a bar
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (e: MouseEvent) => {
+      const deltaDays = Math.round((e.clientX - drag.originX) / dayWidth);
+      if (deltaDays !== drag.deltaDays) setDrag({ ...drag, deltaDays });
+    };
+
+    const handleUp = () => {
+      if (drag.deltaDays !== 0) {
+        const { startDate, targetEndDate } = shiftDates(drag.item, drag.mode, drag.deltaDays);
+        setPending({ item: drag.item, startDate, targetEndDate });
+        setChangeReason('');
+        setError(null);
+      }
+      setDrag(null);
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [drag, dayWidth]);
+
+  const startDrag = (e: React.MouseEvent, item: PlanItem, mode: DragMode) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDrag({ item, mode, originX: e.clientX, deltaDays: 0 });
+  };
+
+  const toggleCollapse = (id: string) => {
+    setCollapsedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleConfirm = async () => {
+    if (!pending || !changeReason.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await planItemsApi.update(pending.item.id, {
+        startDate: toDateParam(pending.startDate),
+        targetEndDate: toDateParam(pending.targetEndDate),
+        changeReason: changeReason.trim(),
+      });
+      if (response.success && response.data) {
+        onItemUpdated(response.data);
+        setPending(null);
+      } else {
+        setError(response.error?.message || 'Failed to reschedule item');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reschedule item');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderBars = (item: PlanItem) => {
+    const dragging = drag?.item.id === item.id ? drag : null;
+    const planned = dragging
+      ? shiftDates(item, dragging.mode, dragging.deltaDays)
+      : { startDate: toDay(item.startDate), targetEndDate: toDay(item.targetEndDate) };
+    const critical = schedule?.get(item.id)?.isCritical;
+
+    // Milestones are a single point in time
+    if (isMilestone(item)) {
+      const date = planned.targetEndDate || planned.startDate;
+      const actual = toDay(item.actualEndDate);
+      return (
+        <>
+          {date && (
+            <div
+              className={cn(
+                'absolute top-1/2 h-3.5 w-3.5 -translate-x-1/2 -translate-y-1/2 rotate-45 cursor-grab border',
+                critical ? 'bg-red-500 border-red-700' : 'bg-primary border-primary',
+                dragging && 'cursor-grabbing ring-2 ring-primary/40'
+              )}
+              style={{ left: xFor(date) + dayWidth / 2 }}
+              title={`${item.name}: ${format(date, 'MMM d, yyyy')}`}
+              onMouseDown={(e) => startDrag(e, item, 'move')}
+            />
+          )}
+          {actual && (
+            <div
+              className="absolute top-1/2 h-2.5 w-2.5 -translate-x-1/2 -translate-y-1/2 rotate-45 bg-emerald-500"
+              style={{ left: xFor(actual) + dayWidth / 2 }}
+              title={`Completed ${format(actual, 'MMM d, yyyy')}`}
+            />
+          )}
+        </>
+      );
+    }
+
+    const plannedStart = planned.startDate || planned.targetEndDate;
+    const plannedEnd = planned.targetEndDate || planned.startDate;
+    const actualStart = toDay(item.actualStartDate);
+    const actualEnd = toDay(item.actualEndDate) || (actualStart && item.status !== 'completed' ? today : null);
+
+    return (
+      <>
+        {plannedStart && plannedEnd && (
+          <div
+            className={cn(
+              'absolute top-1.5 h-4 rounded-sm cursor-grab group',
+              critical ? 'bg-red-200 border border-red-400' : 'bg-primary/25 border border-primary/50',
+              dragging && 'cursor-grabbing ring-2 ring-primary/40'
+            )}
+            style={{
+              left: xFor(plannedStart),
+              width: Math.max(dayWidth, (differenceInCalendarDays(plannedEnd, plannedStart) + 1) * dayWidth),
+            }}
+            title={`${item.name}: ${format(plannedStart, 'MMM d')} – ${format(plannedEnd, 'MMM d, yyyy')}`}
+            onMouseDown={(e) => startDrag(e, item, 'move')}
+          >
+            {/* Resize handle for the target end date */}
+            <div
+              className="absolute right-0 top-0 h-full w-1.5 cursor-ew-resize bg-primary/60 opacity-0 group-hover:opacity-100"
+              onMouseDown={(e) => startDrag(e, item, 'resize')}
+            />
+          </div>
+        )}
+        {actualStart && actualEnd && (
+          <div
+            className="absolute bottom-1.5 h-2 rounded-sm bg-emerald-500"
+            style={{
+              left: xFor(actualStart),
+              width: Math.max(dayWidth, (differenceInCalendarDays(actualEnd, actualStart) + 1) * dayWidth),
+            }}
+            title={`Actual: ${format(actualStart, 'MMM d')} – ${item.actualEndDate ? format(actualEnd, 'MMM d, yyyy') : 'in progress'}`}
+          />
+        )}
+      </>
+    );
+  };
+
+  if (items.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        No plan items yet. Add items with dates to see them on the timeline.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <span className="inline-block h-3 w-5 rounded-sm bg-primary/25 border border-primary/50" /> Planned
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block h-2 w-5 rounded-sm bg-emerald-500" /> Actual
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block h-2.5 w-2.5 rotate-45 bg-primary" /> Milestone
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block h-3 w-0.5 bg-red-500" /> Today
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          {(Object.keys(ZOOM_LABELS) as GanttZoom[]).map((level) => (
+            <Button
+              key={level}
+              variant={zoom === level ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setZoom(level)}
+            >
+              {ZOOM_LABELS[level]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div ref={scrollRef} className="relative overflow-x-auto border rounded-md select-none">
+        <div style={{ width: LABEL_WIDTH + timelineWidth }}>
+          {/* Header */}
+          <div className="flex sticky top-0 z-20 bg-background border-b">
+            <div
+              className="sticky left-0 z-30 bg-background border-r px-3 py-2 text-xs font-medium text-muted-foreground"
+              style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH }}
+            >
+              Item
+            </div>
+            <div className="relative h-8" style={{ width: timelineWidth }}>
+              {periods.map((period) => (
+                <div
+                  key={period.date.getTime()}
+                  className="absolute top-0 h-full border-l px-1 py-2 text-xs text-muted-foreground whitespace-nowrap"
+                  style={{ left: xFor(period.date) }}
+                >
+                  {period.label}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Rows */}
+          <div className="relative">
+            {rows.map(({ item, depth, hasChildren }) => (
+              <div key={item.id} className="flex border-b last:border-b-0 hover:bg-muted/30">
+                <div
+                  className="sticky left-0 z-10 flex items-center gap-1 bg-background border-r px-2 text-sm"
+                  style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH, height: ROW_HEIGHT, paddingLeft: 8 + depth * 16 }}
+                >
+                  {hasChildren ? (
+                    <button
+                      type="button"
+                      className="p-0.5 text-muted-foreground hover:text-foreground"
+                      onClick={() => toggleCollapse(item.id)}
+                    >
+                      {collapsedIds.has(item.id) ? (
+                        <ChevronRight className="h-4 w-4" />
+                      ) : (
+                        <ChevronDown className="h-4 w-4" />
+                      )}
+                    </button>
+                  ) : (
+                    <span className="w-5" />
+                  )}
+                  <span className={cn('truncate', depth === 0 && 'font-medium')} title={item.name}>
+                    {item.name}
+                  </span>
+                </div>
+                <div className="relative" style={{ width: timelineWidth, height: ROW_HEIGHT }}>
+                  {renderBars(item)}
+                </div>
+              </div>
+            ))}
+
+            {/* Period gridlines and today line */}
+            <div className="pointer-events-none absolute inset-y-0" style={{ left: LABEL_WIDTH, width: timelineWidth }}>
+              {periods.map((period) => (
+                <div
+                  key={period.date.getTime()}
+                  className="absolute inset-y-0 border-l border-dashed border-muted"
+                  style={{ left: xFor(period.date) }}
+                />
+              ))}
+              <div
+                className="absolute inset-y-0 w-0.5 bg-red-500"
+                style={{ left: xFor(today) + dayWidth / 2 }}
+                title="Today"
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Drag a bar to move it, or drag its right edge to change the target end date.
+      </p>
+
+      {/* Reschedule confirmation */}
+      <Dialog open={!!pending} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reschedule {pending?.item.name}</DialogTitle>
+            <DialogDescription>
+              {pending && (
+                <>
+                  {pending.startDate && <>Start {format(pending.startDate, 'MMM d, yyyy')} · </>}
+                  {pending.targetEndDate && <>Target end {format(pending.targetEndDate, 'MMM d, yyyy')}</>}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Reason for change</Label>
+            <Input
+              value={changeReason}
+              placeholder="e.g. Vendor delivery slipped a week"
+              onChange={(e) => setChangeReason(e.target.value)}
+              autoFocus
+            />
+            <p className="text-xs text-muted-foreground">Recorded in the item history.</p>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirm} disabled={saving || !changeReason.trim()}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Reschedule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+// Apply a drag to an item's planned dates
+function shiftDates(item: PlanItem, mode: DragMode, deltaDays: number) {
+  const start = toDay(item.startDate);
+  const end = toDay(item.targetEndDate);
+
+  if (mode === 'resize') {
+    const base = end || start;
+    if (!base) return { startDate: start, targetEndDate: end };
+    const shifted = addDays(base, deltaDays);
+    // Never let the end date cross the start date
+    return { startDate: start, targetEndDate: start && shifted < start ? start : shifted };
+  }
+
+  return {
+    startDate: start ? addDays(start, deltaDays) : null,
+    targetEndDate: end ? addDays(end, deltaDays) : null,
+  };
+}
@@ -0,0 +1,416 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { format } from 'date-fns';
+import { History, Loader2, RefreshCw, RotateCcw, Undo2, AlertTriangle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useProjectStore } from '@/stores/projectStore';
+import planItemsApi from '@/api/plan-items.api';
+import { useOrganizationMembers } from './OwnerInput';
+import type { PlanHistoryEntry, PlanRevertOptions, PlanRevertResult } from '@/types';
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  description: 'Description',
+  owner: 'Owner',
+  ownerUserId: 'Assignee',
+  status: 'Status',
+  workflowStatus: 'Workflow status',
+  notes: 'Notes',
+  startDate: 'Start date',
+  targetEndDate: 'Target end',
+  actualStartDate: 'Actual start',
+  actualEndDate: 'Actual end',
+  effort: 'Effort',
+  parentId: 'Parent',
+  isActive: 'Deleted',
+};
+
+const fieldLabel = (field: string) =>
+  FIELD_LABELS[field] ?? (field.startsWith('customFields.') ? field.slice('customFields.'.length) : field);
+
+// isActive is shown as "Deleted", so flip it; assignees by name; long values such as notes are cut short
+const displayValue = (field: string, value: string | null, memberNames: Map<string, string>) => {
+  if (value === null) return '—';
+  if (field === 'isActive') return value === 'true' ? 'No' : 'Yes';
+  if (field === 'ownerUserId') return memberNames.get(value) ?? `Former member #${value}`;
+  return value.length > 60 ? `${value.slice(0, 60)}…` : value;
+};
+
+// Consecutive entries sharing a batch ID are shown and reverted together
+interface HistoryGroup {
+  batchId: string | null;
+  entries: PlanHistoryEntry[];
+}
+
+// What the preview dialog is about to revert
+type RevertTarget =
+  | { kind: 'entry'; entry: PlanHistoryEntry }
+  | { kind: 'batch'; batchId: string }
+  | { kind: 'timestamp'; at: string };
+
+export function PlanHistory() {
+  const { currentProject, fetchPlanItems } = useProjectStore();
+
+  const [entries, setEntries] = useState<PlanHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [rollbackAt, setRollbackAt] = useState('');
+  const members = useOrganizationMembers(true);
+  const memberNames = useMemo(
+    () => new Map(members.map((member) => [String(member.id), `${member.firstName} ${member.lastName}`])),
+    [members]
+  );
+
+  // Preview dialog state
+  const [target, setTarget] = useState<RevertTarget | null>(null);
+  const [preview, setPreview] = useState<PlanRevertResult | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [force, setForce] = useState(false);
+  const [reverting, setReverting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    if (!currentProject) return;
+
+    setLoading(true);
+    try {
+      const response = await planItemsApi.getProjectHistory(currentProject.id, { limit: 200 });
+      if (response.success && response.data) {
+        setEntries(response.data);
+      }
+    } catch (err) {
+      console.error('Failed to fetch plan history:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentProject]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const groups = useMemo(() => {
+    const result: HistoryGroup[] = [];
+    for (const entry of entries) {
+      const last = result[result.length - 1];
+      if (entry.batchId && last?.batchId === entry.batchId) {
+        last.entries.push(entry);
+      } else {
+        result.push({ batchId: entry.batchId, entries: [entry] });
+      }
+    }
+    return result;
+  }, [entries]);
+
+  const runRevert = (revertTarget: RevertTarget, options: PlanRevertOptions) => {
+    if (!currentProject) throw new Error('No project selected');
+    switch (revertTarget.kind) {
+      case 'entry':
+        return planItemsApi.revertChange(revertTarget.entry.planItemId, revertTarget.entry.id, options);
+      case 'batch':
+        return planItemsApi.revertBatch(currentProject.id, revertTarget.batchId, options);
+      case 'timestamp':
+        return planItemsApi.revertToTimestamp(currentProject.id, revertTarget.at, options);
+    }
+  };
+
+  const openPreview = async (revertTarget: RevertTarget) => {
+    setTarget(revertTarget);
+    setPreview(null);
+    setForce(false);
+    setError(null);
+    setMessage(null);
+    setPreviewLoading(true);
+    try {
+      const response = await runRevert(revertTarget, { preview: true });
+      if (response.success && response.data) {
+        setPreview(response.data);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to preview revert');
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  const handleRevert = async () => {
+    if (!target || !currentProject) return;
+
+    setReverting(true);
+    setError(null);
+    try {
+      const response = await runRevert(target, { force });
+      if (response.success && response.data) {
+        const { changes, skipped } = response.data;
+        setMessage(
+          skipped.length > 0
+            ? `Reverted ${changes.length} changes; ${skipped.length} skipped.`
+            : `Reverted ${changes.length} changes.`
+        );
+        setTarget(null);
+        await Promise.all([fetchHistory(), fetchPlanItems(currentProject.id)]);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to revert');
+    } finally {
+      setReverting(false);
+    }
+  };
+
+  const conflicts = preview?.changes.filter(change => change.conflict).length ?? 0;
+
+  if (!currentProject) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          Select a project to view its plan history.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <History className="h-5 w-5" />
+                Plan History
+              </CardTitle>
+              <CardDescription>
+                Every change to this plan, newest first. Revert a single change, a batch of applied
+                updates, or roll the whole plan back to an earlier time.
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={fetchHistory} disabled={loading}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-end gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="rollback-at">Roll back plan to</Label>
+              <Input
+                id="rollback-at"
+                type="datetime-local"
+                value={rollbackAt}
+                onChange={(e) => setRollbackAt(e.target.value)}
+              />
+            </div>
+            <Button
+              variant="outline"
+              disabled={!rollbackAt}
+              onClick={() => openPreview({ kind: 'timestamp', at: new Date(rollbackAt).toISOString() })}
+            >
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Preview Rollback
+            </Button>
+          </div>
+
+          {message && (
+            <div className="rounded-md bg-green-50 p-3 text-sm text-green-700">{message}</div>
+          )}
+          {error && !target && (
+            <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>
+          )}
+
+          {loading && entries.length === 0 ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">No changes recorded yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Field</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {groups.map((group) => [
+                  group.batchId && group.entries.length > 1 && (
+                    <TableRow key={`batch-${group.batchId}`} className="bg-muted/50">
+                      <TableCell colSpan={5} className="text-sm text-muted-foreground">
+                        {group.entries.length} changes made together
+                        {group.entries[0].changeReason && ` — ${group.entries[0].changeReason}`}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openPreview({ kind: 'batch', batchId: group.batchId! })}
+                        >
+                          <Undo2 className="mr-2 h-4 w-4" />
+                          Revert all
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ),
+                  ...group.entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {format(new Date(entry.createdAt), 'MMM d, HH:mm')}
+                      </TableCell>
+                      <TableCell>
+                        {entry.planItem.name}
+                        {!entry.planItem.isActive && (
+                          <Badge variant="outline" className="ml-2">Deleted</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{fieldLabel(entry.field)}</TableCell>
+                      <TableCell className="text-sm">
+                        <span className="text-muted-foreground">{displayValue(entry.field, entry.oldValue, memberNames)}</span>
+                        {' → '}
+                        {displayValue(entry.field, entry.newValue, memberNames)}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {entry.changedByEmail ?? '—'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openPreview({ kind: 'entry', entry })}
+                        >
+                          <Undo2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  )),
+                ])}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!target} onOpenChange={(open) => !open && setTarget(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Review Revert</DialogTitle>
+            <DialogDescription>
+              These fields will be restored. The revert is recorded in the history and can itself be
+              reverted.
+            </DialogDescription>
+          </DialogHeader>
+
+          {error && (
+            <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>
+          )}
+
+          {previewLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : preview && (
+            <div className="max-h-96 space-y-4 overflow-y-auto">
+              {preview.changes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing to revert; the plan already matches.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Field</TableHead>
+                      <TableHead>Current</TableHead>
+                      <TableHead>Reverts To</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.changes.map((change) => (
+                      <TableRow key={`${change.planItemId}-${change.field}`}>
+                        <TableCell>
+                          {change.itemName}
+                          {change.conflict && (
+                            <Badge variant="destructive" className="ml-2">Edited since</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>{fieldLabel(change.field)}</TableCell>
+                        <TableCell className="text-sm">{displayValue(change.field, change.currentValue, memberNames)}</TableCell>
+                        <TableCell className="text-sm">{displayValue(change.field, change.revertTo, memberNames)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              {preview.skipped.length > 0 && (
+                <div className="space-y-1 text-sm">
+                  <p className="font-medium">Will not be reverted:</p>
+                  {preview.skipped.map((item) => (
+                    <p key={`${item.planItemId}-${item.field}`} className="text-muted-foreground">
+                      {item.itemName} ({fieldLabel(item.field)}): {item.reason}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {conflicts > 0 && (
+                <div className="flex items-start gap-2 rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">
+                  <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                  <div className="space-y-2">
+                    <p>
+                      {conflicts} {conflicts === 1 ? 'field was' : 'fields were'} edited after this
+                      change. They are kept unless you choose to overwrite them.
+                    </p>
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="revert-force"
+                        checked={force}
+                        onCheckedChange={(checked) => setForce(checked === true)}
+                      />
+                      <Label htmlFor="revert-force">Overwrite later edits</Label>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleRevert}
+              disabled={reverting || previewLoading || !preview || preview.changes.length === 0}
+            >
+              {reverting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Revert
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,21 +1,45 @@
 import { useState, useCallback } from 'react';
-import { Upload, FileText, Download, AlertCircle, CheckCircle, X, Loader2 } from 'lucide-react';
+import {
+  Upload,
+  FileText,
+  Download,
+  AlertCircle,
+  CheckCircle,
+  X,
+  Loader2,
+  FileCode,
+  FileSpreadsheet,
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { useProjectStore } from '@/stores/projectStore';
-import planItemsApi, { type CsvPreviewResponse, type ImportResult } from '@/api/plan-items.api';
+import planItemsApi, {
+  type CsvPreviewResponse,
+  type ImportResult,
+  type MspdiImportResult,
+} from '@/api/plan-items.api';
 
 type ImportState = 'idle' | 'preview' | 'importing' | 'complete';
 
+const isCsvFile = (file: File) => file.type === 'text/csv' || file.name.endsWith('.csv');
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const isXlsxFile = (file: File) => file.type === XLSX_MIME_TYPE || file.name.toLowerCase().endsWith('.xlsx');
+
+// MS Project XML (MSPDI) files go through the same preview/import flow as CSV
+const isMspdiFile = (file: File) =>
+  file.type === 'application/xml' || file.type === 'text/xml' || file.name.toLowerCase().endsWith('.xml');
+
 export function PlanImport() {
   const { currentProject, fetchPlanItems } = useProjectStore();
   const [state, setState] = useState<ImportState>('idle');
   const [file, setFile] = useState<File | null>(null);
   const [preview, setPreview] = useState<CsvPreviewResponse | null>(null);
-  const [result, setResult] = useState<ImportResult | null>(null);
+  const [result, setResult] = useState<ImportResult | MspdiImportResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [exporting, setExporting] = useState<'xlsx' | 'mspdi' | 'csv' | null>(null);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -31,10 +55,10 @@ export function PlanImport() {
     e.preventDefault();
     setIsDragging(false);
     const droppedFile = e.dataTransfer.files[0];
-    if (droppedFile && (droppedFile.type === 'text/csv' || droppedFile.name.endsWith('.csv'))) {
+    if (droppedFile && (isCsvFile(droppedFile) || isXlsxFile(droppedFile) || isMspdiFile(droppedFile))) {
       handleFileSelect(droppedFile);
     } else {
-      setError('Please drop a CSV file');
+      setError('Please drop a CSV, Excel or MS Project XML file');
     }
   }, []);
 
@@ -56,7 +80,9 @@ export function PlanImport() {
     setState('preview');
 
     try {
-      const response = await planItemsApi.previewImport(currentProject.id, selectedFile);
+      const response = isMspdiFile(selectedFile)
+        ? await planItemsApi.previewMspdiImport(currentProject.id, selectedFile)
+        : await planItemsApi.previewImport(currentProject.id, selectedFile);
       if (response.success && response.data) {
         setPreview(response.data);
         if (response.data.errors.length > 0) {
@@ -79,7 +105,9 @@ export function PlanImport() {
     setError(null);
 
     try {
-      const response = await planItemsApi.importCsv(currentProject.id, file);
+      const response = isMspdiFile(file)
+        ? await planItemsApi.importMspdi(currentProject.id, file)
+        : await planItemsApi.importCsv(currentProject.id, file);
       if (response.success && response.data) {
         setResult(response.data);
         setState('complete');
@@ -103,6 +131,30 @@ export function PlanImport() {
     setError(null);
   };
 
+  const handleExport = async (format: 'xlsx' | 'mspdi' | 'csv') => {
+    if (!currentProject) return;
+
+    setExporting(format);
+    setError(null);
+    try {
+      const blob = format === 'xlsx'
+        ? await planItemsApi.exportXlsx(currentProject.id)
+        : format === 'csv'
+          ? await planItemsApi.exportCsv(currentProject.id)
+          : await planItemsApi.exportMspdi(currentProject.id);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${currentProject.name}.${format === 'mspdi' ? 'xml' : format}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export plan');
+    } finally {
+      setExporting(null);
+    }
+  };
+
   const handleDownloadTemplate = () => {
     const templateUrl = planItemsApi.getTemplateUrl();
     window.open(templateUrl, '_blank');
@@ -125,7 +177,7 @@ export function PlanImport() {
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            <div className="grid grid-cols-3 gap-4">
+            <div className={`grid gap-4 ${'dependenciesCreated' in result ? 'grid-cols-4' : 'grid-cols-3'}`}>
               <div className="p-4 bg-slate-50 rounded-lg text-center">
                 <div className="text-2xl font-bold text-slate-900">{result.totalRows}</div>
                 <div className="text-sm text-slate-600">Total Rows</div>
@@ -138,6 +190,12 @@ export function PlanImport() {
                 <div className="text-2xl font-bold text-blue-600">{result.itemsUpdated}</div>
                 <div className="text-sm text-slate-600">Items Updated</div>
               </div>
+              {'dependenciesCreated' in result && (
+                <div className="p-4 bg-violet-50 rounded-lg text-center">
+                  <div className="text-2xl font-bold text-violet-600">{result.dependenciesCreated}</div>
+                  <div className="text-sm text-slate-600">Dependencies Created</div>
+                </div>
+              )}
             </div>
 
             {result.errors.length > 0 && (
@@ -151,7 +209,7 @@ export function PlanImport() {
                 <div className="max-h-40 overflow-y-auto text-sm text-yellow-700">
                   {result.errors.map((err, i) => (
                     <div key={i}>
-                      Row {err.row}: {err.error}
+                      {err.sheet ? `${err.sheet} row ${err.row}` : `Row ${err.row}`}: {err.error}
                     </div>
                   ))}
                 </div>
@@ -179,6 +237,17 @@ export function PlanImport() {
               </CardTitle>
               <CardDescription className="mt-1">
                 {preview.rows.length} rows found. Review before importing.
+                {preview.sheets && preview.sheets.length > 0 && (
+                  <span className="block mt-1">
+                    {preview.sheets
+                      .map(sheet =>
+                        sheet.layout === 'skipped'
+                          ? `${sheet.name}: skipped`
+                          : `${sheet.name}: ${sheet.rows} rows (${sheet.layout === 'columns' ? 'hierarchy columns' : 'outline'})`
+                      )
+                      .join(' · ')}
+                  </span>
+                )}
               </CardDescription>
             </div>
             <div className="flex items-center gap-2">
@@ -254,9 +323,10 @@ export function PlanImport() {
     <div className="space-y-4">
       <Card>
         <CardHeader>
-          <CardTitle>Import Plan Items from CSV</CardTitle>
+          <CardTitle>Import Plan Items</CardTitle>
           <CardDescription>
-            Upload a CSV file to bulk import plan items. The CSV should follow the required format with
+            Upload a CSV or Excel (.xlsx) file to bulk import plan items, or an MS Project XML file
+            (.xml) saved from Microsoft Project. CSV files should follow the required format with
             hierarchy columns (workstream, milestone, activity, task, subtask).
           </CardDescription>
         </CardHeader>
@@ -284,11 +354,11 @@ export function PlanImport() {
             onDrop={handleDrop}
           >
             <Upload className="h-10 w-10 text-slate-400 mx-auto mb-4" />
-            <p className="text-lg font-medium mb-2">Drop your CSV file here</p>
+            <p className="text-lg font-medium mb-2">Drop your CSV, Excel or MS Project XML file here</p>
             <p className="text-sm text-muted-foreground mb-4">or click to browse</p>
             <input
               type="file"
-              accept=".csv,text/csv"
+              accept=".csv,text/csv,.xlsx,.xml,application/xml,text/xml"
               className="hidden"
               id="csv-upload"
               onChange={handleFileChange}
@@ -296,13 +366,66 @@ export function PlanImport() {
             <Button asChild variant="outline">
               <label htmlFor="csv-upload" className="cursor-pointer">
                 <FileText className="h-4 w-4 mr-2" />
-                Select CSV File
+                Select File
               </label>
             </Button>
           </div>
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Excel</CardTitle>
+          <CardDescription>
+            Export the plan to a workbook with one row per item, or import one back
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Button variant="outline" onClick={() => handleExport('xlsx')} disabled={exporting !== null}>
+            {exporting === 'xlsx' ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+            )}
+            Export to Excel
+          </Button>
+
+          <ul className="list-disc list-inside text-sm text-muted-foreground space-y-1">
+            <li>Every sheet with a recognised layout is imported; other sheets are skipped</li>
+            <li>Use the CSV hierarchy columns, or a single Name column with a Level column, row grouping or cell indent</li>
+            <li>Invalid statuses and dates are reported by cell and left out; the rest of the row still imports</li>
+            <li>Custom field columns are matched by the field's key or label</li>
+            <li>The exported workbook re-imports without duplicating items</li>
+          </ul>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>MS Project</CardTitle>
+          <CardDescription>
+            Round-trip the plan with Microsoft Project using MS Project XML
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Button variant="outline" onClick={() => handleExport('mspdi')} disabled={exporting !== null}>
+            {exporting === 'mspdi' ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FileCode className="h-4 w-4 mr-2" />
+            )}
+            Export to MS Project XML
+          </Button>
+
+          <ul className="list-disc list-inside text-sm text-muted-foreground space-y-1">
+            <li>Outline levels map to plan item levels (level 1 is a workstream)</li>
+            <li>Assigned resources become the item owner; predecessor links become dependencies</li>
+            <li>Percent complete sets the status; inactive tasks are imported as cancelled</li>
+            <li>Re-importing an exported file updates the matching items instead of duplicating them</li>
+          </ul>
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>CSV Format</CardTitle>
@@ -312,10 +435,20 @@ export function PlanImport() {
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            <Button variant="outline" onClick={handleDownloadTemplate}>
-              <Download className="h-4 w-4 mr-2" />
-              Download CSV Template
-            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleDownloadTemplate}>
+                <Download className="h-4 w-4 mr-2" />
+                Download CSV Template
+              </Button>
+              <Button variant="outline" onClick={() => handleExport('csv')} disabled={exporting !== null}>
+                {exporting === 'csv' ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <FileSpreadsheet className="h-4 w-4 mr-2" />
+                )}
+                Export to CSV
+              </Button>
+            </div>
 
             <div className="text-sm">
               <h4 className="font-medium mb-2">Required columns (at least one):</h4>
@@ -334,6 +467,7 @@ export function PlanImport() {
                 <li><code className="text-xs bg-slate-100 px-1 rounded">start_date</code> - YYYY-MM-DD or MM/DD/YYYY</li>
                 <li><code className="text-xs bg-slate-100 px-1 rounded">target_end_date</code> - YYYY-MM-DD or MM/DD/YYYY</li>
                 <li><code className="text-xs bg-slate-100 px-1 rounded">notes</code> - Additional notes</li>
+                <li>Custom fields - one column per field, headed by its key or label</li>
               </ul>
             </div>
 
@@ -352,7 +486,7 @@ Development,Sprint 1,Features,User auth,Login page,completed,John Doe,2024-01-15
               <ul className="list-disc list-inside mt-2 text-slate-600 space-y-1">
                 <li>Each row creates items at the deepest filled hierarchy level</li>
                 <li>Parent items are automatically created or found by name</li>
-                <li>Status, owner, dates, and notes are applied to the deepest item</li>
+                <li>Status, owner, dates, notes and custom fields are applied to the deepest item</li>
                 <li>Existing items (same name under same parent) are reused, not duplicated</li>
               </ul>
             </div>
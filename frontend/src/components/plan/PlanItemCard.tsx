@@ -8,6 +8,9 @@ import {
   Plus,
   User,
   Calendar,
+  Flame,
+  MessageSquare,
+  FileText,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
@@ -19,25 +22,34 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { StatusBadge } from './StatusBadge';
 import { cn } from '@/lib/utils';
-import type { PlanItem } from '@/types';
+import type { PlanItem, CriticalPathItem } from '@/types';
+import type { CommentCount } from '@/api/comments.api';
 
 interface PlanItemCardProps {
   item: PlanItem;
+  schedule?: CriticalPathItem;
+  commentCount?: CommentCount;
   isExpanded: boolean;
   onToggleExpand: () => void;
   onEdit: (item: PlanItem) => void;
   onDelete: (item: PlanItem) => void;
   onAddChild: (parentItem: PlanItem) => void;
+  onOpenComments?: (item: PlanItem) => void;
+  onOpenEvidence?: (item: PlanItem) => void;
   depth?: number;
 }
 
 export function PlanItemCard({
   item,
+  schedule,
+  commentCount,
   isExpanded,
   onToggleExpand,
   onEdit,
   onDelete,
   onAddChild,
+  onOpenComments,
+  onOpenEvidence,
   depth = 0,
 }: PlanItemCardProps) {
   const [isHovered, setIsHovered] = useState(false);
@@ -67,7 +79,8 @@ export function PlanItemCard({
       className={cn(
         'group flex items-center gap-2 py-2 px-3 rounded-lg transition-colors',
         'hover:bg-accent/50',
-        isHovered && 'bg-accent/30'
+        isHovered && 'bg-accent/30',
+        schedule?.isCritical && 'border-l-2 border-red-500'
       )}
       style={{ paddingLeft: `${depth * 24 + 12}px` }}
       onMouseEnter={() => setIsHovered(true)}
@@ -112,6 +125,65 @@ export function PlanItemCard({
           </div>
         )}
 
+        {schedule?.isCritical && (
+          <div
+            className="flex items-center gap-1 text-xs font-medium text-red-600"
+            title="On the critical path - any slip delays the project finish"
+          >
+            <Flame className="h-3 w-3" />
+            <span>Critical</span>
+          </div>
+        )}
+
+        {schedule && !schedule.isCritical && isHovered && (
+          <span className="text-xs text-muted-foreground" title="Days this item can slip without delaying the project">
+            {schedule.slackDays}d slack
+          </span>
+        )}
+
+        {hasChildren && item.progress !== undefined && (
+          <div
+            className="flex items-center gap-1.5"
+            title={`${item.progress}% complete, rolled up from child items`}
+          >
+            <div className="h-1.5 w-16 rounded-full bg-muted overflow-hidden">
+              <div className="h-full bg-primary" style={{ width: `${item.progress}%` }} />
+            </div>
+            <span className="text-xs text-muted-foreground w-8">{item.progress}%</span>
+          </div>
+        )}
+
+        {hasChildren && item.derivedStatus && item.derivedStatus !== item.status && (
+          <span
+            className="text-xs text-amber-600"
+            title="Status implied by child items differs from this item's status"
+          >
+            children: {item.derivedStatus.replace(/_/g, ' ')}
+          </span>
+        )}
+
+        {commentCount && commentCount.total > 0 && (
+          <button
+            type="button"
+            className={cn(
+              'relative flex items-center gap-1 text-sm',
+              commentCount.unread > 0 ? 'text-blue-600 font-medium' : 'text-muted-foreground'
+            )}
+            title={
+              commentCount.unread > 0
+                ? `${commentCount.unread} unread of ${commentCount.total} comments`
+                : `${commentCount.total} comments`
+            }
+            onClick={() => onOpenComments?.(item)}
+          >
+            <MessageSquare className="h-3 w-3" />
+            <span>{commentCount.total}</span>
+            {commentCount.unread > 0 && (
+              <span className="absolute -top-1 -left-1 h-2 w-2 rounded-full bg-blue-600" />
+            )}
+          </button>
+        )}
+
         <StatusBadge status={item.status} />
       </div>
 
@@ -135,6 +207,18 @@ export function PlanItemCard({
             <Plus className="h-4 w-4 mr-2" />
             Add Child
           </DropdownMenuItem>
+          {onOpenComments && (
+            <DropdownMenuItem onClick={() => onOpenComments(item)}>
+              <MessageSquare className="h-4 w-4 mr-2" />
+              Comments
+            </DropdownMenuItem>
+          )}
+          {onOpenEvidence && (
+            <DropdownMenuItem onClick={() => onOpenEvidence(item)}>
+              <FileText className="h-4 w-4 mr-2" />
+              Evidence
+            </DropdownMenuItem>
+          )}
           <DropdownMenuSeparator />
           <DropdownMenuItem
             onClick={() => onDelete(item)}
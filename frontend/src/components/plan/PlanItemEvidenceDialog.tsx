@@ -0,0 +1,217 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import {
+  Loader2,
+  Link2,
+  Unlink,
+  File,
+  FileText,
+  Mail,
+  Calendar,
+  Mic,
+  BarChart3,
+  Sparkles,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import planItemsApi, { type PlanItemEvidence, type LinkSource } from '@/api/plan-items.api';
+import contentItemsApi, { type ContentItem } from '@/api/content-items.api';
+import type { PlanItem } from '@/types';
+
+interface PlanItemEvidenceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item: PlanItem | null;
+}
+
+const sourceTypeIcons: Record<string, typeof File> = {
+  file: File,
+  text: FileText,
+  email: Mail,
+  calendar: Calendar,
+  transcript: Mic,
+};
+
+const linkSourceLabels: Record<LinkSource, string | null> = {
+  manual: null,
+  ai: 'Suggested by AI',
+  plan_update: 'Plan update evidence',
+};
+
+export function PlanItemEvidenceDialog({ open, onOpenChange, item }: PlanItemEvidenceDialogProps) {
+  const [evidence, setEvidence] = useState<PlanItemEvidence | null>(null);
+  const [projectContent, setProjectContent] = useState<ContentItem[]>([]);
+  const [selectedContentId, setSelectedContentId] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEvidence = useCallback(async () => {
+    if (!item) return;
+    setLoading(true);
+    try {
+      const response = await planItemsApi.getEvidence(item.id);
+      if (response.success && response.data) setEvidence(response.data);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to load evidence');
+    } finally {
+      setLoading(false);
+    }
+  }, [item?.id]);
+
+  useEffect(() => {
+    if (!open || !item) return;
+    setError(null);
+    setSelectedContentId('');
+    fetchEvidence();
+    contentItemsApi
+      .getProjectContent(item.projectId, { limit: 100 })
+      .then((response) => {
+        if (response.success && response.data) setProjectContent(response.data.items);
+      })
+      .catch((err) => console.error('Failed to load project content:', err));
+  }, [open, item?.id]);
+
+  const linkedIds = new Set(evidence?.contentItems.map((c) => c.id));
+  const linkable = projectContent.filter((c) => !linkedIds.has(c.id) && !c.parentItemId);
+
+  const handleLink = async () => {
+    if (!item || !selectedContentId) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await planItemsApi.linkContent(item.id, selectedContentId);
+      setSelectedContentId('');
+      await fetchEvidence();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to link content');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUnlink = async (contentItemId: string) => {
+    if (!item) return;
+    setError(null);
+    try {
+      await planItemsApi.unlinkContent(item.id, contentItemId);
+      await fetchEvidence();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to unlink content');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Evidence: {item?.name}</DialogTitle>
+          <DialogDescription>
+            Meeting notes, emails, documents and reports linked to this plan item.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>
+        )}
+
+        <div className="flex gap-2">
+          <Select value={selectedContentId} onValueChange={setSelectedContentId}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Link content from this project…" />
+            </SelectTrigger>
+            <SelectContent>
+              {linkable.map((content) => (
+                <SelectItem key={content.id} value={content.id}>
+                  {content.title} ({format(new Date(content.dateOccurred), 'MMM d, yyyy')})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleLink} disabled={!selectedContentId || saving}>
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />}
+            Link
+          </Button>
+        </div>
+
+        {loading && !evidence ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">Content ({evidence?.contentItems.length ?? 0})</h4>
+              {evidence?.contentItems.length === 0 && (
+                <p className="text-sm text-muted-foreground">No content linked yet.</p>
+              )}
+              {evidence?.contentItems.map((content) => {
+                const Icon = sourceTypeIcons[content.sourceType] || FileText;
+                const linkLabel = linkSourceLabels[content.linkSource];
+                return (
+                  <div key={content.id} className="rounded-md border p-3">
+                    <div className="flex items-center gap-2">
+                      <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                      <span className="flex-1 truncate text-sm font-medium">{content.title}</span>
+                      <span className="whitespace-nowrap text-xs text-muted-foreground">
+                        {format(new Date(content.dateOccurred), 'MMM d, yyyy')}
+                      </span>
+                      {linkLabel && (
+                        <Badge variant="outline" className="gap-1 text-xs">
+                          {content.linkSource === 'ai' && <Sparkles className="h-3 w-3" />}
+                          {linkLabel}
+                        </Badge>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2"
+                        title="Unlink"
+                        onClick={() => handleUnlink(content.id)}
+                      >
+                        <Unlink className="h-3 w-3" />
+                      </Button>
+                    </div>
+                    {content.aiSummary && (
+                      <p className="mt-1 line-clamp-2 text-sm text-muted-foreground">{content.aiSummary}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {evidence && evidence.reports.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold">Reports ({evidence.reports.length})</h4>
+                {evidence.reports.map((report) => (
+                  <div key={report.id} className="flex items-center gap-2 rounded-md border p-3 text-sm">
+                    <BarChart3 className="h-4 w-4 text-muted-foreground" />
+                    <span className="flex-1 truncate">{report.title}</span>
+                    <span className="whitespace-nowrap text-xs text-muted-foreground">
+                      {format(new Date(report.periodStart), 'MMM d')} –{' '}
+                      {format(new Date(report.periodEnd), 'MMM d, yyyy')}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
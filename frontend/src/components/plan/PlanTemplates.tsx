@@ -0,0 +1,369 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { LayoutTemplate, Loader2, RefreshCw, Trash2, Save, CheckCircle2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useProjectStore } from '@/stores/projectStore';
+import {
+  planTemplatesApi,
+  type PlanTemplate,
+  type PlanTemplateItem,
+} from '@/api/plan-templates.api';
+
+const formatDate = (date: string) => format(new Date(date), 'MMM d, yyyy');
+
+// "Day 0 – Day 14" style label for a template item's offsets from the project start
+const formatOffsets = (item: PlanTemplateItem) => {
+  if (item.startOffsetDays === null && item.endOffsetDays === null) return null;
+  const start = item.startOffsetDays !== null ? `Day ${item.startOffsetDays}` : '?';
+  const end = item.endOffsetDays !== null ? `Day ${item.endOffsetDays}` : '?';
+  return `${start} – ${end}`;
+};
+
+function TemplateItemRow({ item, depth }: { item: PlanTemplateItem; depth: number }) {
+  const offsets = formatOffsets(item);
+
+  return (
+    <>
+      <div
+        className="flex items-center gap-2 py-1 text-sm"
+        style={{ paddingLeft: `${depth * 20}px` }}
+      >
+        <span className="font-medium truncate">{item.name}</span>
+        <Badge variant="outline" className="text-xs capitalize">{item.itemTypeSlug}</Badge>
+        {offsets && <span className="text-xs text-muted-foreground ml-auto">{offsets}</span>}
+      </div>
+      {item.children.map(child => (
+        <TemplateItemRow key={child.id} item={child} depth={depth + 1} />
+      ))}
+    </>
+  );
+}
+
+export function PlanTemplates() {
+  const { currentProject, planItems, fetchPlanItems } = useProjectStore();
+
+  const [templates, setTemplates] = useState<PlanTemplate[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Preview / apply state
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [previewItems, setPreviewItems] = useState<PlanTemplateItem[] | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [startDate, setStartDate] = useState('');
+  const [applying, setApplying] = useState(false);
+  const [applyResult, setApplyResult] = useState<string | null>(null);
+  const [applyError, setApplyError] = useState<string | null>(null);
+
+  // Save dialog state
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTemplates = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await planTemplatesApi.list();
+      if (response.success && response.data) {
+        setTemplates(response.data);
+      }
+    } catch (err) {
+      console.error('Failed to fetch plan templates:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  useEffect(() => {
+    setStartDate(currentProject?.startDate ? currentProject.startDate.split('T')[0] : '');
+  }, [currentProject]);
+
+  useEffect(() => {
+    setApplyResult(null);
+    setApplyError(null);
+    if (!selectedId) {
+      setPreviewItems(null);
+      return;
+    }
+
+    setPreviewLoading(true);
+    planTemplatesApi
+      .get(selectedId)
+      .then(response => {
+        if (response.success && response.data) setPreviewItems(response.data.items);
+      })
+      .catch(err => console.error('Failed to fetch plan template:', err))
+      .finally(() => setPreviewLoading(false));
+  }, [selectedId]);
+
+  const handleSave = async () => {
+    if (!currentProject || !name.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await planTemplatesApi.createFromProject(currentProject.id, {
+        name: name.trim(),
+        description: description.trim() || null,
+      });
+      if (response.success && response.data) {
+        setIsSaveOpen(false);
+        setName('');
+        setDescription('');
+        setSelectedId(response.data.id);
+        fetchTemplates();
+      } else {
+        setError(response.error?.message || 'Failed to save template');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: PlanTemplate) => {
+    if (!confirm(`Delete template "${template.name}"?`)) return;
+
+    try {
+      await planTemplatesApi.delete(template.id);
+      setTemplates(prev => prev.filter(t => t.id !== template.id));
+      if (selectedId === template.id) setSelectedId(null);
+    } catch (err) {
+      console.error('Failed to delete plan template:', err);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!currentProject || !selectedId) return;
+
+    setApplying(true);
+    setApplyResult(null);
+    setApplyError(null);
+    try {
+      const response = await planTemplatesApi.instantiate(currentProject.id, {
+        templateId: selectedId,
+        startDate: startDate || undefined,
+      });
+      if (response.success && response.data) {
+        setApplyResult(`Added ${response.data.created} items from "${response.data.templateName}"`);
+        await fetchPlanItems(currentProject.id);
+      } else {
+        setApplyError(response.error?.message || 'Failed to apply template');
+      }
+    } catch (err) {
+      setApplyError(err instanceof Error ? err.message : 'Failed to apply template');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  if (!currentProject) return null;
+
+  const selected = templates.find(t => t.id === selectedId);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Plan Templates</CardTitle>
+              <CardDescription>
+                Reusable plan skeletons shared across the organization.
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={fetchTemplates} disabled={loading}>
+                <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+              <Button size="sm" onClick={() => setIsSaveOpen(true)} disabled={planItems.length === 0}>
+                <Save className="h-4 w-4 mr-1" />
+                Save Plan as Template
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading && templates.length === 0 ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : templates.length === 0 ? (
+            <div className="text-center py-12">
+              <LayoutTemplate className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium mb-1">No templates yet</h3>
+              <p className="text-muted-foreground">
+                Save a finished plan as a template to reuse it on the next engagement
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Created By</TableHead>
+                  <TableHead className="w-20">Items</TableHead>
+                  <TableHead className="w-16">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {templates.map(template => (
+                  <TableRow
+                    key={template.id}
+                    className={`cursor-pointer hover:bg-muted/50 ${selectedId === template.id ? 'bg-muted/50' : ''}`}
+                    onClick={() => setSelectedId(template.id)}
+                  >
+                    <TableCell>
+                      <span className="font-medium">{template.name}</span>
+                      {template.description && (
+                        <p className="text-xs text-muted-foreground">{template.description}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{formatDate(template.createdAt)}</TableCell>
+                    <TableCell className="text-muted-foreground">{template.createdByEmail || '-'}</TableCell>
+                    <TableCell className="text-muted-foreground">{template.itemCount}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={e => {
+                          e.stopPropagation();
+                          handleDelete(template);
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader className="pb-3">
+            <div className="flex items-end justify-between gap-4">
+              <div>
+                <CardTitle>{selected.name}</CardTitle>
+                <CardDescription>
+                  Items are added after the existing plan, with dates counted from the start date.
+                </CardDescription>
+              </div>
+              <div className="flex items-end gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="template-start" className="text-xs">Start date</Label>
+                  <Input
+                    id="template-start"
+                    type="date"
+                    value={startDate}
+                    onChange={e => setStartDate(e.target.value)}
+                    className="w-[160px]"
+                  />
+                </div>
+                <Button onClick={handleApply} disabled={applying}>
+                  {applying && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                  Apply to {currentProject.name}
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {applyResult && (
+              <p className="flex items-center gap-1 text-sm text-emerald-600">
+                <CheckCircle2 className="h-4 w-4" />
+                {applyResult}
+              </p>
+            )}
+            {applyError && <p className="text-sm text-destructive">{applyError}</p>}
+            {previewLoading || !previewItems ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <div className="rounded-md border p-3">
+                {previewItems.map(item => (
+                  <TemplateItemRow key={item.id} item={item} depth={0} />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save Plan as Template</DialogTitle>
+            <DialogDescription>
+              Saves the structure, descriptions and effort of {currentProject.name}'s plan. Dates are
+              kept as offsets from the project start date.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Name</Label>
+              <Input
+                id="template-name"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="e.g. Standard implementation"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-description">Description</Label>
+              <Textarea
+                id="template-description"
+                value={description}
+                onChange={e => setDescription(e.target.value)}
+                placeholder="When to use this template"
+                rows={3}
+              />
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsSaveOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !name.trim()}>
+              {saving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Save Template
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
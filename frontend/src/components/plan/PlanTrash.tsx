@@ -0,0 +1,263 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Trash2, Loader2, RefreshCw, ArchiveRestore } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useProjectStore } from '@/stores/projectStore';
+import trashApi, { type ProjectTrash, type TrashedProject } from '@/api/trash.api';
+
+const formatWhen = (value: string | null) => (value ? format(new Date(value), 'MMM d, yyyy HH:mm') : '—');
+const formatDay = (value: string | null) => (value ? format(new Date(value), 'MMM d, yyyy') : '—');
+
+export function PlanTrash() {
+  const { currentProject, fetchPlanItems, fetchProjects } = useProjectStore();
+
+  const [trash, setTrash] = useState<ProjectTrash | null>(null);
+  const [deletedProjects, setDeletedProjects] = useState<TrashedProject[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchTrash = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [projectTrash, projects] = await Promise.all([
+        currentProject ? trashApi.getProjectTrash(currentProject.id) : null,
+        trashApi.listDeletedProjects(),
+      ]);
+      setTrash(projectTrash?.success && projectTrash.data ? projectTrash.data : null);
+      if (projects.success && projects.data) setDeletedProjects(projects.data);
+    } catch (err) {
+      console.error('Failed to fetch trash:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentProject]);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  const restore = async (id: string, run: () => Promise<string>) => {
+    setRestoringId(id);
+    setError(null);
+    setMessage(null);
+    try {
+      setMessage(await run());
+      await fetchTrash();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to restore');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const handleRestorePlanItem = (id: string) =>
+    restore(id, async () => {
+      const response = await trashApi.restorePlanItem(id);
+      if (currentProject) await fetchPlanItems(currentProject.id);
+      const restored = response.data?.restored ?? 1;
+      return restored > 1 ? `Restored ${restored} plan items.` : 'Restored plan item.';
+    });
+
+  const handleRestoreContentItem = (id: string) =>
+    restore(id, async () => {
+      await trashApi.restoreContentItem(id);
+      return 'Restored content item.';
+    });
+
+  const handleRestoreProject = (id: string) =>
+    restore(id, async () => {
+      const response = await trashApi.restoreProject(id);
+      await fetchProjects();
+      return `Restored project ${response.data?.name ?? ''}.`;
+    });
+
+  const restoreButton = (id: string, onClick: () => void) => (
+    <Button variant="ghost" size="sm" onClick={onClick} disabled={restoringId !== null}>
+      {restoringId === id ? (
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+      ) : (
+        <ArchiveRestore className="mr-2 h-4 w-4" />
+      )}
+      Restore
+    </Button>
+  );
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Trash2 className="h-5 w-5" />
+                Trash
+              </CardTitle>
+              <CardDescription>
+                Deleted plan items, content and projects.
+                {trash && ` They are permanently removed ${trash.retentionDays} days after deletion.`}
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={fetchTrash} disabled={loading}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {message && (
+            <div className="rounded-md bg-green-50 p-3 text-sm text-green-700">{message}</div>
+          )}
+          {error && (
+            <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>
+          )}
+
+          {loading && !trash && deletedProjects.length === 0 ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <>
+              {trash && (
+                <>
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-semibold">Plan items</h4>
+                    {trash.planItems.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No deleted plan items.</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Item</TableHead>
+                            <TableHead>Under</TableHead>
+                            <TableHead>Deleted</TableHead>
+                            <TableHead>By</TableHead>
+                            <TableHead>Purged on</TableHead>
+                            <TableHead className="text-right">Actions</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {trash.planItems.map((item) => (
+                            <TableRow key={item.id}>
+                              <TableCell>
+                                {item.name}
+                                <span className="ml-2 text-xs text-muted-foreground">{item.itemType}</span>
+                                {item.descendantCount > 0 && (
+                                  <Badge variant="outline" className="ml-2">
+                                    +{item.descendantCount} children
+                                  </Badge>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-sm text-muted-foreground">
+                                {item.parentName ?? 'Top level'}
+                              </TableCell>
+                              <TableCell className="whitespace-nowrap text-sm">{formatWhen(item.deletedAt)}</TableCell>
+                              <TableCell className="text-sm text-muted-foreground">{item.deletedByEmail ?? '—'}</TableCell>
+                              <TableCell className="whitespace-nowrap text-sm">{formatDay(item.purgeAt)}</TableCell>
+                              <TableCell className="text-right">
+                                {restoreButton(item.id, () => handleRestorePlanItem(item.id))}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-semibold">Content</h4>
+                    {trash.contentItems.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No deleted content.</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Title</TableHead>
+                            <TableHead>Occurred</TableHead>
+                            <TableHead>Deleted</TableHead>
+                            <TableHead>By</TableHead>
+                            <TableHead>Purged on</TableHead>
+                            <TableHead className="text-right">Actions</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {trash.contentItems.map((item) => (
+                            <TableRow key={item.id}>
+                              <TableCell>
+                                {item.title}
+                                <span className="ml-2 text-xs text-muted-foreground">{item.sourceType}</span>
+                              </TableCell>
+                              <TableCell className="whitespace-nowrap text-sm">{formatDay(item.dateOccurred)}</TableCell>
+                              <TableCell className="whitespace-nowrap text-sm">{formatWhen(item.deletedAt)}</TableCell>
+                              <TableCell className="text-sm text-muted-foreground">{item.deletedByEmail ?? '—'}</TableCell>
+                              <TableCell className="whitespace-nowrap text-sm">{formatDay(item.purgeAt)}</TableCell>
+                              <TableCell className="text-right">
+                                {restoreButton(item.id, () => handleRestoreContentItem(item.id))}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </div>
+                </>
+              )}
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold">Projects</h4>
+                {deletedProjects.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No deleted projects.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Project</TableHead>
+                        <TableHead>Contents</TableHead>
+                        <TableHead>Deleted</TableHead>
+                        <TableHead>By</TableHead>
+                        <TableHead>Purged on</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {deletedProjects.map((project) => (
+                        <TableRow key={project.id}>
+                          <TableCell>
+                            {project.name}
+                            {project.client && (
+                              <span className="ml-2 text-xs text-muted-foreground">{project.client}</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {project.planItemCount} plan items, {project.contentItemCount} content
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap text-sm">{formatWhen(project.deletedAt)}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground">{project.deletedByEmail ?? '—'}</TableCell>
+                          <TableCell className="whitespace-nowrap text-sm">{formatDay(project.purgeAt)}</TableCell>
+                          <TableCell className="text-right">
+                            {restoreButton(project.id, () => handleRestoreProject(project.id))}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,47 +1,129 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { PlanItemCard } from './PlanItemCard';
-import type { PlanItem } from '@/types';
+import { cn } from '@/lib/utils';
+import type { PlanItem, CriticalPathItem, MovePlanItemInput } from '@/types';
+import type { CommentCount } from '@/api/comments.api';
+
+// Where a dragged item lands relative to the row it is dropped on
+type DropZone = 'before' | 'inside' | 'after';
+
+interface DropIndicator {
+  id: string;
+  zone: DropZone;
+}
+
+interface DragState {
+  draggingId: string | null;
+  indicator: DropIndicator | null;
+  onDragStart: (item: PlanItem) => void;
+  onDragOver: (item: PlanItem, zone: DropZone) => void;
+  onDrop: (item: PlanItem, zone: DropZone) => void;
+  onDragEnd: () => void;
+}
 
 interface PlanTreeProps {
   items: PlanItem[];
+  schedule?: Map<string, CriticalPathItem>;
+  commentCounts?: Map<string, CommentCount>;
   onEdit: (item: PlanItem) => void;
   onDelete: (item: PlanItem) => void;
   onAddChild: (parentItem: PlanItem) => void;
+  onOpenComments?: (item: PlanItem) => void;
+  onOpenEvidence?: (item: PlanItem) => void;
+  onMove?: (item: PlanItem, input: MovePlanItemInput) => Promise<void>;
 }
 
 interface TreeNodeProps {
   item: PlanItem;
   depth: number;
+  schedule?: Map<string, CriticalPathItem>;
+  commentCounts?: Map<string, CommentCount>;
   expandedIds: Set<string>;
+  drag?: DragState;
   onToggleExpand: (id: string) => void;
   onEdit: (item: PlanItem) => void;
   onDelete: (item: PlanItem) => void;
   onAddChild: (parentItem: PlanItem) => void;
+  onOpenComments?: (item: PlanItem) => void;
+  onOpenEvidence?: (item: PlanItem) => void;
 }
 
+// Top and bottom quarters of a row reorder; the middle drops the item inside as a child
+const zoneFor = (e: React.DragEvent<HTMLDivElement>): DropZone => {
+  const rect = e.currentTarget.getBoundingClientRect();
+  const offset = (e.clientY - rect.top) / rect.height;
+  if (offset < 0.25) return 'before';
+  if (offset > 0.75) return 'after';
+  return 'inside';
+};
+
 function TreeNode({
   item,
   depth,
+  schedule,
+  commentCounts,
   expandedIds,
+  drag,
   onToggleExpand,
   onEdit,
   onDelete,
   onAddChild,
+  onOpenComments,
+  onOpenEvidence,
 }: TreeNodeProps) {
   const isExpanded = expandedIds.has(item.id);
   const hasChildren = item.children && item.children.length > 0;
+  const zone = drag?.indicator?.id === item.id ? drag.indicator.zone : null;
 
   return (
     <div>
-      <PlanItemCard
-        item={item}
-        depth={depth}
-        isExpanded={isExpanded}
-        onToggleExpand={() => onToggleExpand(item.id)}
-        onEdit={onEdit}
-        onDelete={onDelete}
-        onAddChild={onAddChild}
-      />
+      <div
+        draggable={!!drag}
+        onDragStart={(e) => {
+          e.stopPropagation();
+          e.dataTransfer.effectAllowed = 'move';
+          drag?.onDragStart(item);
+        }}
+        onDragOver={(e) => {
+          if (!drag?.draggingId) return;
+          e.preventDefault();
+          drag.onDragOver(item, zoneFor(e));
+        }}
+        onDrop={(e) => {
+          if (!drag?.draggingId) return;
+          e.preventDefault();
+          drag.onDrop(item, zoneFor(e));
+        }}
+        onDragEnd={() => drag?.onDragEnd()}
+        className={cn(
+          'relative rounded-lg',
+          drag?.draggingId === item.id && 'opacity-50',
+          zone === 'inside' && 'ring-2 ring-primary/40'
+        )}
+      >
+        {zone && zone !== 'inside' && (
+          <div
+            className={cn(
+              'absolute left-0 right-0 h-0.5 bg-primary pointer-events-none',
+              zone === 'before' ? 'top-0' : 'bottom-0'
+            )}
+            style={{ marginLeft: `${depth * 24 + 12}px` }}
+          />
+        )}
+        <PlanItemCard
+          item={item}
+          depth={depth}
+          schedule={schedule?.get(item.id)}
+          commentCount={commentCounts?.get(item.id)}
+          isExpanded={isExpanded}
+          onToggleExpand={() => onToggleExpand(item.id)}
+          onEdit={onEdit}
+          onDelete={onDelete}
+          onAddChild={onAddChild}
+          onOpenComments={onOpenComments}
+          onOpenEvidence={onOpenEvidence}
+        />
+      </div>
       {hasChildren && isExpanded && (
         <div>
           {item.children!.map((child) => (
@@ -49,11 +131,16 @@ function TreeNode({
               key={child.id}
               item={child}
               depth={depth + 1}
+              schedule={schedule}
+              commentCounts={commentCounts}
               expandedIds={expandedIds}
+              drag={drag}
               onToggleExpand={onToggleExpand}
               onEdit={onEdit}
               onDelete={onDelete}
               onAddChild={onAddChild}
+              onOpenComments={onOpenComments}
+              onOpenEvidence={onOpenEvidence}
             />
           ))}
         </div>
@@ -62,7 +149,17 @@ function TreeNode({
   );
 }
 
-export function PlanTree({ items, onEdit, onDelete, onAddChild }: PlanTreeProps) {
+export function PlanTree({
+  items,
+  schedule,
+  commentCounts,
+  onEdit,
+  onDelete,
+  onAddChild,
+  onOpenComments,
+  onOpenEvidence,
+  onMove,
+}: PlanTreeProps) {
   // Start with all items expanded
   const [expandedIds, setExpandedIds] = useState<Set<string>>(() => {
     const ids = new Set<string>();
@@ -108,6 +205,80 @@ export function PlanTree({ items, onEdit, onDelete, onAddChild }: PlanTreeProps)
     setExpandedIds(new Set());
   }, []);
 
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [indicator, setIndicator] = useState<DropIndicator | null>(null);
+  const [moveError, setMoveError] = useState<string | null>(null);
+
+  // Each item's parent and the ids of everything beneath it, for resolving drops
+  const { parentOf, descendantsOf } = useMemo(() => {
+    const parentOf = new Map<string, string | null>();
+    const descendantsOf = new Map<string, Set<string>>();
+    const walk = (nodes: PlanItem[], parentId: string | null): Set<string> => {
+      const all = new Set<string>();
+      nodes.forEach((node) => {
+        parentOf.set(node.id, parentId);
+        const below = walk(node.children || [], node.id);
+        descendantsOf.set(node.id, below);
+        all.add(node.id);
+        below.forEach((id) => all.add(id));
+      });
+      return all;
+    };
+    walk(items, null);
+    return { parentOf, descendantsOf };
+  }, [items]);
+
+  const canDrop = (targetId: string) =>
+    !!draggingId && targetId !== draggingId && !descendantsOf.get(draggingId)?.has(targetId);
+
+  const findItem = (id: string, nodes: PlanItem[] = items): PlanItem | undefined => {
+    for (const node of nodes) {
+      if (node.id === id) return node;
+      const found = findItem(id, node.children || []);
+      if (found) return found;
+    }
+    return undefined;
+  };
+
+  const handleDrop = async (target: PlanItem, zone: DropZone) => {
+    const dragged = draggingId ? findItem(draggingId) : undefined;
+    setDraggingId(null);
+    setIndicator(null);
+    if (!dragged || !onMove || !canDrop(target.id)) return;
+
+    const input: MovePlanItemInput =
+      zone === 'inside'
+        ? { parentId: target.id }
+        : {
+            parentId: parentOf.get(target.id) ?? null,
+            ...(zone === 'before' ? { beforeId: target.id } : { afterId: target.id }),
+          };
+
+    setMoveError(null);
+    try {
+      await onMove(dragged, input);
+    } catch (err) {
+      setMoveError(err instanceof Error ? err.message : 'Failed to move item');
+    }
+  };
+
+  const drag: DragState | undefined = onMove
+    ? {
+        draggingId,
+        indicator,
+        onDragStart: (item) => setDraggingId(item.id),
+        onDragOver: (item, zone) => {
+          const next = canDrop(item.id) ? { id: item.id, zone } : null;
+          if (next?.id !== indicator?.id || next?.zone !== indicator?.zone) setIndicator(next);
+        },
+        onDrop: handleDrop,
+        onDragEnd: () => {
+          setDraggingId(null);
+          setIndicator(null);
+        },
+      }
+    : undefined;
+
   if (items.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
@@ -134,19 +305,31 @@ export function PlanTree({ items, onEdit, onDelete, onAddChild }: PlanTreeProps)
         >
           Collapse All
         </button>
+        {onMove && (
+          <span className="text-xs text-muted-foreground ml-auto">
+            Drag items to reorder, or drop onto an item to nest under it
+          </span>
+        )}
       </div>
 
+      {moveError && <p className="text-sm text-destructive">{moveError}</p>}
+
       {/* Tree */}
       {items.map((item) => (
         <TreeNode
           key={item.id}
           item={item}
           depth={0}
+          schedule={schedule}
+          commentCounts={commentCounts}
           expandedIds={expandedIds}
+          drag={drag}
           onToggleExpand={handleToggleExpand}
           onEdit={onEdit}
           onDelete={onDelete}
           onAddChild={onAddChild}
+          onOpenComments={onOpenComments}
+          onOpenEvidence={onOpenEvidence}
         />
       ))}
     </div>
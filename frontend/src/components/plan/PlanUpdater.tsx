@@ -8,6 +8,7 @@ import {
   CheckCircle,
   FileText,
   Info,
+  Undo2,
 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -29,6 +30,7 @@ import {
 } from '@/components/ui/collapsible';
 import { useProjectStore } from '@/stores/projectStore';
 import { planUpdaterApi } from '@/api/plan-updater.api';
+import planItemsApi from '@/api/plan-items.api';
 import type { PlanSuggestion, PlanUpdateInput } from '@/api/plan-updater.api';
 
 type PeriodPreset = 'this_week' | 'last_week' | 'last_2_weeks' | 'custom';
@@ -40,6 +42,9 @@ export function PlanUpdater() {
   const [periodEnd, setPeriodEnd] = useState(format(endOfWeek(new Date(), { weekStartsOn: 1 }), 'yyyy-MM-dd'));
   const [isLoading, setIsLoading] = useState(false);
   const [isApplying, setIsApplying] = useState(false);
+  const [isUndoing, setIsUndoing] = useState(false);
+  // History batch of the last apply, so it can be undone
+  const [appliedBatchId, setAppliedBatchId] = useState<string | null>(null);
   const [suggestions, setSuggestions] = useState<PlanSuggestion[]>([]);
   const [summary, setSummary] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -77,6 +82,7 @@ export function PlanUpdater() {
     setError(null);
     setSuggestions([]);
     setSummary(null);
+    setAppliedBatchId(null);
     setSelectedSuggestions(new Set());
 
     try {
@@ -132,6 +138,7 @@ export function PlanUpdater() {
         // Clear suggestions
         setSuggestions([]);
         setSummary(`Successfully applied ${response.data.updated} updates.`);
+        setAppliedBatchId(response.data.batchId);
         setSelectedSuggestions(new Set());
       } else {
         setError(response.error?.message || 'Failed to apply updates');
@@ -143,6 +150,36 @@ export function PlanUpdater() {
     }
   };
 
+  const handleUndo = async () => {
+    if (!currentProject || !appliedBatchId) return;
+
+    setIsUndoing(true);
+    setError(null);
+
+    try {
+      const response = await planItemsApi.revertBatch(currentProject.id, appliedBatchId, {
+        reason: 'Undid applied plan updates',
+      });
+
+      if (response.success && response.data) {
+        await fetchPlanItems(currentProject.id);
+        const { changes, skipped } = response.data;
+        setSummary(
+          skipped.length > 0
+            ? `Reverted ${changes.length} changes. ${skipped.length} could not be reverted; see the History tab.`
+            : `Reverted ${changes.length} changes.`
+        );
+        setAppliedBatchId(null);
+      } else {
+        setError(response.error?.message || 'Failed to undo updates');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsUndoing(false);
+    }
+  };
+
   const toggleSuggestion = (index: number) => {
     const newSelected = new Set(selectedSuggestions);
     if (newSelected.has(index)) {
@@ -274,6 +311,22 @@ export function PlanUpdater() {
           <CardContent className="py-4 flex items-center gap-2">
             <CheckCircle className="h-5 w-5 text-green-600" />
             <p className="text-green-700">{summary}</p>
+            {appliedBatchId && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="ml-auto"
+                onClick={handleUndo}
+                disabled={isUndoing}
+              >
+                {isUndoing ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Undo2 className="mr-2 h-4 w-4" />
+                )}
+                Undo
+              </Button>
+            )}
           </CardContent>
         </Card>
       )}
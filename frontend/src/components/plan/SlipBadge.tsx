@@ -0,0 +1,28 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+interface SlipBadgeProps {
+  days: number | null;
+  className?: string;
+}
+
+// Days late (positive) or early (negative) against a baseline
+export function SlipBadge({ days, className }: SlipBadgeProps) {
+  if (days === null) {
+    return <span className={cn('text-xs text-muted-foreground', className)}>n/a</span>;
+  }
+
+  const label = days === 0 ? 'On baseline' : days > 0 ? `+${days}d late` : `${Math.abs(days)}d early`;
+  const colorClass =
+    days > 0
+      ? 'bg-red-50 text-red-700 border-red-200'
+      : days < 0
+        ? 'bg-emerald-50 text-emerald-700 border-emerald-200'
+        : 'bg-neutral-100 text-neutral-600 border-neutral-200';
+
+  return (
+    <Badge variant="outline" className={cn('font-medium border text-xs px-2 py-0.5', colorClass, className)}>
+      {label}
+    </Badge>
+  );
+}
@@ -0,0 +1,423 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import {
+  ListChecks,
+  Loader2,
+  RefreshCw,
+  Mail,
+  MoreHorizontal,
+  Merge,
+  RotateCcw,
+  FileText,
+  ClipboardList,
+} from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useProjectStore } from '@/stores/projectStore';
+import {
+  raidApi,
+  type TrackedAction,
+  type ActionTrackerStatus,
+  type ActionTrackerSummary,
+  type ListActionsParams,
+} from '@/api/raid.api';
+
+const STATUS_FILTER_LABELS: Record<ActionTrackerStatus | 'overdue', string> = {
+  open: 'Open',
+  overdue: 'Overdue',
+  done: 'Done',
+  all: 'All',
+};
+
+const isDone = (action: TrackedAction) => action.status === 'resolved' || action.status === 'closed';
+
+function DueCell({ action }: { action: TrackedAction }) {
+  if (!action.dueDate) return <span className="text-muted-foreground">-</span>;
+
+  const date = format(new Date(action.dueDate), 'MMM d, yyyy');
+  if (action.isOverdue) {
+    return (
+      <div className="flex items-center gap-2">
+        <span>{date}</span>
+        <Badge variant="destructive">{-action.daysUntilDue!}d overdue</Badge>
+      </div>
+    );
+  }
+  if (!isDone(action) && action.daysUntilDue !== null && action.daysUntilDue <= 1) {
+    return (
+      <div className="flex items-center gap-2">
+        <span>{date}</span>
+        <Badge variant="secondary">{action.daysUntilDue === 0 ? 'Due today' : 'Due tomorrow'}</Badge>
+      </div>
+    );
+  }
+  return <span className="text-muted-foreground">{date}</span>;
+}
+
+export function ActionTrackerTab() {
+  const { currentProject } = useProjectStore();
+
+  // Data state
+  const [actions, setActions] = useState<TrackedAction[]>([]);
+  const [summary, setSummary] = useState<ActionTrackerSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Filters
+  const [statusFilter, setStatusFilter] = useState<ActionTrackerStatus | 'overdue'>('open');
+  const [ownerFilter, setOwnerFilter] = useState('');
+
+  // Merge dialog state
+  const [mergeTarget, setMergeTarget] = useState<TrackedAction | null>(null);
+  const [duplicateId, setDuplicateId] = useState('');
+  const [merging, setMerging] = useState(false);
+
+  const [sendingReminders, setSendingReminders] = useState(false);
+
+  const fetchActions = useCallback(async () => {
+    if (!currentProject) return;
+
+    setLoading(true);
+    try {
+      const params: ListActionsParams = {};
+      if (statusFilter === 'overdue') params.overdueOnly = true;
+      else params.status = statusFilter;
+      if (ownerFilter.trim()) params.owner = ownerFilter.trim();
+
+      const response = await raidApi.listActions(currentProject.id, params);
+      if (response.success && response.data) {
+        setActions(response.data.items);
+        setSummary(response.data.summary);
+      }
+    } catch (err) {
+      console.error('Failed to fetch action tracker:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentProject, statusFilter, ownerFilter]);
+
+  useEffect(() => {
+    fetchActions();
+  }, [fetchActions]);
+
+  const handleToggleDone = async (action: TrackedAction) => {
+    if (!currentProject) return;
+
+    setError(null);
+    try {
+      if (isDone(action)) {
+        await raidApi.reopenAction(currentProject.id, action.id);
+      } else {
+        await raidApi.completeAction(currentProject.id, action.id);
+      }
+      fetchActions();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to update action');
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!currentProject || !mergeTarget || !duplicateId) return;
+
+    setMerging(true);
+    setError(null);
+    try {
+      await raidApi.mergeActions(currentProject.id, mergeTarget.id, duplicateId);
+      setMergeTarget(null);
+      setDuplicateId('');
+      fetchActions();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to merge actions');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const handleSendReminders = async () => {
+    if (!currentProject) return;
+
+    setSendingReminders(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await raidApi.sendActionReminders(currentProject.id);
+      if (response.success && response.data) {
+        const { remindersSent, actionsReminded, unmatchedOwners } = response.data;
+        setNotice(
+          remindersSent === 0
+            ? 'No reminders were due.'
+            : `Sent ${remindersSent} reminder${remindersSent === 1 ? '' : 's'} covering ${actionsReminded} action${actionsReminded === 1 ? '' : 's'}.` +
+                (unmatchedOwners.length > 0
+                  ? ` No member matched: ${unmatchedOwners.join(', ')}.`
+                  : '')
+        );
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to send reminders');
+    } finally {
+      setSendingReminders(false);
+    }
+  };
+
+  if (!currentProject) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[400px] text-center">
+        <ListChecks className="h-12 w-12 text-muted-foreground mb-4" />
+        <h2 className="text-xl font-semibold mb-2">No Project Selected</h2>
+        <p className="text-muted-foreground">
+          Please select a project to view its action items.
+        </p>
+      </div>
+    );
+  }
+
+  const mergeCandidates = mergeTarget ? actions.filter(a => a.id !== mergeTarget.id) : [];
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {notice && (
+        <Alert>
+          <AlertDescription>{notice}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Action Tracker</CardTitle>
+              <CardDescription>
+                {loading || !summary
+                  ? 'Loading...'
+                  : `${summary.open} open, ${summary.overdue} overdue, ${summary.dueSoon} due soon, ${summary.done} done. Actions from intake and reports are merged when they repeat.`}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="Filter by owner"
+                value={ownerFilter}
+                onChange={(e) => setOwnerFilter(e.target.value)}
+                className="w-[160px]"
+              />
+              <Select
+                value={statusFilter}
+                onValueChange={(v) => setStatusFilter(v as ActionTrackerStatus | 'overdue')}
+              >
+                <SelectTrigger className="w-[130px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(STATUS_FILTER_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={fetchActions} disabled={loading}>
+                <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+              <Button size="sm" onClick={handleSendReminders} disabled={sendingReminders}>
+                {sendingReminders ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <Mail className="h-4 w-4 mr-1" />
+                )}
+                Send Reminders
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading && actions.length === 0 ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : actions.length === 0 ? (
+            <div className="text-center py-12">
+              <ListChecks className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium mb-1">No action items</h3>
+              <p className="text-muted-foreground">
+                Actions appear here as content is analyzed and reports are generated
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">Done</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Owner</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead>Sources</TableHead>
+                  <TableHead className="w-16" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {actions.map((action) => (
+                  <TableRow key={action.id} className="hover:bg-muted/50">
+                    <TableCell>
+                      <Checkbox
+                        checked={isDone(action)}
+                        onCheckedChange={() => handleToggleDone(action)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <span className={`font-medium ${isDone(action) ? 'line-through text-muted-foreground' : ''}`}>
+                        {action.title}
+                      </span>
+                      {action.planItem && (
+                        <p className="text-xs text-muted-foreground">{action.planItem.name}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {action.owner ? (
+                        <div>
+                          <span>{action.owner}</span>
+                          {!action.ownerUser && (
+                            <p className="text-xs text-muted-foreground">Not a member; no reminders</p>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <DueCell action={action} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="space-y-1 text-xs text-muted-foreground">
+                        {action.sources.contentItems
+                          .filter(c => !c.parentItemId)
+                          .map(c => (
+                            <div key={c.id} className="flex items-center gap-1">
+                              <FileText className="h-3 w-3" />
+                              <span className="truncate max-w-[200px]">{c.title}</span>
+                            </div>
+                          ))}
+                        {action.sources.reports.map(r => (
+                          <div key={r.id} className="flex items-center gap-1">
+                            <ClipboardList className="h-3 w-3" />
+                            <span className="truncate max-w-[200px]">{r.title}</span>
+                          </div>
+                        ))}
+                        {action.sources.contentItems.length === 0 && action.sources.reports.length === 0 && '-'}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm">
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {isDone(action) && (
+                            <DropdownMenuItem onClick={() => handleToggleDone(action)}>
+                              <RotateCcw className="h-4 w-4 mr-2" />
+                              Reopen
+                            </DropdownMenuItem>
+                          )}
+                          <DropdownMenuItem onClick={() => setMergeTarget(action)}>
+                            <Merge className="h-4 w-4 mr-2" />
+                            Merge Duplicate...
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Merge Dialog */}
+      <Dialog
+        open={!!mergeTarget}
+        onOpenChange={(open) => {
+          if (!open) {
+            setMergeTarget(null);
+            setDuplicateId('');
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge Duplicate Action</DialogTitle>
+            <DialogDescription>
+              The duplicate is removed from the tracker and its sources are added to
+              &ldquo;{mergeTarget?.title}&rdquo;.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Duplicate</Label>
+            <Select value={duplicateId} onValueChange={setDuplicateId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select an action" />
+              </SelectTrigger>
+              <SelectContent>
+                {mergeCandidates.map(a => (
+                  <SelectItem key={a.id} value={a.id}>
+                    {a.title}{a.owner ? ` (${a.owner})` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMergeTarget(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleMerge} disabled={merging || !duplicateId}>
+              {merging && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Merge
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export default ActionTrackerTab;
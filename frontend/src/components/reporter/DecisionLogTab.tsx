@@ -0,0 +1,662 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import {
+  Gavel,
+  Loader2,
+  RefreshCw,
+  Plus,
+  MoreHorizontal,
+  Replace,
+  Check,
+  X,
+  Inbox,
+  FileText,
+  ClipboardList,
+  FileCode,
+  Presentation,
+} from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useProjectStore } from '@/stores/projectStore';
+import {
+  raidApi,
+  type LoggedDecision,
+  type DecisionLogStatus,
+  type DecisionLogSummary,
+} from '@/api/raid.api';
+import { outputFormatterApi, type DecisionLogData } from '@/api/output-formatter.api';
+import type { PlanItem } from '@/types';
+
+const STATUS_LABELS: Record<DecisionLogStatus, string> = {
+  current: 'Current',
+  superseded: 'Superseded',
+  all: 'All Decisions',
+};
+
+const emptyForm = {
+  title: '',
+  description: '',
+  decisionMaker: '',
+  decisionDate: '',
+  rationale: '',
+  alternatives: '',
+  affectedPlanItemIds: [] as string[],
+};
+
+const formatDate = (date: string | null) => (date ? format(new Date(date), 'MMM d, yyyy') : null);
+
+// The store holds the plan as a tree; pickers want it flat with depth for indentation
+const flattenPlan = (items: PlanItem[], depth = 0): { item: PlanItem; depth: number }[] =>
+  items.flatMap(item => [{ item, depth }, ...flattenPlan(item.children || [], depth + 1)]);
+
+const toDecisionLogData = (decisions: LoggedDecision[]): DecisionLogData => ({
+  decisionLog: {
+    asOf: new Date().toISOString().split('T')[0],
+    decisions: decisions.map(d => ({
+      title: d.title,
+      description: d.description,
+      decisionMaker: d.decisionMaker,
+      decisionDate: d.decisionDate ? d.decisionDate.split('T')[0] : null,
+      rationale: d.rationale,
+      alternatives: d.alternatives,
+      affectedPlanItems: d.affectedPlanItems.map(p => p.name),
+      supersededBy: d.supersededBy?.title ?? null,
+    })),
+  },
+});
+
+function DecisionCard({
+  decision,
+  reviewing,
+  onAccept,
+  onReject,
+  onSupersede,
+}: {
+  decision: LoggedDecision;
+  reviewing: boolean;
+  onAccept: () => void;
+  onReject: () => void;
+  onSupersede: () => void;
+}) {
+  const decided = [decision.decisionMaker, formatDate(decision.decisionDate)].filter(Boolean).join(' on ');
+
+  return (
+    <div className={`border rounded-lg p-4 space-y-3 ${decision.supersededById ? 'bg-muted/40' : ''}`}>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <h4 className={`font-medium ${decision.supersededById ? 'line-through text-muted-foreground' : ''}`}>
+              {decision.title}
+            </h4>
+            {decision.supersededById && <Badge variant="secondary">Superseded</Badge>}
+            {decision.reviewStatus === 'pending' && <Badge variant="outline">Proposed</Badge>}
+          </div>
+          {decided && <p className="text-xs text-muted-foreground">Decided by {decided}</p>}
+        </div>
+        {reviewing ? (
+          <div className="flex items-center gap-2 shrink-0">
+            <Button size="sm" variant="outline" onClick={onReject}>
+              <X className="h-4 w-4 mr-1" />
+              Reject
+            </Button>
+            <Button size="sm" onClick={onAccept}>
+              <Check className="h-4 w-4 mr-1" />
+              Accept
+            </Button>
+          </div>
+        ) : (
+          !decision.supersededById && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm">
+                  <MoreHorizontal className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={onSupersede}>
+                  <Replace className="h-4 w-4 mr-2" />
+                  Mark Superseded...
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )
+        )}
+      </div>
+
+      {decision.description && <p className="text-sm">{decision.description}</p>}
+
+      {decision.rationale && (
+        <div className="text-sm">
+          <span className="font-medium">Rationale: </span>
+          {decision.rationale}
+        </div>
+      )}
+
+      {decision.alternatives.length > 0 && (
+        <div className="text-sm">
+          <span className="font-medium">Alternatives considered:</span>
+          <ul className="list-disc list-inside text-muted-foreground">
+            {decision.alternatives.map((alternative, i) => (
+              <li key={i}>{alternative}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {decision.affectedPlanItems.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="font-medium">Affects:</span>
+          {decision.affectedPlanItems.map(p => (
+            <Badge key={p.id} variant="secondary">{p.name}</Badge>
+          ))}
+        </div>
+      )}
+
+      {(decision.supersededBy || decision.supersedes.length > 0) && (
+        <div className="text-xs text-muted-foreground space-y-1">
+          {decision.supersededBy && (
+            <p>
+              Superseded by <span className="font-medium">{decision.supersededBy.title}</span>
+              {decision.supersededAt && ` on ${formatDate(decision.supersededAt)}`}
+            </p>
+          )}
+          {decision.supersedes.map(d => (
+            <p key={d.id}>
+              Supersedes <span className="font-medium">{d.title}</span>
+            </p>
+          ))}
+        </div>
+      )}
+
+      {(decision.sources.contentItems.length > 0 || decision.sources.reports.length > 0) && (
+        <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+          {decision.sources.contentItems
+            .filter(c => !c.parentItemId)
+            .map(c => (
+              <span key={c.id} className="flex items-center gap-1">
+                <FileText className="h-3 w-3" />
+                {c.title}
+              </span>
+            ))}
+          {decision.sources.reports.map(r => (
+            <span key={r.id} className="flex items-center gap-1">
+              <ClipboardList className="h-3 w-3" />
+              {r.title}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function DecisionLogTab() {
+  const { currentProject, planItems } = useProjectStore();
+
+  // Data state
+  const [decisions, setDecisions] = useState<LoggedDecision[]>([]);
+  const [summary, setSummary] = useState<DecisionLogSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // View: the log filtered by status, or the queue of proposals awaiting review
+  const [statusFilter, setStatusFilter] = useState<DecisionLogStatus>('current');
+  const [reviewing, setReviewing] = useState(false);
+
+  // Supersede dialog state
+  const [supersedeTarget, setSupersedeTarget] = useState<LoggedDecision | null>(null);
+  const [replacementId, setReplacementId] = useState('');
+  const [superseding, setSuperseding] = useState(false);
+
+  // Create dialog state
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  // Export state
+  const [isExportingMarkdown, setIsExportingMarkdown] = useState(false);
+  const [isExportingPptx, setIsExportingPptx] = useState(false);
+
+  const fetchDecisions = useCallback(async () => {
+    if (!currentProject) return;
+
+    setLoading(true);
+    try {
+      const response = await raidApi.listDecisions(
+        currentProject.id,
+        reviewing ? { status: 'all', review: 'pending' } : { status: statusFilter }
+      );
+      if (response.success && response.data) {
+        setDecisions(response.data.items);
+        setSummary(response.data.summary);
+      }
+    } catch (err) {
+      console.error('Failed to fetch decision log:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentProject, statusFilter, reviewing]);
+
+  useEffect(() => {
+    fetchDecisions();
+  }, [fetchDecisions]);
+
+  const handleReview = async (decision: LoggedDecision, accept: boolean) => {
+    if (!currentProject) return;
+
+    setError(null);
+    try {
+      if (accept) {
+        await raidApi.acceptDecision(currentProject.id, decision.id);
+      } else {
+        await raidApi.rejectDecision(currentProject.id, decision.id);
+      }
+      fetchDecisions();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to review decision');
+    }
+  };
+
+  const handleSupersede = async () => {
+    if (!currentProject || !supersedeTarget || !replacementId) return;
+
+    setSuperseding(true);
+    setError(null);
+    try {
+      await raidApi.supersedeDecision(currentProject.id, supersedeTarget.id, replacementId);
+      setSupersedeTarget(null);
+      setReplacementId('');
+      fetchDecisions();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to supersede decision');
+    } finally {
+      setSuperseding(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!currentProject || !form.title.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await raidApi.create(currentProject.id, {
+        type: 'decision',
+        title: form.title.trim(),
+        description: form.description.trim() || null,
+        owner: form.decisionMaker.trim() || null,
+        decisionMaker: form.decisionMaker.trim() || null,
+        decisionDate: form.decisionDate || null,
+        rationale: form.rationale.trim() || null,
+        alternatives: form.alternatives.split('\n').map(a => a.trim()).filter(Boolean),
+        affectedPlanItemIds: form.affectedPlanItemIds,
+      });
+      if (response.success) {
+        setIsCreateOpen(false);
+        setForm(emptyForm);
+        fetchDecisions();
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to add decision');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Exports cover the whole log, current and superseded, whatever the view
+  const fetchFullLog = async () => {
+    const response = await raidApi.listDecisions(currentProject!.id, { status: 'all' });
+    return toDecisionLogData(response.data?.items ?? []);
+  };
+
+  const handleExportMarkdown = async () => {
+    if (!currentProject) return;
+
+    setIsExportingMarkdown(true);
+    try {
+      const response = await outputFormatterApi.formatAsMarkdown({
+        sourceType: 'decision_log',
+        projectName: currentProject.name,
+        data: await fetchFullLog(),
+      });
+
+      if (response.success && response.data) {
+        outputFormatterApi.downloadMarkdown(response.data.content, response.data.filename);
+      }
+    } catch (err) {
+      console.error('Failed to export decision log markdown:', err);
+    } finally {
+      setIsExportingMarkdown(false);
+    }
+  };
+
+  const handleExportPptx = async () => {
+    if (!currentProject) return;
+
+    setIsExportingPptx(true);
+    try {
+      const blob = await outputFormatterApi.formatAsPptx({
+        sourceType: 'decision_log',
+        projectName: currentProject.name,
+        data: await fetchFullLog(),
+      });
+
+      const date = new Date().toISOString().split('T')[0];
+      const filename = `${currentProject.name.toLowerCase().replace(/[^a-z0-9]/g, '-')}-decision-log-${date}.pptx`;
+      outputFormatterApi.downloadPptx(blob, filename);
+    } catch (err) {
+      console.error('Failed to export decision log PowerPoint:', err);
+    } finally {
+      setIsExportingPptx(false);
+    }
+  };
+
+  if (!currentProject) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[400px] text-center">
+        <Gavel className="h-12 w-12 text-muted-foreground mb-4" />
+        <h2 className="text-xl font-semibold mb-2">No Project Selected</h2>
+        <p className="text-muted-foreground">
+          Please select a project to view its decision log.
+        </p>
+      </div>
+    );
+  }
+
+  const flatPlanItems = flattenPlan(planItems);
+  const replacementCandidates = supersedeTarget
+    ? decisions.filter(d => d.id !== supersedeTarget.id && !d.supersededById)
+    : [];
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>{reviewing ? 'Proposed Decisions' : 'Decision Log'}</CardTitle>
+              <CardDescription>
+                {loading || !summary
+                  ? 'Loading...'
+                  : reviewing
+                    ? `${summary.pendingReview} decisions found in content await review.`
+                    : `${summary.current} current, ${summary.superseded} superseded.`}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              {!reviewing && (
+                <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as DecisionLogStatus)}>
+                  <SelectTrigger className="w-[150px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button
+                variant={reviewing ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setReviewing(!reviewing)}
+              >
+                <Inbox className="h-4 w-4 mr-1" />
+                {reviewing ? 'Back to Log' : `Review Queue${summary?.pendingReview ? ` (${summary.pendingReview})` : ''}`}
+              </Button>
+              <Button variant="outline" size="sm" onClick={fetchDecisions} disabled={loading}>
+                <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleExportMarkdown} disabled={isExportingMarkdown}>
+                {isExportingMarkdown ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <FileCode className="h-4 w-4 mr-1" />
+                )}
+                Markdown
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleExportPptx} disabled={isExportingPptx}>
+                {isExportingPptx ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <Presentation className="h-4 w-4 mr-1" />
+                )}
+                PowerPoint
+              </Button>
+              <Button size="sm" onClick={() => setIsCreateOpen(true)}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Decision
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading && decisions.length === 0 ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : decisions.length === 0 ? (
+            <div className="text-center py-12">
+              <Gavel className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium mb-1">
+                {reviewing ? 'Nothing to review' : 'No decisions logged'}
+              </h3>
+              <p className="text-muted-foreground">
+                {reviewing
+                  ? 'Decisions found when content is analyzed are proposed here'
+                  : 'Generate an activity report, accept proposed decisions or add one manually'}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {decisions.map(decision => (
+                <DecisionCard
+                  key={decision.id}
+                  decision={decision}
+                  reviewing={reviewing}
+                  onAccept={() => handleReview(decision, true)}
+                  onReject={() => handleReview(decision, false)}
+                  onSupersede={() => setSupersedeTarget(decision)}
+                />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Supersede Dialog */}
+      <Dialog
+        open={!!supersedeTarget}
+        onOpenChange={(open) => {
+          if (!open) {
+            setSupersedeTarget(null);
+            setReplacementId('');
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Mark Decision Superseded</DialogTitle>
+            <DialogDescription>
+              &ldquo;{supersedeTarget?.title}&rdquo; stays in the log as superseded, pointing at the
+              decision that replaced it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Superseded by</Label>
+            <Select value={replacementId} onValueChange={setReplacementId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a decision" />
+              </SelectTrigger>
+              <SelectContent>
+                {replacementCandidates.map(d => (
+                  <SelectItem key={d.id} value={d.id}>{d.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSupersedeTarget(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSupersede} disabled={superseding || !replacementId}>
+              {superseding && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Mark Superseded
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Create Dialog */}
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Decision</DialogTitle>
+            <DialogDescription>
+              Record a decision with why it was made and what else was considered.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Decision</Label>
+              <Input
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Textarea
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Decided By</Label>
+                <Input
+                  value={form.decisionMaker}
+                  onChange={(e) => setForm({ ...form, decisionMaker: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Decision Date</Label>
+                <Input
+                  type="date"
+                  value={form.decisionDate}
+                  onChange={(e) => setForm({ ...form, decisionDate: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Rationale</Label>
+              <Textarea
+                value={form.rationale}
+                onChange={(e) => setForm({ ...form, rationale: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Alternatives Considered</Label>
+              <Textarea
+                value={form.alternatives}
+                onChange={(e) => setForm({ ...form, alternatives: e.target.value })}
+                placeholder="One per line"
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Affected Plan Items</Label>
+              <select
+                value=""
+                onChange={(e) => {
+                  if (e.target.value) {
+                    setForm({ ...form, affectedPlanItemIds: [...form.affectedPlanItemIds, e.target.value] });
+                  }
+                }}
+                className="w-full h-10 px-3 rounded-md border border-input bg-background text-sm"
+              >
+                <option value="">-- Add a plan item --</option>
+                {flatPlanItems
+                  .filter(({ item }) => !form.affectedPlanItemIds.includes(item.id))
+                  .map(({ item, depth }) => (
+                    <option key={item.id} value={item.id}>
+                      {'  '.repeat(depth)}
+                      {depth > 0 ? '└ ' : ''}
+                      {item.name}
+                    </option>
+                  ))}
+              </select>
+              {form.affectedPlanItemIds.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {form.affectedPlanItemIds.map(id => {
+                    const entry = flatPlanItems.find(({ item }) => item.id === id);
+                    return entry ? (
+                      <Badge key={id} variant="secondary" className="pl-2 pr-1 py-1 gap-1">
+                        {entry.item.name}
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setForm({ ...form, affectedPlanItemIds: form.affectedPlanItemIds.filter(i => i !== id) })
+                          }
+                          className="ml-1 hover:bg-slate-300 rounded p-0.5"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ) : null;
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={saving || !form.title.trim()}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add Decision
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export default DecisionLogTab;
@@ -0,0 +1,438 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import {
+  ShieldAlert,
+  Loader2,
+  RefreshCw,
+  Plus,
+  MoreHorizontal,
+  Trash2,
+  Sparkles,
+} from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useProjectStore } from '@/stores/projectStore';
+import {
+  raidApi,
+  type RaidItem,
+  type RaidItemType,
+  type RaidItemStatus,
+  type RaidLevel,
+  type ListRaidItemsParams,
+} from '@/api/raid.api';
+
+const TYPE_LABELS: Record<RaidItemType, string> = {
+  risk: 'Risk',
+  action: 'Action',
+  issue: 'Issue',
+  decision: 'Decision',
+};
+
+const STATUS_LABELS: Record<RaidItemStatus, string> = {
+  open: 'Open',
+  in_progress: 'In Progress',
+  resolved: 'Resolved',
+  closed: 'Closed',
+};
+
+const TYPE_COLORS: Record<RaidItemType, string> = {
+  risk: 'bg-yellow-100 text-yellow-800',
+  action: 'bg-blue-100 text-blue-800',
+  issue: 'bg-red-100 text-red-800',
+  decision: 'bg-purple-100 text-purple-800',
+};
+
+const emptyForm = {
+  type: 'risk' as RaidItemType,
+  title: '',
+  description: '',
+  owner: '',
+  severity: 'medium' as RaidLevel,
+  dueDate: '',
+};
+
+export function RaidRegisterTab() {
+  const { currentProject } = useProjectStore();
+
+  // Data state
+  const [items, setItems] = useState<RaidItem[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Filters ('open' shows open and in-progress items)
+  const [typeFilter, setTypeFilter] = useState<RaidItemType | 'all'>('all');
+  const [statusFilter, setStatusFilter] = useState<RaidItemStatus | 'open_all' | 'all'>('open_all');
+
+  // Create dialog state
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const fetchItems = useCallback(async () => {
+    if (!currentProject) return;
+
+    setLoading(true);
+    try {
+      const params: ListRaidItemsParams = {};
+      if (typeFilter !== 'all') params.type = typeFilter;
+      if (statusFilter === 'open_all') params.openOnly = true;
+      else if (statusFilter !== 'all') params.status = statusFilter;
+
+      const response = await raidApi.list(currentProject.id, params);
+      if (response.success && response.data) {
+        setItems(response.data.items);
+      }
+    } catch (err) {
+      console.error('Failed to fetch RAID register:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentProject, typeFilter, statusFilter]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  const handleStatusChange = async (item: RaidItem, status: RaidItemStatus) => {
+    if (!currentProject) return;
+
+    try {
+      const response = await raidApi.update(currentProject.id, item.id, { status });
+      if (response.success && response.data) {
+        setItems(prev => prev.map(i => (i.id === item.id ? response.data! : i)));
+      }
+    } catch (err) {
+      console.error('Failed to update RAID item:', err);
+    }
+  };
+
+  const handleDelete = async (item: RaidItem) => {
+    if (!currentProject) return;
+
+    try {
+      await raidApi.delete(currentProject.id, item.id);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+    } catch (err) {
+      console.error('Failed to delete RAID item:', err);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!currentProject || !form.title.trim()) return;
+
+    setSaving(true);
+    try {
+      const response = await raidApi.create(currentProject.id, {
+        type: form.type,
+        title: form.title.trim(),
+        description: form.description.trim() || null,
+        owner: form.owner.trim() || null,
+        severity: form.severity,
+        dueDate: form.dueDate || null,
+      });
+      if (response.success) {
+        setIsCreateOpen(false);
+        setForm(emptyForm);
+        fetchItems();
+      }
+    } catch (err) {
+      console.error('Failed to create RAID item:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!currentProject) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[400px] text-center">
+        <ShieldAlert className="h-12 w-12 text-muted-foreground mb-4" />
+        <h2 className="text-xl font-semibold mb-2">No Project Selected</h2>
+        <p className="text-muted-foreground">
+          Please select a project to view its RAID register.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>RAID Register</CardTitle>
+              <CardDescription>
+                {loading
+                  ? 'Loading...'
+                  : `${items.length} items. Activity reports add new entries and update existing ones.`}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={typeFilter} onValueChange={(v) => setTypeFilter(v as RaidItemType | 'all')}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Types</SelectItem>
+                  {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={statusFilter}
+                onValueChange={(v) => setStatusFilter(v as RaidItemStatus | 'open_all' | 'all')}
+              >
+                <SelectTrigger className="w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="open_all">Open Items</SelectItem>
+                  <SelectItem value="all">All Statuses</SelectItem>
+                  {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={fetchItems} disabled={loading}>
+                <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+              <Button size="sm" onClick={() => setIsCreateOpen(true)}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Item
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading && items.length === 0 ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : items.length === 0 ? (
+            <div className="text-center py-12">
+              <ShieldAlert className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium mb-1">Register is empty</h3>
+              <p className="text-muted-foreground">
+                Generate an activity report or add an item manually
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-24">Type</TableHead>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Owner</TableHead>
+                  <TableHead>Severity</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead>Last Reported</TableHead>
+                  <TableHead className="w-[150px]">Status</TableHead>
+                  <TableHead className="w-16">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => (
+                  <TableRow key={item.id} className="hover:bg-muted/50">
+                    <TableCell>
+                      <span className={`px-2 py-1 rounded text-xs font-medium ${TYPE_COLORS[item.type]}`}>
+                        {TYPE_LABELS[item.type]}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{item.title}</span>
+                        {item.createdBy !== 'user' && (
+                          <Sparkles
+                            className="h-3 w-3 text-muted-foreground"
+                            aria-label={item.createdBy === 'intake_agent' ? 'Added from content intake' : 'Added by activity reporter'}
+                          />
+                        )}
+                      </div>
+                      {item.planItem && (
+                        <p className="text-xs text-muted-foreground">{item.planItem.name}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{item.owner || '-'}</TableCell>
+                    <TableCell>
+                      {item.severity ? (
+                        <Badge variant={item.severity === 'high' ? 'destructive' : item.severity === 'medium' ? 'default' : 'secondary'}>
+                          {item.severity}
+                        </Badge>
+                      ) : (
+                        '-'
+                      )}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {item.dueDate ? format(new Date(item.dueDate), 'MMM d, yyyy') : '-'}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {item.lastReportedAt ? format(new Date(item.lastReportedAt), 'MMM d, yyyy') : '-'}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={item.status}
+                        onValueChange={(v) => handleStatusChange(item, v as RaidItemStatus)}
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm">
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem
+                            onClick={() => handleDelete(item)}
+                            className="text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create Dialog */}
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add RAID Item</DialogTitle>
+            <DialogDescription>
+              Track a risk, action, issue or decision for this project.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={form.type}
+                  onValueChange={(v) => setForm({ ...form, type: v as RaidItemType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Severity</Label>
+                <Select
+                  value={form.severity}
+                  onValueChange={(v) => setForm({ ...form, severity: v as RaidLevel })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="high">High</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="low">Low</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Title</Label>
+              <Input
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Textarea
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={3}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Owner</Label>
+                <Input
+                  value={form.owner}
+                  onChange={(e) => setForm({ ...form, owner: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Due Date</Label>
+                <Input
+                  type="date"
+                  value={form.dueDate}
+                  onChange={(e) => setForm({ ...form, dueDate: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={saving || !form.title.trim()}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add Item
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export default RaidRegisterTab;
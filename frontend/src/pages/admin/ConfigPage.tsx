@@ -1,6 +1,6 @@
 /**
  * Admin Configuration Page
- * Manage Projects, Plan Item Types, Content Types, and Activity Types
+ * Manage Projects, Plan Item Types, Custom Fields, Content Types, and Activity Types
  */
 
 import { useState, useEffect, useCallback } from 'react';
@@ -24,12 +24,15 @@ import {
   Sparkles,
   Building2,
   Shield,
+  ListPlus,
+  Workflow,
 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   Table,
@@ -58,8 +61,9 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { useProjectStore } from '@/stores/projectStore';
-import { projectsApi } from '@/api/projects.api';
-import type { Project } from '@/types';
+import { projectsApi, type HealthFactorKey, type HealthThresholds } from '@/api/projects.api';
+import { planTemplatesApi, type PlanTemplate } from '@/api/plan-templates.api';
+import type { Project, ProgressWeighting } from '@/types';
 import {
   configApi,
   type PlanItemType,
@@ -78,6 +82,8 @@ import { AISettingsTab } from '@/components/admin/AISettingsTab';
 import { PromptTemplatesTab } from '@/components/admin/PromptTemplatesTab';
 import { OrganizationTab } from '@/components/admin/OrganizationTab';
 import { RolesTab } from '@/components/admin/RolesTab';
+import { CustomFieldsTab } from '@/components/admin/CustomFieldsTab';
+import { StatusWorkflowsTab } from '@/components/admin/StatusWorkflowsTab';
 import { useAuthStore } from '@/stores/authStore';
 
 export function ConfigPage() {
@@ -116,6 +122,14 @@ export function ConfigPage() {
             <Layers className="h-4 w-4" />
             Plan Item Types
           </TabsTrigger>
+          <TabsTrigger value="custom-fields" className="flex items-center gap-2">
+            <ListPlus className="h-4 w-4" />
+            Custom Fields
+          </TabsTrigger>
+          <TabsTrigger value="status-workflows" className="flex items-center gap-2">
+            <Workflow className="h-4 w-4" />
+            Status Workflows
+          </TabsTrigger>
           <TabsTrigger value="content-types" className="flex items-center gap-2">
             <FileType className="h-4 w-4" />
             Content Types
@@ -156,6 +170,14 @@ export function ConfigPage() {
           <PlanItemTypesTab />
         </TabsContent>
 
+        <TabsContent value="custom-fields">
+          <CustomFieldsTab />
+        </TabsContent>
+
+        <TabsContent value="status-workflows">
+          <StatusWorkflowsTab />
+        </TabsContent>
+
         <TabsContent value="content-types">
           <ContentTypesTab />
         </TabsContent>
@@ -203,6 +225,7 @@ function ProjectsTab() {
   const [editingProject, setEditingProject] = useState<Project | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [projectToDelete, setProjectToDelete] = useState<Project | null>(null);
+  const [projectToClone, setProjectToClone] = useState<Project | null>(null);
   const { setCurrentProject } = useProjectStore();
 
   const fetchProjects = useCallback(async () => {
@@ -325,6 +348,14 @@ function ProjectsTab() {
                       >
                         <Pencil className="h-4 w-4" />
                       </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Clone project"
+                        onClick={() => setProjectToClone(project)}
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="sm"
@@ -355,6 +386,12 @@ function ProjectsTab() {
         onSaved={fetchProjects}
       />
 
+      <CloneProjectDialog
+        project={projectToClone}
+        onOpenChange={(open) => !open && setProjectToClone(null)}
+        onCloned={fetchProjects}
+      />
+
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -1173,6 +1210,17 @@ function CreateApiKeyForm({ onCreated, onCancel }: CreateApiKeyFormProps) {
 
 // ============ Dialogs ============
 
+// Health factors a project can set its own RAG thresholds for, with the server defaults
+const healthFactors: Array<{ key: HealthFactorKey; label: string; unit: string; amber: number; red: number }> = [
+  { key: 'scheduleSlipDays', label: 'Schedule slip', unit: 'days', amber: 5, red: 15 },
+  { key: 'overdueItems', label: 'Overdue items', unit: 'items', amber: 1, red: 5 },
+  { key: 'highRisks', label: 'High-severity risks', unit: 'risks', amber: 1, red: 3 },
+  { key: 'blockedItems', label: 'Blocked items', unit: 'items', amber: 1, red: 3 },
+  { key: 'contentAgeDays', label: 'Content age', unit: 'days', amber: 14, red: 30 },
+];
+
+type ThresholdInputs = Partial<Record<HealthFactorKey, { amber: string; red: string }>>;
+
 interface ProjectDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -1187,8 +1235,24 @@ function ProjectDialog({ open, onOpenChange, project, onSaved }: ProjectDialogPr
   const [startDate, setStartDate] = useState('');
   const [targetEndDate, setTargetEndDate] = useState('');
   const [status, setStatus] = useState<Project['status']>('active');
+  const [progressWeighting, setProgressWeighting] = useState<ProgressWeighting>('count');
+  const [autoRollupStatus, setAutoRollupStatus] = useState(false);
+  const [thresholds, setThresholds] = useState<ThresholdInputs>({});
+  const [templateId, setTemplateId] = useState('');
+  const [templates, setTemplates] = useState<PlanTemplate[]>([]);
   const [saving, setSaving] = useState(false);
 
+  // Templates are only offered when creating a project
+  useEffect(() => {
+    if (!open || project) return;
+    planTemplatesApi
+      .list()
+      .then((response) => {
+        if (response.success && response.data) setTemplates(response.data);
+      })
+      .catch((err) => console.error('Failed to fetch plan templates:', err));
+  }, [open, project]);
+
   useEffect(() => {
     if (project) {
       setName(project.name);
@@ -1197,6 +1261,14 @@ function ProjectDialog({ open, onOpenChange, project, onSaved }: ProjectDialogPr
       setStartDate(project.startDate?.split('T')[0] || '');
       setTargetEndDate(project.targetEndDate?.split('T')[0] || '');
       setStatus(project.status);
+      setProgressWeighting(project.progressWeighting || 'count');
+      setAutoRollupStatus(project.autoRollupStatus ?? false);
+      const saved = (project.statusConfig?.health || {}) as HealthThresholds;
+      setThresholds(
+        Object.fromEntries(
+          Object.entries(saved).map(([key, t]) => [key, { amber: String(t.amber), red: String(t.red) }])
+        )
+      );
     } else {
       setName('');
       setClient('');
@@ -1204,9 +1276,33 @@ function ProjectDialog({ open, onOpenChange, project, onSaved }: ProjectDialogPr
       setStartDate(new Date().toISOString().split('T')[0]);
       setTargetEndDate('');
       setStatus('active');
+      setProgressWeighting('count');
+      setAutoRollupStatus(false);
+      setThresholds({});
+      setTemplateId('');
     }
   }, [project, open]);
 
+  // Only factors with both thresholds filled in override the defaults
+  const buildStatusConfig = (): Record<string, unknown> => {
+    const health: HealthThresholds = {};
+    for (const factor of healthFactors) {
+      const input = thresholds[factor.key];
+      if (input?.amber && input.red) {
+        health[factor.key] = { amber: Number(input.amber), red: Number(input.red) };
+      }
+    }
+    const { health: _previous, ...rest } = project?.statusConfig || {};
+    return Object.keys(health).length > 0 ? { ...rest, health } : rest;
+  };
+
+  const setThreshold = (key: HealthFactorKey, level: 'amber' | 'red', value: string) => {
+    setThresholds((prev) => ({
+      ...prev,
+      [key]: { amber: prev[key]?.amber ?? '', red: prev[key]?.red ?? '', [level]: value },
+    }));
+  };
+
   const handleSave = async () => {
     if (!name.trim() || !startDate) return;
 
@@ -1220,6 +1316,9 @@ function ProjectDialog({ open, onOpenChange, project, onSaved }: ProjectDialogPr
           startDate,
           targetEndDate: targetEndDate || null,
           status,
+          progressWeighting,
+          autoRollupStatus,
+          statusConfig: buildStatusConfig(),
         });
       } else {
         await projectsApi.create({
@@ -1229,6 +1328,10 @@ function ProjectDialog({ open, onOpenChange, project, onSaved }: ProjectDialogPr
           startDate,
           targetEndDate: targetEndDate || undefined,
           status,
+          progressWeighting,
+          autoRollupStatus,
+          statusConfig: buildStatusConfig(),
+          templateId: templateId || undefined,
         });
       }
 
@@ -1241,7 +1344,7 @@ function ProjectDialog({ open, onOpenChange, project, onSaved }: ProjectDialogPr
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{project ? 'Edit Project' : 'Create Project'}</DialogTitle>
           <DialogDescription>
@@ -1316,6 +1419,87 @@ function ProjectDialog({ open, onOpenChange, project, onSaved }: ProjectDialogPr
               <option value="cancelled">Cancelled</option>
             </select>
           </div>
+
+          {!project && templates.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="templateId">Plan Template</Label>
+              <select
+                id="templateId"
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                value={templateId}
+                onChange={(e) => setTemplateId(e.target.value)}
+              >
+                <option value="">Start with an empty plan</option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name} ({template.itemCount} items)
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="progressWeighting">Progress Roll-up</Label>
+            <select
+              id="progressWeighting"
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              value={progressWeighting}
+              onChange={(e) => setProgressWeighting(e.target.value as ProgressWeighting)}
+            >
+              <option value="count">Weight by number of child items</option>
+              <option value="effort">Weight by item effort</option>
+            </select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="autoRollupStatus">Auto-update parent status</Label>
+              <p className="text-xs text-muted-foreground">
+                Move parents to the status derived from their children, with a history entry.
+              </p>
+            </div>
+            <Switch
+              id="autoRollupStatus"
+              checked={autoRollupStatus}
+              onCheckedChange={setAutoRollupStatus}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Health Thresholds</Label>
+            <p className="text-xs text-muted-foreground">
+              A factor turns amber or red once it reaches these values. Leave blank to use the defaults shown.
+            </p>
+            <div className="grid grid-cols-[1fr_5rem_5rem] items-center gap-2 text-sm">
+              <span />
+              <span className="text-xs font-medium text-amber-700">Amber</span>
+              <span className="text-xs font-medium text-red-700">Red</span>
+              {healthFactors.map((factor) => (
+                <div key={factor.key} className="contents">
+                  <span>
+                    {factor.label} <span className="text-xs text-muted-foreground">({factor.unit})</span>
+                  </span>
+                  <Input
+                    type="number"
+                    min={0}
+                    className="h-8"
+                    placeholder={String(factor.amber)}
+                    value={thresholds[factor.key]?.amber ?? ''}
+                    onChange={(e) => setThreshold(factor.key, 'amber', e.target.value)}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    className="h-8"
+                    placeholder={String(factor.red)}
+                    value={thresholds[factor.key]?.red ?? ''}
+                    onChange={(e) => setThreshold(factor.key, 'red', e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
         </div>
 
         <DialogFooter>
@@ -1332,6 +1516,125 @@ function ProjectDialog({ open, onOpenChange, project, onSaved }: ProjectDialogPr
   );
 }
 
+interface CloneProjectDialogProps {
+  project: Project | null;
+  onOpenChange: (open: boolean) => void;
+  onCloned: () => void;
+}
+
+function CloneProjectDialog({ project, onOpenChange, onCloned }: CloneProjectDialogProps) {
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [resetStatuses, setResetStatuses] = useState(true);
+  const [resetActualDates, setResetActualDates] = useState(true);
+  const [includeContent, setIncludeContent] = useState(false);
+  const [includeReports, setIncludeReports] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (project) {
+      setName(`${project.name} (Copy)`);
+      setStartDate(project.startDate?.split('T')[0] || '');
+      setResetStatuses(true);
+      setResetActualDates(true);
+      setIncludeContent(false);
+      setIncludeReports(false);
+      setError(null);
+    }
+  }, [project]);
+
+  const handleClone = async () => {
+    if (!project || !name.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await projectsApi.clone(project.id, {
+        name: name.trim(),
+        startDate: startDate || undefined,
+        resetStatuses,
+        resetActualDates,
+        includeContent,
+        includeReports,
+      });
+      if (response.success) {
+        onOpenChange(false);
+        onCloned();
+      } else {
+        setError(response.error?.message || 'Failed to clone project');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to clone project');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const options = [
+    { id: 'resetStatuses', label: 'Reset plan statuses to not started', checked: resetStatuses, onChange: setResetStatuses },
+    { id: 'resetActualDates', label: 'Clear actual start and end dates', checked: resetActualDates, onChange: setResetActualDates },
+    { id: 'includeContent', label: 'Copy content items and their embeddings', checked: includeContent, onChange: setIncludeContent },
+    { id: 'includeReports', label: 'Copy activity reports', checked: includeReports, onChange: setIncludeReports },
+  ];
+
+  return (
+    <Dialog open={!!project} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Clone Project</DialogTitle>
+          <DialogDescription>
+            Copies the plan, dependencies and status configuration of "{project?.name}". Dates move
+            with the new start date.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="clone-name">Name *</Label>
+            <Input id="clone-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="clone-startDate">Start Date</Label>
+            <Input
+              id="clone-startDate"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+
+          {options.map((option) => (
+            <div key={option.id} className="flex items-center justify-between">
+              <Label htmlFor={`clone-${option.id}`} className="font-normal">
+                {option.label}
+              </Label>
+              <Switch
+                id={`clone-${option.id}`}
+                checked={option.checked}
+                onCheckedChange={option.onChange}
+              />
+            </div>
+          ))}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleClone} disabled={!name.trim() || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Clone Project
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 interface PlanItemTypeDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { Upload, FileText, X, CheckCircle, Building, Calendar, Tag, Sparkles, AlertTriangle, User, Clock, History } from 'lucide-react';
+import { Upload, FileText, X, CheckCircle, Building, Calendar, Tag, Sparkles, AlertTriangle, User, Clock, History, Users, Mail } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -15,6 +15,7 @@ import contentItemsApi, {
   type ActivityItemType,
   type AnalyzeContentResponse,
   type SaveAnalyzedContentInput,
+  type IntakeAddress,
 } from '@/api/content-items.api';
 import type { PlanItem } from '@/types';
 import {
@@ -27,9 +28,13 @@ import {
 import { Textarea } from '@/components/ui/textarea';
 import { Plus, Pencil, Wand2 } from 'lucide-react';
 import { IntakeHistoryTab } from '@/components/intake/IntakeHistoryTab';
+import { StakeholdersTab } from '@/components/intake/StakeholdersTab';
 
 type ViewMode = 'form' | 'analysis';
 
+// Email files are imported message by message rather than saved as one file
+const isEmailFile = (file: File) => /\.(eml|mbox)$/i.test(file.name);
+
 // Source tracking for visual distinction
 type ItemSource = 'ai' | 'ai_modified' | 'user_added';
 
@@ -73,6 +78,8 @@ export function IntakePage() {
   const [success, setSuccess] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [emailImportNotice, setEmailImportNotice] = useState<string | null>(null);
+  const [intakeAddress, setIntakeAddress] = useState<IntakeAddress | null>(null);
 
   // Analysis state
   const [viewMode, setViewMode] = useState<ViewMode>('form');
@@ -86,6 +93,18 @@ export function IntakePage() {
     }
   }, [currentProject?.id]);
 
+  // Load the project's inbound email address
+  useEffect(() => {
+    setIntakeAddress(null);
+    if (!currentProject) return;
+    contentItemsApi
+      .getIntakeAddress(currentProject.id)
+      .then(response => {
+        if (response.success && response.data) setIntakeAddress(response.data);
+      })
+      .catch(err => console.error('Failed to load intake address:', err));
+  }, [currentProject?.id]);
+
   // Load content types and activity item types
   useEffect(() => {
     const loadTypes = async () => {
@@ -209,12 +228,13 @@ export function IntakePage() {
         'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
         'text/plain',
         'text/markdown',
+        'message/rfc822',
       ];
-      if (validTypes.includes(droppedFile.type) || droppedFile.name.endsWith('.md')) {
+      if (validTypes.includes(droppedFile.type) || droppedFile.name.endsWith('.md') || isEmailFile(droppedFile)) {
         setFile(droppedFile);
         setError(null);
       } else {
-        setError('Please upload a PDF, DOCX, TXT, or MD file');
+        setError('Please upload a PDF, DOCX, TXT, MD, EML, or MBOX file');
       }
     }
   }, []);
@@ -361,6 +381,34 @@ export function IntakePage() {
     }
   };
 
+  // Import an .eml or .mbox file. Title, date and classification come from each message.
+  const handleImportEmail = async () => {
+    if (!currentProject || !file) return;
+
+    setSaving(true);
+    setError(null);
+    setEmailImportNotice(null);
+
+    try {
+      const response = await contentItemsApi.importEmail(currentProject.id, file);
+      if (response.success && response.data) {
+        const { items, skipped } = response.data;
+        setEmailImportNotice(
+          `Imported ${items.length} email${items.length === 1 ? '' : 's'}` +
+            (skipped.length > 0 ? ` (${skipped.length} already in the project)` : '')
+        );
+        resetForm();
+        setTimeout(() => setEmailImportNotice(null), 5000);
+      } else {
+        setError(response.error?.message || 'Failed to import email');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to import email');
+    } finally {
+      setSaving(false);
+    }
+  };
+
   // Save raw without AI processing
   const handleSaveRaw = async () => {
     if (!currentProject) {
@@ -899,6 +947,10 @@ export function IntakePage() {
             <History className="h-4 w-4" />
             Intake History
           </TabsTrigger>
+          <TabsTrigger value="stakeholders" className="flex items-center gap-2">
+            <Users className="h-4 w-4" />
+            Stakeholders
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="new-intake" className="mt-4">
@@ -911,6 +963,14 @@ export function IntakePage() {
               </CardContent>
             </Card>
           )}
+          {emailImportNotice && (
+            <Card className="border-green-500 bg-green-50 mb-6">
+              <CardContent className="flex items-center gap-3 py-4">
+                <CheckCircle className="h-5 w-5 text-green-500" />
+                <span className="text-green-700 font-medium">{emailImportNotice}</span>
+              </CardContent>
+            </Card>
+          )}
 
           {/* Intake Form */}
           <div className="grid gap-6 lg:grid-cols-2">
@@ -1089,11 +1149,11 @@ export function IntakePage() {
                         Drop your file here or click to browse
                       </p>
                       <p className="text-xs text-muted-foreground mb-3">
-                        Supports: PDF, DOCX, TXT, MD
+                        Supports: PDF, DOCX, TXT, MD, and email as EML or MBOX
                       </p>
                       <input
                         type="file"
-                        accept=".pdf,.docx,.txt,.md,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/plain,text/markdown"
+                        accept=".pdf,.docx,.txt,.md,.eml,.mbox,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/plain,text/markdown,message/rfc822"
                         className="hidden"
                         id="file-upload"
                         onChange={handleFileChange}
@@ -1106,7 +1166,22 @@ export function IntakePage() {
                     </>
                   )}
                 </div>
+                {file && isEmailFile(file) && (
+                  <p className="text-xs text-muted-foreground">
+                    Each message is saved and analyzed on its own, dated from its Date header. Up to 10 new messages per upload.
+                  </p>
+                )}
               </div>
+
+              {intakeAddress?.smtpEnabled && intakeAddress.address && (
+                <div className="flex items-center gap-2 rounded-md bg-slate-50 p-3 text-sm">
+                  <Mail className="h-4 w-4 shrink-0 text-slate-400" />
+                  <span className="text-muted-foreground">
+                    Or send mail to <code className="font-medium text-foreground">{intakeAddress.address}</code>{' '}
+                    through the intake SMTP server, logging in with your email and an API key
+                  </span>
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -1189,44 +1264,68 @@ export function IntakePage() {
           )}
 
           {/* Action Buttons */}
-          <div className="space-y-3">
-            <Button
-              type="button"
-              className="w-full"
-              size="lg"
-              onClick={handleAnalyze}
-              disabled={analyzing || !rawContent.trim()}
-            >
-              {analyzing ? (
-                <>
-                  <LoadingSpinner className="h-4 w-4 mr-2" />
-                  Analyzing...
-                </>
-              ) : (
-                <>
-                  <Sparkles className="h-4 w-4 mr-2" />
-                  Analyze with AI
-                </>
-              )}
-            </Button>
-            <Button
-              type="button"
-              variant="outline"
-              className="w-full"
-              size="lg"
-              onClick={handleSaveRaw}
-              disabled={saving || (!rawContent.trim() && !file)}
-            >
-              {saving ? (
-                <>
-                  <LoadingSpinner className="h-4 w-4 mr-2" />
-                  Saving...
-                </>
-              ) : (
-                'Save Without Analysis'
-              )}
-            </Button>
-          </div>
+          {file && isEmailFile(file) ? (
+            <div className="space-y-3">
+              <Button
+                type="button"
+                className="w-full"
+                size="lg"
+                onClick={handleImportEmail}
+                disabled={saving}
+              >
+                {saving ? (
+                  <>
+                    <LoadingSpinner className="h-4 w-4 mr-2" />
+                    Importing...
+                  </>
+                ) : (
+                  <>
+                    <Mail className="h-4 w-4 mr-2" />
+                    Import Email
+                  </>
+                )}
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <Button
+                type="button"
+                className="w-full"
+                size="lg"
+                onClick={handleAnalyze}
+                disabled={analyzing || !rawContent.trim()}
+              >
+                {analyzing ? (
+                  <>
+                    <LoadingSpinner className="h-4 w-4 mr-2" />
+                    Analyzing...
+                  </>
+                ) : (
+                  <>
+                    <Sparkles className="h-4 w-4 mr-2" />
+                    Analyze with AI
+                  </>
+                )}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                size="lg"
+                onClick={handleSaveRaw}
+                disabled={saving || (!rawContent.trim() && !file)}
+              >
+                {saving ? (
+                  <>
+                    <LoadingSpinner className="h-4 w-4 mr-2" />
+                    Saving...
+                  </>
+                ) : (
+                  'Save Without Analysis'
+                )}
+              </Button>
+            </div>
+          )}
         </div>
       </div>
         </TabsContent>
@@ -1234,6 +1333,10 @@ export function IntakePage() {
         <TabsContent value="history" className="mt-4">
           <IntakeHistoryTab />
         </TabsContent>
+
+        <TabsContent value="stakeholders" className="mt-4">
+          <StakeholdersTab />
+        </TabsContent>
       </Tabs>
     </div>
   );
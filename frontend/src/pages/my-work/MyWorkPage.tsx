@@ -0,0 +1,318 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { AlertTriangle, CalendarClock, CalendarX, CheckCircle2, ListChecks, ListTree, Loader2, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useProjectStore } from '@/stores/projectStore';
+import myWorkApi, { type MyWork, type MyWorkItem, type MyWorkKind } from '@/api/my-work.api';
+import raidApi from '@/api/raid.api';
+
+const STATUS_LABELS: Record<string, string> = {
+  not_started: 'Not Started',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  on_hold: 'On Hold',
+  blocked: 'Blocked',
+  cancelled: 'Cancelled',
+  open: 'Open',
+  resolved: 'Resolved',
+  closed: 'Closed',
+};
+
+const priorityColors: Record<string, string> = {
+  high: 'border-red-200 bg-red-50 text-red-700',
+  medium: 'border-amber-200 bg-amber-50 text-amber-700',
+  low: 'border-slate-200 bg-slate-50 text-slate-700',
+};
+
+const isOpenAction = (item: MyWorkItem) => item.kind === 'action' && (item.status === 'open' || item.status === 'in_progress');
+
+function DueCell({ item }: { item: MyWorkItem }) {
+  if (!item.dueDate) return <span className="text-muted-foreground">No due date</span>;
+
+  const date = format(new Date(item.dueDate), 'EEE, MMM d');
+  if (item.isOverdue) {
+    return (
+      <div className="flex items-center gap-2">
+        <span>{date}</span>
+        <Badge variant="destructive">{-item.daysUntilDue!}d overdue</Badge>
+      </div>
+    );
+  }
+  if (item.daysUntilDue !== null && item.daysUntilDue >= 0 && item.daysUntilDue <= 1) {
+    return (
+      <div className="flex items-center gap-2">
+        <span>{date}</span>
+        <Badge variant="secondary">{item.daysUntilDue === 0 ? 'Due today' : 'Due tomorrow'}</Badge>
+      </div>
+    );
+  }
+  return <span className="text-muted-foreground">{date}</span>;
+}
+
+export function MyWorkPage() {
+  const navigate = useNavigate();
+  const { projects, setCurrentProject } = useProjectStore();
+  const [work, setWork] = useState<MyWork | null>(null);
+  const [statusFilter, setStatusFilter] = useState<'open' | 'all'>('open');
+  const [kindFilter, setKindFilter] = useState<MyWorkKind | 'all'>('all');
+  const [projectFilter, setProjectFilter] = useState('all');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchWork = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await myWorkApi.get({
+        status: statusFilter,
+        kind: kindFilter === 'all' ? undefined : kindFilter,
+        projectId: projectFilter === 'all' ? undefined : projectFilter,
+      });
+      if (response.success && response.data) setWork(response.data);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to load your work');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchWork();
+  }, [statusFilter, kindFilter, projectFilter]);
+
+  // Plan items open on the plan, actions on the Activity Reporter's action tracker
+  const openItem = (item: MyWorkItem) => {
+    const project = projects.find((p) => p.id === item.project.id);
+    if (!project) return;
+    setCurrentProject(project);
+    navigate(item.kind === 'plan_item' ? '/plan' : '/reporter');
+  };
+
+  const completeAction = async (item: MyWorkItem) => {
+    setError(null);
+    try {
+      await raidApi.completeAction(item.project.id, item.id);
+      fetchWork();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to update action');
+    }
+  };
+
+  const summary = work?.summary;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">My Work</h1>
+          <p className="text-muted-foreground">
+            Plan items assigned to you and actions you own, across every project in the organization.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchWork} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Assigned</CardTitle>
+            <ListChecks className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summary?.total ?? '-'}</div>
+            {summary && (
+              <p className="text-xs text-muted-foreground">
+                {summary.planItems} plan items · {summary.actions} actions
+              </p>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Overdue</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${summary?.overdue ? 'text-red-700' : ''}`}>
+              {summary?.overdue ?? '-'}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Due This Week</CardTitle>
+            <CalendarClock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summary?.dueSoon ?? '-'}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">No Due Date</CardTitle>
+            <CalendarX className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summary?.noDueDate ?? '-'}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <CardTitle>By Due Date</CardTitle>
+              <CardDescription>Soonest first; work without a due date is listed last.</CardDescription>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={projectFilter} onValueChange={setProjectFilter}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Projects</SelectItem>
+                  {projects.map((project) => (
+                    <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={kindFilter} onValueChange={(v) => setKindFilter(v as MyWorkKind | 'all')}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Everything</SelectItem>
+                  <SelectItem value="plan_item">Plan Items</SelectItem>
+                  <SelectItem value="action">Actions</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as 'open' | 'all')}>
+                <SelectTrigger className="w-[130px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="open">Open</SelectItem>
+                  <SelectItem value="all">Include Done</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading && !work ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Due</TableHead>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Project</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[120px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {work?.items.map((item) => (
+                  <TableRow key={`${item.kind}-${item.id}`}>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      <DueCell item={item} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-start gap-2">
+                        {item.kind === 'plan_item' ? (
+                          <ListTree className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                        ) : (
+                          <ListChecks className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                        )}
+                        <div className="min-w-0">
+                          <button
+                            type="button"
+                            className="text-left font-medium hover:underline"
+                            onClick={() => openItem(item)}
+                          >
+                            {item.title}
+                          </button>
+                          <p className="text-xs text-muted-foreground">
+                            {item.kind === 'plan_item'
+                              ? [item.itemType.name, item.parent?.name].filter(Boolean).join(' · ')
+                              : 'Action item'}
+                          </p>
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {item.project.name}
+                      {item.project.client && (
+                        <p className="text-xs text-muted-foreground">{item.project.client}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap items-center gap-1">
+                        <Badge variant="outline">
+                          {item.kind === 'plan_item' && item.workflowStatus
+                            ? item.workflowStatus
+                            : STATUS_LABELS[item.status] ?? item.status}
+                        </Badge>
+                        {item.kind === 'action' && item.priority && (
+                          <Badge variant="outline" className={priorityColors[item.priority]}>
+                            {item.priority}
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {isOpenAction(item) && (
+                        <Button variant="ghost" size="sm" onClick={() => completeAction(item)}>
+                          <CheckCircle2 className="h-4 w-4 mr-1" />
+                          Done
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {work?.items.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      Nothing assigned to you{statusFilter === 'open' ? ' is open' : ''}.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default MyWorkPage;
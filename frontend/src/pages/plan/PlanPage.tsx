@@ -1,19 +1,30 @@
-import { useState, useEffect } from 'react';
-import { Plus, RefreshCw, Calendar, Building } from 'lucide-react';
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Plus, RefreshCw, Calendar, Building, ListTree, GanttChart, Columns3 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { ProjectSwitcher } from '@/components/plan/ProjectSwitcher';
 import { PlanTree } from '@/components/plan/PlanTree';
+import { PlanGantt } from '@/components/plan/PlanGantt';
+import { PlanBoard } from '@/components/plan/PlanBoard';
 import { PlanImport } from '@/components/plan/PlanImport';
 import { PlanUpdater } from '@/components/plan/PlanUpdater';
 import { PlanCreator } from '@/components/plan/PlanCreator';
+import { PlanBaselines } from '@/components/plan/PlanBaselines';
+import { PlanTemplates } from '@/components/plan/PlanTemplates';
+import { PlanHistory } from '@/components/plan/PlanHistory';
+import { PlanChanges } from '@/components/plan/PlanChanges';
+import { PlanTrash } from '@/components/plan/PlanTrash';
 import { AddPlanItemDialog } from '@/components/plan/AddPlanItemDialog';
 import { EditPlanItemDialog } from '@/components/plan/EditPlanItemDialog';
+import { PlanItemEvidenceDialog } from '@/components/plan/PlanItemEvidenceDialog';
+import { CommentThread } from '@/components/common/CommentThread';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { useProjectStore } from '@/stores/projectStore';
 import planItemsApi from '@/api/plan-items.api';
-import type { PlanItem } from '@/types';
+import commentsApi, { type CommentCount } from '@/api/comments.api';
+import type { PlanItem, CriticalPathResult, MovePlanItemInput } from '@/types';
 
 export function PlanPage() {
   const {
@@ -29,12 +40,18 @@ export function PlanPage() {
 
   // Tab state
   const [activeTab, setActiveTab] = useState('view');
+  const [planLayout, setPlanLayout] = useState<'tree' | 'timeline' | 'board'>('tree');
 
   // Dialog states
   const [addDialogOpen, setAddDialogOpen] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [parentItemForAdd, setParentItemForAdd] = useState<PlanItem | null>(null);
   const [itemToEdit, setItemToEdit] = useState<PlanItem | null>(null);
+  const [itemForComments, setItemForComments] = useState<PlanItem | null>(null);
+  const [itemForEvidence, setItemForEvidence] = useState<PlanItem | null>(null);
+
+  // Critical path schedule, recomputed whenever the plan tree changes
+  const [criticalPath, setCriticalPath] = useState<CriticalPathResult | null>(null);
 
   // Fetch plan items when project changes
   useEffect(() => {
@@ -43,6 +60,53 @@ export function PlanPage() {
     }
   }, [currentProject?.id]);
 
+  useEffect(() => {
+    if (!currentProject) return;
+
+    planItemsApi
+      .getCriticalPath(currentProject.id)
+      .then((response) => {
+        if (response.success && response.data) {
+          setCriticalPath(response.data);
+        }
+      })
+      .catch((error) => console.error('Failed to load critical path:', error));
+  }, [currentProject?.id, planItems]);
+
+  // Comment totals and unread counts per plan item, for the badges in the tree
+  const [commentCounts, setCommentCounts] = useState<CommentCount[]>([]);
+
+  const fetchCommentCounts = useCallback(() => {
+    if (!currentProject) return;
+
+    commentsApi
+      .getProjectCounts(currentProject.id)
+      .then((response) => {
+        if (response.success && response.data) {
+          setCommentCounts(response.data);
+        }
+      })
+      .catch((error) => console.error('Failed to load comment counts:', error));
+  }, [currentProject?.id]);
+
+  useEffect(() => {
+    fetchCommentCounts();
+  }, [fetchCommentCounts]);
+
+  const planItemCommentCounts = useMemo(
+    () => new Map(
+      commentCounts
+        .filter((count) => count.entityType === 'plan_item')
+        .map((count) => [count.entityId, count])
+    ),
+    [commentCounts]
+  );
+
+  const schedule = useMemo(
+    () => new Map((criticalPath?.items || []).map((entry) => [entry.planItemId, entry])),
+    [criticalPath]
+  );
+
   const handleAddItem = () => {
     setParentItemForAdd(null);
     setAddDialogOpen(true);
@@ -58,6 +122,13 @@ export function PlanPage() {
     setEditDialogOpen(true);
   };
 
+  const handleCommentsOpenChange = (open: boolean) => {
+    if (!open) {
+      setItemForComments(null);
+      fetchCommentCounts();
+    }
+  };
+
   const handleDelete = async (item: PlanItem) => {
     if (!confirm(`Are you sure you want to delete "${item.name}"? This will also delete all children.`)) {
       return;
@@ -81,6 +152,26 @@ export function PlanPage() {
     updatePlanItemInTree(updatedItem);
   };
 
+  // Saving from the dialog can change rolled-up progress (and, with auto roll-up, parent
+  // statuses), so reload the tree rather than patching the single item
+  const handleDialogSaved = (updatedItem: PlanItem) => {
+    updatePlanItemInTree(updatedItem);
+    if (currentProject) {
+      fetchPlanItems(currentProject.id);
+    }
+  };
+
+  // Moves re-root whole subtrees and renumber siblings, so reload the tree afterwards
+  const handleMove = async (item: PlanItem, input: MovePlanItemInput) => {
+    const response = await planItemsApi.move(item.id, input);
+    if (!response.success) {
+      throw new Error(response.error?.message || 'Failed to move item');
+    }
+    if (currentProject) {
+      await fetchPlanItems(currentProject.id);
+    }
+  };
+
   const handleRefresh = () => {
     if (currentProject) {
       fetchPlanItems(currentProject.id);
@@ -183,6 +274,10 @@ export function PlanPage() {
             <TabsTrigger value="creator">AI Creator</TabsTrigger>
             <TabsTrigger value="updater">AI Updater</TabsTrigger>
             <TabsTrigger value="import">Import CSV</TabsTrigger>
+            <TabsTrigger value="templates">Templates</TabsTrigger>
+            <TabsTrigger value="baselines">Baselines</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+            <TabsTrigger value="trash">Trash</TabsTrigger>
           </TabsList>
 
           {activeTab === 'view' && (
@@ -202,7 +297,43 @@ export function PlanPage() {
         <TabsContent value="view">
           <Card>
             <CardHeader>
-              <CardTitle>Project Plan</CardTitle>
+              <div className="flex items-center justify-between">
+                <CardTitle>Project Plan</CardTitle>
+                <div className="flex items-center gap-3">
+                  {criticalPath?.projectFinish && (
+                    <span className="text-sm text-muted-foreground">
+                      {criticalPath.criticalPath.length} critical items · Forecast finish{' '}
+                      {formatDate(criticalPath.projectFinish)}
+                    </span>
+                  )}
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant={planLayout === 'tree' ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setPlanLayout('tree')}
+                    >
+                      <ListTree className="h-4 w-4 mr-1" />
+                      Tree
+                    </Button>
+                    <Button
+                      variant={planLayout === 'timeline' ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setPlanLayout('timeline')}
+                    >
+                      <GanttChart className="h-4 w-4 mr-1" />
+                      Timeline
+                    </Button>
+                    <Button
+                      variant={planLayout === 'board' ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setPlanLayout('board')}
+                    >
+                      <Columns3 className="h-4 w-4 mr-1" />
+                      Board
+                    </Button>
+                  </div>
+                </div>
+              </div>
             </CardHeader>
             <CardContent>
               {planItemsLoading ? (
@@ -216,12 +347,25 @@ export function PlanPage() {
                     Try Again
                   </Button>
                 </div>
+              ) : planLayout === 'timeline' ? (
+                <PlanGantt
+                  items={planItems}
+                  schedule={schedule}
+                  onItemUpdated={handleEditSuccess}
+                />
+              ) : planLayout === 'board' ? (
+                <PlanBoard items={planItems} onItemUpdated={handleEditSuccess} onEdit={handleEdit} />
               ) : (
                 <PlanTree
                   items={planItems}
+                  schedule={schedule}
+                  commentCounts={planItemCommentCounts}
                   onEdit={handleEdit}
                   onDelete={handleDelete}
                   onAddChild={handleAddChild}
+                  onOpenComments={setItemForComments}
+                  onOpenEvidence={setItemForEvidence}
+                  onMove={handleMove}
                 />
               )}
             </CardContent>
@@ -242,6 +386,29 @@ export function PlanPage() {
         <TabsContent value="import">
           <PlanImport />
         </TabsContent>
+
+        {/* Templates Tab */}
+        <TabsContent value="templates">
+          <PlanTemplates />
+        </TabsContent>
+
+        {/* Baselines Tab */}
+        <TabsContent value="baselines">
+          <PlanBaselines />
+        </TabsContent>
+
+        {/* History Tab */}
+        <TabsContent value="history">
+          <div className="space-y-4">
+            <PlanChanges />
+            <PlanHistory />
+          </div>
+        </TabsContent>
+
+        {/* Trash Tab */}
+        <TabsContent value="trash">
+          <PlanTrash />
+        </TabsContent>
       </Tabs>
 
       {/* Add Dialog */}
@@ -257,8 +424,32 @@ export function PlanPage() {
         open={editDialogOpen}
         onOpenChange={setEditDialogOpen}
         item={itemToEdit}
-        onSuccess={handleEditSuccess}
+        onSuccess={handleDialogSaved}
+      />
+
+      {/* Evidence Dialog */}
+      <PlanItemEvidenceDialog
+        open={!!itemForEvidence}
+        onOpenChange={(open) => !open && setItemForEvidence(null)}
+        item={itemForEvidence}
       />
+
+      {/* Comments Dialog */}
+      <Dialog open={!!itemForComments} onOpenChange={handleCommentsOpenChange}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{itemForComments?.name}</DialogTitle>
+            <DialogDescription>Discuss this plan item. Use @ to mention a teammate.</DialogDescription>
+          </DialogHeader>
+          {itemForComments && (
+            <CommentThread
+              entityType="plan_item"
+              entityId={itemForComments.id}
+              onRead={fetchCommentCounts}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,436 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Briefcase, Flag, Loader2, RefreshCw, Search, AlertTriangle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { HealthBadge, HealthDot } from '@/components/common/HealthBadge';
+import { useProjectStore } from '@/stores/projectStore';
+import portfolioApi, {
+  type Portfolio,
+  type PortfolioFilters,
+  type PortfolioMilestone,
+  type PortfolioProject,
+} from '@/api/portfolio.api';
+import type { Rag } from '@/api/projects.api';
+import type { Project } from '@/types';
+
+const STATUS_LABELS: Record<Project['status'], string> = {
+  active: 'Active',
+  on_hold: 'On Hold',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+const statusColors: Record<Project['status'], string> = {
+  active: 'bg-blue-100 text-blue-800',
+  on_hold: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+const TIMELINE_WINDOWS = [30, 60, 90, 180];
+
+const formatDate = (date: string) => format(new Date(date), 'MMM d, yyyy');
+
+const formatAgo = (date: string | null) =>
+  date ? formatDistanceToNow(new Date(date), { addSuffix: true }) : 'Never';
+
+const describeDaysUntil = (days: number) => {
+  if (days === 0) return 'Today';
+  if (days < 0) return `${-days}d overdue`;
+  return `in ${days}d`;
+};
+
+// Group timeline milestones under month headings, keeping overdue ones together at the top
+const groupMilestones = (milestones: PortfolioMilestone[]) => {
+  const groups: Array<{ label: string; milestones: PortfolioMilestone[] }> = [];
+  for (const milestone of milestones) {
+    const label = milestone.isOverdue ? 'Overdue' : format(new Date(milestone.targetEndDate), 'MMMM yyyy');
+    const group = groups[groups.length - 1];
+    if (group && group.label === label) {
+      group.milestones.push(milestone);
+    } else {
+      groups.push({ label, milestones: [milestone] });
+    }
+  }
+  return groups;
+};
+
+export function PortfolioPage() {
+  const navigate = useNavigate();
+  const { projects, setCurrentProject } = useProjectStore();
+  const [portfolio, setPortfolio] = useState<Portfolio | null>(null);
+  const [milestones, setMilestones] = useState<PortfolioMilestone[]>([]);
+  const [search, setSearch] = useState('');
+  const [clientFilter, setClientFilter] = useState('all');
+  const [statusFilter, setStatusFilter] = useState<Project['status'] | 'all'>('active');
+  const [healthFilter, setHealthFilter] = useState<Rag | 'all'>('all');
+  const [timelineDays, setTimelineDays] = useState(90);
+  const [loading, setLoading] = useState(false);
+  const [milestonesLoading, setMilestonesLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const filters: PortfolioFilters = {
+    client: clientFilter === 'all' ? undefined : clientFilter,
+    status: statusFilter === 'all' ? undefined : statusFilter,
+    search: search.trim() || undefined,
+  };
+
+  const fetchPortfolio = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await portfolioApi.getPortfolio({
+        ...filters,
+        health: healthFilter === 'all' ? undefined : healthFilter,
+      });
+      if (response.success && response.data) setPortfolio(response.data);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to load portfolio');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchMilestones = async () => {
+    setMilestonesLoading(true);
+    try {
+      const response = await portfolioApi.getUpcomingMilestones({ ...filters, days: timelineDays });
+      if (response.success && response.data) setMilestones(response.data.milestones);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to load milestones');
+    } finally {
+      setMilestonesLoading(false);
+    }
+  };
+
+  // Debounce so typing in the search box does not refetch on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(fetchPortfolio, 300);
+    return () => clearTimeout(timer);
+  }, [search, clientFilter, statusFilter, healthFilter]);
+
+  useEffect(() => {
+    const timer = setTimeout(fetchMilestones, 300);
+    return () => clearTimeout(timer);
+  }, [search, clientFilter, statusFilter, timelineDays]);
+
+  const openProject = (projectId: string, path: string) => {
+    const project = projects.find((p) => p.id === projectId);
+    if (!project) return;
+    setCurrentProject(project);
+    navigate(path);
+  };
+
+  const summary = portfolio?.summary;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Portfolio</h1>
+          <p className="text-muted-foreground">
+            Health, milestones and recent activity across every project in the organization.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            fetchPortfolio();
+            fetchMilestones();
+          }}
+          disabled={loading}
+        >
+          <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-5">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Projects</CardTitle>
+            <Briefcase className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summary?.totalProjects ?? '-'}</div>
+          </CardContent>
+        </Card>
+        {(['green', 'amber', 'red'] as const).map((rag) => (
+          <Card
+            key={rag}
+            className={`cursor-pointer transition-colors hover:bg-slate-50 ${healthFilter === rag ? 'ring-2 ring-primary' : ''}`}
+            onClick={() => setHealthFilter(healthFilter === rag ? 'all' : rag)}
+          >
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium capitalize">{rag}</CardTitle>
+              <HealthDot rag={rag} className="h-3 w-3" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{summary?.[rag] ?? '-'}</div>
+            </CardContent>
+          </Card>
+        ))}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Overdue Items</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summary?.overdueItems ?? '-'}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <CardTitle>Projects</CardTitle>
+              <CardDescription>
+                {portfolio ? `Health as of ${formatDate(portfolio.asOf)}` : 'Loading...'}
+              </CardDescription>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="relative">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search projects..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="w-[200px] pl-8"
+                />
+              </div>
+              <Select value={clientFilter} onValueChange={setClientFilter}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Clients</SelectItem>
+                  {portfolio?.clients.map((client) => (
+                    <SelectItem key={client} value={client}>{client}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={statusFilter}
+                onValueChange={(v) => setStatusFilter(v as Project['status'] | 'all')}
+              >
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Statuses</SelectItem>
+                  {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={healthFilter} onValueChange={(v) => setHealthFilter(v as Rag | 'all')}>
+                <SelectTrigger className="w-[130px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Health</SelectItem>
+                  <SelectItem value="green">Green</SelectItem>
+                  <SelectItem value="amber">Amber</SelectItem>
+                  <SelectItem value="red">Red</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading && !portfolio ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Project</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Health</TableHead>
+                  <TableHead>Next Milestone</TableHead>
+                  <TableHead className="text-right">Overdue</TableHead>
+                  <TableHead>Last Content</TableHead>
+                  <TableHead>Last Report</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {portfolio?.projects.map((project) => (
+                  <PortfolioRow
+                    key={project.id}
+                    project={project}
+                    onOpen={(path) => openProject(project.id, path)}
+                  />
+                ))}
+                {portfolio?.projects.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      No projects match these filters.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Upcoming Milestones</CardTitle>
+              <CardDescription>
+                Open milestones across the projects above, including any already past their target date.
+              </CardDescription>
+            </div>
+            <Select value={String(timelineDays)} onValueChange={(v) => setTimelineDays(Number(v))}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TIMELINE_WINDOWS.map((days) => (
+                  <SelectItem key={days} value={String(days)}>Next {days} days</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {milestonesLoading && milestones.length === 0 ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : milestones.length === 0 ? (
+            <p className="py-4 text-center text-sm text-muted-foreground">
+              No open milestones due in the next {timelineDays} days.
+            </p>
+          ) : (
+            <div className="space-y-6">
+              {groupMilestones(milestones).map((group) => (
+                <div key={group.label}>
+                  <h4
+                    className={`mb-2 text-sm font-semibold ${group.label === 'Overdue' ? 'text-red-700' : ''}`}
+                  >
+                    {group.label}
+                  </h4>
+                  <div className="space-y-2 border-l-2 border-slate-200 pl-4">
+                    {group.milestones.map((milestone) => (
+                      <div key={milestone.id} className="relative flex items-center gap-3 text-sm">
+                        <span
+                          className={`absolute -left-[21px] h-2 w-2 rounded-full ${
+                            milestone.isOverdue ? 'bg-red-500' : 'bg-blue-500'
+                          }`}
+                        />
+                        <span className="w-24 shrink-0 text-muted-foreground">
+                          {format(new Date(milestone.targetEndDate), 'EEE, MMM d')}
+                        </span>
+                        <Flag className="h-4 w-4 shrink-0 text-muted-foreground" />
+                        <div className="min-w-0 flex-1">
+                          <button
+                            type="button"
+                            className="truncate font-medium hover:underline"
+                            onClick={() => openProject(milestone.project.id, '/plan')}
+                          >
+                            {milestone.name}
+                          </button>
+                          <p className="truncate text-xs text-muted-foreground">
+                            {milestone.project.name}
+                            {milestone.project.client && ` · ${milestone.project.client}`}
+                            {milestone.workstream && ` · ${milestone.workstream.name}`}
+                            {milestone.owner && ` · ${milestone.owner}`}
+                          </p>
+                        </div>
+                        <Badge
+                          variant="outline"
+                          className={milestone.isOverdue ? 'border-red-200 bg-red-50 text-red-700' : ''}
+                        >
+                          {describeDaysUntil(milestone.daysUntil)}
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function PortfolioRow({ project, onOpen }: { project: PortfolioProject; onOpen: (path: string) => void }) {
+  const worstFactors = project.health.factors.filter((f) => f.rag !== 'green');
+
+  return (
+    <TableRow>
+      <TableCell>
+        <button type="button" className="text-left font-medium hover:underline" onClick={() => onOpen('/dashboard')}>
+          {project.name}
+        </button>
+        {project.client && <p className="text-xs text-muted-foreground">{project.client}</p>}
+      </TableCell>
+      <TableCell>
+        <span
+          className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${statusColors[project.status]}`}
+        >
+          {STATUS_LABELS[project.status]}
+        </span>
+      </TableCell>
+      <TableCell>
+        <div title={worstFactors.map((f) => `${f.label}: ${f.detail}`).join('\n') || 'All factors green'}>
+          <HealthBadge rag={project.health.rag} score={project.health.score} />
+        </div>
+      </TableCell>
+      <TableCell>
+        {project.nextMilestone ? (
+          <button type="button" className="text-left hover:underline" onClick={() => onOpen('/plan')}>
+            <span className="block text-sm">{project.nextMilestone.name}</span>
+            <span className="text-xs text-muted-foreground">
+              {formatDate(project.nextMilestone.targetEndDate)} ({describeDaysUntil(project.nextMilestone.daysUntil)})
+            </span>
+          </button>
+        ) : (
+          <span className="text-sm text-muted-foreground">None scheduled</span>
+        )}
+      </TableCell>
+      <TableCell className="text-right">
+        <span className={project.overdueItems > 0 ? 'font-semibold text-red-700' : 'text-muted-foreground'}>
+          {project.overdueItems}
+        </span>
+      </TableCell>
+      <TableCell className="text-sm text-muted-foreground">{formatAgo(project.lastContentIngestedAt)}</TableCell>
+      <TableCell className="text-sm text-muted-foreground">{formatAgo(project.lastReportAt)}</TableCell>
+    </TableRow>
+  );
+}
+
+export default PortfolioPage;
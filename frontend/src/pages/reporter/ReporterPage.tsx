@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { format, subDays, startOfWeek, endOfWeek, subWeeks } from 'date-fns';
 import {
   FileText,
@@ -15,6 +16,12 @@ import {
   Presentation,
   History,
   Plus,
+  ShieldAlert,
+  CalendarClock,
+  GitCompare,
+  HeartPulse,
+  ListChecks,
+  Gavel,
 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -54,12 +61,20 @@ import type {
 } from '@/api/activity-reporter.api';
 import { outputFormatterApi } from '@/api/output-formatter.api';
 import { ReportHistoryTab } from '@/components/reporter/ReportHistoryTab';
+import { CommentThread } from '@/components/common/CommentThread';
+import { RaidRegisterTab } from '@/components/reporter/RaidRegisterTab';
+import { ActionTrackerTab } from '@/components/reporter/ActionTrackerTab';
+import { DecisionLogTab } from '@/components/reporter/DecisionLogTab';
+import { SlipBadge } from '@/components/plan/SlipBadge';
+import { HealthBadge, HealthDot } from '@/components/common/HealthBadge';
 
 type PeriodPreset = 'this_week' | 'last_week' | 'last_2_weeks' | 'custom';
 
 export function ReporterPage() {
   const { currentProject } = useProjectStore();
-  const [activeTab, setActiveTab] = useState('generate');
+  // Reminder emails link straight to a tab with ?tab=
+  const [searchParams] = useSearchParams();
+  const [activeTab, setActiveTab] = useState(searchParams.get('tab') || 'generate');
   const [periodPreset, setPeriodPreset] = useState<PeriodPreset>('this_week');
   const [periodStart, setPeriodStart] = useState(format(startOfWeek(new Date(), { weekStartsOn: 1 }), 'yyyy-MM-dd'));
   const [periodEnd, setPeriodEnd] = useState(format(endOfWeek(new Date(), { weekStartsOn: 1 }), 'yyyy-MM-dd'));
@@ -70,12 +85,15 @@ export function ReporterPage() {
   // Collapsible section states
   const [openSections, setOpenSections] = useState<Record<string, boolean>>({
     summary: true,
+    health: true,
     statusUpdates: true,
     actionItems: true,
     risks: true,
     decisions: false,
     blockers: true,
     suggestedUpdates: false,
+    scheduleVariance: true,
+    planChanges: true,
   });
 
   // Source dialog state
@@ -231,12 +249,15 @@ export function ReporterPage() {
     // Open all sections for better visibility
     setOpenSections({
       summary: true,
+      health: true,
       statusUpdates: true,
       actionItems: true,
       risks: true,
       decisions: true,
       blockers: true,
       suggestedUpdates: true,
+      scheduleVariance: true,
+      planChanges: true,
     });
   };
 
@@ -283,6 +304,18 @@ export function ReporterPage() {
             <History className="h-4 w-4" />
             Report History
           </TabsTrigger>
+          <TabsTrigger value="raid" className="flex items-center gap-2">
+            <ShieldAlert className="h-4 w-4" />
+            RAID Register
+          </TabsTrigger>
+          <TabsTrigger value="actions" className="flex items-center gap-2">
+            <ListChecks className="h-4 w-4" />
+            Action Tracker
+          </TabsTrigger>
+          <TabsTrigger value="decisions" className="flex items-center gap-2">
+            <Gavel className="h-4 w-4" />
+            Decision Log
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="generate" className="mt-4 space-y-6">
@@ -378,6 +411,45 @@ export function ReporterPage() {
             <p className="text-sm whitespace-pre-wrap">{report.reportData.summary}</p>
           </ReportSection>
 
+          {/* Project Health (reports generated before health scoring have none) */}
+          {report.reportData.health && (
+            <ReportSection
+              title={`Project Health as of ${report.reportData.health.asOf}`}
+              icon={<HeartPulse className="h-4 w-4 text-rose-500" />}
+              isOpen={openSections.health}
+              onToggle={() => toggleSection('health')}
+            >
+              <div className="space-y-3">
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-medium">Overall:</span>
+                  <HealthBadge rag={report.reportData.health.rag} score={report.reportData.health.score} />
+                </div>
+                {report.reportData.health.factors.map((factor) => (
+                  <div key={factor.key} className="flex items-center gap-2 text-sm">
+                    <HealthDot rag={factor.rag} />
+                    <span className="font-medium">{factor.label}:</span>
+                    <span className="text-muted-foreground">{factor.detail}</span>
+                  </div>
+                ))}
+                {report.reportData.health.workstreams.map((workstream) => (
+                  <div key={workstream.planItemId} className="flex items-start justify-between border rounded-lg p-3 bg-muted/30">
+                    <div>
+                      <p className="font-medium text-sm">{workstream.name}</p>
+                      {workstream.factors
+                        .filter((factor) => factor.rag !== 'green')
+                        .map((factor) => (
+                          <p key={factor.key} className="text-xs text-muted-foreground">
+                            {factor.label}: {factor.detail}
+                          </p>
+                        ))}
+                    </div>
+                    <HealthBadge rag={workstream.rag} score={workstream.score} />
+                  </div>
+                ))}
+              </div>
+            </ReportSection>
+          )}
+
           {/* Status Updates */}
           <ReportSection
             title={`Status Updates (${report.reportData.statusUpdates.length})`}
@@ -410,13 +482,21 @@ export function ReporterPage() {
             {report.reportData.actionItems.length === 0 ? (
               <p className="text-sm text-muted-foreground">No action items found.</p>
             ) : (
-              <div className="space-y-3">
-                {report.reportData.actionItems.map((item, i) => (
-                  <ActionItemCard
-                    key={i}
-                    item={item}
-                    onViewSource={() => handleViewSources(item.sourceContentIds)}
-                  />
+              <div className="space-y-4">
+                {groupActionsByOwner(report.reportData.actionItems).map(group => (
+                  <div key={group.key} className="space-y-2">
+                    <h4 className="text-sm font-semibold">
+                      {group.owner}{' '}
+                      <span className="font-normal text-muted-foreground">({group.items.length})</span>
+                    </h4>
+                    {group.items.map((item, i) => (
+                      <ActionItemCard
+                        key={i}
+                        item={item}
+                        onViewSource={() => handleViewSources(item.sourceContentIds)}
+                      />
+                    ))}
+                  </div>
                 ))}
               </div>
             )}
@@ -488,6 +568,61 @@ export function ReporterPage() {
             )}
           </ReportSection>
 
+          {/* Schedule Variance (only when the project has a baseline) */}
+          {report.reportData.scheduleVariance && (
+            <ReportSection
+              title={`Schedule Variance vs ${report.reportData.scheduleVariance.baselineName}`}
+              icon={<CalendarClock className="h-4 w-4 text-orange-500" />}
+              isOpen={openSections.scheduleVariance}
+              onToggle={() => toggleSection('scheduleVariance')}
+            >
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-medium">Project end:</span>
+                  <SlipBadge days={report.reportData.scheduleVariance.projectEndSlipDays} />
+                </div>
+                {[
+                  ...report.reportData.scheduleVariance.workstreams,
+                  ...report.reportData.scheduleVariance.milestones,
+                ].map((row) => (
+                  <div key={row.planItemId} className="flex items-center justify-between border rounded-lg p-3 bg-muted/30">
+                    <div>
+                      <p className="font-medium text-sm">{row.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Baseline {row.baselineEndDate || '-'} · Current {row.currentEndDate || '-'}
+                      </p>
+                    </div>
+                    <SlipBadge days={row.endSlipDays} />
+                  </div>
+                ))}
+              </div>
+            </ReportSection>
+          )}
+
+          {/* Plan Changes (only when the plan changed during the period) */}
+          {report.reportData.planChanges && (
+            <ReportSection
+              title="Plan Changes"
+              icon={<GitCompare className="h-4 w-4 text-indigo-500" />}
+              isOpen={openSections.planChanges}
+              onToggle={() => toggleSection('planChanges')}
+            >
+              <div className="space-y-3">
+                {report.reportData.planChanges.workstreams.map((workstream) => (
+                  <div key={workstream.name} className="space-y-2">
+                    <p className="font-medium text-sm">{workstream.name}</p>
+                    {workstream.items.map((item) => (
+                      <div key={item.planItemId} className="border rounded-lg p-3 bg-muted/30">
+                        <p className="font-medium text-sm">{item.name}</p>
+                        <p className="text-xs text-muted-foreground">{item.details.join(' · ')}</p>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </ReportSection>
+          )}
+
           {/* Suggested Plan Updates */}
           {report.reportData.suggestedPlanUpdates.length > 0 && (
             <ReportSection
@@ -511,6 +646,13 @@ export function ReporterPage() {
               </div>
             </ReportSection>
           )}
+
+          {/* Comments on the report, e.g. to challenge a generated section */}
+          <Card>
+            <CardContent className="py-4">
+              <CommentThread entityType="activity_report" entityId={report.id} />
+            </CardContent>
+          </Card>
         </div>
       )}
 
@@ -554,6 +696,18 @@ export function ReporterPage() {
         <TabsContent value="history" className="mt-4">
           <ReportHistoryTab onViewReport={handleViewReport} />
         </TabsContent>
+
+        <TabsContent value="raid" className="mt-4">
+          <RaidRegisterTab />
+        </TabsContent>
+
+        <TabsContent value="actions" className="mt-4">
+          <ActionTrackerTab />
+        </TabsContent>
+
+        <TabsContent value="decisions" className="mt-4">
+          <DecisionLogTab />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -621,6 +775,15 @@ function StatusBadge({ status }: { status: string }) {
   );
 }
 
+function RegisterBadge({ isNew }: { isNew?: boolean }) {
+  if (isNew === undefined) return null;
+  return (
+    <Badge variant="outline" className={isNew ? 'border-green-300 text-green-700' : ''}>
+      {isNew ? 'new' : 'tracked'}
+    </Badge>
+  );
+}
+
 function ViewSourceButton({ onClick, disabled }: { onClick: () => void; disabled?: boolean }) {
   return (
     <Button
@@ -654,6 +817,25 @@ function StatusUpdateCard({ update, onViewSource }: { update: StatusUpdate; onVi
   );
 }
 
+// Actions resolved to the same stakeholder are one person's, whatever name the content used;
+// unowned actions come last
+function groupActionsByOwner(items: ActionItem[]) {
+  const groups = new Map<string, { key: string; owner: string; items: ActionItem[] }>();
+  items.forEach(item => {
+    const key = item.stakeholderId || item.owner?.trim().toLowerCase() || '';
+    const group = groups.get(key) || { key, owner: item.owner?.trim() || 'Unassigned', items: [] };
+    group.items.push(item);
+    groups.set(key, group);
+  });
+
+  const unassigned = groups.get('');
+  groups.delete('');
+  return [
+    ...Array.from(groups.values()).sort((a, b) => a.owner.localeCompare(b.owner)),
+    ...(unassigned ? [unassigned] : []),
+  ];
+}
+
 function ActionItemCard({ item, onViewSource }: { item: ActionItem; onViewSource: () => void }) {
   return (
     <div className="border rounded-lg p-3">
@@ -665,6 +847,7 @@ function ActionItemCard({ item, onViewSource }: { item: ActionItem; onViewSource
             {item.priority}
           </Badge>
           <ConfidenceBadge confidence={item.confidence} />
+          <RegisterBadge isNew={item.isNew} />
         </div>
         <ViewSourceButton onClick={onViewSource} disabled={item.sourceContentIds.length === 0} />
       </div>
@@ -689,6 +872,7 @@ function RiskCard({ risk, onViewSource }: { risk: Risk; onViewSource: () => void
             {risk.severity} severity
           </Badge>
           <ConfidenceBadge confidence={risk.confidence} />
+          <RegisterBadge isNew={risk.isNew} />
         </div>
         <ViewSourceButton onClick={onViewSource} disabled={risk.sourceContentIds.length === 0} />
       </div>
@@ -709,6 +893,7 @@ function DecisionCard({ decision, onViewSource }: { decision: Decision; onViewSo
         <div className="flex items-center gap-2">
           <span className="font-medium text-sm">{decision.title}</span>
           <ConfidenceBadge confidence={decision.confidence} />
+          <RegisterBadge isNew={decision.isNew} />
         </div>
         <ViewSourceButton onClick={onViewSource} disabled={decision.sourceContentIds.length === 0} />
       </div>
@@ -730,6 +915,7 @@ function BlockerCard({ blocker, onViewSource }: { blocker: Blocker; onViewSource
         <div className="flex items-center gap-2">
           <span className="font-medium text-sm">{blocker.title}</span>
           <ConfidenceBadge confidence={blocker.confidence} />
+          <RegisterBadge isNew={blocker.isNew} />
         </div>
         <ViewSourceButton onClick={onViewSource} disabled={blocker.sourceContentIds.length === 0} />
       </div>
@@ -11,11 +11,13 @@ import {
   Loader2,
   BarChart3,
   TrendingUp,
+  HeartPulse,
 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import { HealthBadge, HealthDot } from '@/components/common/HealthBadge';
 import { useAuthStore } from '@/stores/authStore';
 import { useProjectStore } from '@/stores/projectStore';
 import { projectsApi, type ProjectDashboard } from '@/api/projects.api';
@@ -145,8 +147,8 @@ export function DashboardPage() {
   const completedItems = dashboard?.planItems.byStatus.find(s =>
     s.status === 'completed' || s.status === 'done'
   )?.count || 0;
-  const totalPlanItems = dashboard?.planItems.total || 0;
-  const planProgress = totalPlanItems > 0 ? Math.round((completedItems / totalPlanItems) * 100) : 0;
+  // Progress is rolled up through the plan hierarchy by the API
+  const planProgress = dashboard?.planItems.progress?.overall ?? 0;
 
   return (
     <div className="space-y-6">
@@ -174,6 +176,59 @@ export function DashboardPage() {
         </div>
       </div>
 
+      {/* Project Health */}
+      {dashboard?.health && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <HeartPulse className="h-5 w-5 text-muted-foreground" />
+                Project Health
+              </CardTitle>
+              <CardDescription>
+                Schedule, overdue work, risks, blockers and content recency as of{' '}
+                {format(new Date(dashboard.health.asOf), 'MMM d, yyyy')}
+              </CardDescription>
+            </div>
+            <HealthBadge rag={dashboard.health.rag} score={dashboard.health.score} className="text-sm" />
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              {dashboard.health.factors.map((factor) => (
+                <div key={factor.key} className="flex items-center gap-2 text-sm">
+                  <HealthDot rag={factor.rag} />
+                  <span className="w-40 font-medium">{factor.label}</span>
+                  <span className="text-muted-foreground">{factor.detail}</span>
+                </div>
+              ))}
+            </div>
+
+            {dashboard.health.workstreams.length > 0 && (
+              <div className="space-y-2 border-t pt-4">
+                <p className="text-sm font-medium">Workstreams</p>
+                {dashboard.health.workstreams.map((workstream) => {
+                  const contributing = workstream.factors.filter((f) => f.rag !== 'green');
+                  return (
+                    <div key={workstream.planItemId} className="flex items-start justify-between gap-4 text-sm">
+                      <div>
+                        <span className="font-medium">{workstream.name}</span>
+                        {contributing.map((factor) => (
+                          <p key={factor.key} className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                            <HealthDot rag={factor.rag} />
+                            {factor.label}: {factor.detail}
+                          </p>
+                        ))}
+                      </div>
+                      <HealthBadge rag={workstream.rag} score={workstream.score} />
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Stats Cards */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
@@ -307,6 +362,36 @@ export function DashboardPage() {
         </Card>
       </div>
 
+      {/* Workstream Progress */}
+      {dashboard && dashboard.planItems.progress?.workstreams.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Workstream Progress</CardTitle>
+            <CardDescription>
+              Rolled up from child items, weighted by {dashboard.planItems.progress.weighting === 'effort' ? 'effort' : 'item count'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {dashboard.planItems.progress.workstreams.map((workstream) => (
+                <div key={workstream.id} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">{workstream.name}</span>
+                    <div className="flex items-center gap-2">
+                      <Badge className={statusColors[workstream.derivedStatus] || 'bg-gray-100'}>
+                        {workstream.derivedStatus.replace(/_/g, ' ')}
+                      </Badge>
+                      <span className="text-muted-foreground w-10 text-right">{workstream.progress}%</span>
+                    </div>
+                  </div>
+                  <Progress value={workstream.progress} className="h-2" />
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Recent Content & Reports */}
       <div className="grid gap-4 md:grid-cols-2">
         {/* Recent Content Items */}
@@ -187,11 +187,15 @@ export interface Project {
   targetEndDate: string | null;
   status: 'active' | 'completed' | 'on_hold' | 'cancelled';
   statusConfig: Record<string, unknown>;
+  progressWeighting: ProgressWeighting;
+  autoRollupStatus: boolean;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+export type ProgressWeighting = 'count' | 'effort';
+
 // Plan Item types
 export interface PlanItemType {
   id: number;
@@ -206,6 +210,14 @@ export interface PlanItemType {
   isActive: boolean;
 }
 
+// An organization member assigned to a plan item
+export interface PlanItemOwner {
+  id: number;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
 export interface PlanItem {
   id: string;
   projectId: string;
@@ -213,15 +225,22 @@ export interface PlanItem {
   itemTypeId: number;
   name: string;
   description: string | null;
+  // Free text for owners outside the organization; the assignee's name when ownerUserId is set
   owner: string | null;
-  status: 'not_started' | 'in_progress' | 'completed' | 'on_hold' | 'cancelled';
+  ownerUserId: number | null;
+  ownerUser?: PlanItemOwner | null;
+  status: 'not_started' | 'in_progress' | 'completed' | 'on_hold' | 'blocked' | 'cancelled';
+  // Workflow status key when the item's type has a status workflow; status holds its category
+  workflowStatus: string | null;
   startDate: string | null;
   targetEndDate: string | null;
   actualStartDate: string | null;
   actualEndDate: string | null;
+  effort: number | null;
   notes: string | null;
-  references: string[];
   sortOrder: number;
+  // Organization-defined field values keyed by field key
+  customFields: Record<string, string | number>;
   path: string;
   depth: number;
   isActive: boolean;
@@ -229,6 +248,9 @@ export interface PlanItem {
   updatedAt: string;
   itemType: PlanItemType;
   children?: PlanItem[];
+  // Rolled up from children when the plan tree is fetched
+  progress?: number;
+  derivedStatus?: PlanItem['status'];
 }
 
 export interface PlanItemHistory {
@@ -240,21 +262,105 @@ export interface PlanItemHistory {
   changedByUserId: number | null;
   changedByEmail: string | null;
   changeReason: string | null;
+  // Shared by the entries written by one plan-updates apply or revert
+  batchId: string | null;
   createdAt: string;
 }
 
+// A history entry in the project-wide change feed
+export interface PlanHistoryEntry extends PlanItemHistory {
+  planItem: { id: string; name: string; isActive: boolean };
+}
+
+export interface PlanRevertOptions {
+  preview?: boolean;
+  force?: boolean;
+  reason?: string;
+}
+
+export interface PlanRevertChange {
+  planItemId: string;
+  itemName: string;
+  field: string;
+  currentValue: string | null;
+  revertTo: string | null;
+  // Edited again after the reverted change; only reverted with force
+  conflict: boolean;
+}
+
+export interface PlanRevertResult {
+  preview: boolean;
+  batchId: string | null;
+  changes: PlanRevertChange[];
+  skipped: Array<{ planItemId: string; itemName: string; field: string; reason: string }>;
+}
+
+// A status a plan item is in or can move to. Workflow statuses map onto a built-in category.
+export interface PlanItemStatusOption {
+  key: string;
+  label: string;
+  category: PlanItem['status'];
+  color?: string;
+  requiredFields?: string[];
+  requireReason?: boolean;
+}
+
+export interface PlanItemTransitions {
+  hasWorkflow: boolean;
+  current: PlanItemStatusOption;
+  options: PlanItemStatusOption[];
+}
+
+export type DependencyType = 'finish_to_start' | 'start_to_start' | 'finish_to_finish';
+
+export interface PlanItemDependency {
+  id: string;
+  projectId: string;
+  predecessorId: string;
+  successorId: string;
+  type: DependencyType;
+  lagDays: number;
+  predecessor: { id: string; name: string };
+  successor: { id: string; name: string };
+  createdAt: string;
+}
+
+export interface CriticalPathItem {
+  planItemId: string;
+  name: string;
+  durationDays: number;
+  earlyStart: string;
+  earlyFinish: string;
+  lateStart: string;
+  lateFinish: string;
+  slackDays: number;
+  isCritical: boolean;
+}
+
+export interface CriticalPathResult {
+  projectStart: string | null;
+  projectFinish: string | null;
+  criticalPath: string[];
+  items: CriticalPathItem[];
+}
+
 export interface CreatePlanItemInput {
   parentId?: string;
   itemTypeId: number;
   name: string;
   description?: string;
   owner?: string;
-  status?: PlanItem['status'];
+  // An organization member to assign; their name replaces owner
+  ownerUserId?: number | null;
+  // A built-in status or a status key from the item type's workflow
+  status?: string;
   startDate?: string;
   targetEndDate?: string;
+  effort?: number | null;
   notes?: string;
   references?: string[];
   sortOrder?: number;
+  customFields?: Record<string, string | number | null>;
 }
 
 export interface UpdatePlanItemInput {
@@ -263,12 +369,42 @@ export interface UpdatePlanItemInput {
   name?: string;
   description?: string | null;
   owner?: string | null;
-  status?: PlanItem['status'];
+  // Null unassigns the member; a changed owner sent on its own replaces them with free text
+  ownerUserId?: number | null;
+  // A built-in status or a status key from the item type's workflow
+  status?: string;
   startDate?: string | null;
   targetEndDate?: string | null;
+  effort?: number | null;
   actualStartDate?: string | null;
   actualEndDate?: string | null;
   notes?: string | null;
   references?: string[];
   sortOrder?: number;
+  // Merged over the item's current values; null clears a field
+  customFields?: Record<string, string | number | null>;
+  changeReason?: string;
+}
+
+export interface MovePlanItemInput {
+  parentId: string | null;
+  beforeId?: string;
+  afterId?: string;
+  changeReason?: string;
+}
+
+export interface BulkUpdatePlanItemsInput {
+  updates: Array<{
+    id: string;
+    status?: PlanItem['status'];
+    notes?: string | null;
+    references?: string[];
+    changeReason?: string;
+  }>;
+}
+
+export interface BulkUpdateResult {
+  id: string;
+  success: boolean;
+  error?: string;
 }